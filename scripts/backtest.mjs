@@ -0,0 +1,112 @@
+// Offline backtest runner.
+// Usage:
+//   npm run backtest -- --file data/BTCUSDT-5m.csv --symbol BTCUSDT [--profiles ai-matic,ai-matic-pro]
+//                       [--balance 1000] [--risk 0.01] [--warmup 300] [--out report.json]
+//   npm run backtest -- --store --symbol BTCUSDT [--interval 5] [--venue bybit] [--from 2026-01-01] [--to ...]
+//   (--store reads the server candle store, see scripts/candles.mjs)
+import fs from "node:fs";
+import path from "node:path";
+import {
+  BACKTEST_PROFILES,
+  parseCandlesCsv,
+  parseCandlesJson,
+  runBacktestForProfiles,
+} from "../src/engine/backtest.ts";
+import { getCandleStore } from "../server/candleStore.js";
+
+function parseArgs(argv) {
+  const out = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next == null || next.startsWith("--")) {
+      out[key] = true;
+    } else {
+      out[key] = next;
+      i += 1;
+    }
+  }
+  return out;
+}
+
+function loadCandles(file) {
+  const text = fs.readFileSync(file, "utf8");
+  return path.extname(file).toLowerCase() === ".json"
+    ? parseCandlesJson(text)
+    : parseCandlesCsv(text);
+}
+
+function parseTime(value) {
+  if (value == null || value === true) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Date.parse(String(value));
+}
+
+async function loadStoredCandles(args) {
+  const store = getCandleStore(String(args.venue ?? "bybit"));
+  return store.read(String(args.symbol).toUpperCase(), String(args.interval ?? "5"), {
+    from: parseTime(args.from),
+    to: parseTime(args.to),
+  });
+}
+
+function fmt(value, digits = 2) {
+  if (!Number.isFinite(value)) return value > 0 ? "inf" : "-";
+  return value.toFixed(digits);
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.file && !(args.store && args.symbol)) {
+  console.error("Missing --file <candles.csv|candles.json> or --store --symbol <SYM>");
+  process.exit(1);
+}
+
+const symbol = String(args.symbol ?? path.basename(args.file).split(/[-_.]/)[0]).toUpperCase();
+const profiles = args.profiles
+  ? String(args.profiles).split(",").map((p) => p.trim()).filter(Boolean)
+  : BACKTEST_PROFILES;
+const unknown = profiles.filter((p) => !BACKTEST_PROFILES.includes(p));
+if (unknown.length) {
+  console.error(`Unknown profiles: ${unknown.join(", ")}`);
+  process.exit(1);
+}
+
+const config = {};
+if (args.balance) config.initialBalance = Number(args.balance);
+if (args.risk) config.riskPerTrade = Number(args.risk);
+if (args.warmup) config.warmupBars = Number(args.warmup);
+if (args["max-candles"]) config.maxCandles = Number(args["max-candles"]);
+
+const candles = args.store ? await loadStoredCandles(args) : loadCandles(args.file);
+console.log(`[backtest] ${symbol}: ${candles.length} candles, profiles=${profiles.join(",")}`);
+
+const results = runBacktestForProfiles({ symbol, candles, profiles, config });
+
+console.table(
+  results.map((r) => ({
+    profile: r.profile,
+    trades: r.stats.trades,
+    winRate: fmt(r.stats.winRate * 100, 1),
+    profitFactor: fmt(r.stats.profitFactor),
+    netPnl: fmt(r.stats.netPnl),
+    returnPct: fmt(r.stats.returnPct * 100),
+    maxDD: fmt(r.stats.maxDrawdownPct * 100),
+    avgR: fmt(r.stats.avgR),
+    errors: r.stats.decisionErrors,
+  }))
+);
+
+for (const r of results) {
+  if (r.stats.decisionErrors) {
+    console.warn(
+      `[backtest] ${r.profile}: decision threw on ${r.stats.decisionErrors} bars, first: ${r.stats.firstDecisionError}`
+    );
+  }
+}
+
+if (args.out) {
+  fs.writeFileSync(String(args.out), JSON.stringify(results, null, 2));
+  console.log(`[backtest] report written to ${args.out}`);
+}
@@ -0,0 +1,114 @@
+// Maintains the server candle store (CANDLE_STORE_DIR, default server/.data/candles).
+// Usage:
+//   npm run candles -- import --file data/BTCUSDT-5m.csv --symbol BTCUSDT --interval 5
+//   npm run candles -- export --symbol BTCUSDT --interval 5 [--from 2026-01-01] [--to ...] [--out x.csv]
+//   npm run candles -- gaps   --symbol BTCUSDT --interval 5 [--from ...] [--to ...]
+//   npm run candles -- repair --symbol BTCUSDT --interval 5 [--from ...] [--to ...]
+//   npm run candles -- list
+// Every command takes [--venue bybit|bybit-testnet] (default bybit).
+import fs from "node:fs";
+import { getCandleStore } from "../server/candleStore.js";
+
+const REST_URLS = {
+  bybit: "https://api.bybit.com",
+  "bybit-testnet": "https://api-demo.bybit.com",
+};
+
+function parseArgs(argv) {
+  const out = { _: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      out._.push(arg);
+      continue;
+    }
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next == null || next.startsWith("--")) {
+      out[key] = true;
+    } else {
+      out[key] = next;
+      i += 1;
+    }
+  }
+  return out;
+}
+
+function parseTime(value) {
+  if (value == null || value === true) return undefined;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n;
+  const parsed = Date.parse(String(value));
+  if (!Number.isFinite(parsed)) {
+    console.error(`Invalid time: ${value}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const command = args._[0];
+const venue = String(args.venue ?? "bybit");
+const store = getCandleStore(venue);
+
+if (command === "list") {
+  console.log((await store.keys()).sort().join("\n"));
+  process.exit(0);
+}
+
+if (!["import", "export", "gaps", "repair"].includes(command)) {
+  console.error("Usage: candles <import|export|gaps|repair|list> --symbol <SYM> --interval <min>");
+  process.exit(1);
+}
+if (!args.symbol || !args.interval) {
+  console.error("Missing --symbol <SYM> or --interval <minutes>");
+  process.exit(1);
+}
+
+const symbol = String(args.symbol).toUpperCase();
+const interval = String(args.interval);
+const range = { from: parseTime(args.from), to: parseTime(args.to) };
+
+if (command === "import") {
+  if (!args.file) {
+    console.error("Missing --file <candles.csv>");
+    process.exit(1);
+  }
+  const written = await store.importCsv(symbol, interval, fs.readFileSync(String(args.file), "utf8"));
+  console.log(`[candles] ${symbol} ${interval}: ${written} candles imported`);
+} else if (command === "export") {
+  const csv = await store.exportCsv(symbol, interval, range);
+  if (args.out) {
+    fs.writeFileSync(String(args.out), csv);
+    console.log(`[candles] ${symbol} ${interval}: written to ${args.out}`);
+  } else {
+    process.stdout.write(csv);
+  }
+} else if (command === "gaps") {
+  const gaps = await store.findGaps(symbol, interval, range);
+  console.table(
+    gaps.map((gap) => ({
+      from: new Date(gap.from).toISOString(),
+      to: new Date(gap.to).toISOString(),
+      missing: gap.missing,
+    }))
+  );
+} else {
+  const base = REST_URLS[venue];
+  if (!base) {
+    console.error(`repair supports venues: ${Object.keys(REST_URLS).join(", ")}`);
+    process.exit(1);
+  }
+  const written = await store.repairGaps(symbol, interval, {
+    ...range,
+    fetchPage: async ({ end, limit }) => {
+      const url = `${base}/v5/market/kline?category=linear&symbol=${symbol}&interval=${interval}&limit=${limit}&end=${end}`;
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`kline_failed:${res.status}`);
+      const json = await res.json();
+      return json?.result?.list ?? [];
+    },
+  });
+  const left = await store.findGaps(symbol, interval, range);
+  console.log(`[candles] ${symbol} ${interval}: ${written} candles repaired, ${left.length} gaps left`);
+}
@@ -0,0 +1,146 @@
+// Walk-forward BotConfig optimizer.
+// Usage:
+//   npm run optimize -- --file data/BTCUSDT-5m.csv [--profile ai-matic] [--method grid|random]
+//                       [--param atrEntryMultiplier=1.5:3:0.5] [--param adxThreshold=20,25,30]
+//                       [--params ranges.json] [--samples 50] [--seed 1]
+//                       [--is 2000] [--oos 500] [--step 500] [--min-trades 5] [--top 10] [--out report.json]
+//
+// ranges.json is an array of { key, values? | min, max, step } entries.
+import fs from "node:fs";
+import path from "node:path";
+import {
+  BACKTEST_PROFILES,
+  parseCandlesCsv,
+  parseCandlesJson,
+} from "../src/engine/backtest.ts";
+import {
+  DEFAULT_OPTIMIZER_PARAMS,
+  runWalkForwardOptimization,
+} from "../src/engine/optimizer.ts";
+
+const REPEATABLE = new Set(["param"]);
+
+function parseArgs(argv) {
+  const out = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    const value = next == null || next.startsWith("--") ? true : next;
+    if (value !== true) i += 1;
+    if (REPEATABLE.has(key)) {
+      out[key] = [...(out[key] ?? []), value];
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function loadCandles(file) {
+  const text = fs.readFileSync(file, "utf8");
+  return path.extname(file).toLowerCase() === ".json"
+    ? parseCandlesJson(text)
+    : parseCandlesCsv(text);
+}
+
+// key=min:max:step or key=a,b,c
+function parseInlineParam(spec) {
+  const [key, raw] = String(spec).split("=");
+  if (!key || !raw) throw new Error(`Invalid --param ${spec}`);
+  if (raw.includes(":")) {
+    const [min, max, step] = raw.split(":").map(Number);
+    return { key, min, max, step };
+  }
+  return {
+    key,
+    values: raw.split(",").map((v) => {
+      const n = Number(v);
+      return Number.isFinite(n) ? n : v === "true" ? true : v === "false" ? false : v;
+    }),
+  };
+}
+
+function fmt(value, digits = 2) {
+  if (!Number.isFinite(value)) return value > 0 ? "inf" : "-";
+  return value.toFixed(digits);
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.file) {
+  console.error("Missing --file <candles.csv|candles.json>");
+  process.exit(1);
+}
+
+const symbol = String(args.symbol ?? path.basename(args.file).split(/[-_.]/)[0]).toUpperCase();
+const profile = String(args.profile ?? "ai-matic");
+if (!BACKTEST_PROFILES.includes(profile)) {
+  console.error(`Unknown profile: ${profile}`);
+  process.exit(1);
+}
+
+let params = [];
+if (args.params) {
+  params = JSON.parse(fs.readFileSync(String(args.params), "utf8"));
+}
+for (const spec of args.param ?? []) {
+  params.push(parseInlineParam(spec));
+}
+if (!params.length) params = DEFAULT_OPTIMIZER_PARAMS;
+
+const config = { backtest: {} };
+if (args.method) config.method = String(args.method);
+if (args.samples) config.samples = Number(args.samples);
+if (args.seed) config.seed = Number(args.seed);
+if (args.is) config.inSampleBars = Number(args.is);
+if (args.oos) config.outOfSampleBars = Number(args.oos);
+if (args.step) config.stepBars = Number(args.step);
+if (args["min-trades"]) config.minTrades = Number(args["min-trades"]);
+if (args.balance) config.backtest.initialBalance = Number(args.balance);
+if (args.warmup) config.backtest.warmupBars = Number(args.warmup);
+
+const candles = loadCandles(args.file);
+console.log(
+  `[optimize] ${symbol} ${profile}: ${candles.length} candles, params=${params.map((p) => p.key).join(",")}`
+);
+
+const report = runWalkForwardOptimization({ symbol, candles, profile, params, config });
+const top = Number(args.top ?? 10);
+
+console.table(
+  report.ranked.slice(0, top).map((r) => ({
+    rank: r.rank,
+    params: JSON.stringify(r.params),
+    eligible: r.eligible,
+    score: fmt(r.score, 3),
+    oosTrades: r.outOfSample.trades,
+    oosPF: fmt(r.outOfSample.profitFactor),
+    oosWinRate: fmt(r.outOfSample.winRate * 100, 1),
+    oosMaxDD: fmt(r.outOfSample.maxDrawdownPct * 100),
+    isPF: fmt(r.inSample.profitFactor),
+  }))
+);
+
+console.log(`[optimize] walk-forward (best in-sample per window):`);
+console.table(
+  report.walkForward.map((step) => ({
+    window: step.window.index,
+    params: JSON.stringify(step.params),
+    isPF: fmt(step.inSample.profitFactor),
+    oosPF: fmt(step.outOfSample.profitFactor),
+    oosNet: fmt(step.outOfSample.netPnl),
+  }))
+);
+
+if (report.best) {
+  console.log("[optimize] Partial<BotConfig> to paste into settings:");
+  console.log(JSON.stringify(report.best, null, 2));
+} else {
+  console.log("[optimize] no configuration reached --min-trades out of sample");
+}
+
+if (args.out) {
+  fs.writeFileSync(String(args.out), JSON.stringify(report, null, 2));
+  console.log(`[optimize] report written to ${args.out}`);
+}
@@ -0,0 +1,75 @@
+// Replays a recorded aggregator session (AGGREGATOR_RECORD_DIR) offline.
+// Usage:
+//   npm run replay -- --file recordings/testnet_<user>_<ts>.jsonl [--risk-mode ai-matic-pro]
+//                     [--symbols BTCUSDT,ETHUSDT] [--speed 0] [--out snapshot.json]
+import fs from "node:fs";
+import { loadRecording } from "../server/trafficRecorder.js";
+import { replayPersistentSession } from "../server/persistentAggregator.js";
+
+function parseArgs(argv) {
+  const out = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next == null || next.startsWith("--")) {
+      out[key] = true;
+    } else {
+      out[key] = next;
+      i += 1;
+    }
+  }
+  return out;
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.file) {
+  console.error("Missing --file <recording.jsonl>");
+  process.exit(1);
+}
+
+const frames = loadRecording(String(args.file));
+const counts = frames.reduce((acc, frame) => {
+  const key = `${frame.source}:${frame.channel}`;
+  acc[key] = (acc[key] ?? 0) + 1;
+  return acc;
+}, {});
+console.log(`[replay] ${frames.length} frames`, counts);
+
+const decisions = [];
+const seenSignals = new Set();
+const { snapshot } = await replayPersistentSession(frames, {
+  riskMode: args["risk-mode"],
+  symbols: args.symbols,
+  speed: args.speed ? Number(args.speed) : 0,
+  listeners: [
+    {
+      onDecision(session, symbol, decision) {
+        const signal = decision?.signal;
+        if (!signal || seenSignals.has(signal.id)) return;
+        seenSignals.add(signal.id);
+        decisions.push({
+          time: new Date(session.now()).toISOString(),
+          symbol,
+          side: signal.intent?.side,
+          entry: signal.intent?.entry,
+          sl: signal.intent?.sl,
+          tp: signal.intent?.tp,
+        });
+      },
+    },
+  ],
+});
+
+console.table(decisions);
+console.log(
+  `[replay] positions=${snapshot.positions?.result?.list?.length ?? 0} orders=${
+    snapshot.orders?.result?.list?.length ?? 0
+  } engineError=${snapshot.engine.lastError ?? "-"}`
+);
+
+if (args.out) {
+  fs.writeFileSync(String(args.out), JSON.stringify({ decisions, snapshot }, null, 2));
+  console.log(`[replay] snapshot written to ${args.out}`);
+}
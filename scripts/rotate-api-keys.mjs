@@ -0,0 +1,41 @@
+// Encrypts and rotates the user_api_keys rows (server/keyVault.js).
+// Usage:
+//   npm run api-keys -- generate-key
+//   npm run api-keys -- reencrypt [--dry-run]
+// `reencrypt` encrypts plaintext rows and re-wraps data keys of rows sealed
+// with a previous master key. Rotation: set the new key as API_KEYS_MASTER_KEY
+// (with a new API_KEYS_MASTER_KEY_ID), move the old one to
+// API_KEYS_PREVIOUS_MASTER_KEYS as id:base64, run reencrypt, then drop the
+// old key once it reports no failures.
+import { generateMasterKey, getKeyVault } from "../server/keyVault.js";
+import { reencryptUserApiKeys } from "../server/userCredentials.js";
+
+const [command, ...rest] = process.argv.slice(2);
+const dryRun = rest.includes("--dry-run");
+
+if (command === "generate-key") {
+  console.log(generateMasterKey());
+  process.exit(0);
+}
+
+if (command !== "reencrypt") {
+  console.error("Usage: api-keys <generate-key|reencrypt> [--dry-run]");
+  process.exit(1);
+}
+
+const vault = getKeyVault();
+if (!vault) {
+  console.error("API_KEYS_MASTER_KEY is not set");
+  process.exit(1);
+}
+
+const report = await reencryptUserApiKeys({ vault, dryRun });
+console.log(
+  `[api-keys] ${dryRun ? "dry run, " : ""}master key ${vault.currentKeyId}: ` +
+    `${report.scanned} rows, ${report.encrypted} encrypted, ${report.rewrapped} re-wrapped, ` +
+    `${report.cleared} cleared, ${report.unchanged} unchanged, ${report.failed.length} failed`
+);
+if (report.failed.length) {
+  console.table(report.failed);
+  process.exit(1);
+}
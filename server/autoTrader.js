@@ -0,0 +1,755 @@
+// ===========================================
+// Headless auto-trading executor
+// ===========================================
+//
+// Places the entries of the persistent aggregator sessions' decisions, so
+// orders keep flowing while no browser tab is open. Per user and env:
+//   - strategy gates shared with the dashboard hook through
+//     src/engine/executionPolicy.js: AMD phases, tree adaptive gate, 1h/5m
+//     trend, tree 5m trend, risk-off, OLIkella gates, score, AI-MATIC Core
+//     groups, profile checklist and the AI-MATIC swing cooldown (the
+//     dashboard's altseason rotation is not applied here)
+//   - generic gates: open position / capacity, buy lock, open entry order,
+//     pending intent, entry lock, intent and re-entry cooldowns, max orders,
+//     positions missing a stop loss; in hedge mode only the leg of the
+//     signal's side counts as the open position
+//   - SL/TP normalization and sizing from src/engine/executionPolicy.js
+//     (fixed-fractional, vol-target or Kelly model from the settings)
+//   - orders go through orderService.submitOrder (signal dedup, risk gate +
+//     journal) with the signal's deterministic orderLinkId
+//   - account updates only start the re-entry cooldown of closed legs; a leg
+//     left without a stop loss is repaired by the protection watchdog
+//   - OPEN and ERROR log entries are also sent as user notifications
+// The enabled flag and settings are kept in a JSON file (AUTOTRADE_STATE_FILE,
+// default server/.data/autotrade.json) and resumed on boot; runtime state
+// (cooldowns, logs) is per process.
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  CORE_V2_RISK_PCT,
+  DEFAULT_MAINNET_PER_TRADE_USD,
+  DEFAULT_TESTNET_PER_TRADE_USD,
+  ENTRY_ORDER_LOCK_MS,
+  INTENT_COOLDOWN_MS,
+  KELLY_STATS_WINDOW,
+  MAINNET_FALLBACK_LEVERAGE,
+  POSITION_GATE_TTL_MS,
+  REENTRY_COOLDOWN_MS,
+  SCALP_COOLDOWN_MS,
+  SCALP_RISK_OFF_MULT,
+  buildIntentOrderPayload,
+  clampPerTradeUsd,
+  computeFixedSizing,
+  computeNotionalForSignal,
+  deriveOrderLinkId,
+  evaluateEntryCore,
+  evaluateSignalGates,
+  evaluateStrategyEntryGates,
+  normalizeProtectionLevels,
+  normalizeSizingSettings,
+  positionCapacityGate,
+  resolveAiMaticSwingTf,
+  resolveEquity,
+  resolveSizingRiskPct,
+  resolveSwingCooldownUntil,
+  summarizeTradeStats,
+  swingCooldownGate,
+} from "../src/engine/executionPolicy.js";
+import { resolveStrategy } from "../src/engine/strategyRegistry.js";
+import { positionBlocksEntry, positionLegKey } from "../src/engine/positionMode.js";
+import { submitOrder as submitVenueOrder } from "./orderService.js";
+import { getNotifier } from "./notifications.js";
+import { getTradeJournal } from "./tradeJournal.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_AUTOTRADE_FILE = path.resolve(__dirname, ".data/autotrade.json");
+const MAX_LOGS = 200;
+const MAX_SEEN_SIGNALS = 500;
+const INTENT_EXPIRE_MS = 30_000;
+const CLOSED_PNL_WINDOW = 100;
+const TREND_GATE_MODES = new Set(["adaptive", "follow", "reverse"]);
+
+export const DEFAULT_AUTOTRADE_SETTINGS = {
+  maxOpenPositions: 5,
+  maxOpenOrders: 16,
+  perTradeTestnetUsd: DEFAULT_TESTNET_PER_TRADE_USD,
+  perTradeMainnetUsd: DEFAULT_MAINNET_PER_TRADE_USD,
+  useDynamicPositionSizing: true,
+  trendGateMode: "adaptive",
+  enableSoftGates: true,
+  gateOverrides: {},
+  ...normalizeSizingSettings(),
+};
+
+/**
+ * Keeps the known settings keys, falling back to `base` for missing or
+ * invalid values.
+ */
+export function normalizeAutoTradeSettings(input, base = DEFAULT_AUTOTRADE_SETTINGS) {
+  const next = { ...DEFAULT_AUTOTRADE_SETTINGS, ...base };
+  const count = (value, fallback) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? Math.round(n) : fallback;
+  };
+  if (input && typeof input === "object") {
+    next.maxOpenPositions = count(input.maxOpenPositions, next.maxOpenPositions);
+    next.maxOpenOrders = count(input.maxOpenOrders, next.maxOpenOrders);
+    next.perTradeTestnetUsd = clampPerTradeUsd(input.perTradeTestnetUsd, next.perTradeTestnetUsd);
+    next.perTradeMainnetUsd = clampPerTradeUsd(input.perTradeMainnetUsd, next.perTradeMainnetUsd);
+    if (typeof input.useDynamicPositionSizing === "boolean") {
+      next.useDynamicPositionSizing = input.useDynamicPositionSizing;
+    }
+    if (TREND_GATE_MODES.has(input.trendGateMode)) next.trendGateMode = input.trendGateMode;
+    if (typeof input.enableSoftGates === "boolean") next.enableSoftGates = input.enableSoftGates;
+    if (input.gateOverrides && typeof input.gateOverrides === "object") {
+      next.gateOverrides = Object.fromEntries(
+        Object.entries(input.gateOverrides).filter(([, value]) => typeof value === "boolean")
+      );
+    }
+    Object.assign(next, normalizeSizingSettings(input, next));
+  }
+  return next;
+}
+
+export function createFileAutoTradeStore(filePath = DEFAULT_AUTOTRADE_FILE) {
+  let configs = null;
+
+  function load() {
+    if (configs) return configs;
+    configs = {};
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      configs = parsed?.configs && typeof parsed.configs === "object" ? parsed.configs : {};
+    }
+    return configs;
+  }
+
+  return {
+    kind: "file",
+    get(key) {
+      return load()[key] ?? null;
+    },
+    set(key, config) {
+      load()[key] = config;
+      if (!filePath) return;
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify({ version: 1, configs }));
+      fs.renameSync(tmp, filePath);
+    },
+    list() {
+      return Object.values(load());
+    },
+  };
+}
+
+function stateKey(userId, env) {
+  return `${env}:${userId}`;
+}
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+function openPositionsOf(snapshot) {
+  return extractList(snapshot?.positions).filter((p) => {
+    const size = toNumber(p?.size ?? p?.qty);
+    return Number.isFinite(size) && size > 0 && p?.symbol;
+  });
+}
+
+function isActiveOrder(order) {
+  const status = String(order?.orderStatus ?? "").toLowerCase().replace(/[^a-z]/g, "");
+  return (
+    status === "new" ||
+    status === "created" ||
+    status === "untriggered" ||
+    status === "partiallyfilled"
+  );
+}
+
+// Entry orders exclude reduce-only exits and attached TP/SL legs.
+function isEntryOrder(order) {
+  if (!isActiveOrder(order)) return false;
+  if (order?.reduceOnly === true || String(order?.reduceOnly) === "true") return false;
+  const stopType = String(order?.stopOrderType ?? "").toLowerCase();
+  if (stopType === "stoploss" || stopType === "takeprofit" || stopType === "trailingstop") {
+    return false;
+  }
+  return !String(order?.orderFilter ?? "").toLowerCase().includes("tpsl");
+}
+
+function isWaitingLimitOrder(order) {
+  return isEntryOrder(order) && String(order?.orderType ?? "").toLowerCase() === "limit";
+}
+
+function resolveEntryType(signal) {
+  const raw = signal?.entryType;
+  return raw === "CONDITIONAL" || raw === "LIMIT" || raw === "LIMIT_MAKER_FIRST" || raw === "MARKET"
+    ? raw
+    : "LIMIT_MAKER_FIRST";
+}
+
+function walletEquityFields(wallet) {
+  const account = extractList(wallet)[0];
+  if (!account) return null;
+  return {
+    availableBalance: account.totalAvailableBalance ?? account.availableBalance,
+    totalEquity: account.totalEquity,
+    totalWalletBalance: account.totalWalletBalance,
+  };
+}
+
+/**
+ * Win rate and payoff of the profile's last closed journal entries, the
+ * input of the Kelly sizing model.
+ */
+export async function loadJournalTradeStats({ userId, env, profile }) {
+  const list = await getTradeJournal().query({
+    userId,
+    env,
+    profile,
+    status: "CLOSED",
+    limit: KELLY_STATS_WINDOW,
+  });
+  // The journal lists newest first.
+  return summarizeTradeStats(list.map((entry) => entry.realizedPnl).reverse());
+}
+
+/**
+ * Closed PnL records (`{ pnl, ts }`) of the account's recent journal entries,
+ * the input of the OLIkella risk-off gate.
+ */
+export async function loadJournalClosedPnl({ userId, env }) {
+  const list = await getTradeJournal().query({
+    userId,
+    env,
+    status: "CLOSED",
+    limit: CLOSED_PNL_WINDOW,
+  });
+  return list
+    .map((entry) => ({ pnl: toNumber(entry.realizedPnl), ts: Date.parse(entry.closedAt ?? "") }))
+    .filter((record) => Number.isFinite(record.pnl) && Number.isFinite(record.ts));
+}
+
+function markSeen(runtime, signalId) {
+  runtime.seenSignals.add(signalId);
+  if (runtime.seenSignals.size > MAX_SEEN_SIGNALS) {
+    runtime.seenSignals.delete(runtime.seenSignals.values().next().value);
+  }
+}
+
+function errorMessage(err) {
+  return err?.message ? String(err.message) : String(err ?? "unknown_error");
+}
+
+/**
+ * `session` is a persistent aggregator session (or any object with the same
+ * `userId`, `env`, `useTestnet`, `venue`, `creds`, `snapshot`,
+ * `ws.lastUpdateAt` and `engine.riskMode`/`engine.decisions` fields); the
+ * executor only reads it.
+ */
+export function createAutoTrader({
+  store = createFileAutoTradeStore(null),
+  submitOrder = submitVenueOrder,
+  now = Date.now,
+  notify = () => {},
+  loadTradeStats = async () => null,
+  loadClosedPnl = async () => null,
+} = {}) {
+  const runtimes = new Map();
+  let logSeq = 0;
+
+  function runtimeOf(key) {
+    let runtime = runtimes.get(key);
+    if (!runtime) {
+      runtime = {
+        logs: [],
+        seenSignals: new Set(),
+        pending: new Set(),
+        lastIntentAt: new Map(),
+        entryLockAt: new Map(),
+        lastCloseAt: new Map(),
+        blockFingerprint: new Map(),
+        swingCooldownUntil: new Map(),
+        openLegs: null,
+      };
+      runtimes.set(key, runtime);
+    }
+    return runtime;
+  }
+
+  function addLog(runtime, action, message, id) {
+    const ts = now();
+    runtime.logs = [
+      {
+        id: `autotrade:${id ?? `${action}:${ts}:${(logSeq += 1)}`}`,
+        timestamp: new Date(ts).toISOString(),
+        action,
+        message: `[server] ${message}`,
+      },
+      ...runtime.logs,
+    ].slice(0, MAX_LOGS);
+  }
+
+  // OPEN and ERROR entries also go out as user notifications (closes and
+  // missing protection are reported by the notification session listener).
+  function report(session, runtime, action, symbol, message, id) {
+    addLog(runtime, action, message, id);
+    if (action !== "OPEN" && action !== "ERROR") return;
+    Promise.resolve(
+      notify(session.userId, { type: action, env: session.env, symbol, message })
+    ).catch(() => {});
+  }
+
+  function configOf(userId, env) {
+    return store.get(stateKey(userId, env));
+  }
+
+  function getStatus(userId, env) {
+    const key = stateKey(userId, env);
+    const config = configOf(userId, env);
+    const runtime = runtimeOf(key);
+    return {
+      enabled: Boolean(config?.enabled),
+      settings: normalizeAutoTradeSettings(config?.settings),
+      riskMode: config?.riskMode ?? null,
+      symbols: config?.symbols ?? null,
+      updatedAt: config?.updatedAt ?? null,
+      pending: Array.from(runtime.pending),
+      logs: runtime.logs,
+    };
+  }
+
+  /**
+   * Enables/disables the executor and updates its settings. `riskMode` and
+   * `symbols` are remembered so the session can be resumed after a restart.
+   */
+  function configure(userId, env, patch = {}) {
+    const key = stateKey(userId, env);
+    const prev = configOf(userId, env);
+    const enabled = typeof patch.enabled === "boolean" ? patch.enabled : Boolean(prev?.enabled);
+    const next = {
+      userId,
+      env,
+      enabled,
+      riskMode: patch.riskMode ?? prev?.riskMode ?? null,
+      symbols: Array.isArray(patch.symbols) ? patch.symbols : prev?.symbols ?? null,
+      settings: normalizeAutoTradeSettings(patch.settings, prev?.settings),
+      updatedAt: now(),
+    };
+    store.set(key, next);
+    if (enabled !== Boolean(prev?.enabled)) {
+      addLog(runtimeOf(key), "SYSTEM", `auto-trading ${enabled ? "enabled" : "disabled"}`);
+    }
+    return getStatus(userId, env);
+  }
+
+  function listEnabled() {
+    return store.list().filter((config) => config?.enabled && config.userId && config.env);
+  }
+
+  function resolveLeverage(session, symbol) {
+    const position = openPositionsOf(session.snapshot).find((p) => p.symbol === symbol);
+    const leverage = toNumber(position?.leverage);
+    return Number.isFinite(leverage) && leverage > 0 ? leverage : MAINNET_FALLBACK_LEVERAGE;
+  }
+
+  function entryBlockReasons(session, runtime, config, { symbol, side, riskMode }) {
+    const ts = now();
+    const positions = openPositionsOf(session.snapshot);
+    const orders = extractList(session.snapshot?.orders);
+    const hasSymbolPosition = positions.some((p) => p.symbol === symbol && positionBlocksEntry(p, side));
+    const hasWaitingLimitOrder = orders.some(
+      (o) => isWaitingLimitOrder(o) && String(o?.symbol ?? "") === symbol
+    );
+    const entryOrdersTotal = orders.filter(isEntryOrder).length;
+    const blocks = [];
+
+    // Pending intents reserve a slot until the venue confirms the order.
+    const capacityGate = positionCapacityGate({
+      hasSymbolPosition,
+      openPositionsTotal: positions.length + runtime.pending.size,
+      maxPos: config.settings.maxOpenPositions,
+    });
+    if (!capacityGate.ok) blocks.push(capacityGate);
+    if (side === "Buy" && (hasSymbolPosition || hasWaitingLimitOrder)) {
+      blocks.push({ ok: false, code: "BUY_LOCK", reason: "active position or waiting limit order" });
+    }
+    if (orders.some((o) => isEntryOrder(o) && String(o?.symbol ?? "") === symbol)) {
+      blocks.push({ ok: false, code: "OPEN_ORDER", reason: "open order" });
+    }
+    if (runtime.pending.has(symbol)) {
+      blocks.push({ ok: false, code: "PENDING_INTENT", reason: "pending intent" });
+    }
+    const lockTs = runtime.entryLockAt.get(symbol) ?? 0;
+    if (lockTs && ts - lockTs < ENTRY_ORDER_LOCK_MS) {
+      const remainingSec = Math.ceil((ENTRY_ORDER_LOCK_MS - (ts - lockTs)) / 1000);
+      blocks.push({ ok: false, code: "ENTRY_LOCK", reason: `entry lock ${remainingSec}s` });
+    }
+    const intentTs = runtime.lastIntentAt.get(symbol) ?? 0;
+    if (intentTs && ts - intentTs < INTENT_COOLDOWN_MS) {
+      const remainingSec = Math.ceil((INTENT_COOLDOWN_MS - (ts - intentTs)) / 1000);
+      blocks.push({ ok: false, code: "RECENT_INTENT", reason: `recent intent ${remainingSec}s` });
+    }
+    const closeCooldownMs = riskMode === "ai-matic-olikella" ? SCALP_COOLDOWN_MS : REENTRY_COOLDOWN_MS;
+    const closeTs = runtime.lastCloseAt.get(symbol) ?? 0;
+    if (closeTs && ts - closeTs < closeCooldownMs) {
+      const remainingSec = Math.ceil((closeCooldownMs - (ts - closeTs)) / 1000);
+      blocks.push({ ok: false, code: "RECENT_CLOSE", reason: `recent close ${remainingSec}s` });
+    }
+    const maxOrders = config.settings.maxOpenOrders;
+    if (maxOrders <= 0 || entryOrdersTotal + runtime.pending.size >= maxOrders) {
+      blocks.push({ ok: false, code: "MAX_ORDERS", reason: "max orders" });
+    }
+    const unprotected = positions.filter((p) => !(toNumber(p?.stopLoss) > 0));
+    if (unprotected.length > 0) {
+      const sample = unprotected.slice(0, 3).map((p) => p.symbol).join(",");
+      blocks.push({
+        ok: false,
+        code: "PROTECTION_INACTIVE",
+        reason: `missing SL ${unprotected.length} (${sample})`,
+      });
+    }
+    if (riskMode === "ai-matic") {
+      const swingGate = swingCooldownGate(
+        runtime.swingCooldownUntil.get(symbol) ?? Number.NaN,
+        ts,
+        POSITION_GATE_TTL_MS
+      );
+      if (!swingGate.ok) blocks.push(swingGate);
+    }
+    return blocks;
+  }
+
+  /**
+   * Runs one aggregator decision through the entry pipeline. Resolves once the
+   * order (if any) has been answered by the venue.
+   */
+  async function onDecision(session, symbol, decision) {
+    const config = configOf(session.userId, session.env);
+    if (!config?.enabled) return null;
+    const runtime = runtimeOf(stateKey(session.userId, session.env));
+    const signal = decision?.signal ?? null;
+    if (!signal || decision?.halted) return null;
+
+    const signalId = String(signal.id ?? `${symbol}-${now()}`);
+    if (runtime.seenSignals.has(signalId)) return null;
+
+    const riskMode = session.engine?.riskMode ?? config.riskMode ?? "ai-matic";
+    const profileLabel = resolveStrategy(riskMode).label;
+    const intent = signal.intent ?? {};
+    const entry = toNumber(intent.entry);
+    const side = String(intent.side ?? "").toLowerCase() === "buy" ? "Buy" : "Sell";
+    const entryType = resolveEntryType(signal);
+    const logSignal = () =>
+      addLog(
+        runtime,
+        "SIGNAL",
+        `${symbol} ${side} entry ${intent.entry} | sl ${intent.sl} | tp ${intent.tp}`,
+        `signal:${signalId}`
+      );
+
+    // A signal is done once it is submitted or fails a check of its own;
+    // capacity, locks and cooldowns leave it open for the next decision.
+    const blockByGate = (verdict) => {
+      markSeen(runtime, signalId);
+      addLog(runtime, "RISK_BLOCK", verdict.message, `gate:${signalId}`);
+      return { placed: false, reason: verdict.code };
+    };
+    const signalGates = evaluateSignalGates({
+      symbol,
+      riskMode,
+      decision,
+      signal,
+      trendGateMode: config.settings.trendGateMode,
+    });
+    if (!signalGates.ok) {
+      logSignal();
+      return blockByGate(signalGates);
+    }
+
+    const blocks = entryBlockReasons(session, runtime, config, { symbol, side, riskMode });
+    if (blocks.length > 0) {
+      const [first] = blocks;
+      const fingerprint = blocks.map((b) => b.code).join("|");
+      if (runtime.blockFingerprint.get(symbol) !== fingerprint) {
+        runtime.blockFingerprint.set(symbol, fingerprint);
+        addLog(
+          runtime,
+          "STATUS",
+          `${symbol} ${profileLabel} gate [${first.code}]: ${first.reason} -> skip entry`,
+          `gate:${signalId}`
+        );
+      }
+      return { placed: false, reason: first.code };
+    }
+    runtime.blockFingerprint.delete(symbol);
+
+    // Reserve the slot before the first await, so decisions arriving
+    // together cannot all pass the capacity gate.
+    const lockedAt = runtime.entryLockAt.get(symbol);
+    runtime.pending.add(symbol);
+    runtime.entryLockAt.set(symbol, now());
+    let submitted = false;
+    logSignal();
+    try {
+      const equity = resolveEquity(walletEquityFields(session.snapshot?.wallet), session.useTestnet);
+      const isScalpProfile = riskMode === "ai-matic-olikella";
+      // Feed age as on the dashboard: time since the session's last market update.
+      const lastUpdateAt = toNumber(session.ws?.lastUpdateAt);
+      const strategyGates = evaluateStrategyEntryGates({
+        symbol,
+        riskMode,
+        decision,
+        signal,
+        side,
+        coreEval: evaluateEntryCore({
+          symbol,
+          riskMode,
+          decision,
+          signal,
+          feedAgeMs: lastUpdateAt > 0 ? Math.max(0, now() - lastUpdateAt) : null,
+        }),
+        amdEval: signalGates.amdEval,
+        gateOverrides: config.settings.gateOverrides,
+        enableSoftGates: config.settings.enableSoftGates,
+        closedPnl: isScalpProfile
+          ? await loadClosedPnl({ userId: session.userId, env: session.env })
+          : null,
+        equity,
+        now: now(),
+      });
+      if (!strategyGates.ok) return blockByGate(strategyGates);
+      if (strategyGates.riskOff && isScalpProfile) {
+        addLog(
+          runtime,
+          "RISK_BLOCK",
+          `${symbol} risk off: ${strategyGates.riskReasons.join(", ")}`,
+          `risk:${signalId}`
+        );
+      }
+
+      const atr = toNumber(decision?.coreV2?.atr14);
+      const normalized = normalizeProtectionLevels(
+        entry,
+        side,
+        toNumber(intent.sl),
+        toNumber(intent.tp),
+        Number.isFinite(atr) ? atr : undefined
+      );
+      const sl = normalized.sl;
+      const tp = normalized.tp;
+      if (!Number.isFinite(entry) || !Number.isFinite(sl) || entry <= 0 || sl <= 0) {
+        report(
+          session,
+          runtime,
+          "ERROR",
+          symbol,
+          `${symbol} invalid signal params (entry/sl)`,
+          `invalid:${signalId}`
+        );
+        markSeen(runtime, signalId);
+        return { placed: false, reason: "INVALID_SIGNAL" };
+      }
+
+      const isTreeProfile = riskMode === "ai-matic-tree";
+      const sizingArgs = {
+        equity,
+        entry,
+        sl,
+        useTestnet: session.useTestnet,
+        leverage: resolveLeverage(session, symbol),
+        perTradeTestnetUsd: config.settings.perTradeTestnetUsd,
+        perTradeMainnetUsd: config.settings.perTradeMainnetUsd,
+      };
+      const sizingSettings = normalizeSizingSettings(config.settings);
+      const stats =
+        sizingSettings.sizingModel === "kelly"
+          ? await loadTradeStats({ userId: session.userId, env: session.env, profile: riskMode })
+          : null;
+      // OLIkella keeps trading in risk-off, at a fraction of its risk.
+      const riskOffMult = strategyGates.riskOff && isScalpProfile ? SCALP_RISK_OFF_MULT : 1;
+      const sizingDecision = resolveSizingRiskPct({
+        ...sizingSettings,
+        baseRiskPct: (CORE_V2_RISK_PCT[riskMode] ?? 0) * riskOffMult,
+        entry,
+        sl,
+        atrPct: toNumber(decision?.coreV2?.atrPct),
+        openPositionsLimit: config.settings.maxOpenPositions,
+        stats,
+      });
+      const fixedSizing = computeFixedSizing({ ...sizingArgs, allowMainnet: isScalpProfile });
+      const notionalSizing = () =>
+        computeNotionalForSignal({ ...sizingArgs, riskPct: sizingDecision.riskPct });
+      // Vol-target and Kelly always size by risk; the per-trade notional is fixed-fractional only.
+      const useDynamic =
+        sizingDecision.model !== "fixed-fractional" ||
+        (isTreeProfile && config.settings.useDynamicPositionSizing !== false);
+      const sizing = useDynamic ? notionalSizing() : fixedSizing ?? notionalSizing();
+      if (!sizing.ok) {
+        report(
+          session,
+          runtime,
+          "ERROR",
+          symbol,
+          `${symbol} sizing failed: ${sizing.reason}`,
+          `sizing:${signalId}`
+        );
+        markSeen(runtime, signalId);
+        return { placed: false, reason: "SIZING" };
+      }
+      const useFixedQty = !useDynamic && fixedSizing?.ok === true;
+
+      // Deterministic per signal, so the order service dedups it with any
+      // other submission of the same signal.
+      const intentId = deriveOrderLinkId({ signalId, symbol, side });
+      let body;
+      try {
+        body = buildIntentOrderPayload({
+          intentId,
+          createdAt: now(),
+          profile: profileLabel,
+          symbol,
+          side,
+          entryType,
+          entryPrice: entry,
+          triggerPrice:
+            entryType === "CONDITIONAL"
+              ? Number.isFinite(toNumber(signal.triggerPrice))
+                ? toNumber(signal.triggerPrice)
+                : entry
+              : undefined,
+          qtyMode: useFixedQty ? "BASE_QTY" : "USDT_NOTIONAL",
+          qtyValue: useFixedQty ? sizing.qty : sizing.notional,
+          slPrice: sl,
+          tpPrices: Number.isFinite(tp) ? [tp] : [],
+          expireAfterMs: INTENT_EXPIRE_MS,
+          signalId,
+          tags: { env: session.env, mode: "server" },
+          journal: {
+            profile: riskMode,
+            signal,
+            diagnostic: null,
+            settingsSnapshot: { riskMode, ...config.settings },
+          },
+        });
+      } catch (err) {
+        report(
+          session,
+          runtime,
+          "ERROR",
+          symbol,
+          `${symbol} intent rejected: ${errorMessage(err)}`,
+          `intent:${signalId}`
+        );
+        markSeen(runtime, signalId);
+        return { placed: false, reason: "INTENT" };
+      }
+
+      const ts = now();
+      submitted = true;
+      markSeen(runtime, signalId);
+      runtime.lastIntentAt.set(symbol, ts);
+      runtime.entryLockAt.set(symbol, ts);
+      try {
+        const outcome = await submitOrder({
+          userId: session.userId,
+          env: session.env,
+          venue: session.venue,
+          creds: session.creds,
+          body,
+        });
+        if (!outcome.ok) {
+          report(
+            session,
+            runtime,
+            outcome.status === 409 ? "RISK_BLOCK" : "ERROR",
+            symbol,
+            `${symbol} order rejected: ${outcome.error}`,
+            `order:${intentId}`
+          );
+          return { placed: false, reason: "REJECTED", error: outcome.error };
+        }
+        const swingTf = riskMode === "ai-matic" ? resolveAiMaticSwingTf(decision?.aiMatic, side) : null;
+        if (swingTf) runtime.swingCooldownUntil.set(symbol, resolveSwingCooldownUntil(ts, swingTf));
+        report(
+          session,
+          runtime,
+          "OPEN",
+          symbol,
+          `${symbol} ${side} ${entryType} qty ${body.qty} @ ${entry} | sl ${sl}${
+            Number.isFinite(tp) ? ` | tp ${tp}` : ""
+          }`,
+          `order:${intentId}`
+        );
+        return { placed: true, intentId, body, result: outcome.result };
+      } catch (err) {
+        report(
+          session,
+          runtime,
+          "ERROR",
+          symbol,
+          `${symbol} order failed: ${errorMessage(err)}`,
+          `order:${intentId}`
+        );
+        return { placed: false, reason: "ERROR", error: errorMessage(err) };
+      }
+    } finally {
+      runtime.pending.delete(symbol);
+      if (!submitted) {
+        if (lockedAt === undefined) runtime.entryLockAt.delete(symbol);
+        else runtime.entryLockAt.set(symbol, lockedAt);
+      }
+    }
+  }
+
+  /**
+   * Follows positions after an account update and records closes for the
+   * re-entry cooldown. Missing stop losses are left to the protection
+   * watchdog, the one owner of SL repairs.
+   */
+  function onAccount(session) {
+    const config = configOf(session.userId, session.env);
+    if (!config?.enabled) return;
+    const runtime = runtimeOf(stateKey(session.userId, session.env));
+    const ts = now();
+    // One leg per symbol in one-way mode, up to two in hedge mode.
+    const open = new Map(openPositionsOf(session.snapshot).map((p) => [positionLegKey(p), p]));
+    if (runtime.openLegs) {
+      for (const [legKey, { symbol, side }] of runtime.openLegs) {
+        if (open.has(legKey)) continue;
+        runtime.lastCloseAt.set(symbol, ts);
+        addLog(runtime, "CLOSE", `${symbol} ${side} position closed`);
+      }
+    }
+    runtime.openLegs = open;
+  }
+
+  return { configure, getStatus, listEnabled, onDecision, onAccount };
+}
+
+let defaultAutoTrader = null;
+
+/**
+ * Process-wide executor persisting its configs to AUTOTRADE_STATE_FILE.
+ */
+export function getAutoTrader() {
+  if (!defaultAutoTrader) {
+    defaultAutoTrader = createAutoTrader({
+      store: createFileAutoTradeStore(process.env.AUTOTRADE_STATE_FILE || DEFAULT_AUTOTRADE_FILE),
+      notify: (userId, event) => getNotifier().notify(userId, event),
+      loadTradeStats: loadJournalTradeStats,
+      loadClosedPnl: loadJournalClosedPnl,
+    });
+  }
+  return defaultAutoTrader;
+}
@@ -24,6 +24,13 @@ import { metric } from "./metrics.js";
 
 import { getInstrumentInfo } from "./instrumentCache.js";
 import { withRetry } from "./httpRetry.js";
+import {
+  detectPositionMode,
+  normalizePositionMode,
+  openPositionLegs,
+  positionIdxForLeg,
+  positionIdxForOrder,
+} from "../src/engine/positionMode.js";
 
 const MIN_PROTECTION_DISTANCE_PCT = 0.0005;
 
@@ -212,6 +219,15 @@ async function fetchLastPrice(symbol, useTestnet = true) {
   return Number.isFinite(last) ? last : 0;
 }
 
+/**
+ * Public ticker (best bid/ask and last price) for one linear symbol.
+ */
+export async function getTicker(symbol, useTestnet = true) {
+  const url = `${resolveBase(useTestnet)}/v5/market/tickers?category=linear&symbol=${symbol}`;
+  const res = await axios.get(url);
+  return res.data;
+}
+
 function buildSignedGet(pathWithQuery, creds, useTestnet) {
   ensureConfigured(creds);
   const timestamp = Date.now().toString();
@@ -337,73 +353,89 @@ async function fetchPositionList(creds, useTestnet, symbol) {
   return res?.data?.result?.list ?? [];
 }
 
-async function resolvePositionIdxForOrder(order, creds, useTestnet) {
-  const symbol = String(order?.symbol ?? "");
-  if (!symbol) return undefined;
-  const side = String(order?.side ?? "").toLowerCase();
-  const reduceOnly = Boolean(order?.reduceOnly);
+// Mode last switched through setPositionMode, per account; position rows
+// only tell the mode apart while the account holds something.
+const positionModeByAccount = new Map();
 
-  let list = await fetchPositionList(creds, useTestnet, symbol);
-  if (!Array.isArray(list) || list.length === 0) {
-    const fallback = await fetchPositionList(creds, useTestnet);
-    list = Array.isArray(fallback) ? fallback : [];
-  }
-
-  const toIdx = (value) => {
-    const idx = Number(value);
-    return Number.isFinite(idx) ? idx : undefined;
-  };
-
-  const match = list.find((p) => {
-    if (String(p?.symbol ?? "") !== symbol) return false;
-    const pSide = String(p?.side ?? "").toLowerCase();
-    if (reduceOnly) {
-      if (Number(p?.size ?? 0) <= 0) return false;
-      return pSide && pSide !== side;
-    }
-    return pSide === side;
-  });
-  const matchIdx = toIdx(match?.positionIdx);
-  if (Number.isFinite(matchIdx)) return matchIdx;
+function positionModeKey(creds, useTestnet) {
+  return `${useTestnet ? "demo" : "mainnet"}:${creds?.apiKey ?? ""}`;
+}
 
-  const hasHedge = list.some((p) => {
-    const idx = Number(p?.positionIdx);
-    return idx === 1 || idx === 2;
-  });
-  if (hasHedge) {
-    if (reduceOnly) {
-      if (side === "sell") return 1;
-      if (side === "buy") return 2;
-    } else {
-      if (side === "buy") return 1;
-      if (side === "sell") return 2;
-    }
-  }
+async function fetchPositionRows(symbol, creds, useTestnet) {
+  const list = await fetchPositionList(creds, useTestnet, symbol);
+  if (Array.isArray(list) && list.length > 0) return list;
+  const fallback = await fetchPositionList(creds, useTestnet);
+  return Array.isArray(fallback) ? fallback : [];
+}
 
-  return list.length > 0 ? 0 : undefined;
+async function resolvePositionIdxForOrder(order, creds, useTestnet) {
+  const symbol = String(order?.symbol ?? "");
+  if (!symbol) return undefined;
+  const list = await fetchPositionRows(symbol, creds, useTestnet);
+  const mode =
+    positionModeByAccount.get(positionModeKey(creds, useTestnet)) ?? detectPositionMode(list);
+  if (!mode) return undefined;
+  return positionIdxForOrder({ mode, side: order?.side, reduceOnly: Boolean(order?.reduceOnly) });
 }
 
-async function resolvePositionIdxForSymbol(symbol, creds, useTestnet) {
+// Protection targets one leg: the open leg of `side` when given, otherwise
+// the only open leg of the symbol. Two open hedge legs without a side are
+// refused rather than guessed.
+async function resolvePositionIdxForSymbol(symbol, side, creds, useTestnet) {
   const sym = String(symbol ?? "");
   if (!sym) return undefined;
-  let list = await fetchPositionList(creds, useTestnet, sym);
-  if (!Array.isArray(list) || list.length === 0) {
-    const fallback = await fetchPositionList(creds, useTestnet);
-    list = Array.isArray(fallback) ? fallback : [];
+  const list = await fetchPositionRows(sym, creds, useTestnet);
+  const legs = openPositionLegs(list, { symbol: sym, side });
+  if (legs.length > 1) {
+    throw new Error("position_idx_ambiguous");
   }
-
-  const match = list.find((p) => {
-    if (String(p?.symbol ?? "") !== sym) return false;
-    return Number(p?.size ?? 0) > 0;
-  });
-  const idx = Number(match?.positionIdx);
+  const idx = Number(legs[0]?.positionIdx);
   if (Number.isFinite(idx)) return idx;
 
-  const hasHedge = list.some((p) => {
-    const value = Number(p?.positionIdx);
-    return value === 1 || value === 2;
-  });
-  return hasHedge ? undefined : list.length > 0 ? 0 : undefined;
+  const mode =
+    positionModeByAccount.get(positionModeKey(creds, useTestnet)) ?? detectPositionMode(list);
+  if (mode === "hedge") return positionIdxForLeg(side, mode);
+  return mode ? 0 : undefined;
+}
+
+/**
+ * Switches the USDT linear account between one-way and hedge mode
+ * (`mode`: "oneway" | "hedge"). Bybit refuses the switch while positions or
+ * orders are open; "not modified" counts as success.
+ */
+export async function setPositionMode(mode, creds, useTestnet = true) {
+  ensureConfigured(creds);
+  const normalized = normalizePositionMode(mode);
+  if (!normalized) {
+    throw new Error(`Invalid position mode: ${mode}`);
+  }
+  const body = {
+    category: "linear",
+    coin: "USDT",
+    mode: normalized === "hedge" ? 3 : 0,
+  };
+  const ts = Date.now().toString();
+  const recvWindow = "5000";
+  const bodyStr = JSON.stringify(body);
+  const payload = ts + creds.apiKey + recvWindow + bodyStr;
+  const signature = sign(payload, creds.apiSecret);
+  const res = await withRetry(() => axios.post(`${resolveBase(useTestnet)}/v5/position/switch-mode`, body, {
+    headers: {
+      "X-BAPI-API-KEY": creds.apiKey,
+      "X-BAPI-SIGN": signature,
+      "X-BAPI-SIGN-TYPE": "2",
+      "X-BAPI-TIMESTAMP": ts,
+      "X-BAPI-RECV-WINDOW": recvWindow,
+      "Content-Type": "application/json",
+    },
+  }));
+  const data = res.data ?? {};
+  // 110025: Position mode is not modified.
+  const applied = data.retCode === 0 || data.retCode === 110025;
+  if (applied) {
+    positionModeByAccount.set(positionModeKey(creds, useTestnet), normalized);
+  }
+  return applied ? { ...data, retCode: 0, result: { ...(data.result ?? {}), mode: normalized } } : data;
 }
 
 export async function createDemoOrder(order, creds, useTestnet = true) {
@@ -600,7 +632,7 @@ export async function setTradingStop(protection, creds, useTestnet = true) {
 
   const resolvedPositionIdx = Number.isFinite(Number(protection.positionIdx))
     ? Number(protection.positionIdx)
-    : await resolvePositionIdxForSymbol(protection.symbol, creds, useTestnet);
+    : await resolvePositionIdxForSymbol(protection.symbol, protection.side, creds, useTestnet);
   if (!Number.isFinite(resolvedPositionIdx)) {
     throw new Error("position_idx_unresolved");
   }
@@ -692,7 +724,7 @@ export async function waitForPosition(creds, symbol, useTestnet = true, timeoutM
   throw new Error(`Timeout waiting for position ${symbol} after ${timeoutMs}ms`);
 }
 
-export async function listDemoOrders(creds, { limit = 50, symbol, settleCoin = "USDT" } = {}, useTestnet = true) {
+export async function listDemoOrders(creds, { limit = 50, symbol, settleCoin = "USDT", cursor } = {}, useTestnet = true) {
   ensureConfigured(creds);
 
   const timestamp = Date.now().toString();
@@ -706,6 +738,7 @@ export async function listDemoOrders(creds, { limit = 50, symbol, settleCoin = "
   } else if (settleCoin) {
     params.set("settleCoin", settleCoin);
   }
+  if (cursor) params.set("cursor", cursor);
   const query = params.toString();
 
   const payload = timestamp + creds.apiKey + recvWindow + query;
@@ -797,12 +830,14 @@ export async function getWalletBalance(creds, useTestnet = true) {
   return res.data;
 }
 
-export async function listDemoOpenOrders(creds, { limit = 50 } = {}, useTestnet = true) {
+export async function listDemoOpenOrders(creds, { limit = 50, cursor } = {}, useTestnet = true) {
   ensureConfigured(creds);
 
   const timestamp = Date.now().toString();
   const recvWindow = "5000";
-  const query = `category=linear&openOnly=1&limit=${limit}&settleCoin=USDT`;
+  const query = `category=linear&openOnly=1&limit=${limit}&settleCoin=USDT${
+    cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+  }`;
 
   const payload = timestamp + creds.apiKey + recvWindow + query;
   const signature = sign(payload, creds.apiSecret);
@@ -0,0 +1,118 @@
+// ===========================================
+// Server-side candle store
+// ===========================================
+//
+// Closed candles of every symbol/interval the aggregator trades, so a restart
+// only fetches the bars missed while the server was down. The store logic
+// (range reads, gap repair, CSV) lives in src/engine/candleStoreEngine.js;
+// this module provides the file backend: one append-only JSONL file per
+// series, one `[openTime, open, high, low, close, volume]` row per line,
+// under CANDLE_STORE_DIR (default server/.data/candles/<venue>/).
+// A line for an already stored openTime overrides it; files are compacted
+// when they carry many overridden rows or exceed the retention cap.
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createCandleStore } from "../src/engine/candleStore.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_CANDLE_DIR = path.resolve(__dirname, ".data/candles");
+// Rewrite a file when more than this share of its lines are overridden rows.
+const COMPACT_RATIO = 0.5;
+const COMPACT_MIN_LINES = 1_000;
+
+function fileNameForKey(key) {
+  return `${String(key).replace(/[^A-Za-z0-9]+/g, "_")}.jsonl`;
+}
+
+function keyForFileName(name) {
+  const base = name.replace(/\.jsonl$/, "");
+  const at = base.lastIndexOf("_");
+  return at > 0 ? `${base.slice(0, at)}:${base.slice(at + 1)}` : base;
+}
+
+function toRow(candle) {
+  return [candle.openTime, candle.open, candle.high, candle.low, candle.close, candle.volume];
+}
+
+async function writeAtomic(filePath, rows) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp`;
+  const body = rows.map((row) => JSON.stringify(row)).join("\n");
+  await fs.promises.writeFile(tmp, body ? `${body}\n` : "");
+  await fs.promises.rename(tmp, filePath);
+}
+
+/**
+ * Append-only JSONL backend for createCandleStore. A torn last line (crash
+ * mid-append) is skipped on load and dropped by the next compaction.
+ */
+export function createFileCandleBackend(dir = DEFAULT_CANDLE_DIR) {
+  const filePath = (key) => path.join(dir, fileNameForKey(key));
+
+  return {
+    async load(key) {
+      let text = "";
+      try {
+        text = await fs.promises.readFile(filePath(key), "utf8");
+      } catch (err) {
+        if (err?.code === "ENOENT") return [];
+        throw err;
+      }
+      const rows = [];
+      for (const line of text.split("\n")) {
+        if (!line) continue;
+        try {
+          rows.push(JSON.parse(line));
+        } catch {
+          // torn line
+        }
+      }
+      const unique = new Set(rows.map((row) => row?.[0])).size;
+      const overridden = rows.length - unique;
+      if (rows.length >= COMPACT_MIN_LINES && overridden > rows.length * COMPACT_RATIO) {
+        const byTime = new Map(rows.map((row) => [row[0], row]));
+        const compacted = [...byTime.values()].sort((a, b) => a[0] - b[0]);
+        await writeAtomic(filePath(key), compacted);
+        return compacted;
+      }
+      return rows;
+    },
+    async append(key, candles) {
+      if (!candles.length) return;
+      await fs.promises.mkdir(dir, { recursive: true });
+      const body = candles.map((c) => JSON.stringify(toRow(c))).join("\n");
+      await fs.promises.appendFile(filePath(key), `${body}\n`);
+    },
+    async replace(key, candles) {
+      await writeAtomic(filePath(key), candles.map(toRow));
+    },
+    async keys() {
+      try {
+        const names = await fs.promises.readdir(dir);
+        return names.filter((name) => name.endsWith(".jsonl")).map(keyForFileName);
+      } catch (err) {
+        if (err?.code === "ENOENT") return [];
+        throw err;
+      }
+    },
+  };
+}
+
+const stores = new Map();
+
+/**
+ * Process-wide store per market data venue ("bybit", "bybit-testnet"):
+ * testnet prices differ from mainnet, so they never share a series.
+ */
+export function getCandleStore(venue = "bybit") {
+  let store = stores.get(venue);
+  if (!store) {
+    const root = process.env.CANDLE_STORE_DIR || DEFAULT_CANDLE_DIR;
+    store = createCandleStore({ backend: createFileCandleBackend(path.join(root, venue)) });
+    stores.set(venue, store);
+  }
+  return store;
+}
@@ -0,0 +1,756 @@
+// server/exchanges/binanceAdapter.js
+// Binance USDⓈ-M futures behind the ExchangeAdapter contract.
+//
+// Every method keeps the bybitClient signature and returns the canonical
+// Bybit V5 shape ({ retCode, retMsg, result: { list } }), so routes, the
+// aggregator, reconcile and the journal stay exchange-agnostic. Binance API
+// errors come back as { retCode: <binance code>, retMsg } instead of throwing,
+// the same way Bybit reports rejections in the response body.
+import axios from "axios";
+import crypto from "crypto";
+import { withRetry } from "../httpRetry.js";
+import { normalizePositionMode, normalizePositionSide } from "../../src/engine/positionMode.js";
+
+export const BINANCE_EXCHANGE = "binance";
+
+const BASE_URL_MAINNET = "https://fapi.binance.com";
+const BASE_URL_TESTNET = "https://testnet.binancefuture.com";
+const RECV_WINDOW = "5000";
+const INSTRUMENT_TTL_MS = 5 * 60_000;
+// Lookback used to discover symbols with recent fills (userTrades needs a symbol).
+const ACTIVITY_LOOKBACK_MS = 7 * 24 * 60 * 60_000;
+const TRAILING_CALLBACK_MIN = 0.1;
+const TRAILING_CALLBACK_MAX = 5;
+const MAX_LEVERAGE = 125;
+
+const ORDER_STATUS = {
+  NEW: "New",
+  PARTIALLY_FILLED: "PartiallyFilled",
+  FILLED: "Filled",
+  CANCELED: "Cancelled",
+  EXPIRED: "Cancelled",
+  EXPIRED_IN_MATCH: "Cancelled",
+  REJECTED: "Rejected",
+};
+
+const STOP_ORDER_TYPE = {
+  STOP_MARKET: "StopLoss",
+  TAKE_PROFIT_MARKET: "TakeProfit",
+  TRAILING_STOP_MARKET: "TrailingStop",
+};
+
+const TIME_IN_FORCE_OUT = { PostOnly: "GTX", IOC: "IOC", FOK: "FOK", GTC: "GTC" };
+const TIME_IN_FORCE_IN = { GTX: "PostOnly", IOC: "IOC", FOK: "FOK", GTC: "GTC" };
+
+function toNum(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function fmt(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? String(Number(n.toFixed(10))) : "0";
+}
+
+function ok(result) {
+  return { retCode: 0, retMsg: "OK", result, time: Date.now() };
+}
+
+function toSide(value) {
+  return String(value ?? "").toUpperCase() === "BUY" ? "Buy" : "Sell";
+}
+
+function toBinanceSide(value) {
+  return String(value ?? "").toLowerCase() === "buy" ? "BUY" : "SELL";
+}
+
+function positionSideForIdx(positionIdx) {
+  const idx = Number(positionIdx);
+  if (idx === 1) return "LONG";
+  if (idx === 2) return "SHORT";
+  return undefined;
+}
+
+function idxForPositionSide(positionSide) {
+  if (positionSide === "LONG") return 1;
+  if (positionSide === "SHORT") return 2;
+  return 0;
+}
+
+function cleanParams(params) {
+  return Object.entries(params ?? {}).reduce((acc, [key, val]) => {
+    if (val !== undefined && val !== null && val !== "") acc[key] = String(val);
+    return acc;
+  }, {});
+}
+
+function stepDecimals(stepSize) {
+  const raw = String(stepSize ?? "");
+  if (raw.includes("e-")) return Number(raw.split("e-")[1]) || 0;
+  return (raw.split(".")[1] ?? "").replace(/0+$/, "").length;
+}
+
+function roundToStep(value, stepSize, mode = "floor") {
+  if (!Number.isFinite(value) || !Number.isFinite(stepSize) || stepSize <= 0) return value;
+  const decimals = stepDecimals(stepSize);
+  const steps = value / stepSize;
+  const rounded = mode === "ceil" ? Math.ceil(steps - 1e-9) : Math.floor(steps + 1e-9);
+  return Number((rounded * stepSize).toFixed(decimals));
+}
+
+function mapInstrument(item) {
+  const filters = Object.fromEntries((item?.filters ?? []).map((f) => [f.filterType, f]));
+  return {
+    minQty: toNum(filters.LOT_SIZE?.minQty),
+    maxQty: toNum(filters.LOT_SIZE?.maxQty),
+    stepSize: toNum(filters.LOT_SIZE?.stepSize),
+    minNotional: toNum(filters.MIN_NOTIONAL?.notional),
+    tickSize: toNum(filters.PRICE_FILTER?.tickSize),
+    contractValue: 1,
+  };
+}
+
+function formatOrder(order) {
+  const qty = toNum(order.origQty);
+  const filled = toNum(order.executedQty);
+  const type = String(order.origType ?? order.type ?? "");
+  const triggerPrice = toNum(order.stopPrice);
+  const status = ORDER_STATUS[order.status] ?? String(order.status ?? "");
+  return {
+    orderId: String(order.orderId),
+    orderLinkId: String(order.clientOrderId ?? ""),
+    symbol: order.symbol,
+    side: toSide(order.side),
+    orderType: type === "LIMIT" || type === "STOP" || type === "TAKE_PROFIT" ? "Limit" : "Market",
+    price: fmt(order.price),
+    qty: fmt(qty),
+    leavesQty: fmt(Math.max(0, qty - filled)),
+    cumExecQty: fmt(filled),
+    avgPrice: toNum(order.avgPrice) > 0 ? fmt(order.avgPrice) : "",
+    triggerPrice: fmt(triggerPrice),
+    orderStatus: status === "New" && triggerPrice > 0 ? "Untriggered" : status,
+    stopOrderType: order.closePosition || order.reduceOnly ? STOP_ORDER_TYPE[type] ?? "" : "",
+    timeInForce: TIME_IN_FORCE_IN[order.timeInForce] ?? String(order.timeInForce ?? ""),
+    reduceOnly: Boolean(order.reduceOnly || order.closePosition),
+    closeOnTrigger: Boolean(order.closePosition),
+    positionIdx: idxForPositionSide(order.positionSide),
+    createdTime: String(order.time ?? order.updateTime ?? ""),
+    updatedTime: String(order.updateTime ?? order.time ?? ""),
+  };
+}
+
+function formatExecution(trade) {
+  const realized = toNum(trade.realizedPnl);
+  return {
+    symbol: trade.symbol,
+    execId: String(trade.id),
+    orderId: String(trade.orderId),
+    orderLinkId: "",
+    side: toSide(trade.side),
+    execPrice: fmt(trade.price),
+    execQty: fmt(trade.qty),
+    execValue: fmt(trade.quoteQty),
+    execFee: fmt(trade.commission),
+    feeCurrency: trade.commissionAsset ?? "USDT",
+    execType: "Trade",
+    isMaker: Boolean(trade.maker),
+    closedSize: realized !== 0 ? fmt(trade.qty) : "0",
+    execPnl: fmt(realized),
+    execTime: String(trade.time),
+  };
+}
+
+// Binance has no closed-position records; one row per closing order is built
+// from its fills (realizedPnl != 0). closedPnl is net of the closing fees only.
+function buildClosedPnlRows(trades) {
+  const byOrder = new Map();
+  for (const trade of trades) {
+    const realized = toNum(trade.realizedPnl);
+    if (realized === 0) continue;
+    const key = `${trade.symbol}:${trade.orderId}`;
+    const row = byOrder.get(key) ?? {
+      symbol: trade.symbol,
+      orderId: String(trade.orderId),
+      side: toSide(trade.side),
+      qty: 0,
+      exitValue: 0,
+      pnl: 0,
+      fee: 0,
+      first: Infinity,
+      last: 0,
+    };
+    row.qty += toNum(trade.qty);
+    row.exitValue += toNum(trade.qty) * toNum(trade.price);
+    row.pnl += realized;
+    row.fee += toNum(trade.commission);
+    row.first = Math.min(row.first, toNum(trade.time));
+    row.last = Math.max(row.last, toNum(trade.time));
+    byOrder.set(key, row);
+  }
+  return Array.from(byOrder.values())
+    .map((row) => {
+      const avgExit = row.qty > 0 ? row.exitValue / row.qty : 0;
+      // Closing with Sell ends a long: pnl = (exit - entry) * qty.
+      const dir = row.side === "Sell" ? 1 : -1;
+      const avgEntry = row.qty > 0 ? avgExit - (dir * row.pnl) / row.qty : 0;
+      return {
+        symbol: row.symbol,
+        orderId: row.orderId,
+        side: row.side,
+        qty: fmt(row.qty),
+        closedSize: fmt(row.qty),
+        avgEntryPrice: fmt(avgEntry),
+        avgExitPrice: fmt(avgExit),
+        cumEntryValue: fmt(avgEntry * row.qty),
+        cumExitValue: fmt(row.exitValue),
+        closedPnl: fmt(row.pnl - row.fee),
+        orderType: "Market",
+        createdTime: String(row.first),
+        updatedTime: String(row.last),
+      };
+    })
+    .sort((a, b) => Number(b.updatedTime) - Number(a.updatedTime));
+}
+
+/**
+ * Creates a Binance USDⓈ-M adapter. `http` is an axios-compatible client
+ * (`request({ method, url, headers })`), replaceable with a fixture mock.
+ */
+export function createBinanceAdapter({ http = axios, now = Date.now } = {}) {
+  const instrumentCache = new Map();
+  const lastLeverageBySymbol = new Map();
+
+  function resolveBase(useTestnet = true) {
+    return useTestnet ? BASE_URL_TESTNET : BASE_URL_MAINNET;
+  }
+
+  function ensureConfigured(creds) {
+    if (!creds?.apiKey || !creds?.apiSecret) {
+      throw new Error("Missing Binance API credentials for user");
+    }
+  }
+
+  async function request(method, path, params, creds, useTestnet, { signed = true } = {}) {
+    const query = new URLSearchParams(cleanParams(params));
+    const headers = {};
+    if (signed) {
+      ensureConfigured(creds);
+      query.set("timestamp", String(now()));
+      query.set("recvWindow", RECV_WINDOW);
+      const signature = crypto.createHmac("sha256", creds.apiSecret).update(query.toString()).digest("hex");
+      query.set("signature", signature);
+      headers["X-MBX-APIKEY"] = creds.apiKey;
+    }
+    const qs = query.toString();
+    const url = `${resolveBase(useTestnet)}${path}${qs ? `?${qs}` : ""}`;
+    try {
+      const res = await withRetry(() => http.request({ method, url, headers }));
+      return res.data;
+    } catch (err) {
+      const body = err?.response?.data;
+      if (body && typeof body.code === "number") {
+        const apiError = new Error(body.msg || `Binance error ${body.code}`);
+        apiError.binanceCode = body.code;
+        throw apiError;
+      }
+      throw err;
+    }
+  }
+
+  // Turns Binance rejections into a non-zero retCode; transport errors still throw.
+  async function respond(fn) {
+    try {
+      return ok(await fn());
+    } catch (err) {
+      if (err?.binanceCode != null) {
+        return { retCode: err.binanceCode, retMsg: err.message, result: {}, time: Date.now() };
+      }
+      throw err;
+    }
+  }
+
+  async function getInstrumentInfo(symbol, useTestnet = true) {
+    const key = useTestnet ? "testnet" : "mainnet";
+    let cached = instrumentCache.get(key);
+    if (!cached || now() - cached.ts >= INSTRUMENT_TTL_MS) {
+      const data = await request("GET", "/fapi/v1/exchangeInfo", {}, null, useTestnet, { signed: false });
+      const bySymbol = new Map((data?.symbols ?? []).map((item) => [item.symbol, mapInstrument(item)]));
+      cached = { ts: now(), bySymbol };
+      instrumentCache.set(key, cached);
+    }
+    const info = cached.bySymbol.get(String(symbol ?? "").toUpperCase());
+    if (!info) throw new Error(`Instrument ${symbol} not found`);
+    return info;
+  }
+
+  async function fetchLastPrice(symbol, useTestnet) {
+    const data = await request("GET", "/fapi/v1/ticker/price", { symbol }, null, useTestnet, { signed: false });
+    return toNum(data?.price);
+  }
+
+  async function getTicker(symbol, useTestnet = true) {
+    return respond(async () => {
+      const data = await request("GET", "/fapi/v1/ticker/bookTicker", { symbol }, null, useTestnet, {
+        signed: false,
+      });
+      const bid = toNum(data?.bidPrice);
+      const ask = toNum(data?.askPrice);
+      return {
+        category: "linear",
+        list: [
+          {
+            symbol: data?.symbol ?? symbol,
+            bid1Price: String(bid),
+            ask1Price: String(ask),
+            lastPrice: String((bid + ask) / 2),
+          },
+        ],
+      };
+    });
+  }
+
+  async function normalizeQty(symbol, qtyInput, price, useTestnet) {
+    const info = await getInstrumentInfo(symbol, useTestnet);
+    let qty = Number(qtyInput);
+    if (!Number.isFinite(qty) || qty <= 0) {
+      throw new Error(`Invalid qty value: ${qtyInput}`);
+    }
+    qty = Math.max(qty, info.minQty);
+    qty = roundToStep(qty, info.stepSize, "floor");
+    if (info.maxQty > 0 && qty > info.maxQty) qty = roundToStep(info.maxQty, info.stepSize, "floor");
+    if (price > 0 && info.minNotional > 0 && qty * price < info.minNotional) {
+      qty = Math.max(qty, roundToStep(info.minNotional / price, info.stepSize, "ceil"));
+    }
+    return qty.toFixed(stepDecimals(info.stepSize));
+  }
+
+  async function fetchPositionRisk(creds, useTestnet, symbol) {
+    const rows = await request("GET", "/fapi/v2/positionRisk", { symbol }, creds, useTestnet);
+    return (Array.isArray(rows) ? rows : []).filter((p) => toNum(p.positionAmt) !== 0);
+  }
+
+  async function fetchOpenOrders(creds, useTestnet, symbol) {
+    const rows = await request("GET", "/fapi/v1/openOrders", { symbol }, creds, useTestnet);
+    return Array.isArray(rows) ? rows : [];
+  }
+
+  // userTrades/allOrders require a symbol, so reads without one fan out over
+  // symbols with an open position, a resting order or recent realized PnL.
+  async function resolveActiveSymbols(creds, useTestnet) {
+    const [positions, orders, income] = await Promise.all([
+      fetchPositionRisk(creds, useTestnet),
+      fetchOpenOrders(creds, useTestnet),
+      request(
+        "GET",
+        "/fapi/v1/income",
+        { incomeType: "REALIZED_PNL", startTime: now() - ACTIVITY_LOOKBACK_MS, limit: 1000 },
+        creds,
+        useTestnet
+      ),
+    ]);
+    const symbols = new Set();
+    for (const row of [...positions, ...orders, ...(Array.isArray(income) ? income : [])]) {
+      if (row?.symbol) symbols.add(row.symbol);
+    }
+    return Array.from(symbols).sort();
+  }
+
+  async function fetchUserTrades(creds, useTestnet, { symbol, limit, startTime, endTime }) {
+    const symbols = symbol ? [String(symbol).toUpperCase()] : await resolveActiveSymbols(creds, useTestnet);
+    const batches = await Promise.all(
+      symbols.map((sym) =>
+        request(
+          "GET",
+          "/fapi/v1/userTrades",
+          { symbol: sym, limit: Math.min(Number(limit) || 50, 1000), startTime, endTime },
+          creds,
+          useTestnet
+        )
+      )
+    );
+    return batches.flatMap((rows) => (Array.isArray(rows) ? rows : []));
+  }
+
+  function describePosition(position) {
+    const amt = toNum(position.positionAmt);
+    const positionSide = position.positionSide && position.positionSide !== "BOTH" ? position.positionSide : undefined;
+    const side = positionSide ? (positionSide === "LONG" ? "Buy" : "Sell") : amt > 0 ? "Buy" : "Sell";
+    return { side, positionSide, size: Math.abs(amt) };
+  }
+
+  function formatPosition(position, protectionOrders) {
+    const { side, positionSide, size } = describePosition(position);
+    const closeSide = side === "Buy" ? "SELL" : "BUY";
+    const linked = protectionOrders.filter(
+      (o) =>
+        o.symbol === position.symbol &&
+        o.side === closeSide &&
+        (!positionSide || o.positionSide === positionSide)
+    );
+    const pick = (type) => linked.find((o) => (o.origType ?? o.type) === type);
+    const trailing = pick("TRAILING_STOP_MARKET");
+    return {
+      symbol: position.symbol,
+      side,
+      size: fmt(size),
+      avgPrice: fmt(position.entryPrice),
+      markPrice: fmt(position.markPrice),
+      positionValue: fmt(Math.abs(toNum(position.notional)) || size * toNum(position.entryPrice)),
+      unrealisedPnl: fmt(position.unRealizedProfit),
+      leverage: fmt(position.leverage),
+      liqPrice: toNum(position.liquidationPrice) > 0 ? fmt(position.liquidationPrice) : "",
+      takeProfit: fmt(pick("TAKE_PROFIT_MARKET")?.stopPrice),
+      stopLoss: fmt(pick("STOP_MARKET")?.stopPrice),
+      // Binance trails by percent; report the distance from the activation/mark price.
+      trailingStop: trailing
+        ? fmt(
+            (toNum(trailing.priceRate) / 100) *
+              (toNum(trailing.activatePrice) || toNum(position.markPrice))
+          )
+        : "0",
+      activePrice: fmt(trailing?.activatePrice),
+      positionIdx: idxForPositionSide(positionSide),
+      positionStatus: "Normal",
+      tpslMode: "Full",
+      updatedTime: String(position.updateTime ?? ""),
+    };
+  }
+
+  async function getDemoPositions(creds, useTestnet = true) {
+    return respond(async () => {
+      const [positions, orders] = await Promise.all([
+        fetchPositionRisk(creds, useTestnet),
+        fetchOpenOrders(creds, useTestnet),
+      ]);
+      const protection = orders.filter((o) => o.closePosition || o.reduceOnly);
+      return { category: "linear", list: positions.map((p) => formatPosition(p, protection)), nextPageCursor: "" };
+    });
+  }
+
+  async function listDemoOrders(creds, { limit = 50, symbol } = {}, useTestnet = true) {
+    return respond(async () => {
+      const list = (await fetchOpenOrders(creds, useTestnet, symbol))
+        .sort((a, b) => toNum(b.time) - toNum(a.time))
+        .slice(0, Number(limit) || 50)
+        .map(formatOrder);
+      return { category: "linear", list, nextPageCursor: "" };
+    });
+  }
+
+  async function listOrderHistory(creds, { limit = 50, symbol } = {}, useTestnet = true) {
+    return respond(async () => {
+      const symbols = symbol ? [String(symbol).toUpperCase()] : await resolveActiveSymbols(creds, useTestnet);
+      const batches = await Promise.all(
+        symbols.map((sym) =>
+          request("GET", "/fapi/v1/allOrders", { symbol: sym, limit: Number(limit) || 50 }, creds, useTestnet)
+        )
+      );
+      const list = batches
+        .flatMap((rows) => (Array.isArray(rows) ? rows : []))
+        .sort((a, b) => toNum(b.updateTime) - toNum(a.updateTime))
+        .slice(0, Number(limit) || 50)
+        .map(formatOrder);
+      return { category: "linear", list, nextPageCursor: "" };
+    });
+  }
+
+  async function listExecutions(creds, { limit = 50, symbol } = {}, useTestnet = true) {
+    return respond(async () => {
+      const list = (await fetchUserTrades(creds, useTestnet, { symbol, limit }))
+        .sort((a, b) => toNum(b.time) - toNum(a.time))
+        .slice(0, Number(limit) || 50)
+        .map(formatExecution);
+      return { category: "linear", list, nextPageCursor: "" };
+    });
+  }
+
+  async function listClosedPnl(creds, { limit = 50, startTime, endTime } = {}, useTestnet = true) {
+    return respond(async () => {
+      const trades = await fetchUserTrades(creds, useTestnet, { limit: 1000, startTime, endTime });
+      const list = buildClosedPnlRows(trades).slice(0, Number(limit) || 50);
+      return { category: "linear", list, nextPageCursor: "" };
+    });
+  }
+
+  async function getWalletBalance(creds, useTestnet = true) {
+    return respond(async () => {
+      const account = await request("GET", "/fapi/v2/account", {}, creds, useTestnet);
+      const usdt = (account?.assets ?? []).find((a) => a.asset === "USDT") ?? {};
+      return {
+        list: [
+          {
+            accountType: "UNIFIED",
+            totalEquity: fmt(account?.totalMarginBalance),
+            totalWalletBalance: fmt(account?.totalWalletBalance),
+            totalMarginBalance: fmt(account?.totalMarginBalance),
+            totalAvailableBalance: fmt(account?.availableBalance),
+            totalPerpUPL: fmt(account?.totalUnrealizedProfit),
+            totalInitialMargin: fmt(account?.totalInitialMargin),
+            totalMaintenanceMargin: fmt(account?.totalMaintMargin),
+            coin: [
+              {
+                coin: "USDT",
+                equity: fmt(usdt.marginBalance),
+                usdValue: fmt(usdt.marginBalance),
+                walletBalance: fmt(usdt.walletBalance),
+                availableToWithdraw: fmt(usdt.maxWithdrawAmount ?? usdt.availableBalance),
+                unrealisedPnl: fmt(usdt.unrealizedProfit),
+                totalPositionIM: fmt(usdt.initialMargin),
+              },
+            ],
+          },
+        ],
+      };
+    });
+  }
+
+  async function cancelProtection(creds, useTestnet, symbol, type, positionSide) {
+    const orders = await fetchOpenOrders(creds, useTestnet, symbol);
+    const stale = orders.filter(
+      (o) =>
+        (o.origType ?? o.type) === type &&
+        (o.closePosition || o.reduceOnly) &&
+        (!positionSide || o.positionSide === positionSide)
+    );
+    for (const order of stale) {
+      await request("DELETE", "/fapi/v1/order", { symbol, orderId: order.orderId }, creds, useTestnet);
+    }
+  }
+
+  // Places SL/TP as closePosition stop orders and the trailing stop as a
+  // reduce-only TRAILING_STOP_MARKET. A value of 0 clears that leg (Bybit semantics).
+  async function placeProtection(
+    { symbol, closeSide, positionSide, size, markPrice, sl, tp, trailingStop, activePrice },
+    creds,
+    useTestnet
+  ) {
+    const legs = [
+      { value: sl, type: "STOP_MARKET" },
+      { value: tp, type: "TAKE_PROFIT_MARKET" },
+    ];
+    for (const leg of legs) {
+      if (leg.value == null) continue;
+      await cancelProtection(creds, useTestnet, symbol, leg.type, positionSide);
+      if (toNum(leg.value) <= 0) continue;
+      await request(
+        "POST",
+        "/fapi/v1/order",
+        {
+          symbol,
+          side: closeSide,
+          positionSide,
+          type: leg.type,
+          stopPrice: leg.value,
+          closePosition: "true",
+          workingType: "CONTRACT_PRICE",
+        },
+        creds,
+        useTestnet
+      );
+    }
+    if (trailingStop != null) {
+      await cancelProtection(creds, useTestnet, symbol, "TRAILING_STOP_MARKET", positionSide);
+      const distance = toNum(trailingStop);
+      const reference = toNum(activePrice) || toNum(markPrice);
+      if (distance > 0 && reference > 0 && size > 0) {
+        const rate = Math.min(
+          TRAILING_CALLBACK_MAX,
+          Math.max(TRAILING_CALLBACK_MIN, Math.round((distance / reference) * 1000) / 10)
+        );
+        await request(
+          "POST",
+          "/fapi/v1/order",
+          {
+            symbol,
+            side: closeSide,
+            positionSide,
+            type: "TRAILING_STOP_MARKET",
+            quantity: size,
+            reduceOnly: positionSide ? undefined : "true",
+            callbackRate: rate,
+            activationPrice: toNum(activePrice) > 0 ? activePrice : undefined,
+          },
+          creds,
+          useTestnet
+        );
+      }
+    }
+  }
+
+  async function setTradingStop(protection, creds, useTestnet = true) {
+    const symbol = String(protection?.symbol ?? "").toUpperCase();
+    const wantedSide = positionSideForIdx(protection?.positionIdx);
+    const legSide = normalizePositionSide(protection?.side);
+    return respond(async () => {
+      const positions = await fetchPositionRisk(creds, useTestnet, symbol);
+      const position = positions.find(
+        (p) =>
+          (!wantedSide || p.positionSide === wantedSide) &&
+          (!legSide || describePosition(p).side === legSide)
+      );
+      if (!position) {
+        const error = new Error("can not set tp/sl/ts for zero position");
+        error.binanceCode = 10001;
+        throw error;
+      }
+      const { side, positionSide, size } = describePosition(position);
+      await placeProtection(
+        {
+          symbol,
+          closeSide: side === "Buy" ? "SELL" : "BUY",
+          positionSide,
+          size,
+          markPrice: position.markPrice,
+          sl: protection.sl,
+          tp: protection.tp,
+          trailingStop: protection.trailingStop,
+          activePrice: protection.activePrice,
+        },
+        creds,
+        useTestnet
+      );
+      return {};
+    });
+  }
+
+  async function createDemoOrder(order, creds, useTestnet = true) {
+    ensureConfigured(creds);
+    const symbol = String(order?.symbol ?? "").toUpperCase();
+    const side = toBinanceSide(order?.side);
+    const triggerPrice = toNum(order?.triggerPrice);
+    const limitPrice = toNum(order?.price);
+    const isLimit = order?.orderType === "Limit";
+    return respond(async () => {
+      const last = triggerPrice > 0 || !(limitPrice > 0) ? await fetchLastPrice(symbol, useTestnet) : 0;
+      const qty = await normalizeQty(symbol, order.qty, limitPrice || triggerPrice || last, useTestnet);
+
+      const leverage = Number(order?.leverage);
+      if (Number.isFinite(leverage) && leverage > 0) {
+        const desired = Math.max(1, Math.min(MAX_LEVERAGE, Math.round(leverage)));
+        const key = `${useTestnet ? "testnet" : "mainnet"}:${creds.apiKey}:${symbol}`;
+        if (lastLeverageBySymbol.get(key) !== desired) {
+          await request("POST", "/fapi/v1/leverage", { symbol, leverage: desired }, creds, useTestnet);
+          lastLeverageBySymbol.set(key, desired);
+        }
+      }
+
+      // Conditional entries: a buy above the market is a STOP, below it a TAKE_PROFIT.
+      let type = isLimit ? "LIMIT" : "MARKET";
+      if (triggerPrice > 0) {
+        const breakout = side === "BUY" ? triggerPrice >= last : triggerPrice <= last;
+        type = `${breakout ? "STOP" : "TAKE_PROFIT"}${isLimit ? "" : "_MARKET"}`;
+      }
+      const positionSide = positionSideForIdx(order?.positionIdx);
+      const tif = TIME_IN_FORCE_OUT[order?.timeInForce] ?? "GTC";
+      const placed = await request(
+        "POST",
+        "/fapi/v1/order",
+        {
+          symbol,
+          side,
+          positionSide,
+          type,
+          quantity: qty,
+          price: isLimit ? order.price : undefined,
+          stopPrice: triggerPrice > 0 ? order.triggerPrice : undefined,
+          timeInForce: isLimit ? tif : undefined,
+          // Hedge mode rejects reduceOnly; positionSide already scopes the order.
+          reduceOnly: order?.reduceOnly && !positionSide ? "true" : undefined,
+          newClientOrderId: order?.orderLinkId,
+        },
+        creds,
+        useTestnet
+      );
+      const result = {
+        orderId: String(placed?.orderId ?? ""),
+        orderLinkId: String(placed?.clientOrderId ?? order?.orderLinkId ?? ""),
+      };
+
+      // Binance has no TP/SL attached to the entry order; place them as
+      // closePosition stops right away so a resting entry is protected on fill.
+      const sl = order?.sl ?? order?.stopLoss;
+      const tp = order?.tp ?? order?.takeProfit;
+      if (!order?.reduceOnly && (sl != null || tp != null || order?.trailingStop != null)) {
+        try {
+          const positions = await fetchPositionRisk(creds, useTestnet, symbol);
+          const position = positions.find((p) => !positionSide || p.positionSide === positionSide);
+          const current = position ? describePosition(position) : null;
+          await placeProtection(
+            {
+              symbol,
+              closeSide: side === "BUY" ? "SELL" : "BUY",
+              positionSide,
+              size: current?.size ?? 0,
+              markPrice: position?.markPrice,
+              sl,
+              tp,
+              trailingStop: current ? order.trailingStop : undefined,
+              activePrice: order.trailingActivePrice,
+            },
+            creds,
+            useTestnet
+          );
+        } catch (err) {
+          // Same policy as the Bybit trailing stop: keep the accepted entry, report the failure.
+          console.error("[Binance] protection error:", err?.message || err);
+          result.protectionError = err?.message || String(err);
+        }
+      }
+      return result;
+    });
+  }
+
+  // Account-wide dual side position; -4059 means the mode is already set.
+  async function setPositionMode(mode, creds, useTestnet = true) {
+    const normalized = normalizePositionMode(mode);
+    if (!normalized) throw new Error(`Invalid position mode: ${mode}`);
+    const res = await respond(async () => {
+      await request(
+        "POST",
+        "/fapi/v1/positionSide/dual",
+        { dualSidePosition: normalized === "hedge" ? "true" : "false" },
+        creds,
+        useTestnet
+      );
+      return { mode: normalized };
+    });
+    return res.retCode === -4059 ? ok({ mode: normalized }) : res;
+  }
+
+  async function cancelOrder({ symbol, orderId, orderLinkId }, creds, useTestnet = true) {
+    if (!symbol) throw new Error("cancelOrder: missing symbol");
+    if (!orderId && !orderLinkId) throw new Error("cancelOrder: missing orderId/orderLinkId");
+    return respond(async () => {
+      const res = await request(
+        "DELETE",
+        "/fapi/v1/order",
+        { symbol, orderId, origClientOrderId: orderId ? undefined : orderLinkId },
+        creds,
+        useTestnet
+      );
+      return { orderId: String(res?.orderId ?? orderId ?? ""), orderLinkId: String(res?.clientOrderId ?? orderLinkId ?? "") };
+    });
+  }
+
+  return {
+    id: BINANCE_EXCHANGE,
+    label: "Binance USDⓈ-M",
+    privateStream: false,
+    createDemoOrder,
+    setTradingStop,
+    cancelOrder,
+    getDemoPositions,
+    listDemoOrders,
+    listDemoOpenOrders: listDemoOrders,
+    listOrderHistory,
+    listExecutions,
+    listDemoTrades: listExecutions,
+    listClosedPnl,
+    getWalletBalance,
+    getInstrumentInfo,
+    getTicker,
+    setPositionMode,
+  };
+}
+
+export const binanceAdapter = createBinanceAdapter();
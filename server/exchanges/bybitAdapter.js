@@ -0,0 +1,43 @@
+// server/exchanges/bybitAdapter.js
+// Bybit V5 behind the ExchangeAdapter contract. The REST client in
+// ../bybitClient.js already speaks the canonical (Bybit-shaped) format, so
+// this adapter only binds it together with the instrument cache.
+import {
+  cancelOrder,
+  createDemoOrder,
+  getDemoPositions,
+  getTicker,
+  getWalletBalance,
+  listClosedPnl,
+  listDemoOpenOrders,
+  listDemoOrders,
+  listDemoTrades,
+  listExecutions,
+  listOrderHistory,
+  setPositionMode,
+  setTradingStop,
+} from "../bybitClient.js";
+import { getInstrumentInfo } from "../instrumentCache.js";
+
+export const BYBIT_EXCHANGE = "bybit";
+
+export const bybitAdapter = {
+  id: BYBIT_EXCHANGE,
+  label: "Bybit",
+  // Bybit sessions also get the private WS (position/order/execution/wallet).
+  privateStream: true,
+  createDemoOrder,
+  setTradingStop,
+  cancelOrder,
+  getDemoPositions,
+  listDemoOrders,
+  listDemoOpenOrders,
+  listOrderHistory,
+  listExecutions,
+  listDemoTrades,
+  listClosedPnl,
+  getWalletBalance,
+  getInstrumentInfo,
+  getTicker,
+  setPositionMode,
+};
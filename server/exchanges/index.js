@@ -0,0 +1,72 @@
+// server/exchanges/index.js
+// ExchangeAdapter registry.
+//
+// An ExchangeAdapter exposes the account surface the server routes, the
+// aggregator, reconcile and the trade journal use, with bybitClient
+// signatures `(args, creds, useTestnet)` and Bybit V5-shaped results:
+//   createDemoOrder, setTradingStop, cancelOrder      -> { retCode, retMsg, result }
+//   getDemoPositions, listDemoOrders, listDemoOpenOrders, listOrderHistory,
+//   listExecutions, listDemoTrades, listClosedPnl, getWalletBalance
+//                                                      -> { retCode, result: { list } }
+//   getInstrumentInfo(symbol, useTestnet)              -> { minQty, maxQty, stepSize, minNotional, tickSize }
+//   getTicker(symbol, useTestnet)                      -> { retCode, result: { list: [{ bid1Price, ask1Price, lastPrice }] } }
+//   setPositionMode(mode, creds, useTestnet)           -> { retCode, retMsg, result: { mode } }
+// Positions and orders carry Bybit's positionIdx (0 one-way, 1 hedge long,
+// 2 hedge short; src/engine/positionMode.js).
+// plus `id`, `label` and `privateStream` (true when the Bybit private WS applies).
+// Public kline/trade/orderbook streams are browser-side: src/engine/exchangeStreams.ts.
+import { BINANCE_EXCHANGE, binanceAdapter } from "./binanceAdapter.js";
+import { BYBIT_EXCHANGE, bybitAdapter } from "./bybitAdapter.js";
+
+export const DEFAULT_EXCHANGE = BYBIT_EXCHANGE;
+
+export const EXCHANGE_ADAPTER_METHODS = [
+  "createDemoOrder",
+  "setTradingStop",
+  "cancelOrder",
+  "getDemoPositions",
+  "listDemoOrders",
+  "listDemoOpenOrders",
+  "listOrderHistory",
+  "listExecutions",
+  "listDemoTrades",
+  "listClosedPnl",
+  "getWalletBalance",
+  "getInstrumentInfo",
+  "getTicker",
+  "setPositionMode",
+];
+
+/**
+ * Throws when an adapter misses part of the contract; returns it otherwise.
+ */
+export function assertExchangeAdapter(adapter) {
+  const missing = EXCHANGE_ADAPTER_METHODS.filter((name) => typeof adapter?.[name] !== "function");
+  if (!adapter?.id || missing.length) {
+    throw new Error(`Invalid exchange adapter ${adapter?.id ?? "?"}: missing ${missing.join(", ") || "id"}`);
+  }
+  return adapter;
+}
+
+const ADAPTERS = new Map(
+  [bybitAdapter, binanceAdapter].map((adapter) => [adapter.id, assertExchangeAdapter(adapter)])
+);
+
+export function normalizeExchangeId(value) {
+  const id = String(value ?? "").trim().toLowerCase();
+  return ADAPTERS.has(id) ? id : null;
+}
+
+export function getExchangeAdapter(id = DEFAULT_EXCHANGE) {
+  const key = normalizeExchangeId(id);
+  if (!key) {
+    throw new Error(`Unsupported exchange: ${id}`);
+  }
+  return ADAPTERS.get(key);
+}
+
+export function listExchanges() {
+  return Array.from(ADAPTERS.values()).map((adapter) => ({ id: adapter.id, label: adapter.label }));
+}
+
+export { BINANCE_EXCHANGE, BYBIT_EXCHANGE, binanceAdapter, bybitAdapter };
@@ -0,0 +1,632 @@
+// ===========================================
+// Server-side execution algorithms
+// ===========================================
+//
+// POST /api/:env/order with an `algo` field hands the parent order to this
+// module instead of placing it at once. Child orders go through
+// orderService.submitOrder (risk gate, protection clamping; only the first
+// child is journaled). Algorithms:
+//   - chase:   post-only limit at the best bid (buy) / ask (sell), re-priced
+//              while the book moves, never more than `maxChaseTicks` ticks
+//              beyond the first quote; a post-only reject steps one tick back
+//   - twap:    the parent qty split into `slices` children spread evenly over
+//              `durationMs`; market or limit children like the parent, an
+//              unfilled limit child is cancelled and rolled into the next slice
+//   - iceberg: limit children of `visibleQty` at the parent price, the next
+//              one placed when the previous one fills
+// A run keeps its children with their fills (GET /api/:env/algos) and is
+// stopped on `timeoutMs` or POST /api/:env/algos/cancel; the working child is
+// cancelled either way. Runs live in memory per process.
+//
+// An entry with `signalId` claims its signal (server/orderIdempotency.js) for
+// the whole run: a second run or a direct order for the same signal gets 409.
+// The claim is released when the run ends without a fill. Take-profit ladders
+// are refused; the children only carry the single `tp`.
+
+import crypto from "crypto";
+import { getInstrumentInfo } from "./instrumentCache.js";
+import { getNotifier } from "./notifications.js";
+import { getOrderIdempotency } from "./orderIdempotency.js";
+import { submitOrder as submitVenueOrder } from "./orderService.js";
+
+export const EXECUTION_ALGOS = ["chase", "twap", "iceberg"];
+export const DEFAULT_ALGO_TIMEOUT_MS = 120_000;
+export const MAX_ALGO_TIMEOUT_MS = 6 * 60 * 60_000;
+export const DEFAULT_ALGO_POLL_MS = 2_000;
+export const DEFAULT_CHASE_TICKS = 10;
+export const DEFAULT_TWAP_SLICES = 5;
+export const DEFAULT_TWAP_DURATION_MS = 5 * 60_000;
+// Extra time after the last TWAP slice for its fill before the run times out.
+const TWAP_TIMEOUT_MARGIN_MS = 60_000;
+const MAX_RUNS_PER_ACCOUNT = 50;
+const ACTIVE_CHILD_STATUSES = new Set(["Created", "New", "PartiallyFilled", "Untriggered"]);
+
+function stateKey(userId, env) {
+  return `${env}:${userId}`;
+}
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+function errorMessage(err) {
+  return err?.message ? String(err.message) : String(err ?? "unknown_error");
+}
+
+function clampInt(value, min, max, fallback) {
+  const n = Math.floor(toNumber(value));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+function roundQty(value) {
+  return Number(value.toFixed(10));
+}
+
+function floorToStep(value, step) {
+  if (!(step > 0)) return roundQty(value);
+  return Number((Math.floor(value / step + 1e-9) * step).toFixed(12));
+}
+
+function roundToTick(value, tick, mode) {
+  if (!(tick > 0)) return value;
+  const ratio = value / tick;
+  const stepped = mode === "ceil" ? Math.ceil(ratio - 1e-9) : Math.floor(ratio + 1e-9);
+  return Number((stepped * tick).toFixed(12));
+}
+
+/**
+ * `parts` child quantities on the venue's qty step summing to `total`; fewer
+ * parts when a slice would fall below `minQty`. The last part takes the
+ * rounding remainder.
+ */
+export function splitQty(total, parts, step = 0, minQty = 0) {
+  const floor = Math.max(minQty > 0 ? minQty : 0, step > 0 ? step : 0);
+  let count = Math.max(1, Math.floor(parts));
+  if (floor > 0) count = Math.max(1, Math.min(count, Math.floor(total / floor + 1e-9)));
+  const base = floorToStep(total / count, step);
+  const sizes = Array.from({ length: count }, () => base);
+  sizes[count - 1] = roundQty(total - base * (count - 1));
+  return sizes;
+}
+
+/**
+ * Validates the `algo` field of an order body. Accepts the algo name alone
+ * ("twap") or an object with its parameters; missing parameters get defaults.
+ */
+export function normalizeAlgoSpec(input) {
+  const raw = typeof input === "string" ? { type: input } : input;
+  const type = String(raw?.type ?? "").trim().toLowerCase();
+  if (!EXECUTION_ALGOS.includes(type)) {
+    return { ok: false, error: `Unknown execution algo: ${raw?.type ?? input}` };
+  }
+  const pollMs = clampInt(raw.pollMs, 250, 60_000, DEFAULT_ALGO_POLL_MS);
+  if (type === "chase") {
+    return {
+      ok: true,
+      spec: {
+        type,
+        maxChaseTicks: clampInt(raw.maxChaseTicks, 0, 1_000, DEFAULT_CHASE_TICKS),
+        pollMs,
+        timeoutMs: clampInt(raw.timeoutMs, 1_000, MAX_ALGO_TIMEOUT_MS, DEFAULT_ALGO_TIMEOUT_MS),
+      },
+    };
+  }
+  if (type === "twap") {
+    const durationMs = clampInt(raw.durationMs, 1_000, MAX_ALGO_TIMEOUT_MS, DEFAULT_TWAP_DURATION_MS);
+    return {
+      ok: true,
+      spec: {
+        type,
+        slices: clampInt(raw.slices, 2, 100, DEFAULT_TWAP_SLICES),
+        durationMs,
+        pollMs,
+        timeoutMs: clampInt(
+          raw.timeoutMs,
+          durationMs,
+          MAX_ALGO_TIMEOUT_MS,
+          durationMs + TWAP_TIMEOUT_MARGIN_MS
+        ),
+      },
+    };
+  }
+  const visibleQty = toNumber(raw.visibleQty);
+  if (!(visibleQty > 0)) {
+    return { ok: false, error: "Iceberg needs a positive visibleQty" };
+  }
+  return {
+    ok: true,
+    spec: {
+      type,
+      visibleQty,
+      pollMs,
+      timeoutMs: clampInt(raw.timeoutMs, 1_000, MAX_ALGO_TIMEOUT_MS, DEFAULT_ALGO_TIMEOUT_MS),
+    },
+  };
+}
+
+/** Best bid/ask from the venue ticker; a missing side falls back to the last price. */
+export async function fetchVenueQuote({ venue, symbol, useTestnet }) {
+  const res = await venue.getTicker(symbol, useTestnet);
+  if (res?.retCode !== 0) {
+    throw new Error(`Ticker unavailable: ${res?.retMsg ?? "unknown"}`);
+  }
+  const item = extractList(res)[0];
+  const last = toNumber(item?.lastPrice);
+  const bid = toNumber(item?.bid1Price);
+  const ask = toNumber(item?.ask1Price);
+  return { bid: bid > 0 ? bid : last, ask: ask > 0 ? ask : last };
+}
+
+const fail = (status, error) => ({ ok: false, status, error });
+
+export function createExecutionAlgos({
+  submitOrder = submitVenueOrder,
+  getInstrument = ({ venue, symbol, useTestnet }) =>
+    (venue.getInstrumentInfo ?? getInstrumentInfo)(symbol, useTestnet),
+  getQuote = fetchVenueQuote,
+  now = Date.now,
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  randomId = () => crypto.randomUUID(),
+  notify = () => {},
+  orderIdempotency = getOrderIdempotency(),
+} = {}) {
+  const runsByAccount = new Map();
+
+  function runsOf(userId, env) {
+    const key = stateKey(userId, env);
+    let runs = runsByAccount.get(key);
+    if (!runs) {
+      runs = [];
+      runsByAccount.set(key, runs);
+    }
+    return runs;
+  }
+
+  function viewOf(run) {
+    return {
+      id: run.id,
+      algo: run.spec,
+      symbol: run.symbol,
+      side: run.side,
+      signalId: run.signalId,
+      qty: run.qty,
+      filledQty: run.filledQty,
+      avgPrice: run.avgPrice,
+      status: run.status,
+      reason: run.reason,
+      startedAt: run.startedAt,
+      deadline: run.deadline,
+      updatedAt: run.updatedAt,
+      endedAt: run.endedAt,
+      children: run.children.map((child) => ({ ...child })),
+    };
+  }
+
+  function list(userId, env) {
+    return runsOf(userId, env).map(viewOf);
+  }
+
+  function get(userId, env, id) {
+    const run = runsOf(userId, env).find((item) => item.id === id);
+    return run ? viewOf(run) : null;
+  }
+
+  /** Asks a working run to stop; it cancels its child on the next step. */
+  function cancel(userId, env, id) {
+    const run = runsOf(userId, env).find((item) => item.id === id);
+    if (!run) return null;
+    if (run.status === "working") run.cancelRequested = true;
+    return viewOf(run);
+  }
+
+  function recompute(run) {
+    let filled = 0;
+    let notional = 0;
+    for (const child of run.children) {
+      filled += child.filledQty;
+      if (child.filledQty > 0 && child.avgPrice > 0) notional += child.filledQty * child.avgPrice;
+    }
+    run.filledQty = roundQty(filled);
+    run.avgPrice = filled > 0 && notional > 0 ? notional / filled : null;
+    run.updatedAt = now();
+  }
+
+  function remainingOf(run) {
+    return roundQty(Math.max(0, run.qty - run.filledQty));
+  }
+
+  function isComplete(run) {
+    const remaining = remainingOf(run);
+    return remaining <= 0 || remaining < Math.max(run.minQty, run.stepSize);
+  }
+
+  function stopReason(run) {
+    if (run.cancelRequested) return "cancelled";
+    if (now() >= run.deadline) return "timeout";
+    return null;
+  }
+
+  async function wait(run, ms) {
+    const left = run.deadline - now();
+    if (left <= 0) return;
+    await sleep(Math.min(ms, left));
+  }
+
+  async function placeChild(run, { qty, orderType, price, timeInForce }) {
+    const n = run.children.length + 1;
+    const child = {
+      orderLinkId: `${run.id}-${n}`,
+      orderId: null,
+      qty,
+      price: orderType === "Limit" ? price : null,
+      orderType,
+      status: "New",
+      filledQty: 0,
+      avgPrice: null,
+      rejectReason: null,
+      placedAt: now(),
+    };
+    const { body } = run;
+    const outcome = await submitOrder({
+      userId: run.userId,
+      env: run.env,
+      venue: run.venue,
+      creds: run.creds,
+      body: {
+        symbol: run.symbol,
+        side: body.side,
+        qty,
+        orderType,
+        price: orderType === "Limit" ? price : undefined,
+        timeInForce,
+        orderLinkId: child.orderLinkId,
+        sl: body.sl,
+        tp: body.tp,
+        trailingStop: body.trailingStop,
+        trailingActivePrice: body.trailingActivePrice,
+        leverage: body.leverage,
+        reduceOnly: body.reduceOnly,
+        positionIdx: body.positionIdx,
+        journal: n === 1 ? body.journal : undefined,
+      },
+    });
+    run.children.push(child);
+    if (!outcome.ok) {
+      child.status = "Rejected";
+      child.rejectReason = outcome.error;
+      run.updatedAt = now();
+      return { ok: false, error: outcome.error };
+    }
+    child.orderId = outcome.result?.result?.orderId ?? null;
+    run.updatedAt = now();
+    return { ok: true, child };
+  }
+
+  async function refreshChild(run, child) {
+    const match = (order) =>
+      (child.orderId && String(order?.orderId ?? "") === String(child.orderId)) ||
+      String(order?.orderLinkId ?? "") === child.orderLinkId;
+    const useTestnet = run.env === "testnet";
+    let order = extractList(
+      await run.venue.listDemoOrders(run.creds, { symbol: run.symbol, limit: 50 }, useTestnet)
+    ).find(match);
+    if (!order) {
+      order = extractList(
+        await run.venue.listOrderHistory(run.creds, { symbol: run.symbol, limit: 50 }, useTestnet)
+      ).find(match);
+    }
+    if (!order) return child;
+    child.status = String(order.orderStatus ?? child.status);
+    const filled = toNumber(order.cumExecQty);
+    const avg = toNumber(order.avgPrice);
+    child.filledQty = filled > 0 ? filled : 0;
+    child.avgPrice = avg > 0 ? avg : null;
+    if (order.rejectReason && order.rejectReason !== "EC_NoError") {
+      child.rejectReason = String(order.rejectReason);
+    }
+    recompute(run);
+    return child;
+  }
+
+  const isActive = (child) => Boolean(child) && ACTIVE_CHILD_STATUSES.has(child.status);
+
+  async function cancelChild(run, child) {
+    if (!isActive(child)) return;
+    try {
+      await run.venue.cancelOrder(
+        { symbol: run.symbol, orderId: child.orderId ?? undefined, orderLinkId: child.orderLinkId },
+        run.creds,
+        run.env === "testnet"
+      );
+    } catch (err) {
+      console.warn(`[algo] ${run.id} cancel failed:`, errorMessage(err));
+    }
+    await refreshChild(run, child);
+  }
+
+  async function runChase(run) {
+    const { maxChaseTicks, pollMs } = run.spec;
+    const dir = run.side === "Buy" ? 1 : -1;
+    const tick = run.tickSize;
+    let anchor = null;
+    let backoffTicks = 0;
+    let child = null;
+
+    const targetPrice = async () => {
+      const quote = await getQuote({
+        venue: run.venue,
+        symbol: run.symbol,
+        useTestnet: run.env === "testnet",
+      });
+      const best = dir > 0 ? quote.bid : quote.ask;
+      if (!(best > 0)) throw new Error("No quote to chase");
+      anchor ??= best;
+      const limit = anchor + dir * maxChaseTicks * tick;
+      const passive = best - dir * backoffTicks * tick;
+      const capped = dir > 0 ? Math.min(passive, limit) : Math.max(passive, limit);
+      return roundToTick(capped, tick, dir > 0 ? "floor" : "ceil");
+    };
+
+    while (!isComplete(run) && !stopReason(run)) {
+      if (!child) {
+        const placed = await placeChild(run, {
+          qty: floorToStep(remainingOf(run), run.stepSize),
+          orderType: "Limit",
+          price: await targetPrice(),
+          timeInForce: "PostOnly",
+        });
+        if (!placed.ok) return { error: placed.error };
+        child = placed.child;
+      }
+      await wait(run, pollMs);
+      await refreshChild(run, child);
+      if (child.status === "Filled") {
+        child = null;
+        continue;
+      }
+      if (!isActive(child)) {
+        if (!String(child.rejectReason ?? "").includes("PostOnly")) {
+          return { error: `child ${child.orderLinkId} ${child.status}` };
+        }
+        // The quote moved through our price before the order rested.
+        backoffTicks += 1;
+        child = null;
+        continue;
+      }
+      const target = await targetPrice();
+      if (target !== child.price) {
+        await cancelChild(run, child);
+        child = null;
+      }
+    }
+    return { child };
+  }
+
+  async function runTwap(run) {
+    const { slices, durationMs, pollMs } = run.spec;
+    const sizes = splitQty(run.qty, slices, run.stepSize, run.minQty);
+    const interval = sizes.length > 1 ? durationMs / (sizes.length - 1) : 0;
+    const orderType = run.body.orderType === "Limit" ? "Limit" : "Market";
+    let target = 0;
+    let child = null;
+    for (let i = 0; i < sizes.length; i += 1) {
+      while (now() < run.startedAt + i * interval && !stopReason(run)) {
+        await wait(run, run.startedAt + i * interval - now());
+      }
+      if (stopReason(run)) return { child };
+      if (child) {
+        await cancelChild(run, child);
+        child = null;
+      }
+      target = roundQty(target + sizes[i]);
+      const qty = floorToStep(target - run.filledQty, run.stepSize);
+      if (!(qty > 0) || qty < run.minQty) continue;
+      const placed = await placeChild(run, {
+        qty,
+        orderType,
+        price: toNumber(run.body.price),
+        timeInForce: orderType === "Limit" ? "GTC" : "IOC",
+      });
+      if (!placed.ok) return { error: placed.error };
+      child = placed.child;
+      await refreshChild(run, child);
+    }
+    while (isActive(child) && !stopReason(run)) {
+      await wait(run, pollMs);
+      await refreshChild(run, child);
+    }
+    return { child };
+  }
+
+  async function runIceberg(run) {
+    const { visibleQty, pollMs } = run.spec;
+    const price = toNumber(run.body.price);
+    let child = null;
+    while (!isComplete(run) && !stopReason(run)) {
+      if (!child) {
+        const placed = await placeChild(run, {
+          qty: floorToStep(Math.min(visibleQty, remainingOf(run)), run.stepSize),
+          orderType: "Limit",
+          price,
+          timeInForce: "GTC",
+        });
+        if (!placed.ok) return { error: placed.error };
+        child = placed.child;
+      }
+      await wait(run, pollMs);
+      await refreshChild(run, child);
+      if (child.status === "Filled") {
+        child = null;
+      } else if (!isActive(child)) {
+        return { error: `child ${child.orderLinkId} ${child.status}` };
+      }
+    }
+    return { child };
+  }
+
+  const RUNNERS = { chase: runChase, twap: runTwap, iceberg: runIceberg };
+
+  function finish(run, status, reason) {
+    run.status = status;
+    run.reason = reason ?? null;
+    run.endedAt = now();
+    run.updatedAt = run.endedAt;
+    delete run.venue;
+    delete run.creds;
+    if (run.signalClaim) {
+      if (run.filledQty > 0) run.signalClaim.settle();
+      else run.signalClaim.release();
+      delete run.signalClaim;
+    }
+    const label = `${run.symbol} ${run.side} ${run.spec.type}`;
+    const fills = `filled ${run.filledQty}/${run.qty}${run.avgPrice ? ` @ ${run.avgPrice}` : ""}`;
+    const event =
+      status === "failed"
+        ? { type: "ERROR", message: `${label} failed: ${reason} (${fills})` }
+        : run.filledQty > 0
+          ? {
+              type: run.body.reduceOnly ? "AUTO_CLOSE" : "OPEN",
+              message: `${label} ${status}: ${fills}`,
+            }
+          : null;
+    if (event) {
+      Promise.resolve(
+        notify(run.userId, { ...event, env: run.env, symbol: run.symbol, side: run.side })
+      ).catch(() => {});
+    }
+  }
+
+  async function execute(run) {
+    let result = {};
+    try {
+      result = await RUNNERS[run.spec.type](run);
+    } catch (err) {
+      result = { error: errorMessage(err) };
+    }
+    const working = run.children.filter(isActive);
+    for (const child of working) {
+      try {
+        await cancelChild(run, child);
+      } catch (err) {
+        console.warn(`[algo] ${run.id} final cancel failed:`, errorMessage(err));
+      }
+    }
+    if (result.error) return finish(run, "failed", result.error);
+    if (isComplete(run)) return finish(run, "filled");
+    return finish(run, stopReason(run) ?? "cancelled");
+  }
+
+  /**
+   * Starts an algo for the order `body` (the POST /order payload). Resolves to
+   * `{ ok: true, run, done }` — `run` is the initial view and `done` settles
+   * when the run ends — or `{ ok: false, status, error }`.
+   */
+  async function start({ userId, env, venue, creds, body }) {
+    const { symbol, side, qty, price, triggerPrice } = body ?? {};
+    if (!symbol || !side || !qty) {
+      return fail(400, "Missing required fields: symbol, side, qty");
+    }
+    const parsed = normalizeAlgoSpec(body.algo);
+    if (!parsed.ok) return fail(400, parsed.error);
+    const { spec } = parsed;
+    const totalQty = toNumber(qty);
+    if (!(totalQty > 0)) return fail(400, `Invalid qty: ${qty}`);
+    if (triggerPrice != null && triggerPrice !== "") {
+      return fail(400, "Execution algos do not take conditional orders");
+    }
+    if (body.takeProfits != null) {
+      return fail(400, "Execution algos do not take a take-profit ladder");
+    }
+    if (spec.type === "iceberg" && !(toNumber(price) > 0)) {
+      return fail(400, "Iceberg needs a limit price");
+    }
+    const normalizedSymbol = String(symbol).toUpperCase();
+    const signalId = body.signalId == null ? "" : String(body.signalId).trim();
+    const signalLeg = body.signalLeg ?? "";
+    const runs = runsOf(userId, env);
+    const working = runs.filter((run) => run.status === "working");
+    if (working.some((run) => run.symbol === normalizedSymbol)) {
+      return fail(409, `An execution algo is already working on ${normalizedSymbol}`);
+    }
+    if (signalId && working.some((run) => run.signalId === signalId && run.signalLeg === signalLeg)) {
+      return fail(409, `An execution algo is already working on signal ${signalId}`);
+    }
+
+    let instrument = null;
+    try {
+      instrument = await getInstrument({ venue, symbol: normalizedSymbol, useTestnet: env === "testnet" });
+    } catch (err) {
+      console.warn("[algo] instrument info unavailable:", errorMessage(err));
+    }
+    const tickSize = toNumber(instrument?.tickSize);
+    if (spec.type === "chase" && !(tickSize > 0)) {
+      return fail(503, "Chase needs the instrument tick size");
+    }
+
+    const id = `algo-${String(randomId()).replace(/-/g, "").slice(0, 16)}`;
+    let signalClaim = null;
+    if (signalId && !body.reduceOnly) {
+      signalClaim = orderIdempotency.claimSignal({ userId, env, signalId, signalLeg, orderLinkId: id });
+      if (!signalClaim.ok) return fail(signalClaim.status, signalClaim.error);
+    }
+
+    const startedAt = now();
+    const run = {
+      id,
+      userId,
+      env,
+      venue,
+      creds,
+      body: { ...body, orderType: body.orderType === "Limit" ? "Limit" : "Market" },
+      spec,
+      symbol: normalizedSymbol,
+      side: String(side).toLowerCase() === "buy" ? "Buy" : "Sell",
+      signalId: signalId || null,
+      signalLeg,
+      signalClaim,
+      qty: totalQty,
+      tickSize: tickSize > 0 ? tickSize : 0,
+      stepSize: toNumber(instrument?.stepSize) > 0 ? toNumber(instrument.stepSize) : 0,
+      minQty: toNumber(instrument?.minQty) > 0 ? toNumber(instrument.minQty) : 0,
+      filledQty: 0,
+      avgPrice: null,
+      status: "working",
+      reason: null,
+      cancelRequested: false,
+      children: [],
+      startedAt,
+      deadline: startedAt + spec.timeoutMs,
+      updatedAt: startedAt,
+      endedAt: null,
+    };
+    runs.unshift(run);
+    const finished = runs.filter((item) => item.status !== "working");
+    for (const stale of finished.slice(MAX_RUNS_PER_ACCOUNT)) {
+      runs.splice(runs.indexOf(stale), 1);
+    }
+    const done = execute(run).then(() => viewOf(run));
+    return { ok: true, run: viewOf(run), done };
+  }
+
+  return { start, list, get, cancel };
+}
+
+let defaultExecutionAlgos = null;
+
+/**
+ * Process-wide algo runner; fills and failures go out as user notifications.
+ */
+export function getExecutionAlgos() {
+  if (!defaultExecutionAlgos) {
+    defaultExecutionAlgos = createExecutionAlgos({
+      notify: (userId, event) => getNotifier().notify(userId, event),
+    });
+  }
+  return defaultExecutionAlgos;
+}
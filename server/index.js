@@ -7,24 +7,41 @@ import cors from "cors";
 import dotenv from "dotenv";
 import path from "path";
 import { fileURLToPath } from "url";
-import { getUserApiKeys, getUserFromToken } from "./userCredentials.js";
+import {
+  deleteUserApiKey,
+  getUserExchangeAccount,
+  getUserFromToken,
+  listUserApiKeys,
+  saveUserApiKey,
+} from "./userCredentials.js";
 import { extractRequestToken } from "./requestAuth.js";
 import {
-  createDemoOrder,
   listDemoOrders,
   getDemoPositions,
   listDemoTrades,
   listExecutions,
   getWalletBalance,
   listClosedPnl,
-  setTradingStop,
-  cancelOrder,
 } from "./bybitClient.js";
+import { bybitAdapter, getExchangeAdapter, listExchanges } from "./exchanges/index.js";
+import { getPaperExchange, PAPER_ENV } from "./paperExchange.js";
 import { reconcileState } from "./reconcile.js";
-import { getInstrumentInfo } from "./instrumentCache.js";
+import { getTradeJournal } from "./tradeJournal.js";
+import { getRiskManager } from "./riskManager.js";
+import { loadRiskAccount, submitOrder } from "./orderService.js";
+import { getAutoTrader } from "./autoTrader.js";
+import { getExecutionAlgos } from "./executionAlgos.js";
+import { getKillSwitch } from "./killSwitch.js";
+import { getTpLadders } from "./tpLadders.js";
+import { getPositionModes } from "./positionModes.js";
+import { getProtectionWatchdog } from "./protectionWatchdog.js";
+import { positionIdxForLeg } from "../src/engine/positionMode.js";
+import { createNotificationListener, getNotifier } from "./notifications.js";
 import {
   getPersistentAggregatorHealth,
   getPersistentDashboardSnapshot,
+  pinPersistentSession,
+  registerSessionListener,
 } from "./persistentAggregator.js";
 import { getSymbolCatalog } from "./symbolCatalog.js";
 
@@ -81,237 +98,106 @@ const getCommonParams = (req) => {
   let env = "testnet";
   if (req.path.includes("/main/") || req.query.net === "mainnet") {
     env = "mainnet";
+  } else if (req.path.includes(`/${PAPER_ENV}/`) || req.query.net === PAPER_ENV) {
+    env = PAPER_ENV;
   }
   return { env, isTestnet: env === "testnet" };
 };
 
+const resolvePostEnv = (param) =>
+  param === "main" ? "mainnet" : param === PAPER_ENV ? PAPER_ENV : "testnet";
+
+// Venue = the ExchangeAdapter a route talks to: the user's exchange, or the
+// simulated exchange (same signatures) in paper mode.
+const resolveVenue = (env, exchange) =>
+  env === PAPER_ENV ? getPaperExchange() : getExchangeAdapter(exchange);
+
+// GET routes are registered with the bybitClient readers; map them by name
+// onto the resolved venue.
+const resolveVenueFetcher = (venue, fetcher) => {
+  const name = Object.keys(bybitAdapter).find((key) => bybitAdapter[key] === fetcher);
+  return name ? venue[name] : fetcher;
+};
+
 const getRequestUserAndCreds = async (req, env) => {
   const token = extractRequestToken(req);
   if (!token) {
     throw new Error("Missing Authorization header");
   }
   const user = await getUserFromToken(token);
-  const creds = await getUserApiKeys(user.id, env);
-  return { token, user, creds };
+  if (env === PAPER_ENV) {
+    // Paper accounts need no exchange keys; the user id keys the simulated book.
+    return { token, user, creds: { userId: user.id }, venue: resolveVenue(env) };
+  }
+  const { exchange, creds } = await getUserExchangeAccount(user.id, env);
+  return { token, user, creds, venue: resolveVenue(env, exchange) };
 };
 
 // ===========================================
 // POST /api/:env/order
 // ===========================================
+// Dashboard orders: entries notify OPEN, reduce-only exits AUTO_CLOSE and
+// failures other than risk blocks ERROR (server auto-trading notifies itself).
+const notifyOrderOutcome = (userId, env, body, outcome) => {
+  const { symbol, side, qty, price, reduceOnly } = body ?? {};
+  const event = outcome.ok
+    ? {
+        type: reduceOnly ? "AUTO_CLOSE" : "OPEN",
+        message: `${symbol} ${side} ${reduceOnly ? "reduce-only " : ""}qty ${qty}${price ? ` @ ${price}` : ""}`,
+      }
+    : outcome.status !== 409
+      ? { type: "ERROR", message: `${symbol} order rejected: ${outcome.error}` }
+      : null;
+  if (event) void getNotifier().notify(userId, { ...event, env, symbol, side });
+};
+
 app.post("/api/:env/order", async (req, res) => {
   const startTs = Date.now();
   const endpoint = req.originalUrl;
-  const env = req.params.env === "main" ? "mainnet" : "testnet";
-
-  const { symbol, side, qty, orderType, sl, tp, orderLinkId, timeInForce, trailingStop, trailingActivePrice, price, triggerPrice, leverage, reduceOnly, positionIdx } = req.body;
-
-  const leverageMap = {
-    BTCUSDT: 100,
-    ETHUSDT: 100,
-    SOLUSDT: 100,
-    ADAUSDT: 75,
-    XRPUSDT: 75,
-    SUIUSDT: 50,
-    DOGEUSDT: 75,
-    LINKUSDT: 50,
-    ZILUSDT: 25,
-    AVAXUSDT: 50,
-    HYPEUSDT: 50,
-    OPUSDT: 50,
-  };
-  const roiSymbols = new Set(Object.keys(leverageMap));
-  const MIN_PROTECTION_DISTANCE_PCT = 0.0005;
-  const roiTargets = { tp: 1.10, sl: -0.40 }; // percent ROI targets
-
-  const resolveLeverage = (sym, requested) => {
-    const requestedLev = Number(requested);
-    if (Number.isFinite(requestedLev) && requestedLev > 0) return requestedLev;
-    return leverageMap[sym] || 50;
-  };
-
-  const applyRoiStops = (sym, entry, dir, curTp, curSl, leverageValue) => {
-    if (!roiSymbols.has(sym) || !Number.isFinite(entry)) return { tp: curTp, sl: curSl };
-    if (Number.isFinite(curTp) || Number.isFinite(curSl)) return { tp: curTp, sl: curSl };
-    const lev = resolveLeverage(sym, leverageValue);
-    const isBuy = dir?.toLowerCase() === "buy";
-    const tpPrice = entry * (1 + (roiTargets.tp / 100) / Math.max(1, lev) * (isBuy ? 1 : -1));
-    const slPrice = entry * (1 - (Math.abs(roiTargets.sl) / 100) / Math.max(1, lev) * (isBuy ? 1 : -1));
-    let nextTp = Number.isFinite(tpPrice) ? tpPrice : curTp;
-    let nextSl = Number.isFinite(slPrice) ? slPrice : curSl;
-    const minDistance = entry * MIN_PROTECTION_DISTANCE_PCT;
-    if (Number.isFinite(minDistance) && minDistance > 0) {
-      if (isBuy) {
-        if (Number.isFinite(nextTp) && nextTp <= entry + minDistance) {
-          nextTp = entry + minDistance;
-        }
-        if (Number.isFinite(nextSl) && nextSl >= entry - minDistance) {
-          nextSl = entry - minDistance;
-        }
-      } else {
-        if (Number.isFinite(nextTp) && nextTp >= entry - minDistance) {
-          nextTp = entry - minDistance;
-        }
-        if (Number.isFinite(nextSl) && nextSl <= entry + minDistance) {
-          nextSl = entry + minDistance;
-        }
-      }
-    }
-    return { tp: nextTp, sl: nextSl };
-  };
-
-  const resolveMinDistance = (entry, tickSize) => {
-    const pctDistance = entry * MIN_PROTECTION_DISTANCE_PCT;
-    const tick = Number.isFinite(tickSize) && tickSize > 0 ? tickSize : 0;
-    return Math.max(pctDistance, tick);
-  };
-
-  const roundToTick = (value, tickSize, mode) => {
-    if (!Number.isFinite(value) || !Number.isFinite(tickSize) || tickSize <= 0) {
-      return value;
-    }
-    const ratio = value / tickSize;
-    const stepped =
-      mode === "ceil" ? Math.ceil(ratio) : mode === "floor" ? Math.floor(ratio) : Math.round(ratio);
-    return Number((stepped * tickSize).toFixed(12));
-  };
-
-  const clampProtection = (entry, dir, curTp, curSl, tickSize) => {
-    if (!Number.isFinite(entry) || entry <= 0) return { tp: curTp, sl: curSl };
-    const isBuy = String(dir ?? "").toLowerCase() === "buy";
-    const minDistance = resolveMinDistance(entry, tickSize);
-    let nextTp = curTp;
-    let nextSl = curSl;
-    if (isBuy) {
-      if (Number.isFinite(nextTp)) {
-        const minTp = entry + minDistance;
-        nextTp = Math.max(nextTp, minTp);
-        nextTp = roundToTick(nextTp, tickSize, "ceil");
-        if (Number.isFinite(tickSize) && tickSize > 0 && nextTp <= entry) {
-          nextTp = entry + tickSize;
-        }
-      }
-      if (Number.isFinite(nextSl)) {
-        const maxSl = entry - minDistance;
-        nextSl = Math.min(nextSl, maxSl);
-        nextSl = roundToTick(nextSl, tickSize, "floor");
-        if (Number.isFinite(tickSize) && tickSize > 0 && nextSl >= entry) {
-          nextSl = entry - tickSize;
-        }
-      }
-    } else {
-      if (Number.isFinite(nextTp)) {
-        const maxTp = entry - minDistance;
-        nextTp = Math.min(nextTp, maxTp);
-        nextTp = roundToTick(nextTp, tickSize, "floor");
-        if (Number.isFinite(tickSize) && tickSize > 0 && nextTp >= entry) {
-          nextTp = entry - tickSize;
-        }
-      }
-      if (Number.isFinite(nextSl)) {
-        const minSl = entry + minDistance;
-        nextSl = Math.max(nextSl, minSl);
-        nextSl = roundToTick(nextSl, tickSize, "ceil");
-        if (Number.isFinite(tickSize) && tickSize > 0 && nextSl <= entry) {
-          nextSl = entry + tickSize;
-        }
-      }
-    }
-    return { tp: nextTp, sl: nextSl };
-  };
+  const env = resolvePostEnv(req.params.env);
 
   try {
-    const { creds } = await getRequestUserAndCreds(req, env);
-
-    if (!symbol || !side || !qty) {
-      return sendError(res, 400, "Missing required fields: symbol, side, qty", { env, endpoint });
-    }
-
-    const orderSide = String(side).toLowerCase() === "buy" ? "buy" : "sell";
-    if (!reduceOnly) {
-      try {
-        const posRes = await getDemoPositions(creds, env === "testnet");
-        const list = posRes?.result?.list ?? posRes?.data?.result?.list ?? [];
-        const match = Array.isArray(list)
-          ? list.find((p) => String(p?.symbol ?? "") === String(symbol) && Number(p?.size ?? 0) > 0)
-          : null;
-        const posSide = String(match?.side ?? "").toLowerCase();
-        const posIdx = Number(match?.positionIdx);
-        const isOneWay = !Number.isFinite(posIdx) || posIdx === 0;
-        if (isOneWay && posSide && posSide !== orderSide) {
-          return sendError(
-            res,
-            409,
-            "Open position opposite side blocked (use TP/SL/TS or manual close)",
-            { env, endpoint, symbol, side, posSide }
-          );
-        }
-      } catch (err) {
-        console.warn("[order] position check failed:", err?.message || err);
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
+    // With `algo` the order is worked by a server-side execution algorithm;
+    // the response is the run, its progress is read from GET /algos.
+    if (req.body?.algo != null) {
+      const started = await getExecutionAlgos().start({
+        userId: user.id,
+        env,
+        venue,
+        creds,
+        body: req.body,
+      });
+      if (!started.ok) {
+        return sendError(res, started.status, started.error, {
+          latencyMs: Date.now() - startTs,
+          env,
+          endpoint,
+        });
       }
+      return sendResponse(res, started.run, {
+        latencyMs: Date.now() - startTs,
+        env,
+        endpoint,
+      });
     }
-
-    // Reuse createDemoOrder for both main/testnet logic in server (it handles 'useTestnet' flag)
-    const entryPrice = Number(price ?? triggerPrice);
-    const resolvedLeverage = resolveLeverage(symbol, leverage);
-    let tickSize = 0;
-    try {
-      const instrument = await getInstrumentInfo(symbol, env === "testnet");
-      tickSize = Number(instrument?.tickSize ?? 0);
-    } catch (err) {
-      console.warn("[order] instrument info unavailable:", err?.message || err);
-    }
-    const { tp: roiTp, sl: roiSl } = applyRoiStops(
-      symbol,
-      entryPrice,
-      side,
-      tp,
-      sl,
-      resolvedLeverage
-    );
-    const { tp: safeTp, sl: safeSl } = clampProtection(
-      entryPrice,
-      side,
-      roiTp,
-      roiSl,
-      tickSize
-    );
-
-    const result = await createDemoOrder({
-      symbol,
-      side,
-      qty,
-      orderType,
-      price,
-      triggerPrice,
-      sl: safeSl,
-      tp: safeTp,
-      trailingStop,
-      trailingActivePrice,
-      orderLinkId,
-      timeInForce,
-      reduceOnly,
-      positionIdx,
-      takeProfit: safeTp,
-      stopLoss: safeSl,
-      trailingStop,
-      trailingActivePrice,
-      leverage: resolvedLeverage
-    }, creds, env === "testnet");
-
-    if (result.retCode !== 0) {
-      return sendError(res, 400, `Bybit Rejected: ${result.retMsg}`, {
-        code: result.retCode,
-        details: result,
-        env, endpoint
+    const outcome = await submitOrder({ userId: user.id, env, venue, creds, body: req.body });
+    // A replayed duplicate was notified when it was first placed.
+    if (!outcome.meta?.idempotentReplay) notifyOrderOutcome(user.id, env, req.body, outcome);
+    if (!outcome.ok) {
+      return sendError(res, outcome.status, outcome.error, {
+        latencyMs: Date.now() - startTs,
+        env,
+        endpoint,
+        ...outcome.meta,
       });
     }
-
-    return sendResponse(res, result, {
+    return sendResponse(res, outcome.result, {
       latencyMs: Date.now() - startTs,
       env,
-      endpoint
+      endpoint,
+      ...outcome.meta,
     });
-
   } catch (err) {
     return sendError(res, 500, err.message, { latencyMs: Date.now() - startTs, env, endpoint });
   }
@@ -323,13 +209,16 @@ app.post("/api/:env/order", async (req, res) => {
 app.post("/api/:env/protection", async (req, res) => {
   const startTs = Date.now();
   const endpoint = req.originalUrl;
-  const env = req.params.env === "main" ? "mainnet" : "testnet";
+  const env = resolvePostEnv(req.params.env);
 
   try {
-    const { creds } = await getRequestUserAndCreds(req, env);
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
 
+    // `side` names the position leg (Buy = long, Sell = short) when the
+    // account runs in hedge mode and the caller has no positionIdx.
     const {
       symbol,
+      side,
       sl,
       tp,
       trailingStop,
@@ -348,14 +237,18 @@ app.post("/api/:env/protection", async (req, res) => {
     }
 
     const resolvedActivePrice = activePrice ?? trailingActivePrice;
-    const result = await setTradingStop(
+    const positionMode = getPositionModes().modeOf(user.id, env);
+    const legIdx =
+      positionIdx ?? (positionMode === "hedge" && side ? positionIdxForLeg(side, positionMode) : undefined);
+    const result = await venue.setTradingStop(
       {
         symbol,
+        side,
         sl,
         tp,
         trailingStop,
         activePrice: resolvedActivePrice,
-        positionIdx,
+        positionIdx: legIdx,
         slTriggerBy,
         tpTriggerBy,
       },
@@ -383,7 +276,7 @@ app.post("/api/:env/protection", async (req, res) => {
 app.post("/api/:env/cancel", async (req, res) => {
   const startTs = Date.now();
   const endpoint = req.originalUrl;
-  const env = req.params.env === "main" ? "mainnet" : "testnet";
+  const env = resolvePostEnv(req.params.env);
 
   return sendError(res, 403, "cancel_disabled", {
     latencyMs: Date.now() - startTs,
@@ -392,7 +285,7 @@ app.post("/api/:env/cancel", async (req, res) => {
   });
 
   try {
-    const { creds } = await getRequestUserAndCreds(req, env);
+    const { creds, venue } = await getRequestUserAndCreds(req, env);
 
     const { symbol, orderId, orderLinkId } = req.body || {};
     if (!symbol || (!orderId && !orderLinkId)) {
@@ -402,7 +295,7 @@ app.post("/api/:env/cancel", async (req, res) => {
       });
     }
 
-    const result = await cancelOrder(
+    const result = await venue.cancelOrder(
       { symbol, orderId, orderLinkId },
       creds,
       env === "testnet"
@@ -422,6 +315,281 @@ app.post("/api/:env/cancel", async (req, res) => {
   }
 });
 
+// ===========================================
+// POST /api/:env/algos/cancel
+// ===========================================
+app.post("/api/:env/algos/cancel", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user } = await getRequestUserAndCreds(req, env);
+    const id = req.body?.id;
+    if (!id) {
+      return sendError(res, 400, "Missing required field: id", { env, endpoint });
+    }
+    const run = getExecutionAlgos().cancel(user.id, env, String(id));
+    if (!run) {
+      return sendError(res, 404, `Execution algo not found: ${id}`, { env, endpoint });
+    }
+    return sendResponse(res, run, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Algo cancel error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+// ===========================================
+// POST /api/:env/risk/reset
+// ===========================================
+app.post("/api/:env/risk/reset", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user } = await getRequestUserAndCreds(req, env);
+    const status = getRiskManager().reset(user.id, env, { by: user.email ?? user.id });
+    return sendResponse(res, status, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Risk reset error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+// ===========================================
+// POST /api/:env/autotrade
+// ===========================================
+// Turns the headless executor on/off for the caller. Enabling starts (and
+// pins) the aggregator session, so trading continues after the tab closes.
+app.post("/api/:env/autotrade", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
+    const { enabled, riskMode, symbols, settings } = req.body ?? {};
+    if (enabled === true && getKillSwitch().isEngaged(user.id, env)) {
+      return sendError(res, 409, "Kill switch engaged: re-arm before enabling auto-trading", {
+        latencyMs: Date.now() - startTs,
+        env,
+        endpoint,
+      });
+    }
+    const status = getAutoTrader().configure(user.id, env, {
+      enabled: typeof enabled === "boolean" ? enabled : undefined,
+      riskMode,
+      symbols,
+      settings,
+    });
+    if (status.enabled) {
+      await startAutoTradeSession({ userId: user.id, env, creds, venue, config: status });
+    }
+    pinPersistentSession(user.id, env, status.enabled);
+    return sendResponse(res, status, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Autotrade config error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+// ===========================================
+// POST /api/:env/kill
+// ===========================================
+// Emergency flatten-all: blocks new entries, stops auto-trading and execution
+// algos, cancels every open order and market-closes every position. Entries
+// stay blocked until POST /api/:env/kill/rearm.
+app.post("/api/:env/kill", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
+    const report = await getKillSwitch().engage({
+      userId: user.id,
+      env,
+      venue,
+      creds,
+      by: user.email ?? user.id,
+      stopAutomation: ({ userId }) => {
+        getAutoTrader().configure(userId, env, { enabled: false });
+        pinPersistentSession(userId, env, false);
+        for (const run of getExecutionAlgos().list(userId, env)) {
+          if (run.status === "working") getExecutionAlgos().cancel(userId, env, run.id);
+        }
+      },
+    });
+    return sendResponse(res, report, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Kill switch error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+app.post("/api/:env/kill/rearm", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user } = await getRequestUserAndCreds(req, env);
+    const status = getKillSwitch().rearm(user.id, env, { by: user.email ?? user.id });
+    return sendResponse(res, status, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Kill switch re-arm error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+// ===========================================
+// POST /api/:env/position-mode
+// ===========================================
+// Switches the account between one-way and hedge mode (`{ mode }`).
+app.post("/api/:env/position-mode", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
+    const outcome = await getPositionModes().apply({
+      userId: user.id,
+      env,
+      venue,
+      creds,
+      mode: req.body?.mode,
+    });
+    if (!outcome.ok) {
+      return sendError(res, outcome.status, outcome.error, {
+        latencyMs: Date.now() - startTs,
+        env,
+        endpoint,
+        ...outcome.meta,
+      });
+    }
+    return sendResponse(res, outcome.result, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Position mode error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+// ===========================================
+// POST /api/:env/reconcile/repair
+// ===========================================
+// Diffs the bot's intended state against the venue like GET /reconcile and
+// runs the repair actions (cancels, amends, ladder re-syncs) in order.
+const runReconcile = async ({ user, creds, venue, env, repair }) => {
+  const intents = await getTradeJournal()
+    .query({ userId: user.id, env, status: "OPEN" })
+    .catch((err) => {
+      console.warn("[reconcile] journal unavailable:", err?.message || err);
+      return [];
+    });
+  return reconcileState(creds, env === "testnet", venue, {
+    ladders: getTpLadders().list(user.id, env),
+    intents,
+    repair,
+    syncLadder: ({ symbol, positionIdx }) =>
+      getTpLadders().sync({ userId: user.id, env, venue, creds, symbol, positionIdx }),
+    ...(Number(process.env.RECONCILE_ENTRY_ORDER_TTL_MS) > 0
+      ? { entryOrderTtlMs: Number(process.env.RECONCILE_ENTRY_ORDER_TTL_MS) }
+      : {}),
+  });
+};
+
+app.post("/api/:env/reconcile/repair", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = resolvePostEnv(req.params.env);
+
+  try {
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
+    const report = await runReconcile({ user, creds, venue, env, repair: "auto" });
+    return sendResponse(res, report, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Reconcile repair error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
+// ===========================================
+// POST /api/paper/reset
+// ===========================================
+app.post(`/api/${PAPER_ENV}/reset`, async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  const env = PAPER_ENV;
+
+  try {
+    const { creds } = await getRequestUserAndCreds(req, env);
+    const balance = getPaperExchange().resetAccount(creds, { balance: req.body?.balance });
+    return sendResponse(res, { balance }, {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  } catch (err) {
+    return sendError(res, 500, err?.message || "Paper reset error", {
+      latencyMs: Date.now() - startTs,
+      env,
+      endpoint,
+    });
+  }
+});
+
 // Fallback aliases for POST
 app.post("/api/main/order", (req, res) => { req.params.env = "main"; return app._router.handle(req, res); }); // Express routing trick or just copy handler. 
 // Simpler: Just rely on :env param matching "main" or "demo".
@@ -440,7 +608,7 @@ const handleGetRequest = async (req, res, fetcher) => {
   const endpoint = req.originalUrl;
 
   try {
-    const { user, creds } = await getRequestUserAndCreds(req, env);
+    const { user, creds, venue } = await getRequestUserAndCreds(req, env);
 
     // DEBUG: check env
     if (!env) console.error(`[handleGetRequest] Env is undefined! params=${JSON.stringify(req.params)}, query=${JSON.stringify(req.query)}, path=${req.path}`);
@@ -465,12 +633,16 @@ const handleGetRequest = async (req, res, fetcher) => {
 
     // We need to match signature.
     let result;
-    if (fetcher === getDemoPositions || fetcher === getWalletBalance || fetcher === reconcileState) {
-      result = await fetcher(creds, isTestnet);
+    if (fetcher === reconcileState) {
+      // Always a dry-run report; POST /reconcile/repair applies the actions.
+      result = await runReconcile({ user, creds, venue, env, repair: "dry-run" });
+    } else if (fetcher === getDemoPositions || fetcher === getWalletBalance) {
+      result = await resolveVenueFetcher(venue, fetcher)(creds, isTestnet);
     } else {
-      result = await fetcher(creds, req.query, isTestnet, {
+      result = await resolveVenueFetcher(venue, fetcher)(creds, req.query, isTestnet, {
         env,
         userId: user.id,
+        venue,
       });
     }
 
@@ -493,7 +665,9 @@ const handleGetRequest = async (req, res, fetcher) => {
             normalized.includes("missing testnet api keys") ||
             normalized.includes("missing mainnet api keys")
           ? 400
-          : 500;
+          : normalized.includes("journal entry not found")
+            ? 404
+            : 500;
     return sendError(res, status, message, { latencyMs: Date.now() - startTs, env, endpoint });
   }
 };
@@ -505,6 +679,7 @@ const getDashboardSnapshot = async (creds, query, isTestnet, meta) =>
     apiKey: creds.apiKey,
     apiSecret: creds.apiSecret,
     useTestnet: isTestnet,
+    venue: meta?.venue,
     scope: query?.scope,
     riskMode: query?.riskMode,
     symbols: query?.symbols,
@@ -513,6 +688,88 @@ const getDashboardSnapshot = async (creds, query, isTestnet, meta) =>
     pnlLimit: query?.pnlLimit,
   });
 
+// Journal reads sync OPEN entries against the venue first (skip with ?sync=0).
+const getJournal = async (creds, query, isTestnet, meta) => {
+  const journal = getTradeJournal();
+  let sync = null;
+  if (String(query?.sync ?? "1") !== "0") {
+    sync = await journal.syncOpenEntries({
+      userId: meta?.userId,
+      env: meta?.env,
+      venue: meta?.venue,
+      creds,
+      useTestnet: isTestnet,
+    });
+  }
+  const list = await journal.query({
+    userId: meta?.userId,
+    env: meta?.env,
+    symbol: query?.symbol,
+    profile: query?.profile,
+    status: query?.status,
+    from: query?.from,
+    to: query?.to,
+    limit: query?.limit,
+  });
+  return { list, store: journal.storeKind, sync };
+};
+
+const getJournalEntryById = (id) => async (creds, query, isTestnet, meta) => {
+  const entry = await getTradeJournal().get(meta?.userId, id);
+  if (!entry) throw new Error(`Journal entry not found: ${id}`);
+  return entry;
+};
+
+// Risk status refreshes the account reading first, so it also rolls the day.
+const getRiskStatus = async (creds, query, isTestnet, meta) => {
+  const account = await loadRiskAccount({
+    userId: meta?.userId,
+    env: meta?.env,
+    venue: meta?.venue,
+    creds,
+  });
+  return getRiskManager().observe(meta?.userId, meta?.env, account);
+};
+
+const getAutoTradeStatus = async (creds, query, isTestnet, meta) =>
+  getAutoTrader().getStatus(meta?.userId, meta?.env);
+
+// Execution algo runs with their child orders, newest first.
+const getExecutionAlgoRuns = async (creds, query, isTestnet, meta) => ({
+  list: getExecutionAlgos().list(meta?.userId, meta?.env),
+});
+
+// Take-profit ladders with their levels, fill progress and working legs.
+const getTpLadderList = async (creds, query, isTestnet, meta) => ({
+  list: getTpLadders().list(meta?.userId, meta?.env),
+});
+
+// Recorded position mode and the one the open positions show.
+const getPositionModeStatus = async (creds, query, isTestnet, meta) =>
+  getPositionModes().status({ userId: meta?.userId, env: meta?.env, venue: meta?.venue, creds });
+
+// Whether new entries are blocked, plus the last flatten report.
+const getKillSwitchStatus = async (creds, query, isTestnet, meta) =>
+  getKillSwitch().getStatus(meta?.userId, meta?.env);
+
+// Watchdog settings, the legs it is protecting and its recent attempts.
+const getProtectionWatchdogStatus = async (creds, query, isTestnet, meta) =>
+  getProtectionWatchdog().getStatus(meta?.userId, meta?.env);
+
+// Creates the aggregator session the executor listens to, with the scope
+// the dashboard would request.
+const startAutoTradeSession = ({ userId, env, creds, venue, config }) =>
+  getPersistentDashboardSnapshot({
+    userId,
+    env,
+    apiKey: creds?.apiKey,
+    apiSecret: creds?.apiSecret,
+    useTestnet: env === "testnet",
+    venue,
+    riskMode: config?.riskMode ?? undefined,
+    symbols: Array.isArray(config?.symbols) ? config.symbols.join(",") : undefined,
+  });
+
 app.get("/api/:env/positions", (req, res) => handleGetRequest(req, res, getDemoPositions));
 app.get("/api/positions", (req, res) => handleGetRequest(req, res, getDemoPositions));
 
@@ -535,6 +792,37 @@ app.get("/api/closed-pnl", (req, res) => handleGetRequest(req, res, listClosedPn
 app.get("/api/:env/reconcile", (req, res) => handleGetRequest(req, res, reconcileState));
 app.get("/api/reconcile", (req, res) => handleGetRequest(req, res, reconcileState));
 
+app.get("/api/:env/autotrade", (req, res) => handleGetRequest(req, res, getAutoTradeStatus));
+app.get("/api/autotrade", (req, res) => handleGetRequest(req, res, getAutoTradeStatus));
+
+app.get("/api/:env/algos", (req, res) => handleGetRequest(req, res, getExecutionAlgoRuns));
+app.get("/api/algos", (req, res) => handleGetRequest(req, res, getExecutionAlgoRuns));
+
+app.get("/api/:env/tp-ladders", (req, res) => handleGetRequest(req, res, getTpLadderList));
+app.get("/api/tp-ladders", (req, res) => handleGetRequest(req, res, getTpLadderList));
+
+app.get("/api/:env/position-mode", (req, res) => handleGetRequest(req, res, getPositionModeStatus));
+app.get("/api/position-mode", (req, res) => handleGetRequest(req, res, getPositionModeStatus));
+
+app.get("/api/:env/kill", (req, res) => handleGetRequest(req, res, getKillSwitchStatus));
+app.get("/api/kill", (req, res) => handleGetRequest(req, res, getKillSwitchStatus));
+
+app.get("/api/:env/protection-watchdog", (req, res) =>
+  handleGetRequest(req, res, getProtectionWatchdogStatus)
+);
+app.get("/api/protection-watchdog", (req, res) =>
+  handleGetRequest(req, res, getProtectionWatchdogStatus)
+);
+
+app.get("/api/:env/journal", (req, res) => handleGetRequest(req, res, getJournal));
+app.get("/api/journal", (req, res) => handleGetRequest(req, res, getJournal));
+app.get("/api/:env/journal/:id", (req, res) =>
+  handleGetRequest(req, res, getJournalEntryById(req.params.id))
+);
+
+app.get("/api/:env/risk", (req, res) => handleGetRequest(req, res, getRiskStatus));
+app.get("/api/risk", (req, res) => handleGetRequest(req, res, getRiskStatus));
+
 app.get("/api/:env/dashboard", (req, res) => handleGetRequest(req, res, getDashboardSnapshot));
 app.get("/api/dashboard", (req, res) => handleGetRequest(req, res, getDashboardSnapshot));
 app.get("/api/:env/symbols", async (req, res) => {
@@ -594,6 +882,72 @@ app.get("/api/symbols", async (req, res) => {
   }
 });
 
+// ===========================================
+// /api/keys
+// ===========================================
+// The user's API keys: values are encrypted here (server/keyVault.js) and
+// only masked values leave the server.
+const getRequestUser = async (req) => {
+  const token = extractRequestToken(req);
+  if (!token) {
+    throw new Error("Missing Authorization header");
+  }
+  return getUserFromToken(token);
+};
+
+const sendKeysError = (res, err, meta) => {
+  const message = err?.message || "API keys error";
+  const status = /authorization|token|jwt/i.test(message)
+    ? 401
+    : /required|configured/i.test(message)
+      ? 400
+      : 500;
+  return sendError(res, status, message, meta);
+};
+
+app.get("/api/keys", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  try {
+    const user = await getRequestUser(req);
+    const list = await listUserApiKeys(user.id);
+    return sendResponse(res, { list }, { latencyMs: Date.now() - startTs, endpoint });
+  } catch (err) {
+    return sendKeysError(res, err, { latencyMs: Date.now() - startTs, endpoint });
+  }
+});
+
+// `{ service, value }` stores (or replaces) one key.
+app.post("/api/keys", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  try {
+    const user = await getRequestUser(req);
+    const saved = await saveUserApiKey(user.id, req.body?.service, req.body?.value);
+    return sendResponse(res, saved, { latencyMs: Date.now() - startTs, endpoint });
+  } catch (err) {
+    return sendKeysError(res, err, { latencyMs: Date.now() - startTs, endpoint });
+  }
+});
+
+app.post("/api/keys/delete", async (req, res) => {
+  const startTs = Date.now();
+  const endpoint = req.originalUrl;
+  try {
+    const user = await getRequestUser(req);
+    if (!req.body?.service) {
+      return sendError(res, 400, "Missing required field: service", { endpoint });
+    }
+    const removed = await deleteUserApiKey(user.id, req.body.service);
+    return sendResponse(res, removed, { latencyMs: Date.now() - startTs, endpoint });
+  } catch (err) {
+    return sendKeysError(res, err, { latencyMs: Date.now() - startTs, endpoint });
+  }
+});
+
+// Exchanges a user can select (user_api_keys service "exchange")
+app.get("/api/exchanges", (req, res) => sendResponse(res, { list: listExchanges() }));
+
 // Health
 app.get("/api/health", (req, res) => {
   return sendResponse(
@@ -618,7 +972,43 @@ app.get("*", (req, res, next) => {
 });
 
 
+// Restarts the sessions of every account with auto-trading enabled; the
+// executor then picks up their decisions through the session listener.
+const resumeAutoTrading = async () => {
+  const autoTrader = getAutoTrader();
+  registerSessionListener(autoTrader);
+  registerSessionListener(getTpLadders());
+  // PROTECTION_WATCHDOG=off leaves missing stop losses to the dashboard.
+  if (process.env.PROTECTION_WATCHDOG !== "off") {
+    registerSessionListener(getProtectionWatchdog());
+  }
+  const notifier = getNotifier();
+  registerSessionListener(
+    createNotificationListener({ notify: (userId, event) => notifier.notify(userId, event) })
+  );
+  for (const config of autoTrader.listEnabled()) {
+    const { userId, env } = config;
+    try {
+      let creds = { userId };
+      let venue = resolveVenue(env);
+      if (env !== PAPER_ENV) {
+        const account = await getUserExchangeAccount(userId, env);
+        creds = account.creds;
+        venue = resolveVenue(env, account.exchange);
+      }
+      await startAutoTradeSession({ userId, env, creds, venue, config });
+      pinPersistentSession(userId, env, true);
+      console.log(`[AUTOTRADE] resumed ${env}:${userId}`);
+    } catch (err) {
+      console.error(`[AUTOTRADE] resume failed for ${env}:${userId}:`, err?.message || err);
+    }
+  }
+};
+
 app.listen(PORT, () => {
   console.log(`[SERVER] Running on http://0.0.0.0:${PORT}`);
   console.log(`[SECURITY] Strict Mode: ON`);
+  resumeAutoTrading().catch((err) => {
+    console.error("[AUTOTRADE] resume failed:", err?.message || err);
+  });
 });
@@ -0,0 +1,177 @@
+// ===========================================
+// Envelope encryption for user API secrets
+// ===========================================
+//
+// Every user_api_keys row gets its own random data key. The value is
+// encrypted with it (AES-256-GCM, bound to the row's user_id and service as
+// additional data, so a ciphertext copied to another row does not open) and
+// the data key is wrapped with the server master key (AES-256-GCM as well).
+// The row stores only the two ciphertexts and the master key id; plaintext
+// exists only in server memory after decryptRow.
+//
+// Master keys come from the environment, 32 bytes base64:
+//   API_KEYS_MASTER_KEY      current key, wraps every new data key
+//   API_KEYS_MASTER_KEY_ID   its id (default "k1")
+//   API_KEYS_PREVIOUS_MASTER_KEYS  "id:base64,id:base64" still accepted for
+//                                  decryption until rows are re-wrapped
+// Rotation re-wraps the data keys only (rewrapRow); scripts/rotate-api-keys.mjs
+// runs it over the table.
+
+import crypto from "crypto";
+
+const CIPHER = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const FORMAT_VERSION = "v1";
+export const DEFAULT_MASTER_KEY_ID = "k1";
+
+function decodeKey(value, label) {
+  const key = Buffer.from(String(value ?? "").trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${label} must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  return key;
+}
+
+function seal(key, plaintext, aad) {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(".");
+}
+
+function open(key, sealed, aad) {
+  const [version, iv, tag, ciphertext] = String(sealed ?? "").split(".");
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext == null) {
+    throw new Error("Unsupported encrypted value format");
+  }
+  const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, "base64"));
+  if (aad) decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]);
+}
+
+// Additional data binding a value to its row.
+function rowAad(userId, service) {
+  return `${String(userId ?? "")}\n${String(service ?? "").toLowerCase()}`;
+}
+
+/** A fresh master key, base64 (for API_KEYS_MASTER_KEY). */
+export function generateMasterKey() {
+  return crypto.randomBytes(KEY_BYTES).toString("base64");
+}
+
+/**
+ * Master keys from an env-like object. Returns null without
+ * API_KEYS_MASTER_KEY; malformed keys throw.
+ */
+export function resolveMasterKeys(env = process.env) {
+  if (!env.API_KEYS_MASTER_KEY) return null;
+  const currentId = String(env.API_KEYS_MASTER_KEY_ID || DEFAULT_MASTER_KEY_ID).trim();
+  const keys = new Map();
+  for (const entry of String(env.API_KEYS_PREVIOUS_MASTER_KEYS ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const sep = trimmed.indexOf(":");
+    if (sep <= 0) throw new Error("API_KEYS_PREVIOUS_MASTER_KEYS entries must be id:base64");
+    const id = trimmed.slice(0, sep).trim();
+    keys.set(id, decodeKey(trimmed.slice(sep + 1), `Master key ${id}`));
+  }
+  keys.set(currentId, decodeKey(env.API_KEYS_MASTER_KEY, "API_KEYS_MASTER_KEY"));
+  return { currentId, keys };
+}
+
+export function createKeyVault({ masterKeys }) {
+  if (!masterKeys?.keys?.get(masterKeys.currentId)) {
+    throw new Error("Key vault needs the current master key");
+  }
+  const { currentId, keys } = masterKeys;
+
+  function masterKey(id) {
+    const key = keys.get(String(id ?? ""));
+    if (!key) throw new Error(`Unknown master key id: ${id}`);
+    return key;
+  }
+
+  function wrap(dataKey, userId, service) {
+    return seal(masterKey(currentId), dataKey, rowAad(userId, service));
+  }
+
+  function unwrap(row) {
+    const dataKey = open(
+      masterKey(row.master_key_id),
+      row.wrapped_data_key,
+      rowAad(row.user_id, row.service)
+    );
+    if (dataKey.length !== KEY_BYTES) throw new Error("Wrapped data key has the wrong size");
+    return dataKey;
+  }
+
+  /**
+   * Encrypted columns for a user_api_keys row holding `value`.
+   */
+  function encryptRow({ userId, service, value }) {
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    try {
+      return {
+        secret_ciphertext: seal(dataKey, Buffer.from(String(value), "utf8"), rowAad(userId, service)),
+        wrapped_data_key: wrap(dataKey, userId, service),
+        master_key_id: currentId,
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /** Plaintext value of an encrypted row; throws on tampering or a missing key. */
+  function decryptRow(row) {
+    const dataKey = unwrap(row);
+    try {
+      return open(dataKey, row.secret_ciphertext, rowAad(row.user_id, row.service)).toString("utf8");
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  /**
+   * The row's data key wrapped with the current master key; the value
+   * ciphertext stays as it is. Null when the row already uses it.
+   */
+  function rewrapRow(row) {
+    if (row.master_key_id === currentId) return null;
+    const dataKey = unwrap(row);
+    try {
+      return {
+        wrapped_data_key: wrap(dataKey, row.user_id, row.service),
+        master_key_id: currentId,
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  return { currentKeyId: currentId, encryptRow, decryptRow, rewrapRow };
+}
+
+let defaultKeyVault;
+
+/**
+ * Process-wide vault from the API_KEYS_MASTER_KEY* variables; null when no
+ * master key is configured.
+ */
+export function getKeyVault() {
+  if (defaultKeyVault === undefined) {
+    const masterKeys = resolveMasterKeys();
+    defaultKeyVault = masterKeys ? createKeyVault({ masterKeys }) : null;
+    if (!defaultKeyVault) {
+      console.warn("[keys] API_KEYS_MASTER_KEY not set, API secrets cannot be stored");
+    }
+  }
+  return defaultKeyVault;
+}
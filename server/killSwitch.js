@@ -0,0 +1,343 @@
+// ===========================================
+// Emergency kill switch (flatten all)
+// ===========================================
+//
+// POST /api/:env/kill stops everything the bot does for one user and env:
+//   1. the switch is engaged first, so orderService refuses every new
+//      non-reduce-only order from that moment (dashboard, auto-trader,
+//      execution algos) until POST /api/:env/kill/rearm
+//   2. automation is stopped (the route disables the auto-trader, unpins its
+//      session and cancels working execution algos)
+//   3. every open order is cancelled and every open position leg is closed
+//      with a reduce-only market order straight on the venue
+//   4. positions and every page of open orders are read back until the
+//      account is flat, repeating the cancel/close pass up to
+//      `verifyAttempts` times
+// The response is a per-symbol report. The engaged flag is kept in
+// KILL_SWITCH_STATE_FILE (default server/.data/kill-switch.json) so a server
+// restart does not lift it.
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { getNotifier } from "./notifications.js";
+import { positionLegSide } from "../src/engine/positionMode.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_KILL_SWITCH_FILE = path.resolve(__dirname, ".data/kill-switch.json");
+const DEFAULT_VERIFY_ATTEMPTS = 3;
+const DEFAULT_VERIFY_DELAY_MS = 1_000;
+const ORDER_FETCH_LIMIT = 50;
+// Guard against a venue that keeps handing out cursors (2 500 orders).
+const MAX_ORDER_PAGES = 50;
+
+function stateKey(userId, env) {
+  return `${env}:${userId}`;
+}
+
+function extractList(payload) {
+  const list = payload?.result?.list ?? payload?.data?.result?.list ?? payload?.list;
+  return Array.isArray(list) ? list : [];
+}
+
+function errorMessage(err) {
+  return err?.response?.data?.retMsg || err?.message || String(err);
+}
+
+function isWorkingOrder(order) {
+  const key = String(order?.orderStatus ?? "").toLowerCase().replace(/[^a-z]/g, "");
+  return key === "" || key === "new" || key === "created" || key === "untriggered" || key === "partiallyfilled";
+}
+
+/**
+ * JSON file store for the engaged flags; `filePath: null` keeps them in
+ * memory only.
+ */
+export function createFileKillSwitchStore(filePath = DEFAULT_KILL_SWITCH_FILE) {
+  let states = null;
+
+  function load() {
+    if (states) return states;
+    states = {};
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      states = parsed?.states && typeof parsed.states === "object" ? parsed.states : {};
+    }
+    return states;
+  }
+
+  function persist() {
+    if (!filePath) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, states }));
+    fs.renameSync(tmp, filePath);
+  }
+
+  return {
+    kind: "file",
+    get(key) {
+      return load()[key] ?? null;
+    },
+    set(key, state) {
+      load()[key] = state;
+      persist();
+    },
+  };
+}
+
+export function createKillSwitch({
+  store = createFileKillSwitchStore(null),
+  verifyAttempts = DEFAULT_VERIFY_ATTEMPTS,
+  verifyDelayMs = DEFAULT_VERIFY_DELAY_MS,
+  now = Date.now,
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  notify = () => {},
+} = {}) {
+  const inflight = new Map();
+
+  function stateOf(userId, env) {
+    return store.get(stateKey(String(userId ?? ""), String(env ?? ""))) ?? null;
+  }
+
+  function isEngaged(userId, env) {
+    return Boolean(stateOf(userId, env)?.engaged);
+  }
+
+  function getStatus(userId, env) {
+    const state = stateOf(userId, env);
+    return {
+      engaged: Boolean(state?.engaged),
+      engagedAt: state?.engagedAt ?? null,
+      engagedBy: state?.engagedBy ?? null,
+      rearmedAt: state?.rearmedAt ?? null,
+      rearmedBy: state?.rearmedBy ?? null,
+      lastReport: state?.lastReport ?? null,
+    };
+  }
+
+  /**
+   * Verdict for a new order, shaped like the risk gate's: reduce-only orders
+   * always pass so positions can still be closed.
+   */
+  function checkOrder({ userId, env, order = {} }) {
+    if (order.reduceOnly || !isEngaged(userId, env)) return { allowed: true };
+    const state = stateOf(userId, env);
+    return {
+      allowed: false,
+      reason: "KILL_SWITCH",
+      detail: `engaged at ${new Date(state.engagedAt).toISOString()}, re-arm to trade`,
+    };
+  }
+
+  // Every page of open orders: one page would leave orders past the first
+  // ORDER_FETCH_LIMIT working after a kill.
+  async function listOpenOrders(venue, creds, useTestnet) {
+    const listOrders = venue.listDemoOpenOrders ?? venue.listDemoOrders;
+    const orders = [];
+    let cursor = "";
+    for (let page = 0; page < MAX_ORDER_PAGES; page += 1) {
+      const res = await listOrders(
+        creds,
+        cursor ? { limit: ORDER_FETCH_LIMIT, cursor } : { limit: ORDER_FETCH_LIMIT },
+        useTestnet
+      );
+      orders.push(...extractList(res));
+      const next = String(res?.result?.nextPageCursor ?? res?.data?.result?.nextPageCursor ?? "");
+      if (!next || next === cursor) break;
+      cursor = next;
+    }
+    return orders;
+  }
+
+  async function readAccount(venue, creds, useTestnet) {
+    const [posRes, orders] = await Promise.all([
+      venue.getDemoPositions(creds, useTestnet),
+      listOpenOrders(venue, creds, useTestnet),
+    ]);
+    return {
+      positions: extractList(posRes).filter((p) => p?.symbol && Math.abs(Number(p.size ?? 0)) > 0),
+      orders: orders.filter((o) => o?.symbol && isWorkingOrder(o)),
+    };
+  }
+
+  // One cancel + close pass; failures are recorded on the symbol's report.
+  async function flattenPass(venue, creds, useTestnet, account, entryOf) {
+    for (const order of account.orders) {
+      const entry = entryOf(order.symbol);
+      const ref = order.orderId || order.orderLinkId;
+      try {
+        const res = await venue.cancelOrder(
+          { symbol: order.symbol, orderId: order.orderId, orderLinkId: order.orderLinkId },
+          creds,
+          useTestnet
+        );
+        if (res?.retCode === 0) entry.cancelledOrders.push(String(ref));
+        else entry.errors.push(`cancel ${ref}: ${res?.retMsg ?? `retCode ${res?.retCode}`}`);
+      } catch (err) {
+        entry.errors.push(`cancel ${ref}: ${errorMessage(err)}`);
+      }
+    }
+    for (const position of account.positions) {
+      const entry = entryOf(position.symbol);
+      const side = positionLegSide(position) ?? "Buy";
+      const qty = String(Math.abs(Number(position.size)));
+      const close = { side, qty, ok: false, error: null };
+      try {
+        const res = await venue.createDemoOrder(
+          {
+            symbol: position.symbol,
+            side: side === "Buy" ? "Sell" : "Buy",
+            qty,
+            orderType: "Market",
+            reduceOnly: true,
+            positionIdx: position.positionIdx,
+          },
+          creds,
+          useTestnet
+        );
+        close.ok = res?.retCode === 0;
+        if (!close.ok) close.error = res?.retMsg ?? `retCode ${res?.retCode}`;
+      } catch (err) {
+        close.error = errorMessage(err);
+      }
+      entry.closed.push(close);
+      if (close.error) entry.errors.push(`close ${side} ${qty}: ${close.error}`);
+    }
+  }
+
+  async function run({ userId, env, venue, creds, by, stopAutomation }) {
+    const useTestnet = env === "testnet";
+    const engagedAt = now();
+    const key = stateKey(userId, env);
+    // Engaged before anything else: entries racing the flatten are refused.
+    store.set(key, {
+      ...(store.get(key) ?? {}),
+      engaged: true,
+      engagedAt,
+      engagedBy: by ?? null,
+    });
+
+    let automationError = null;
+    try {
+      await stopAutomation?.({ userId, env });
+    } catch (err) {
+      automationError = errorMessage(err);
+    }
+
+    const symbols = new Map();
+    const entryOf = (symbol) => {
+      let entry = symbols.get(symbol);
+      if (!entry) {
+        entry = { symbol, cancelledOrders: [], closed: [], flat: false, openQty: 0, openOrders: 0, errors: [] };
+        symbols.set(symbol, entry);
+      }
+      return entry;
+    };
+
+    let account = null;
+    let attempts = 0;
+    let readError = null;
+    for (;;) {
+      try {
+        account = await readAccount(venue, creds, useTestnet);
+        readError = null;
+      } catch (err) {
+        readError = errorMessage(err);
+        account = null;
+      }
+      if (account && !account.positions.length && !account.orders.length) break;
+      if (attempts >= verifyAttempts) break;
+      attempts += 1;
+      if (account) await flattenPass(venue, creds, useTestnet, account, entryOf);
+      // Market closes and cancels settle asynchronously on live venues.
+      if (verifyDelayMs > 0) await sleep(verifyDelayMs);
+    }
+
+    for (const entry of symbols.values()) {
+      entry.openQty = account
+        ? account.positions
+            .filter((p) => p.symbol === entry.symbol)
+            .reduce((sum, p) => sum + Math.abs(Number(p.size)), 0)
+        : null;
+      entry.openOrders = account ? account.orders.filter((o) => o.symbol === entry.symbol).length : null;
+      entry.flat = entry.openQty === 0 && entry.openOrders === 0;
+    }
+    const flat = Boolean(account) && !account.positions.length && !account.orders.length;
+    const report = {
+      engaged: true,
+      engagedAt,
+      flat,
+      attempts,
+      automationError,
+      error: readError,
+      symbols: Array.from(symbols.values()).sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    };
+    store.set(key, { ...store.get(key), lastReport: report });
+
+    Promise.resolve(
+      notify(userId, {
+        type: "RISK_HALT",
+        env,
+        message: flat
+          ? `Kill switch engaged: account flat (${report.symbols.length} symbols)`
+          : `Kill switch engaged: account NOT flat (${readError ?? "positions or orders left"})`,
+      })
+    ).catch(() => {});
+    return report;
+  }
+
+  /**
+   * Engages the switch and flattens the account; concurrent calls for one
+   * account share the run. Resolves to the per-symbol report.
+   */
+  function engage({ userId, env, venue, creds, by, stopAutomation }) {
+    const key = stateKey(String(userId ?? ""), String(env ?? ""));
+    const running = inflight.get(key);
+    if (running) return running;
+    const pending = run({
+      userId: String(userId ?? ""),
+      env: String(env ?? ""),
+      venue,
+      creds,
+      by,
+      stopAutomation,
+    }).finally(() => {
+      inflight.delete(key);
+    });
+    inflight.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Lifts the entry block. Auto-trading stays off until it is enabled again.
+   */
+  function rearm(userId, env, { by } = {}) {
+    const key = stateKey(String(userId ?? ""), String(env ?? ""));
+    const state = store.get(key);
+    if (state?.engaged) {
+      store.set(key, { ...state, engaged: false, rearmedAt: now(), rearmedBy: by ?? null });
+    }
+    return getStatus(userId, env);
+  }
+
+  return { engage, rearm, isEngaged, checkOrder, getStatus };
+}
+
+let defaultKillSwitch = null;
+
+/**
+ * Process-wide kill switch persisting to KILL_SWITCH_STATE_FILE.
+ */
+export function getKillSwitch() {
+  if (!defaultKillSwitch) {
+    defaultKillSwitch = createKillSwitch({
+      store: createFileKillSwitchStore(
+        process.env.KILL_SWITCH_STATE_FILE || DEFAULT_KILL_SWITCH_FILE
+      ),
+      notify: (userId, event) => getNotifier().notify(userId, event),
+    });
+  }
+  return defaultKillSwitch;
+}
@@ -0,0 +1,531 @@
+// ===========================================
+// Trade lifecycle notifications
+// ===========================================
+//
+// Sends OPEN, CLOSE, AUTO_CLOSE, RISK_HALT, ERROR and PROTECTION_MISSING
+// events to the channels a user configured next to their API keys
+// (user_api_keys rows, see getUserNotificationConfig):
+//   - webhook   POST { event, text, data } to an https URL whose host
+//               resolves to public addresses only (no loopback, private,
+//               link-local or metadata endpoints)
+//   - telegram  Bot API sendMessage to one chat
+//   - discord   POST { content } to a discord.com /api/webhooks/ URL
+// Routing rules ("notify rules" row, JSON) pick which events, envs and
+// symbols go to which channel and may override the message templates:
+//   {
+//     "routes": [{ "channel": "telegram", "events": ["OPEN", "CLOSE"],
+//                  "envs": ["mainnet"], "symbols": ["BTCUSDT"] }],
+//     "templates": { "OPEN": "{{symbol}} {{side}} opened: {{message}}" },
+//     "rateLimit": { "perMinute": 20 }
+//   }
+// Without routes every configured channel gets every event. Delivery is
+// rate limited per user and channel; suppressed events are counted into the
+// next delivered message. Sending never throws into the trading paths.
+
+import dns from "dns";
+import net from "net";
+import { getUserNotificationConfig } from "./userCredentials.js";
+
+export const NOTIFICATION_EVENTS = [
+  "OPEN",
+  "CLOSE",
+  "AUTO_CLOSE",
+  "RISK_HALT",
+  "ERROR",
+  "PROTECTION_MISSING",
+];
+export const NOTIFICATION_CHANNELS = ["webhook", "telegram", "discord"];
+
+export const DEFAULT_NOTIFICATION_TEMPLATES = {
+  OPEN: "[{{env}}] OPEN {{symbol}} {{side}}\n{{message}}",
+  CLOSE: "[{{env}}] CLOSE {{symbol}}\n{{message}}",
+  AUTO_CLOSE: "[{{env}}] AUTO_CLOSE {{symbol}} {{side}}\n{{message}}",
+  RISK_HALT: "[{{env}}] RISK_HALT\n{{message}}",
+  ERROR: "[{{env}}] ERROR {{symbol}}\n{{message}}",
+  PROTECTION_MISSING: "[{{env}}] PROTECTION_MISSING {{symbol}}\n{{message}}",
+};
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 20;
+const MAX_RATE_LIMIT_PER_MINUTE = 120;
+const RATE_WINDOW_MS = 60_000;
+const CONFIG_CACHE_MS = 60_000;
+const SEND_TIMEOUT_MS = 5_000;
+const DISCORD_MAX_CONTENT = 2000;
+const TELEGRAM_MAX_TEXT = 4096;
+const PROTECTION_MISSING_GRACE_MS = 15_000;
+const DEFAULT_TELEGRAM_API_BASE = "https://api.telegram.org";
+const DISCORD_WEBHOOK_HOSTS = new Set([
+  "discord.com",
+  "discordapp.com",
+  "ptb.discord.com",
+  "canary.discord.com",
+]);
+
+// Addresses a user-supplied webhook may not reach: this host, the private
+// networks and link-local (cloud metadata) ranges.
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+].forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv4"));
+[
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv6"));
+
+function errorMessage(err) {
+  return err?.message ? String(err.message) : String(err ?? "unknown_error");
+}
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+function parseHttpsUrl(value) {
+  try {
+    const url = new URL(String(value ?? ""));
+    return url.protocol === "https:" && !url.username && !url.password ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function lookupHost(hostname) {
+  return dns.promises.lookup(hostname, { all: true, verbatim: true });
+}
+
+/** True for loopback, private, link-local and other non-public addresses. */
+export function isBlockedAddress(address) {
+  const family = net.isIP(address);
+  if (!family) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves the URL's host and refuses it unless every address is public.
+async function assertPublicHost(url, lookup) {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = await lookup(hostname);
+  if (!addresses.length) throw new Error("notify_webhook_unresolved_host");
+  if (addresses.some((entry) => isBlockedAddress(entry.address))) {
+    throw new Error("notify_webhook_blocked_host");
+  }
+}
+
+function truncate(text, max) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Replaces `{{name}}` placeholders with event fields (missing ones render empty). */
+export function renderNotificationTemplate(template, vars = {}) {
+  return String(template ?? "")
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => {
+      const value = vars[name];
+      return value == null ? "" : String(value);
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+}
+
+function upperList(value, allowed) {
+  if (!Array.isArray(value)) return null;
+  const list = value
+    .map((item) => String(item ?? "").trim().toUpperCase())
+    .filter((item) => item && (!allowed || allowed.includes(item)));
+  return list.length ? [...new Set(list)] : null;
+}
+
+/**
+ * Rules from the stored JSON (string or object). Unknown channels, events and
+ * template keys are dropped; unparsable input yields the defaults with `error`.
+ */
+export function normalizeNotificationRules(raw) {
+  let source = raw;
+  let error = null;
+  if (typeof raw === "string") {
+    try {
+      source = raw.trim() ? JSON.parse(raw) : {};
+    } catch (err) {
+      source = {};
+      error = `notify_rules_invalid_json: ${errorMessage(err)}`;
+    }
+  }
+  if (!source || typeof source !== "object" || Array.isArray(source)) source = {};
+
+  const routes = (Array.isArray(source.routes) ? source.routes : [])
+    .map((route) => {
+      const channel = String(route?.channel ?? "").trim().toLowerCase();
+      if (!NOTIFICATION_CHANNELS.includes(channel)) return null;
+      const envs = Array.isArray(route.envs)
+        ? route.envs.map((env) => String(env ?? "").trim().toLowerCase()).filter(Boolean)
+        : [];
+      return {
+        channel,
+        events: upperList(route.events, NOTIFICATION_EVENTS),
+        envs: envs.length ? envs : null,
+        symbols: upperList(route.symbols),
+      };
+    })
+    .filter(Boolean);
+
+  const templates = {};
+  for (const [type, template] of Object.entries(source.templates ?? {})) {
+    const key = type.toUpperCase();
+    if (NOTIFICATION_EVENTS.includes(key) && typeof template === "string" && template.trim()) {
+      templates[key] = template;
+    }
+  }
+
+  const perMinute = Math.floor(toNumber(source.rateLimit?.perMinute));
+  return {
+    routes,
+    templates,
+    rateLimit: {
+      perMinute:
+        perMinute > 0
+          ? Math.min(perMinute, MAX_RATE_LIMIT_PER_MINUTE)
+          : DEFAULT_RATE_LIMIT_PER_MINUTE,
+    },
+    error,
+  };
+}
+
+async function postJson(fetchImpl, url, payload) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS);
+  try {
+    const res = await fetchImpl(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      // A redirect could point a checked URL at an internal host.
+      redirect: "error",
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      throw new Error(`notify_http_${res.status}${detail ? `: ${truncate(detail, 200)}` : ""}`);
+    }
+    return res;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * `lookup(hostname)` resolves to `[{ address, family }]` like dns.lookup with
+ * `all: true`; the host is checked again before every delivery.
+ */
+export function createWebhookChannel({ url, fetchImpl = globalThis.fetch, lookup = lookupHost }) {
+  const target = parseHttpsUrl(url);
+  if (!target) throw new Error("notify_webhook_invalid_url");
+  return {
+    id: "webhook",
+    async send({ text, event }) {
+      await assertPublicHost(target, lookup);
+      await postJson(fetchImpl, target.href, { event: event.type, text, data: event });
+    },
+  };
+}
+
+export function createTelegramChannel({
+  botToken,
+  chatId,
+  apiBase = DEFAULT_TELEGRAM_API_BASE,
+  fetchImpl = globalThis.fetch,
+}) {
+  if (!botToken || !chatId) throw new Error("notify_telegram_missing_credentials");
+  const url = `${String(apiBase).replace(/\/+$/, "")}/bot${botToken}/sendMessage`;
+  return {
+    id: "telegram",
+    async send({ text }) {
+      const res = await postJson(fetchImpl, url, {
+        chat_id: chatId,
+        text: truncate(text, TELEGRAM_MAX_TEXT),
+        disable_web_page_preview: true,
+      });
+      const body = await res.json().catch(() => null);
+      if (body && body.ok === false) {
+        throw new Error(`notify_telegram_rejected: ${body.description ?? "unknown"}`);
+      }
+    },
+  };
+}
+
+export function createDiscordChannel({ webhookUrl, fetchImpl = globalThis.fetch }) {
+  const target = parseHttpsUrl(webhookUrl);
+  if (
+    !target ||
+    target.port ||
+    !DISCORD_WEBHOOK_HOSTS.has(target.hostname) ||
+    !target.pathname.startsWith("/api/webhooks/")
+  ) {
+    throw new Error("notify_discord_invalid_url");
+  }
+  return {
+    id: "discord",
+    async send({ text }) {
+      await postJson(fetchImpl, target.href, { content: truncate(text, DISCORD_MAX_CONTENT) });
+    },
+  };
+}
+
+// Channel objects for the complete entries of a stored config; incomplete or
+// invalid ones are reported in `errors` instead.
+function buildChannels(channels = {}, { fetchImpl, telegramApiBase, lookup }) {
+  const built = new Map();
+  const errors = [];
+  const attempt = (id, factory) => {
+    try {
+      built.set(id, factory());
+    } catch (err) {
+      errors.push(`${id}: ${errorMessage(err)}`);
+    }
+  };
+  if (channels.webhook?.url) {
+    attempt("webhook", () => createWebhookChannel({ url: channels.webhook.url, fetchImpl, lookup }));
+  }
+  if (channels.telegram?.botToken || channels.telegram?.chatId) {
+    attempt("telegram", () =>
+      createTelegramChannel({ ...channels.telegram, apiBase: telegramApiBase, fetchImpl })
+    );
+  }
+  if (channels.discord?.webhookUrl) {
+    attempt("discord", () =>
+      createDiscordChannel({ webhookUrl: channels.discord.webhookUrl, fetchImpl })
+    );
+  }
+  return { channels: built, errors };
+}
+
+function routeMatches(route, event) {
+  if (route.events && !route.events.includes(event.type)) return false;
+  if (route.envs && !route.envs.includes(String(event.env ?? "").toLowerCase())) return false;
+  if (route.symbols && !route.symbols.includes(String(event.symbol ?? "").toUpperCase())) {
+    return false;
+  }
+  return true;
+}
+
+/** Channel ids an event goes to under `rules` (only channels in `available`). */
+export function resolveNotificationTargets(rules, event, available) {
+  const ids = rules.routes.length
+    ? rules.routes.filter((route) => routeMatches(route, event)).map((route) => route.channel)
+    : [...available];
+  return [...new Set(ids)].filter((id) => available.includes(id));
+}
+
+/**
+ * `loadConfig(userId)` resolves to `{ channels, rules }` (see
+ * getUserNotificationConfig); configs are cached for `cacheMs`. `lookup`
+ * resolves webhook hosts (see createWebhookChannel).
+ * `notify(userId, event)` resolves to the per-channel results and never
+ * rejects. `event` is `{ type, env, symbol?, side?, message }`.
+ */
+export function createNotifier({
+  loadConfig = getUserNotificationConfig,
+  fetchImpl = globalThis.fetch,
+  telegramApiBase = DEFAULT_TELEGRAM_API_BASE,
+  lookup = lookupHost,
+  now = Date.now,
+  cacheMs = CONFIG_CACHE_MS,
+} = {}) {
+  const configs = new Map();
+  const windows = new Map();
+  const stats = new Map();
+
+  function statsOf(userId) {
+    let entry = stats.get(userId);
+    if (!entry) {
+      entry = { sent: 0, failed: 0, suppressed: 0, lastError: null, lastSentAt: null };
+      stats.set(userId, entry);
+    }
+    return entry;
+  }
+
+  async function configOf(userId) {
+    const cached = configs.get(userId);
+    if (cached && now() - cached.loadedAt < cacheMs) return cached;
+    let entry;
+    try {
+      const raw = await loadConfig(userId);
+      const rules = normalizeNotificationRules(raw?.rules);
+      const { channels, errors } = buildChannels(raw?.channels, {
+        fetchImpl,
+        telegramApiBase,
+        lookup,
+      });
+      if (rules.error) errors.push(rules.error);
+      entry = { channels, rules, errors, loadedAt: now() };
+    } catch (err) {
+      entry = {
+        channels: new Map(),
+        rules: normalizeNotificationRules(null),
+        errors: [`notify_config_failed: ${errorMessage(err)}`],
+        loadedAt: now(),
+      };
+    }
+    if (entry.errors.length) statsOf(userId).lastError = entry.errors.join("; ");
+    configs.set(userId, entry);
+    return entry;
+  }
+
+  // Sliding one-minute window per user and channel; returns how many events
+  // were suppressed since the last delivery, or null when over the limit.
+  function takeSlot(key, perMinute) {
+    const ts = now();
+    const window = windows.get(key) ?? { sentAt: [], suppressed: 0 };
+    window.sentAt = window.sentAt.filter((at) => ts - at < RATE_WINDOW_MS);
+    windows.set(key, window);
+    if (window.sentAt.length >= perMinute) {
+      window.suppressed += 1;
+      return null;
+    }
+    window.sentAt.push(ts);
+    const suppressed = window.suppressed;
+    window.suppressed = 0;
+    return suppressed;
+  }
+
+  async function notify(userId, event) {
+    const type = String(event?.type ?? "").toUpperCase();
+    if (!userId || !NOTIFICATION_EVENTS.includes(type)) return [];
+    const config = await configOf(String(userId));
+    if (!config.channels.size) return [];
+    const payload = {
+      ...event,
+      type,
+      symbol: event.symbol ?? "",
+      at: new Date(now()).toISOString(),
+    };
+    const targets = resolveNotificationTargets(config.rules, payload, [...config.channels.keys()]);
+    const userStats = statsOf(String(userId));
+    const template = config.rules.templates[type] ?? DEFAULT_NOTIFICATION_TEMPLATES[type];
+    const baseText = renderNotificationTemplate(template, payload);
+
+    return Promise.all(
+      targets.map(async (channelId) => {
+        const suppressed = takeSlot(`${userId}:${channelId}`, config.rules.rateLimit.perMinute);
+        if (suppressed == null) {
+          userStats.suppressed += 1;
+          return { channel: channelId, status: "suppressed" };
+        }
+        const text = suppressed > 0 ? `${baseText}\n(+${suppressed} suppressed)` : baseText;
+        try {
+          await config.channels.get(channelId).send({ text, event: payload });
+          userStats.sent += 1;
+          userStats.lastSentAt = payload.at;
+          return { channel: channelId, status: "sent" };
+        } catch (err) {
+          const error = errorMessage(err);
+          userStats.failed += 1;
+          userStats.lastError = `${channelId}: ${error}`;
+          console.warn(`[notify] ${channelId} delivery failed for ${userId}: ${error}`);
+          return { channel: channelId, status: "failed", error };
+        }
+      })
+    );
+  }
+
+  return {
+    notify,
+    /** Drops the cached config so the next event reloads it. */
+    invalidate(userId) {
+      configs.delete(String(userId));
+    },
+    getStats(userId) {
+      return { ...statsOf(String(userId)) };
+    },
+  };
+}
+
+/**
+ * Aggregator session listener turning account updates into CLOSE (an open
+ * position disappeared) and PROTECTION_MISSING (a position without a stop
+ * loss for `graceMs`, once until it is protected or closed) notifications.
+ */
+export function createNotificationListener({
+  notify,
+  now = Date.now,
+  graceMs = PROTECTION_MISSING_GRACE_MS,
+}) {
+  const bySession = new Map();
+
+  function onAccount(session) {
+    if (!session?.userId || !session.snapshot?.positions) return;
+    const key = `${session.env}:${session.userId}`;
+    const ts = now();
+    const state = bySession.get(key) ?? { open: null, unprotectedSince: new Map(), alerted: new Set() };
+    bySession.set(key, state);
+
+    const positions = extractList(session.snapshot.positions).filter(
+      (p) => p?.symbol && toNumber(p.size ?? p.qty) > 0
+    );
+    const open = new Map(positions.map((p) => [p.symbol, p]));
+    if (state.open) {
+      for (const [symbol, previous] of state.open) {
+        if (open.has(symbol)) continue;
+        state.unprotectedSince.delete(symbol);
+        state.alerted.delete(symbol);
+        void notify(session.userId, {
+          type: "CLOSE",
+          env: session.env,
+          symbol,
+          side: previous.side,
+          message: `${symbol} position closed`,
+        });
+      }
+    }
+    state.open = open;
+
+    for (const [symbol, position] of open) {
+      if (toNumber(position.stopLoss) > 0) {
+        state.unprotectedSince.delete(symbol);
+        state.alerted.delete(symbol);
+        continue;
+      }
+      if (!state.unprotectedSince.has(symbol)) state.unprotectedSince.set(symbol, ts);
+      if (state.alerted.has(symbol) || ts - state.unprotectedSince.get(symbol) < graceMs) continue;
+      state.alerted.add(symbol);
+      void notify(session.userId, {
+        type: "PROTECTION_MISSING",
+        env: session.env,
+        symbol,
+        side: position.side,
+        message: `${symbol} size ${position.size ?? position.qty} has no stop loss`,
+      });
+    }
+  }
+
+  return { onAccount };
+}
+
+let defaultNotifier = null;
+
+/**
+ * Process-wide notifier reading channel config from user_api_keys
+ * (TELEGRAM_API_BASE overrides the Bot API host).
+ */
+export function getNotifier() {
+  if (!defaultNotifier) {
+    defaultNotifier = createNotifier({
+      telegramApiBase: process.env.TELEGRAM_API_BASE || DEFAULT_TELEGRAM_API_BASE,
+    });
+  }
+  return defaultNotifier;
+}
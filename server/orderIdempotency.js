@@ -0,0 +1,184 @@
+// ===========================================
+// Order idempotency
+// ===========================================
+//
+// orderService.submitOrder runs every order through this store, keyed by
+// account + orderLinkId for ORDER_IDEMPOTENCY_TTL_MS:
+//   - an order with `signalId` uses the deterministic orderLinkId from
+//     deriveOrderLinkId (signal id + symbol + side + `signalLeg`); it is
+//     generated when missing and a different client id is refused
+//   - any other client orderLinkId is checked against the venue format
+//   - a repeated orderLinkId gets the original outcome (waiting for it while
+//     the first submission is in flight) instead of a second order; failed
+//     submissions are forgotten so they can be retried
+//   - a second entry for a signal that already has one (other symbol or
+//     side) is refused with 409
+//   - an execution algo (server/executionAlgos.js) claims its signal through
+//     claimSignal for the whole run, so a signal worked in child orders
+//     cannot be entered again directly or by a second run; running claims
+//     are kept apart from the size-capped maps and never evicted
+// This is the guard against double entries from several tabs or a reload;
+// the browser timers (INTENT_COOLDOWN_MS, ENTRY_ORDER_LOCK_MS) only pace the
+// UI. The store is in memory per process; after a restart the venue still
+// rejects a reused orderLinkId.
+
+import { deriveOrderLinkId } from "../src/engine/executionPolicy.js";
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 10 * 60_000;
+const MAX_IDEMPOTENCY_ENTRIES = 5_000;
+// Bybit and Binance both take up to 36 characters of this set.
+const ORDER_LINK_ID_PATTERN = /^[A-Za-z0-9_-]{1,36}$/;
+
+const fail = (status, error, meta = {}) => ({ ok: false, status, error, meta });
+
+/**
+ * The orderLinkId an order body is submitted with: derived for signal orders,
+ * the client's own otherwise (empty when it sent none).
+ */
+export function resolveOrderLinkId(body) {
+  const clientId = body?.orderLinkId == null ? "" : String(body.orderLinkId);
+  const signalId = body?.signalId == null ? "" : String(body.signalId).trim();
+  if (signalId) {
+    const derived = deriveOrderLinkId({
+      signalId,
+      symbol: body.symbol,
+      side: body.side,
+      leg: body.signalLeg,
+    });
+    if (clientId && clientId !== derived) {
+      return { ok: false, error: `orderLinkId ${clientId} does not match signal ${signalId}` };
+    }
+    return { ok: true, orderLinkId: derived, signalId };
+  }
+  if (clientId && !ORDER_LINK_ID_PATTERN.test(clientId)) {
+    return { ok: false, error: `Invalid orderLinkId: ${clientId}` };
+  }
+  return { ok: true, orderLinkId: clientId, signalId: "" };
+}
+
+export function createOrderIdempotency({
+  ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS,
+  maxEntries = MAX_IDEMPOTENCY_ENTRIES,
+  now = Date.now,
+} = {}) {
+  const orders = new Map();
+  const signals = new Map();
+  // Claims of running execution algos, until release() or settle().
+  const claims = new Map();
+
+  const signalKeyOf = (scope, signalId, signalLeg) => `${scope}:${signalId}:${signalLeg ?? ""}`;
+
+  function prune(ts) {
+    for (const map of [orders, signals]) {
+      for (const [key, entry] of map) {
+        if (entry.expiresAt <= ts) map.delete(key);
+      }
+      // Insertion order: the oldest claims go first.
+      while (map.size > maxEntries) map.delete(map.keys().next().value);
+    }
+  }
+
+  /**
+   * Submits `body` through `submit(body)` at most once per orderLinkId.
+   * Replays resolve to the first outcome with `meta.idempotentReplay`.
+   */
+  async function run({ userId, env, body }, submit) {
+    const ts = now();
+    prune(ts);
+    const resolved = resolveOrderLinkId(body);
+    if (!resolved.ok) return fail(400, resolved.error);
+    const { orderLinkId, signalId } = resolved;
+    if (!orderLinkId) return submit(body);
+
+    const scope = `${env}:${userId}`;
+    const orderKey = `${scope}:${orderLinkId}`;
+    const existing = orders.get(orderKey);
+    if (existing) {
+      const outcome = await existing.promise;
+      return { ...outcome, meta: { ...outcome.meta, orderLinkId, idempotentReplay: true } };
+    }
+
+    let signalKey = null;
+    if (signalId && !body.reduceOnly) {
+      signalKey = signalKeyOf(scope, signalId, body.signalLeg);
+      const claimed = claims.get(signalKey) ?? signals.get(signalKey);
+      if (claimed && claimed.orderLinkId !== orderLinkId) {
+        return fail(409, `Signal ${signalId} already has an entry`, {
+          orderLinkId: claimed.orderLinkId,
+        });
+      }
+      signals.set(signalKey, { orderLinkId, expiresAt: ts + ttlMs });
+    }
+
+    const entry = { expiresAt: ts + ttlMs, promise: null };
+    const forget = () => {
+      if (orders.get(orderKey) === entry) orders.delete(orderKey);
+      if (signalKey && signals.get(signalKey)?.orderLinkId === orderLinkId) {
+        signals.delete(signalKey);
+      }
+    };
+    entry.promise = Promise.resolve()
+      .then(() => submit({ ...body, orderLinkId }))
+      .then(
+        (outcome) => {
+          if (!outcome.ok) forget();
+          return outcome;
+        },
+        (err) => {
+          forget();
+          throw err;
+        }
+      );
+    orders.set(orderKey, entry);
+    return entry.promise;
+  }
+
+  /**
+   * Claims the entry of signal `signalId` for an order worked outside run()
+   * (an execution algo and its child orders). The claim holds until
+   * `release()` drops it (nothing was entered, the signal may be retried) or
+   * `settle()` starts the usual TTL. A signal that already has an entry gets
+   * the same 409 as a second direct order.
+   */
+  function claimSignal({ userId, env, signalId, signalLeg, orderLinkId }) {
+    const ts = now();
+    prune(ts);
+    const key = signalKeyOf(`${env}:${userId}`, signalId, signalLeg);
+    const claimed = claims.get(key) ?? signals.get(key);
+    if (claimed && claimed.orderLinkId !== orderLinkId) {
+      return fail(409, `Signal ${signalId} already has an entry`, {
+        orderLinkId: claimed.orderLinkId,
+      });
+    }
+    const entry = { orderLinkId };
+    claims.set(key, entry);
+    return {
+      ok: true,
+      release: () => {
+        if (claims.get(key) === entry) claims.delete(key);
+      },
+      settle: () => {
+        if (claims.get(key) !== entry) return;
+        claims.delete(key);
+        signals.set(key, { orderLinkId, expiresAt: now() + ttlMs });
+      },
+    };
+  }
+
+  return { run, claimSignal };
+}
+
+let defaultOrderIdempotency = null;
+
+/**
+ * Process-wide store; ORDER_IDEMPOTENCY_TTL_MS overrides the TTL.
+ */
+export function getOrderIdempotency() {
+  if (!defaultOrderIdempotency) {
+    const ttlMs = Number(process.env.ORDER_IDEMPOTENCY_TTL_MS);
+    defaultOrderIdempotency = createOrderIdempotency({
+      ttlMs: Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : DEFAULT_IDEMPOTENCY_TTL_MS,
+    });
+  }
+  return defaultOrderIdempotency;
+}
@@ -0,0 +1,374 @@
+// ===========================================
+// Order placement shared by POST /api/:env/order and the server-side
+// auto-trader: idempotency, the kill switch, default leverage, ROI stops,
+// protection clamping, the portfolio risk gate, take-profit ladders, hedge-mode
+// position legs and journaling.
+// ===========================================
+
+import { getInstrumentInfo } from "./instrumentCache.js";
+import { getKillSwitch } from "./killSwitch.js";
+import { getOrderIdempotency } from "./orderIdempotency.js";
+import { PAPER_ENV } from "./paperExchange.js";
+import { getPersistentAccountSnapshot } from "./persistentAggregator.js";
+import { getPositionModes } from "./positionModes.js";
+import { fetchRiskSnapshot, getRiskManager, summarizeRiskAccount } from "./riskManager.js";
+import { getTpLadders } from "./tpLadders.js";
+import { getTradeJournal } from "./tradeJournal.js";
+import { normalizeTakeProfits } from "../src/engine/tpLadder.js";
+import {
+  isHedgePositionIdx,
+  normalizePositionSide,
+  openPositionLegs,
+  positionIdxForOrder,
+  positionLegSide,
+} from "../src/engine/positionMode.js";
+
+const LEVERAGE_MAP = {
+  BTCUSDT: 100,
+  ETHUSDT: 100,
+  SOLUSDT: 100,
+  ADAUSDT: 75,
+  XRPUSDT: 75,
+  SUIUSDT: 50,
+  DOGEUSDT: 75,
+  LINKUSDT: 50,
+  ZILUSDT: 25,
+  AVAXUSDT: 50,
+  HYPEUSDT: 50,
+  OPUSDT: 50,
+};
+const ROI_SYMBOLS = new Set(Object.keys(LEVERAGE_MAP));
+const MIN_PROTECTION_DISTANCE_PCT = 0.0005;
+const ROI_TARGETS = { tp: 1.10, sl: -0.40 }; // percent ROI targets
+
+export const resolveLeverage = (sym, requested) => {
+  const requestedLev = Number(requested);
+  if (Number.isFinite(requestedLev) && requestedLev > 0) return requestedLev;
+  return LEVERAGE_MAP[sym] || 50;
+};
+
+const applyRoiStops = (sym, entry, dir, curTp, curSl, leverageValue) => {
+  if (!ROI_SYMBOLS.has(sym) || !Number.isFinite(entry)) return { tp: curTp, sl: curSl };
+  if (Number.isFinite(curTp) || Number.isFinite(curSl)) return { tp: curTp, sl: curSl };
+  const lev = resolveLeverage(sym, leverageValue);
+  const isBuy = dir?.toLowerCase() === "buy";
+  const tpPrice = entry * (1 + (ROI_TARGETS.tp / 100) / Math.max(1, lev) * (isBuy ? 1 : -1));
+  const slPrice = entry * (1 - (Math.abs(ROI_TARGETS.sl) / 100) / Math.max(1, lev) * (isBuy ? 1 : -1));
+  let nextTp = Number.isFinite(tpPrice) ? tpPrice : curTp;
+  let nextSl = Number.isFinite(slPrice) ? slPrice : curSl;
+  const minDistance = entry * MIN_PROTECTION_DISTANCE_PCT;
+  if (Number.isFinite(minDistance) && minDistance > 0) {
+    if (isBuy) {
+      if (Number.isFinite(nextTp) && nextTp <= entry + minDistance) {
+        nextTp = entry + minDistance;
+      }
+      if (Number.isFinite(nextSl) && nextSl >= entry - minDistance) {
+        nextSl = entry - minDistance;
+      }
+    } else {
+      if (Number.isFinite(nextTp) && nextTp >= entry - minDistance) {
+        nextTp = entry - minDistance;
+      }
+      if (Number.isFinite(nextSl) && nextSl <= entry + minDistance) {
+        nextSl = entry + minDistance;
+      }
+    }
+  }
+  return { tp: nextTp, sl: nextSl };
+};
+
+const resolveMinDistance = (entry, tickSize) => {
+  const pctDistance = entry * MIN_PROTECTION_DISTANCE_PCT;
+  const tick = Number.isFinite(tickSize) && tickSize > 0 ? tickSize : 0;
+  return Math.max(pctDistance, tick);
+};
+
+const roundToTick = (value, tickSize, mode) => {
+  if (!Number.isFinite(value) || !Number.isFinite(tickSize) || tickSize <= 0) {
+    return value;
+  }
+  const ratio = value / tickSize;
+  const stepped =
+    mode === "ceil" ? Math.ceil(ratio) : mode === "floor" ? Math.floor(ratio) : Math.round(ratio);
+  return Number((stepped * tickSize).toFixed(12));
+};
+
+const clampProtection = (entry, dir, curTp, curSl, tickSize) => {
+  if (!Number.isFinite(entry) || entry <= 0) return { tp: curTp, sl: curSl };
+  const isBuy = String(dir ?? "").toLowerCase() === "buy";
+  const minDistance = resolveMinDistance(entry, tickSize);
+  let nextTp = curTp;
+  let nextSl = curSl;
+  if (isBuy) {
+    if (Number.isFinite(nextTp)) {
+      const minTp = entry + minDistance;
+      nextTp = Math.max(nextTp, minTp);
+      nextTp = roundToTick(nextTp, tickSize, "ceil");
+      if (Number.isFinite(tickSize) && tickSize > 0 && nextTp <= entry) {
+        nextTp = entry + tickSize;
+      }
+    }
+    if (Number.isFinite(nextSl)) {
+      const maxSl = entry - minDistance;
+      nextSl = Math.min(nextSl, maxSl);
+      nextSl = roundToTick(nextSl, tickSize, "floor");
+      if (Number.isFinite(tickSize) && tickSize > 0 && nextSl >= entry) {
+        nextSl = entry - tickSize;
+      }
+    }
+  } else {
+    if (Number.isFinite(nextTp)) {
+      const maxTp = entry - minDistance;
+      nextTp = Math.min(nextTp, maxTp);
+      nextTp = roundToTick(nextTp, tickSize, "floor");
+      if (Number.isFinite(tickSize) && tickSize > 0 && nextTp >= entry) {
+        nextTp = entry - tickSize;
+      }
+    }
+    if (Number.isFinite(nextSl)) {
+      const minSl = entry + minDistance;
+      nextSl = Math.max(nextSl, minSl);
+      nextSl = roundToTick(nextSl, tickSize, "ceil");
+      if (Number.isFinite(tickSize) && tickSize > 0 && nextSl <= entry) {
+        nextSl = entry + tickSize;
+      }
+    }
+  }
+  return { tp: nextTp, sl: nextSl };
+};
+
+// Risk checks read the aggregator session when it is live, the venue otherwise.
+export const loadRiskAccount = async ({ userId, env, venue, creds }) => {
+  const snapshot =
+    getPersistentAccountSnapshot(userId, env) ??
+    (await fetchRiskSnapshot({ venue, creds, useTestnet: env === "testnet" }));
+  return summarizeRiskAccount(snapshot);
+};
+
+// Market entries carry no price; the risk gate prices them from the ticker
+// (ask for buys, bid for sells). Null when the ticker cannot be read.
+const loadMarketPrice = async ({ venue, symbol, side, env }) => {
+  try {
+    const res = await venue.getTicker(symbol, env === "testnet");
+    const item = (res?.result?.list ?? [])[0];
+    const quote = Number(String(side).toLowerCase() === "buy" ? item?.ask1Price : item?.bid1Price);
+    const last = Number(item?.lastPrice);
+    if (quote > 0) return quote;
+    return last > 0 ? last : null;
+  } catch (err) {
+    console.warn("[order] ticker unavailable:", err?.message || err);
+    return null;
+  }
+};
+
+const fail = (status, error, meta = {}) => ({ ok: false, status, error, meta });
+
+/**
+ * Places an order for `userId` on `venue`. Resolves to `{ ok: true, result,
+ * meta, protection }` (the SL/TP actually sent) or `{ ok: false, status,
+ * error, meta }` with the HTTP status the order route answers with; only
+ * unexpected venue errors throw. An entry with `takeProfits` gets a
+ * take-profit ladder (server/tpLadders.js) instead of the single TP. With a
+ * recorded hedge mode (server/positionModes.js) an order without
+ * `positionIdx` goes to the leg of its side (the opposite leg when reduce-only).
+ * Repeated orderLinkIds replay the first outcome (server/orderIdempotency.js).
+ */
+export async function submitOrder({ userId, env, venue, creds, body }) {
+  return getOrderIdempotency().run({ userId, env, body: body ?? {} }, (resolvedBody) =>
+    placeOrder({ userId, env, venue, creds, body: resolvedBody })
+  );
+}
+
+async function placeOrder({ userId, env, venue, creds, body }) {
+  const { symbol, side, qty, orderType, sl, tp, orderLinkId, timeInForce, trailingStop, trailingActivePrice, price, triggerPrice, leverage, reduceOnly, positionIdx, journal, takeProfits, expireAfterMs } = body ?? {};
+
+  if (!symbol || !side || !qty) {
+    return fail(400, "Missing required fields: symbol, side, qty");
+  }
+  const entryPrice = Number(price ?? triggerPrice);
+  const ladderLevels =
+    takeProfits == null ? null : normalizeTakeProfits(takeProfits, { side, entry: entryPrice });
+  if (ladderLevels && (reduceOnly || !ladderLevels.length)) {
+    return fail(400, reduceOnly ? "takeProfits need an entry order" : "takeProfits has no valid level");
+  }
+
+  const positionMode = getPositionModes().modeOf(userId, env);
+  const legIdx =
+    positionIdx != null && positionIdx !== "" && Number.isFinite(Number(positionIdx))
+      ? Number(positionIdx)
+      : positionMode === "hedge"
+        ? positionIdxForOrder({ mode: positionMode, side, reduceOnly: Boolean(reduceOnly) })
+        : undefined;
+
+  // Kill switch: no entries between POST /kill and the re-arm.
+  const killVerdict = getKillSwitch().checkOrder({ userId, env, order: { reduceOnly } });
+  if (!killVerdict.allowed) {
+    return fail(409, `Kill switch: ${killVerdict.detail}`, {
+      symbol,
+      killSwitch: { reason: killVerdict.reason, detail: killVerdict.detail },
+    });
+  }
+
+  // One-way accounts net an opposite entry against the position; hedge legs
+  // are separate positions and never block.
+  if (!reduceOnly) {
+    try {
+      const posRes = await venue.getDemoPositions(creds, env === "testnet");
+      const list = posRes?.result?.list ?? posRes?.data?.result?.list ?? [];
+      const opposite = openPositionLegs(list, { symbol }).find(
+        (p) => !isHedgePositionIdx(p?.positionIdx) && positionLegSide(p) !== normalizePositionSide(side)
+      );
+      if (opposite) {
+        return fail(409, "Open position opposite side blocked (use TP/SL/TS or manual close)", {
+          symbol,
+          side,
+          posSide: String(opposite.side ?? "").toLowerCase(),
+        });
+      }
+    } catch (err) {
+      console.warn("[order] position check failed:", err?.message || err);
+    }
+  }
+
+  const resolvedLeverage = resolveLeverage(symbol, leverage);
+  let tickSize = 0;
+  try {
+    const instrument = await (venue.getInstrumentInfo ?? getInstrumentInfo)(
+      symbol,
+      env === "testnet"
+    );
+    tickSize = Number(instrument?.tickSize ?? 0);
+  } catch (err) {
+    console.warn("[order] instrument info unavailable:", err?.message || err);
+  }
+  const { tp: roiTp, sl: roiSl } = applyRoiStops(
+    symbol,
+    entryPrice,
+    side,
+    tp,
+    sl,
+    resolvedLeverage
+  );
+  // The ladder takes profit in its place; the stop still goes on the position.
+  const { tp: safeTp, sl: safeSl } = clampProtection(
+    entryPrice,
+    side,
+    ladderLevels ? undefined : roiTp,
+    roiSl,
+    tickSize
+  );
+
+  // Portfolio risk gate: reduce-only exits always pass, entries are blocked
+  // while halted. Fails closed when the account cannot be read.
+  if (!reduceOnly) {
+    let verdict;
+    try {
+      verdict = getRiskManager().checkOrder({
+        userId,
+        env,
+        account: await loadRiskAccount({ userId, env, venue, creds }),
+        order: {
+          symbol,
+          side,
+          qty,
+          price: entryPrice > 0 ? entryPrice : await loadMarketPrice({ venue, symbol, side, env }),
+          sl: safeSl,
+          leverage: resolvedLeverage,
+        },
+      });
+    } catch (err) {
+      return fail(503, `Risk check unavailable: ${err?.message || err}`);
+    }
+    if (!verdict.allowed) {
+      return fail(409, `Risk halt: ${verdict.reason} (${verdict.detail})`, {
+        symbol,
+        risk: { reason: verdict.reason, detail: verdict.detail, halt: verdict.status.halt },
+      });
+    }
+  }
+
+  const result = await venue.createDemoOrder({
+    symbol,
+    side,
+    qty,
+    orderType,
+    price,
+    triggerPrice,
+    sl: safeSl,
+    tp: safeTp,
+    trailingStop,
+    trailingActivePrice,
+    orderLinkId,
+    timeInForce,
+    reduceOnly,
+    positionIdx: legIdx,
+    takeProfit: safeTp,
+    stopLoss: safeSl,
+    leverage: resolvedLeverage
+  }, creds, env === "testnet");
+
+  if (result.retCode !== 0) {
+    const venueLabel = env === PAPER_ENV ? "Paper" : venue.label;
+    return fail(400, `${venueLabel} Rejected: ${result.retMsg}`, {
+      code: result.retCode,
+      details: result,
+    });
+  }
+
+  // Journal the entry with the context the caller sent; a journal failure
+  // never fails an order that the venue already accepted.
+  let journalId;
+  let journalError;
+  if (journal && !reduceOnly) {
+    try {
+      const entry = await getTradeJournal().recordEntry({
+        userId,
+        env,
+        symbol,
+        side,
+        qty,
+        entryType: journal.entryType ?? orderType,
+        entryPrice: Number.isFinite(entryPrice) ? entryPrice : null,
+        sl: safeSl,
+        tp: safeTp,
+        trailingStop,
+        trailingActivePrice,
+        orderId: result?.result?.orderId,
+        orderLinkId: result?.result?.orderLinkId ?? orderLinkId,
+        expireAfterMs,
+        profile: journal.profile,
+        signal: journal.signal,
+        diagnostic: journal.diagnostic,
+        settingsSnapshot: journal.settingsSnapshot,
+      });
+      journalId = entry.id;
+    } catch (err) {
+      journalError = err?.message || String(err);
+      console.error("[journal] record failed:", journalError);
+    }
+  }
+
+  // Legs go out right away for a filled entry, otherwise on the first account
+  // refresh that shows the position.
+  let ladder = null;
+  if (ladderLevels) {
+    const ladders = getTpLadders();
+    ladder = ladders.register({ userId, env, symbol, side, entry: entryPrice, takeProfits: ladderLevels, positionIdx: legIdx });
+    try {
+      ladder = (await ladders.sync({ userId, env, venue, creds, symbol, positionIdx: ladder?.positionIdx })) ?? ladder;
+    } catch (err) {
+      console.warn("[order] take-profit ladder sync failed:", err?.message || err);
+    }
+  }
+
+  return {
+    ok: true,
+    result,
+    meta: {
+      ...(journalId ? { journalId } : {}),
+      ...(journalError ? { journalError } : {}),
+      ...(ladder ? { tpLadderId: ladder.id } : {}),
+    },
+    protection: { sl: safeSl, tp: safeTp, ...(ladder ? { takeProfits: ladder.levels } : {}) },
+  };
+}
@@ -0,0 +1,896 @@
+// ===========================================
+// Paper venue: simulated Bybit linear (USDT) account
+// ===========================================
+//
+// Mirrors the bybitClient surface (createDemoOrder, setTradingStop, cancelOrder,
+// getDemoPositions, listDemoOrders, listExecutions, listClosedPnl,
+// getWalletBalance, getTicker) with the same argument order and Bybit-shaped responses,
+// so server routes and the persistent aggregator can swap it in for a real
+// account. The `creds` argument is replaced by a paper account `{ userId }`.
+//
+// Orders are matched against the last known price per symbol. Prices come from
+// `updatePrice` (live kline stream or a replay) and fall back to the public
+// mainnet ticker when nothing fresh is cached.
+//
+// Accounts start in one-way mode; setPositionMode("hedge") keeps a long
+// (positionIdx 1) and a short (positionIdx 2) leg per symbol, and orders on
+// the opposite side of their leg only close it.
+
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { fileURLToPath } from "url";
+import {
+  normalizePositionMode,
+  positionIdxForLeg,
+  positionIdxForOrder,
+  positionLegSide,
+} from "../src/engine/positionMode.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const PAPER_ENV = "paper";
+
+const DEFAULT_STATE_FILE = path.resolve(__dirname, ".data/paper-state.json");
+const PUBLIC_REST_URL = "https://api.bybit.com";
+const DEFAULT_INITIAL_BALANCE = 10_000;
+const DEFAULT_MAKER_FEE_RATE = 0.0002;
+const DEFAULT_TAKER_FEE_RATE = 0.00055;
+const DEFAULT_SLIPPAGE_PCT = 0.0002;
+const DEFAULT_LEVERAGE = 10;
+const PRICE_STALE_MS = 5_000;
+const EXECUTIONS_MAX = 1000;
+const CLOSED_PNL_MAX = 1000;
+const INACTIVE_ORDERS_MAX = 200;
+const ACTIVE_STATUSES = new Set(["New", "PartiallyFilled", "Untriggered"]);
+
+function ok(result = {}) {
+  return { retCode: 0, retMsg: "OK", result, retExtInfo: {}, time: Date.now() };
+}
+
+function reject(retCode, retMsg) {
+  return { retCode, retMsg, result: {}, retExtInfo: {}, time: Date.now() };
+}
+
+function toNum(value) {
+  if (value == null || value === "") return NaN;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function round(value) {
+  return Number(value.toFixed(10));
+}
+
+function fmt(value) {
+  return Number.isFinite(value) ? String(Number(value.toFixed(8))) : "0";
+}
+
+function normalizeSide(side) {
+  return String(side ?? "").toLowerCase() === "buy" ? "Buy" : "Sell";
+}
+
+function direction(side) {
+  return side === "Buy" ? 1 : -1;
+}
+
+function normalizeLimit(value, fallback = 50) {
+  const n = toNum(value);
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.min(Math.floor(n), 1000);
+}
+
+function accountKey(account) {
+  const userId = account?.userId ?? account?.id ?? "";
+  return String(userId || "default");
+}
+
+async function fetchTickerPrice(symbol) {
+  const url = `${PUBLIC_REST_URL}/v5/market/tickers?category=linear&symbol=${symbol}`;
+  const res = await axios.get(url, { timeout: 5_000 });
+  if (res.data?.retCode !== 0) {
+    throw new Error(res.data?.retMsg || "ticker_unavailable");
+  }
+  const item = res.data?.result?.list?.[0];
+  const last = Number(item?.lastPrice) || Number(item?.markPrice) || 0;
+  if (!Number.isFinite(last) || last <= 0) {
+    throw new Error("ticker_unavailable");
+  }
+  return last;
+}
+
+// One-way positions keep the plain symbol key of older state files.
+function positionKey(symbol, positionIdx) {
+  return positionIdx ? `${symbol}:${positionIdx}` : symbol;
+}
+
+function createAccountState(balance, ts) {
+  return {
+    balance,
+    initialBalance: balance,
+    positions: {},
+    orders: {},
+    executions: [],
+    closedPnl: [],
+    seq: 0,
+    createdAt: ts,
+  };
+}
+
+/**
+ * Creates an isolated paper venue. `storePath: null` keeps state in memory only.
+ */
+export function createPaperExchange(options = {}) {
+  const {
+    storePath = null,
+    initialBalance = DEFAULT_INITIAL_BALANCE,
+    makerFeeRate = DEFAULT_MAKER_FEE_RATE,
+    takerFeeRate = DEFAULT_TAKER_FEE_RATE,
+    slippagePct = DEFAULT_SLIPPAGE_PCT,
+    fetchPrice = fetchTickerPrice,
+    now = Date.now,
+  } = options;
+
+  const accounts = new Map();
+  const prices = new Map();
+
+  if (storePath && fs.existsSync(storePath)) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(storePath, "utf8"));
+      for (const [key, state] of Object.entries(parsed?.accounts ?? {})) {
+        accounts.set(key, state);
+      }
+    } catch (err) {
+      console.error(`[paper] failed to load state from ${storePath}:`, err?.message || err);
+    }
+  }
+
+  function persist() {
+    if (!storePath) return;
+    try {
+      fs.mkdirSync(path.dirname(storePath), { recursive: true });
+      const tmp = `${storePath}.tmp`;
+      const payload = { version: 1, savedAt: now(), accounts: Object.fromEntries(accounts) };
+      fs.writeFileSync(tmp, JSON.stringify(payload));
+      fs.renameSync(tmp, storePath);
+    } catch (err) {
+      console.error(`[paper] failed to persist state to ${storePath}:`, err?.message || err);
+    }
+  }
+
+  function getAccount(account) {
+    const key = accountKey(account);
+    let state = accounts.get(key);
+    if (!state) {
+      state = createAccountState(initialBalance, now());
+      accounts.set(key, state);
+    }
+    return state;
+  }
+
+  function nextId(state, prefix) {
+    state.seq += 1;
+    return `${prefix}-${state.createdAt.toString(36)}-${state.seq}`;
+  }
+
+  async function getPrice(symbol) {
+    const cached = prices.get(symbol);
+    const ts = now();
+    if (cached && ts - cached.ts <= PRICE_STALE_MS) return cached.price;
+    try {
+      const price = await fetchPrice(symbol);
+      prices.set(symbol, { price, ts });
+      return price;
+    } catch (err) {
+      if (cached) return cached.price;
+      throw new Error(`paper_price_unavailable:${symbol}:${err?.message || err}`);
+    }
+  }
+
+  function markPrice(symbol, fallback) {
+    return prices.get(symbol)?.price ?? fallback;
+  }
+
+  function unrealisedPnl(position) {
+    const mark = markPrice(position.symbol, position.avgPrice);
+    return (mark - position.avgPrice) * position.size * direction(position.side);
+  }
+
+  function usedMargin(state) {
+    let margin = 0;
+    for (const position of Object.values(state.positions)) {
+      margin += (position.size * position.avgPrice) / position.leverage;
+    }
+    for (const order of Object.values(state.orders)) {
+      if (!ACTIVE_STATUSES.has(order.orderStatus) || order.reduceOnly) continue;
+      const ref = order.price || order.triggerPrice || markPrice(order.symbol, 0);
+      margin += (order.leavesQty * ref) / order.leverage;
+    }
+    return margin;
+  }
+
+  function equity(state) {
+    let upl = 0;
+    for (const position of Object.values(state.positions)) {
+      upl += unrealisedPnl(position);
+    }
+    return { upl, equity: state.balance + upl };
+  }
+
+  function pruneHistory(state) {
+    if (state.executions.length > EXECUTIONS_MAX) {
+      state.executions.length = EXECUTIONS_MAX;
+    }
+    if (state.closedPnl.length > CLOSED_PNL_MAX) {
+      state.closedPnl.length = CLOSED_PNL_MAX;
+    }
+    const inactive = Object.values(state.orders)
+      .filter((o) => !ACTIVE_STATUSES.has(o.orderStatus))
+      .sort((a, b) => b.updatedTime - a.updatedTime);
+    for (const order of inactive.slice(INACTIVE_ORDERS_MAX)) {
+      delete state.orders[order.orderId];
+    }
+  }
+
+  function closeOrder(order, status, ts, reason = "") {
+    order.orderStatus = status;
+    order.updatedTime = ts;
+    if (reason) order.rejectReason = reason;
+  }
+
+  function cancelReduceOnlyOrders(state, symbol, positionIdx, ts) {
+    for (const order of Object.values(state.orders)) {
+      if (order.symbol !== symbol || !order.reduceOnly) continue;
+      if ((order.positionIdx ?? 0) !== positionIdx) continue;
+      if (!ACTIVE_STATUSES.has(order.orderStatus)) continue;
+      closeOrder(order, "Deactivated", ts, "EC_PositionClosed");
+    }
+  }
+
+  function attachProtection(position, order) {
+    if (order.takeProfit > 0) position.takeProfit = order.takeProfit;
+    if (order.stopLoss > 0) position.stopLoss = order.stopLoss;
+    if (order.trailingStop > 0) {
+      position.trailingStop = order.trailingStop;
+      position.activePrice = order.trailingActivePrice > 0 ? order.trailingActivePrice : 0;
+      position.trailAnchor = 0;
+    }
+  }
+
+  function applyFill(state, order, fillQty, fillPrice, isMaker, ts) {
+    const symbol = order.symbol;
+    const feeRate = isMaker ? makerFeeRate : takerFeeRate;
+    const fee = fillQty * fillPrice * feeRate;
+    state.balance -= fee;
+
+    const positionIdx = order.positionIdx ?? 0;
+    const key = positionKey(symbol, positionIdx);
+    let position = state.positions[key] ?? null;
+    let closedSize = 0;
+    if (position && position.side !== order.side) {
+      closedSize = Math.min(position.size, fillQty);
+      const realized = (fillPrice - position.avgPrice) * closedSize * direction(position.side);
+      const entryFeeShare = position.entryFees * (closedSize / position.size);
+      const exitFeeShare = fee * (closedSize / fillQty);
+      const net = realized - entryFeeShare - exitFeeShare;
+      state.balance += realized;
+      position.entryFees -= entryFeeShare;
+      position.cumRealisedPnl += net;
+      position.size = round(position.size - closedSize);
+      position.updatedTime = ts;
+      state.closedPnl.unshift({
+        symbol,
+        orderId: order.orderId,
+        side: order.side,
+        qty: fmt(closedSize),
+        orderPrice: fmt(order.price || fillPrice),
+        orderType: order.orderType,
+        execType: "Trade",
+        closedSize: fmt(closedSize),
+        cumEntryValue: fmt(closedSize * position.avgPrice),
+        avgEntryPrice: fmt(position.avgPrice),
+        cumExitValue: fmt(closedSize * fillPrice),
+        avgExitPrice: fmt(fillPrice),
+        closedPnl: fmt(net),
+        fillCount: "1",
+        leverage: fmt(position.leverage),
+        createdTime: String(ts),
+        updatedTime: String(ts),
+      });
+      if (position.size <= 0) {
+        delete state.positions[key];
+        position = null;
+        cancelReduceOnlyOrders(state, symbol, positionIdx, ts);
+      }
+    }
+
+    const openQty = round(fillQty - closedSize);
+    if (openQty > 0 && !order.reduceOnly) {
+      const openFee = fee * (openQty / fillQty);
+      if (!position) {
+        position = {
+          symbol,
+          side: order.side,
+          positionIdx,
+          size: openQty,
+          avgPrice: fillPrice,
+          leverage: order.leverage,
+          entryFees: openFee,
+          cumRealisedPnl: -openFee,
+          takeProfit: 0,
+          stopLoss: 0,
+          trailingStop: 0,
+          activePrice: 0,
+          trailAnchor: 0,
+          createdTime: ts,
+          updatedTime: ts,
+        };
+        state.positions[key] = position;
+      } else {
+        position.avgPrice =
+          (position.avgPrice * position.size + fillPrice * openQty) / (position.size + openQty);
+        position.size = round(position.size + openQty);
+        position.entryFees += openFee;
+        position.cumRealisedPnl -= openFee;
+        position.updatedTime = ts;
+      }
+      attachProtection(position, order);
+    }
+
+    const prevQty = order.cumExecQty;
+    order.cumExecQty = round(prevQty + fillQty);
+    order.leavesQty = round(Math.max(0, order.qty - order.cumExecQty));
+    order.avgPrice = (order.avgPrice * prevQty + fillPrice * fillQty) / order.cumExecQty;
+    order.cumExecFee += fee;
+    order.updatedTime = ts;
+    order.orderStatus = order.leavesQty > 0 ? "PartiallyFilled" : "Filled";
+
+    state.seq += 1;
+    state.executions.unshift({
+      symbol,
+      orderId: order.orderId,
+      orderLinkId: order.orderLinkId,
+      side: order.side,
+      orderPrice: fmt(order.price || fillPrice),
+      orderQty: fmt(order.qty),
+      leavesQty: fmt(order.leavesQty),
+      orderType: order.orderType,
+      stopOrderType: order.stopOrderType,
+      execId: `${order.orderId}-x${state.seq}`,
+      execPrice: fmt(fillPrice),
+      execQty: fmt(fillQty),
+      execValue: fmt(fillQty * fillPrice),
+      execFee: fmt(fee),
+      feeRate: fmt(feeRate),
+      execType: "Trade",
+      isMaker,
+      closedSize: fmt(closedSize),
+      markPrice: fmt(markPrice(symbol, fillPrice)),
+      execTime: String(ts),
+    });
+  }
+
+  function isMarketable(order, price) {
+    return order.side === "Buy" ? price <= order.price : price >= order.price;
+  }
+
+  // Resolves how much of an order may fill; reduce-only orders are capped at
+  // the open position and deactivated when there is nothing left to reduce.
+  function fillableQty(state, order, ts) {
+    if (!order.reduceOnly) return order.leavesQty;
+    const position = state.positions[positionKey(order.symbol, order.positionIdx ?? 0)];
+    if (!position || position.side === order.side) {
+      closeOrder(order, "Deactivated", ts, "EC_ReduceOnlyNoPosition");
+      return 0;
+    }
+    return Math.min(order.leavesQty, position.size);
+  }
+
+  // Taker path: new (or freshly triggered) orders hitting the current price.
+  function executeAggressive(state, order, price, ts) {
+    if (order.orderType === "Market") {
+      const qty = fillableQty(state, order, ts);
+      if (qty <= 0) return;
+      const fillPrice = price * (1 + direction(order.side) * slippagePct);
+      applyFill(state, order, qty, fillPrice, false, ts);
+      if (order.leavesQty > 0) closeOrder(order, "Cancelled", ts, "EC_ReduceOnlyCapped");
+      return;
+    }
+    if (isMarketable(order, price)) {
+      if (order.timeInForce === "PostOnly") {
+        closeOrder(order, "Cancelled", ts, "EC_PostOnlyWillTakeLiquidity");
+        return;
+      }
+      const qty = fillableQty(state, order, ts);
+      if (qty <= 0) return;
+      applyFill(state, order, qty, price, false, ts);
+      return;
+    }
+    if (order.timeInForce === "IOC" || order.timeInForce === "FOK") {
+      closeOrder(order, "Cancelled", ts, "EC_NoImmediateQtyToFill");
+    }
+  }
+
+  function resolveTrailingStop(position, price) {
+    if (!(position.trailingStop > 0)) return 0;
+    const dir = direction(position.side);
+    if (!position.trailAnchor) {
+      if (position.activePrice > 0 && (price - position.activePrice) * dir < 0) return 0;
+      position.trailAnchor = price;
+    } else if ((price - position.trailAnchor) * dir > 0) {
+      position.trailAnchor = price;
+    }
+    return position.trailAnchor - dir * position.trailingStop;
+  }
+
+  function closePosition(state, position, price, stopOrderType, ts) {
+    const order = {
+      orderId: nextId(state, "paper"),
+      orderLinkId: "",
+      symbol: position.symbol,
+      side: position.side === "Buy" ? "Sell" : "Buy",
+      orderType: "Market",
+      price: 0,
+      qty: position.size,
+      leavesQty: position.size,
+      cumExecQty: 0,
+      cumExecFee: 0,
+      avgPrice: 0,
+      triggerPrice: 0,
+      triggerDirection: 0,
+      orderStatus: "New",
+      orderFilter: "tpslOrder",
+      stopOrderType,
+      positionIdx: position.positionIdx ?? 0,
+      createType: `CreateBy${stopOrderType}`,
+      timeInForce: "IOC",
+      reduceOnly: true,
+      takeProfit: 0,
+      stopLoss: 0,
+      trailingStop: 0,
+      trailingActivePrice: 0,
+      leverage: position.leverage,
+      createdTime: ts,
+      updatedTime: ts,
+    };
+    state.orders[order.orderId] = order;
+    executeAggressive(state, order, price, ts);
+  }
+
+  function matchSymbol(state, symbol, price, ts) {
+    let changed = false;
+    const orders = Object.values(state.orders)
+      .filter((o) => o.symbol === symbol && ACTIVE_STATUSES.has(o.orderStatus))
+      .sort((a, b) => a.createdTime - b.createdTime);
+    for (const order of orders) {
+      if (!ACTIVE_STATUSES.has(order.orderStatus)) continue;
+      if (order.orderStatus === "Untriggered") {
+        const triggered =
+          order.triggerDirection === 1 ? price >= order.triggerPrice : price <= order.triggerPrice;
+        if (!triggered) continue;
+        order.orderStatus = "New";
+        order.updatedTime = ts;
+        executeAggressive(state, order, price, ts);
+        changed = true;
+        continue;
+      }
+      if (order.orderType === "Limit" && isMarketable(order, price)) {
+        const qty = fillableQty(state, order, ts);
+        if (qty > 0) applyFill(state, order, qty, order.price, true, ts);
+        changed = true;
+      }
+    }
+
+    for (const position of Object.values(state.positions)) {
+      if (position.symbol !== symbol) continue;
+      const dir = direction(position.side);
+      const prevAnchor = position.trailAnchor;
+      const trailStop = resolveTrailingStop(position, price);
+      if (position.trailAnchor !== prevAnchor) changed = true;
+      const stopLoss = position.stopLoss > 0 ? position.stopLoss : 0;
+      const trailTighter = trailStop > 0 && (!stopLoss || (trailStop - stopLoss) * dir > 0);
+      const stop = trailTighter ? trailStop : stopLoss;
+      if (stop > 0 && (price - stop) * dir <= 0) {
+        closePosition(state, position, price, trailTighter ? "TrailingStop" : "StopLoss", ts);
+        changed = true;
+      } else if (position.takeProfit > 0 && (price - position.takeProfit) * dir >= 0) {
+        closePosition(state, position, price, "TakeProfit", ts);
+        changed = true;
+      }
+    }
+    if (changed) pruneHistory(state);
+    return changed;
+  }
+
+  /**
+   * Feeds a new price tick for a symbol and matches every account against it.
+   */
+  function updatePrice(symbol, price, ts = now()) {
+    const key = String(symbol ?? "").toUpperCase();
+    const value = Number(price);
+    if (!key || !Number.isFinite(value) || value <= 0) return;
+    prices.set(key, { price: value, ts });
+    let changed = false;
+    for (const state of accounts.values()) {
+      if (matchSymbol(state, key, value, ts)) changed = true;
+    }
+    if (changed) persist();
+  }
+
+  async function createDemoOrder(order, account) {
+    const state = getAccount(account);
+    const symbol = String(order?.symbol ?? "").toUpperCase();
+    const side = normalizeSide(order?.side);
+    const qty = toNum(order?.qty);
+    if (!symbol || !Number.isFinite(qty) || qty <= 0) {
+      return reject(10001, "params error: symbol and positive qty required");
+    }
+    const orderType = String(order?.orderType ?? "Market").toLowerCase() === "limit" ? "Limit" : "Market";
+    const price = toNum(order?.price);
+    if (orderType === "Limit" && !(price > 0)) {
+      return reject(10001, "params error: price required for Limit order");
+    }
+    const orderLinkId = order?.orderLinkId ? String(order.orderLinkId) : "";
+    if (orderLinkId && Object.values(state.orders).some((o) => o.orderLinkId === orderLinkId)) {
+      return reject(110072, "OrderLinkedID is duplicate");
+    }
+    const hedge = state.positionMode === "hedge";
+    const requestedIdx = toNum(order?.positionIdx);
+    if (!hedge && requestedIdx > 0) {
+      return reject(10001, "position idx not match position mode");
+    }
+    let reduceOnly = order?.reduceOnly === true || order?.reduceOnly === "true";
+    const positionIdx = hedge
+      ? requestedIdx === 1 || requestedIdx === 2
+        ? requestedIdx
+        : positionIdxForOrder({ mode: "hedge", side, reduceOnly })
+      : 0;
+    // In hedge mode an order against its leg's side can only close that leg.
+    if (hedge && positionLegSide({ positionIdx }) !== side) reduceOnly = true;
+    const position = state.positions[positionKey(symbol, positionIdx)];
+    if (reduceOnly && (!position || position.side === side)) {
+      return reject(110017, "Reduce-only rule not satisfied");
+    }
+
+    const last = await getPrice(symbol);
+    const ts = now();
+    const triggerPrice = toNum(order?.triggerPrice);
+    const hasTrigger = triggerPrice > 0;
+    const leverageRaw = toNum(order?.leverage);
+    const leverage =
+      leverageRaw > 0 ? Math.min(100, leverageRaw) : position?.leverage ?? DEFAULT_LEVERAGE;
+
+    if (!reduceOnly) {
+      const refPrice = orderType === "Limit" ? price : hasTrigger ? triggerPrice : last;
+      const available = equity(state).equity - usedMargin(state);
+      if ((qty * refPrice) / leverage > available) {
+        return reject(110007, "ab not enough for new order");
+      }
+    }
+
+    const entry = {
+      orderId: nextId(state, "paper"),
+      orderLinkId,
+      symbol,
+      side,
+      orderType,
+      price: orderType === "Limit" ? price : 0,
+      qty,
+      leavesQty: qty,
+      cumExecQty: 0,
+      cumExecFee: 0,
+      avgPrice: 0,
+      triggerPrice: hasTrigger ? triggerPrice : 0,
+      triggerDirection: hasTrigger ? (triggerPrice >= last ? 1 : 2) : 0,
+      orderStatus: hasTrigger ? "Untriggered" : "New",
+      orderFilter: hasTrigger ? "StopOrder" : "Order",
+      stopOrderType: hasTrigger ? "Stop" : "",
+      createType: "CreateByUser",
+      timeInForce: String(order?.timeInForce || (orderType === "Limit" ? "GTC" : "IOC")),
+      reduceOnly,
+      positionIdx,
+      takeProfit: toNum(order?.takeProfit ?? order?.tp) || 0,
+      stopLoss: toNum(order?.stopLoss ?? order?.sl) || 0,
+      trailingStop: toNum(order?.trailingStop) || 0,
+      trailingActivePrice: toNum(order?.trailingActivePrice) || 0,
+      leverage,
+      createdTime: ts,
+      updatedTime: ts,
+    };
+    state.orders[entry.orderId] = entry;
+    if (!hasTrigger) {
+      executeAggressive(state, entry, last, ts);
+    }
+    pruneHistory(state);
+    persist();
+    return ok({ orderId: entry.orderId, orderLinkId });
+  }
+
+  async function setTradingStop(protection, account) {
+    const state = getAccount(account);
+    const symbol = String(protection?.symbol ?? "").toUpperCase();
+    const requestedIdx = toNum(protection?.positionIdx);
+    const legs = Object.values(state.positions).filter(
+      (p) =>
+        p.symbol === symbol &&
+        (Number.isFinite(requestedIdx)
+          ? (p.positionIdx ?? 0) === requestedIdx
+          : !protection?.side ||
+            (p.positionIdx ?? 0) === positionIdxForLeg(protection.side, state.positionMode))
+    );
+    if (legs.length > 1) {
+      return reject(10001, "position idx not match position mode");
+    }
+    const position = legs[0];
+    if (!position) {
+      return reject(10001, "can not set tp/sl/ts for zero position");
+    }
+    const dir = direction(position.side);
+    const last = markPrice(symbol, position.avgPrice);
+    const sl = toNum(protection?.sl);
+    const tp = toNum(protection?.tp);
+    if (sl > 0 && (sl - last) * dir >= 0) {
+      return reject(10001, `StopLoss:${sl} set for ${position.side} position should be on the losing side of ${last}`);
+    }
+    if (tp > 0 && (tp - last) * dir <= 0) {
+      return reject(10001, `TakeProfit:${tp} set for ${position.side} position should be on the winning side of ${last}`);
+    }
+    if (protection?.sl != null) position.stopLoss = sl > 0 ? sl : 0;
+    if (protection?.tp != null) position.takeProfit = tp > 0 ? tp : 0;
+    if (protection?.trailingStop != null) {
+      const distance = toNum(protection.trailingStop);
+      position.trailingStop = distance > 0 ? distance : 0;
+      position.trailAnchor = 0;
+    }
+    if (protection?.activePrice != null) {
+      const active = toNum(protection.activePrice);
+      position.activePrice = active > 0 ? active : 0;
+    }
+    position.updatedTime = now();
+    persist();
+    return ok({});
+  }
+
+  async function cancelOrder({ symbol, orderId, orderLinkId }, account) {
+    const state = getAccount(account);
+    const key = String(symbol ?? "").toUpperCase();
+    const order = Object.values(state.orders).find(
+      (o) =>
+        o.symbol === key &&
+        ACTIVE_STATUSES.has(o.orderStatus) &&
+        ((orderId && o.orderId === String(orderId)) ||
+          (orderLinkId && o.orderLinkId === String(orderLinkId)))
+    );
+    if (!order) {
+      return reject(110001, "order not exists or too late to cancel");
+    }
+    closeOrder(order, "Cancelled", now());
+    persist();
+    return ok({ orderId: order.orderId, orderLinkId: order.orderLinkId });
+  }
+
+  function formatPosition(position) {
+    const mark = markPrice(position.symbol, position.avgPrice);
+    return {
+      symbol: position.symbol,
+      side: position.side,
+      size: fmt(position.size),
+      avgPrice: fmt(position.avgPrice),
+      markPrice: fmt(mark),
+      positionValue: fmt(position.size * position.avgPrice),
+      positionIM: fmt((position.size * position.avgPrice) / position.leverage),
+      unrealisedPnl: fmt(unrealisedPnl(position)),
+      cumRealisedPnl: fmt(position.cumRealisedPnl),
+      leverage: fmt(position.leverage),
+      takeProfit: fmt(position.takeProfit),
+      stopLoss: fmt(position.stopLoss),
+      trailingStop: fmt(position.trailingStop),
+      activePrice: fmt(position.activePrice),
+      liqPrice: "",
+      positionIdx: position.positionIdx ?? 0,
+      positionStatus: "Normal",
+      tpslMode: "Full",
+      tradeMode: 0,
+      createdTime: String(position.createdTime),
+      updatedTime: String(position.updatedTime),
+    };
+  }
+
+  function formatOrder(order) {
+    return {
+      orderId: order.orderId,
+      orderLinkId: order.orderLinkId,
+      symbol: order.symbol,
+      side: order.side,
+      orderType: order.orderType,
+      price: fmt(order.price),
+      qty: fmt(order.qty),
+      leavesQty: fmt(order.leavesQty),
+      cumExecQty: fmt(order.cumExecQty),
+      cumExecFee: fmt(order.cumExecFee),
+      avgPrice: order.cumExecQty > 0 ? fmt(order.avgPrice) : "",
+      triggerPrice: fmt(order.triggerPrice),
+      triggerDirection: order.triggerDirection,
+      triggerBy: order.triggerPrice > 0 ? "LastPrice" : "",
+      orderStatus: order.orderStatus,
+      rejectReason: order.rejectReason ?? "EC_NoError",
+      orderFilter: order.orderFilter,
+      stopOrderType: order.stopOrderType,
+      createType: order.createType,
+      timeInForce: order.timeInForce,
+      reduceOnly: order.reduceOnly,
+      takeProfit: fmt(order.takeProfit),
+      stopLoss: fmt(order.stopLoss),
+      positionIdx: order.positionIdx ?? 0,
+      createdTime: String(order.createdTime),
+      updatedTime: String(order.updatedTime),
+    };
+  }
+
+  async function getDemoPositions(account) {
+    const state = getAccount(account);
+    const list = Object.values(state.positions).map(formatPosition);
+    return ok({ category: "linear", list, nextPageCursor: "" });
+  }
+
+  async function listDemoOrders(account, { limit = 50, symbol } = {}) {
+    const state = getAccount(account);
+    const key = symbol ? String(symbol).toUpperCase() : "";
+    const list = Object.values(state.orders)
+      .filter((o) => ACTIVE_STATUSES.has(o.orderStatus) && (!key || o.symbol === key))
+      .sort((a, b) => b.createdTime - a.createdTime)
+      .slice(0, normalizeLimit(limit))
+      .map(formatOrder);
+    return ok({ category: "linear", list, nextPageCursor: "" });
+  }
+
+  async function listOrderHistory(account, { limit = 50, symbol } = {}) {
+    const state = getAccount(account);
+    const key = symbol ? String(symbol).toUpperCase() : "";
+    const list = Object.values(state.orders)
+      .filter((o) => !key || o.symbol === key)
+      .sort((a, b) => b.updatedTime - a.updatedTime)
+      .slice(0, normalizeLimit(limit))
+      .map(formatOrder);
+    return ok({ category: "linear", list, nextPageCursor: "" });
+  }
+
+  async function listExecutions(account, { limit = 50, symbol } = {}) {
+    const state = getAccount(account);
+    const key = symbol ? String(symbol).toUpperCase() : "";
+    const list = state.executions
+      .filter((e) => !key || e.symbol === key)
+      .slice(0, normalizeLimit(limit));
+    return ok({ category: "linear", list, nextPageCursor: "" });
+  }
+
+  async function listClosedPnl(account, { limit = 50, startTime, endTime } = {}) {
+    const state = getAccount(account);
+    const start = toNum(startTime);
+    const end = toNum(endTime);
+    const list = state.closedPnl
+      .filter((row) => {
+        const ts = Number(row.updatedTime);
+        if (Number.isFinite(start) && ts < start) return false;
+        if (Number.isFinite(end) && ts > end) return false;
+        return true;
+      })
+      .slice(0, normalizeLimit(limit));
+    return ok({ category: "linear", list, nextPageCursor: "" });
+  }
+
+  // No book in the simulation: bid and ask are both the last price.
+  async function getTicker(symbol) {
+    const key = String(symbol ?? "").toUpperCase();
+    const last = await getPrice(key);
+    return ok({
+      category: "linear",
+      list: [{ symbol: key, bid1Price: fmt(last), ask1Price: fmt(last), lastPrice: fmt(last) }],
+    });
+  }
+
+  async function getWalletBalance(account) {
+    const state = getAccount(account);
+    const { upl, equity: totalEquity } = equity(state);
+    const margin = usedMargin(state);
+    const available = Math.max(0, totalEquity - margin);
+    const cumRealisedPnl = state.balance - state.initialBalance;
+    return ok({
+      list: [
+        {
+          accountType: "UNIFIED",
+          totalEquity: fmt(totalEquity),
+          totalWalletBalance: fmt(state.balance),
+          totalMarginBalance: fmt(totalEquity),
+          totalAvailableBalance: fmt(available),
+          totalPerpUPL: fmt(upl),
+          totalInitialMargin: fmt(margin),
+          totalMaintenanceMargin: "0",
+          coin: [
+            {
+              coin: "USDT",
+              equity: fmt(totalEquity),
+              usdValue: fmt(totalEquity),
+              walletBalance: fmt(state.balance),
+              availableToWithdraw: fmt(available),
+              unrealisedPnl: fmt(upl),
+              cumRealisedPnl: fmt(cumRealisedPnl),
+              totalPositionIM: fmt(margin),
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Switches the account between "oneway" and "hedge"; refused while
+   * positions or working orders are open, like on Bybit.
+   */
+  async function setPositionMode(mode, account) {
+    const state = getAccount(account);
+    const normalized = normalizePositionMode(mode);
+    if (!normalized) {
+      return reject(10001, `params error: unknown position mode ${mode}`);
+    }
+    if ((state.positionMode ?? "oneway") === normalized) {
+      return ok({ mode: normalized });
+    }
+    const busy =
+      Object.keys(state.positions).length > 0 ||
+      Object.values(state.orders).some((o) => ACTIVE_STATUSES.has(o.orderStatus));
+    if (busy) {
+      return reject(110024, "position mode cannot be switched with open positions or orders");
+    }
+    state.positionMode = normalized;
+    persist();
+    return ok({ mode: normalized });
+  }
+
+  /**
+   * Wipes a paper account back to a flat book with the given balance.
+   */
+  function resetAccount(account, { balance } = {}) {
+    const value = toNum(balance);
+    const state = createAccountState(value > 0 ? value : initialBalance, now());
+    accounts.set(accountKey(account), state);
+    persist();
+    return state.balance;
+  }
+
+  return {
+    env: PAPER_ENV,
+    simulated: true,
+    createDemoOrder,
+    setTradingStop,
+    cancelOrder,
+    getDemoPositions,
+    listDemoOrders,
+    listDemoOpenOrders: listDemoOrders,
+    listOrderHistory,
+    listExecutions,
+    listDemoTrades: listExecutions,
+    listClosedPnl,
+    getWalletBalance,
+    getTicker,
+    setPositionMode,
+    updatePrice,
+    resetAccount,
+  };
+}
+
+let defaultExchange = null;
+
+/**
+ * Process-wide paper venue backed by PAPER_STATE_FILE (default server/.data/paper-state.json).
+ */
+export function getPaperExchange() {
+  if (!defaultExchange) {
+    const balance = Number(process.env.PAPER_INITIAL_BALANCE);
+    defaultExchange = createPaperExchange({
+      storePath: process.env.PAPER_STATE_FILE || DEFAULT_STATE_FILE,
+      initialBalance: Number.isFinite(balance) && balance > 0 ? balance : DEFAULT_INITIAL_BALANCE,
+    });
+  }
+  return defaultExchange;
+}
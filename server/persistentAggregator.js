@@ -1,23 +1,21 @@
 import { WebsocketClient } from "bybit-api";
-import {
-  getDemoPositions,
-  getWalletBalance,
-  listClosedPnl,
-  listDemoOrders,
-  listExecutions,
-} from "./bybitClient.js";
+import { bybitAdapter } from "./exchanges/index.js";
 import {
   DEFAULT_SELECTED_SYMBOLS,
   resolveSelectedSymbols,
 } from "../src/constants/symbols.js";
-import { evaluateStrategyForSymbol } from "../src/engine/botEngine.js";
-import { evaluateAiMaticXStrategyForSymbol } from "../src/engine/aiMaticXStrategy.js";
-import { evaluateAiMaticAmdStrategyForSymbol } from "../src/engine/aiMaticAmdStrategy.js";
-import { evaluateAiMaticProStrategyForSymbol } from "../src/engine/aiMaticProStrategy.js";
-import { evaluateAiMaticOliKellaStrategyForSymbol } from "../src/engine/aiMaticOliKellaStrategy.js";
-import { evaluateAiMaticBboStrategyForSymbol } from "../src/engine/aiMaticBboStrategy.js";
+import { resolveStrategy, resolveStrategyId } from "../src/engine/strategyRegistry.js";
 import { computeCoreV2 } from "../src/engine/coreV2.js";
+import { createSymbolStreams } from "../src/engine/streamingIndicators.js";
+import {
+  createCorrelationService,
+  parseCorrelationWindows,
+} from "../src/engine/correlation.js";
 import { getSymbolCatalog } from "./symbolCatalog.js";
+import { getRiskManager, summarizeRiskAccount } from "./riskManager.js";
+import { resolveSessionRecorder } from "./trafficRecorder.js";
+import { replayFrames } from "../src/engine/trafficRecording.js";
+import { getCandleStore } from "./candleStore.js";
 
 const FAST_POLL_MS = 30_000;
 const SLOW_POLL_MS = 15_000;
@@ -25,14 +23,26 @@ const WS_ACCOUNT_STALE_MS = 20_000;
 const PRIVATE_EXECUTIONS_MAX = 500;
 const STALE_SESSION_TTL_MS = 15 * 60_000;
 const INITIAL_BOOTSTRAP_WAIT_MS = 2_500;
+const ACCOUNT_SNAPSHOT_MAX_AGE_MS = 60_000;
 const REST_URL_MAINNET = "https://api.bybit.com";
 const REST_URL_TESTNET = "https://api-demo.bybit.com";
 const BACKFILL_PAGE_LIMIT = 1000;
 const BACKFILL_MAX_PAGES = 10;
-const ENGINE_MAX_CANDLES_DEFAULT = 5000;
-const ENGINE_MAX_CANDLES_OLIKELLA = 2500;
+const FAST_POLL_METHODS = ["getDemoPositions", "listDemoOrders", "listExecutions"];
+const SLOW_POLL_METHODS = ["getWalletBalance", "listClosedPnl"];
+// Replays only see recorded traffic; nothing is fetched or sent.
+const REPLAY_VENUE = { id: "replay", label: "Replay" };
+// Rolling correlation windows in engine bars, e.g. CORRELATION_WINDOWS=48,288.
+const CORRELATION_WINDOWS = parseCorrelationWindows(process.env.CORRELATION_WINDOWS);
 
 const sessions = new Map();
+// Sessions kept alive without dashboard reads (the auto-trader's accounts).
+const pinnedSessionKeys = new Set();
+const sessionListeners = new Set();
+// Default account source. Any ExchangeAdapter (or the paper venue) works;
+// only venues with `privateStream` get the Bybit private WS topics, the rest
+// are served by the REST polls. Market data always comes from the Bybit public WS.
+const BYBIT_VENUE = bybitAdapter;
 
 function nowIso() {
   return new Date().toISOString();
@@ -53,6 +63,20 @@ function toErrorMessage(reason) {
   return String(reason ?? "unknown_error");
 }
 
+// Listener failures are reported on the session and never break the WS/poll loop.
+function notifySessionListeners(session, method, ...args) {
+  for (const listener of session.listeners ?? sessionListeners) {
+    if (typeof listener[method] !== "function") continue;
+    try {
+      Promise.resolve(listener[method](session, ...args)).catch((err) => {
+        session.snapshot.errors.listener = toErrorMessage(err);
+      });
+    } catch (err) {
+      session.snapshot.errors.listener = toErrorMessage(err);
+    }
+  }
+}
+
 function normalizeLimit(value, fallback) {
   const parsed = Number(value);
   if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
@@ -65,20 +89,6 @@ function normalizeScope(value) {
   return "full";
 }
 
-function normalizeRiskMode(value) {
-  const raw = String(value ?? "ai-matic").toLowerCase();
-  const allowed = new Set([
-    "ai-matic",
-    "ai-matic-x",
-    "ai-matic-amd",
-    "ai-matic-olikella",
-    "ai-matic-bbo",
-    "ai-matic-tree",
-    "ai-matic-pro",
-  ]);
-  return allowed.has(raw) ? raw : "ai-matic";
-}
-
 function normalizeSymbols(value, allowedSymbols, fallbackSymbols = DEFAULT_SELECTED_SYMBOLS) {
   return resolveSelectedSymbols(value, {
     allowedSymbols,
@@ -158,7 +168,8 @@ function syncSnapshotFromPrivateState(session) {
   delete session.snapshot.errors.positions;
   delete session.snapshot.errors.orders;
   delete session.snapshot.errors.executions;
-  session.updatedAt = Date.now();
+  session.updatedAt = session.now();
+  notifySessionListeners(session, "onAccount");
 }
 
 function hydratePrivateFastStateFromSnapshot(session) {
@@ -240,18 +251,29 @@ function mergeCandles(existing, incoming, maxCandles) {
   return sorted.slice(-maxCandles);
 }
 
-function computeCoreV2FromCandles(candles, riskMode) {
+function computeCoreV2FromCandles(candles, riskMode, streams) {
   if (!Array.isArray(candles)) return null;
-  return computeCoreV2(candles, { riskMode });
+  return computeCoreV2(candles, { riskMode, streams });
+}
+
+// Incremental frames and indicators per symbol, so a tick only processes the
+// bars that changed since the previous decision.
+function symbolStreams(session, symbol) {
+  let streams = session.engine.streamsBySymbol.get(symbol);
+  if (!streams) {
+    streams = createSymbolStreams();
+    session.engine.streamsBySymbol.set(symbol, streams);
+  }
+  return streams;
 }
 
-function enrichDecisionWithCore(decision, candles, riskMode) {
+function enrichDecisionWithCore(decision, candles, riskMode, streams = null) {
   if (!decision || typeof decision !== "object") return decision;
   const existingCore =
     decision.coreV2 && typeof decision.coreV2 === "object"
       ? decision.coreV2
       : null;
-  const derivedCore = computeCoreV2FromCandles(candles, riskMode);
+  const derivedCore = computeCoreV2FromCandles(candles, riskMode, streams);
   if (!existingCore && !derivedCore) return decision;
   return {
     ...decision,
@@ -262,15 +284,6 @@ function enrichDecisionWithCore(decision, candles, riskMode) {
   };
 }
 
-function selectDecisionFn(riskMode) {
-  if (riskMode === "ai-matic-x") return evaluateAiMaticXStrategyForSymbol;
-  if (riskMode === "ai-matic-amd") return evaluateAiMaticAmdStrategyForSymbol;
-  if (riskMode === "ai-matic-pro") return evaluateAiMaticProStrategyForSymbol;
-  if (riskMode === "ai-matic-olikella") return evaluateAiMaticOliKellaStrategyForSymbol;
-  if (riskMode === "ai-matic-bbo") return evaluateAiMaticBboStrategyForSymbol;
-  return evaluateStrategyForSymbol;
-}
-
 function buildProtectionSnapshot(positionsData, ordersData) {
   const positions = extractList(positionsData)
     .map((p) => {
@@ -328,26 +341,44 @@ function buildProtectionSnapshot(positionsData, ordersData) {
   return { positions, orders };
 }
 
-async function fetchBackfillCandles({ symbol, timeframe, useTestnet, limit = 500 }) {
+async function fetchKlinePage({ symbol, timeframe, useTestnet, end, limit }) {
   const base = useTestnet ? REST_URL_TESTNET : REST_URL_MAINNET;
+  const url = `${base}/v5/market/kline?category=linear&symbol=${symbol}&interval=${timeframe}&limit=${limit}&end=${end}`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`backfill_failed:${res.status}`);
+  const json = await res.json();
+  const list = json?.result?.list ?? [];
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((row) => normalizeWsKline(row))
+    .filter(Boolean)
+    .sort((a, b) => a.openTime - b.openTime);
+}
+
+// With a candle store the closed bars come from disk and only the missing
+// tail (plus older history or gaps in the window) is fetched.
+async function fetchBackfillCandles({ symbol, timeframe, useTestnet, limit = 500, store = null }) {
   const wanted = Math.max(1, Math.floor(Number(limit) || 500));
+  const fetchPage = ({ end, limit: pageLimit }) =>
+    fetchKlinePage({ symbol, timeframe, useTestnet, end, limit: pageLimit });
+  if (store) {
+    const { candles } = await store.loadWindow(symbol, timeframe, {
+      bars: wanted,
+      fetchPage,
+      includeOpen: true,
+      maxPages: BACKFILL_MAX_PAGES,
+      pageLimit: BACKFILL_PAGE_LIMIT,
+    });
+    return candles.slice(-wanted);
+  }
+
   let end = Date.now();
   const merged = new Map();
 
   for (let page = 0; page < BACKFILL_MAX_PAGES && merged.size < wanted; page += 1) {
     const remaining = wanted - merged.size;
     const pageLimit = Math.max(1, Math.min(BACKFILL_PAGE_LIMIT, remaining));
-    const url = `${base}/v5/market/kline?category=linear&symbol=${symbol}&interval=${timeframe}&limit=${pageLimit}&end=${end}`;
-    const res = await fetch(url);
-    if (!res.ok) throw new Error(`backfill_failed:${res.status}`);
-    const json = await res.json();
-    const list = json?.result?.list ?? [];
-    if (!Array.isArray(list) || list.length === 0) break;
-
-    const parsed = list
-      .map((row) => normalizeWsKline(row))
-      .filter(Boolean)
-      .sort((a, b) => a.openTime - b.openTime);
+    const parsed = await fetchPage({ end, limit: pageLimit });
     if (!parsed.length) break;
 
     for (const candle of parsed) {
@@ -395,6 +426,7 @@ function buildSessionSnapshot(session, scope = "full") {
       riskMode: session.engine.riskMode,
       symbols: [...session.engine.symbols],
       lastDecisionAt: session.engine.lastDecisionAt,
+      correlation: session.engine.correlation.snapshot(),
       updatedAtIso: session.engine.lastDecisionAt
         ? new Date(session.engine.lastDecisionAt).toISOString()
         : null,
@@ -420,20 +452,46 @@ function buildSessionSnapshot(session, scope = "full") {
   return data;
 }
 
+// Poll results are recorded as [{ method, status, value | reason }], the
+// shape replays turn back into Promise.allSettled results.
+function toRecordedResults(methods, settled) {
+  return settled.map((res, index) =>
+    res.status === "fulfilled"
+      ? { method: methods[index], status: res.status, value: res.value }
+      : { method: methods[index], status: res.status, reason: toErrorMessage(res.reason) }
+  );
+}
+
+function fromRecordedResults(methods, recorded) {
+  const byMethod = new Map(
+    (Array.isArray(recorded) ? recorded : []).map((entry) => [entry?.method, entry])
+  );
+  return methods.map((method) => {
+    const entry = byMethod.get(method);
+    if (entry?.status === "fulfilled") return { status: "fulfilled", value: entry.value };
+    return { status: "rejected", reason: new Error(entry?.reason ?? `${method} not recorded`) };
+  });
+}
+
 async function runFastPoll(session) {
   const settled = await Promise.allSettled([
-    getDemoPositions(session.creds, session.useTestnet),
-    listDemoOrders(
+    session.venue.getDemoPositions(session.creds, session.useTestnet),
+    session.venue.listDemoOrders(
       session.creds,
       { limit: session.limits.orders, settleCoin: "USDT" },
       session.useTestnet
     ),
-    listExecutions(
+    session.venue.listExecutions(
       session.creds,
       { limit: session.limits.executions, settleCoin: "USDT" },
       session.useTestnet
     ),
   ]);
+  session.recorder?.record("rest", "fast", toRecordedResults(FAST_POLL_METHODS, settled));
+  applyFastPoll(session, settled);
+}
+
+function applyFastPoll(session, settled) {
   const [positionsRes, ordersRes, executionsRes] = settled;
   if (positionsRes.status === "fulfilled") {
     session.snapshot.positions = positionsRes.value;
@@ -464,18 +522,24 @@ async function runFastPoll(session) {
   ) {
     hydratePrivateFastStateFromSnapshot(session);
   }
-  session.updatedAt = Date.now();
+  session.updatedAt = session.now();
+  notifySessionListeners(session, "onAccount");
 }
 
 async function runSlowPoll(session) {
   const settled = await Promise.allSettled([
-    getWalletBalance(session.creds, session.useTestnet),
-    listClosedPnl(
+    session.venue.getWalletBalance(session.creds, session.useTestnet),
+    session.venue.listClosedPnl(
       session.creds,
       { limit: session.limits.pnl },
       session.useTestnet
     ),
   ]);
+  session.recorder?.record("rest", "slow", toRecordedResults(SLOW_POLL_METHODS, settled));
+  applySlowPoll(session, settled);
+}
+
+function applySlowPoll(session, settled) {
   const [walletRes, pnlRes] = settled;
   if (walletRes.status === "fulfilled") {
     session.snapshot.wallet = walletRes.value;
@@ -489,7 +553,24 @@ async function runSlowPoll(session) {
   } else {
     session.snapshot.errors.pnl = toErrorMessage(pnlRes.reason);
   }
-  session.updatedAt = Date.now();
+  session.updatedAt = session.now();
+  if (walletRes.status === "fulfilled" && !session.replay) {
+    observeSessionRisk(session);
+  }
+}
+
+// Feeds the risk manager so a breach halts trading even while no order is sent.
+function observeSessionRisk(session) {
+  try {
+    getRiskManager().observe(
+      session.userId,
+      session.env,
+      summarizeRiskAccount(session.snapshot)
+    );
+    delete session.snapshot.errors.risk;
+  } catch (err) {
+    session.snapshot.errors.risk = toErrorMessage(err);
+  }
 }
 
 async function initEngineBackfill(session) {
@@ -503,53 +584,83 @@ async function initEngineBackfill(session) {
           timeframe: session.engine.timeframe,
           useTestnet: session.useTestnet,
           limit: session.engine.maxCandles,
+          store: session.candleStore,
         });
       } catch (err) {
         fetchError = err;
       }
-      const ts = Date.now();
-      if (candles.length > 0) {
-        session.engine.candlesBySymbol.set(
-          symbol,
-          candles.slice(-session.engine.maxCandles)
-        );
-      }
-      try {
-        const rawDecision = session.engine.decisionFn(symbol, candles);
-        const decision = enrichDecisionWithCore(rawDecision, candles, session.engine.riskMode);
-        session.engine.decisions.set(symbol, { decision, ts });
-        session.engine.lastDecisionAt = ts;
-        if (fetchError) {
-          session.engine.lastError = `${symbol} backfill degraded: ${toErrorMessage(
-            fetchError
-          )}`;
-        }
-      } catch (err) {
-        try {
-          const fallbackDecision = enrichDecisionWithCore(
-            session.engine.decisionFn(symbol, []),
-            [],
-            session.engine.riskMode
-          );
-          session.engine.decisions.set(symbol, {
-            decision: fallbackDecision,
-            ts,
-          });
-          session.engine.lastDecisionAt = ts;
-        } catch {
-          // ignore fallback decision errors
-        }
-        const reason = fetchError ? toErrorMessage(fetchError) : toErrorMessage(err);
-        session.engine.lastError = `${symbol} backfill failed: ${reason}`;
-      }
+      session.recorder?.record("rest", "backfill", {
+        symbol,
+        candles,
+        error: fetchError ? toErrorMessage(fetchError) : null,
+      });
+      applyBackfill(session, symbol, candles, fetchError);
     })
   );
 }
 
+function applyBackfill(session, symbol, candles, fetchError) {
+  const ts = session.now();
+  if (candles.length > 0) {
+    session.engine.candlesBySymbol.set(
+      symbol,
+      candles.slice(-session.engine.maxCandles)
+    );
+    session.engine.correlation.update(session.engine.candlesBySymbol, ts);
+  }
+  try {
+    const rawDecision = session.engine.decisionFn(symbol, candles);
+    const decision = enrichDecisionWithCore(
+      rawDecision,
+      candles,
+      session.engine.riskMode,
+      symbolStreams(session, symbol)
+    );
+    session.engine.decisions.set(symbol, { decision, ts });
+    session.engine.lastDecisionAt = ts;
+    if (fetchError) {
+      session.engine.lastError = `${symbol} backfill degraded: ${toErrorMessage(
+        fetchError
+      )}`;
+    }
+  } catch (err) {
+    try {
+      const fallbackDecision = enrichDecisionWithCore(
+        session.engine.decisionFn(symbol, []),
+        [],
+        session.engine.riskMode
+      );
+      session.engine.decisions.set(symbol, {
+        decision: fallbackDecision,
+        ts,
+      });
+      session.engine.lastDecisionAt = ts;
+    } catch {
+      // ignore fallback decision errors
+    }
+    const reason = fetchError ? toErrorMessage(fetchError) : toErrorMessage(err);
+    session.engine.lastError = `${symbol} backfill failed: ${reason}`;
+  }
+}
+
+function persistClosedKlines(session, symbol, rows) {
+  if (!session.candleStore) return;
+  const closed = rows
+    .filter((row) => row?.confirm === true)
+    .map((row) => normalizeWsKline(row))
+    .filter(Boolean);
+  if (!closed.length) return;
+  session.candleStore
+    .write(symbol, session.engine.timeframe, closed)
+    .catch((err) => {
+      session.engine.lastError = `${symbol} candle store: ${toErrorMessage(err)}`;
+    });
+}
+
 function onWsUpdate(session, event) {
   const topic = String(event?.topic ?? "");
   const data = event?.data;
-  const ts = Date.now();
+  const ts = session.now();
   session.ws.lastUpdateAt = ts;
   if (topic) {
     session.ws.topics[topic] = ts;
@@ -570,12 +681,23 @@ function onWsUpdate(session, event) {
     const existing = session.engine.candlesBySymbol.get(symbol) ?? [];
     const merged = mergeCandles(existing, incoming, session.engine.maxCandles);
     session.engine.candlesBySymbol.set(symbol, merged);
+    session.engine.correlation.update(session.engine.candlesBySymbol, ts);
+    persistClosedKlines(session, symbol, rows);
+    if (typeof session.venue.updatePrice === "function") {
+      session.venue.updatePrice(symbol, incoming[incoming.length - 1].close, ts);
+    }
     try {
       const rawDecision = session.engine.decisionFn(symbol, merged);
-      const decision = enrichDecisionWithCore(rawDecision, merged, session.engine.riskMode);
+      const decision = enrichDecisionWithCore(
+        rawDecision,
+        merged,
+        session.engine.riskMode,
+        symbolStreams(session, symbol)
+      );
       session.engine.decisions.set(symbol, { decision, ts });
       session.engine.lastDecisionAt = ts;
       session.engine.lastError = null;
+      notifySessionListeners(session, "onDecision", symbol, decision);
     } catch (err) {
       session.engine.lastError = toErrorMessage(err);
     }
@@ -648,7 +770,9 @@ function onWsUpdate(session, event) {
   }
 }
 
-function createSession(args) {
+// Session state without sockets or timers; createSession wires those up,
+// replayPersistentSession drives it from a recording instead.
+function buildSessionState(args) {
   const {
     sessionKey,
     userId,
@@ -658,16 +782,14 @@ function createSession(args) {
     riskMode,
     symbols,
     limits,
+    venue = BYBIT_VENUE,
+    now = Date.now,
+    correlationWindows = CORRELATION_WINDOWS,
   } = args;
 
   const timeframe = "5";
-  const decisionFn = selectDecisionFn(riskMode);
+  const strategy = resolveStrategy(riskMode);
   const engineSymbols = symbols.length ? symbols : [...DEFAULT_SELECTED_SYMBOLS];
-  const ws = new WebsocketClient({
-    key: creds.apiKey,
-    secret: creds.apiSecret,
-    testnet: useTestnet,
-  });
 
   const session = {
     key: sessionKey,
@@ -675,7 +797,12 @@ function createSession(args) {
     env,
     useTestnet,
     creds: { ...creds },
+    venue,
     limits: { ...limits },
+    now,
+    recorder: null,
+    // Set by createSession; replays never read or write stored candles.
+    candleStore: null,
     snapshot: {
       wallet: null,
       positions: null,
@@ -702,17 +829,16 @@ function createSession(args) {
       riskMode,
       timeframe,
       symbols: engineSymbols,
-      maxCandles:
-        riskMode === "ai-matic-olikella"
-          ? ENGINE_MAX_CANDLES_OLIKELLA
-          : ENGINE_MAX_CANDLES_DEFAULT,
-      decisionFn,
+      maxCandles: strategy.maxCandles,
+      decisionFn: strategy.decide,
       candlesBySymbol: new Map(),
+      streamsBySymbol: new Map(),
+      correlation: createCorrelationService({ windows: correlationWindows }),
       decisions: new Map(),
       lastDecisionAt: 0,
       lastError: null,
     },
-    wsClient: ws,
+    wsClient: null,
     privateState: {
       positions: new Map(),
       orders: new Map(),
@@ -722,8 +848,8 @@ function createSession(args) {
       fast: null,
       slow: null,
     },
-    createdAt: Date.now(),
-    lastAccessAt: Date.now(),
+    createdAt: now(),
+    lastAccessAt: now(),
     updatedAt: 0,
     initPromise: null,
     backfillPromise: null,
@@ -739,13 +865,14 @@ function createSession(args) {
       } catch (_) {
         // noop
       }
+      void session.recorder?.close?.();
     },
   };
 
-  const bootstrapTs = Date.now();
+  const bootstrapTs = now();
   for (const symbol of engineSymbols) {
     try {
-      const fallbackDecision = enrichDecisionWithCore(decisionFn(symbol, []), [], riskMode);
+      const fallbackDecision = enrichDecisionWithCore(strategy.decide(symbol, []), [], riskMode);
       session.engine.decisions.set(symbol, {
         decision: fallbackDecision,
         ts: bootstrapTs,
@@ -757,6 +884,38 @@ function createSession(args) {
   if (session.engine.decisions.size > 0) {
     session.engine.lastDecisionAt = bootstrapTs;
   }
+  return session;
+}
+
+function createSession(args) {
+  const session = buildSessionState(args);
+  const { creds, useTestnet, venue, engine } = session;
+  const { timeframe, symbols: engineSymbols } = engine;
+  const ws = new WebsocketClient(
+    venue.privateStream
+      ? {
+          key: creds.apiKey,
+          secret: creds.apiSecret,
+          testnet: useTestnet,
+        }
+      : { testnet: useTestnet }
+  );
+  session.wsClient = ws;
+  session.candleStore = getCandleStore(useTestnet ? "bybit-testnet" : "bybit");
+  session.recorder = resolveSessionRecorder({
+    userId: session.userId,
+    env: session.env,
+    startedAt: session.createdAt,
+  });
+  session.recorder?.record("session", "start", {
+    userId: session.userId,
+    env: session.env,
+    useTestnet,
+    venue: venue.id ?? venue.env ?? null,
+    riskMode: engine.riskMode,
+    symbols: engineSymbols,
+    limits: session.limits,
+  });
 
   ws.on("open", () => {
     session.engine.connected = true;
@@ -774,17 +933,26 @@ function createSession(args) {
     session.ws.lastError = msg;
     session.engine.lastError = msg;
   });
-  ws.on("update", (event) => onWsUpdate(session, event));
+  ws.on("update", (event) => {
+    session.recorder?.record(
+      String(event?.topic ?? "").startsWith("kline.") ? "ws.public" : "ws.private",
+      "aggregator",
+      event
+    );
+    onWsUpdate(session, event);
+  });
 
   const publicTopics = engineSymbols.map(
     (symbol) => `kline.${timeframe}.${symbol}`
   );
-  try {
-    ws.subscribeV5(["position", "order", "execution", "wallet"], "linear", true);
-  } catch (err) {
-    const msg = toErrorMessage(err);
-    session.ws.lastError = msg;
-    session.engine.lastError = msg;
+  if (venue.privateStream) {
+    try {
+      ws.subscribeV5(["position", "order", "execution", "wallet"], "linear", true);
+    } catch (err) {
+      const msg = toErrorMessage(err);
+      session.ws.lastError = msg;
+      session.engine.lastError = msg;
+    }
   }
   try {
     ws.subscribeV5(publicTopics, "linear");
@@ -833,6 +1001,7 @@ function createSession(args) {
 function cleanupStaleSessions() {
   const now = Date.now();
   for (const [key, session] of sessions.entries()) {
+    if (pinnedSessionKeys.has(key)) continue;
     if (now - session.lastAccessAt < STALE_SESSION_TTL_MS) continue;
     session.stop();
     sessions.delete(key);
@@ -844,8 +1013,9 @@ function buildSessionKey(userId, env) {
 }
 
 function buildConfigSignature(args) {
-  const { apiKey, useTestnet, riskMode, symbols, limits } = args;
+  const { exchange, apiKey, useTestnet, riskMode, symbols, limits } = args;
   return JSON.stringify({
+    exchange: String(exchange ?? ""),
     apiKey: String(apiKey ?? ""),
     useTestnet: Boolean(useTestnet),
     riskMode,
@@ -860,7 +1030,7 @@ export async function getPersistentDashboardSnapshot(args) {
   const env = String(args.env ?? (args.useTestnet ? "testnet" : "mainnet"));
   const useTestnet = Boolean(args.useTestnet);
   const scope = normalizeScope(args.scope);
-  const riskMode = normalizeRiskMode(args.riskMode);
+  const riskMode = resolveStrategyId(args.riskMode);
   const symbolCatalog = await getSymbolCatalog(useTestnet);
   const symbols = normalizeSymbols(
     args.symbols,
@@ -875,6 +1045,7 @@ export async function getPersistentDashboardSnapshot(args) {
 
   const key = buildSessionKey(userId, env);
   const nextSignature = buildConfigSignature({
+    exchange: args.venue?.id ?? args.venue?.env,
     apiKey: args.apiKey,
     useTestnet,
     riskMode,
@@ -893,10 +1064,13 @@ export async function getPersistentDashboardSnapshot(args) {
       userId,
       env,
       useTestnet,
-      creds: { apiKey: args.apiKey, apiSecret: args.apiSecret },
+      creds: args.venue?.simulated
+        ? { userId }
+        : { apiKey: args.apiKey, apiSecret: args.apiSecret },
       riskMode,
       symbols,
       limits,
+      venue: args.venue,
     });
     session.configSignature = nextSignature;
     sessions.set(key, session);
@@ -911,10 +1085,115 @@ export async function getPersistentDashboardSnapshot(args) {
     ]);
   }
 
+  if (session.venue.simulated) {
+    // Paper books live in-process, so read them fresh instead of waiting for the poll timers.
+    await Promise.allSettled([runFastPoll(session), runSlowPoll(session)]);
+  }
+
   session.lastAccessAt = Date.now();
   return buildSessionSnapshot(session, scope);
 }
 
+/**
+ * Latest wallet/positions/closed-PnL of a running session, or null when the
+ * session is missing, has no wallet yet or stopped updating.
+ */
+export function getPersistentAccountSnapshot(userId, env) {
+  const session = sessions.get(buildSessionKey(String(userId ?? ""), String(env ?? "")));
+  if (!session || !session.snapshot.wallet) return null;
+  if (Date.now() - session.updatedAt > ACCOUNT_SNAPSHOT_MAX_AGE_MS) return null;
+  return {
+    wallet: session.snapshot.wallet,
+    positions: session.snapshot.positions,
+    pnl: session.snapshot.pnl,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * Keeps a session running while no dashboard reads it. The pin is kept by
+ * key, so it also covers a session rebuilt after a config change.
+ */
+export function pinPersistentSession(userId, env, pinned = true) {
+  const key = buildSessionKey(String(userId ?? ""), String(env ?? ""));
+  if (pinned) pinnedSessionKeys.add(key);
+  else pinnedSessionKeys.delete(key);
+}
+
+/**
+ * Subscribes to all sessions. `listener.onDecision(session, symbol, decision)`
+ * runs after each kline decision, `listener.onAccount(session)` after each
+ * positions/orders refresh (REST poll or private WS). Returns an unsubscribe.
+ */
+export function registerSessionListener(listener) {
+  sessionListeners.add(listener);
+  return () => sessionListeners.delete(listener);
+}
+
+function applyRecordedFrame(session, frame) {
+  if (frame.source === "ws.public" || frame.source === "ws.private") {
+    onWsUpdate(session, frame.data);
+    return;
+  }
+  if (frame.source !== "rest") return;
+  if (frame.channel === "fast") {
+    applyFastPoll(session, fromRecordedResults(FAST_POLL_METHODS, frame.data));
+  } else if (frame.channel === "slow") {
+    applySlowPoll(session, fromRecordedResults(SLOW_POLL_METHODS, frame.data));
+  } else if (frame.channel === "backfill") {
+    const { symbol, candles, error } = frame.data ?? {};
+    applyBackfill(
+      session,
+      symbol,
+      Array.isArray(candles) ? candles : [],
+      error ? new Error(error) : null
+    );
+  }
+}
+
+/**
+ * Rebuilds a session from recorded frames (server/trafficRecorder.js) without
+ * sockets, timers or REST calls. Frames are applied in order on a virtual
+ * clock set to each frame's recorded time, so a recording always yields the
+ * same decisions. `options` override the recorded session parameters;
+ * `listeners` replace the registered session listeners, so the auto-trader
+ * only sees a replay when passed in explicitly. Resolves to the full
+ * snapshot and the session.
+ */
+export async function replayPersistentSession(frames, options = {}) {
+  const start = frames.find((frame) => frame.source === "session")?.data ?? {};
+  let clock = Number.isFinite(frames[0]?.ts) ? frames[0].ts : 0;
+  const userId = String(options.userId ?? start.userId ?? "replay");
+  const env = String(options.env ?? start.env ?? "testnet");
+  const session = buildSessionState({
+    sessionKey: `${buildSessionKey(userId, env)}:replay`,
+    userId,
+    env,
+    useTestnet: Boolean(options.useTestnet ?? start.useTestnet ?? env === "testnet"),
+    creds: {},
+    riskMode: resolveStrategyId(options.riskMode ?? start.riskMode),
+    symbols: normalizeSymbols(options.symbols ?? start.symbols),
+    limits: {
+      orders: normalizeLimit(start.limits?.orders, 50),
+      executions: normalizeLimit(start.limits?.executions, 50),
+      pnl: normalizeLimit(start.limits?.pnl, 200),
+    },
+    venue: options.venue ?? REPLAY_VENUE,
+    now: () => clock,
+  });
+  session.replay = true;
+  session.listeners = new Set(options.listeners ?? []);
+  await replayFrames(
+    frames,
+    (frame) => {
+      clock = frame.ts;
+      applyRecordedFrame(session, frame);
+    },
+    { speed: options.speed, sleep: options.sleep }
+  );
+  return { snapshot: buildSessionSnapshot(session, "full"), session };
+}
+
 export function getPersistentAggregatorHealth() {
   cleanupStaleSessions();
   const activeSessions = Array.from(sessions.values());
@@ -932,6 +1211,7 @@ export function getPersistentAggregatorHealth() {
         : null,
       lastAccessAt: session.lastAccessAt,
       lastAccessAtIso: new Date(session.lastAccessAt).toISOString(),
+      pinned: pinnedSessionKeys.has(session.key),
       isStale:
         session.lastAccessAt > 0 &&
         now - session.lastAccessAt >= STALE_SESSION_TTL_MS,
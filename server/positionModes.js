@@ -0,0 +1,146 @@
+// ===========================================
+// Account position mode (one-way / hedge)
+// ===========================================
+//
+// POST /api/:env/position-mode switches the venue account between one-way
+// and hedge (two-way) mode through the adapter's setPositionMode and records
+// the choice per user and env. orderService addresses orders to a position
+// leg from it (src/engine/positionMode.js): in hedge mode a long and a short
+// on one symbol are separate positions, entries open the leg of their side
+// and an entry against the other leg is not blocked. Accounts without a
+// recorded mode keep the venue-side positionIdx resolution. Kept in
+// POSITION_MODE_STATE_FILE (default server/.data/position-modes.json).
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { detectPositionMode, normalizePositionMode } from "../src/engine/positionMode.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_POSITION_MODE_FILE = path.resolve(__dirname, ".data/position-modes.json");
+
+const fail = (status, error, meta = {}) => ({ ok: false, status, error, meta });
+
+function modeKey(userId, env) {
+  return `${env}:${userId}`;
+}
+
+function extractList(payload) {
+  const list = payload?.result?.list ?? payload?.data?.result?.list ?? payload?.list;
+  return Array.isArray(list) ? list : [];
+}
+
+function errorMessage(err) {
+  return err?.response?.data?.retMsg || err?.message || String(err);
+}
+
+/**
+ * JSON file store for the recorded modes; `filePath: null` keeps them in
+ * memory only.
+ */
+export function createFilePositionModeStore(filePath = DEFAULT_POSITION_MODE_FILE) {
+  let modes = null;
+
+  function load() {
+    if (modes) return modes;
+    modes = {};
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      modes = parsed?.modes && typeof parsed.modes === "object" ? parsed.modes : {};
+    }
+    return modes;
+  }
+
+  function persist() {
+    if (!filePath) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, modes }));
+    fs.renameSync(tmp, filePath);
+  }
+
+  return {
+    kind: "file",
+    get(key) {
+      return load()[key] ?? null;
+    },
+    set(key, record) {
+      load()[key] = record;
+      persist();
+    },
+  };
+}
+
+export function createPositionModes({ store = createFilePositionModeStore(null), now = Date.now } = {}) {
+  /** The recorded mode ("oneway" | "hedge"), null when the user never set one. */
+  function modeOf(userId, env) {
+    return normalizePositionMode(store.get(modeKey(userId, env))?.mode);
+  }
+
+  /**
+   * Recorded mode plus the one the venue positions show right now
+   * (`detected`, null on a flat account).
+   */
+  async function status({ userId, env, venue, creds }) {
+    const record = store.get(modeKey(userId, env));
+    let detected = null;
+    try {
+      const posRes = await venue.getDemoPositions(creds, env === "testnet");
+      detected = detectPositionMode(extractList(posRes).filter((p) => Number(p?.size ?? 0) > 0));
+    } catch (err) {
+      console.warn("[position-mode] positions unavailable:", errorMessage(err));
+    }
+    return {
+      mode: normalizePositionMode(record?.mode),
+      updatedAt: record?.updatedAt ?? null,
+      detected,
+    };
+  }
+
+  /**
+   * Switches the venue account and records the mode. The venue refuses the
+   * switch while positions or orders are open (409).
+   */
+  async function apply({ userId, env, venue, creds, mode }) {
+    const normalized = normalizePositionMode(mode);
+    if (!normalized) {
+      return fail(400, `Invalid position mode: ${mode} (expected oneway or hedge)`);
+    }
+    if (typeof venue?.setPositionMode !== "function") {
+      return fail(400, `${venue?.label ?? "Venue"} does not support switching the position mode`);
+    }
+    let res;
+    try {
+      res = await venue.setPositionMode(normalized, creds, env === "testnet");
+    } catch (err) {
+      return fail(502, `Position mode switch failed: ${errorMessage(err)}`);
+    }
+    if (res?.retCode !== 0) {
+      return fail(409, `Position mode switch rejected: ${res?.retMsg ?? "unknown"}`, {
+        code: res?.retCode,
+      });
+    }
+    const record = { mode: normalized, updatedAt: now() };
+    store.set(modeKey(userId, env), record);
+    return { ok: true, result: { ...record } };
+  }
+
+  return { modeOf, status, apply };
+}
+
+let defaultPositionModes = null;
+
+/**
+ * Process-wide store persisting to POSITION_MODE_STATE_FILE.
+ */
+export function getPositionModes() {
+  if (!defaultPositionModes) {
+    defaultPositionModes = createPositionModes({
+      store: createFilePositionModeStore(
+        process.env.POSITION_MODE_STATE_FILE || DEFAULT_POSITION_MODE_FILE
+      ),
+    });
+  }
+  return defaultPositionModes;
+}
@@ -0,0 +1,300 @@
+// ===========================================
+// Protection watchdog
+// ===========================================
+//
+// Server-side counterpart of the dashboard's missing-SL retry loop, running
+// on every persistent aggregator session (session listener onAccount, fed by
+// the private WS position / order events or the REST polls), so positions
+// keep getting a stop loss while no browser tab is open:
+//   - a position leg without a stop loss, or with stop orders covering only
+//     part of its size (assessPositionProtection), is left alone for
+//     `graceMs` so the entry path can attach its own SL; the watchdog is
+//     the only server component that repairs stop losses
+//   - then it gets a fallback SL (resolveFallbackStopLoss: minimum distance
+//     from the entry and the engine's ATR, behind the mark price, on the
+//     instrument tick) through the venue's setTradingStop, retried every
+//     `retryIntervalMs`
+//   - the first failed attempt and every `escalateEvery`-th after it are sent
+//     as ERROR notifications; with `flattenAfter` > 0 the leg is closed with a
+//     reduce-only market order after that many failures (AUTO_CLOSE)
+// State is per process; GET /api/:env/protection-watchdog shows it.
+
+import { getInstrumentInfo } from "./instrumentCache.js";
+import { getNotifier } from "./notifications.js";
+import { submitOrder as submitVenueOrder } from "./orderService.js";
+import {
+  assessPositionProtection,
+  resolveFallbackStopLoss,
+} from "../src/engine/executionPolicy.js";
+import { positionLegKey, positionLegSide } from "../src/engine/positionMode.js";
+
+export const DEFAULT_PROTECTION_WATCHDOG_SETTINGS = {
+  graceMs: 10_000,
+  retryIntervalMs: 15_000,
+  escalateEvery: 5,
+  // 0 keeps retrying without ever closing the position.
+  flattenAfter: 0,
+};
+const MAX_EVENTS = 100;
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+function errorMessage(err) {
+  return err?.response?.data?.retMsg || err?.message || String(err ?? "unknown_error");
+}
+
+function sessionKey(userId, env) {
+  return `${env}:${userId}`;
+}
+
+/**
+ * Watchdog settings from PROTECTION_WATCHDOG_GRACE_MS, _RETRY_MS,
+ * _ESCALATE_EVERY and _FLATTEN_AFTER; invalid values keep the defaults.
+ */
+export function resolveProtectionWatchdogSettings(env = process.env) {
+  const read = (name, fallback, min) => {
+    const n = Number(env[name]);
+    return env[name] != null && env[name] !== "" && Number.isFinite(n) && n >= min
+      ? Math.floor(n)
+      : fallback;
+  };
+  const defaults = DEFAULT_PROTECTION_WATCHDOG_SETTINGS;
+  return {
+    graceMs: read("PROTECTION_WATCHDOG_GRACE_MS", defaults.graceMs, 0),
+    retryIntervalMs: read("PROTECTION_WATCHDOG_RETRY_MS", defaults.retryIntervalMs, 1_000),
+    escalateEvery: read("PROTECTION_WATCHDOG_ESCALATE_EVERY", defaults.escalateEvery, 1),
+    flattenAfter: read("PROTECTION_WATCHDOG_FLATTEN_AFTER", defaults.flattenAfter, 0),
+  };
+}
+
+export function createProtectionWatchdog({
+  settings = DEFAULT_PROTECTION_WATCHDOG_SETTINGS,
+  getInstrument = ({ venue, symbol, useTestnet }) =>
+    (venue.getInstrumentInfo ?? getInstrumentInfo)(symbol, useTestnet),
+  submitOrder = submitVenueOrder,
+  notify = () => {},
+  now = Date.now,
+} = {}) {
+  const config = { ...DEFAULT_PROTECTION_WATCHDOG_SETTINGS, ...settings };
+  const bySession = new Map();
+  const inflight = new Set();
+
+  function stateOf(key) {
+    let state = bySession.get(key);
+    if (!state) {
+      state = { legs: new Map(), events: [] };
+      bySession.set(key, state);
+    }
+    return state;
+  }
+
+  function record(session, state, type, leg, message) {
+    state.events = [
+      { at: now(), type, symbol: leg.symbol, side: leg.side, message },
+      ...state.events,
+    ].slice(0, MAX_EVENTS);
+    if (type === "ATTACHED") return;
+    Promise.resolve(
+      notify(session.userId, {
+        type,
+        env: session.env,
+        symbol: leg.symbol,
+        side: leg.side,
+        message,
+      })
+    ).catch(() => {});
+  }
+
+  async function resolveStop(session, position, side) {
+    let tickSize = Number.NaN;
+    try {
+      const instrument = await getInstrument({
+        venue: session.venue,
+        symbol: position.symbol,
+        useTestnet: session.useTestnet,
+      });
+      tickSize = toNumber(instrument?.tickSize);
+    } catch (err) {
+      console.warn(`[protection] ${position.symbol} instrument unavailable:`, errorMessage(err));
+    }
+    const atr = toNumber(
+      session.engine?.decisions?.get?.(position.symbol)?.decision?.coreV2?.atr14
+    );
+    return resolveFallbackStopLoss({
+      entry: toNumber(position.avgPrice ?? position.entryPrice),
+      side,
+      atr,
+      markPrice: toNumber(position.markPrice),
+      tickSize,
+    });
+  }
+
+  async function flatten(session, state, leg, position) {
+    leg.flattened = true;
+    const res = await submitOrder({
+      userId: session.userId,
+      env: session.env,
+      venue: session.venue,
+      creds: session.creds,
+      body: {
+        symbol: leg.symbol,
+        side: leg.side === "Buy" ? "Sell" : "Buy",
+        qty: position.size ?? position.qty,
+        orderType: "Market",
+        reduceOnly: true,
+        positionIdx: position.positionIdx,
+      },
+    }).catch((err) => ({ ok: false, error: errorMessage(err) }));
+    if (res?.ok) {
+      record(
+        session,
+        state,
+        "AUTO_CLOSE",
+        leg,
+        `${leg.symbol} ${leg.side} closed: no stop loss after ${leg.failures} attempts`
+      );
+      return;
+    }
+    leg.flattened = false;
+    record(session, state, "ERROR", leg, `${leg.symbol} ${leg.side} flatten failed: ${res?.error ?? "unknown"}`);
+  }
+
+  async function protect(session, state, leg, position) {
+    const ts = now();
+    leg.attempts += 1;
+    leg.lastAttemptAt = ts;
+    const sl = await resolveStop(session, position, leg.side);
+    let error = null;
+    if (!Number.isFinite(sl)) {
+      error = "no entry price for a fallback stop loss";
+    } else {
+      try {
+        const res = await session.venue.setTradingStop(
+          { symbol: leg.symbol, sl, positionIdx: position.positionIdx },
+          session.creds,
+          session.useTestnet
+        );
+        if (res?.retCode !== 0) error = res?.retMsg ?? `retCode ${res?.retCode}`;
+      } catch (err) {
+        error = errorMessage(err);
+      }
+    }
+    if (!error) {
+      leg.lastSl = sl;
+      leg.lastError = null;
+      record(session, state, "ATTACHED", leg, `${leg.symbol} ${leg.side} fallback SL attached at ${sl}`);
+      return;
+    }
+    leg.failures += 1;
+    leg.lastError = error;
+    if (config.flattenAfter > 0 && leg.failures >= config.flattenAfter) {
+      await flatten(session, state, leg, position);
+      return;
+    }
+    if (leg.failures === 1 || (leg.failures - 1) % config.escalateEvery === 0) {
+      record(
+        session,
+        state,
+        "ERROR",
+        leg,
+        `${leg.symbol} ${leg.side} stop loss attach failed (${leg.failures}x): ${error}`
+      );
+    }
+  }
+
+  /**
+   * Session listener: checks every open leg after an account update and
+   * protects the ones past the grace period.
+   */
+  async function onAccount(session) {
+    if (!session?.userId || !session.snapshot?.positions || !session.venue?.setTradingStop) return;
+    const key = sessionKey(session.userId, session.env);
+    const state = stateOf(key);
+    const ts = now();
+    const orders = extractList(session.snapshot.orders);
+    const positions = extractList(session.snapshot.positions).filter(
+      (p) => p?.symbol && toNumber(p.size ?? p.qty) > 0
+    );
+    const open = new Set();
+    const due = [];
+    for (const position of positions) {
+      const legKey = positionLegKey(position);
+      open.add(legKey);
+      const assessment = assessPositionProtection(position, orders);
+      if (assessment.status === "protected") {
+        state.legs.delete(legKey);
+        continue;
+      }
+      let leg = state.legs.get(legKey);
+      if (!leg) {
+        leg = {
+          symbol: String(position.symbol).toUpperCase(),
+          side: positionLegSide(position) ?? "Buy",
+          positionIdx: position.positionIdx,
+          since: ts,
+          attempts: 0,
+          failures: 0,
+          lastAttemptAt: 0,
+          lastSl: null,
+          lastError: null,
+          flattened: false,
+        };
+        state.legs.set(legKey, leg);
+      }
+      leg.status = assessment.status;
+      leg.coveredQty = assessment.coveredQty;
+      leg.size = assessment.size;
+      if (leg.flattened || ts - leg.since < config.graceMs) continue;
+      if (leg.attempts && ts - leg.lastAttemptAt < config.retryIntervalMs) continue;
+      const flightKey = `${key}:${legKey}`;
+      if (inflight.has(flightKey)) continue;
+      due.push({ leg, position, flightKey });
+    }
+    for (const legKey of state.legs.keys()) {
+      if (!open.has(legKey)) state.legs.delete(legKey);
+    }
+    for (const { leg, position, flightKey } of due) {
+      inflight.add(flightKey);
+      try {
+        await protect(session, state, leg, position);
+      } finally {
+        inflight.delete(flightKey);
+      }
+    }
+  }
+
+  function getStatus(userId, env) {
+    const state = bySession.get(sessionKey(userId, env));
+    return {
+      settings: { ...config },
+      legs: state
+        ? Array.from(state.legs.values()).map((leg) => ({ ...leg }))
+        : [],
+      events: state ? state.events.slice() : [],
+    };
+  }
+
+  return { onAccount, getStatus };
+}
+
+let defaultProtectionWatchdog = null;
+
+/**
+ * Process-wide watchdog configured from the PROTECTION_WATCHDOG_* variables.
+ */
+export function getProtectionWatchdog() {
+  if (!defaultProtectionWatchdog) {
+    defaultProtectionWatchdog = createProtectionWatchdog({
+      settings: resolveProtectionWatchdogSettings(),
+      notify: (userId, event) => getNotifier().notify(userId, event),
+    });
+  }
+  return defaultProtectionWatchdog;
+}
@@ -1,10 +1,25 @@
 import {
+    cancelOrder,
+    createDemoOrder,
     getDemoPositions,
     listDemoOpenOrders,
     listDemoTrades,
+    setTradingStop,
     getWalletBalance
 } from "./bybitClient.js"; // Reuse existing helpers
 import { getInstrumentInfo } from "./instrumentCache.js";
+import {
+    diffTpLadder,
+    parseTpLadderLinkId,
+    planTpLadderLegs,
+    tpLadderProgress
+} from "../src/engine/tpLadder.js";
+import { resolveFallbackStopLoss } from "../src/engine/executionPolicy.js";
+import {
+    isHedgePositionIdx,
+    positionLegKey,
+    positionLegSide
+} from "../src/engine/positionMode.js";
 
 /**
  * Normalizes Bybit Position into application ActivePosition format.
@@ -34,9 +49,13 @@ function normalizePosition(bPos, orders, instrument) {
         return Number.isFinite(n) ? n : 0;
     };
     const orderList = Array.isArray(orders) ? orders : [];
+    // Hedge legs only own the exits addressed to their positionIdx.
+    const positionIdx = Number(bPos.positionIdx) || 0;
+    const hedgeLeg = isHedgePositionIdx(positionIdx);
     const reduceOnlyOrders = orderList.filter((o) => {
         if (o.symbol !== bPos.symbol) return false;
         if (String(o.side || "").toLowerCase() !== oppSide) return false;
+        if (hedgeLeg && Number(o.positionIdx) !== positionIdx) return false;
         const ro = o.reduceOnly ?? o.reduce_only ?? o.reduce;
         return ro === true || ro === "true";
     });
@@ -90,14 +109,17 @@ function normalizePosition(bPos, orders, instrument) {
         tp = pickPrice(limitOrders, dir) || 0;
     }
 
-    // Synthesize ID
-    const positionId = `${bPos.symbol}-${bPos.createdTime || Date.now()}`;
+    // Synthesize ID (one per leg in hedge mode)
+    const positionId = hedgeLeg
+        ? `${bPos.symbol}-${positionLegSide(bPos)}-${bPos.createdTime || Date.now()}`
+        : `${bPos.symbol}-${bPos.createdTime || Date.now()}`;
 
     return {
         id: positionId,
         positionId: positionId, // Duplicate for type compat
         symbol: bPos.symbol,
         side,
+        positionIdx,
         qty: size,
         size: size, // Duplicate
         entryPrice,
@@ -116,55 +138,552 @@ function normalizePosition(bPos, orders, instrument) {
     };
 }
 
-export async function reconcileState(creds, useTestnet = true) {
+const WORKING_ORDER_STATUSES = new Set(["created", "new", "untriggered", "partiallyfilled"]);
+const STOP_ORDER_TYPES = new Set(["stoploss", "partialstoploss", "stop", "trailingstop"]);
+export const DEFAULT_ENTRY_ORDER_TTL_MS = 10 * 60_000;
+export const RECONCILE_REPAIR_MODES = ["dry-run", "auto"];
+const QTY_EPSILON = 1e-9;
+
+function isWorkingOrder(o) {
+    const key = String(o.orderStatus || "").toLowerCase().replace(/[^a-z]/g, "");
+    return WORKING_ORDER_STATUSES.has(key);
+}
+
+function isExitOrder(o) {
+    const flag = (value) => value === true || value === "true";
+    return flag(o.reduceOnly ?? o.reduce_only) || flag(o.closeOnTrigger);
+}
+
+function isStopOrder(o) {
+    if (STOP_ORDER_TYPES.has(String(o.stopOrderType || "").toLowerCase())) return true;
+    return !o.stopOrderType && parseFloat(o.triggerPrice) > 0;
+}
+
+function openQty(o) {
+    const leaves = parseFloat(o.leavesQty);
+    if (Number.isFinite(leaves)) return leaves;
+    return (parseFloat(o.qty) || 0) - (parseFloat(o.cumExecQty) || 0);
+}
+
+function orderTs(o) {
+    const ts = Number(o.createdTime ?? o.updatedTime);
+    return Number.isFinite(ts) ? ts : 0;
+}
+
+function orderRef(o) {
+    return {
+        symbol: o.symbol,
+        ...(o.orderId ? { orderId: String(o.orderId) } : {}),
+        ...(o.orderLinkId ? { orderLinkId: String(o.orderLinkId) } : {})
+    };
+}
+
+function orderLabel(o) {
+    return o.orderLinkId || o.orderId || "?";
+}
+
+/** Whether a reduce-only order closes the given open position leg. */
+function orderClosesLeg(o, bPos) {
+    if (o.symbol !== bPos.symbol) return false;
+    const legSide = positionLegSide(bPos);
+    if (!legSide || String(o.side || "") === legSide) return false;
+    const idx = Number(bPos.positionIdx) || 0;
+    return !isHedgePositionIdx(idx) || Number(o.positionIdx) === idx;
+}
+
+/**
+ * Compares the working legs of a take-profit ladder (server/tpLadders.js)
+ * with the legs its plan wants for the position.
+ */
+function detectLadderDiffs(ladder, bPos, orders) {
+    const ladderOrders = orders.filter((o) =>
+        o.symbol === ladder.symbol &&
+        isWorkingOrder(o) &&
+        parseTpLadderLinkId(o.orderLinkId)?.ladderId === ladder.id
+    );
+    const legs = planTpLadderLegs({
+        levels: ladder.levels,
+        progress: tpLadderProgress({ levels: ladder.levels, done: ladder.done, orders: ladderOrders }),
+        size: parseFloat(bPos.size),
+        ...(ladder.instrument || {})
+    });
+    const { place, cancel } = diffTpLadder(legs, ladderOrders);
+    const repair = { action: "SYNC_LADDER", symbol: ladder.symbol, positionIdx: ladder.positionIdx || 0 };
+    const diffs = [];
+    for (const leg of place) {
+        diffs.push({
+            type: "PARAM_MISMATCH",
+            code: "LADDER_DRIFT",
+            symbol: ladder.symbol,
+            message: `Take-profit ladder level ${leg.level + 1} missing (${leg.qty} @ ${leg.price})`,
+            severity: "MEDIUM",
+            field: "takeProfits",
+            value: leg.price,
+            repair
+        });
+    }
+    for (const order of cancel) {
+        diffs.push({
+            type: "PARAM_MISMATCH",
+            code: "LADDER_DRIFT",
+            symbol: ladder.symbol,
+            message: `Take-profit ladder order ${order.orderLinkId} does not match the plan`,
+            severity: "MEDIUM",
+            field: "takeProfits",
+            value: parseFloat(order.price) || 0,
+            repair
+        });
+    }
+    return diffs;
+}
+
+/**
+ * Exit orders of one kind (stops, or take-profit limits) sized above the
+ * open position, e.g. after a partial entry fill or a partial close. The
+ * oldest orders keep their size; the order crossing the position size is
+ * resized to the remainder and the rest are cancelled. Ladder legs are left
+ * to their ladder.
+ */
+function detectExitQtyDiffs(bPos, exits, { partialFill }) {
+    const size = parseFloat(bPos.size) || 0;
+    const total = exits.reduce((sum, o) => sum + openQty(o), 0);
+    if (total <= size + QTY_EPSILON) return [];
+    const diffs = [];
+    let left = size;
+    for (const o of [...exits].sort((a, b) => orderTs(a) - orderTs(b))) {
+        const qty = openQty(o);
+        if (qty <= left + QTY_EPSILON) {
+            left -= qty;
+            continue;
+        }
+        const resized = Number(Math.max(0, left).toFixed(10));
+        left = 0;
+        diffs.push({
+            type: "ORDER_MISMATCH",
+            code: "QTY_MISMATCH",
+            symbol: bPos.symbol,
+            message:
+                `Exit order ${orderLabel(o)} covers ${qty} of a ${size} position` +
+                (partialFill ? ` (entry filled ${partialFill.filled} of ${partialFill.qty})` : ""),
+            severity: "MEDIUM",
+            field: "qty",
+            value: qty,
+            repair: resized > 0
+                ? { action: "RESIZE_ORDER", ...orderRef(o), qty: resized, order: o }
+                : { action: "CANCEL_ORDER", ...orderRef(o) }
+        });
+    }
+    return diffs;
+}
+
+/** Stop orders of a leg sharing a trigger price; all but the oldest are extra. */
+function detectDuplicateStops(bPos, stops, hasPositionStop) {
+    const diffs = [];
+    const seen = new Map();
+    for (const o of [...stops].sort((a, b) => orderTs(a) - orderTs(b))) {
+        const trigger = parseFloat(o.triggerPrice) || 0;
+        const key = trigger.toFixed(10);
+        if (!seen.has(key)) {
+            seen.set(key, o);
+            // A Full-mode position stop at the same price already covers the leg.
+            if (!hasPositionStop || Math.abs((parseFloat(bPos.stopLoss) || 0) - trigger) > QTY_EPSILON) {
+                continue;
+            }
+        }
+        diffs.push({
+            type: "ORDER_MISMATCH",
+            code: "DUPLICATE_PROTECTION",
+            symbol: bPos.symbol,
+            message: `Duplicate stop order ${orderLabel(o)} @ ${trigger}`,
+            severity: "LOW",
+            field: "sl",
+            value: trigger,
+            repair: { action: "CANCEL_ORDER", ...orderRef(o) }
+        });
+    }
+    return diffs;
+}
+
+/** The most recent intended entry (journal OPEN entry) for a position leg. */
+function intentForLeg(intents, bPos) {
+    const legSide = positionLegSide(bPos);
+    return intents
+        .filter((i) => String(i.symbol || "").toUpperCase() === bPos.symbol && i.side === legSide)
+        .sort((a, b) => Date.parse(b.openedAt || 0) - Date.parse(a.openedAt || 0))[0] ?? null;
+}
+
+/** The journal entry that placed a working order, matched by order id or orderLinkId. */
+function intentForOrder(intents, o) {
+    return intents.find((i) =>
+        (i.orderId && String(o.orderId || "") === String(i.orderId)) ||
+        (i.orderLinkId && String(o.orderLinkId || "") === String(i.orderLinkId))
+    ) ?? null;
+}
+
+function filledQtyOf(intent, executions) {
+    return executions
+        .filter((e) =>
+            (intent.orderId && String(e.orderId || "") === String(intent.orderId)) ||
+            (intent.orderLinkId && String(e.orderLinkId || "") === String(intent.orderLinkId))
+        )
+        .reduce((sum, e) => sum + (parseFloat(e.execQty) || 0), 0);
+}
+
+/**
+ * Stop loss a repair sets on a leg: the intended SL when it is still on the
+ * protective side of the mark, the fallback SL otherwise.
+ */
+function repairStopFor(bPos, intent) {
+    const mark = parseFloat(bPos.markPrice) || parseFloat(bPos.avgPrice) || 0;
+    const isBuy = positionLegSide(bPos) === "Buy";
+    const planned = parseFloat(intent?.sl) || 0;
+    if (planned > 0 && (!mark || (isBuy ? planned < mark : planned > mark))) {
+        return { sl: planned, source: "intent" };
+    }
+    return { sl: null, source: "fallback" };
+}
+
+const BYBIT_RECONCILE_CLIENT = {
+    getDemoPositions,
+    listDemoOpenOrders,
+    listExecutions: listDemoTrades,
+    cancelOrder,
+    createDemoOrder,
+    setTradingStop
+};
+
+async function fetchList(call) {
+    const res = await call();
+    return res?.result?.list || [];
+}
+
+async function runRepair(client, creds, useTestnet, diff, { syncLadder, fallbackStop }) {
+    const { action } = diff.repair;
+    if (action === "CANCEL_ORDER") {
+        const { symbol, orderId, orderLinkId } = diff.repair;
+        return client.cancelOrder({ symbol, orderId, orderLinkId }, creds, useTestnet);
+    }
+    if (action === "RESIZE_ORDER") {
+        const { symbol, orderId, orderLinkId, qty, order } = diff.repair;
+        const cancelled = await client.cancelOrder({ symbol, orderId, orderLinkId }, creds, useTestnet);
+        if (cancelled?.retCode !== 0) return cancelled;
+        return client.createDemoOrder({
+            symbol,
+            side: order.side,
+            qty,
+            orderType: order.orderType,
+            price: parseFloat(order.price) || undefined,
+            triggerPrice: parseFloat(order.triggerPrice) || undefined,
+            triggerDirection: order.triggerDirection,
+            timeInForce: order.timeInForce,
+            reduceOnly: true,
+            positionIdx: order.positionIdx
+        }, creds, useTestnet);
+    }
+    if (action === "SET_STOP") {
+        const { symbol, positionIdx, trailingStop, activePrice } = diff.repair;
+        const sl = diff.repair.sl ?? await fallbackStop(diff.position);
+        if (diff.repair.field !== "trailingStop" && !(sl > 0)) {
+            return { retCode: -1, retMsg: "no stop loss to set" };
+        }
+        return client.setTradingStop(
+            diff.repair.field === "trailingStop"
+                ? { symbol, positionIdx, trailingStop, activePrice }
+                : { symbol, positionIdx, sl },
+            creds,
+            useTestnet
+        );
+    }
+    if (action === "SYNC_LADDER") {
+        if (!syncLadder) return { retCode: -1, retMsg: "ladder sync unavailable" };
+        await syncLadder({ symbol: diff.repair.symbol, positionIdx: diff.repair.positionIdx });
+        return { retCode: 0 };
+    }
+    return { retCode: -1, retMsg: `unknown repair ${action}` };
+}
+
+/**
+ * Diffs the bot's intended state against the venue and optionally repairs it.
+ *
+ * `client` defaults to the Bybit REST helpers; the paper venue and the other
+ * adapters pass themselves. Intended state: `ladders` (registered take-profit
+ * ladders) and `intents` (OPEN trade journal entries: side, sl, qty,
+ * trailingStop, expiresAt, order ids). Every diff carries a `code` and a
+ * `repair` action (CANCEL_ORDER, RESIZE_ORDER, SET_STOP, SYNC_LADDER, NONE):
+ *   - MISSING_SL / SL_WRONG_SIDE: position stop absent or already crossed
+ *   - TRAILING_MISSING: the entry asked for a trailing stop the leg lacks
+ *   - LADDER_DRIFT / ORPHAN_ORDER: ladder legs off plan, reduce-only
+ *     orders without a position (or without their ladder)
+ *   - STALE_ENTRY: the bot's entry orders resting past their intent's
+ *     `expiresAt` (or `entryOrderTtlMs` without one); entries the bot did
+ *     not place are only reported (repair action NONE) past the TTL
+ *   - QTY_MISMATCH: exit orders sized above the position
+ *   - DUPLICATE_PROTECTION: several stops at one trigger price
+ * With `repair: "auto"` the actions run in order (`syncLadder` re-syncs a
+ * ladder, `getInstrument` gives the tick for fallback stops) and each diff
+ * gets `repaired: { ok, error }`; "dry-run" only lists them.
+ */
+export async function reconcileState(
+    creds,
+    useTestnet = true,
+    client = BYBIT_RECONCILE_CLIENT,
+    {
+        ladders = [],
+        intents = [],
+        repair = "dry-run",
+        syncLadder = null,
+        entryOrderTtlMs = DEFAULT_ENTRY_ORDER_TTL_MS,
+        getInstrument = (symbol) => (client.getInstrumentInfo ?? getInstrumentInfo)(symbol, useTestnet),
+        now = Date.now
+    } = {}
+) {
+    const envLabel = client.env ?? (useTestnet ? "testnet" : "mainnet");
+    const ts = now();
+    const mode = RECONCILE_REPAIR_MODES.includes(repair) ? repair : "dry-run";
     const result = {
         positions: [],
         orders: [],
         diffs: [],
         meta: {
-            ts: Date.now(),
-            env: useTestnet ? "testnet" : "mainnet"
+            ts,
+            env: envLabel,
+            repair: mode
         }
     };
 
     try {
-        // 1. Fetch positions first; orders only when an active position exists.
-        const posRes = await getDemoPositions(creds, useTestnet);
-        const bybitPositions = posRes?.result?.list || [];
-        const hasActivePosition = bybitPositions.some(
-            (bPos) => parseFloat(String(bPos?.size ?? 0)) > 0
-        );
-        const bybitOrders = hasActivePosition
-            ? (await listDemoOpenOrders(creds, { limit: 50 }, useTestnet))?.result?.list || []
-            : [];
+        // 1. Venue state: positions, working orders, recent executions.
+        const [bybitPositions, bybitOrders, executions] = await Promise.all([
+            fetchList(() => client.getDemoPositions(creds, useTestnet)),
+            fetchList(() => client.listDemoOpenOrders(creds, { limit: 50 }, useTestnet)),
+            client.listExecutions
+                ? fetchList(() => client.listExecutions(creds, { limit: 50 }, useTestnet)).catch(() => [])
+                : []
+        ]);
+        const openPositions = bybitPositions.filter((bPos) => parseFloat(bPos.size) > 0);
+        const workingOrders = bybitOrders.filter(isWorkingOrder);
+        const ladderIds = new Set(ladders.map((l) => l.id));
+        const isLadderOrder = (o) => Boolean(parseTpLadderLinkId(o.orderLinkId));
 
         // 2. Normalize Positions
         const activePositions = [];
 
-        for (const bPos of bybitPositions) {
-            if (parseFloat(bPos.size) <= 0) continue; // Ignore zero size
-
+        for (const bPos of openPositions) {
             const norm = normalizePosition(bPos, bybitOrders, null);
-            norm.env = useTestnet ? "testnet" : "mainnet";
+            norm.env = envLabel;
             activePositions.push(norm);
 
-            // 3. Intrinsic Consistency Detectors
+            // 3. Intrinsic Consistency Detectors (per leg in hedge mode)
+            const leg = isHedgePositionIdx(norm.positionIdx)
+                ? { positionIdx: norm.positionIdx, side: positionLegSide(bPos) }
+                : null;
+            const legLabel = leg ? `${leg.side === "Buy" ? "Long" : "Short"} leg` : "Position";
+            const intent = intentForLeg(intents, bPos);
+            const stopRepair = (planned) => ({
+                action: "SET_STOP",
+                symbol: norm.symbol,
+                positionIdx: norm.positionIdx,
+                sl: planned.sl,
+                source: planned.source
+            });
+            const positionStop = parseFloat(bPos.stopLoss) || 0;
+            const mark = parseFloat(bPos.markPrice) || 0;
             // A) Missing SL
             if (norm.sl <= 0) {
                 result.diffs.push({
                     type: "PARAM_MISMATCH",
+                    code: "MISSING_SL",
+                    symbol: norm.symbol,
+                    ...(leg ?? {}),
+                    message: `${legLabel} has no Stop Loss`,
+                    severity: "HIGH",
+                    field: "sl",
+                    value: 0,
+                    repair: stopRepair(repairStopFor(bPos, intent))
+                });
+            } else if (
+                positionStop > 0 &&
+                mark > 0 &&
+                (positionLegSide(bPos) === "Buy" ? positionStop >= mark : positionStop <= mark)
+            ) {
+                // B) Stop loss already on the wrong side of the mark
+                result.diffs.push({
+                    type: "PARAM_MISMATCH",
+                    code: "SL_WRONG_SIDE",
                     symbol: norm.symbol,
-                    message: "Position has no Stop Loss",
+                    ...(leg ?? {}),
+                    message: `${legLabel} Stop Loss ${positionStop} is on the wrong side of mark ${mark}`,
                     severity: "HIGH",
                     field: "sl",
-                    value: 0
+                    value: positionStop,
+                    repair: stopRepair(repairStopFor(bPos, intent))
+                });
+            }
+
+            // C) Trailing stop the entry asked for
+            const plannedTrail = parseFloat(intent?.trailingStop) || 0;
+            if (plannedTrail > 0 && !(parseFloat(bPos.trailingStop) > 0)) {
+                result.diffs.push({
+                    type: "PARAM_MISMATCH",
+                    code: "TRAILING_MISSING",
+                    symbol: norm.symbol,
+                    ...(leg ?? {}),
+                    message: `${legLabel} has no trailing stop (planned ${plannedTrail})`,
+                    severity: "MEDIUM",
+                    field: "trailingStop",
+                    value: 0,
+                    repair: {
+                        action: "SET_STOP",
+                        field: "trailingStop",
+                        symbol: norm.symbol,
+                        positionIdx: norm.positionIdx,
+                        trailingStop: plannedTrail,
+                        activePrice: parseFloat(intent.trailingActivePrice) || undefined
+                    }
+                });
+            }
+
+            // D) Take-profit ladder legs out of line with the position
+            const ladder = ladders.find((l) =>
+                l.symbol === norm.symbol &&
+                (!l.positionIdx || l.positionIdx === norm.positionIdx)
+            );
+            if (ladder) {
+                result.diffs.push(...detectLadderDiffs(ladder, bPos, bybitOrders));
+            }
+
+            // E) Exit orders: oversized after partial fills, duplicate stops
+            const exits = workingOrders.filter((o) =>
+                isExitOrder(o) && !isLadderOrder(o) && orderClosesLeg(o, bPos)
+            );
+            const filled = intent ? filledQtyOf(intent, executions) : 0;
+            const partialFill = intent && filled > 0 && filled + QTY_EPSILON < (parseFloat(intent.qty) || 0)
+                ? { filled, qty: parseFloat(intent.qty) }
+                : null;
+            const stops = exits.filter(isStopOrder);
+            const duplicates = detectDuplicateStops(bPos, stops, positionStop > 0);
+            const extra = new Set(duplicates.map((d) => d.repair.orderId ?? d.repair.orderLinkId));
+            const orderKey = (o) => String(o.orderId || o.orderLinkId);
+            result.diffs.push(
+                ...duplicates,
+                ...detectExitQtyDiffs(
+                    bPos,
+                    stops.filter((o) => !extra.has(orderKey(o))),
+                    { partialFill }
+                ),
+                ...detectExitQtyDiffs(bPos, exits.filter((o) => !isStopOrder(o)), { partialFill })
+            );
+        }
+
+        // F) Orders with nothing to manage
+        for (const o of workingOrders) {
+            const parsed = parseTpLadderLinkId(o.orderLinkId);
+            if (parsed && !ladderIds.has(parsed.ladderId)) {
+                result.diffs.push({
+                    type: "PARAM_MISMATCH",
+                    code: "ORPHAN_ORDER",
+                    symbol: o.symbol,
+                    message: `Orphan take-profit ladder order ${o.orderLinkId}`,
+                    severity: "LOW",
+                    field: "takeProfits",
+                    value: parseFloat(o.price) || 0,
+                    repair: { action: "CANCEL_ORDER", ...orderRef(o) }
+                });
+                continue;
+            }
+            if (isExitOrder(o)) {
+                if (openPositions.some((bPos) => orderClosesLeg(o, bPos))) continue;
+                result.diffs.push({
+                    type: "ORDER_MISMATCH",
+                    code: "ORPHAN_ORDER",
+                    symbol: o.symbol,
+                    message: `Reduce-only order ${orderLabel(o)} has no position`,
+                    severity: "MEDIUM",
+                    field: "orders",
+                    value: openQty(o),
+                    repair: { action: "CANCEL_ORDER", ...orderRef(o) }
                 });
+                continue;
             }
+            const created = orderTs(o);
+            if (parsed || !created) continue;
+            // Only the bot's own entries are cancelled; a manual order is the
+            // user's decision however long it rests.
+            const owner = intentForOrder(intents, o);
+            const expiresAt = Date.parse(owner?.expiresAt ?? "") || created + entryOrderTtlMs;
+            if (ts <= expiresAt) continue;
+            const cum = parseFloat(o.cumExecQty) || 0;
+            result.diffs.push({
+                type: "ORDER_MISMATCH",
+                code: "STALE_ENTRY",
+                symbol: o.symbol,
+                message:
+                    `Entry order ${orderLabel(o)} open for ${Math.round((ts - created) / 60_000)} min` +
+                    (cum > 0 ? ` (filled ${cum} of ${parseFloat(o.qty) || 0})` : "") +
+                    (owner ? "" : " (not placed by the bot)"),
+                severity: owner ? "MEDIUM" : "LOW",
+                field: "orders",
+                value: openQty(o),
+                repair: owner ? { action: "CANCEL_ORDER", ...orderRef(o) } : { action: "NONE" }
+            });
         }
 
         result.positions = activePositions;
         result.orders = bybitOrders; // Raw orders for UI to process if needed
 
+        if (mode === "auto") {
+            const positionFor = new Map(openPositions.map((bPos) => [positionLegKey(bPos), bPos]));
+            const fallbackStop = async (bPos) => {
+                let tickSize = 0;
+                try {
+                    const instrument = await getInstrument(bPos.symbol);
+                    tickSize = Number(instrument?.tickSize ?? 0);
+                } catch (err) {
+                    console.warn(`[Reconcile] ${bPos.symbol} instrument unavailable: ${err.message}`);
+                }
+                return resolveFallbackStopLoss({
+                    entry: parseFloat(bPos.avgPrice),
+                    side: positionLegSide(bPos),
+                    markPrice: parseFloat(bPos.markPrice),
+                    tickSize
+                });
+            };
+            const done = new Set();
+            for (const diff of result.diffs) {
+                if (diff.repair.action === "NONE") continue;
+                // Ladder diffs of one ladder share a single sync.
+                const key = diff.repair.action === "SYNC_LADDER"
+                    ? `ladder:${diff.repair.symbol}:${diff.repair.positionIdx}`
+                    : null;
+                if (key && done.has(key)) {
+                    diff.repaired = { ok: true };
+                    continue;
+                }
+                if (key) done.add(key);
+                const legKey = positionLegKey({
+                    symbol: diff.symbol,
+                    side: diff.side,
+                    positionIdx: diff.positionIdx
+                });
+                const position = positionFor.get(legKey)
+                    ?? openPositions.find((bPos) => bPos.symbol === diff.symbol);
+                try {
+                    const res = await runRepair(
+                        client,
+                        creds,
+                        useTestnet,
+                        { ...diff, position },
+                        { syncLadder, fallbackStop }
+                    );
+                    diff.repaired = res?.retCode === 0
+                        ? { ok: true }
+                        : { ok: false, error: res?.retMsg ?? `retCode ${res?.retCode}` };
+                } catch (err) {
+                    diff.repaired = { ok: false, error: err?.message || String(err) };
+                }
+            }
+        }
+
     } catch (err) {
         console.error(`[Reconcile] Error: ${err.message}`);
         // Return empty state or throw? 
@@ -0,0 +1,433 @@
+// ===========================================
+// Server-side portfolio risk manager
+// ===========================================
+//
+// Sits in front of POST /api/:env/order. Per user and env it follows equity,
+// realized PnL of the current UTC trading day and unrealized PnL of the open
+// positions (fed by the persistent aggregator polls, or read from the venue
+// when no session is running) and blocks new non-reduceOnly orders when:
+//   - the daily loss limit is hit            -> RISK_HALT (DAILY_LOSS)
+//   - the drawdown from equityPeak is hit    -> RISK_HALT (MAX_DRAWDOWN)
+//   - the order would push open risk over the cap (rejected, no halt)
+//   - equity or the order price is unknown (NO_EQUITY / NO_PRICE, rejected)
+// Daily PnL counts from the day's first reading, so unrealized PnL of legs
+// carried over the day roll stays with the day it arose in.
+// A halt stays until the next trading day or a manual reset. Halts and the
+// day/peak baselines are kept in a JSON file (RISK_STATE_FILE, default
+// server/.data/risk-state.json) so a server restart does not lift them.
+// New halts are also sent as RISK_HALT user notifications.
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { getNotifier } from "./notifications.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_RISK_FILE = path.resolve(__dirname, ".data/risk-state.json");
+const DAY_MS = 24 * 60 * 60_000;
+const MAX_EVENTS = 50;
+const CLOSED_PNL_FETCH_LIMIT = 200;
+
+export const RISK_HALT_REASONS = ["DAILY_LOSS", "MAX_DRAWDOWN"];
+
+export const DEFAULT_RISK_LIMITS = {
+  // Absolute USDT loss per trading day (0 = off).
+  maxDailyLoss: 0,
+  // Daily loss as % of the equity at the start of the trading day.
+  maxDailyLossPct: 5,
+  // Drawdown from equityPeak in %.
+  maxDrawdownPct: 20,
+  // Sum of open position risk (entry -> stop) incl. the new order, % of equity.
+  maxOpenRiskPct: 10,
+};
+
+function toNum(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toTs(value) {
+  const n = toNum(value);
+  if (n == null) return null;
+  return n < 1e11 ? n * 1000 : n;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+function round(value, digits = 4) {
+  return Number.isFinite(value) ? Number(value.toFixed(digits)) : null;
+}
+
+function nonNegative(value, fallback) {
+  const n = toNum(value);
+  return n != null && n >= 0 ? n : fallback;
+}
+
+/**
+ * Limits from an env-like object (RISK_MAX_DAILY_LOSS, RISK_MAX_DAILY_LOSS_PCT,
+ * RISK_MAX_DRAWDOWN_PCT, RISK_MAX_OPEN_RISK_PCT). 0 disables a limit.
+ */
+export function normalizeRiskLimits(source = {}) {
+  return {
+    maxDailyLoss: nonNegative(source.RISK_MAX_DAILY_LOSS, DEFAULT_RISK_LIMITS.maxDailyLoss),
+    maxDailyLossPct: nonNegative(source.RISK_MAX_DAILY_LOSS_PCT, DEFAULT_RISK_LIMITS.maxDailyLossPct),
+    maxDrawdownPct: nonNegative(source.RISK_MAX_DRAWDOWN_PCT, DEFAULT_RISK_LIMITS.maxDrawdownPct),
+    maxOpenRiskPct: nonNegative(source.RISK_MAX_OPEN_RISK_PCT, DEFAULT_RISK_LIMITS.maxOpenRiskPct),
+  };
+}
+
+export function tradingDayOf(ts) {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function dayStartOf(ts) {
+  return Math.floor(ts / DAY_MS) * DAY_MS;
+}
+
+// Loss if the stop is hit; an unprotected leg risks its initial margin.
+function legRisk({ entry, stop, size, leverage }) {
+  if (!(entry > 0) || !(size > 0)) return 0;
+  if (stop > 0) return Math.abs(entry - stop) * size;
+  return (entry * size) / Math.max(1, leverage || 1);
+}
+
+/**
+ * Reduces wallet/positions/closed-PnL responses (Bybit V5 shape) to the
+ * numbers the risk checks need. Closed PnL counts from the UTC day start.
+ */
+export function summarizeRiskAccount({ wallet, positions, pnl } = {}, { now = Date.now() } = {}) {
+  const account = extractList(wallet)[0] ?? null;
+  const equity = toNum(account?.totalEquity) ?? toNum(account?.totalWalletBalance);
+  let unrealized = 0;
+  let openRisk = 0;
+  for (const p of extractList(positions)) {
+    const size = Math.abs(toNum(p?.size) ?? 0);
+    if (!(size > 0)) continue;
+    unrealized += toNum(p?.unrealisedPnl) ?? 0;
+    openRisk += legRisk({
+      entry: toNum(p?.avgPrice) ?? toNum(p?.entryPrice),
+      stop: toNum(p?.stopLoss),
+      size,
+      leverage: toNum(p?.leverage),
+    });
+  }
+  const dayStart = dayStartOf(now);
+  let realizedToday = 0;
+  for (const row of extractList(pnl)) {
+    const ts = toTs(row?.updatedTime ?? row?.createdTime);
+    if (ts == null || ts < dayStart) continue;
+    realizedToday += toNum(row?.closedPnl) ?? 0;
+  }
+  return {
+    equity,
+    unrealized: round(unrealized),
+    realizedToday: round(realizedToday),
+    openRisk: round(openRisk),
+  };
+}
+
+/**
+ * Reads the account straight from the venue when no aggregator snapshot exists.
+ */
+export async function fetchRiskSnapshot({ venue, creds, useTestnet, now = Date.now() }) {
+  const [wallet, positions, pnl] = await Promise.all([
+    venue.getWalletBalance(creds, useTestnet),
+    venue.getDemoPositions(creds, useTestnet),
+    venue.listClosedPnl(
+      creds,
+      { limit: CLOSED_PNL_FETCH_LIMIT, startTime: dayStartOf(now) },
+      useTestnet
+    ),
+  ]);
+  return { wallet, positions, pnl };
+}
+
+/**
+ * JSON-file store for per-account risk state.
+ */
+export function createFileRiskStore(filePath = DEFAULT_RISK_FILE) {
+  let states = null;
+
+  function load() {
+    if (states) return states;
+    states = {};
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      states = parsed?.states && typeof parsed.states === "object" ? parsed.states : {};
+    }
+    return states;
+  }
+
+  return {
+    kind: "file",
+    get(key) {
+      return load()[key] ?? null;
+    },
+    set(key, state) {
+      load()[key] = state;
+      if (!filePath) return;
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify({ version: 1, states }));
+      fs.renameSync(tmp, filePath);
+    },
+  };
+}
+
+function stateKey(userId, env) {
+  return `${env}:${userId}`;
+}
+
+function emptyState(day) {
+  return {
+    day,
+    dayStartEquity: null,
+    equityPeak: null,
+    // PnL already on the books when the day started (unrealized PnL of the
+    // legs carried over, taken at the day's first reading) or at the last
+    // manual reset; the daily limit counts from here.
+    dailyBaseline: null,
+    halt: null,
+    lastAccount: null,
+    updatedAt: null,
+    events: [],
+  };
+}
+
+export function createRiskManager({
+  store = createFileRiskStore(null),
+  limits = DEFAULT_RISK_LIMITS,
+  now = Date.now,
+  onHalt = () => {},
+} = {}) {
+  const resolvedLimits = { ...DEFAULT_RISK_LIMITS, ...limits };
+
+  function pushEvent(state, event) {
+    state.events = [event, ...(state.events ?? [])].slice(0, MAX_EVENTS);
+  }
+
+  function metricsOf(state, account) {
+    const dailyPnl =
+      (account.realizedToday ?? 0) + (account.unrealized ?? 0) - (state.dailyBaseline ?? 0);
+    const drawdownPct =
+      state.equityPeak > 0 && account.equity != null
+        ? ((state.equityPeak - account.equity) / state.equityPeak) * 100
+        : 0;
+    const openRiskPct =
+      account.equity > 0 ? ((account.openRisk ?? 0) / account.equity) * 100 : 0;
+    return {
+      dailyPnl: round(dailyPnl),
+      drawdownPct: round(Math.max(0, drawdownPct)),
+      openRiskPct: round(openRiskPct),
+    };
+  }
+
+  function findBreach(state, metrics) {
+    const { maxDailyLoss, maxDailyLossPct, maxDrawdownPct } = resolvedLimits;
+    const loss = -metrics.dailyPnl;
+    if (maxDailyLoss > 0 && loss >= maxDailyLoss) {
+      return { reason: "DAILY_LOSS", detail: `daily loss ${round(loss, 2)} >= ${maxDailyLoss} USDT` };
+    }
+    if (maxDailyLossPct > 0 && state.dayStartEquity > 0) {
+      const lossPct = (loss / state.dayStartEquity) * 100;
+      if (lossPct >= maxDailyLossPct) {
+        return {
+          reason: "DAILY_LOSS",
+          detail: `daily loss ${round(lossPct, 2)}% >= ${maxDailyLossPct}%`,
+        };
+      }
+    }
+    if (maxDrawdownPct > 0 && metrics.drawdownPct >= maxDrawdownPct) {
+      return {
+        reason: "MAX_DRAWDOWN",
+        detail: `drawdown ${round(metrics.drawdownPct, 2)}% from peak ${state.equityPeak} >= ${maxDrawdownPct}%`,
+      };
+    }
+    return null;
+  }
+
+  function rollDay(state, ts) {
+    const day = tradingDayOf(ts);
+    if (state.day === day) return;
+    state.day = day;
+    state.dayStartEquity = null;
+    state.dailyBaseline = null;
+    if (state.halt) {
+      pushEvent(state, {
+        type: "RISK_RESUME",
+        reason: "NEW_TRADING_DAY",
+        at: new Date(ts).toISOString(),
+      });
+      state.halt = null;
+    }
+  }
+
+  // Folds one account reading into the state; halts on a daily loss or
+  // drawdown breach. Drawdown is not reset by the day roll, so a breached
+  // peak halts again until it is recovered or manually reset.
+  function apply(userId, env, account) {
+    const key = stateKey(userId, env);
+    const ts = now();
+    const state = store.get(key) ?? emptyState(tradingDayOf(ts));
+    const fingerprint = () =>
+      JSON.stringify([state.day, state.dayStartEquity, state.dailyBaseline, state.equityPeak, state.halt]);
+    const before = fingerprint();
+    rollDay(state, ts);
+    if (account?.equity != null) {
+      if (state.dayStartEquity == null) state.dayStartEquity = account.equity;
+      state.equityPeak = Math.max(state.equityPeak ?? account.equity, account.equity);
+    }
+    // A leg that was already under water at the day roll is yesterday's loss.
+    if (account && state.dailyBaseline == null) state.dailyBaseline = account.unrealized ?? 0;
+    state.lastAccount = account ?? state.lastAccount;
+    state.updatedAt = new Date(ts).toISOString();
+    const metrics = account ? metricsOf(state, account) : null;
+    if (metrics && !state.halt) {
+      const breach = findBreach(state, metrics);
+      if (breach) {
+        state.halt = { ...breach, day: state.day, at: new Date(ts).toISOString() };
+        pushEvent(state, { type: "RISK_HALT", ...state.halt, metrics });
+        console.warn(`[risk] RISK_HALT ${env}:${userId} ${breach.reason} - ${breach.detail}`);
+        onHalt(userId, env, { ...state.halt, metrics });
+      }
+    }
+    const after = fingerprint();
+    // Account readings change every poll; persist only when baselines or the halt moved.
+    if (before !== after || !store.get(key)) store.set(key, state);
+    return { state, metrics };
+  }
+
+  function describe(state, metrics) {
+    return {
+      halted: Boolean(state.halt),
+      halt: state.halt,
+      day: state.day,
+      dayStartEquity: state.dayStartEquity,
+      equityPeak: state.equityPeak,
+      account: state.lastAccount,
+      metrics,
+      limits: { ...resolvedLimits },
+      events: state.events ?? [],
+      updatedAt: state.updatedAt,
+    };
+  }
+
+  /**
+   * Records an account reading (aggregator poll or status read).
+   */
+  function observe(userId, env, account) {
+    const { state, metrics } = apply(String(userId ?? ""), String(env ?? ""), account);
+    return describe(state, metrics);
+  }
+
+  /**
+   * Verdict for a new order: { allowed, reason?, detail?, status }. Reduce-only
+   * orders always pass so positions can be closed during a halt. `order.price`
+   * must be set for market orders too (the caller prices them from the ticker).
+   */
+  function checkOrder({ userId, env, account, order = {} }) {
+    const { state, metrics } = apply(String(userId ?? ""), String(env ?? ""), account);
+    const status = describe(state, metrics);
+    if (order.reduceOnly) return { allowed: true, status };
+    if (state.halt) {
+      return { allowed: false, reason: state.halt.reason, detail: state.halt.detail, status };
+    }
+    // Fails closed: without equity none of the limits can be measured.
+    if (!(account?.equity > 0)) {
+      return { allowed: false, reason: "NO_EQUITY", detail: "account equity unavailable", status };
+    }
+    const { maxOpenRiskPct } = resolvedLimits;
+    if (maxOpenRiskPct > 0) {
+      const entry = toNum(order.price);
+      const size = Math.abs(toNum(order.qty) ?? 0);
+      if (size > 0 && !(entry > 0)) {
+        return { allowed: false, reason: "NO_PRICE", detail: "order risk cannot be priced", status };
+      }
+      const orderRisk = legRisk({
+        entry,
+        stop: toNum(order.sl),
+        size,
+        leverage: toNum(order.leverage),
+      });
+      const totalPct = (((account.openRisk ?? 0) + orderRisk) / account.equity) * 100;
+      if (totalPct > maxOpenRiskPct) {
+        return {
+          allowed: false,
+          reason: "OPEN_RISK",
+          detail: `open risk ${round(totalPct, 2)}% > ${maxOpenRiskPct}%`,
+          status,
+        };
+      }
+    }
+    return { allowed: true, status };
+  }
+
+  /**
+   * Manual reset: lifts the halt and re-bases the peak and daily PnL on the
+   * last account reading.
+   */
+  function reset(userId, env, { by } = {}) {
+    const key = stateKey(String(userId ?? ""), String(env ?? ""));
+    const ts = now();
+    const state = store.get(key) ?? emptyState(tradingDayOf(ts));
+    rollDay(state, ts);
+    const account = state.lastAccount;
+    if (account?.equity != null) {
+      state.equityPeak = account.equity;
+      state.dayStartEquity = account.equity;
+    }
+    if (account) {
+      state.dailyBaseline = (account.realizedToday ?? 0) + (account.unrealized ?? 0);
+    }
+    pushEvent(state, {
+      type: "RISK_RESUME",
+      reason: "MANUAL_RESET",
+      previous: state.halt?.reason ?? null,
+      by: by ?? null,
+      at: new Date(ts).toISOString(),
+    });
+    state.halt = null;
+    state.updatedAt = new Date(ts).toISOString();
+    store.set(key, state);
+    return describe(state, account ? metricsOf(state, account) : null);
+  }
+
+  function getStatus(userId, env) {
+    // No reading: only rolls the day, so a halt from yesterday reads as lifted.
+    const { state } = apply(String(userId ?? ""), String(env ?? ""), null);
+    return describe(state, state.lastAccount ? metricsOf(state, state.lastAccount) : null);
+  }
+
+  return {
+    limits: resolvedLimits,
+    observe,
+    checkOrder,
+    reset,
+    getStatus,
+  };
+}
+
+let defaultRiskManager = null;
+
+/**
+ * Process-wide risk manager with limits from RISK_* env vars.
+ */
+export function getRiskManager() {
+  if (!defaultRiskManager) {
+    defaultRiskManager = createRiskManager({
+      store: createFileRiskStore(process.env.RISK_STATE_FILE || DEFAULT_RISK_FILE),
+      limits: normalizeRiskLimits(process.env),
+      onHalt: (userId, env, halt) => {
+        void getNotifier().notify(userId, {
+          type: "RISK_HALT",
+          env,
+          message: `${halt.reason}: ${halt.detail}`,
+        });
+      },
+    });
+  }
+  return defaultRiskManager;
+}
@@ -0,0 +1,419 @@
+// ===========================================
+// Native take-profit ladders
+// ===========================================
+//
+// An entry sent to POST /api/:env/order with `takeProfits` (the OrderPlanV2
+// `{ price, sizePct }[]` shape) registers a ladder for its symbol in place of
+// the single position take-profit. Every level is a reduce-only GTC limit
+// order on the venue, so Bybit, Binance and the paper venue fill the partial
+// exits themselves instead of the browser closing parts of the position with
+// market orders.
+//
+// sync() re-plans the legs against the open position (src/engine/tpLadder.js)
+// and cancels / places the difference. It runs right after the entry and on
+// account refreshes of the persistent sessions (session listener onAccount)
+// whenever the position size or the working legs change, so the ladder
+// follows fills, scale-ins and manual reductions. A ladder is dropped with
+// its legs once the position is gone; one whose entry never filled expires
+// after PENDING_LADDER_TTL_MS. Ladders are persisted to TP_LADDER_STATE_FILE;
+// reconcileState reports legs that drift from the plan. In hedge mode each
+// position leg (positionIdx 1 / 2) has its own ladder.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { getInstrumentInfo } from "./instrumentCache.js";
+import { getNotifier } from "./notifications.js";
+import {
+  diffTpLadder,
+  normalizeTakeProfits,
+  parseTpLadderLinkId,
+  planTpLadderLegs,
+  tpLadderLinkId,
+  tpLadderProgress,
+} from "../src/engine/tpLadder.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_TP_LADDER_FILE = path.resolve(__dirname, ".data/tp-ladders.json");
+export const PENDING_LADDER_TTL_MS = 24 * 60 * 60_000;
+// Account refreshes arrive every few seconds; a ladder re-syncs at most this often.
+const MIN_RESYNC_INTERVAL_MS = 2_000;
+const ACTIVE_ORDER_STATUSES = new Set(["Created", "New", "PartiallyFilled", "Untriggered"]);
+
+function ladderKey(userId, env, symbol, positionIdx = 0) {
+  return positionIdx ? `${env}:${userId}:${symbol}:${positionIdx}` : `${env}:${userId}:${symbol}`;
+}
+
+function hedgeIdxOf(positionIdx) {
+  const idx = Number(positionIdx);
+  return Number.isFinite(idx) && idx > 0 ? idx : 0;
+}
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+function errorMessage(err) {
+  return err?.message ? String(err.message) : String(err ?? "unknown_error");
+}
+
+function normalizeSide(side) {
+  return String(side ?? "").toLowerCase() === "buy" ? "Buy" : "Sell";
+}
+
+export function createFileTpLadderStore(filePath = DEFAULT_TP_LADDER_FILE) {
+  let ladders = null;
+
+  function load() {
+    if (ladders) return ladders;
+    ladders = {};
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      ladders = parsed?.ladders && typeof parsed.ladders === "object" ? parsed.ladders : {};
+    }
+    return ladders;
+  }
+
+  function persist() {
+    if (!filePath) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, ladders }));
+    fs.renameSync(tmp, filePath);
+  }
+
+  return {
+    kind: "file",
+    get(key) {
+      return load()[key] ?? null;
+    },
+    set(key, ladder) {
+      load()[key] = ladder;
+      persist();
+    },
+    delete(key) {
+      delete load()[key];
+      persist();
+    },
+    list() {
+      return Object.values(load());
+    },
+  };
+}
+
+export function createTpLadders({
+  store = createFileTpLadderStore(null),
+  getInstrument = ({ venue, symbol, useTestnet }) =>
+    (venue.getInstrumentInfo ?? getInstrumentInfo)(symbol, useTestnet),
+  now = Date.now,
+  randomId = () => crypto.randomBytes(5).toString("hex"),
+  notify = () => {},
+} = {}) {
+  const inflight = new Map();
+
+  function viewOf(ladder) {
+    return {
+      ...ladder,
+      levels: ladder.levels.map((level) => ({ ...level })),
+      done: [...ladder.done],
+      live: { ...ladder.live },
+    };
+  }
+
+  function get(userId, env, symbol, positionIdx = 0) {
+    const ladder = store.get(
+      ladderKey(userId, env, String(symbol ?? "").toUpperCase(), hedgeIdxOf(positionIdx))
+    );
+    return ladder ? viewOf(ladder) : null;
+  }
+
+  function list(userId, env) {
+    return store
+      .list()
+      .filter((ladder) => ladder.userId === userId && ladder.env === env)
+      .map(viewOf);
+  }
+
+  /**
+   * Starts a ladder for the entry; it replaces an earlier ladder of the
+   * symbol (position leg in hedge mode), whose legs the next sync cancels.
+   * Null without a usable level.
+   */
+  function register({ userId, env, symbol, side, entry, takeProfits, positionIdx }) {
+    const normalizedSymbol = String(symbol ?? "").toUpperCase();
+    const levels = normalizeTakeProfits(takeProfits, { side, entry });
+    if (!normalizedSymbol || !levels.length) return null;
+    const ts = now();
+    const ladder = {
+      id: String(randomId()).replace(/[^A-Za-z0-9]/g, "").slice(0, 12),
+      userId,
+      env,
+      symbol: normalizedSymbol,
+      side: normalizeSide(side),
+      positionIdx: hedgeIdxOf(positionIdx),
+      entry: toNumber(entry) > 0 ? toNumber(entry) : null,
+      levels,
+      done: levels.map(() => 0),
+      live: {},
+      rev: 0,
+      status: "pending",
+      syncedSize: null,
+      instrument: null,
+      createdAt: ts,
+      updatedAt: ts,
+      lastSync: null,
+    };
+    store.set(ladderKey(userId, env, normalizedSymbol, ladder.positionIdx), ladder);
+    return viewOf(ladder);
+  }
+
+  // Adds what a leg order executed to its level before the order is forgotten.
+  function fold(ladder, order) {
+    const parsed = parseTpLadderLinkId(order?.orderLinkId);
+    if (!parsed || parsed.ladderId !== ladder.id) return;
+    ladder.done = tpLadderProgress({ levels: ladder.levels, done: ladder.done, orders: [order] });
+    if (ladder.live[parsed.level] === order.orderLinkId) delete ladder.live[parsed.level];
+  }
+
+  async function cancelLeg(ladder, { venue, creds, useTestnet }, order) {
+    const res = await venue.cancelOrder(
+      { symbol: ladder.symbol, orderId: order.orderId, orderLinkId: order.orderLinkId },
+      creds,
+      useTestnet
+    );
+    if (res?.retCode !== 0) {
+      throw new Error(`cancel ${order.orderLinkId}: ${res?.retMsg ?? "rejected"}`);
+    }
+    fold(ladder, order);
+  }
+
+  async function runSync(ladder, { venue, creds }) {
+    const useTestnet = ladder.env === "testnet";
+    const ctx = { venue, creds, useTestnet };
+    const [posRes, ordersRes] = await Promise.all([
+      venue.getDemoPositions(creds, useTestnet),
+      venue.listDemoOrders(creds, { symbol: ladder.symbol, limit: 50 }, useTestnet),
+    ]);
+    const position = extractList(posRes).find(
+      (p) =>
+        p?.symbol === ladder.symbol &&
+        toNumber(p?.size) > 0 &&
+        (!ladder.positionIdx || Number(p?.positionIdx) === ladder.positionIdx)
+    );
+    // The other hedge leg's ladder is not a stray of this one.
+    const ladderOrders = extractList(ordersRes).filter(
+      (o) =>
+        o?.symbol === ladder.symbol &&
+        ACTIVE_ORDER_STATUSES.has(o?.orderStatus) &&
+        parseTpLadderLinkId(o?.orderLinkId) &&
+        hedgeIdxOf(o?.positionIdx) === ladder.positionIdx
+    );
+    const own = ladderOrders.filter((o) => parseTpLadderLinkId(o.orderLinkId).ladderId === ladder.id);
+    const strays = ladderOrders.filter((o) => !own.includes(o));
+
+    // Legs that left the book filled, were cancelled elsewhere or both.
+    const working = new Set(own.map((o) => o.orderLinkId));
+    const gone = Object.values(ladder.live).filter((linkId) => !working.has(linkId));
+    if (gone.length) {
+      const history = extractList(
+        await venue.listOrderHistory(creds, { symbol: ladder.symbol, limit: 50 }, useTestnet)
+      );
+      for (const linkId of gone) {
+        const record = history.find((o) => o?.orderLinkId === linkId);
+        if (record) fold(ladder, record);
+        const level = parseTpLadderLinkId(linkId)?.level;
+        if (ladder.live[level] === linkId) delete ladder.live[level];
+      }
+    }
+
+    const errors = [];
+    const cancelled = [];
+    const placed = [];
+    const ts = now();
+    const size = toNumber(position?.size);
+    const sameSide = position && normalizeSide(position.side) === ladder.side;
+    if (!sameSide) {
+      const pendingExpired = ladder.status === "pending" && ts - ladder.createdAt >= PENDING_LADDER_TTL_MS;
+      if (ladder.status === "active" || position || pendingExpired) {
+        for (const order of [...own, ...strays]) {
+          try {
+            await cancelLeg(ladder, ctx, order);
+            cancelled.push(order.orderLinkId);
+          } catch (err) {
+            errors.push(errorMessage(err));
+          }
+        }
+        ladder.status = "closed";
+      }
+    } else {
+      ladder.status = "active";
+      if (!ladder.instrument) {
+        try {
+          const instrument = await getInstrument({ venue, symbol: ladder.symbol, useTestnet });
+          ladder.instrument = {
+            stepSize: toNumber(instrument?.stepSize) > 0 ? toNumber(instrument.stepSize) : 0,
+            minQty: toNumber(instrument?.minQty) > 0 ? toNumber(instrument.minQty) : 0,
+            tickSize: toNumber(instrument?.tickSize) > 0 ? toNumber(instrument.tickSize) : 0,
+          };
+        } catch (err) {
+          console.warn("[tp-ladder] instrument info unavailable:", errorMessage(err));
+        }
+      }
+      const legs = planTpLadderLegs({
+        levels: ladder.levels,
+        progress: tpLadderProgress({ levels: ladder.levels, done: ladder.done, orders: own }),
+        size,
+        ...(ladder.instrument ?? {}),
+      });
+      const diff = diffTpLadder(legs, own);
+      const blocked = new Set();
+      for (const order of [...diff.cancel, ...strays]) {
+        try {
+          await cancelLeg(ladder, ctx, order);
+          cancelled.push(order.orderLinkId);
+        } catch (err) {
+          // The leg may have filled meanwhile; its level waits for the next sync.
+          const parsed = parseTpLadderLinkId(order.orderLinkId);
+          if (parsed?.ladderId === ladder.id) blocked.add(parsed.level);
+          errors.push(errorMessage(err));
+        }
+      }
+      for (const leg of diff.place) {
+        if (blocked.has(leg.level)) continue;
+        ladder.rev += 1;
+        const orderLinkId = tpLadderLinkId(ladder.id, leg.level, ladder.rev);
+        try {
+          const res = await venue.createDemoOrder(
+            {
+              symbol: ladder.symbol,
+              side: ladder.side === "Buy" ? "Sell" : "Buy",
+              qty: leg.qty,
+              orderType: "Limit",
+              price: leg.price,
+              timeInForce: "GTC",
+              reduceOnly: true,
+              orderLinkId,
+              ...(ladder.positionIdx ? { positionIdx: ladder.positionIdx } : {}),
+            },
+            creds,
+            useTestnet
+          );
+          if (res?.retCode !== 0) throw new Error(`place ${orderLinkId}: ${res?.retMsg ?? "rejected"}`);
+          ladder.live[leg.level] = orderLinkId;
+          placed.push(orderLinkId);
+        } catch (err) {
+          errors.push(errorMessage(err));
+        }
+      }
+    }
+
+    ladder.syncedSize = sameSide ? size : 0;
+    ladder.updatedAt = ts;
+    ladder.lastSync = { at: ts, placed, cancelled, errors };
+    const key = ladderKey(ladder.userId, ladder.env, ladder.symbol, ladder.positionIdx);
+    // A newer entry may have replaced the ladder while this sync ran.
+    if (store.get(key)?.id === ladder.id) {
+      if (ladder.status === "closed") store.delete(key);
+      else store.set(key, ladder);
+    }
+    if (errors.length) {
+      notify(ladder.userId, {
+        type: "ERROR",
+        env: ladder.env,
+        symbol: ladder.symbol,
+        message: `${ladder.symbol} take-profit ladder sync: ${errors.join("; ")}`,
+      });
+    }
+    return viewOf(ladder);
+  }
+
+  /**
+   * Brings the venue legs of the symbol's ladder (of the `positionIdx` leg
+   * in hedge mode) in line with its position. Concurrent calls for one
+   * ladder share a run; null without a ladder.
+   */
+  function sync({ userId, env, venue, creds, symbol, positionIdx = 0 }) {
+    const key = ladderKey(userId, env, String(symbol ?? "").toUpperCase(), hedgeIdxOf(positionIdx));
+    const ladder = store.get(key);
+    if (!ladder) return Promise.resolve(null);
+    const running = inflight.get(ladder.id);
+    if (running) return running;
+    const run = runSync(viewOf(ladder), { venue, creds }).finally(() => {
+      inflight.delete(ladder.id);
+    });
+    inflight.set(ladder.id, run);
+    return run;
+  }
+
+  // Cheap check against the session snapshot; the sync itself reads the venue.
+  function needsSync(ladder, positions, orders, ts) {
+    if (inflight.has(ladder.id)) return false;
+    if (ladder.lastSync && ts - ladder.lastSync.at < MIN_RESYNC_INTERVAL_MS) return false;
+    const position = positions.find(
+      (p) =>
+        p?.symbol === ladder.symbol &&
+        toNumber(p?.size) > 0 &&
+        (!ladder.positionIdx || Number(p?.positionIdx) === ladder.positionIdx)
+    );
+    if (!position) {
+      return ladder.status === "active" || ts - ladder.createdAt >= PENDING_LADDER_TTL_MS;
+    }
+    if (toNumber(position.size) !== ladder.syncedSize) return true;
+    const working = new Set(
+      orders
+        .filter((o) => o?.symbol === ladder.symbol && ACTIVE_ORDER_STATUSES.has(o?.orderStatus))
+        .map((o) => o.orderLinkId)
+    );
+    return Object.values(ladder.live).some((linkId) => !working.has(linkId));
+  }
+
+  /** Session listener: re-syncs the account's ladders after account refreshes. */
+  async function onAccount(session) {
+    const ladders = store
+      .list()
+      .filter((ladder) => ladder.userId === session.userId && ladder.env === session.env);
+    if (!ladders.length) return;
+    const positions = extractList(session.snapshot?.positions);
+    const orders = extractList(session.snapshot?.orders);
+    const ts = now();
+    for (const ladder of ladders) {
+      if (!needsSync(ladder, positions, orders, ts)) continue;
+      try {
+        await sync({
+          userId: session.userId,
+          env: session.env,
+          venue: session.venue,
+          creds: session.creds,
+          symbol: ladder.symbol,
+          positionIdx: ladder.positionIdx,
+        });
+      } catch (err) {
+        console.warn(`[tp-ladder] ${ladder.symbol} sync failed:`, errorMessage(err));
+      }
+    }
+  }
+
+  return { register, sync, get, list, onAccount };
+}
+
+let defaultTpLadders = null;
+
+/**
+ * Process-wide ladder manager persisting to TP_LADDER_STATE_FILE.
+ */
+export function getTpLadders() {
+  if (!defaultTpLadders) {
+    defaultTpLadders = createTpLadders({
+      store: createFileTpLadderStore(process.env.TP_LADDER_STATE_FILE || DEFAULT_TP_LADDER_FILE),
+      notify: (userId, event) => getNotifier().notify(userId, event),
+    });
+  }
+  return defaultTpLadders;
+}
@@ -0,0 +1,458 @@
+// ===========================================
+// Server-side trade journal
+// ===========================================
+//
+// One record per submitted entry. The record keeps the context the bot had at
+// entry time (EngineSignal, SymbolDiagnostic gate state, settings) and is later
+// enriched with the fills from listExecutions and the closed PnL from
+// listClosedPnl, so a closed trade can always be traced back to its signal.
+//
+// Storage is the Supabase `trade_journal` table when Supabase is configured,
+// otherwise a JSON file (TRADE_JOURNAL_FILE, default server/.data/trade-journal.json).
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath } from "url";
+import { supabase } from "./supabaseClient.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_JOURNAL_FILE = path.resolve(__dirname, ".data/trade-journal.json");
+const SUPABASE_TABLE = "trade_journal";
+const QUERY_LIMIT_DEFAULT = 100;
+const QUERY_LIMIT_MAX = 1000;
+const SYNC_FETCH_LIMIT = 100;
+// Entry orders that never filled and are no longer resting are marked cancelled after this.
+const UNFILLED_ENTRY_TTL_MS = 10 * 60_000;
+const CLOSED_LOOKBACK_MS = 24 * 60 * 60_000;
+
+export const JOURNAL_STATUSES = ["OPEN", "CLOSED", "CANCELLED"];
+
+function toNum(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toTs(value) {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n < 1e11 ? n * 1000 : n;
+  const parsed = Date.parse(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function extractList(data) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+/**
+ * Normalizes query-string filters shared by both stores.
+ */
+export function normalizeJournalFilter(filter = {}) {
+  const limit = toNum(filter.limit);
+  const status = filter.status ? String(filter.status).toUpperCase() : null;
+  return {
+    userId: String(filter.userId ?? ""),
+    env: filter.env ? String(filter.env) : null,
+    symbol: filter.symbol ? String(filter.symbol).toUpperCase() : null,
+    profile: filter.profile ? String(filter.profile).toLowerCase() : null,
+    status: JOURNAL_STATUSES.includes(status) ? status : null,
+    from: toTs(filter.from),
+    to: toTs(filter.to),
+    limit: limit && limit > 0 ? Math.min(Math.floor(limit), QUERY_LIMIT_MAX) : QUERY_LIMIT_DEFAULT,
+  };
+}
+
+function matchesFilter(entry, filter) {
+  if (entry.userId !== filter.userId) return false;
+  if (filter.env && entry.env !== filter.env) return false;
+  if (filter.symbol && entry.symbol !== filter.symbol) return false;
+  if (filter.profile && entry.profile !== filter.profile) return false;
+  if (filter.status && entry.status !== filter.status) return false;
+  const openedAt = Date.parse(entry.openedAt);
+  if (filter.from != null && openedAt < filter.from) return false;
+  if (filter.to != null && openedAt > filter.to) return false;
+  return true;
+}
+
+/**
+ * JSON-file store; the whole journal is kept in memory and rewritten on change.
+ */
+export function createFileJournalStore(filePath = DEFAULT_JOURNAL_FILE) {
+  let entries = null;
+
+  function load() {
+    if (entries) return entries;
+    entries = [];
+    if (filePath && fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      entries = Array.isArray(parsed?.entries) ? parsed.entries : [];
+    }
+    return entries;
+  }
+
+  function save() {
+    if (!filePath) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ version: 1, entries }));
+    fs.renameSync(tmp, filePath);
+  }
+
+  return {
+    kind: "file",
+    async insert(entry) {
+      load().push(entry);
+      save();
+      return entry;
+    },
+    async update(id, patch) {
+      const entry = load().find((e) => e.id === id);
+      if (!entry) throw new Error(`journal entry not found: ${id}`);
+      Object.assign(entry, patch);
+      save();
+      return entry;
+    },
+    async get(userId, id) {
+      return load().find((e) => e.id === id && e.userId === userId) ?? null;
+    },
+    async query(filter) {
+      return load()
+        .filter((e) => matchesFilter(e, filter))
+        .sort((a, b) => Date.parse(b.openedAt) - Date.parse(a.openedAt))
+        .slice(0, filter.limit);
+    },
+  };
+}
+
+const ROW_FIELDS = {
+  id: "id",
+  userId: "user_id",
+  env: "env",
+  symbol: "symbol",
+  side: "side",
+  profile: "profile",
+  status: "status",
+  orderId: "order_id",
+  orderLinkId: "order_link_id",
+  entryType: "entry_type",
+  entryPrice: "entry_price",
+  sl: "sl",
+  tp: "tp",
+  qty: "qty",
+  trailingStop: "trailing_stop",
+  trailingActivePrice: "trailing_active_price",
+  expiresAt: "expires_at",
+  filledQty: "filled_qty",
+  avgEntryPrice: "avg_entry_price",
+  realizedPnl: "realized_pnl",
+  signal: "signal",
+  diagnostic: "diagnostic",
+  settingsSnapshot: "settings_snapshot",
+  fills: "fills",
+  closedPnl: "closed_pnl",
+  openedAt: "opened_at",
+  closedAt: "closed_at",
+  updatedAt: "updated_at",
+};
+
+function toRow(entry) {
+  const row = {};
+  for (const [key, column] of Object.entries(ROW_FIELDS)) {
+    if (entry[key] !== undefined) row[column] = entry[key];
+  }
+  return row;
+}
+
+function fromRow(row) {
+  const entry = {};
+  for (const [key, column] of Object.entries(ROW_FIELDS)) {
+    entry[key] = row?.[column] ?? null;
+  }
+  for (const key of [
+    "entryPrice",
+    "sl",
+    "tp",
+    "qty",
+    "trailingStop",
+    "trailingActivePrice",
+    "filledQty",
+    "avgEntryPrice",
+    "realizedPnl",
+  ]) {
+    entry[key] = toNum(entry[key]);
+  }
+  entry.fills = Array.isArray(entry.fills) ? entry.fills : [];
+  entry.closedPnl = Array.isArray(entry.closedPnl) ? entry.closedPnl : [];
+  return entry;
+}
+
+/**
+ * Supabase store backed by the `trade_journal` table
+ * (see supabase/migrations/*_trade_journal.sql).
+ */
+export function createSupabaseJournalStore(client, table = SUPABASE_TABLE) {
+  return {
+    kind: "supabase",
+    async insert(entry) {
+      const { error } = await client.from(table).insert(toRow(entry));
+      if (error) throw new Error(error.message);
+      return entry;
+    },
+    async update(id, patch) {
+      const { data, error } = await client
+        .from(table)
+        .update(toRow(patch))
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+    async get(userId, id) {
+      const { data, error } = await client
+        .from(table)
+        .select("*")
+        .eq("user_id", userId)
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+    async query(filter) {
+      let q = client.from(table).select("*").eq("user_id", filter.userId);
+      if (filter.env) q = q.eq("env", filter.env);
+      if (filter.symbol) q = q.eq("symbol", filter.symbol);
+      if (filter.profile) q = q.eq("profile", filter.profile);
+      if (filter.status) q = q.eq("status", filter.status);
+      if (filter.from != null) q = q.gte("opened_at", new Date(filter.from).toISOString());
+      if (filter.to != null) q = q.lte("opened_at", new Date(filter.to).toISOString());
+      const { data, error } = await q.order("opened_at", { ascending: false }).limit(filter.limit);
+      if (error) throw new Error(error.message);
+      return (data ?? []).map(fromRow);
+    },
+  };
+}
+
+function executionKey(row) {
+  return String(row?.execId ?? `${row?.orderId ?? ""}:${row?.execTime ?? ""}:${row?.execQty ?? ""}`);
+}
+
+function closedPnlKey(row) {
+  return `${row?.orderId ?? ""}:${row?.createdTime ?? row?.updatedTime ?? ""}:${row?.closedSize ?? row?.qty ?? ""}`;
+}
+
+function isEntryFill(entry, exec) {
+  if (entry.orderId && String(exec?.orderId ?? "") === entry.orderId) return true;
+  if (entry.orderLinkId && String(exec?.orderLinkId ?? "") === entry.orderLinkId) return true;
+  return false;
+}
+
+/**
+ * Attaches new fills and closed-PnL rows to one OPEN entry. Pure: returns the
+ * patch to store, or null when nothing changed. `claimedPnl` holds closed-PnL
+ * keys already attributed to other entries in this sync pass.
+ */
+export function reconcileJournalEntry(entry, { executions, closedPnl, activeOrders, now, claimedPnl }) {
+  const symbol = entry.symbol;
+  const exitSide = entry.side === "Buy" ? "Sell" : "Buy";
+  const fills = [...(entry.fills ?? [])];
+  const seenFills = new Set(fills.map(executionKey));
+  let changed = false;
+
+  for (const exec of executions) {
+    if (String(exec?.symbol ?? "").toUpperCase() !== symbol) continue;
+    const key = executionKey(exec);
+    if (seenFills.has(key)) continue;
+    const entryFill = isEntryFill(entry, exec);
+    const firstFillTs = fills.filter((f) => f.role === "ENTRY").map((f) => toTs(f.execTime))[0];
+    const execTs = toTs(exec?.execTime);
+    const exitFill =
+      !entryFill &&
+      String(exec?.side ?? "") === exitSide &&
+      firstFillTs != null &&
+      execTs != null &&
+      execTs >= firstFillTs;
+    if (!entryFill && !exitFill) continue;
+    fills.push({ ...exec, role: entryFill ? "ENTRY" : "EXIT" });
+    seenFills.add(key);
+    changed = true;
+  }
+
+  const entryFills = fills.filter((f) => f.role === "ENTRY");
+  const filledQty = entryFills.reduce((s, f) => s + (toNum(f.execQty) ?? 0), 0);
+  const avgEntryPrice = filledQty
+    ? entryFills.reduce((s, f) => s + (toNum(f.execQty) ?? 0) * (toNum(f.execPrice) ?? 0), 0) /
+      filledQty
+    : null;
+  const openedTs = entryFills.length ? Math.min(...entryFills.map((f) => toTs(f.execTime) ?? Infinity)) : null;
+
+  const pnlRows = [...(entry.closedPnl ?? [])];
+  const seenPnl = new Set(pnlRows.map(closedPnlKey));
+  if (openedTs != null) {
+    for (const row of closedPnl) {
+      if (String(row?.symbol ?? "").toUpperCase() !== symbol) continue;
+      if (String(row?.side ?? "") !== exitSide) continue;
+      const key = closedPnlKey(row);
+      if (seenPnl.has(key) || claimedPnl.has(key)) continue;
+      const rowTs = toTs(row?.createdTime ?? row?.updatedTime);
+      if (rowTs == null || rowTs < openedTs) continue;
+      pnlRows.push(row);
+      seenPnl.add(key);
+      claimedPnl.add(key);
+      changed = true;
+    }
+  }
+  for (const row of pnlRows) claimedPnl.add(closedPnlKey(row));
+
+  const closedSize = pnlRows.reduce((s, r) => s + (toNum(r.closedSize ?? r.qty) ?? 0), 0);
+  const realizedPnl = pnlRows.reduce((s, r) => s + (toNum(r.closedPnl) ?? 0), 0);
+  let status = entry.status;
+  let closedAt = entry.closedAt ?? null;
+  if (filledQty > 0 && closedSize >= filledQty * (1 - 1e-9)) {
+    status = "CLOSED";
+    const lastTs = Math.max(...pnlRows.map((r) => toTs(r.updatedTime ?? r.createdTime) ?? 0));
+    closedAt = new Date(lastTs).toISOString();
+  } else if (filledQty === 0 && activeOrders) {
+    const resting = activeOrders.some(
+      (o) =>
+        (entry.orderId && String(o?.orderId ?? "") === entry.orderId) ||
+        (entry.orderLinkId && String(o?.orderLinkId ?? "") === entry.orderLinkId)
+    );
+    if (!resting && now - Date.parse(entry.openedAt) > UNFILLED_ENTRY_TTL_MS) {
+      status = "CANCELLED";
+      closedAt = new Date(now).toISOString();
+    }
+  }
+  if (status !== entry.status) changed = true;
+  if (!changed) return null;
+
+  return {
+    status,
+    fills,
+    closedPnl: pnlRows,
+    filledQty,
+    avgEntryPrice,
+    realizedPnl: pnlRows.length ? realizedPnl : null,
+    closedAt,
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Journal service over a store. `venue` arguments follow the bybitClient
+ * surface (listExecutions, listClosedPnl, listDemoOrders).
+ */
+export function createTradeJournal({ store, now = Date.now }) {
+  async function recordEntry(input) {
+    const ts = new Date(now()).toISOString();
+    const entry = {
+      id: crypto.randomUUID(),
+      userId: String(input.userId ?? ""),
+      env: String(input.env ?? ""),
+      symbol: String(input.symbol ?? "").toUpperCase(),
+      side: String(input.side ?? "").toLowerCase() === "buy" ? "Buy" : "Sell",
+      profile: input.profile ? String(input.profile).toLowerCase() : null,
+      status: "OPEN",
+      orderId: input.orderId ? String(input.orderId) : null,
+      orderLinkId: input.orderLinkId ? String(input.orderLinkId) : null,
+      entryType: input.entryType ?? null,
+      entryPrice: toNum(input.entryPrice),
+      sl: toNum(input.sl),
+      tp: toNum(input.tp),
+      qty: toNum(input.qty),
+      trailingStop: toNum(input.trailingStop),
+      trailingActivePrice: toNum(input.trailingActivePrice),
+      expiresAt:
+        toNum(input.expireAfterMs) > 0
+          ? new Date(now() + toNum(input.expireAfterMs)).toISOString()
+          : null,
+      filledQty: 0,
+      avgEntryPrice: null,
+      realizedPnl: null,
+      signal: input.signal ?? null,
+      diagnostic: input.diagnostic ?? null,
+      settingsSnapshot: input.settingsSnapshot ?? null,
+      fills: [],
+      closedPnl: [],
+      openedAt: ts,
+      closedAt: null,
+      updatedAt: ts,
+    };
+    if (!entry.userId || !entry.symbol) {
+      throw new Error("journal entry requires userId and symbol");
+    }
+    return store.insert(entry);
+  }
+
+  async function syncOpenEntries({ userId, env, venue, creds, useTestnet }) {
+    const open = await store.query(normalizeJournalFilter({ userId, env, status: "OPEN", limit: QUERY_LIMIT_MAX }));
+    if (!open.length) return { updated: 0 };
+    const needsOrders = open.some((e) => !e.filledQty);
+    const [execRes, pnlRes, ordersRes] = await Promise.all([
+      venue.listExecutions(creds, { limit: SYNC_FETCH_LIMIT }, useTestnet),
+      venue.listClosedPnl(creds, { limit: SYNC_FETCH_LIMIT }, useTestnet),
+      needsOrders ? venue.listDemoOrders(creds, { limit: 50 }, useTestnet) : null,
+    ]);
+    const executions = extractList(execRes);
+    const closedPnl = extractList(pnlRes);
+    const activeOrders = ordersRes ? extractList(ordersRes) : null;
+    // Rows already attached to recently closed entries must not be claimed again.
+    const oldestOpenTs = Math.min(...open.map((e) => Date.parse(e.openedAt)));
+    const recentlyClosed = await store.query(
+      normalizeJournalFilter({
+        userId,
+        env,
+        status: "CLOSED",
+        from: oldestOpenTs - CLOSED_LOOKBACK_MS,
+        limit: QUERY_LIMIT_MAX,
+      })
+    );
+    const claimedPnl = new Set(
+      recentlyClosed.flatMap((e) => (e.closedPnl ?? []).map(closedPnlKey))
+    );
+    let updated = 0;
+    // Oldest first so sequential trades on one symbol claim closed PnL in order.
+    const ordered = [...open].sort((a, b) => Date.parse(a.openedAt) - Date.parse(b.openedAt));
+    for (const entry of ordered) {
+      const patch = reconcileJournalEntry(entry, {
+        executions,
+        closedPnl,
+        activeOrders,
+        now: now(),
+        claimedPnl,
+      });
+      if (!patch) continue;
+      await store.update(entry.id, patch);
+      updated += 1;
+    }
+    return { updated };
+  }
+
+  return {
+    storeKind: store.kind,
+    recordEntry,
+    syncOpenEntries,
+    query: (filter) => store.query(normalizeJournalFilter(filter)),
+    get: (userId, id) => store.get(String(userId ?? ""), String(id ?? "")),
+  };
+}
+
+let defaultJournal = null;
+
+/**
+ * Process-wide journal: Supabase when configured, file fallback otherwise.
+ */
+export function getTradeJournal() {
+  if (!defaultJournal) {
+    const store = supabase
+      ? createSupabaseJournalStore(supabase)
+      : createFileJournalStore(process.env.TRADE_JOURNAL_FILE || DEFAULT_JOURNAL_FILE);
+    if (!supabase) {
+      console.warn("[journal] Supabase not configured, using file store");
+    }
+    defaultJournal = createTradeJournal({ store });
+  }
+  return defaultJournal;
+}
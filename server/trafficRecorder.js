@@ -0,0 +1,58 @@
+// ===========================================
+// File-backed traffic recordings of aggregator sessions
+// ===========================================
+//
+// Set AGGREGATOR_RECORD_DIR to record every session (or only the user ids in
+// AGGREGATOR_RECORD_USERS, comma separated) to
+// <dir>/<env>_<userId>_<startedAt>.jsonl. Frames follow
+// src/engine/trafficRecording.js; replay them with
+// persistentAggregator.replayPersistentSession or `npm run replay`.
+
+import fs from "fs";
+import path from "path";
+import {
+  createTrafficRecorder,
+  parseRecording,
+  serializeFrame,
+} from "../src/engine/trafficRecording.js";
+
+export function createFileTrafficRecorder(filePath, { now } = {}) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const stream = fs.createWriteStream(filePath, { flags: "a" });
+  stream.on("error", (err) => {
+    console.warn(`[recorder] ${filePath}:`, err?.message || err);
+  });
+  const recorder = createTrafficRecorder({
+    now,
+    sink: (frame) => stream.write(serializeFrame(frame)),
+  });
+  return {
+    ...recorder,
+    filePath,
+    close() {
+      return new Promise((resolve) => stream.end(resolve));
+    },
+  };
+}
+
+/**
+ * Recorder for a new session when recording is configured for `userId`,
+ * otherwise null.
+ */
+export function resolveSessionRecorder({ userId, env, startedAt = Date.now() }, envVars = process.env) {
+  const dir = envVars.AGGREGATOR_RECORD_DIR;
+  if (!dir) return null;
+  const users = String(envVars.AGGREGATOR_RECORD_USERS ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (users.length && !users.includes(String(userId))) return null;
+  const safe = (value) => String(value ?? "").replace(/[^a-zA-Z0-9-]/g, "_");
+  return createFileTrafficRecorder(
+    path.resolve(dir, `${safe(env)}_${safe(userId)}_${startedAt}.jsonl`)
+  );
+}
+
+export function loadRecording(filePath) {
+  return parseRecording(fs.readFileSync(filePath, "utf8"));
+}
@@ -1,4 +1,6 @@
 import { ensureSupabase } from "./supabaseClient.js";
+import { getKeyVault } from "./keyVault.js";
+import { BINANCE_EXCHANGE, DEFAULT_EXCHANGE, normalizeExchangeId } from "./exchanges/index.js";
 
 const SERVICE_BYBIT_KEY = "bybit api key"; // legacy fallback (testnet)
 const SERVICE_BYBIT_SECRET = "bybit api secret"; // legacy fallback (testnet)
@@ -8,7 +10,19 @@ const SERVICE_BYBIT_TESTNET_KEY = "bybit testnet api key";
 const SERVICE_BYBIT_TESTNET_SECRET = "bybit testnet api secret";
 const SERVICE_BYBIT_MAINNET_KEY = "bybit mainnet api key";
 const SERVICE_BYBIT_MAINNET_SECRET = "bybit mainnet api secret";
+const SERVICE_BINANCE_TESTNET_KEY = "binance testnet api key";
+const SERVICE_BINANCE_TESTNET_SECRET = "binance testnet api secret";
+const SERVICE_BINANCE_MAINNET_KEY = "binance mainnet api key";
+const SERVICE_BINANCE_MAINNET_SECRET = "binance mainnet api secret";
 const SERVICE_CRYPTOPANIC_KEY = "cryptopanic api key";
+// Per-user exchange selection, stored as a user_api_keys row: api_key = "bybit" | "binance".
+const SERVICE_EXCHANGE = "exchange";
+// Notification channels (server/notifications.js); "notify rules" holds the routing JSON.
+const SERVICE_NOTIFY_WEBHOOK_URL = "notify webhook url";
+const SERVICE_NOTIFY_TELEGRAM_TOKEN = "telegram bot token";
+const SERVICE_NOTIFY_TELEGRAM_CHAT = "telegram chat id";
+const SERVICE_NOTIFY_DISCORD_URL = "discord webhook url";
+const SERVICE_NOTIFY_RULES = "notify rules";
 
 export async function getUserFromToken(token) {
   const supabase = ensureSupabase();
@@ -25,29 +39,83 @@ const requireKeys = (keys, env) => {
   return keys;
 };
 
-export async function getUserApiKeys(userId, env = "testnet") {
-  // Normalize / validate env
+const assertEnv = (env) => {
   if (env !== "mainnet" && env !== "testnet") {
     throw new Error(`Invalid env for keys: ${env}`);
   }
+};
 
-  const supabase = ensureSupabase();
+// API key values are envelope-encrypted (server/keyVault.js); rows written
+// before that keep a plaintext api_key until scripts/rotate-api-keys.mjs runs.
+const API_KEY_COLUMNS = "id, user_id, service, api_key, secret_ciphertext, wrapped_data_key, master_key_id, updated_at";
+// Values that are not secret and are listed in full.
+export const PLAIN_API_KEY_SERVICES = new Set([SERVICE_EXCHANGE, SERVICE_NOTIFY_TELEGRAM_CHAT, SERVICE_NOTIFY_RULES]);
+const REENCRYPT_PAGE_SIZE = 500;
+
+let warnedPlaintextRows = false;
+
+function resolveDeps({ supabase, vault } = {}) {
+  return { supabase: supabase ?? ensureSupabase(), vault: vault === undefined ? getKeyVault() : vault };
+}
+
+function requireVault(vault) {
+  if (!vault) throw new Error("API_KEYS_MASTER_KEY is not configured on the server");
+  return vault;
+}
+
+function isEncryptedRow(row) {
+  return Boolean(row?.secret_ciphertext && row?.wrapped_data_key);
+}
+
+// Plaintext of one row, in memory only.
+function rowValue(row, vault) {
+  if (isEncryptedRow(row)) return requireVault(vault).decryptRow(row);
+  if (row?.api_key != null && !warnedPlaintextRows) {
+    warnedPlaintextRows = true;
+    console.warn("[keys] plaintext user_api_keys rows found, run scripts/rotate-api-keys.mjs");
+  }
+  return row?.api_key ?? null;
+}
+
+// The user's services by name. A row is decrypted when its service is read,
+// so one row that does not open (corrupt, or wrapped with a retired master
+// key) fails only the lookups that need it, not every other service.
+async function loadUserServices(userId, deps) {
+  const { supabase, vault } = resolveDeps(deps);
   const { data, error } = await supabase
     .from("user_api_keys")
-    .select("service, api_key")
+    .select(API_KEY_COLUMNS)
     .eq("user_id", userId);
 
   if (error) {
     throw new Error(error.message);
   }
 
-  const map = new Map();
+  const rows = new Map();
   (data || []).forEach((row) => {
     if (row?.service) {
-      map.set(row.service.toLowerCase(), row.api_key);
+      rows.set(row.service.toLowerCase(), { ...row, user_id: row.user_id ?? userId });
     }
   });
+  const values = new Map();
+  return {
+    get(service) {
+      if (values.has(service)) return values.get(service);
+      const row = rows.get(service);
+      if (!row) return undefined;
+      let value;
+      try {
+        value = rowValue(row, vault);
+      } catch (err) {
+        throw new Error(`Stored ${service} is unavailable: ${err?.message || err}`);
+      }
+      values.set(service, value);
+      return value;
+    },
+  };
+}
 
+function resolveBybitKeys(map, env) {
   const envBybitMainnetKey = process.env.BYBIT_MAINNET_API_KEY || process.env.BYBIT_API_KEY;
   const envBybitMainnetSecret = process.env.BYBIT_MAINNET_API_SECRET || process.env.BYBIT_API_SECRET;
   const envBybitTestnetKey = process.env.BYBIT_TESTNET_API_KEY || envBybitMainnetKey;
@@ -63,12 +131,205 @@ export async function getUserApiKeys(userId, env = "testnet") {
     return requireKeys(mainnetKeys, "mainnet");
   }
 
-  if (env === "testnet") {
-    const testnetKeys = {
-      apiKey: map.get(SERVICE_BYBIT_DEMO_KEY) ?? map.get(SERVICE_BYBIT_TESTNET_KEY) ?? map.get(SERVICE_BYBIT_KEY) ?? envBybitTestnetKey,
-      apiSecret: map.get(SERVICE_BYBIT_DEMO_SECRET) ?? map.get(SERVICE_BYBIT_TESTNET_SECRET) ?? map.get(SERVICE_BYBIT_SECRET) ?? envBybitTestnetSecret
+  const testnetKeys = {
+    apiKey: map.get(SERVICE_BYBIT_DEMO_KEY) ?? map.get(SERVICE_BYBIT_TESTNET_KEY) ?? map.get(SERVICE_BYBIT_KEY) ?? envBybitTestnetKey,
+    apiSecret: map.get(SERVICE_BYBIT_DEMO_SECRET) ?? map.get(SERVICE_BYBIT_TESTNET_SECRET) ?? map.get(SERVICE_BYBIT_SECRET) ?? envBybitTestnetSecret
+  };
+
+  return requireKeys(testnetKeys, "testnet");
+}
+
+function resolveBinanceKeys(map, env) {
+  if (env === "mainnet") {
+    return requireKeys(
+      {
+        apiKey: map.get(SERVICE_BINANCE_MAINNET_KEY) ?? process.env.BINANCE_MAINNET_API_KEY,
+        apiSecret: map.get(SERVICE_BINANCE_MAINNET_SECRET) ?? process.env.BINANCE_MAINNET_API_SECRET,
+      },
+      "mainnet"
+    );
+  }
+  return requireKeys(
+    {
+      apiKey: map.get(SERVICE_BINANCE_TESTNET_KEY) ?? process.env.BINANCE_TESTNET_API_KEY,
+      apiSecret: map.get(SERVICE_BINANCE_TESTNET_SECRET) ?? process.env.BINANCE_TESTNET_API_SECRET,
+    },
+    "testnet"
+  );
+}
+
+export async function getUserApiKeys(userId, env = "testnet", deps) {
+  assertEnv(env);
+  return resolveBybitKeys(await loadUserServices(userId, deps), env);
+}
+
+/**
+ * Resolves the user's selected exchange (service "exchange", falling back to
+ * DEFAULT_EXCHANGE env, then Bybit) together with the keys for that exchange.
+ */
+export async function getUserExchangeAccount(userId, env = "testnet", deps) {
+  assertEnv(env);
+  const map = await loadUserServices(userId, deps);
+  const exchange =
+    normalizeExchangeId(map.get(SERVICE_EXCHANGE)) ??
+    normalizeExchangeId(process.env.DEFAULT_EXCHANGE) ??
+    DEFAULT_EXCHANGE;
+  const creds = exchange === BINANCE_EXCHANGE ? resolveBinanceKeys(map, env) : resolveBybitKeys(map, env);
+  return { exchange, creds };
+}
+
+/**
+ * Notification channels and routing rules stored with the user's API keys;
+ * missing services come back as empty channel entries.
+ */
+export async function getUserNotificationConfig(userId, deps) {
+  const map = await loadUserServices(userId, deps);
+  // An unreadable channel is left out instead of failing every other one.
+  const value = (service) => {
+    let raw = null;
+    try {
+      raw = map.get(service);
+    } catch (err) {
+      console.warn(`[keys] ${err.message}`);
+    }
+    return typeof raw === "string" && raw.trim() ? raw.trim() : null;
+  };
+  return {
+    channels: {
+      webhook: { url: value(SERVICE_NOTIFY_WEBHOOK_URL) },
+      telegram: {
+        botToken: value(SERVICE_NOTIFY_TELEGRAM_TOKEN),
+        chatId: value(SERVICE_NOTIFY_TELEGRAM_CHAT),
+      },
+      discord: { webhookUrl: value(SERVICE_NOTIFY_DISCORD_URL) },
+    },
+    rules: value(SERVICE_NOTIFY_RULES),
+  };
+}
+
+/**
+ * The user's stored services for the settings list: plain services in full,
+ * secrets masked to their last 4 characters.
+ */
+export async function listUserApiKeys(userId, deps) {
+  const { supabase, vault } = resolveDeps(deps);
+  const { data, error } = await supabase
+    .from("user_api_keys")
+    .select(API_KEY_COLUMNS)
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+  if (error) throw new Error(error.message);
+  return (data || []).map((row) => {
+    let value = null;
+    try {
+      value = rowValue({ ...row, user_id: row.user_id ?? userId }, vault);
+    } catch (err) {
+      console.warn(`[keys] ${row.service} not readable:`, err?.message || err);
+    }
+    const service = String(row.service ?? "").toLowerCase();
+    return {
+      id: row.id,
+      service: row.service,
+      masked: value == null
+        ? "••••"
+        : PLAIN_API_KEY_SERVICES.has(service)
+          ? value
+          : value.length > 4
+            ? `•••• ${value.slice(-4)}`
+            : "••••",
+      updated_at: row.updated_at ?? null,
     };
+  });
+}
+
+/**
+ * Encrypts `value` and upserts it as the user's `service` row; the plaintext
+ * api_key column is cleared.
+ */
+export async function saveUserApiKey(userId, service, value, deps) {
+  const { supabase, vault } = resolveDeps(deps);
+  const key = String(service ?? "").trim().toLowerCase();
+  const plain = String(value ?? "").trim();
+  if (!userId || !key || !plain) throw new Error("service and value are required");
+  const row = {
+    user_id: userId,
+    service: key,
+    api_key: null,
+    ...requireVault(vault).encryptRow({ userId, service: key, value: plain }),
+    updated_at: new Date().toISOString(),
+  };
+  const { error } = await supabase
+    .from("user_api_keys")
+    .upsert(row, { onConflict: "user_id,service" });
+  if (error) throw new Error(error.message);
+  return { service: key, updated_at: row.updated_at };
+}
 
-    return requireKeys(testnetKeys, "testnet");
+export async function deleteUserApiKey(userId, service, deps) {
+  const { supabase } = resolveDeps(deps);
+  const { error } = await supabase
+    .from("user_api_keys")
+    .delete()
+    .eq("user_id", userId)
+    .eq("service", String(service ?? "").trim().toLowerCase());
+  if (error) throw new Error(error.message);
+  return { service };
+}
+
+/**
+ * Walks every user_api_keys row: plaintext rows are encrypted (migration of
+ * rows written before encryption), rows wrapped with an older master key
+ * get their data key re-wrapped with the current one (rotation), and
+ * plaintext left next to a ciphertext is cleared. With `dryRun` nothing is
+ * written.
+ */
+export async function reencryptUserApiKeys({ supabase, vault, dryRun = false } = {}) {
+  const deps = resolveDeps({ supabase, vault });
+  const keyVault = requireVault(deps.vault);
+  const report = { scanned: 0, encrypted: 0, rewrapped: 0, cleared: 0, unchanged: 0, failed: [] };
+  for (let from = 0; ; from += REENCRYPT_PAGE_SIZE) {
+    const { data, error } = await deps.supabase
+      .from("user_api_keys")
+      .select(API_KEY_COLUMNS)
+      .order("id", { ascending: true })
+      .range(from, from + REENCRYPT_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const rows = data || [];
+    for (const row of rows) {
+      report.scanned += 1;
+      try {
+        let patch = null;
+        if (!isEncryptedRow(row)) {
+          if (row.api_key == null) {
+            report.unchanged += 1;
+            continue;
+          }
+          patch = {
+            api_key: null,
+            ...keyVault.encryptRow({ userId: row.user_id, service: row.service, value: row.api_key }),
+          };
+          report.encrypted += 1;
+        } else {
+          const rewrapped = keyVault.rewrapRow(row);
+          if (!rewrapped && row.api_key == null) {
+            report.unchanged += 1;
+            continue;
+          }
+          patch = { ...(rewrapped ?? {}), api_key: null };
+          if (rewrapped) report.rewrapped += 1;
+          else report.cleared += 1;
+        }
+        if (dryRun) continue;
+        const { error: updateError } = await deps.supabase
+          .from("user_api_keys")
+          .update(patch)
+          .eq("id", row.id);
+        if (updateError) throw new Error(updateError.message);
+      } catch (err) {
+        report.failed.push({ id: row.id, service: row.service, error: err?.message || String(err) });
+      }
+    }
+    if (rows.length < REENCRYPT_PAGE_SIZE) break;
   }
+  return report;
 }
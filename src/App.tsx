@@ -4,7 +4,11 @@ import { useTradingBot } from "./hooks/useTradingBot";
 import Dashboard from "./components/Dashboard";
 import LoginCard from "./components/LoginCard";
 import NotReleased from "./components/NotReleased";
-import { SERVICE_OPTIONS } from "./components/ApiKeysManager";
+import {
+  SERVICE_OPTIONS,
+  fetchApiKeyList,
+  type ApiKeyRow,
+} from "./components/ApiKeysManager";
 import { useAuth } from "./hooks/useAuth";
 import { supabase } from "./lib/supabaseClient";
 import { UI_COPY } from "./lib/uiCopy";
@@ -19,6 +23,15 @@ const REQUIRED_KEY_SERVICES = new Set([
   "bybit mainnet api key",
   "bybit mainnet api secret",
 ]);
+// Keys required when the user selected another exchange (service "exchange").
+const REQUIRED_KEY_SERVICES_BY_EXCHANGE: Record<string, Set<string>> = {
+  binance: new Set([
+    "binance testnet api key",
+    "binance testnet api secret",
+    "binance mainnet api key",
+    "binance mainnet api secret",
+  ]),
+};
 
 type EnvAvailability = {
   canUseDemo: boolean;
@@ -185,13 +198,11 @@ export default function App() {
       return;
     }
     setKeysError(null);
-    const { data, error } = await supabase
-      .from("user_api_keys")
-      .select("service")
-      .eq("user_id", auth.user.id);
-
-    if (error) {
-      setKeysError(error.message);
+    let data: ApiKeyRow[];
+    try {
+      data = await fetchApiKeyList();
+    } catch (err) {
+      setKeysError(err instanceof Error ? err.message : String(err));
       setMissingServices(requiredServiceLabels);
       return;
     }
@@ -215,8 +226,16 @@ export default function App() {
       have.add("bybit demo api secret");
       have.add("bybit mainnet api secret");
     }
+    const exchange = String(
+      (data ?? []).find((row) => row.service?.toLowerCase() === "exchange")
+        ?.masked ?? ""
+    )
+      .trim()
+      .toLowerCase();
+    const required =
+      REQUIRED_KEY_SERVICES_BY_EXCHANGE[exchange] ?? REQUIRED_KEY_SERVICES;
     const missing = SERVICE_OPTIONS.filter(
-      (opt) => REQUIRED_KEY_SERVICES.has(opt.value) && !have.has(opt.value)
+      (opt) => required.has(opt.value) && !have.has(opt.value)
     ).map((opt) => opt.label);
     setMissingServices(missing);
   }, [auth.user, requiredServiceLabels]);
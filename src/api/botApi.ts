@@ -1,9 +1,12 @@
 import { getApiBase } from "../engine/networkConfig";
+import { buildIntentOrderPayload } from "../engine/executionPolicy";
 import { TradeIntent } from "./types";
 
 type AuthOpts = {
   authToken: string;
   useTestnet: boolean;
+  paper?: boolean;
+  http?: (url: string, init?: RequestInit) => Promise<Response>;
 };
 
 function requireAuth(opts: AuthOpts) {
@@ -14,51 +17,11 @@ function requireAuth(opts: AuthOpts) {
 
 export async function sendIntent(intent: TradeIntent, opts: AuthOpts) {
   requireAuth(opts);
-  if (intent.entryType === "MARKET_DISABLED") {
-    throw new Error("market_disabled");
-  }
-  if (!intent.entryPrice) {
-    throw new Error("missing_entry_price");
-  }
-
-  const qty =
-    intent.qtyMode === "BASE_QTY"
-      ? intent.qtyValue
-      : intent.qtyValue / intent.entryPrice;
-  if (!Number.isFinite(qty) || qty <= 0) {
-    throw new Error("invalid_qty");
-  }
+  const payload = buildIntentOrderPayload(intent);
 
-  const isConditional = intent.entryType === "CONDITIONAL";
-  const isMarket = intent.entryType === "MARKET";
-  const triggerPrice = isConditional
-    ? intent.triggerPrice ?? intent.entryPrice
-    : undefined;
-  const timeInForce = isMarket
-    ? "IOC"
-    : intent.entryType === "LIMIT_MAKER_FIRST"
-      ? "PostOnly"
-      : "GTC";
-  const orderType = isMarket ? "Market" : "Limit";
-
-  const payload = {
-    symbol: intent.symbol,
-    side: intent.side,
-    qty,
-    orderType,
-    price: intent.entryPrice,
-    triggerPrice,
-    timeInForce,
-    orderLinkId: intent.intentId,
-    sl: intent.slPrice,
-    tp: intent.tpPrices?.[0],
-    trailingStop: intent.trailingStop,
-    trailingActivePrice: intent.trailingActivePrice,
-    reduceOnly: false,
-  };
-
-  const base = getApiBase(opts.useTestnet);
-  const r = await fetch(`${base}/order`, {
+  const base = getApiBase(opts.useTestnet, opts.paper === true);
+  const http = opts.http ?? fetch;
+  const r = await http(`${base}/order`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -76,7 +39,7 @@ export async function sendIntent(intent: TradeIntent, opts: AuthOpts) {
 
 export async function kill(symbol: string, opts: AuthOpts) {
   requireAuth(opts);
-  const base = getApiBase(opts.useTestnet);
+  const base = getApiBase(opts.useTestnet, opts.paper === true);
   const listRes = await fetch(`${base}/orders?symbol=${symbol}`, {
     headers: {
       Authorization: `Bearer ${opts.authToken}`,
@@ -110,3 +73,62 @@ export async function kill(symbol: string, opts: AuthOpts) {
   }
   return { ok: true, cancelled };
 }
+
+export type KillSwitchSymbolReport = {
+  symbol: string;
+  cancelledOrders: string[];
+  closed: { side: "Buy" | "Sell"; qty: string; ok: boolean; error: string | null }[];
+  flat: boolean;
+  openQty: number | null;
+  openOrders: number | null;
+  errors: string[];
+};
+
+export type KillSwitchReport = {
+  engaged: boolean;
+  engagedAt: number;
+  flat: boolean;
+  attempts: number;
+  automationError: string | null;
+  error: string | null;
+  symbols: KillSwitchSymbolReport[];
+};
+
+export type KillSwitchStatus = {
+  engaged: boolean;
+  engagedAt: number | null;
+  engagedBy: string | null;
+  rearmedAt: number | null;
+  rearmedBy: string | null;
+  lastReport: KillSwitchReport | null;
+};
+
+async function postKillSwitch<T>(path: string, opts: AuthOpts): Promise<T> {
+  requireAuth(opts);
+  const base = getApiBase(opts.useTestnet, opts.paper === true);
+  const http = opts.http ?? fetch;
+  const r = await http(`${base}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${opts.authToken}`,
+      "X-Auth-Token": opts.authToken,
+    },
+    body: "{}",
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok || json?.ok === false) {
+    throw new Error(json?.error || `kill_switch_failed:${r.status}`);
+  }
+  return json?.data as T;
+}
+
+// Serverový flatten-all: zablokuje vstupy, vypne auto-trading, zruší všechny
+// příkazy a zavře všechny pozice; vstupy zůstanou blokované až do rearm().
+export function killAll(opts: AuthOpts) {
+  return postKillSwitch<KillSwitchReport>("/kill", opts);
+}
+
+export function rearm(opts: AuthOpts) {
+  return postKillSwitch<KillSwitchStatus>("/kill/rearm", opts);
+}
@@ -1,3 +1,7 @@
+import type { EngineSignal } from "../engine/botEngine";
+import type { SymbolDiagnostic } from "../lib/diagnosticsTypes";
+import type { AISettings } from "../types";
+
 export type Symbol = string;
 export type Side = "Buy" | "Sell";
 export type EntryType =
@@ -31,8 +35,22 @@ export type TradeIntent = {
   qtyValue: number;
   slPrice: number;
   tpPrices: number[];
+  // Take-profit ladder placed by the server instead of tpPrices[0].
+  takeProfits?: { price: number; sizePct: number }[];
   expireAfterMs: number;
+  // Server-side dedup: intentId is then deriveOrderLinkId(signalId, symbol, side, signalLeg).
+  signalId?: string;
+  signalLeg?: string;
   tags?: Record<string, string>;
+  journal?: TradeJournalContext;
+};
+
+// Entry context stored with the order in the server-side trade journal.
+export type TradeJournalContext = {
+  profile: string;
+  signal: EngineSignal | null;
+  diagnostic: SymbolDiagnostic | null;
+  settingsSnapshot?: AISettings;
 };
 
 export type ExecutionState = {
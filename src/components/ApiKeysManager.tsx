@@ -20,10 +20,13 @@ import { Loader2, Save, Key, Trash2 } from "lucide-react";
 import { UI_COPY } from "@/lib/uiCopy";
 import { formatDate } from "@/lib/uiFormat";
 
-type ApiKeyRow = {
+// Host režim drží klíče v localStorage (api_key), přihlášený uživatel dostává
+// ze serveru jen maskovanou hodnotu (masked); šifruje je server.
+export type ApiKeyRow = {
   id?: string;
   service: string;
-  api_key: string;
+  api_key?: string;
+  masked?: string;
   updated_at?: string;
 };
 
@@ -40,14 +43,57 @@ export const SERVICE_OPTIONS = [
   // legacy fallback
   { value: "bybit api key", label: "Bybit API klíč (legacy)" },
   { value: "bybit api secret", label: "Bybit API secret (legacy)" },
+  { value: "binance testnet api key", label: "Binance Demo (testnet) API klíč" },
+  { value: "binance testnet api secret", label: "Binance Demo (testnet) API secret" },
+  { value: "binance mainnet api key", label: "Binance Mainnet API klíč" },
+  { value: "binance mainnet api secret", label: "Binance Mainnet API secret" },
+  // hodnota = "bybit" | "binance"
+  { value: "exchange", label: "Burza (bybit / binance)" },
   { value: "cryptopanic api key", label: "Cryptopanic API klíč" },
+  // notifikace obchodů (server/notifications.js)
+  { value: "notify webhook url", label: "Notifikace: webhook URL" },
+  { value: "telegram bot token", label: "Notifikace: Telegram bot token" },
+  { value: "telegram chat id", label: "Notifikace: Telegram chat ID" },
+  { value: "discord webhook url", label: "Notifikace: Discord webhook URL" },
+  // JSON: { routes: [{ channel, events, envs, symbols }], templates, rateLimit }
+  { value: "notify rules", label: "Notifikace: pravidla (JSON)" },
 ];
 
+// Hodnoty, které nejsou tajné a zobrazují se celé.
+const PLAIN_SERVICES = new Set(["exchange", "telegram chat id", "notify rules"]);
+
 const LEGACY_SERVICE_LABELS: Record<string, string> = {
   "bybit testnet api key": "Bybit Demo API klíč (legacy)",
   "bybit testnet api secret": "Bybit Demo API secret (legacy)",
 };
 
+async function keysRequest<T>(path: string, body?: Record<string, string>): Promise<T> {
+  const session = supabase ? (await supabase.auth.getSession()).data.session : null;
+  const token = session?.access_token;
+  if (!token) {
+    throw new Error("Chybí přihlášení, klíče nelze načíst.");
+  }
+  const r = await fetch(`/api/keys${path}`, {
+    method: body ? "POST" : "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+      "X-Auth-Token": token,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok || json?.ok === false) {
+    throw new Error(json?.error || `keys_failed:${r.status}`);
+  }
+  return json?.data as T;
+}
+
+// Seznam klíčů ze serveru (GET /api/keys); nešifrované služby jako "exchange"
+// mají v `masked` celou hodnotu.
+export const fetchApiKeyList = async () =>
+  (await keysRequest<{ list: ApiKeyRow[] }>("")).list ?? [];
+
 export default function ApiKeysManager({ userId, onKeysUpdated }: Props) {
   const [records, setRecords] = useState<ApiKeyRow[]>([]);
   const [service, setService] = useState(SERVICE_OPTIONS[0].value);
@@ -68,9 +114,12 @@ export default function ApiKeysManager({ userId, onKeysUpdated }: Props) {
         LEGACY_SERVICE_LABELS[row.service] ??
         row.service,
       masked:
-        row.api_key?.length > 4
-          ? `•••• ${row.api_key.slice(-4)}`
-          : "••••",
+        row.masked ??
+        (PLAIN_SERVICES.has(row.service)
+          ? row.api_key
+          : row.api_key && row.api_key.length > 4
+            ? `•••• ${row.api_key.slice(-4)}`
+            : "••••"),
     }));
   }, [records]);
 
@@ -97,16 +146,10 @@ export default function ApiKeysManager({ userId, onKeysUpdated }: Props) {
         return;
       }
 
-      const { data, error } = await supabase
-        .from("user_api_keys")
-        .select("id, service, api_key, updated_at")
-        .eq("user_id", userId)
-        .order("updated_at", { ascending: false });
-
-      if (error) {
-        setStatus(error.message);
-      } else if (data) {
-        setRecords(data);
+      try {
+        setRecords(await fetchApiKeyList());
+      } catch (err) {
+        setStatus(err instanceof Error ? err.message : String(err));
       }
       setIsLoading(false);
     };
@@ -160,23 +203,13 @@ export default function ApiKeysManager({ userId, onKeysUpdated }: Props) {
       return;
     }
 
-    const { error } = await supabase
-      .from("user_api_keys")
-      .upsert(payload, { onConflict: "user_id,service" });
-
-    if (error) {
-      setStatus(error.message);
-    } else {
-      setStatus("Klíč uložen.");
+    try {
+      await keysRequest("", { service: payload.service, value: payload.api_key });
+      setStatus("Klíč uložen (šifrovaně).");
       setApiKey("");
-      const refreshed = await supabase
-        .from("user_api_keys")
-        .select("id, service, api_key, updated_at")
-        .eq("user_id", userId)
-        .order("updated_at", { ascending: false });
-      if (!refreshed.error && refreshed.data) {
-        setRecords(refreshed.data);
-      }
+      setRecords(await fetchApiKeyList());
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : String(err));
     }
     setIsSaving(false);
 
@@ -206,31 +239,15 @@ export default function ApiKeysManager({ userId, onKeysUpdated }: Props) {
       return;
     }
 
-    let query = supabase
-      .from("user_api_keys")
-      .delete()
-      .eq("user_id", userId)
-      .eq("service", row.service);
-    if (row.id) {
-      query = query.eq("id", row.id);
-    }
-    const { error } = await query;
-
-    if (error) {
-      setStatus(error.message);
+    try {
+      await keysRequest("/delete", { service: row.service });
+      setStatus(UI_COPY.apiKeys.removed);
+      setRecords(await fetchApiKeyList());
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : String(err));
       setDeletingService(null);
       return;
     }
-
-    setStatus(UI_COPY.apiKeys.removed);
-    const refreshed = await supabase
-      .from("user_api_keys")
-      .select("id, service, api_key, updated_at")
-      .eq("user_id", userId)
-      .order("updated_at", { ascending: false });
-    if (!refreshed.error && refreshed.data) {
-      setRecords(refreshed.data);
-    }
     setDeletingService(null);
     onKeysUpdated?.();
   };
@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type TouchEvent } from "react";
 import { TradingMode } from "../types";
-import type { TradingBotApi } from "../hooks/useTradingBot";
+import { CORRELATION_RISK_THRESHOLD, type TradingBotApi } from "../hooks/useTradingBot";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import SettingsPanel from "./SettingsPanel";
@@ -15,6 +15,8 @@ import StrategyProfileMini from "./dashboard/StrategyProfileMini";
 import GateStatusPanel from "./dashboard/GateStatusPanel";
 import RecentEventsPanel from "./dashboard/RecentEventsPanel";
 import RiskBlockPanel from "./dashboard/RiskBlockPanel";
+import CorrelationHeatmap from "./dashboard/CorrelationHeatmap";
+import { normalizeSizingSettings } from "@/engine/executionPolicy";
 import { SUPPORTED_SYMBOLS } from "../constants/symbols";
 import type {
   DiagnosticGate,
@@ -22,19 +24,16 @@ import type {
   SymbolDiagnostic,
 } from "@/lib/diagnosticsTypes";
 import { UI_COPY } from "@/lib/uiCopy";
+import { AI_MATIC_CORE_PROFILE_LABEL } from "../lib/aiMaticCoreProfile";
 import {
-  AI_MATIC_CORE_CHECKLIST_DEFAULTS,
-  AI_MATIC_CORE_PROFILE_LABEL,
-} from "../lib/aiMaticCoreProfile";
-import { AI_MATIC_BBO_CHECKLIST_DEFAULTS } from "../lib/aiMaticBboProfile";
-import {
-  OLIKELLA_CHECKLIST_DEFAULTS,
   OLIKELLA_GATE_ENTRY_CONDITIONS,
   OLIKELLA_GATE_EXIT_CONDITIONS,
   OLIKELLA_GATE_RISK_RULES,
   OLIKELLA_GATE_SIGNAL_CHECKLIST,
   OLIKELLA_PROFILE_LABEL,
 } from "../lib/oliKellaProfile";
+import { resolveStrategy } from "../engine/strategyRegistry";
+import { useFeedConnection } from "../hooks/useFeedConnection";
 
 const RISK_PCT_BY_MODE = {
   "ai-matic": 0.003,
@@ -46,14 +45,23 @@ const RISK_PCT_BY_MODE = {
   "ai-matic-olikella": 0.015,
 } as const;
 
-const MODE_OPTIONS: TradingMode[] = [TradingMode.OFF, TradingMode.AUTO_ON];
+const MODE_OPTIONS: TradingMode[] = [
+  TradingMode.OFF,
+  TradingMode.AUTO_ON,
+  TradingMode.PAPER,
+];
 
 function modeLabel(value: TradingMode) {
+  if (value === TradingMode.PAPER) return UI_COPY.statusBar.paper;
   return value === TradingMode.AUTO_ON
     ? UI_COPY.statusBar.auto
     : UI_COPY.statusBar.manual;
 }
 
+function isAutoExecutionMode(value: TradingMode) {
+  return value === TradingMode.AUTO_ON || value === TradingMode.PAPER;
+}
+
 function compactLabel(value: string, max = 44) {
   const normalized = String(value ?? "").replace(/\s+/g, " ").trim();
   if (!normalized) return "N/A";
@@ -322,66 +330,14 @@ export default function Dashboard({
   const exchangeTrades = tradesLoaded ? testnetTrades : [];
   const refreshOrders = refreshTestnetOrders;
 
-  const CHECKLIST_DEFAULTS_BY_PROFILE = useMemo(() => {
-    const base = {
-      "HTF bias": true,
-      "EMA200 trend": true,
-      "EMA200 breakout": true,
-      "EMA200 confirm": true,
-      "ATR% window": true,
-      "Volume Pxx": true,
-      "LTF pullback": true,
-      "Micro pivot": true,
-      "Micro break close": true,
-      "BBO fresh": true,
-      "BBO age": true,
-      "Trend strength": true,
-      "Maker entry": true,
-      "SL structural": true,
-    };
-    return {
-      "ai-matic": {
-        ...AI_MATIC_CORE_CHECKLIST_DEFAULTS,
-      },
-      "ai-matic-x": base,
-      "ai-matic-bbo": {
-        ...AI_MATIC_BBO_CHECKLIST_DEFAULTS,
-      },
-      "ai-matic-tree": base,
-      "ai-matic-pro": {
-        "1H trend confirmed (SMA50 + swing sequence)": true,
-        "Fib proximity <= 1% (38.2/61.8)": true,
-        "5m swing near Fib <= 0.50%": true,
-        "5m trigger valid (engulfing/pin/breakout+vol)": true,
-        "Volatility gate ATR >= 0.8x 20d avg": true,
-        "RR gate >= 1.5": true,
-      },
-      "ai-matic-amd": {
-        "AMD: Phase sequence": true,
-        "AMD: Killzone active": true,
-        "AMD: Midnight open set": true,
-        "AMD: Asia range valid": true,
-        "AMD: Liquidity sweep": true,
-        "AMD: Inversion FVG confirm": true,
-        "AMD: Target model valid": true,
-      },
-      "ai-matic-olikella": {
-        ...OLIKELLA_CHECKLIST_DEFAULTS,
-      },
-    };
-  }, []);
-  const CHECKLIST_DEFAULTS = useMemo(() => {
-    return (
-      CHECKLIST_DEFAULTS_BY_PROFILE[riskMode] ??
-      CHECKLIST_DEFAULTS_BY_PROFILE["ai-matic"]
-    );
-  }, [CHECKLIST_DEFAULTS_BY_PROFILE, riskMode]);
-  const checklistGateNames = useMemo(() => {
-    const defaults =
-      CHECKLIST_DEFAULTS_BY_PROFILE[riskMode] ??
-      CHECKLIST_DEFAULTS_BY_PROFILE["ai-matic"];
-    return Object.keys(defaults);
-  }, [CHECKLIST_DEFAULTS_BY_PROFILE, riskMode]);
+  const CHECKLIST_DEFAULTS = useMemo(
+    () => resolveStrategy(riskMode).checklistDefaults,
+    [riskMode]
+  );
+  const checklistGateNames = useMemo(
+    () => Object.keys(CHECKLIST_DEFAULTS),
+    [CHECKLIST_DEFAULTS]
+  );
   const CHECKLIST_ALIASES = useMemo(
     () => ({
       "HTF bias": ["Trend bias", "X setup", "Tree setup", "1h bias"],
@@ -509,6 +465,10 @@ export default function Dashboard({
   const openPositionsCount = positionsLoaded ? activePositions.length : 0;
   const openOrdersCount = ordersLoaded ? exchangeOrders.length : 0;
   const maxOpenOrders = bot.settings?.maxOpenOrders ?? 0;
+  const sizingSettings = useMemo(
+    () => normalizeSizingSettings(bot.settings),
+    [bot.settings]
+  );
   const totalCapital =
     portfolioState?.totalCapital ?? portfolioState?.totalEquity;
   const availableBalance = portfolioState?.availableBalance;
@@ -590,11 +550,13 @@ export default function Dashboard({
     };
   }, [allowedSymbols, scanDiagnostics]);
 
+  const feedConnection = useFeedConnection();
   const dataHealthSafe = useMemo(() => {
-    if (mode !== TradingMode.AUTO_ON) return false;
+    if (!isAutoExecutionMode(mode)) return false;
     if (systemState.bybitStatus !== "Connected") return false;
+    if (feedConnection && feedConnection.status !== "open") return false;
     return feedStats.ok;
-  }, [feedStats.ok, mode, systemState.bybitStatus]);
+  }, [feedConnection, feedStats.ok, mode, systemState.bybitStatus]);
 
   const criticalByLoss = Number.isFinite(dailyPnl) && Number.isFinite(riskPerTradeUsd)
     ? (dailyPnl as number) <= -2 * (riskPerTradeUsd as number)
@@ -706,7 +668,7 @@ export default function Dashboard({
     };
   }, [profileMeta.entry, profileMeta.timeframes, riskMode]);
   const engineStatus =
-    appEnabled && mode === TradingMode.AUTO_ON ? "Running" : "Paused";
+    appEnabled && isAutoExecutionMode(mode) ? "Running" : "Paused";
   const appRunning = appEnabled;
 
   const handleResetAllGates = useCallback(() => {
@@ -785,6 +747,8 @@ export default function Dashboard({
         openPositionsPnl={openPositionsPnl}
         totalCapital={totalCapital}
         strategyHeader={strategyHeader}
+        feedConnection={feedConnection}
+        strategyLatency={bot.strategyLatency}
       />
 
       <Tabs
@@ -961,6 +925,8 @@ export default function Dashboard({
                 killSwitchActive={killSwitchActive}
                 riskExposureUsd={riskExposureUsd}
                 riskExposureLimitUsd={riskExposureLimitUsd}
+                sizingSettings={sizingSettings}
+                sizing={bot.sizing}
               />
               <div className="grid grid-cols-12 gap-6">
                 <div className="col-span-12 xl:col-span-6">
@@ -1004,6 +970,10 @@ export default function Dashboard({
                 activeFilter={gatePanelFilter}
                 onActiveFilterChange={setGatePanelFilter}
               />
+              <CorrelationHeatmap
+                correlation={bot.correlation}
+                threshold={CORRELATION_RISK_THRESHOLD}
+              />
               <RecentEventsPanel
                 logEntries={logEntries}
                 logsLoaded={logsLoaded}
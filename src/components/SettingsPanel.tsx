@@ -8,20 +8,16 @@ import {
   resolveSelectedSymbols,
 } from "../constants/symbols";
 import { AISettings } from "../types";
+import { AI_MATIC_CORE_PROFILE_LABEL } from "../lib/aiMaticCoreProfile";
 import {
-  AI_MATIC_CORE_GATE_NAMES,
-  AI_MATIC_CORE_PROFILE_LABEL,
-} from "../lib/aiMaticCoreProfile";
-import { AI_MATIC_BBO_GATE_NAMES } from "../lib/aiMaticBboProfile";
-import {
-  OLIKELLA_GATE_NAMES,
   OLIKELLA_LEGACY_RISK_MODE,
   OLIKELLA_MAX_ORDERS_DEFAULT,
   OLIKELLA_MAX_POSITIONS_DEFAULT,
   OLIKELLA_PROFILE_LABEL,
   OLIKELLA_RISK_MODE,
-  migrateRiskMode,
 } from "../lib/oliKellaProfile";
+import { resolveStrategy, resolveStrategyId } from "../engine/strategyRegistry";
+import { normalizeSizingSettings } from "../engine/executionPolicy";
 import ApiKeysManager from "./ApiKeysManager";
 
 interface Props {
@@ -99,7 +95,7 @@ function loadProfileSettingsMap(): ProfileSettingsMap {
       touched = true;
     }
     Object.entries(next).forEach(([key, value]) => {
-      const migratedMode = migrateRiskMode(key as AISettings["riskMode"]);
+      const migratedMode = resolveStrategyId(key);
       if (migratedMode !== key) {
         next[migratedMode] = {
           ...value,
@@ -236,6 +232,7 @@ const SettingsPanel: React.FC<Props> = ({
   useEffect(() => {
     setLocal(settings);
   }, [settings]);
+  const sizing = normalizeSizingSettings(local);
   const coreProfiles: Record<AISettings["riskMode"], CoreProfile> = {
     "ai-matic": {
       title: AI_MATIC_CORE_PROFILE_LABEL,
@@ -384,52 +381,7 @@ const SettingsPanel: React.FC<Props> = ({
     [coreMeta.notes]
   );
   const summaryText = `${coreMeta.title} · ${coreMeta.summary}`;
-  const coreV2GateNames = [
-    "HTF bias",
-    "EMA200 trend",
-    "EMA200 breakout",
-    "EMA200 confirm",
-    "ATR% window",
-    "Volume Pxx",
-    "LTF pullback",
-    "Micro pivot",
-    "Micro break close",
-    "BBO fresh",
-    "BBO age",
-    "Trend strength",
-    "Maker entry",
-    "SL structural",
-  ];
-  const bboGateNames = [...AI_MATIC_BBO_GATE_NAMES];
-  const amdGateNames = [
-    "AMD: Phase sequence",
-    "AMD: Killzone active",
-    "AMD: Midnight open set",
-    "AMD: Asia range valid",
-    "AMD: Liquidity sweep",
-    "AMD: Inversion FVG confirm",
-    "AMD: Target model valid",
-  ];
-  const checklistGatesByProfile: Record<AISettings["riskMode"], string[]> = {
-    "ai-matic": [...AI_MATIC_CORE_GATE_NAMES],
-    "ai-matic-x": coreV2GateNames,
-    "ai-matic-amd": amdGateNames,
-    "ai-matic-bbo": bboGateNames,
-    "ai-matic-tree": coreV2GateNames,
-    "ai-matic-olikella": [
-      ...OLIKELLA_GATE_NAMES,
-    ],
-    "ai-matic-pro": [
-      "1H trend confirmed (SMA50 + swing sequence)",
-      "Fib proximity <= 1% (38.2/61.8)",
-      "5m swing near Fib <= 0.50%",
-      "5m trigger valid (engulfing/pin/breakout+vol)",
-      "Volatility gate ATR >= 0.8x 20d avg",
-      "RR gate >= 1.5",
-    ],
-  };
-  const activeGateNames =
-    checklistGatesByProfile[local.riskMode] ?? checklistGatesByProfile["ai-matic"];
+  const activeGateNames = resolveStrategy(local.riskMode).gateNames;
   const statusItems = [
     { label: "Hard", value: local.enableHardGates ? "On" : "Off" },
     { label: "Soft", value: local.enableSoftGates ? "On" : "Off" },
@@ -774,6 +726,7 @@ const SettingsPanel: React.FC<Props> = ({
       merged.perTradeMainnetUsd,
       preset.perTradeMainnetUsd
     );
+    Object.assign(merged, normalizeSizingSettings(merged, preset));
     merged.selectedSymbols = resolveSelectedSymbols(merged.selectedSymbols, {
       allowedSymbols: symbolUniverse,
       fallbackSymbols: preset.selectedSymbols,
@@ -1272,6 +1225,101 @@ const SettingsPanel: React.FC<Props> = ({
             </div>
           ) : null}
 
+          <div className="grid gap-2">
+            <p className="text-sm font-medium leading-none">
+              Serverové obchodování
+            </p>
+            <div className="rounded-md border border-input bg-slate-800 text-secondary-foreground px-3 py-2 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-xs text-secondary-foreground/70">
+                  Vstupy zadává server i bez otevřeného dashboardu.
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setLocal({
+                      ...local,
+                      serverAutoTrading: !local.serverAutoTrading,
+                    })
+                  }
+                  className={`rounded-md border px-3 py-1 text-sm ${
+                    local.serverAutoTrading
+                      ? "border-emerald-500/40 bg-emerald-900/30 text-emerald-200"
+                      : "border-slate-700 bg-slate-900/40 text-slate-200"
+                  }`}
+                >
+                  {local.serverAutoTrading ? "Server ZAP" : "Server VYP"}
+                </button>
+              </div>
+              <div className="text-xs text-secondary-foreground/70">
+                Dashboard pak jen zobrazuje a řídí serverovou session (AUTO/PAPER zapíná, OFF vypíná).
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <p className="text-sm font-medium leading-none">
+              Lokální vyhodnocení
+            </p>
+            <div className="rounded-md border border-input bg-slate-800 text-secondary-foreground px-3 py-2 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-xs text-secondary-foreground/70">
+                  Strategie běží v prohlížeči ve Web Workeru nad vlastním feedem.
+                </div>
+                <button
+                  type="button"
+                  disabled={Boolean(local.serverAutoTrading)}
+                  onClick={() =>
+                    setLocal({
+                      ...local,
+                      localStrategyWorker: !local.localStrategyWorker,
+                    })
+                  }
+                  className={`rounded-md border px-3 py-1 text-sm disabled:opacity-50 ${
+                    local.localStrategyWorker
+                      ? "border-emerald-500/40 bg-emerald-900/30 text-emerald-200"
+                      : "border-slate-700 bg-slate-900/40 text-slate-200"
+                  }`}
+                >
+                  {local.localStrategyWorker ? "Worker ZAP" : "Worker VYP"}
+                </button>
+              </div>
+              <div className="text-xs text-secondary-foreground/70">
+                Rozhodnutí serverového enginu se pak ignorují; se serverovým obchodováním nelze zapnout.
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <label htmlFor="position-mode" className="text-sm font-medium leading-none">
+              Režim pozic
+            </label>
+            <div className="rounded-md border border-input bg-slate-800 px-3 py-3 text-sm space-y-2">
+              <select
+                id="position-mode"
+                name="positionMode"
+                value={local.positionMode ?? ""}
+                onChange={(e) =>
+                  setLocal({
+                    ...local,
+                    positionMode:
+                      e.target.value === "oneway" || e.target.value === "hedge"
+                        ? e.target.value
+                        : undefined,
+                  })
+                }
+                className="w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-200"
+              >
+                <option value="">Beze změny (podle účtu)</option>
+                <option value="oneway">One-way (jedna pozice na symbol)</option>
+                <option value="hedge">Hedge (long a short noha zvlášť)</option>
+              </select>
+              <div className="text-xs text-secondary-foreground/70">
+                Burza režim přepne jen bez otevřených pozic a příkazů.
+              </div>
+            </div>
+          </div>
+
           {local.riskMode !== OLIKELLA_RISK_MODE ? (
             <div className="grid gap-2">
               <label
@@ -1439,6 +1487,110 @@ const SettingsPanel: React.FC<Props> = ({
             </div>
           </div>
 
+          <div className="grid gap-2">
+            <label htmlFor="sizing-model" className="text-sm font-medium leading-none">
+              Model velikosti pozice
+            </label>
+            <div className="rounded-md border border-input bg-slate-800 px-3 py-3 text-sm space-y-3">
+              <select
+                id="sizing-model"
+                name="sizingModel"
+                value={sizing.sizingModel}
+                onChange={(e) =>
+                  setLocal({
+                    ...local,
+                    sizingModel: e.target.value as AISettings["sizingModel"],
+                  })
+                }
+                className="w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-sm text-slate-200"
+              >
+                <option value="fixed-fractional">Fixed-fractional (riziko profilu)</option>
+                <option value="vol-target">Volatility target (ATR% → denní vol)</option>
+                <option value="kelly">Fractional Kelly (win rate a payoff profilu)</option>
+              </select>
+              <div className="grid grid-cols-1 gap-2 md:grid-cols-3">
+                <div className="space-y-1">
+                  <label htmlFor="max-risk-per-trade" className="text-xs text-secondary-foreground/70">
+                    Strop rizika na obchod (%)
+                  </label>
+                  <input
+                    id="max-risk-per-trade"
+                    name="maxRiskPerTradeCap"
+                    type="number"
+                    min={0.05}
+                    max={10}
+                    step={0.05}
+                    value={Number((sizing.maxRiskPerTradeCap * 100).toFixed(2))}
+                    onChange={(event) =>
+                      setLocal({
+                        ...local,
+                        ...normalizeSizingSettings(
+                          { maxRiskPerTradeCap: event.currentTarget.valueAsNumber / 100 },
+                          sizing
+                        ),
+                      })
+                    }
+                    className="w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-200"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="target-daily-vol" className="text-xs text-secondary-foreground/70">
+                    Cílová denní vol portfolia (%)
+                  </label>
+                  <input
+                    id="target-daily-vol"
+                    name="targetDailyVolPct"
+                    type="number"
+                    min={0.1}
+                    max={20}
+                    step={0.1}
+                    disabled={sizing.sizingModel !== "vol-target"}
+                    value={Number((sizing.targetDailyVolPct * 100).toFixed(2))}
+                    onChange={(event) =>
+                      setLocal({
+                        ...local,
+                        ...normalizeSizingSettings(
+                          { targetDailyVolPct: event.currentTarget.valueAsNumber / 100 },
+                          sizing
+                        ),
+                      })
+                    }
+                    className="w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-200 disabled:opacity-50"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="kelly-fraction" className="text-xs text-secondary-foreground/70">
+                    Podíl Kellyho sázky (×)
+                  </label>
+                  <input
+                    id="kelly-fraction"
+                    name="kellyFraction"
+                    type="number"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    disabled={sizing.sizingModel !== "kelly"}
+                    value={sizing.kellyFraction}
+                    onChange={(event) =>
+                      setLocal({
+                        ...local,
+                        ...normalizeSizingSettings(
+                          { kellyFraction: event.currentTarget.valueAsNumber },
+                          sizing
+                        ),
+                      })
+                    }
+                    className="w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-200 disabled:opacity-50"
+                  />
+                </div>
+              </div>
+              <div className="text-xs text-secondary-foreground/70">
+                Vol-target a Kelly určují riziko z vol a statistik uzavřených obchodů profilu a
+                nahrazují fixní per-trade notional. Každý model je omezen stropem rizika.
+              </div>
+            </div>
+          </div>
+
           <div className="grid gap-2">
             <p className="text-sm font-medium leading-none">
               Obchodované symboly
@@ -0,0 +1,141 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import Panel from "@/components/dashboard/Panel";
+import { formatClock } from "@/lib/uiFormat";
+import {
+  selectCorrelationWindow,
+  type CorrelationSnapshot,
+} from "@/engine/correlation";
+
+type CorrelationHeatmapProps = {
+  correlation: CorrelationSnapshot | null;
+  /** Od této korelace se páry počítají jako jeden cluster. */
+  threshold: number;
+  /** Délka baru v minutách (popisky oken). */
+  barMinutes?: number;
+};
+
+function formatWindow(bars: number, barMinutes: number) {
+  const minutes = bars * barMinutes;
+  if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function shortSymbol(symbol: string) {
+  return symbol.replace(/USDT$/, "");
+}
+
+// Kladná korelace zeleně, záporná červeně, sytost podle absolutní hodnoty.
+function cellStyle(value: number | null) {
+  if (value === null) return undefined;
+  const alpha = Math.min(0.85, 0.1 + Math.abs(value) * 0.75);
+  return {
+    backgroundColor:
+      value >= 0 ? `rgba(0, 200, 83, ${alpha})` : `rgba(211, 47, 47, ${alpha})`,
+  };
+}
+
+function formatValue(value: number | null | undefined) {
+  return typeof value === "number" ? value.toFixed(2) : "—";
+}
+
+export default function CorrelationHeatmap({
+  correlation,
+  threshold,
+  barMinutes = 5,
+}: CorrelationHeatmapProps) {
+  const [selectedWindow, setSelectedWindow] = useState<number | null>(null);
+  const windows = correlation?.windows ?? [];
+  const matrix = useMemo(
+    () => selectCorrelationWindow(correlation, selectedWindow ?? undefined),
+    [correlation, selectedWindow]
+  );
+
+  return (
+    <Panel
+      title="Korelační matice"
+      description={
+        matrix
+          ? `Klouzavé korelace výnosů · ${matrix.samples} společných barů · ${formatClock(
+              correlation?.updatedAt
+            )}`
+          : "Klouzavé korelace výnosů a beta vůči BTC."
+      }
+      fileId="CORRELATION MAP ID: TR-15-C"
+      action={
+        windows.length > 1
+          ? windows.map((item) => (
+              <Button
+                key={item.window}
+                variant={item.window === matrix?.window ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectedWindow(item.window)}
+                className="h-7 px-2 text-xs dm-button-control"
+              >
+                {formatWindow(item.window, barMinutes)}
+              </Button>
+            ))
+          : null
+      }
+    >
+      {!matrix || matrix.symbols.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-border/60 py-8 text-center text-xs text-muted-foreground">
+          Korelace se počítají, až server naplní buffery svíček.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="border-separate border-spacing-0.5 text-[11px]">
+            <thead>
+              <tr>
+                <th />
+                {matrix.symbols.map((symbol) => (
+                  <th
+                    key={symbol}
+                    className="px-1 pb-1 text-center font-mono font-medium text-muted-foreground"
+                  >
+                    {shortSymbol(symbol)}
+                  </th>
+                ))}
+                <th className="px-2 pb-1 text-right font-medium text-muted-foreground">
+                  β {shortSymbol(matrix.benchmark)}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.symbols.map((rowSymbol, i) => (
+                <tr key={rowSymbol}>
+                  <th className="pr-2 text-left font-mono font-medium text-muted-foreground">
+                    {shortSymbol(rowSymbol)}
+                  </th>
+                  {matrix.symbols.map((colSymbol, j) => {
+                    const value = matrix.values[i]?.[j] ?? null;
+                    const clustered = i !== j && value !== null && value >= threshold;
+                    return (
+                      <td
+                        key={colSymbol}
+                        title={`${rowSymbol} × ${colSymbol}: ${formatValue(value)}`}
+                        className={`h-7 min-w-[2.75rem] rounded text-center font-mono tabular-nums ${
+                          value === null ? "bg-background/40 text-muted-foreground" : "text-foreground"
+                        } ${clustered ? "ring-1 ring-[#FFB300]" : ""}`}
+                        style={cellStyle(value)}
+                      >
+                        {formatValue(value)}
+                      </td>
+                    );
+                  })}
+                  <td className="px-2 text-right font-mono tabular-nums text-foreground">
+                    {formatValue(matrix.betas[rowSymbol])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 text-[11px] text-muted-foreground">
+            Orámované páry (ρ ≥ {threshold.toFixed(2)}) snižují velikost pozice ve stejném směru.
+          </div>
+        </div>
+      )}
+    </Panel>
+  );
+}
@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import type { ActivePosition } from "@/types";
 import { ChevronDown, ChevronRight } from "lucide-react";
 import Panel from "@/components/dashboard/Panel";
+import { isHedgePositionIdx, positionLegKey } from "@/engine/positionMode";
 
 type PositionsTableProps = {
   positions: ActivePosition[];
@@ -94,7 +95,7 @@ export default function PositionsTable({
           Number.isFinite(markPrice) &&
           (isBuy ? markPrice >= trailingActivePrice : markPrice <= trailingActivePrice);
         return {
-          key: p.positionId || p.id || p.symbol,
+          key: p.positionId || p.id || positionLegKey(p),
           raw: p,
           size,
           isBuy,
@@ -111,8 +112,10 @@ export default function PositionsTable({
           activationHit,
         };
       })
-      .sort((a, b) =>
-        String(a.raw.symbol ?? "").localeCompare(String(b.raw.symbol ?? ""), "cs")
+      .sort(
+        (a, b) =>
+          String(a.raw.symbol ?? "").localeCompare(String(b.raw.symbol ?? ""), "cs") ||
+          Number(b.isBuy) - Number(a.isBuy)
       );
   }, [positions]);
 
@@ -185,6 +188,15 @@ export default function PositionsTable({
                         >
                           {row.isBuy ? "LONG" : "SHORT"}
                         </Badge>
+                        {isHedgePositionIdx(row.raw.positionIdx) ? (
+                          <Badge
+                            variant="outline"
+                            className="ml-1 border-sky-500/50 text-sky-300"
+                            title="Noha hedge účtu"
+                          >
+                            HEDGE
+                          </Badge>
+                        ) : null}
                       </td>
                       <td className="py-3 text-right font-mono tabular-nums">
                         {formatNumber(row.size, 2)}
@@ -1,6 +1,24 @@
 import { useMemo } from "react";
 import type { ScanDiagnostics } from "@/lib/diagnosticsTypes";
 import type { ActivePosition, LogEntry } from "@/types";
+import type {
+  SizingDecision,
+  SizingModel,
+  SizingSettings,
+  TradeStats,
+} from "@/engine/executionPolicy";
+
+type SizingState = {
+  stats: TradeStats | null;
+  last:
+    | (SizingDecision & {
+        symbol: string;
+        ts: number;
+        basis: "per-trade" | "risk";
+        notional: number;
+      })
+    | null;
+};
 
 type RiskBlockPanelProps = {
   allowedSymbols: string[];
@@ -14,8 +32,21 @@ type RiskBlockPanelProps = {
   killSwitchActive?: boolean;
   riskExposureUsd?: number;
   riskExposureLimitUsd?: number;
+  sizingSettings?: SizingSettings;
+  /** Poslední rozhodnutí o velikosti pozice a statistiky pro Kellyho model. */
+  sizing?: SizingState;
 };
 
+const SIZING_MODEL_LABELS: Record<SizingModel, string> = {
+  "fixed-fractional": "Fixed-fractional",
+  "vol-target": "Volatility target",
+  kelly: "Fractional Kelly",
+};
+
+function formatPct(value?: number, digits = 2) {
+  return Number.isFinite(value) ? `${((value as number) * 100).toFixed(digits)}%` : "—";
+}
+
 type AggregatedRiskEvent = {
   symbol: string;
   reason: string;
@@ -58,6 +89,8 @@ export default function RiskBlockPanel({
   killSwitchActive,
   riskExposureUsd,
   riskExposureLimitUsd,
+  sizingSettings,
+  sizing,
 }: RiskBlockPanelProps) {
   const exposurePct = Number.isFinite(riskExposureUsd) && Number.isFinite(riskExposureLimitUsd) && (riskExposureLimitUsd as number) > 0
     ? Math.round(((riskExposureUsd as number) / (riskExposureLimitUsd as number)) * 100)
@@ -177,6 +210,48 @@ export default function RiskBlockPanel({
         </div>
       </div>
 
+      {sizingSettings ? (
+        <div className="mt-3 rounded-lg border border-border/60 bg-background/35 p-2.5">
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>Velikost pozice</span>
+            <span>
+              {SIZING_MODEL_LABELS[sizingSettings.sizingModel]} · strop{" "}
+              {formatPct(sizingSettings.maxRiskPerTradeCap)}
+            </span>
+          </div>
+          {sizing?.last ? (
+            <div className="mt-1 space-y-0.5 text-xs">
+              <div className="flex items-center justify-between gap-2 text-foreground">
+                <span className="font-mono">{sizing.last.symbol}</span>
+                <span className="tabular-nums">
+                  riziko {formatPct(sizing.last.riskPct, 3)} · {formatUsdt(sizing.last.notional)}
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                {sizing.last.appliedModel !== sizing.last.model
+                  ? `${SIZING_MODEL_LABELS[sizing.last.appliedModel]} (fallback) · `
+                  : ""}
+                {sizing.last.detail}
+                {sizing.last.capped ? " · omezeno stropem" : ""}
+                {sizing.last.basis === "per-trade" ? " · fixní per-trade notional" : ""}
+              </div>
+            </div>
+          ) : (
+            <div className="mt-1 text-xs text-muted-foreground">Zatím bez vstupu.</div>
+          )}
+          {sizingSettings.sizingModel === "kelly" ? (
+            <div className="mt-1 text-[11px] text-muted-foreground">
+              {sizing?.stats && sizing.stats.trades > 0
+                ? `Uzavřené obchody ${sizing.stats.trades} · win rate ${formatPct(
+                    sizing.stats.winRate,
+                    0
+                  )} · payoff ${sizing.stats.payoffRatio.toFixed(2)}`
+                : "Statistiky profilu se načítají z journalu."}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="mt-3 rounded-lg border border-border/60 bg-background/35 p-2.5">
         <div className="text-xs text-muted-foreground">Expozice podle trhu (riziko v USDT)</div>
         {exposureByMarket.length === 0 ? (
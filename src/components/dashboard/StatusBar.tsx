@@ -1,6 +1,8 @@
 import { useEffect, useRef, useState } from "react";
 import { TradingMode } from "@/types";
 import { formatClock } from "@/lib/uiFormat";
+import type { FeedConnectionSummary } from "@/engine/feedConnection";
+import type { EvaluationLatency } from "@/engine/strategyWorkerClient";
 
 type StatusBarProps = {
   title: string;
@@ -21,6 +23,9 @@ type StatusBarProps = {
     entry: string;
     feed: string;
   };
+  feedConnection?: FeedConnectionSummary | null;
+  /** Latence vyhodnocení strategií ve workeru (jen při lokálním vyhodnocení). */
+  strategyLatency?: Record<string, EvaluationLatency> | null;
 };
 
 function signedTone(value?: number) {
@@ -45,6 +50,41 @@ function badgeDotClass(tone: "ok" | "warn" | "danger" | "info") {
   return "bg-[#4FC3F7]";
 }
 
+function feedConnectionLabel(connection: FeedConnectionSummary) {
+  if (connection.status === "open") {
+    return {
+      text:
+        connection.reconnects > 0
+          ? `WS připojeno (obnoveno ${connection.reconnects}×)`
+          : "WS připojeno",
+      tone: "text-[#00C853]",
+    };
+  }
+  if (connection.status === "connecting") {
+    return { text: "WS připojuji…", tone: "text-[#4FC3F7]" };
+  }
+  return {
+    text: `WS obnovuji spojení (pokus ${connection.attempt})`,
+    tone: "text-[#FFB300]",
+  };
+}
+
+function strategyLatencyLabel(latency: Record<string, EvaluationLatency>) {
+  const entries = Object.entries(latency);
+  if (!entries.length) return null;
+  const [slowestSymbol, slowest] = entries.reduce((a, b) => (b[1].avgMs > a[1].avgMs ? b : a));
+  return {
+    text: `Vyhodnocení ø ${slowest.avgMs.toFixed(1)} ms (nejpomalejší ${slowestSymbol})`,
+    tone: slowest.avgMs > 250 ? "text-[#FFB300]" : "text-muted-foreground",
+    title: entries
+      .map(
+        ([symbol, item]) =>
+          `${symbol}: ø ${item.avgMs.toFixed(1)} ms, max ${item.maxMs.toFixed(1)} ms (${item.count}×)`
+      )
+      .join("\n"),
+  };
+}
+
 function statusLabel({
   label,
   value,
@@ -99,6 +139,8 @@ export default function StatusBar({
   openPositionsPnl,
   totalCapital,
   strategyHeader,
+  feedConnection,
+  strategyLatency,
 }: StatusBarProps) {
   const previousHealthRef = useRef<boolean | null>(null);
   const [healthFxClass, setHealthFxClass] = useState("");
@@ -119,6 +161,8 @@ export default function StatusBar({
         ? "text-[#FFB300]"
         : "text-[#00C853]";
   const healthLabel = dataHealthSafe ? "BEZPEČNÁ" : "RIZIKOVÁ";
+  const feedLabel = feedConnection ? feedConnectionLabel(feedConnection) : null;
+  const latencyLabel = strategyLatency ? strategyLatencyLabel(strategyLatency) : null;
   const shellTone =
     riskLevel === "CRITICAL"
       ? "border-[#D32F2F]/80 bg-[#D32F2F]/10"
@@ -207,7 +251,11 @@ export default function StatusBar({
               <div className="mt-1 text-xs text-muted-foreground">
                 Režim obchodování:{" "}
                 <span className={riskTone}>
-                  {executionMode === TradingMode.AUTO_ON ? "AUTO" : "MANUÁL"}
+                  {executionMode === TradingMode.AUTO_ON
+                    ? "AUTO"
+                    : executionMode === TradingMode.PAPER
+                      ? "PAPER"
+                      : "MANUÁL"}
                 </span>
               </div>
             </div>
@@ -236,6 +284,19 @@ export default function StatusBar({
               <div className="mt-0.5 font-medium text-foreground">
                 {strategyHeader?.feed ?? "N/A"}
               </div>
+              {feedLabel ? (
+                <div
+                  className={`mt-0.5 ${feedLabel.tone}`}
+                  title={feedConnection?.lastError ?? undefined}
+                >
+                  {feedLabel.text}
+                </div>
+              ) : null}
+              {latencyLabel ? (
+                <div className={`mt-0.5 ${latencyLabel.tone}`} title={latencyLabel.title}>
+                  {latencyLabel.text}
+                </div>
+              ) : null}
             </div>
           </div>
         </div>
@@ -1,7 +1,7 @@
 import {
   State,
   Trend,
-  resampleCandles,
+  getSymbolStreams,
   type Candle,
   type EngineDecision,
   type EngineSignal,
@@ -361,8 +361,9 @@ export function evaluateAiMaticBboStrategyForSymbol(
     } as EngineDecision;
   }
 
-  const h1 = resampleCandles(candles, 60);
-  const m5 = resampleCandles(candles, 5);
+  const streams = getSymbolStreams(symbol);
+  const h1 = streams.sync(candles, 60).candles();
+  const m5 = streams.sync(candles, 5).candles();
   if (!h1.length || !m5.length) {
     return {
       state: State.Scan,
@@ -585,6 +586,7 @@ export function evaluateAiMaticBboStrategyForSymbol(
 
   const baseCoreV2 = computeCoreV2(candles, {
     riskMode: "ai-matic-bbo",
+    streams,
   });
   const coreV2 = {
     ...baseCoreV2,
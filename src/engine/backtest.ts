@@ -0,0 +1,623 @@
+import type { AISettings } from "../types";
+import {
+  computePositionSize,
+  resetStrategyState,
+  type BotConfig,
+  type Candle,
+  type EngineDecision,
+  type EngineSignal,
+} from "./botEngine";
+import { getStrategy, listStrategies } from "./strategyRegistry";
+
+export type BacktestProfile = AISettings["riskMode"];
+
+export type BacktestDecisionFn = (
+  symbol: string,
+  candles: Candle[],
+  botConfig?: Partial<BotConfig>
+) => EngineDecision;
+
+export const BACKTEST_PROFILES: BacktestProfile[] = listStrategies().map(
+  (strategy) => strategy.id
+);
+
+export type BacktestConfig = {
+  initialBalance: number;
+  riskPerTrade: number;
+  maxRiskPerTradeCap: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  slippagePct: number;
+  warmupBars: number;
+  maxCandles: number;
+  entryExpiryBars: number;
+  partialSteps: { r: number; exitFraction: number }[];
+  breakevenAfterPartial: boolean;
+  trailingActivationR: number;
+  trailingRetraceR: number;
+  maxHoldBars: number;
+  botConfig?: Partial<BotConfig>;
+};
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialBalance: 1000,
+  riskPerTrade: 0.01,
+  maxRiskPerTradeCap: 0.07,
+  makerFeeRate: 0.0002,
+  takerFeeRate: 0.00055,
+  slippagePct: 0.0005,
+  warmupBars: 300,
+  maxCandles: 2500,
+  entryExpiryBars: 3,
+  partialSteps: [{ r: 1, exitFraction: 0.35 }],
+  breakevenAfterPartial: true,
+  trailingActivationR: 1.5,
+  trailingRetraceR: 0.75,
+  maxHoldBars: 0,
+};
+
+export type BacktestExitReason = "SL" | "TP" | "TRAIL" | "BREAKEVEN" | "TIMEOUT" | "END";
+
+export type BacktestFill = {
+  time: number;
+  price: number;
+  qty: number;
+  fee: number;
+  pnl: number;
+  reason: "PARTIAL" | BacktestExitReason;
+};
+
+export type BacktestTrade = {
+  id: string;
+  symbol: string;
+  profile: BacktestProfile;
+  signalId: string;
+  side: "buy" | "sell";
+  entryType: NonNullable<EngineSignal["entryType"]>;
+  kind?: EngineSignal["kind"];
+  signalTime: number;
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  qty: number;
+  initialStop: number;
+  takeProfit: number;
+  exitReason: BacktestExitReason;
+  fills: BacktestFill[];
+  fees: number;
+  pnl: number;
+  rMultiple: number;
+  barsHeld: number;
+};
+
+export type BacktestEquityPoint = {
+  time: number;
+  equity: number;
+  balance: number;
+  drawdownPct: number;
+};
+
+export type BacktestStats = {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  profitFactor: number;
+  netPnl: number;
+  returnPct: number;
+  maxDrawdownPct: number;
+  avgR: number;
+  expectancy: number;
+  fees: number;
+  signals: number;
+  expiredOrders: number;
+  /** Bars on which the decision function threw; they are treated as no signal. */
+  decisionErrors: number;
+  firstDecisionError: string | null;
+};
+
+export type BacktestResult = {
+  symbol: string;
+  profile: BacktestProfile;
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+  stats: BacktestStats;
+};
+
+type PendingEntry = {
+  signal: EngineSignal;
+  side: "buy" | "sell";
+  entryType: NonNullable<EngineSignal["entryType"]>;
+  entry: number;
+  trigger: number;
+  sl: number;
+  tp: number;
+  createdIdx: number;
+};
+
+type OpenTrade = {
+  trade: BacktestTrade;
+  remainingQty: number;
+  stop: number;
+  riskPerUnit: number;
+  best: number;
+  partialIndex: number;
+  trailing: boolean;
+  entryIdx: number;
+};
+
+const sideSign = (side: "buy" | "sell") => (side === "buy" ? 1 : -1);
+
+function toFinite(value: unknown, fallback = Number.NaN) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Validates the signal geometry and converts it into a pending entry order.
+ */
+function buildPendingEntry(signal: EngineSignal, idx: number): PendingEntry | null {
+  const side = String(signal.intent?.side ?? "").toLowerCase() === "sell" ? "sell" : "buy";
+  const entry = toFinite(signal.intent?.entry);
+  const sl = toFinite(signal.intent?.sl);
+  const tp = toFinite(signal.intent?.tp);
+  if (!Number.isFinite(entry) || entry <= 0) return null;
+  if (!Number.isFinite(sl) || sl <= 0) return null;
+  if (side === "buy" && sl >= entry) return null;
+  if (side === "sell" && sl <= entry) return null;
+  const tpValid =
+    Number.isFinite(tp) && tp > 0 && (side === "buy" ? tp > entry : tp < entry);
+  const entryType = signal.entryType ?? "LIMIT";
+  const trigger = toFinite(signal.triggerPrice, entry);
+  return {
+    signal,
+    side,
+    entryType,
+    entry,
+    trigger,
+    sl,
+    tp: tpValid ? tp : Number.NaN,
+    createdIdx: idx,
+  };
+}
+
+/**
+ * Resolves the fill price of a pending entry on the given bar, or NaN when
+ * the bar does not reach it.
+ */
+function resolveEntryFill(pending: PendingEntry, bar: Candle, slippagePct: number) {
+  const isBuy = pending.side === "buy";
+  if (pending.entryType === "MARKET") {
+    return bar.open * (1 + (isBuy ? slippagePct : -slippagePct));
+  }
+  if (pending.entryType === "CONDITIONAL") {
+    const triggered = isBuy ? bar.high >= pending.trigger : bar.low <= pending.trigger;
+    if (!triggered) return Number.NaN;
+    const base = isBuy
+      ? Math.max(pending.trigger, bar.open)
+      : Math.min(pending.trigger, bar.open);
+    return base * (1 + (isBuy ? slippagePct : -slippagePct));
+  }
+  const touched = isBuy ? bar.low <= pending.entry : bar.high >= pending.entry;
+  if (!touched) return Number.NaN;
+  return isBuy ? Math.min(pending.entry, bar.open) : Math.max(pending.entry, bar.open);
+}
+
+function closeQty(
+  open: OpenTrade,
+  qty: number,
+  price: number,
+  time: number,
+  feeRate: number,
+  reason: BacktestFill["reason"]
+): BacktestFill {
+  const { trade } = open;
+  const fillQty = Math.min(qty, open.remainingQty);
+  const fee = fillQty * price * feeRate;
+  const gross = (price - trade.entryPrice) * fillQty * sideSign(trade.side);
+  const fill: BacktestFill = { time, price, qty: fillQty, fee, pnl: gross - fee, reason };
+  trade.fills.push(fill);
+  trade.fees += fee;
+  trade.pnl += fill.pnl;
+  open.remainingQty -= fillQty;
+  return fill;
+}
+
+function finalizeTrade(open: OpenTrade, time: number, price: number, reason: BacktestExitReason, idx: number) {
+  const { trade } = open;
+  trade.exitTime = time;
+  trade.exitPrice = price;
+  trade.exitReason = reason;
+  trade.barsHeld = idx - open.entryIdx;
+  const initialRisk = open.riskPerUnit * trade.qty;
+  trade.rMultiple = initialRisk > 0 ? trade.pnl / initialRisk : 0;
+}
+
+/**
+ * Walks one bar of an open trade: stop first (pessimistic), then partials,
+ * take-profit and finally the trailing stop update on the bar extreme.
+ * Returns the exit reason when the trade is fully closed on this bar.
+ */
+function manageOpenTrade(
+  open: OpenTrade,
+  bar: Candle,
+  idx: number,
+  cfg: BacktestConfig
+): BacktestExitReason | null {
+  const { trade } = open;
+  const isBuy = trade.side === "buy";
+  const time = bar.openTime;
+  const slip = cfg.slippagePct;
+
+  const stopHit = isBuy ? bar.low <= open.stop : bar.high >= open.stop;
+  if (stopHit) {
+    const gapPrice = isBuy ? Math.min(open.stop, bar.open) : Math.max(open.stop, bar.open);
+    const price = gapPrice * (1 + (isBuy ? -slip : slip));
+    const reason: BacktestExitReason = open.trailing
+      ? "TRAIL"
+      : (isBuy ? open.stop >= trade.entryPrice : open.stop <= trade.entryPrice)
+        ? "BREAKEVEN"
+        : "SL";
+    closeQty(open, open.remainingQty, price, time, cfg.takerFeeRate, reason);
+    finalizeTrade(open, time, price, reason, idx);
+    return reason;
+  }
+
+  while (open.partialIndex < cfg.partialSteps.length && open.remainingQty > 0) {
+    const step = cfg.partialSteps[open.partialIndex];
+    const target = trade.entryPrice + sideSign(trade.side) * step.r * open.riskPerUnit;
+    const reached = isBuy ? bar.high >= target : bar.low <= target;
+    if (!reached) break;
+    const qty = trade.qty * Math.max(0, Math.min(1, step.exitFraction));
+    closeQty(open, qty, target, time, cfg.makerFeeRate, "PARTIAL");
+    open.partialIndex += 1;
+    if (cfg.breakevenAfterPartial) {
+      open.stop = isBuy
+        ? Math.max(open.stop, trade.entryPrice)
+        : Math.min(open.stop, trade.entryPrice);
+    }
+  }
+  if (open.remainingQty <= 1e-12) {
+    const last = trade.fills[trade.fills.length - 1];
+    finalizeTrade(open, time, last?.price ?? bar.close, "TP", idx);
+    return "TP";
+  }
+
+  if (Number.isFinite(trade.takeProfit)) {
+    const tpHit = isBuy ? bar.high >= trade.takeProfit : bar.low <= trade.takeProfit;
+    if (tpHit) {
+      closeQty(open, open.remainingQty, trade.takeProfit, time, cfg.makerFeeRate, "TP");
+      finalizeTrade(open, time, trade.takeProfit, "TP", idx);
+      return "TP";
+    }
+  }
+
+  open.best = isBuy ? Math.max(open.best, bar.high) : Math.min(open.best, bar.low);
+  const favorableR = ((open.best - trade.entryPrice) * sideSign(trade.side)) / open.riskPerUnit;
+  if (cfg.trailingActivationR > 0 && favorableR >= cfg.trailingActivationR) {
+    const trailStop = open.best - sideSign(trade.side) * cfg.trailingRetraceR * open.riskPerUnit;
+    const improves = isBuy ? trailStop > open.stop : trailStop < open.stop;
+    if (improves) {
+      open.stop = trailStop;
+      open.trailing = true;
+    }
+  }
+
+  if (cfg.maxHoldBars > 0 && idx - open.entryIdx >= cfg.maxHoldBars) {
+    closeQty(open, open.remainingQty, bar.close, time, cfg.takerFeeRate, "TIMEOUT");
+    finalizeTrade(open, time, bar.close, "TIMEOUT", idx);
+    return "TIMEOUT";
+  }
+  return null;
+}
+
+function unrealizedPnl(open: OpenTrade | null, price: number) {
+  if (!open) return 0;
+  return (price - open.trade.entryPrice) * open.remainingQty * sideSign(open.trade.side);
+}
+
+/**
+ * Computes aggregate statistics for a finished backtest.
+ */
+export function computeBacktestStats(
+  trades: BacktestTrade[],
+  equityCurve: BacktestEquityPoint[],
+  initialBalance: number,
+  extras: {
+    signals?: number;
+    expiredOrders?: number;
+    decisionErrors?: number;
+    firstDecisionError?: string | null;
+  } = {}
+): BacktestStats {
+  const wins = trades.filter((t) => t.pnl > 0);
+  const losses = trades.filter((t) => t.pnl <= 0);
+  const grossWin = wins.reduce((s, t) => s + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((s, t) => s + t.pnl, 0));
+  const netPnl = trades.reduce((s, t) => s + t.pnl, 0);
+  const fees = trades.reduce((s, t) => s + t.fees, 0);
+  const maxDrawdownPct = equityCurve.reduce((m, p) => Math.max(m, p.drawdownPct), 0);
+  const avgR = trades.length
+    ? trades.reduce((s, t) => s + t.rMultiple, 0) / trades.length
+    : 0;
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length ? wins.length / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : grossWin > 0 ? Number.POSITIVE_INFINITY : 0,
+    netPnl,
+    returnPct: initialBalance > 0 ? netPnl / initialBalance : 0,
+    maxDrawdownPct,
+    avgR,
+    expectancy: trades.length ? netPnl / trades.length : 0,
+    fees,
+    signals: extras.signals ?? 0,
+    expiredOrders: extras.expiredOrders ?? 0,
+    decisionErrors: extras.decisionErrors ?? 0,
+    firstDecisionError: extras.firstDecisionError ?? null,
+  };
+}
+
+/**
+ * Replays closed candles bar-by-bar through a strategy profile and simulates
+ * fills, SL/TP, partial exits and trailing from the emitted EngineSignal.
+ *
+ * The decision on bar i only sees candles up to and including bar i; orders
+ * are filled from bar i + 1 onwards, so there is no look-ahead.
+ */
+export function runBacktest(args: {
+  symbol: string;
+  candles: Candle[];
+  profile: BacktestProfile;
+  config?: Partial<BacktestConfig>;
+  decisionFn?: BacktestDecisionFn;
+}): BacktestResult {
+  const cfg: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...args.config };
+  const decisionFn = args.decisionFn ?? getStrategy(args.profile)?.decide;
+  if (!decisionFn) throw new Error(`unknown_profile:${args.profile}`);
+  const candles = [...args.candles]
+    .filter((c) => Number.isFinite(c?.openTime) && Number.isFinite(c?.close))
+    .sort((a, b) => a.openTime - b.openTime);
+  const riskPct = Math.min(cfg.riskPerTrade, cfg.maxRiskPerTradeCap);
+
+  resetStrategyState(args.symbol);
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestEquityPoint[] = [];
+  let balance = cfg.initialBalance;
+  let peak = balance;
+  let pending: PendingEntry | null = null;
+  let open: OpenTrade | null = null;
+  let signals = 0;
+  let expiredOrders = 0;
+  let decisionErrors = 0;
+  let firstDecisionError: string | null = null;
+  const seenSignals = new Set<string>();
+
+  for (let i = 0; i < candles.length; i++) {
+    const bar = candles[i];
+
+    if (pending && !open) {
+      const fillPrice = resolveEntryFill(pending, bar, cfg.slippagePct);
+      if (Number.isFinite(fillPrice) && fillPrice > 0) {
+        const isMaker =
+          pending.entryType === "LIMIT" || pending.entryType === "LIMIT_MAKER_FIRST";
+        const feeRate = isMaker ? cfg.makerFeeRate : cfg.takerFeeRate;
+        const riskPerUnit = Math.abs(fillPrice - pending.sl);
+        const stopOnWrongSide =
+          pending.side === "buy" ? pending.sl >= fillPrice : pending.sl <= fillPrice;
+        const qty = stopOnWrongSide
+          ? 0
+          : computePositionSize(balance, riskPct, fillPrice, pending.sl, feeRate, cfg.slippagePct);
+        if (qty > 0 && riskPerUnit > 0) {
+          const entryFee = qty * fillPrice * feeRate;
+          const trade: BacktestTrade = {
+            id: `${args.symbol}-${args.profile}-${trades.length + 1}`,
+            symbol: args.symbol,
+            profile: args.profile,
+            signalId: pending.signal.id,
+            side: pending.side,
+            entryType: pending.entryType,
+            kind: pending.signal.kind,
+            signalTime: candles[pending.createdIdx].openTime,
+            entryTime: bar.openTime,
+            entryPrice: fillPrice,
+            exitTime: bar.openTime,
+            exitPrice: fillPrice,
+            qty,
+            initialStop: pending.sl,
+            takeProfit: pending.tp,
+            exitReason: "END",
+            fills: [],
+            fees: entryFee,
+            pnl: -entryFee,
+            rMultiple: 0,
+            barsHeld: 0,
+          };
+          open = {
+            trade,
+            remainingQty: qty,
+            stop: pending.sl,
+            riskPerUnit,
+            best: fillPrice,
+            partialIndex: 0,
+            trailing: false,
+            entryIdx: i,
+          };
+        }
+        pending = null;
+      } else if (i - pending.createdIdx > cfg.entryExpiryBars) {
+        pending = null;
+        expiredOrders += 1;
+      }
+    }
+
+    if (open) {
+      const exit = manageOpenTrade(open, bar, i, cfg);
+      if (exit) {
+        balance += open.trade.pnl;
+        trades.push(open.trade);
+        open = null;
+      }
+    }
+
+    if (i >= cfg.warmupBars - 1) {
+      const window = candles.slice(Math.max(0, i + 1 - cfg.maxCandles), i + 1);
+      let decision: EngineDecision | null = null;
+      try {
+        decision = decisionFn(args.symbol, window, cfg.botConfig);
+      } catch (err) {
+        decision = null;
+        decisionErrors += 1;
+        if (firstDecisionError === null) {
+          firstDecisionError = `bar ${i}: ${err instanceof Error ? err.message : String(err)}`;
+        }
+      }
+      const signal = decision?.signal;
+      if (signal && !signal.blocked && !open && !pending) {
+        const signalKey = `${signal.intent?.side}:${signal.intent?.entry}:${signal.intent?.sl}`;
+        if (!seenSignals.has(signalKey)) {
+          seenSignals.add(signalKey);
+          signals += 1;
+          pending = buildPendingEntry(signal, i);
+        }
+      }
+    }
+
+    const equity = balance + unrealizedPnl(open, bar.close);
+    peak = Math.max(peak, equity);
+    equityCurve.push({
+      time: bar.openTime,
+      equity,
+      balance,
+      drawdownPct: peak > 0 ? (peak - equity) / peak : 0,
+    });
+  }
+
+  if (open) {
+    const last = candles[candles.length - 1];
+    closeQty(open, open.remainingQty, last.close, last.openTime, cfg.takerFeeRate, "END");
+    finalizeTrade(open, last.openTime, last.close, "END", candles.length - 1);
+    balance += open.trade.pnl;
+    trades.push(open.trade);
+    const tail = equityCurve[equityCurve.length - 1];
+    if (tail) {
+      tail.balance = balance;
+      tail.equity = balance;
+    }
+  }
+
+  return {
+    symbol: args.symbol,
+    profile: args.profile,
+    config: cfg,
+    trades,
+    equityCurve,
+    stats: computeBacktestStats(trades, equityCurve, cfg.initialBalance, {
+      signals,
+      expiredOrders,
+      decisionErrors,
+      firstDecisionError,
+    }),
+  };
+}
+
+/**
+ * Runs the same candle set through several profiles for side-by-side comparison.
+ */
+export function runBacktestForProfiles(args: {
+  symbol: string;
+  candles: Candle[];
+  profiles?: BacktestProfile[];
+  config?: Partial<BacktestConfig>;
+}): BacktestResult[] {
+  const profiles = args.profiles?.length ? args.profiles : BACKTEST_PROFILES;
+  return profiles.map((profile) =>
+    runBacktest({
+      symbol: args.symbol,
+      candles: args.candles,
+      profile,
+      config: args.config,
+    })
+  );
+}
+
+function parseTimestamp(value: unknown): number {
+  const n = Number(value);
+  if (Number.isFinite(n)) {
+    // Seconds → ms for exports that use unix seconds.
+    return n < 1e11 ? n * 1000 : n;
+  }
+  const parsed = Date.parse(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+function toCandle(row: Record<string, unknown>): Candle | null {
+  const openTime = parseTimestamp(
+    row.openTime ?? row.open_time ?? row.timestamp ?? row.time ?? row.start ?? row.ts
+  );
+  const open = toFinite(row.open ?? row.o);
+  const high = toFinite(row.high ?? row.h);
+  const low = toFinite(row.low ?? row.l);
+  const close = toFinite(row.close ?? row.c);
+  const volume = toFinite(row.volume ?? row.v, 0);
+  if (![openTime, open, high, low, close].every(Number.isFinite)) return null;
+  return { openTime, open, high, low, close, volume };
+}
+
+/**
+ * Parses candles from a CSV export. The header must name the columns
+ * (openTime/timestamp/time, open, high, low, close, volume).
+ */
+export function parseCandlesCsv(text: string): Candle[] {
+  const lines = String(text ?? "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length < 2) return [];
+  const header = lines[0].split(/[,;]/).map((h) => h.trim().replace(/^"|"$/g, ""));
+  const out: Candle[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(/[,;]/).map((c) => c.trim().replace(/^"|"$/g, ""));
+    const row: Record<string, unknown> = {};
+    header.forEach((key, idx) => {
+      row[key] = cells[idx];
+    });
+    const candle = toCandle(row);
+    if (candle) out.push(candle);
+  }
+  return out.sort((a, b) => a.openTime - b.openTime);
+}
+
+/**
+ * Parses candles from JSON: either Candle objects or Bybit kline rows
+ * ([start, open, high, low, close, volume, ...]), optionally wrapped in
+ * `result.list`.
+ */
+export function parseCandlesJson(text: string): Candle[] {
+  const json = JSON.parse(String(text ?? "[]"));
+  const rows: unknown[] = Array.isArray(json)
+    ? json
+    : Array.isArray(json?.result?.list)
+      ? json.result.list
+      : Array.isArray(json?.candles)
+        ? json.candles
+        : [];
+  const out: Candle[] = [];
+  for (const row of rows) {
+    if (Array.isArray(row)) {
+      const [start, open, high, low, close, volume] = row;
+      const candle = toCandle({ openTime: start, open, high, low, close, volume });
+      if (candle) out.push(candle);
+      continue;
+    }
+    if (row && typeof row === "object") {
+      const candle = toCandle(row as Record<string, unknown>);
+      if (candle) out.push(candle);
+    }
+  }
+  return out.sort((a, b) => a.openTime - b.openTime);
+}
@@ -1,7 +1,6 @@
 import { computeEma, computeRsi, computeATR, computeADX } from "./ta";
-import { evaluateAiMaticProStrategyForSymbol } from "./aiMaticProStrategy";
-import { evaluateAiMaticAmdStrategyForSymbol } from "./aiMaticAmdStrategy";
-import { evaluateAiMaticBboStrategyForSymbol } from "./aiMaticBboStrategy";
+import { getStrategy } from "./strategyRegistry";
+import { createSymbolStreams, type SymbolStreams } from "./streamingIndicators";
 
 export enum Trend {
   Bull = "bull",
@@ -544,6 +543,9 @@ export function computeTimeOfDayVolumeGate(
  */
 export type DataFrame = Candle[];
 
+/** ADX a EMA200 zarovnané s rámcem pro výpočet trendu. */
+export type TrendSeries = { adx: number[]; ema200: number[] };
+
 export type PortfolioSide = "bull" | "bear";
 
 export type PortfolioExposure = {
@@ -590,11 +592,24 @@ function pairCorrelationKey(symbolA: string, symbolB: string): string {
   return a < b ? `${a}|${b}` : `${b}|${a}`;
 }
 
-export function resolvePairCorrelation(symbolA: string, symbolB: string): number {
+/** Živá korelace páru (correlation.ts); NaN = zatím bez dat. */
+export type PairCorrelationLookup = (symbolA: string, symbolB: string) => number;
+
+/**
+ * Korelace páru z živé matice; statická tabulka slouží jen jako záloha,
+ * dokud buffery svíček nemají dost společných výnosů.
+ */
+export function resolvePairCorrelation(
+  symbolA: string,
+  symbolB: string,
+  live?: PairCorrelationLookup
+): number {
   const a = normalizeSymbol(symbolA);
   const b = normalizeSymbol(symbolB);
   if (!a || !b) return Number.NaN;
   if (a === b) return 1;
+  const measured = live ? live(a, b) : Number.NaN;
+  if (Number.isFinite(measured)) return measured;
   return PAIRWISE_CORRELATION_MAP[pairCorrelationKey(a, b)] ?? 0.65;
 }
 
@@ -605,6 +620,7 @@ export function computeCorrelatedExposureScale(args: {
   minCorrelation?: number;
   minScale?: number;
   skipSymbols?: string[];
+  correlation?: PairCorrelationLookup;
 }): CorrelatedExposureScale {
   const threshold = Number.isFinite(args.minCorrelation)
     ? Math.max(0, Math.min(1, args.minCorrelation as number))
@@ -621,7 +637,7 @@ export function computeCorrelatedExposureScale(args: {
     const symbol = normalizeSymbol(exposure?.symbol ?? "");
     if (!symbol || symbol === target || skip.has(symbol)) continue;
     if (exposure?.side !== args.targetSide) continue;
-    const corr = resolvePairCorrelation(target, symbol);
+    const corr = resolvePairCorrelation(target, symbol, args.correlation);
     if (!Number.isFinite(corr) || corr < threshold) continue;
     correlated.add(symbol);
     strongest = Number.isFinite(strongest) ? Math.max(strongest, corr) : corr;
@@ -860,7 +876,7 @@ export class TradingBot {
     this.history[timeframe] = data;
   }
 
-  private computeTrendMetrics(df: DataFrame): {
+  private computeTrendMetrics(df: DataFrame, series?: TrendSeries): {
     trend: Trend;
     score: number;
     adx: number;
@@ -869,11 +885,12 @@ export class TradingBot {
       return { trend: Trend.Range, score: 0, adx: Number.NaN };
     }
     const closes = df.map((c) => c.close);
-    const highs = df.map((c) => c.high);
-    const lows = df.map((c) => c.low);
-    const adxArray = computeADX(highs, lows, closes, this.config.adxPeriod);
+    const aligned = series?.adx.length === df.length && series.ema200.length === df.length;
+    const adxArray = aligned
+      ? series.adx
+      : computeADX(df.map((c) => c.high), df.map((c) => c.low), closes, this.config.adxPeriod);
     const currentAdx = adxArray[adxArray.length - 1];
-    const ema200Arr = computeEma(closes, 200);
+    const ema200Arr = aligned ? series.ema200 : computeEma(closes, 200);
     const confirmBars = Math.max(1, this.config.emaTrendConfirmBars ?? 2);
     const breakoutLookback = Math.max(
       confirmBars + 1,
@@ -936,8 +953,15 @@ export class TradingBot {
     return this.computeTrendMetrics(df).trend;
   }
 
-  getTrendMetrics(df: DataFrame): { trend: Trend; score: number; adx: number } {
-    return this.computeTrendMetrics(df);
+  /**
+   * `series` = předpočítané ADX/EMA200 zarovnané s `df` (streamingIndicators);
+   * bez nich se počítají z celého rámce.
+   */
+  getTrendMetrics(
+    df: DataFrame,
+    series?: TrendSeries
+  ): { trend: Trend; score: number; adx: number } {
+    return this.computeTrendMetrics(df, series);
   }
 
   private isVolatileChaos(df: DataFrame): boolean {
@@ -969,11 +993,11 @@ export class TradingBot {
   }
 
   private openPositionsCount(): number {
-    return Object.values(botRegistry).filter((b) => b.getPosition()).length;
+    return Array.from(botRegistry.values()).filter((b) => b.getPosition()).length;
   }
 
   private aggregateOpenRisk(): number {
-    return Object.values(botRegistry).reduce((sum, bot) => {
+    return Array.from(botRegistry.values()).reduce((sum, bot) => {
       const pos = bot.getPosition();
       if (!pos) return sum;
       const protectiveStop =
@@ -1127,7 +1151,7 @@ export class TradingBot {
 
     // BTC Correlation Check (Active Position)
     if (this.config.symbol !== "BTCUSDT") {
-      const btcBot = botRegistry["BTCUSDT"];
+      const btcBot = botRegistry.get("BTCUSDT");
       const btcPos = btcBot?.getPosition();
       // Strict: Close if BTC is flat OR side differs
       if (!btcPos || btcPos.side !== this.position.side) {
@@ -1976,7 +2000,7 @@ export class TradingBot {
 
       // BTC Correlation Check
       if (this.config.symbol !== "BTCUSDT") {
-        const btcBot = botRegistry["BTCUSDT"];
+        const btcBot = botRegistry.get("BTCUSDT");
         const btcPos = btcBot?.getPosition();
         const isDecoupling = btcBot ? btcBot.getDecouplingMode() : false;
 
@@ -2279,15 +2303,43 @@ export type EngineDecision = {
   [key: string]: any;
 };
 
-const botRegistry: Record<string, TradingBot> = {};
+const botRegistry = new Map<string, TradingBot>();
+// Inkrementální resampling a indikátory per symbol (streamingIndicators).
+const streamRegistry = new Map<string, SymbolStreams>();
+
+/** Sdílené rámce symbolu pro strategie; zahodí je resetStrategyState. */
+export function getSymbolStreams(symbol: string): SymbolStreams {
+  let streams = streamRegistry.get(symbol);
+  if (!streams) {
+    streams = createSymbolStreams();
+    streamRegistry.set(symbol, streams);
+  }
+  return streams;
+}
 
 function ensureBot(symbol: string, config?: Partial<BotConfig>): TradingBot {
-  if (!botRegistry[symbol]) {
-    botRegistry[symbol] = new TradingBot({ symbol, ...config });
+  let bot = botRegistry.get(symbol);
+  if (!bot) {
+    bot = new TradingBot({ symbol, ...config });
+    botRegistry.set(symbol, bot);
   } else if (config) {
-    botRegistry[symbol].updateConfig({ symbol, ...config });
+    bot.updateConfig({ symbol, ...config });
   }
-  return botRegistry[symbol];
+  return bot;
+}
+
+/**
+ * Drops cached TradingBot state so a replay (backtest) starts from SCAN.
+ * Without a symbol all registered bots are cleared.
+ */
+export function resetStrategyState(symbol?: string) {
+  if (symbol) {
+    botRegistry.delete(symbol);
+    streamRegistry.delete(symbol);
+    return;
+  }
+  botRegistry.clear();
+  streamRegistry.clear();
 }
 
 /**
@@ -2303,25 +2355,21 @@ export function evaluateStrategyForSymbol(
   const bot = ensureBot(symbol, config);
   const botConfig = bot.getConfig();
 
-  if (botConfig.strategyProfile === "ai-matic-amd") {
-    return evaluateAiMaticAmdStrategyForSymbol(symbol, candles);
+  // Profiles with a standalone evaluator go through the strategy registry.
+  const strategy = getStrategy(botConfig.strategyProfile);
+  if (strategy && !strategy.botEngine) {
+    return strategy.decide(symbol, candles, botConfig);
   }
 
-  if (botConfig.strategyProfile === "ai-matic-bbo") {
-    return evaluateAiMaticBboStrategyForSymbol(symbol, candles);
-  }
-
-  // INTEGRACE AI-MATIC-PRO
-  if (botConfig.strategyProfile === "ai-matic-pro") {
-    const entryTfMin = timeframeToMinutes(botConfig.aiMaticEntryTimeframe ?? "5m");
-    return evaluateAiMaticProStrategyForSymbol(symbol, candles, { entryTfMin });
-  }
+  // Rámce se přepočítají jen o změny bufferu od minulého volání.
+  const streams = getSymbolStreams(symbol);
+  const resample = (tfMin: number) => streams.sync(candles, tfMin).candles();
 
   const useMultiTf = botConfig.aiMaticMultiTf;
   const tfBaseMin = timeframeToMinutes(
     botConfig.aiMaticHtfTimeframe ?? botConfig.baseTimeframe
   );
-  const ht = resampleCandles(candles, tfBaseMin);
+  const ht = resample(tfBaseMin);
   if (!ht.length) {
     return {
       state: bot.getState(),
@@ -2345,9 +2393,9 @@ export function evaluateStrategyForSymbol(
     const tfExecMin = timeframeToMinutes(
       botConfig.aiMaticExecTimeframe ?? "5m"//botConfig.signalTimeframe
     );
-    const mid = resampleCandles(candles, tfMidMin);
-    const lt = resampleCandles(candles, tfLtfMin);
-    const exec = resampleCandles(candles, tfExecMin);
+    const mid = resample(tfMidMin);
+    const lt = resample(tfLtfMin);
+    const exec = resample(tfExecMin);
     if (!mid.length || !lt.length || !exec.length) {
       return {
         state: bot.getState(),
@@ -2361,7 +2409,7 @@ export function evaluateStrategyForSymbol(
     bot.stepWithMultiFrames(ht, mid, lt, exec);
   } else {
     const tfSigMin = timeframeToMinutes(botConfig.signalTimeframe);
-    const lt = resampleCandles(candles, tfSigMin);
+    const lt = resample(tfSigMin);
     if (!lt.length) {
       return {
         state: bot.getState(),
@@ -2375,8 +2423,14 @@ export function evaluateStrategyForSymbol(
     bot.stepWithFrames(ht, lt);
   }
 
-  const trendFrame = resampleCandles(candles, 5);
-  const trendMetrics = bot.getTrendMetrics(trendFrame.length ? trendFrame : ht);
+  const trendStream = streams.sync(candles, 5);
+  const trendFrame = trendStream.candles();
+  const trendMetrics = trendFrame.length
+    ? bot.getTrendMetrics(trendFrame, {
+        adx: trendStream.series({ type: "adx", period: botConfig.adxPeriod }),
+        ema200: trendStream.series({ type: "ema", period: 200 }),
+      })
+    : bot.getTrendMetrics(ht);
 
   const trend = trendMetrics.trend;
 
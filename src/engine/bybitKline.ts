@@ -1,4 +1,5 @@
 import type { Candle } from "./botEngine";
+import type { CandleStore } from "./candleStore";
 
 export const highest = (values: number[]): number => {
   if (!values.length) throw new Error("highest: empty input");
@@ -142,11 +143,29 @@ type FetchClosedWindowArgs = {
   tfMin: number;
   barsNeeded: number;
   nowMs?: number;
+  /** Uzavřené svíčky se čtou ze storu, z burzy se stahuje jen chybějící konec. */
+  store?: CandleStore | null;
 };
 
 export async function fetchClosedWindow(args: FetchClosedWindowArgs): Promise<BybitKline[]> {
   const nowMs = args.nowMs ?? Date.now();
   const interval = tfMinToBybitInterval(args.tfMin);
+  if (args.store) {
+    const { candles } = await args.store.loadWindow(args.symbol, interval, {
+      bars: args.barsNeeded,
+      nowMs,
+      fetchPage: ({ end, limit }) =>
+        getKlinePage({
+          baseUrl: args.baseUrl,
+          category: args.category,
+          symbol: args.symbol,
+          interval,
+          end,
+          limit,
+        }),
+    });
+    return candles.map(candleToBybitKline);
+  }
   let collected: BybitKline[] = [];
   let end = nowMs;
   const pageLimit = 1000;
@@ -242,6 +261,7 @@ type PrepareTodArgs = {
   volumeP50: number;
   volumeP60: number;
   nowMs?: number;
+  store?: CandleStore | null;
 };
 
 export async function prepareTodMetrics(args: PrepareTodArgs): Promise<TodBaselineResult> {
@@ -254,6 +274,7 @@ export async function prepareTodMetrics(args: PrepareTodArgs): Promise<TodBaseli
     tfMin: args.tfMin,
     barsNeeded,
     nowMs: args.nowMs,
+    store: args.store,
   });
 
   return buildTodBaseline({
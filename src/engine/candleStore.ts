@@ -0,0 +1,214 @@
+// src/engine/candleStore.ts
+// Typovaný obal nad candleStoreEngine.js a IndexedDB backend pro prohlížeč.
+// Server ukládá svíčky do append-only souborů (server/candleStore.js).
+
+import type { Candle } from "./botEngine";
+import * as engine from "./candleStoreEngine.js";
+
+export type CandleRange = {
+  /** openTime první svíčky (včetně). */
+  from?: number;
+  /** openTime poslední svíčky (včetně). */
+  to?: number;
+  /** Jen posledních N svíček z rozsahu. */
+  limit?: number;
+};
+
+export type CandleGap = {
+  /** openTime první chybějící svíčky. */
+  from: number;
+  /** openTime poslední chybějící svíčky. */
+  to: number;
+  missing: number;
+};
+
+/** Jedna stránka z burzy: svíčky s openTime <= end (nejvýš `limit`). */
+export type CandlePageFetcher = (req: { end: number; limit: number }) => Promise<unknown[]>;
+
+export type CandleStoreBackend = {
+  load: (key: string) => Promise<Candle[]>;
+  append: (key: string, candles: Candle[]) => Promise<void>;
+  replace: (key: string, candles: Candle[]) => Promise<void>;
+  keys: () => Promise<string[]>;
+};
+
+export type LoadWindowOptions = {
+  /** Počet uzavřených svíček v okně. */
+  bars: number;
+  fetchPage: CandlePageFetcher;
+  /** Přidá i právě tvořenou svíčku, pokud ji burza vrátila. */
+  includeOpen?: boolean;
+  maxPages?: number;
+  pageLimit?: number;
+  nowMs?: number;
+};
+
+export type LoadWindowResult = {
+  candles: Candle[];
+  fromStore: number;
+  fetched: number;
+  written: number;
+  gaps: CandleGap[];
+  error: string | null;
+};
+
+export type CandleStore = {
+  read: (symbol: string, interval: string, range?: CandleRange) => Promise<Candle[]>;
+  write: (symbol: string, interval: string, candles: Candle[]) => Promise<number>;
+  findGaps: (symbol: string, interval: string, range?: CandleRange) => Promise<CandleGap[]>;
+  repairGaps: (
+    symbol: string,
+    interval: string,
+    opts: {
+      fetchPage: CandlePageFetcher;
+      from?: number;
+      to?: number;
+      maxPages?: number;
+      pageLimit?: number;
+    }
+  ) => Promise<number>;
+  loadWindow: (
+    symbol: string,
+    interval: string,
+    opts: LoadWindowOptions
+  ) => Promise<LoadWindowResult>;
+  importCsv: (symbol: string, interval: string, text: string) => Promise<number>;
+  exportCsv: (symbol: string, interval: string, range?: CandleRange) => Promise<string>;
+  keys: () => Promise<string[]>;
+};
+
+export const DEFAULT_MAX_STORED_CANDLES: number = engine.DEFAULT_MAX_STORED_CANDLES;
+export const CANDLE_CSV_HEADER: string = engine.CANDLE_CSV_HEADER;
+
+export const intervalToMs = (interval: string | number): number =>
+  engine.intervalToMs(interval);
+
+export const candleSeriesKey = (symbol: string, interval: string | number): string =>
+  engine.candleSeriesKey(symbol, interval);
+
+export const normalizeStoredCandle = (raw: unknown): Candle | null =>
+  engine.normalizeStoredCandle(raw);
+
+export const mergeCandleSeries = (...lists: unknown[][]): Candle[] =>
+  engine.mergeCandleSeries(...lists);
+
+export const findCandleGaps = (
+  candles: Candle[],
+  interval: string | number,
+  range?: { from?: number; to?: number }
+): CandleGap[] => engine.findCandleGaps(candles, interval, range);
+
+export const parseCandleCsv = (text: string): Candle[] => engine.parseCandleCsv(text);
+
+export const formatCandleCsv = (candles: Candle[]): string => engine.formatCandleCsv(candles);
+
+export const createMemoryCandleBackend = (): CandleStoreBackend =>
+  engine.createMemoryCandleBackend();
+
+export const createCandleStore = (args?: {
+  backend?: CandleStoreBackend;
+  now?: () => number;
+  maxCandles?: number;
+}): CandleStore => engine.createCandleStore(args);
+
+// ---------------------------------------------------------------------------
+// IndexedDB (prohlížeč)
+// ---------------------------------------------------------------------------
+
+const IDB_STORE = "candles";
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("indexeddb_request_failed"));
+  });
+}
+
+/**
+ * Svíčky v IndexedDB, jeden záznam na svíčku s klíčem [series, openTime],
+ * takže append je jen put změněných svíček.
+ */
+export function createIndexedDbCandleBackend(
+  dbName: string,
+  factory: IDBFactory = indexedDB
+): CandleStoreBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!dbPromise) {
+      const request = factory.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(IDB_STORE, {
+          keyPath: ["series", "openTime"],
+        });
+        store.createIndex("series", "series");
+      };
+      dbPromise = requestResult(request);
+    }
+    return dbPromise;
+  };
+  const transaction = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(IDB_STORE, mode);
+  const done = (tx: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error ?? new Error("indexeddb_transaction_failed"));
+      tx.onabort = () => reject(tx.error ?? new Error("indexeddb_transaction_aborted"));
+    });
+  const put = (store: IDBObjectStore, key: string, candles: Candle[]) => {
+    for (const candle of candles) store.put({ series: key, ...candle });
+  };
+
+  return {
+    async load(key) {
+      const tx = await transaction("readonly");
+      const rows = await requestResult(
+        tx.objectStore(IDB_STORE).index("series").getAll(IDBKeyRange.only(key))
+      );
+      return rows.map((row: Candle) => ({
+        openTime: row.openTime,
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        volume: row.volume,
+      }));
+    },
+    async append(key, candles) {
+      const tx = await transaction("readwrite");
+      put(tx.objectStore(IDB_STORE), key, candles);
+      await done(tx);
+    },
+    async replace(key, candles) {
+      const tx = await transaction("readwrite");
+      const store = tx.objectStore(IDB_STORE);
+      store.delete(IDBKeyRange.bound([key, -Infinity], [key, Infinity]));
+      put(store, key, candles);
+      await done(tx);
+    },
+    async keys() {
+      const tx = await transaction("readonly");
+      const keys = await requestResult(
+        tx.objectStore(IDB_STORE).index("series").getAllKeys()
+      );
+      return Array.from(new Set(keys.map((k) => String((k as unknown[])[0]))));
+    },
+  };
+}
+
+const browserStores = new Map<string, CandleStore>();
+
+/**
+ * Sdílený store pro danou burzu (testnet má vlastní data); null tam, kde
+ * IndexedDB není (Node, testy, privátní režim některých prohlížečů).
+ */
+export function getBrowserCandleStore(venue: string): CandleStore | null {
+  if (typeof indexedDB === "undefined") return null;
+  let store = browserStores.get(venue);
+  if (!store) {
+    store = createCandleStore({
+      backend: createIndexedDbCandleBackend(`ai-matic-candles:${venue}`),
+    });
+    browserStores.set(venue, store);
+  }
+  return store;
+}
@@ -0,0 +1,412 @@
+// Candle store shared by the browser feed, the server aggregator and the
+// backtests. Series are keyed by symbol and interval (minutes, e.g. "5");
+// a backend persists them:
+//   load(key)              -> candles (any order, duplicates allowed: last wins)
+//   append(key, candles)   -> adds new/changed candles
+//   replace(key, candles)  -> rewrites the series (compaction, retention)
+//   keys()                 -> stored keys
+// The server uses append-only files (server/candleStore.js), the browser
+// IndexedDB (candleStore.ts); createMemoryCandleBackend serves tests and
+// runtimes without storage. loadWindow reads the store first and asks the
+// exchange (`fetchPage`) only for the missing tail, the missing history
+// before the oldest stored bar and gaps inside the window.
+
+export const DEFAULT_MAX_STORED_CANDLES = 100_000;
+export const CANDLE_CSV_HEADER = 'openTime,open,high,low,close,volume';
+
+const DEFAULT_PAGE_LIMIT = 1000;
+const DEFAULT_MAX_PAGES = 10;
+
+/** Interval in minutes ("5", 5, "60") or Bybit letters ("D", "W") to ms. */
+export function intervalToMs(interval) {
+  const raw = String(interval ?? '').trim().toUpperCase();
+  if (raw === 'D') return 24 * 60 * 60_000;
+  if (raw === 'W') return 7 * 24 * 60 * 60_000;
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error(`candle_store_invalid_interval:${interval}`);
+  }
+  return minutes * 60_000;
+}
+
+export function candleSeriesKey(symbol, interval) {
+  const sym = String(symbol ?? '').trim().toUpperCase();
+  if (!sym) throw new Error('candle_store_invalid_symbol');
+  intervalToMs(interval);
+  return `${sym}:${String(interval).trim().toUpperCase()}`;
+}
+
+function toFinite(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+/** Candle object or Bybit kline row to a Candle; null when unusable. */
+export function normalizeStoredCandle(raw) {
+  const row = Array.isArray(raw)
+    ? { openTime: raw[0], open: raw[1], high: raw[2], low: raw[3], close: raw[4], volume: raw[5] }
+    : raw ?? {};
+  const candle = {
+    openTime: toFinite(row.openTime ?? row.startTime ?? row.start),
+    open: toFinite(row.open),
+    high: toFinite(row.high),
+    low: toFinite(row.low),
+    close: toFinite(row.close),
+    volume: toFinite(row.volume ?? 0),
+  };
+  if (![candle.openTime, candle.open, candle.high, candle.low, candle.close].every(Number.isFinite)) {
+    return null;
+  }
+  if (!Number.isFinite(candle.volume)) candle.volume = 0;
+  return candle;
+}
+
+function sameCandle(a, b) {
+  return (
+    a.open === b.open &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.close === b.close &&
+    a.volume === b.volume
+  );
+}
+
+/** Sorted, de-duplicated (last wins) copy of `candles`. */
+export function mergeCandleSeries(...lists) {
+  const byTime = new Map();
+  for (const list of lists) {
+    for (const raw of list ?? []) {
+      const candle = normalizeStoredCandle(raw);
+      if (candle) byTime.set(candle.openTime, candle);
+    }
+  }
+  return [...byTime.values()].sort((a, b) => a.openTime - b.openTime);
+}
+
+/**
+ * Missing bars between consecutive candles: `from`/`to` are the open times
+ * of the first and last missing bar.
+ */
+export function findCandleGaps(candles, interval, { from, to } = {}) {
+  const step = intervalToMs(interval);
+  const gaps = [];
+  for (let i = 1; i < candles.length; i += 1) {
+    const prev = candles[i - 1].openTime;
+    const next = candles[i].openTime;
+    if (next - prev <= step) continue;
+    const gap = { from: prev + step, to: next - step, missing: Math.round((next - prev) / step) - 1 };
+    if (from != null && gap.to < from) continue;
+    if (to != null && gap.from > to) continue;
+    gaps.push(gap);
+  }
+  return gaps;
+}
+
+function parseTimestamp(value) {
+  const n = Number(value);
+  if (Number.isFinite(n)) return n < 1e11 ? n * 1000 : n;
+  const parsed = Date.parse(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+/** Parses a CSV with a header naming openTime/timestamp/time/start and OHLCV columns. */
+export function parseCandleCsv(text) {
+  const lines = String(text ?? '')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length < 2) return [];
+  const header = lines[0].split(/[,;]/).map((h) => h.trim().replace(/^"|"$/g, '').toLowerCase());
+  const column = (...names) => header.findIndex((h) => names.includes(h));
+  const idx = {
+    time: column('opentime', 'open_time', 'timestamp', 'time', 'start', 'ts'),
+    open: column('open', 'o'),
+    high: column('high', 'h'),
+    low: column('low', 'l'),
+    close: column('close', 'c'),
+    volume: column('volume', 'v'),
+  };
+  if ([idx.time, idx.open, idx.high, idx.low, idx.close].some((i) => i < 0)) {
+    throw new Error('candle_csv_missing_columns');
+  }
+  const out = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(/[,;]/).map((c) => c.trim().replace(/^"|"$/g, ''));
+    const candle = normalizeStoredCandle({
+      openTime: parseTimestamp(cells[idx.time]),
+      open: cells[idx.open],
+      high: cells[idx.high],
+      low: cells[idx.low],
+      close: cells[idx.close],
+      volume: idx.volume >= 0 ? cells[idx.volume] : 0,
+    });
+    if (candle) out.push(candle);
+  }
+  return mergeCandleSeries(out);
+}
+
+export function formatCandleCsv(candles) {
+  const rows = candles.map((c) =>
+    [c.openTime, c.open, c.high, c.low, c.close, c.volume].join(',')
+  );
+  return `${[CANDLE_CSV_HEADER, ...rows].join('\n')}\n`;
+}
+
+export function createMemoryCandleBackend() {
+  const series = new Map();
+  return {
+    async load(key) {
+      return (series.get(key) ?? []).slice();
+    },
+    async append(key, candles) {
+      series.set(key, [...(series.get(key) ?? []), ...candles]);
+    },
+    async replace(key, candles) {
+      series.set(key, candles.slice());
+    },
+    async keys() {
+      return [...series.keys()];
+    },
+  };
+}
+
+/**
+ * Store over a backend. Series are loaded once and kept in memory; writes
+ * go to the backend as appends of new or changed bars only.
+ */
+export function createCandleStore({
+  backend = createMemoryCandleBackend(),
+  now = Date.now,
+  maxCandles = DEFAULT_MAX_STORED_CANDLES,
+} = {}) {
+  const cache = new Map();
+  // Gaps the exchange could not fill (maintenance, delistings) are not retried.
+  const unfillable = new Set();
+  // Serializes loads/writes per key so concurrent callers share one series.
+  const locks = new Map();
+
+  function withLock(key, task) {
+    const previous = locks.get(key) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => {});
+    locks.set(key, settled);
+    settled.then(() => {
+      if (locks.get(key) === settled) locks.delete(key);
+    });
+    return run;
+  }
+
+  async function seriesOf(key) {
+    let series = cache.get(key);
+    if (!series) {
+      series = mergeCandleSeries(await backend.load(key));
+      cache.set(key, series);
+    }
+    return series;
+  }
+
+  async function writeLocked(key, incoming) {
+    const series = await seriesOf(key);
+    const index = new Map(series.map((c, i) => [c.openTime, i]));
+    const changed = [];
+    for (const raw of incoming) {
+      const candle = normalizeStoredCandle(raw);
+      if (!candle) continue;
+      const at = index.get(candle.openTime);
+      if (at != null && sameCandle(series[at], candle)) continue;
+      changed.push(candle);
+    }
+    if (!changed.length) return 0;
+    let merged = mergeCandleSeries(series, changed);
+    if (merged.length > maxCandles) {
+      merged = merged.slice(-maxCandles);
+      cache.set(key, merged);
+      await backend.replace(key, merged);
+    } else {
+      cache.set(key, merged);
+      await backend.append(key, changed);
+    }
+    return changed.length;
+  }
+
+  function slice(series, { from, to, limit } = {}) {
+    let out = series.filter(
+      (c) => (from == null || c.openTime >= from) && (to == null || c.openTime <= to)
+    );
+    if (limit != null && out.length > limit) out = out.slice(-limit);
+    return out;
+  }
+
+  /** Candles in [from, to] (open times), the last `limit` of them when set. */
+  async function read(symbol, interval, range = {}) {
+    const key = candleSeriesKey(symbol, interval);
+    return withLock(key, async () => slice(await seriesOf(key), range));
+  }
+
+  async function write(symbol, interval, candles) {
+    const key = candleSeriesKey(symbol, interval);
+    return withLock(key, () => writeLocked(key, candles ?? []));
+  }
+
+  async function findGaps(symbol, interval, range = {}) {
+    return findCandleGaps(await read(symbol, interval, range), interval, range);
+  }
+
+  // Pages back from `end` until a page reaches `until`, `want` bars were
+  // collected or the page budget is spent.
+  async function pageBack(fetchPage, budget, { end, until = -Infinity, want, pageLimit }) {
+    const collected = [];
+    let cursor = end;
+    while (budget.pages > 0 && collected.length < want) {
+      budget.pages -= 1;
+      const limit = Math.max(1, Math.min(pageLimit, want - collected.length));
+      const page = mergeCandleSeries(await fetchPage({ end: cursor, limit }));
+      if (!page.length) break;
+      collected.push(...page);
+      const oldest = page[0].openTime;
+      if (oldest <= until || page.length < limit || oldest - 1 >= cursor) break;
+      cursor = oldest - 1;
+    }
+    return collected;
+  }
+
+  /**
+   * Closed bars of the last `bars` intervals, from the store first. The
+   * exchange is asked only for the missing tail (always at least the newest
+   * page, which also carries the forming bar), older history when the store
+   * has fewer than `bars` and gaps inside the window. Closed fetched bars are
+   * written back. `includeOpen` appends the forming bar when fetched.
+   */
+  async function loadWindow(
+    symbol,
+    interval,
+    {
+      bars,
+      fetchPage,
+      includeOpen = false,
+      maxPages = DEFAULT_MAX_PAGES,
+      pageLimit = DEFAULT_PAGE_LIMIT,
+      nowMs = now(),
+    }
+  ) {
+    const key = candleSeriesKey(symbol, interval);
+    const step = intervalToMs(interval);
+    const wanted = Math.max(1, Math.floor(Number(bars) || 1));
+    const lastClosedOpen = Math.floor(nowMs / step) * step - step;
+    const windowFrom = lastClosedOpen - (wanted - 1) * step;
+    const budget = { pages: Math.max(1, maxPages) };
+
+    return withLock(key, async () => {
+      const stored = slice(await seriesOf(key), { to: lastClosedOpen });
+      const inWindow = stored.filter((c) => c.openTime >= windowFrom);
+      const lastStored = stored.at(-1)?.openTime;
+      const fetched = [];
+      let error = null;
+      // A failed request stops fetching; whatever the store has is served.
+      const fetchBack = async (range) => {
+        if (error) return [];
+        try {
+          return await pageBack(fetchPage, budget, { ...range, pageLimit });
+        } catch (err) {
+          error = err instanceof Error ? err : new Error(String(err));
+          return [];
+        }
+      };
+      const inRange = (list) =>
+        mergeCandleSeries(list).filter(
+          (c) => c.openTime >= windowFrom && c.openTime <= lastClosedOpen
+        );
+
+      const tailBars =
+        lastStored != null && lastStored >= windowFrom
+          ? Math.floor((nowMs - lastStored) / step) + 1
+          : wanted + 1;
+      fetched.push(
+        ...(await fetchBack({ end: nowMs, until: lastStored ?? -Infinity, want: tailBars }))
+      );
+
+      // Missing history before the oldest bar counts as a gap too.
+      const windowGaps = (list) =>
+        findCandleGaps([{ openTime: windowFrom - step }, ...inRange(list)], interval);
+      for (const gap of windowGaps([...inWindow, ...fetched])) {
+        if (unfillable.has(`${key}:${gap.from}`) || budget.pages <= 0 || error) continue;
+        const filled = await fetchBack({ end: gap.to, until: gap.from, want: gap.missing });
+        fetched.push(...filled);
+        // Bars the exchange did not return (maintenance, before listing) are
+        // not asked for again; a fill cut short by the page budget is retried.
+        if (error || budget.pages <= 0) continue;
+        const inGap = mergeCandleSeries(filled).filter(
+          (c) => c.openTime >= gap.from && c.openTime <= gap.to
+        );
+        const bounded = [{ openTime: gap.from - step }, ...inGap, { openTime: gap.to + step }];
+        for (const missing of findCandleGaps(bounded, interval)) {
+          unfillable.add(`${key}:${missing.from}`);
+        }
+      }
+
+      const written = await writeLocked(
+        key,
+        fetched.filter((c) => c.openTime <= lastClosedOpen)
+      );
+      const window = slice(await seriesOf(key), { from: windowFrom, to: lastClosedOpen });
+      const forming = includeOpen
+        ? mergeCandleSeries(fetched).filter((c) => c.openTime > lastClosedOpen).at(-1)
+        : null;
+      const candles = forming ? [...window, forming] : window;
+      if (error && !candles.length) throw error;
+      return {
+        candles,
+        fromStore: inWindow.length,
+        fetched: fetched.length,
+        written,
+        gaps: windowGaps(window),
+        error: error ? error.message : null,
+      };
+    });
+  }
+
+  /** Fetches the missing bars of every gap in [from, to]; returns bars written. */
+  async function repairGaps(
+    symbol,
+    interval,
+    { fetchPage, from, to, maxPages = DEFAULT_MAX_PAGES, pageLimit = DEFAULT_PAGE_LIMIT }
+  ) {
+    const key = candleSeriesKey(symbol, interval);
+    const budget = { pages: Math.max(1, maxPages) };
+    return withLock(key, async () => {
+      const gaps = findCandleGaps(slice(await seriesOf(key), { from, to }), interval, { from, to });
+      const fetched = [];
+      for (const gap of gaps) {
+        if (budget.pages <= 0) break;
+        fetched.push(
+          ...(await pageBack(fetchPage, budget, {
+            end: gap.to,
+            until: gap.from,
+            want: gap.missing,
+            pageLimit,
+          }))
+        );
+      }
+      return writeLocked(key, fetched);
+    });
+  }
+
+  async function importCsv(symbol, interval, text) {
+    return write(symbol, interval, parseCandleCsv(text));
+  }
+
+  async function exportCsv(symbol, interval, range = {}) {
+    return formatCandleCsv(await read(symbol, interval, range));
+  }
+
+  return {
+    read,
+    write,
+    findGaps,
+    repairGaps,
+    loadWindow,
+    importCsv,
+    exportCsv,
+    keys: () => backend.keys(),
+  };
+}
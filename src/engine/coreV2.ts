@@ -1,5 +1,6 @@
 import type { Candle } from './botEngine';
 import type { AISettings } from '../types';
+import type { SymbolStreams } from './streamingIndicators';
 import {
   computeCoreV2 as computeCoreV2Js,
   resolveCoreV2Params as resolveCoreV2ParamsJs,
@@ -43,6 +44,8 @@ export type CoreV2ParamSet = {
 export type ComputeCoreV2Options = {
   riskMode?: CoreV2RiskMode;
   resample?: CoreV2ResampleFn;
+  /** Inkrementální rámce a indikátory symbolu; mají přednost před `resample`. */
+  streams?: SymbolStreams | null;
   emaTrendPeriod?: number;
   nowMs?: number;
 };
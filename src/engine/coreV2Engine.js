@@ -438,15 +438,39 @@ export function computeCoreV2(candles, opts = {}) {
     return empty;
   }
 
-  const resample =
-    typeof opts?.resample === 'function'
+  const nowMs = Number.isFinite(opts?.nowMs) ? Number(opts.nowMs) : Date.now();
+  // Per-symbol streams (streamingIndicators) keep the frames and indicator
+  // series incrementally; without them everything is recomputed in batch.
+  const streams = opts?.streams ?? null;
+  const frames = streams
+    ? new Map(
+        [params.ltfMin, params.htfMin, params.m15Min].map((tf) => [tf, streams.sync(candles, tf)])
+      )
+    : null;
+  const resample = frames
+    ? (tf) => frames.get(tf).candles()
+    : typeof opts?.resample === 'function'
       ? opts.resample
       : (tf) => resampleCandles(candles, tf);
-  const nowMs = Number.isFinite(opts?.nowMs) ? Number(opts.nowMs) : Date.now();
+  // Closed bars are a prefix of the stream frame, so its series are cut to length.
+  const seriesOf = (tf, bars, spec, batch) =>
+    frames ? frames.get(tf).series(spec).slice(0, bars.length) : batch();
+  // A pivot needs `right` later bars, so only those confirmed by closed bars count.
+  const pivotsOf = (tf, bars, left, right) => {
+    if (!frames) {
+      return { highs: findPivotsHigh(bars, left, right), lows: findPivotsLow(bars, left, right) };
+    }
+    const confirmed = (p) => p.idx + right < bars.length;
+    const { highs, lows } = frames.get(tf).pivots(left, right);
+    return { highs: highs.filter(confirmed), lows: lows.filter(confirmed) };
+  };
 
   const ltf = keepClosedCandles(sortByOpenTimeAsc(resample(params.ltfMin) || []), params.ltfMin, nowMs);
   const htf = keepClosedCandles(sortByOpenTimeAsc(resample(params.htfMin) || []), params.htfMin, nowMs);
   const m15 = keepClosedCandles(sortByOpenTimeAsc(resample(params.m15Min) || []), params.m15Min, nowMs);
+  const ltfSeries = (spec, batch) => seriesOf(params.ltfMin, ltf, spec, batch);
+  const htfSeries = (spec, batch) => seriesOf(params.htfMin, htf, spec, batch);
+  const m15Series = (spec, batch) => seriesOf(params.m15Min, m15, spec, batch);
 
   const ltfReady = ltf.length >= params.lookbacks.minOhlcvBars;
   const htfReady = htf.length >= params.lookbacks.minOhlcvBars;
@@ -488,12 +512,14 @@ export function computeCoreV2(candles, opts = {}) {
   const hasLtfEma = ltfReady && ltfCloses.length >= params.lookbacks.minEmaBars;
   const hasLtfIndicators = ltfReady && ltfCloses.length >= params.lookbacks.minIndicatorBars;
 
-  const ema8Arr = computeEma(ltfCloses, 8);
-  const ema12Arr = computeEma(ltfCloses, 12);
-  const ema21Arr = computeEma(ltfCloses, 21);
-  const ema26Arr = computeEma(ltfCloses, 26);
-  const ema50Arr = computeEma(ltfCloses, 50);
-  const ema200Arr = computeEma(ltfCloses, params.emaTrendPeriod);
+  const ltfEma = (period) =>
+    ltfSeries({ type: 'ema', period }, () => computeEma(ltfCloses, period));
+  const ema8Arr = ltfEma(8);
+  const ema12Arr = ltfEma(12);
+  const ema21Arr = ltfEma(21);
+  const ema26Arr = ltfEma(26);
+  const ema50Arr = ltfEma(50);
+  const ema200Arr = ltfEma(params.emaTrendPeriod);
 
   const ema8 = hasLtfEma ? (ema8Arr[ema8Arr.length - 1] ?? Number.NaN) : Number.NaN;
   const ema12 = hasLtfEma ? (ema12Arr[ema12Arr.length - 1] ?? Number.NaN) : Number.NaN;
@@ -507,7 +533,9 @@ export function computeCoreV2(candles, opts = {}) {
 
   Object.assign(out, { ema8, ema12, ema21, ema26, ema50, ema200 });
 
-  const atrArr = hasLtfIndicators ? computeATR(ltfHighs, ltfLows, ltfCloses, 14) : [];
+  const atrArr = hasLtfIndicators
+    ? ltfSeries({ type: 'atr', period: 14 }, () => computeATR(ltfHighs, ltfLows, ltfCloses, 14))
+    : [];
   const atr14 = hasLtfIndicators ? (atrArr[atrArr.length - 1] ?? Number.NaN) : Number.NaN;
   const atrPct = Number.isFinite(atr14) && Number.isFinite(ltfClose) && ltfClose > 0
     ? atr14 / ltfClose
@@ -773,7 +801,9 @@ export function computeCoreV2(candles, opts = {}) {
   const hasHtfEma = htfReady && htfCloses.length >= params.lookbacks.minEmaBars;
   const hasHtfIndicators = htfReady && htfCloses.length >= params.lookbacks.minIndicatorBars;
 
-  const htfEma200Arr = computeEma(htfCloses, params.emaTrendPeriod);
+  const htfEma200Arr = htfSeries({ type: 'ema', period: params.emaTrendPeriod }, () =>
+    computeEma(htfCloses, params.emaTrendPeriod)
+  );
   const htfEma200 = hasHtfEma
     ? (htfEma200Arr[htfEma200Arr.length - 1] ?? Number.NaN)
     : Number.NaN;
@@ -782,7 +812,9 @@ export function computeCoreV2(candles, opts = {}) {
       ? (htfEma200Arr[htfEma200Arr.length - 2] ?? Number.NaN)
       : Number.NaN;
 
-  const htfAtrArr = hasHtfIndicators ? computeATR(htfHighs, htfLows, htfCloses, 14) : [];
+  const htfAtrArr = hasHtfIndicators
+    ? htfSeries({ type: 'atr', period: 14 }, () => computeATR(htfHighs, htfLows, htfCloses, 14))
+    : [];
   const htfAtr14 = hasHtfIndicators ? (htfAtrArr[htfAtrArr.length - 1] ?? Number.NaN) : Number.NaN;
   const htfAtrPct = Number.isFinite(htfAtr14) && Number.isFinite(htfClose) && htfClose > 0
     ? htfAtr14 / htfClose
@@ -839,8 +871,9 @@ export function computeCoreV2(candles, opts = {}) {
         ? 'BEAR'
         : 'NONE';
 
-  const htfPivotsHigh = htfReady ? findPivotsHigh(htf, 3, 3) : [];
-  const htfPivotsLow = htfReady ? findPivotsLow(htf, 3, 3) : [];
+  const htfPivots = htfReady ? pivotsOf(params.htfMin, htf, 3, 3) : null;
+  const htfPivotsHigh = htfPivots?.highs ?? [];
+  const htfPivotsLow = htfPivots?.lows ?? [];
   const htfPivotHigh = htfPivotsHigh[htfPivotsHigh.length - 1]?.price;
   const htfPivotLow = htfPivotsLow[htfPivotsLow.length - 1]?.price;
 
@@ -862,11 +895,12 @@ export function computeCoreV2(candles, opts = {}) {
   const m15Closes = m15.map((c) => toNumber(c?.close));
   const m15Highs = m15.map((c) => toNumber(c?.high));
   const m15Lows = m15.map((c) => toNumber(c?.low));
-  const m15PivotsHigh = m15Ready ? findPivotsHigh(m15, 2, 2) : [];
-  const m15PivotsLow = m15Ready ? findPivotsLow(m15, 2, 2) : [];
+  const m15Pivots = m15Ready ? pivotsOf(params.m15Min, m15, 2, 2) : null;
+  const m15PivotsHigh = m15Pivots?.highs ?? [];
+  const m15PivotsLow = m15Pivots?.lows ?? [];
 
-  const ema15m12Arr = computeEma(m15Closes, 12);
-  const ema15m26Arr = computeEma(m15Closes, 26);
+  const ema15m12Arr = m15Series({ type: 'ema', period: 12 }, () => computeEma(m15Closes, 12));
+  const ema15m26Arr = m15Series({ type: 'ema', period: 26 }, () => computeEma(m15Closes, 26));
 
   const hasM15Ema = m15Ready && m15Closes.length >= params.lookbacks.minEmaBars;
   const hasM15Indicators = m15Ready && m15Closes.length >= params.lookbacks.minIndicatorBars;
@@ -900,7 +934,9 @@ export function computeCoreV2(candles, opts = {}) {
           : 'NONE'
       : 'NONE';
 
-  const m15AtrArr = hasM15Indicators ? computeATR(m15Highs, m15Lows, m15Closes, 14) : [];
+  const m15AtrArr = hasM15Indicators
+    ? m15Series({ type: 'atr', period: 14 }, () => computeATR(m15Highs, m15Lows, m15Closes, 14))
+    : [];
   const m15Atr14 = hasM15Indicators ? (m15AtrArr[m15AtrArr.length - 1] ?? Number.NaN) : Number.NaN;
   const m15AtrPct = Number.isFinite(m15Atr14) && Number.isFinite(m15Close) && m15Close > 0
     ? m15Atr14 / m15Close
@@ -924,7 +960,9 @@ export function computeCoreV2(candles, opts = {}) {
     m15SmaTrend === 'BEAR' && ema15mTrend === 'BEAR' && !m15EmaCompression;
 
   const m15Macd = ema15m12Arr.map((v, i) => v - (ema15m26Arr[i] ?? 0));
-  const m15Signal = computeEma(m15Macd, 9);
+  const m15Signal = frames
+    ? m15Series({ type: 'macd' }).map((p) => p.signal)
+    : computeEma(m15Macd, 9);
   const m15Hist = m15Macd.map((v, i) => v - (m15Signal[i] ?? 0));
   const m15MacdHist = hasM15Indicators ? (m15Hist[m15Hist.length - 1] ?? Number.NaN) : Number.NaN;
   const m15MacdHistPrev = hasM15Indicators ? (m15Hist[m15Hist.length - 2] ?? Number.NaN) : Number.NaN;
@@ -1070,8 +1108,9 @@ export function computeCoreV2(candles, opts = {}) {
     emaCrossBarsAgo,
   });
 
-  const pivotsHigh = ltfReady ? findPivotsHigh(ltf, 2, 2) : [];
-  const pivotsLow = ltfReady ? findPivotsLow(ltf, 2, 2) : [];
+  const ltfPivots = ltfReady ? pivotsOf(params.ltfMin, ltf, 2, 2) : null;
+  const pivotsHigh = ltfPivots?.highs ?? [];
+  const pivotsLow = ltfPivots?.lows ?? [];
   const lastPivotHigh = pivotsHigh[pivotsHigh.length - 1]?.price;
   const lastPivotLow = pivotsLow[pivotsLow.length - 1]?.price;
   const prevPivotHigh = pivotsHigh[pivotsHigh.length - 2]?.price;
@@ -1087,7 +1126,9 @@ export function computeCoreV2(candles, opts = {}) {
   const microBreakShort =
     Number.isFinite(lastPivotLow) && Number.isFinite(ltfClose) && ltfClose < lastPivotLow;
 
-  const rsiArr = hasLtfIndicators ? computeRsi(ltfCloses, 14) : [];
+  const rsiArr = hasLtfIndicators
+    ? ltfSeries({ type: 'rsi', period: 14 }, () => computeRsi(ltfCloses, 14))
+    : [];
   const ltfRsi = hasLtfIndicators ? (rsiArr[rsiArr.length - 1] ?? Number.NaN) : Number.NaN;
   const ltfRsiNeutral =
     Number.isFinite(ltfRsi) &&
@@ -1095,7 +1136,9 @@ export function computeCoreV2(candles, opts = {}) {
     ltfRsi <= params.thresholds.rsiNeutralHigh;
 
   const ltfMacd = ema12Arr.map((v, i) => v - (ema26Arr[i] ?? 0));
-  const ltfSignal = computeEma(ltfMacd, 9);
+  const ltfSignal = frames
+    ? ltfSeries({ type: 'macd' }).map((p) => p.signal)
+    : computeEma(ltfMacd, 9);
   const ltfHist = ltfMacd.map((v, i) => v - (ltfSignal[i] ?? 0));
   const ltfMacdHist = hasLtfIndicators ? (ltfHist[ltfHist.length - 1] ?? Number.NaN) : Number.NaN;
   const ltfMacdSignal = hasLtfIndicators ? (ltfSignal[ltfSignal.length - 1] ?? Number.NaN) : Number.NaN;
@@ -0,0 +1,86 @@
+// src/engine/correlation.ts
+// Typovaný obal nad correlationEngine.js: klouzavé korelace log-výnosů mezi
+// živými buffery svíček a beta vůči BTC pro několik oken (v barech).
+
+import type { Candle } from "./botEngine";
+import * as engine from "./correlationEngine.js";
+
+export type CorrelationMatrix = {
+  /** Délka okna v barech. */
+  window: number;
+  benchmark: string;
+  /** Benchmark první, zbytek abecedně. */
+  symbols: string[];
+  /** Symetrická matice; null = málo společných vzorků. */
+  values: (number | null)[][];
+  betas: Record<string, number | null>;
+  /** Nejmenší počet společných výnosů mezi páry. */
+  samples: number;
+};
+
+export type CorrelationSnapshot = {
+  updatedAt: number;
+  benchmark: string;
+  windows: CorrelationMatrix[];
+};
+
+export type CandlesBySymbol = Map<string, Candle[]> | Record<string, Candle[]>;
+
+export type CorrelationServiceOptions = {
+  windows?: number[] | string;
+  benchmark?: string;
+  minSamples?: number;
+  /** Minimální rozestup přepočtů (update se volá na každý tick). */
+  minIntervalMs?: number;
+};
+
+export type CorrelationService = {
+  windows: () => number[];
+  update: (candlesBySymbol: CandlesBySymbol, now?: number) => CorrelationSnapshot;
+  snapshot: () => CorrelationSnapshot;
+  reset: () => void;
+};
+
+export const DEFAULT_CORRELATION_WINDOWS: number[] = engine.DEFAULT_CORRELATION_WINDOWS;
+export const DEFAULT_CORRELATION_BENCHMARK: string = engine.DEFAULT_CORRELATION_BENCHMARK;
+
+export const parseCorrelationWindows = (
+  value: number[] | string | undefined,
+  fallback?: number[]
+): number[] => engine.parseCorrelationWindows(value, fallback);
+
+export const logReturnsByTime = (candles: Candle[]): Map<number, number> =>
+  engine.logReturnsByTime(candles);
+
+export const pearsonCorrelation = (xs: number[], ys: number[]): number =>
+  engine.pearsonCorrelation(xs, ys);
+
+export const regressionBeta = (xs: number[], ys: number[]): number =>
+  engine.regressionBeta(xs, ys);
+
+export const computeCorrelationMatrix = (
+  candlesBySymbol: CandlesBySymbol,
+  options?: { window?: number; benchmark?: string; minSamples?: number }
+): CorrelationMatrix => engine.computeCorrelationMatrix(candlesBySymbol, options);
+
+export const createCorrelationService = (
+  options?: CorrelationServiceOptions
+): CorrelationService => engine.createCorrelationService(options);
+
+export const selectCorrelationWindow = (
+  snapshot: CorrelationSnapshot | null | undefined,
+  window?: number
+): CorrelationMatrix | null => engine.selectCorrelationWindow(snapshot, window);
+
+/** NaN, když pár v matici chybí nebo nemá dost dat. */
+export const lookupCorrelation = (
+  matrix: CorrelationMatrix | null,
+  symbolA: string,
+  symbolB: string
+): number => engine.lookupCorrelation(matrix, symbolA, symbolB);
+
+export const lookupBeta = (matrix: CorrelationMatrix | null, symbol: string): number =>
+  engine.lookupBeta(matrix, symbol);
+
+export const normalizeCorrelationSnapshot = (raw: unknown): CorrelationSnapshot | null =>
+  engine.normalizeCorrelationSnapshot(raw);
@@ -0,0 +1,234 @@
+// Rolling return correlations between the live candle buffers. Returns are
+// log returns of consecutive closes keyed by the bar's openTime, so two
+// symbols are only compared on bars both of them have. Every window yields a
+// symmetric Pearson matrix plus each symbol's beta against the benchmark
+// (BTC): cov(symbol, benchmark) / var(benchmark).
+//
+// Pairs with fewer than `minSamples` shared returns have no value (null in
+// the matrix, NaN from the lookups); callers fall back to their static
+// assumptions until the buffers fill up.
+
+export const DEFAULT_CORRELATION_WINDOWS = [48, 288];
+export const DEFAULT_CORRELATION_BENCHMARK = "BTCUSDT";
+export const DEFAULT_CORRELATION_MIN_SAMPLES = 20;
+export const DEFAULT_CORRELATION_MIN_INTERVAL_MS = 5_000;
+
+function normalizeSymbol(symbol) {
+  return String(symbol ?? "").trim().toUpperCase();
+}
+
+function round4(value) {
+  return Number.isFinite(value) ? Math.round(value * 10_000) / 10_000 : null;
+}
+
+// "48,288" (bars per window) -> [48, 288]; anything unusable -> fallback.
+export function parseCorrelationWindows(value, fallback = DEFAULT_CORRELATION_WINDOWS) {
+  const raw = Array.isArray(value) ? value : String(value ?? "").split(",");
+  const windows = raw
+    .map((item) => Math.floor(Number(item)))
+    .filter((item) => Number.isFinite(item) && item >= 2);
+  if (!windows.length) return [...fallback];
+  return Array.from(new Set(windows)).sort((a, b) => a - b);
+}
+
+// Map<openTime, logReturn> in ascending openTime order.
+export function logReturnsByTime(candles) {
+  const sorted = (Array.isArray(candles) ? candles : [])
+    .filter((c) => Number.isFinite(c?.openTime) && Number.isFinite(c?.close) && c.close > 0)
+    .sort((a, b) => a.openTime - b.openTime);
+  const returns = new Map();
+  for (let i = 1; i < sorted.length; i += 1) {
+    if (sorted[i].openTime === sorted[i - 1].openTime) continue;
+    returns.set(sorted[i].openTime, Math.log(sorted[i].close / sorted[i - 1].close));
+  }
+  return returns;
+}
+
+// The last `window` returns both series share, oldest first.
+function alignReturns(a, b, window) {
+  const xs = [];
+  const ys = [];
+  for (const [time, x] of a) {
+    const y = b.get(time);
+    if (y === undefined) continue;
+    xs.push(x);
+    ys.push(y);
+  }
+  const from = Math.max(0, xs.length - window);
+  return [xs.slice(from), ys.slice(from)];
+}
+
+function moments(xs, ys) {
+  const n = xs.length;
+  let mx = 0;
+  let my = 0;
+  for (let i = 0; i < n; i += 1) {
+    mx += xs[i];
+    my += ys[i];
+  }
+  mx /= n;
+  my /= n;
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < n; i += 1) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    cov += dx * dy;
+    vx += dx * dx;
+    vy += dy * dy;
+  }
+  return { cov, vx, vy };
+}
+
+export function pearsonCorrelation(xs, ys) {
+  if (xs.length < 2 || xs.length !== ys.length) return Number.NaN;
+  const { cov, vx, vy } = moments(xs, ys);
+  if (vx <= 0 || vy <= 0) return Number.NaN;
+  return Math.max(-1, Math.min(1, cov / Math.sqrt(vx * vy)));
+}
+
+// Beta of `xs` against the benchmark series `ys`.
+export function regressionBeta(xs, ys) {
+  if (xs.length < 2 || xs.length !== ys.length) return Number.NaN;
+  const { cov, vy } = moments(xs, ys);
+  return vy > 0 ? cov / vy : Number.NaN;
+}
+
+function entriesOf(candlesBySymbol) {
+  if (candlesBySymbol instanceof Map) return Array.from(candlesBySymbol.entries());
+  return Object.entries(candlesBySymbol ?? {});
+}
+
+export function computeCorrelationMatrix(candlesBySymbol, options = {}) {
+  const window = Math.max(2, Math.floor(options.window ?? DEFAULT_CORRELATION_WINDOWS[0]));
+  const benchmark = normalizeSymbol(options.benchmark ?? DEFAULT_CORRELATION_BENCHMARK);
+  const minSamples = Math.max(
+    2,
+    Math.min(window, options.minSamples ?? DEFAULT_CORRELATION_MIN_SAMPLES)
+  );
+  const returns = new Map();
+  for (const [symbol, candles] of entriesOf(candlesBySymbol)) {
+    const key = normalizeSymbol(symbol);
+    if (key) returns.set(key, logReturnsByTime(candles));
+  }
+  // Benchmark first, the rest alphabetically, so the heatmap stays stable.
+  const symbols = Array.from(returns.keys()).sort((a, b) =>
+    a === benchmark ? -1 : b === benchmark ? 1 : a.localeCompare(b)
+  );
+
+  const values = symbols.map(() => symbols.map(() => null));
+  let samples = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < symbols.length; i += 1) {
+    const own = returns.get(symbols[i]);
+    values[i][i] = Math.min(own.size, window) >= minSamples ? 1 : null;
+    for (let j = i + 1; j < symbols.length; j += 1) {
+      const [xs, ys] = alignReturns(own, returns.get(symbols[j]), window);
+      samples = Math.min(samples, xs.length);
+      if (xs.length < minSamples) continue;
+      const corr = round4(pearsonCorrelation(xs, ys));
+      values[i][j] = corr;
+      values[j][i] = corr;
+    }
+  }
+
+  const betas = {};
+  const benchmarkReturns = returns.get(benchmark);
+  for (const symbol of symbols) {
+    if (!benchmarkReturns) {
+      betas[symbol] = null;
+      continue;
+    }
+    const [xs, ys] = alignReturns(returns.get(symbol), benchmarkReturns, window);
+    betas[symbol] = xs.length >= minSamples ? round4(regressionBeta(xs, ys)) : null;
+  }
+
+  return {
+    window,
+    benchmark,
+    symbols,
+    values,
+    betas,
+    samples: Number.isFinite(samples) ? samples : 0,
+  };
+}
+
+// Recomputes every window at most once per `minIntervalMs`; the kline
+// stream calls update() on every tick.
+export function createCorrelationService(options = {}) {
+  const windows = parseCorrelationWindows(options.windows);
+  const benchmark = normalizeSymbol(options.benchmark ?? DEFAULT_CORRELATION_BENCHMARK);
+  const minSamples = options.minSamples ?? DEFAULT_CORRELATION_MIN_SAMPLES;
+  const minIntervalMs = options.minIntervalMs ?? DEFAULT_CORRELATION_MIN_INTERVAL_MS;
+  let current = { updatedAt: 0, benchmark, windows: [] };
+
+  return {
+    windows: () => [...windows],
+    update(candlesBySymbol, now = Date.now()) {
+      if (current.updatedAt && now - current.updatedAt < minIntervalMs) return current;
+      current = {
+        updatedAt: now,
+        benchmark,
+        windows: windows.map((window) =>
+          computeCorrelationMatrix(candlesBySymbol, { window, benchmark, minSamples })
+        ),
+      };
+      return current;
+    },
+    snapshot: () => current,
+    reset() {
+      current = { updatedAt: 0, benchmark, windows: [] };
+    },
+  };
+}
+
+// The requested window, otherwise the first (shortest) one.
+export function selectCorrelationWindow(snapshot, window) {
+  const list = Array.isArray(snapshot?.windows) ? snapshot.windows : [];
+  return list.find((matrix) => matrix.window === window) ?? list[0] ?? null;
+}
+
+export function lookupCorrelation(matrix, symbolA, symbolB) {
+  if (!matrix) return Number.NaN;
+  const i = matrix.symbols.indexOf(normalizeSymbol(symbolA));
+  const j = matrix.symbols.indexOf(normalizeSymbol(symbolB));
+  if (i < 0 || j < 0) return Number.NaN;
+  const value = matrix.values[i]?.[j];
+  return typeof value === "number" ? value : Number.NaN;
+}
+
+export function lookupBeta(matrix, symbol) {
+  const value = matrix?.betas?.[normalizeSymbol(symbol)];
+  return typeof value === "number" ? value : Number.NaN;
+}
+
+// Validates a snapshot that came over the wire (dashboard payload).
+export function normalizeCorrelationSnapshot(raw) {
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.windows)) return null;
+  const toValue = (value) =>
+    typeof value === "number" && Number.isFinite(value) ? value : null;
+  const windows = raw.windows
+    .filter((matrix) => Array.isArray(matrix?.symbols) && Array.isArray(matrix?.values))
+    .map((matrix) => {
+      const symbols = matrix.symbols.map(normalizeSymbol);
+      return {
+        window: Number(matrix.window),
+        benchmark: normalizeSymbol(matrix.benchmark ?? raw.benchmark),
+        symbols,
+        values: symbols.map((_, i) =>
+          symbols.map((__, j) => toValue(matrix.values[i]?.[j]))
+        ),
+        betas: Object.fromEntries(
+          symbols.map((symbol) => [symbol, toValue(matrix.betas?.[symbol])])
+        ),
+        samples: Number(matrix.samples) || 0,
+      };
+    })
+    .filter((matrix) => Number.isFinite(matrix.window));
+  const updatedAt = Number(raw.updatedAt);
+  return {
+    updatedAt: Number.isFinite(updatedAt) ? updatedAt : 0,
+    benchmark: normalizeSymbol(raw.benchmark ?? DEFAULT_CORRELATION_BENCHMARK),
+    windows,
+  };
+}
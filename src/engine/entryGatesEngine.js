@@ -0,0 +1,1176 @@
+import { AI_MATIC_BBO_GATE_NAMES, AI_MATIC_BBO_QUALITY_THRESHOLD } from '../lib/aiMaticBboProfile.js';
+import {
+  AI_MATIC_CORE_GATE_ENTRY_CONDITIONS,
+  AI_MATIC_CORE_GATE_EXECUTION_CONDITIONS,
+  AI_MATIC_CORE_GATE_RISK_RULES,
+  AI_MATIC_CORE_GATE_SIGNAL_CHECKLIST,
+} from '../lib/aiMaticCoreProfile.js';
+import {
+  OLIKELLA_GATE_ENTRY_CONDITIONS,
+  OLIKELLA_GATE_EXIT_CONDITIONS,
+  OLIKELLA_GATE_RISK_RULES,
+  OLIKELLA_GATE_SIGNAL_CHECKLIST,
+} from '../lib/oliKellaProfile.js';
+import { CORE_V2_RISK_PCT } from './executionPolicyEngine.js';
+
+// Strategy-specific entry gates of a decision (core/PRO checklist and score,
+// AMD phase sequence, tree trend gates, 1h/5m trend gate, OLIkella gates,
+// risk-off), shared by the dashboard hook and the server-side auto-trader.
+// The generic gates (capacity, locks, cooldowns, protection) stay with each
+// caller because they read caller-specific account state.
+
+export const MAJOR_SYMBOLS = new Set(['BTCUSDT', 'ETHUSDT', 'SOLUSDT']);
+export const MIN_CHECKLIST_PASS = 8;
+export const AI_MATIC_CHECKLIST_MIN = 5;
+export const CORE_V2_VOLUME_PCTL = {
+  'ai-matic': 65,
+  'ai-matic-x': 70,
+  'ai-matic-amd': 65,
+  'ai-matic-olikella': 50,
+  'ai-matic-bbo': 65,
+  'ai-matic-tree': 65,
+  'ai-matic-pro': 65,
+};
+export const CORE_V2_SCORE_GATE = {
+  'ai-matic': { major: 8, alt: 13 },
+  'ai-matic-x': { major: 8, alt: 13 },
+  'ai-matic-amd': { major: 7, alt: 12 },
+  'ai-matic-olikella': { major: 7, alt: 99 },
+  'ai-matic-bbo': { major: 8, alt: 13 },
+  'ai-matic-tree': { major: 8, alt: 13 },
+  'ai-matic-pro': { major: 7, alt: 10 },
+};
+export const CORE_V2_ATR_MIN_PCT_MAJOR = 0.0012;
+export const CORE_V2_ATR_MIN_PCT_ALT = 0.0018;
+export const CORE_V2_BBO_AGE_BY_SYMBOL = {
+  BTCUSDT: 800,
+  ETHUSDT: 800,
+  SOLUSDT: 700,
+};
+export const CORE_V2_BBO_AGE_DEFAULT_MS = 1000;
+export const PRO_MTF_FIBO_GATE_NAMES = [
+  '1H trend confirmed (SMA50 + swing sequence)',
+  'Fib proximity <= 1% (38.2/61.8)',
+  '5m swing near Fib <= 0.50%',
+  '5m trigger valid (engulfing/pin/breakout+vol)',
+  'Volatility gate ATR >= 0.8x 20d avg',
+  'RR gate >= 1.5',
+];
+export const TREND_GATE_STRONG_ADX = 25;
+export const TREND_DAY_ADX_MIN = 20;
+export const TREND_GATE_STRONG_SCORE = 3;
+export const SCALP_MAX_LOSSES_IN_ROW = 2;
+export const SCALP_MAX_DAILY_LOSS_R = -2.0;
+export const SCALP_RISK_OFF_MULT = 0.25;
+export const AI_MATIC_SWING_COOLDOWN_BARS_5M = 15;
+export const AI_MATIC_SWING_COOLDOWN_BARS_15M = 8;
+
+const AI_MATIC_CORE_SIGNAL_COMPONENT_NAMES = new Set([
+  'HTF bias',
+  'EMA200 trend',
+  'EMA200 breakout',
+  'EMA200 confirm',
+  'Trend strength',
+]);
+const AI_MATIC_CORE_ENTRY_COMPONENT_NAMES = new Set([
+  'ATR% window',
+  'Volume Pxx',
+  'LTF pullback',
+  'Micro pivot',
+  'Micro break close',
+]);
+const AI_MATIC_CORE_EXEC_COMPONENT_NAMES = new Set([
+  'BBO fresh',
+  'BBO age',
+  'Maker entry',
+  'SL structural',
+]);
+const AI_MATIC_CORE_RISK_TRACE_NAMES = new Set([
+  'PositionCapacity',
+  'OpenOrder',
+  'IntentPending',
+  'EntryLock',
+  'ReentryCooldown',
+  'LossCooldown',
+  'OrderCapacity',
+  'DataHealth',
+  'ProtectionSL',
+  'TreeTrend5m',
+  'RiskOff',
+]);
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function formatNumber(value, digits = 4) {
+  return Number.isFinite(value) ? value.toFixed(digits) : '';
+}
+
+export function resolveBboAgeLimit(symbol) {
+  return CORE_V2_BBO_AGE_BY_SYMBOL[symbol] ?? CORE_V2_BBO_AGE_DEFAULT_MS;
+}
+
+/** Gates are enabled unless the checklist overrides switch them off. */
+export function isGateEnabled(gateOverrides, name) {
+  const value = gateOverrides?.[name];
+  return typeof value === 'boolean' ? value : true;
+}
+
+export function evaluateChecklistPass(gates, gateOverrides) {
+  const eligible = gates.filter(
+    (gate) => isGateEnabled(gateOverrides, gate.name) && gate.detail !== 'not required'
+  );
+  const passed = eligible.filter((gate) => gate.ok).length;
+  return {
+    eligibleCount: eligible.length,
+    passedCount: passed,
+    pass: eligible.length > 0 ? passed >= MIN_CHECKLIST_PASS : false,
+  };
+}
+
+function evaluateBboGates({ symbol, decision, signal, feedAgeMs }) {
+  const bbo = decision?.bboContext;
+  const signalActive = Boolean(signal);
+  const bboLimit = resolveBboAgeLimit(symbol);
+  const bboFreshOk = feedAgeMs != null;
+  const bboAgeOk = feedAgeMs != null && feedAgeMs <= bboLimit;
+  const entryType = signal?.entryType ?? 'LIMIT_MAKER_FIRST';
+  const makerOk = entryType === 'LIMIT_MAKER_FIRST' || entryType === 'LIMIT';
+  const sl = toNumber(signal?.intent?.sl);
+  const slOk = !signalActive ? true : Number.isFinite(sl) && sl > 0;
+  const baseGates = AI_MATIC_BBO_GATE_NAMES.slice(0, 9).map((name) => {
+    const gate = Array.isArray(bbo?.gates)
+      ? bbo.gates.find((item) => String(item?.name ?? '') === name)
+      : undefined;
+    return {
+      name,
+      ok: gate?.ok === true,
+      detail: String(gate?.detail ?? 'missing'),
+      hard: gate?.hard === true,
+    };
+  });
+  const baseScore = Number.isFinite(bbo?.baseScore) ? Number(bbo?.baseScore) : 0;
+  const qualityThreshold = Number.isFinite(bbo?.qualityThreshold)
+    ? Number(bbo?.qualityThreshold)
+    : AI_MATIC_BBO_QUALITY_THRESHOLD;
+  const qualityScore = baseScore + (bboAgeOk ? 15 : 0);
+  const qualityPass = qualityScore >= qualityThreshold;
+  const gates = [
+    ...baseGates,
+    {
+      name: 'Score >= 60',
+      ok: qualityPass,
+      detail: `${Math.round(qualityScore)}/${qualityThreshold} (base ${Math.round(
+        baseScore
+      )} + BBO ${bboAgeOk ? 15 : 0})`,
+      hard: false,
+    },
+    {
+      name: 'BBO fresh',
+      ok: bboFreshOk,
+      detail: feedAgeMs != null ? `age ${Math.round(feedAgeMs)}ms` : 'no feed',
+      hard: true,
+    },
+    {
+      name: 'BBO age',
+      ok: bboAgeOk,
+      detail: feedAgeMs != null ? `${Math.round(feedAgeMs)}ms ≤ ${bboLimit}ms` : 'no feed',
+      hard: true,
+    },
+    {
+      name: 'Maker entry',
+      ok: makerOk,
+      detail: entryType,
+      hard: false,
+    },
+    {
+      name: 'SL structural',
+      ok: slOk,
+      detail: Number.isFinite(sl)
+        ? `SL ${formatNumber(sl, 6)}`
+        : signalActive
+          ? 'SL missing'
+          : 'waiting',
+      hard: true,
+    },
+  ];
+  return {
+    gates,
+    score: gates.filter((gate) => gate.ok).length,
+    scoreTotal: gates.length,
+    threshold: MIN_CHECKLIST_PASS,
+    scorePass: qualityPass,
+    hardFailures: gates.filter((gate) => gate.hard && !gate.ok).map((gate) => gate.name),
+    atrMin: Number.NaN,
+    volumePct: 0,
+    isMajor: MAJOR_SYMBOLS.has(symbol),
+    qualityScore,
+    qualityThreshold,
+    hardGatePass: bbo?.hardGatePass === true,
+  };
+}
+
+/**
+ * Core V2 checklist of a decision with its score threshold. `feedAgeMs` is
+ * the age of the last book update (null without a feed); `portfolioRegime`
+ * is the altseason rotation state, which only the dashboard tracks.
+ */
+export function evaluateCoreV2Gates({
+  symbol,
+  riskMode,
+  decision,
+  signal,
+  feedAgeMs,
+  portfolioRegime = { active: false, dominanceProxy: Number.NaN },
+}) {
+  if (riskMode === 'ai-matic-bbo') {
+    return evaluateBboGates({ symbol, decision, signal, feedAgeMs });
+  }
+  const core = decision?.coreV2;
+  const signalActive = Boolean(signal);
+  const sideRaw = String(signal?.intent?.side ?? '').toLowerCase();
+  const signalDir = sideRaw === 'buy' ? 'BULL' : sideRaw === 'sell' ? 'BEAR' : '';
+  const htfConsensusRaw = String(decision?.htfTrend?.consensus ?? '').toLowerCase();
+  const htfConsensus =
+    htfConsensusRaw === 'bull' ? 'BULL' : htfConsensusRaw === 'bear' ? 'BEAR' : '';
+  const htfDir =
+    riskMode === 'ai-matic-x'
+      ? core?.htfBias ?? 'NONE'
+      : htfConsensus || core?.htfBias || 'NONE';
+  const direction = signalDir || htfDir || 'NONE';
+  const isMajor = MAJOR_SYMBOLS.has(symbol);
+  const atrMin = isMajor ? CORE_V2_ATR_MIN_PCT_MAJOR : CORE_V2_ATR_MIN_PCT_ALT;
+  const volumePct = CORE_V2_VOLUME_PCTL[riskMode];
+  const percentileVolumeThreshold =
+    core == null
+      ? Number.NaN
+      : volumePct === 50
+        ? core.volumeP50
+        : volumePct === 60
+          ? core.volumeP60
+          : volumePct === 65
+            ? core.volumeP65
+            : core.volumeP70;
+  const todVolumeThreshold = Number.isFinite(core?.volumeTodThreshold)
+    ? core.volumeTodThreshold
+    : Number.NaN;
+  const useTodVolumeGate = Number.isFinite(todVolumeThreshold);
+  const volumeThreshold = useTodVolumeGate ? todVolumeThreshold : percentileVolumeThreshold;
+  const htfBreakoutOk =
+    direction === 'BULL'
+      ? Boolean(core?.htfBreakoutBull)
+      : direction === 'BEAR'
+        ? Boolean(core?.htfBreakoutBear)
+        : false;
+  const htfConfirmOk =
+    direction === 'BULL'
+      ? Boolean(core?.htfConfirmBull)
+      : direction === 'BEAR'
+        ? Boolean(core?.htfConfirmBear)
+        : false;
+  const htfBiasOk = direction !== 'NONE' && htfDir === direction && htfBreakoutOk && htfConfirmOk;
+  const emaBreakoutOk =
+    direction === 'BULL'
+      ? Boolean(core?.ema200BreakoutBull)
+      : direction === 'BEAR'
+        ? Boolean(core?.ema200BreakoutBear)
+        : false;
+  const emaConfirmOk =
+    direction === 'BULL'
+      ? Boolean(core?.ema200ConfirmBull)
+      : direction === 'BEAR'
+        ? Boolean(core?.ema200ConfirmBear)
+        : false;
+  const emaOrderOk =
+    direction === 'BULL'
+      ? Number.isFinite(core?.ltfClose) &&
+        Number.isFinite(core?.ema200) &&
+        core.ltfClose > core.ema200 &&
+        emaBreakoutOk &&
+        emaConfirmOk
+      : direction === 'BEAR'
+        ? Number.isFinite(core?.ltfClose) &&
+          Number.isFinite(core?.ema200) &&
+          core.ltfClose < core.ema200 &&
+          emaBreakoutOk &&
+          emaConfirmOk
+        : false;
+  const atrOk = Number.isFinite(core?.atrPct) && core.atrPct >= atrMin;
+  const volumeOk =
+    Number.isFinite(core?.volumeCurrent) &&
+    Number.isFinite(volumeThreshold) &&
+    core.volumeCurrent >= volumeThreshold;
+  const requireMicro = riskMode === 'ai-matic-x';
+  const pullbackOk = !requireMicro
+    ? true
+    : direction === 'BULL'
+      ? Boolean(core?.pullbackLong)
+      : direction === 'BEAR'
+        ? Boolean(core?.pullbackShort)
+        : false;
+  const pivotOk = !requireMicro
+    ? true
+    : direction === 'BULL' || direction === 'BEAR'
+      ? Number.isFinite(core?.pivotLow) && Number.isFinite(core?.pivotHigh)
+      : false;
+  const microBreakOk = !requireMicro
+    ? true
+    : direction === 'BULL'
+      ? Boolean(core?.microBreakLong)
+      : direction === 'BEAR'
+        ? Boolean(core?.microBreakShort)
+        : false;
+  const bboLimit = resolveBboAgeLimit(symbol);
+  const bboFreshOk = feedAgeMs != null;
+  const bboAgeOk = feedAgeMs != null && feedAgeMs <= bboLimit;
+  const entryType = signal?.entryType ?? 'LIMIT_MAKER_FIRST';
+  const makerOk = entryType === 'LIMIT_MAKER_FIRST' || entryType === 'LIMIT';
+  const sl = toNumber(signal?.intent?.sl);
+  const slOk = !signalActive ? true : Number.isFinite(sl) && sl > 0;
+  const adx = toNumber(decision?.trendAdx);
+  const htfAtrOk = Number.isFinite(core?.htfAtrPct) && core.htfAtrPct >= atrMin;
+  const trendStrengthOk = (Number.isFinite(adx) && adx >= 18) || htfAtrOk;
+  const alignedCount = decision?.htfTrend?.alignedCount;
+
+  const gates = [
+    {
+      name: 'HTF bias',
+      ok: htfBiasOk,
+      detail:
+        riskMode === 'ai-matic-x'
+          ? Number.isFinite(core?.htfEma200)
+            ? `EMA200 ${formatNumber(core.htfEma200, 3)} | breakout ${htfBreakoutOk ? 'yes' : 'no'} | confirm ${htfConfirmOk ? 'yes' : 'no'}`
+            : 'missing'
+          : htfConsensus
+            ? `Consensus ${htfConsensus}${
+                Number.isFinite(alignedCount)
+                  ? ` (${alignedCount}/${Array.isArray(decision?.htfTrend?.byTimeframe) ? decision.htfTrend.byTimeframe.length : 0})`
+                  : ''
+              }`
+            : 'missing',
+      hard: true,
+    },
+    {
+      name: 'EMA200 trend',
+      ok: emaOrderOk,
+      detail: Number.isFinite(core?.ltfClose)
+        ? `close ${formatNumber(core.ltfClose, 4)} | EMA200 ${formatNumber(
+            core.ema200,
+            4
+          )} | breakout ${emaBreakoutOk ? 'yes' : 'no'} | confirm ${emaConfirmOk ? 'yes' : 'no'}`
+        : 'missing',
+      hard: true,
+    },
+    {
+      name: 'EMA200 breakout',
+      ok: emaBreakoutOk,
+      detail: emaBreakoutOk ? 'breakout detected' : 'missing breakout',
+      hard: true,
+    },
+    {
+      name: 'EMA200 confirm',
+      ok: emaConfirmOk,
+      detail: emaConfirmOk ? 'confirmation ok' : 'confirmation missing',
+      hard: true,
+    },
+    {
+      name: 'ATR% window',
+      ok: atrOk,
+      detail: Number.isFinite(core?.atrPct)
+        ? `ATR% ${formatNumber(core.atrPct * 100, 3)} (min ${formatNumber(atrMin * 100, 3)})`
+        : 'missing',
+      hard: true,
+    },
+    {
+      name: 'Volume Pxx',
+      ok: volumeOk,
+      detail:
+        Number.isFinite(core?.volumeCurrent) && Number.isFinite(volumeThreshold)
+          ? useTodVolumeGate
+            ? `vol ${formatNumber(core.volumeCurrent, 0)} ≥ ${formatNumber(
+                volumePct,
+                0
+              )}% ToD ${formatNumber(core?.volumeTodBaseline ?? Number.NaN, 0)} (need ${formatNumber(
+                volumeThreshold,
+                0
+              )} | ratio ${formatNumber((core?.volumeTodRatio ?? Number.NaN) * 100, 0)}% | n ${Math.round(
+                core?.volumeTodSampleCount ?? 0
+              )}${core?.volumeTodFallback ? ' fallback' : ''})`
+            : `vol ${formatNumber(core.volumeCurrent, 0)} ≥ P${volumePct} ${formatNumber(
+                volumeThreshold,
+                0
+              )}`
+          : 'missing',
+      hard: true,
+    },
+    {
+      name: 'LTF pullback',
+      ok: pullbackOk,
+      detail: requireMicro ? (pullbackOk ? 'EMA12/26 zone touched' : 'no pullback') : 'not required',
+    },
+    {
+      name: 'Micro pivot',
+      ok: pivotOk,
+      detail: requireMicro
+        ? Number.isFinite(core?.pivotHigh) || Number.isFinite(core?.pivotLow)
+          ? `pivotHi ${formatNumber(core?.pivotHigh ?? Number.NaN, 4)} | pivotLo ${formatNumber(
+              core?.pivotLow ?? Number.NaN,
+              4
+            )}`
+          : 'missing'
+        : 'not required',
+    },
+    {
+      name: 'Micro break close',
+      ok: microBreakOk,
+      detail: requireMicro ? (microBreakOk ? 'break confirmed' : 'no break') : 'not required',
+    },
+    {
+      name: 'BBO fresh',
+      ok: bboFreshOk,
+      detail: feedAgeMs != null ? `age ${Math.round(feedAgeMs)}ms` : 'no feed',
+    },
+    {
+      name: 'BBO age',
+      ok: bboAgeOk,
+      detail: feedAgeMs != null ? `${Math.round(feedAgeMs)}ms ≤ ${bboLimit}ms` : 'no feed',
+    },
+    {
+      name: 'Trend strength',
+      ok: trendStrengthOk,
+      detail:
+        Number.isFinite(adx) || Number.isFinite(core?.htfAtrPct)
+          ? `ADX ${formatNumber(adx, 1)} | 1h ATR% ${formatNumber(
+              (core?.htfAtrPct ?? Number.NaN) * 100,
+              2
+            )}`
+          : 'missing',
+    },
+    {
+      name: 'Maker entry',
+      ok: makerOk,
+      detail: entryType,
+    },
+    {
+      name: 'SL structural',
+      ok: slOk,
+      detail: Number.isFinite(sl)
+        ? `SL ${formatNumber(sl, 6)}`
+        : signalActive
+          ? 'SL missing'
+          : 'waiting',
+      hard: true,
+    },
+  ];
+
+  const scoreTotal = gates.length;
+  const score = gates.filter((g) => g.ok).length;
+  const scoreCfg = CORE_V2_SCORE_GATE[riskMode] ?? CORE_V2_SCORE_GATE['ai-matic'];
+  const altseasonGateActive = riskMode === 'ai-matic' && portfolioRegime.active === true;
+  const rotatedMajorThreshold = Math.max(scoreCfg.major, scoreCfg.alt);
+  const rotatedAltThreshold = Math.min(scoreCfg.major, scoreCfg.alt);
+  const baseThreshold = altseasonGateActive
+    ? symbol === 'BTCUSDT'
+      ? rotatedMajorThreshold
+      : rotatedAltThreshold
+    : isMajor
+      ? scoreCfg.major
+      : scoreCfg.alt;
+  const strongTrend =
+    (Number.isFinite(adx) && adx >= 25) ||
+    (Number.isFinite(core?.htfAtrPct) && core.htfAtrPct >= atrMin) ||
+    alignedCount >= 2;
+  const threshold = altseasonGateActive
+    ? baseThreshold
+    : riskMode === 'ai-matic-tree'
+      ? strongTrend
+        ? scoreCfg.major
+        : scoreCfg.alt
+      : baseThreshold;
+  return {
+    gates,
+    score,
+    scoreTotal,
+    threshold,
+    scorePass: scoreTotal > 0 ? score >= threshold : undefined,
+    hardFailures: gates.filter((g) => g.hard && !g.ok).map((g) => g.name),
+    atrMin,
+    volumePct,
+    isMajor,
+    altseasonGateActive,
+    dominanceProxy: portfolioRegime.dominanceProxy,
+  };
+}
+
+export function evaluateProGates(decision, signal) {
+  const source = decision?.proMtfFibo?.gates;
+  const signalActive = Boolean(signal);
+  const gateByName = new Map();
+  if (Array.isArray(source)) {
+    for (const gate of source) {
+      const name = String(gate?.name ?? '');
+      if (!name) continue;
+      gateByName.set(name, {
+        ok: gate?.ok === true,
+        detail: String(gate?.detail ?? ''),
+        pending: gate?.pending === true,
+      });
+    }
+  }
+  const gates = PRO_MTF_FIBO_GATE_NAMES.map((name) => {
+    const existing = gateByName.get(name);
+    return {
+      name,
+      ok: existing?.ok === true,
+      detail: existing?.detail || 'missing',
+      pending: existing?.pending ?? !signalActive,
+      hard: false,
+    };
+  });
+  const score = gates.filter((g) => g.ok).length;
+  const scoreTotal = gates.length;
+  return {
+    gates,
+    score,
+    scoreTotal,
+    threshold: scoreTotal > 0 ? scoreTotal : PRO_MTF_FIBO_GATE_NAMES.length,
+    scorePass: scoreTotal > 0 ? score >= scoreTotal : false,
+    hardFailures: gates.filter((g) => !g.ok).map((g) => g.name),
+    atrMin: Number.NaN,
+    volumePct: 0,
+    isMajor: false,
+  };
+}
+
+/** Checklist the profile scores a decision on (PRO gates or Core V2). */
+export function evaluateEntryCore(args) {
+  return args.riskMode === 'ai-matic-pro'
+    ? evaluateProGates(args.decision, args.signal)
+    : evaluateCoreV2Gates(args);
+}
+
+export function evaluateAmdGatesCore({ decision, signal: signalArg }) {
+  const amd = decision?.amdContext;
+  const signal = signalArg ?? null;
+  const empty = { gates: [], pass: false };
+  if (!amd) return empty;
+  const target = amd.targets ?? null;
+  const signalTp = toNumber(signal?.intent?.tp);
+  const waitingMode = !signal;
+  const phase = String(amd.phase ?? 'NONE');
+  const kz = String(amd.killzoneName ?? 'NONE');
+  const midnight = toNumber(amd.midnightOpen);
+  const asiaHigh = toNumber(amd.accumulationRange?.high);
+  const asiaLow = toNumber(amd.accumulationRange?.low);
+  const sweepLow = toNumber(amd.manipulation?.low);
+  const sweepHigh = toNumber(amd.manipulation?.high);
+  const tp1 = toNumber(target?.tp1);
+  const tp2 = toNumber(target?.tp2);
+  const baseTargetValid =
+    amd.gates?.targetModelValid === true && Number.isFinite(tp1) && Number.isFinite(tp2);
+  const targetValid = baseTargetValid && Number.isFinite(signalTp) && signalTp > 0;
+  const resolveDetail = (ok, pending, blocked, passed = 'OK') => {
+    if (ok) return passed;
+    return waitingMode ? pending : blocked;
+  };
+  const gates = [
+    {
+      name: 'AMD: Phase sequence',
+      ok: amd.gates?.phaseSequence === true,
+      pending: waitingMode && amd.gates?.phaseSequence !== true,
+      detail: resolveDetail(
+        amd.gates?.phaseSequence === true,
+        `phase ${phase} -> čeká DISTRIBUTION`,
+        `phase ${phase} není DISTRIBUTION`
+      ),
+    },
+    {
+      name: 'AMD: Killzone active',
+      ok: amd.gates?.killzoneActive === true,
+      pending: waitingMode && amd.gates?.killzoneActive !== true,
+      detail: resolveDetail(
+        amd.gates?.killzoneActive === true,
+        `killzone ${kz} -> čeká LONDON/NY_AM`,
+        `killzone ${kz} mimo LONDON/NY_AM`
+      ),
+    },
+    {
+      name: 'AMD: Midnight open set',
+      ok: amd.gates?.midnightOpenSet === true,
+      pending: waitingMode && amd.gates?.midnightOpenSet !== true,
+      detail: resolveDetail(
+        amd.gates?.midnightOpenSet === true,
+        'čeká midnight open',
+        'midnight open není validní',
+        Number.isFinite(midnight) ? `midnight ${formatNumber(midnight, 4)}` : 'OK'
+      ),
+    },
+    {
+      name: 'AMD: Asia range valid',
+      ok: amd.gates?.asiaRangeValid === true,
+      pending: waitingMode && amd.gates?.asiaRangeValid !== true,
+      detail: resolveDetail(
+        amd.gates?.asiaRangeValid === true,
+        'čeká validní Asia range',
+        'Asia range není validní',
+        Number.isFinite(asiaLow) && Number.isFinite(asiaHigh)
+          ? `Asia ${formatNumber(asiaLow, 4)}-${formatNumber(asiaHigh, 4)}`
+          : 'OK'
+      ),
+    },
+    {
+      name: 'AMD: Liquidity sweep',
+      ok: amd.gates?.liquiditySweep === true,
+      pending: waitingMode && amd.gates?.liquiditySweep !== true,
+      detail: resolveDetail(
+        amd.gates?.liquiditySweep === true,
+        'čeká liquidity sweep',
+        'liquidity sweep nepotvrzen',
+        Number.isFinite(sweepLow) && Number.isFinite(sweepHigh)
+          ? `sweep ${formatNumber(sweepLow, 4)}-${formatNumber(sweepHigh, 4)}`
+          : 'OK'
+      ),
+    },
+    {
+      name: 'AMD: Inversion FVG confirm',
+      ok: amd.gates?.inversionFvgConfirm === true,
+      pending: waitingMode && amd.gates?.inversionFvgConfirm !== true,
+      detail: resolveDetail(
+        amd.gates?.inversionFvgConfirm === true,
+        'čeká inversion FVG potvrzení',
+        'inversion FVG nepotvrzen'
+      ),
+    },
+    {
+      name: 'AMD: Target model valid',
+      ok: targetValid,
+      pending: waitingMode && !targetValid,
+      detail: targetValid
+        ? `TP1 ${formatNumber(tp1, 4)} · TP2 ${formatNumber(tp2, 4)}`
+        : waitingMode
+          ? baseTargetValid
+            ? 'čeká finální signal TP'
+            : 'čeká validní target model'
+          : 'target model není validní',
+    },
+  ];
+  return {
+    gates,
+    pass: gates.length > 0 && gates.every((gate) => gate.ok),
+  };
+}
+
+export function normalizeTrendDir(value) {
+  const upper = value.trim().toUpperCase();
+  if (!upper || upper === '—') return '—';
+  if (upper.startsWith('BULL') || upper === 'UP') return 'BULL';
+  if (upper.startsWith('BEAR') || upper === 'DOWN') return 'BEAR';
+  if (upper.startsWith('RANGE') || upper === 'NONE' || upper === 'NEUTRAL') {
+    return 'RANGE';
+  }
+  return upper;
+}
+
+/**
+ * The signal must not trade against the 1h bias or the 15m trend; without
+ * core metrics the decision's own trend fields are used.
+ */
+export function resolveH1M15TrendGate(core, signal, decision) {
+  if (!signal) {
+    return { ok: true, detail: 'no signal' };
+  }
+  const sideRaw = String(signal.intent?.side ?? '').toLowerCase();
+  const signalDir = sideRaw === 'buy' ? 'BULL' : sideRaw === 'sell' ? 'BEAR' : '';
+  if (!signalDir) {
+    return { ok: false, detail: 'signal side missing' };
+  }
+  const toTrendDir = (value) => {
+    const dir = normalizeTrendDir(String(value ?? ''));
+    return dir === 'BULL' || dir === 'BEAR' ? dir : 'NONE';
+  };
+  const pickFirstTrend = (...values) => {
+    for (const value of values) {
+      if (value === 'BULL' || value === 'BEAR') return value;
+    }
+    return 'NONE';
+  };
+
+  let h1Dir = 'NONE';
+  let m15Dir = 'NONE';
+  let fallbackUsed = false;
+  if (core) {
+    h1Dir = core.htfBias === 'BULL' || core.htfBias === 'BEAR' ? core.htfBias : 'NONE';
+    if (core.m15SmaTrend === 'BULL' || core.m15SmaTrend === 'BEAR') {
+      m15Dir = core.m15SmaTrend;
+    } else if (core.m15TrendLongOk) m15Dir = 'BULL';
+    else if (core.m15TrendShortOk) m15Dir = 'BEAR';
+    else if (core.ema15mTrend === 'BULL' || core.ema15mTrend === 'BEAR') {
+      m15Dir = core.ema15mTrend;
+    }
+  } else {
+    fallbackUsed = true;
+    h1Dir = pickFirstTrend(
+      toTrendDir(decision?.htfTrend?.consensus),
+      toTrendDir(decision?.trendH1 ?? decision?.trend),
+      toTrendDir(decision?.xContext?.htfTrend)
+    );
+    m15Dir = pickFirstTrend(
+      toTrendDir(decision?.coreV2?.m15SmaTrend),
+      toTrendDir(decision?.coreV2?.ema15mTrend)
+    );
+    if (m15Dir === 'NONE') {
+      const m15LtfEntry = Array.isArray(decision?.ltfTrend?.byTimeframe)
+        ? decision.ltfTrend.byTimeframe.find((entry) => Number(entry?.timeframeMin) === 15)
+        : undefined;
+      m15Dir = pickFirstTrend(
+        toTrendDir(m15LtfEntry?.result?.direction),
+        toTrendDir(decision?.ltfTrend?.consensus),
+        toTrendDir(decision?.xContext?.ltfTrend)
+      );
+    }
+    if (h1Dir === 'NONE' && m15Dir === 'NONE') {
+      return { ok: true, detail: 'trend context unavailable (fallback skip)' };
+    }
+  }
+  const againstH1 = (h1Dir === 'BULL' || h1Dir === 'BEAR') && h1Dir !== signalDir;
+  const againstM15 = (m15Dir === 'BULL' || m15Dir === 'BEAR') && m15Dir !== signalDir;
+  const detail = `1h ${h1Dir} | 5m ${m15Dir}${fallbackUsed ? ' | fallback' : ''}`;
+  return { ok: !againstH1 && !againstM15, detail };
+}
+
+/** Shorts are blocked while price, MACD or RSI still point up on 5m. */
+export function treeTrendGate5m(input) {
+  const ttlMs = Number.isFinite(input.ttlMs) ? Number(input.ttlMs) : 60_000;
+  const side = String(input.side ?? '').trim().toLowerCase();
+  if (side !== 'sell' && side !== 'short') {
+    return { ok: true, code: 'OK', reason: 'trend ok' };
+  }
+  const aboveEma200 =
+    Number.isFinite(input.price) &&
+    Number.isFinite(input.ema200_5m) &&
+    input.price > input.ema200_5m;
+  const macdBull = Number.isFinite(input.macdHist_5m) && input.macdHist_5m > 0;
+  const rsiBull = Number.isFinite(input.rsi14_5m) && input.rsi14_5m >= 55;
+  if (aboveEma200 || macdBull || rsiBull) {
+    return { ok: false, code: 'TREND_FILTER', reason: 'short vs 5m uptrend', ttlMs };
+  }
+  return { ok: true, code: 'OK', reason: 'trend ok' };
+}
+
+/**
+ * Adaptive tree gate: a ranging day (low ADX) only takes mean-reversion
+ * signals, a strong trend only pullbacks.
+ */
+export function resolveTreeAdaptiveGate(decision, signal) {
+  const trendAdx = toNumber(decision?.trendAdx);
+  const trendScore = toNumber(decision?.trendScore);
+  const alignedCount = toNumber(decision?.htfTrend?.alignedCount);
+  const trendDir = normalizeTrendDir(String(decision?.trend ?? decision?.trendH1 ?? ''));
+  const structureStrong =
+    (Number.isFinite(trendScore) && trendScore >= TREND_GATE_STRONG_SCORE) ||
+    (Number.isFinite(alignedCount) && alignedCount >= 2) ||
+    trendDir === 'BULL' ||
+    trendDir === 'BEAR';
+  let expectedKind = null;
+  if (Number.isFinite(trendAdx) && trendAdx < TREND_DAY_ADX_MIN) {
+    expectedKind = 'MEAN_REVERSION';
+  } else if (Number.isFinite(trendAdx) && trendAdx >= TREND_GATE_STRONG_ADX && structureStrong) {
+    expectedKind = 'PULLBACK';
+  }
+  const kind = signal?.kind ?? 'OTHER';
+  return {
+    ok: !expectedKind || kind === expectedKind,
+    trendAdx,
+    expectedKind,
+    kind,
+  };
+}
+
+export function computeLossStreak(records, maxCheck = 3) {
+  if (!Array.isArray(records) || records.length === 0) return 0;
+  const sorted = [...records].sort((a, b) => b.ts - a.ts);
+  let streak = 0;
+  for (const r of sorted) {
+    if (r.pnl < 0) {
+      streak += 1;
+      if (streak >= maxCheck) break;
+    } else {
+      break;
+    }
+  }
+  return streak;
+}
+
+/**
+ * Risk-off state of a profile: chop for ai-matic-x, the loss streak and
+ * daily R of the closed PnL records (`{ pnl, ts }`) for OLIkella.
+ */
+export function resolveRiskOff({ riskMode, decision, closedPnl, equity, now }) {
+  const reasons = [];
+  if (riskMode === 'ai-matic-x' && decision?.xContext?.riskOff) {
+    reasons.push('chop');
+  }
+  if (riskMode === 'ai-matic-olikella') {
+    const lossStreak = computeLossStreak(closedPnl, SCALP_MAX_LOSSES_IN_ROW);
+    const riskBudget =
+      Number.isFinite(equity) && equity > 0
+        ? equity * (CORE_V2_RISK_PCT['ai-matic-olikella'] ?? 0)
+        : Number.NaN;
+    const dayAgo = now - 24 * 60 * 60_000;
+    const dailyPnlUsd = Array.isArray(closedPnl)
+      ? closedPnl.reduce((sum, r) => (r.ts < dayAgo ? sum : sum + r.pnl), 0)
+      : Number.NaN;
+    const dailyLossR =
+      Number.isFinite(riskBudget) && riskBudget > 0 ? dailyPnlUsd / riskBudget : Number.NaN;
+    if (lossStreak >= SCALP_MAX_LOSSES_IN_ROW) {
+      reasons.push(`loss_streak ${lossStreak}`);
+    }
+    if (Number.isFinite(dailyLossR) && dailyLossR <= SCALP_MAX_DAILY_LOSS_R) {
+      reasons.push(`daily_R ${dailyLossR.toFixed(2)}`);
+    }
+  }
+  return { riskOff: reasons.length > 0, reasons };
+}
+
+export function buildOliChecklistGates(oliContext) {
+  return [
+    {
+      name: OLIKELLA_GATE_SIGNAL_CHECKLIST,
+      ok: Boolean(oliContext?.gates.signalChecklistOk),
+      detail: oliContext?.gates.signalChecklistDetail ?? 'no valid OLIkella setup',
+    },
+    {
+      name: OLIKELLA_GATE_ENTRY_CONDITIONS,
+      ok: Boolean(oliContext?.gates.entryConditionsOk),
+      detail: oliContext?.gates.entryConditionsDetail ?? 'entry conditions missing',
+    },
+    {
+      name: OLIKELLA_GATE_EXIT_CONDITIONS,
+      ok: Boolean(oliContext?.gates.exitConditionsOk),
+      detail: oliContext?.gates.exitConditionsDetail ?? 'exit lifecycle unavailable',
+    },
+    {
+      name: OLIKELLA_GATE_RISK_RULES,
+      ok: Boolean(oliContext?.gates.riskRulesOk),
+      detail:
+        oliContext?.gates.riskRulesDetail ??
+        'risk 1.5% | RRR 1.8 | max positions 5 | max orders 20',
+    },
+  ];
+}
+
+export function summarizeOliGateFailures({ oliContext, gateEnabled }) {
+  const rows = buildOliChecklistGates(oliContext);
+  const failedGateRows = rows.filter((row) =>
+    gateEnabled ? gateEnabled(row.name) && !row.ok : !row.ok
+  );
+  const failedGateDetails = failedGateRows.map((row) => `${row.name}: ${row.detail}`);
+  const explicitFailureReasons = Array.isArray(oliContext?.gateFailureReasons)
+    ? oliContext.gateFailureReasons
+    : [];
+  const missingPatternReasons = Array.isArray(oliContext?.missingPatternReasons)
+    ? oliContext.missingPatternReasons
+    : [];
+  const humanReasons = missingPatternReasons
+    .map((reason) => String(reason ?? '').trim())
+    .filter((reason) => reason.length > 0);
+  const structuredReasons = explicitFailureReasons
+    .map((reason) => String(reason ?? '').trim())
+    .filter((reason) => reason.length > 0)
+    .map((reason) => `FAIL_CODE:${reason}`);
+  const allReasons =
+    failedGateRows.length > 0
+      ? Array.from(new Set([...humanReasons, ...failedGateDetails, ...structuredReasons]))
+      : [];
+  return {
+    failedGateNames: failedGateRows.map((row) => row.name),
+    allReasons,
+  };
+}
+
+function formatGroupedGateDetail(selected, missingLabel) {
+  if (!selected.length) return missingLabel;
+  const fails = selected.filter((gate) => !gate.ok).map((gate) => gate.name);
+  if (!fails.length) return `${selected.length}/${selected.length}`;
+  return fails.slice(0, 2).join(' | ');
+}
+
+/**
+ * AI-MATIC Core groups the core checklist into four gates; the risk group
+ * comes from the generic gates of the decision trace.
+ */
+export function buildAiMaticCoreGroupedGates(args) {
+  const coreGates = Array.isArray(args.coreGates) ? args.coreGates : [];
+  const trace = Array.isArray(args.trace) ? args.trace : [];
+  const pickCore = (names) => coreGates.filter((gate) => names.has(String(gate.name ?? '')));
+  const signalChecklist = pickCore(AI_MATIC_CORE_SIGNAL_COMPONENT_NAMES);
+  const entryConditions = pickCore(AI_MATIC_CORE_ENTRY_COMPONENT_NAMES);
+  const executionConditions = pickCore(AI_MATIC_CORE_EXEC_COMPONENT_NAMES);
+  const riskRules = trace
+    .filter((entry) => AI_MATIC_CORE_RISK_TRACE_NAMES.has(String(entry.gate ?? '')))
+    .map((entry) => ({ name: entry.gate, ok: entry.result.ok, pending: false }));
+  const gates = [
+    {
+      name: AI_MATIC_CORE_GATE_SIGNAL_CHECKLIST,
+      ok: signalChecklist.length > 0 && signalChecklist.every((gate) => gate.ok),
+      pending: signalChecklist.some((gate) => gate.pending),
+      detail: formatGroupedGateDetail(signalChecklist, 'signal pending'),
+    },
+    {
+      name: AI_MATIC_CORE_GATE_ENTRY_CONDITIONS,
+      ok: entryConditions.length > 0 && entryConditions.every((gate) => gate.ok),
+      pending: entryConditions.some((gate) => gate.pending),
+      detail: formatGroupedGateDetail(entryConditions, 'entry pending'),
+    },
+    {
+      name: AI_MATIC_CORE_GATE_EXECUTION_CONDITIONS,
+      ok: executionConditions.length > 0 && executionConditions.every((gate) => gate.ok),
+      pending: executionConditions.some((gate) => gate.pending),
+      detail: formatGroupedGateDetail(executionConditions, 'execution pending'),
+    },
+    {
+      name: AI_MATIC_CORE_GATE_RISK_RULES,
+      ok: riskRules.every((gate) => gate.ok),
+      pending: false,
+      detail: formatGroupedGateDetail(riskRules, 'risk checks waiting'),
+    },
+  ];
+  return {
+    gates,
+    pass: gates.length > 0 && gates.every((gate) => gate.ok),
+  };
+}
+
+/** ai-matic swing entries pause the symbol for a number of bars. */
+export function resolveSwingCooldownUntil(now, tfMin) {
+  const bars = tfMin === 15 ? AI_MATIC_SWING_COOLDOWN_BARS_15M : AI_MATIC_SWING_COOLDOWN_BARS_5M;
+  return now + bars * tfMin * 60_000;
+}
+
+/**
+ * Timeframe of the ai-matic swing setup an entry on `side` follows, or null
+ * when the EMA200 reversal module or no swing setup drives it.
+ */
+export function resolveAiMaticSwingTf(aiMatic, side) {
+  if (!aiMatic?.swing?.active) return null;
+  const isBuy = side === 'Buy';
+  const ema200Setup = isBuy ? aiMatic.ema200Scalp?.buy : aiMatic.ema200Scalp?.sell;
+  if (ema200Setup?.mode === 'AOI_REVERSAL_MARKET' && ema200Setup?.enabled) return null;
+  const swingSetup = isBuy ? aiMatic.swing.buy : aiMatic.swing.sell;
+  if (!swingSetup?.enabled) return null;
+  const tfMin = aiMatic.swing.activeTfMin;
+  return tfMin === 5 || tfMin === 15 ? tfMin : null;
+}
+
+export function swingCooldownGate(cooldownUntil, now, ttlMs) {
+  if (!(Number.isFinite(cooldownUntil) && cooldownUntil > now)) {
+    return { ok: true, code: 'OK', reason: 'swing cooldown' };
+  }
+  const remainingMin = Math.ceil((cooldownUntil - now) / 60_000);
+  return { ok: false, code: 'SWING_COOLDOWN', reason: `swing cooldown ${remainingMin}m`, ttlMs };
+}
+
+function blocked(gate, code, message) {
+  return { ok: false, gate, code, message };
+}
+
+/**
+ * Gates checked as soon as a signal arrives, before the generic gates: the
+ * AMD phase sequence and the adaptive tree gate. Returns `{ ok, amdEval }`
+ * plus `gate`/`code`/`message` of the blocking gate.
+ */
+export function evaluateSignalGates({ symbol, riskMode, decision, signal, trendGateMode }) {
+  let amdEval = null;
+  if (riskMode === 'ai-matic-amd') {
+    amdEval = evaluateAmdGatesCore({ decision, signal });
+    if (!amdEval.pass) {
+      const fails = amdEval.gates.filter((g) => !g.ok).map((g) => g.name);
+      const passCount = amdEval.gates.filter((g) => g.ok).length;
+      return {
+        ...blocked(
+          'AMD',
+          'AMD_GATE',
+          `${symbol} AI-MATIC-AMD gate ${passCount}/${amdEval.gates.length} -> NO TRADE${fails.length ? ` (fail: ${fails.join(', ')})` : ''}`
+        ),
+        amdEval,
+      };
+    }
+  }
+  const isTreeProfile = riskMode === 'ai-matic-tree' || riskMode === 'ai-matic';
+  if (isTreeProfile && (trendGateMode ?? 'adaptive') === 'adaptive') {
+    const adaptive = resolveTreeAdaptiveGate(decision, signal);
+    if (!adaptive.ok) {
+      return {
+        ...blocked(
+          'TREE_ADAPTIVE',
+          'TREND_GATE',
+          `${symbol} ${riskMode === 'ai-matic-bbo' ? 'AI-MATIC-BBO' : 'TREE'} adaptive gate: ADX ${formatNumber(
+            adaptive.trendAdx,
+            1
+          )} → expect ${adaptive.expectedKind}, got ${adaptive.kind}`
+        ),
+        amdEval,
+      };
+    }
+  }
+  return { ok: true, amdEval };
+}
+
+/**
+ * Strategy gates checked after the generic gates passed, in dashboard order:
+ * 1h/5m trend, tree 5m trend, risk-off, OLIkella gates, score, AI-MATIC Core
+ * groups and the profile checklist. `trace` is the decision trace of the
+ * generic gates and gets the trend entries appended. OLIkella risk-off only
+ * scales the size down, so it comes back as `riskOff` on a passing result.
+ */
+export function evaluateStrategyEntryGates({
+  symbol,
+  riskMode,
+  decision,
+  signal,
+  side,
+  coreEval,
+  amdEval = null,
+  gateOverrides,
+  enableSoftGates,
+  trace = [],
+  closedPnl,
+  equity,
+  now,
+}) {
+  const isScalpProfile = riskMode === 'ai-matic-olikella';
+  const isAmdProfile = riskMode === 'ai-matic-amd';
+  const isAiMaticProfile = riskMode === 'ai-matic';
+  const isProProfile = riskMode === 'ai-matic-pro';
+  const isTreeProfile = riskMode === 'ai-matic-tree' || riskMode === 'ai-matic';
+  const gateEnabled = (name) => isGateEnabled(gateOverrides, name);
+  const core = decision?.coreV2;
+  const risk = resolveRiskOff({ riskMode, decision, closedPnl, equity, now });
+  const result = (extra) => ({
+    riskOff: risk.riskOff,
+    riskReasons: risk.reasons,
+    aiMaticCoreEval: null,
+    ...extra,
+  });
+
+  if (!isScalpProfile && !isAmdProfile) {
+    const trendGate = resolveH1M15TrendGate(core, signal, decision);
+    trace.push({
+      gate: 'Trend1h5m',
+      result: {
+        ok: trendGate.ok,
+        code: trendGate.ok ? 'OK' : 'TREND_GATE',
+        reason: trendGate.detail,
+      },
+    });
+    if (!trendGate.ok) {
+      return result(
+        blocked('TREND_1H5M', 'TREND_GATE', `${symbol} trend gate 1h/5m [TREND_GATE]: ${trendGate.detail}`)
+      );
+    }
+  }
+  if (isTreeProfile) {
+    const treeGate = treeTrendGate5m({
+      side,
+      price: toNumber(core?.ltfClose),
+      ema200_5m: toNumber(core?.ema200),
+      macdHist_5m: toNumber(core?.ltfMacdHist),
+      rsi14_5m: toNumber(core?.ltfRsi),
+    });
+    trace.push({ gate: 'TreeTrend5m', result: treeGate });
+    if (!treeGate.ok) {
+      return result(
+        blocked('TREE_5M', treeGate.code, `${symbol} TREE 5m gate [${treeGate.code}]: ${treeGate.reason}`)
+      );
+    }
+  }
+  if (risk.riskOff && !isScalpProfile) {
+    return result(blocked('RISK_OFF', 'RISK_OFF', `${symbol} risk off: ${risk.reasons.join(', ')}`));
+  }
+  if (isScalpProfile) {
+    const summary = summarizeOliGateFailures({
+      oliContext: decision?.oliKella,
+      gateEnabled,
+    });
+    if (summary.failedGateNames.length > 0) {
+      return result(
+        blocked(
+          'OLIKELLA',
+          'OLIKELLA_GATE',
+          `${symbol} OLIkella gate failed [BACKTEST]: ${summary.allReasons.join(' || ')} -> NO TRADE`
+        )
+      );
+    }
+  }
+  const softEnabled = !isScalpProfile && enableSoftGates !== false;
+  if (
+    softEnabled &&
+    coreEval.scorePass === false &&
+    !isAiMaticProfile &&
+    !isAmdProfile &&
+    !isScalpProfile
+  ) {
+    return result(
+      blocked('SCORE', 'SCORE_GATE', `${symbol} score gate ${coreEval.score}/${coreEval.threshold}`)
+    );
+  }
+  let aiMaticCoreEval = null;
+  if (isAiMaticProfile) {
+    aiMaticCoreEval = buildAiMaticCoreGroupedGates({ coreGates: coreEval.gates, trace });
+    if (!aiMaticCoreEval.pass) {
+      const fails = aiMaticCoreEval.gates.filter((gate) => !gate.ok).map((gate) => gate.name);
+      const passCount = aiMaticCoreEval.gates.filter((gate) => gate.ok).length;
+      return result({
+        ...blocked(
+          'AI_MATIC_CORE',
+          'AI_MATIC_CORE_GATE',
+          `${symbol} AI-MATIC Core gates ${passCount}/${aiMaticCoreEval.gates.length} -> NO TRADE${fails.length ? ` (${fails.join(' | ')})` : ''}`
+        ),
+        aiMaticCoreEval,
+      });
+    }
+  }
+
+  let checklist;
+  if (isProProfile) {
+    checklist = {
+      eligibleCount: coreEval.scoreTotal,
+      passedCount: coreEval.score,
+      pass: coreEval.scorePass !== false,
+    };
+  } else if (isAiMaticProfile) {
+    checklist = {
+      eligibleCount: AI_MATIC_CHECKLIST_MIN,
+      passedCount: AI_MATIC_CHECKLIST_MIN,
+      pass: true,
+    };
+  } else if (isAmdProfile) {
+    checklist = {
+      eligibleCount: amdEval?.gates.length ?? 0,
+      passedCount: amdEval?.gates.filter((g) => g.ok).length ?? 0,
+      pass: amdEval?.pass === true,
+    };
+  } else if (isScalpProfile) {
+    const eligible = buildOliChecklistGates(decision?.oliKella).filter((gate) =>
+      gateEnabled(gate.name)
+    );
+    const passed = eligible.filter((gate) => gate.ok).length;
+    checklist = {
+      eligibleCount: eligible.length,
+      passedCount: passed,
+      pass: eligible.length > 0 ? passed === eligible.length : false,
+    };
+  } else {
+    checklist = evaluateChecklistPass(coreEval.gates, gateOverrides);
+  }
+  if (!checklist.pass) {
+    const threshold = isProProfile || isScalpProfile ? checklist.eligibleCount : MIN_CHECKLIST_PASS;
+    return result({
+      ...blocked('CHECKLIST', 'CHECKLIST', `${symbol} checklist ${checklist.passedCount}/${threshold}`),
+      aiMaticCoreEval,
+    });
+  }
+  return result({ ok: true, aiMaticCoreEval });
+}
@@ -0,0 +1,353 @@
+// src/engine/exchangeStreams.ts
+// Public market-data streams (kline / trade / orderbook / ticker / liquidation)
+// per exchange. Each adapter knows its WS URL, subscribe messages and how to
+// turn raw frames into normalized events; priceFeed and liquidationFeed own
+// the socket. Account/order calls live server-side in server/exchanges/.
+
+import type { Candle } from "./botEngine";
+
+export type ExchangeId = "bybit" | "binance";
+
+export const DEFAULT_EXCHANGE: ExchangeId = "bybit";
+
+export type PublicStreamSubscription = {
+  symbols: string[];
+  // Bybit interval notation: minutes ("1", "5", "60") or "D" / "W" / "M".
+  klineInterval?: string;
+  tickers?: boolean;
+  trades?: boolean;
+  orderbookDepth?: number;
+  liquidations?: boolean;
+};
+
+export type PublicTrade = {
+  price: number;
+  size: number;
+  side: "Buy" | "Sell";
+  time: number;
+};
+
+export type PublicStreamEvent =
+  | { kind: "kline"; symbol: string; interval: string; candle: Candle; confirmed: boolean }
+  | { kind: "trades"; symbol: string; trades: PublicTrade[] }
+  | {
+      kind: "orderbook";
+      symbol: string;
+      bids: [number, number][];
+      asks: [number, number][];
+      snapshot: boolean;
+    }
+  | { kind: "ticker"; symbol: string; openInterest: number }
+  | {
+      kind: "liquidation";
+      symbol: string;
+      price: number;
+      size: number;
+      // Side of the liquidated position (Bybit convention).
+      side: "Buy" | "Sell";
+      time: number;
+    };
+
+export type KlineRestRequest = {
+  symbol: string;
+  interval: string;
+  limit: number;
+  end: number;
+};
+
+export interface PublicStreamAdapter {
+  id: ExchangeId;
+  url(useTestnet?: boolean): string;
+  subscribeMessages(sub: PublicStreamSubscription): string[];
+  // Application-level heartbeat; null when the exchange pings the client.
+  pingMessage: string | null;
+  parse(raw: string): PublicStreamEvent[];
+  klineRestUrl(req: KlineRestRequest, useTestnet?: boolean): string;
+  // Throws on an error payload; returns candles in any order.
+  parseKlineRest(json: unknown): Candle[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+function toLevels(rows: unknown): [number, number][] {
+  if (!Array.isArray(rows)) return [];
+  const out: [number, number][] = [];
+  for (const row of rows) {
+    if (!Array.isArray(row) || row.length < 2) continue;
+    const price = Number(row[0]);
+    const size = Number(row[1]);
+    if (Number.isFinite(price) && Number.isFinite(size)) out.push([price, size]);
+  }
+  return out;
+}
+
+function toCandle(
+  openTime: unknown,
+  open: unknown,
+  high: unknown,
+  low: unknown,
+  close: unknown,
+  volume: unknown
+): Candle | null {
+  const candle = {
+    openTime: Number(openTime),
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    volume: Number(volume),
+  };
+  if (!Number.isFinite(candle.openTime)) return null;
+  if (![candle.open, candle.high, candle.low, candle.close].every(Number.isFinite)) {
+    return null;
+  }
+  return candle;
+}
+
+// ---------------------------------------------------------------------------
+// Bybit V5
+// ---------------------------------------------------------------------------
+
+const BYBIT_WS_URL = "wss://stream.bybit.com/v5/public/linear";
+const BYBIT_REST_MAINNET = "https://api.bybit.com";
+const BYBIT_REST_TESTNET = "https://api-demo.bybit.com";
+
+function parseBybitKlineRow(row: unknown): Candle | null {
+  if (Array.isArray(row)) return toCandle(row[0], row[1], row[2], row[3], row[4], row[5]);
+  const r = (row ?? {}) as RawRecord;
+  return toCandle(r.start ?? r.startTime, r.open, r.high, r.low, r.close, r.volume);
+}
+
+export const bybitPublicStream: PublicStreamAdapter = {
+  id: "bybit",
+  // Bybit demo trading has no public stream of its own; both use mainnet.
+  url: () => BYBIT_WS_URL,
+  subscribeMessages(sub) {
+    const args: string[] = [];
+    for (const s of sub.symbols) {
+      if (sub.klineInterval) args.push(`kline.${sub.klineInterval}.${s}`);
+      if (sub.tickers) args.push(`tickers.${s}`);
+      if (sub.trades) args.push(`publicTrade.${s}`);
+      if (sub.orderbookDepth) args.push(`orderbook.${sub.orderbookDepth}.${s}`);
+      if (sub.liquidations) args.push(`liquidation.${s}`);
+    }
+    return args.length ? [JSON.stringify({ op: "subscribe", args })] : [];
+  },
+  pingMessage: JSON.stringify({ op: "ping" }),
+  parse(raw) {
+    const msg = JSON.parse(raw);
+    // pongs & subscription acks
+    if (msg?.op === "pong" || msg?.success === true) return [];
+    const topic = String(msg?.topic ?? "");
+    const data = msg?.data;
+    if (!topic || !data) return [];
+
+    if (topic.startsWith("kline.")) {
+      const [, interval, symbol] = topic.split(".");
+      const rows = Array.isArray(data) ? data : [data];
+      return rows.flatMap((row: RawRecord) => {
+        const candle = parseBybitKlineRow(row);
+        return candle
+          ? [{ kind: "kline" as const, symbol, interval, candle, confirmed: row?.confirm === true }]
+          : [];
+      });
+    }
+    if (topic.startsWith("tickers.")) {
+      const openInterest = Number(data?.openInterest);
+      if (!data?.symbol || !Number.isFinite(openInterest) || openInterest <= 0) return [];
+      return [{ kind: "ticker", symbol: data.symbol, openInterest }];
+    }
+    if (topic.startsWith("publicTrade.")) {
+      if (!Array.isArray(data) || data.length === 0) return [];
+      const trades = data
+        .map((t: RawRecord) => ({
+          price: Number(t?.p),
+          size: Number(t?.v),
+          side: (String(t?.S).toLowerCase() === "buy" ? "Buy" : "Sell") as PublicTrade["side"],
+          time: Number(t?.T) || Date.now(),
+        }))
+        .filter((t: PublicTrade) => Number.isFinite(t.price) && Number.isFinite(t.size));
+      return [{ kind: "trades", symbol: data[0].s, trades }];
+    }
+    if (topic.startsWith("orderbook.")) {
+      if (!data?.s) return [];
+      return [
+        {
+          kind: "orderbook",
+          symbol: data.s,
+          bids: toLevels(data.b),
+          asks: toLevels(data.a),
+          snapshot: msg.type === "snapshot",
+        },
+      ];
+    }
+    if (topic.startsWith("liquidation.")) {
+      // data: { symbol, side, price, size, updatedTime }
+      return [
+        {
+          kind: "liquidation",
+          symbol: data.symbol,
+          price: parseFloat(data.price),
+          size: parseFloat(data.size),
+          side: data.side === "Buy" ? "Buy" : "Sell",
+          time: Number(data.updatedTime) || Date.now(),
+        },
+      ];
+    }
+    return [];
+  },
+  klineRestUrl(req, useTestnet) {
+    const base = useTestnet ? BYBIT_REST_TESTNET : BYBIT_REST_MAINNET;
+    return `${base}/v5/market/kline?category=linear&symbol=${req.symbol}&interval=${req.interval}&limit=${req.limit}&end=${req.end}`;
+  },
+  parseKlineRest(json) {
+    const body = json as { retCode?: unknown; result?: { list?: unknown } } | null;
+    const retCode = Number(body?.retCode ?? 0);
+    if (Number.isFinite(retCode) && retCode !== 0) {
+      throw new Error(`backfill_failed_retcode:${retCode}`);
+    }
+    const list = body?.result?.list ?? [];
+    if (!Array.isArray(list)) return [];
+    return list
+      .map((row: unknown[]) => (Array.isArray(row) && row.length >= 6 ? parseBybitKlineRow(row) : null))
+      .filter((c: Candle | null): c is Candle => Boolean(c));
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Binance USDⓈ-M
+// ---------------------------------------------------------------------------
+
+const BINANCE_WS_MAINNET = "wss://fstream.binance.com/stream";
+const BINANCE_WS_TESTNET = "wss://stream.binancefuture.com/stream";
+const BINANCE_REST_MAINNET = "https://fapi.binance.com";
+const BINANCE_REST_TESTNET = "https://testnet.binancefuture.com";
+const BINANCE_DEPTH_LEVELS = [5, 10, 20];
+
+const BINANCE_INTERVALS: Record<string, string> = {
+  "1": "1m",
+  "3": "3m",
+  "5": "5m",
+  "15": "15m",
+  "30": "30m",
+  "60": "1h",
+  "120": "2h",
+  "240": "4h",
+  "360": "6h",
+  "720": "12h",
+  D: "1d",
+  W: "1w",
+  M: "1M",
+};
+const BYBIT_INTERVALS = Object.fromEntries(
+  Object.entries(BINANCE_INTERVALS).map(([bybit, binance]) => [binance, bybit])
+);
+
+export function toBinanceInterval(interval: string): string {
+  const mapped = BINANCE_INTERVALS[String(interval)];
+  if (!mapped) throw new Error(`Unsupported Binance interval: ${interval}`);
+  return mapped;
+}
+
+export const binancePublicStream: PublicStreamAdapter = {
+  id: "binance",
+  url: (useTestnet) => (useTestnet ? BINANCE_WS_TESTNET : BINANCE_WS_MAINNET),
+  subscribeMessages(sub) {
+    const params: string[] = [];
+    // Partial book depth only comes in 5/10/20 levels; round the request up.
+    const depth = sub.orderbookDepth
+      ? BINANCE_DEPTH_LEVELS.find((d) => d >= (sub.orderbookDepth ?? 0)) ?? 20
+      : 0;
+    for (const s of sub.symbols) {
+      const stream = s.toLowerCase();
+      if (sub.klineInterval) params.push(`${stream}@kline_${toBinanceInterval(sub.klineInterval)}`);
+      if (sub.trades) params.push(`${stream}@aggTrade`);
+      if (depth) params.push(`${stream}@depth${depth}@100ms`);
+      if (sub.liquidations) params.push(`${stream}@forceOrder`);
+      // No public open-interest stream on Binance; tickers are skipped.
+    }
+    return params.length ? [JSON.stringify({ method: "SUBSCRIBE", params, id: 1 })] : [];
+  },
+  // Binance sends ping frames; browsers answer them automatically.
+  pingMessage: null,
+  parse(raw) {
+    const msg = JSON.parse(raw);
+    const data = msg?.data ?? msg;
+    switch (data?.e) {
+      case "kline": {
+        const k = data.k ?? {};
+        const candle = toCandle(k.t, k.o, k.h, k.l, k.c, k.v);
+        if (!candle) return [];
+        return [
+          {
+            kind: "kline",
+            symbol: data.s,
+            interval: BYBIT_INTERVALS[k.i] ?? String(k.i),
+            candle,
+            confirmed: k.x === true,
+          },
+        ];
+      }
+      case "aggTrade": {
+        const trade: PublicTrade = {
+          price: Number(data.p),
+          size: Number(data.q),
+          // Buyer is maker -> the aggressor sold.
+          side: data.m ? "Sell" : "Buy",
+          time: Number(data.T) || Date.now(),
+        };
+        return [{ kind: "trades", symbol: data.s, trades: [trade] }];
+      }
+      case "depthUpdate":
+        // Partial book streams carry the full top-N each time.
+        return [
+          {
+            kind: "orderbook",
+            symbol: data.s,
+            bids: toLevels(data.b),
+            asks: toLevels(data.a),
+            snapshot: true,
+          },
+        ];
+      case "forceOrder": {
+        const o = data.o ?? {};
+        return [
+          {
+            kind: "liquidation",
+            symbol: o.s,
+            price: Number(o.ap) || Number(o.p),
+            size: Number(o.q),
+            // A SELL force order closes a long position.
+            side: o.S === "SELL" ? "Buy" : "Sell",
+            time: Number(o.T) || Date.now(),
+          },
+        ];
+      }
+      default:
+        return [];
+    }
+  },
+  klineRestUrl(req, useTestnet) {
+    const base = useTestnet ? BINANCE_REST_TESTNET : BINANCE_REST_MAINNET;
+    return `${base}/fapi/v1/klines?symbol=${req.symbol}&interval=${toBinanceInterval(req.interval)}&limit=${Math.min(req.limit, 1500)}&endTime=${req.end}`;
+  },
+  parseKlineRest(json) {
+    if (!Array.isArray(json)) {
+      throw new Error(`backfill_failed_code:${(json as { code?: unknown } | null)?.code ?? "unknown"}`);
+    }
+    return json
+      .map((row: unknown[]) =>
+        Array.isArray(row) ? toCandle(row[0], row[1], row[2], row[3], row[4], row[5]) : null
+      )
+      .filter((c: Candle | null): c is Candle => Boolean(c));
+  },
+};
+
+const PUBLIC_STREAMS: Record<ExchangeId, PublicStreamAdapter> = {
+  bybit: bybitPublicStream,
+  binance: binancePublicStream,
+};
+
+export function getPublicStreamAdapter(exchange: ExchangeId = DEFAULT_EXCHANGE): PublicStreamAdapter {
+  return PUBLIC_STREAMS[exchange] ?? bybitPublicStream;
+}
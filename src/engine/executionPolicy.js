@@ -0,0 +1,2 @@
+export * from './executionPolicyEngine.js';
+export * from './entryGatesEngine.js';
@@ -0,0 +1,416 @@
+import type { AISettings } from '../types';
+import type { TradeIntent } from '../api/types';
+import type { PriceFeedDecision } from './priceFeed';
+import * as policy from './executionPolicyEngine.js';
+import * as gates from './entryGatesEngine.js';
+
+export type PolicyGateResult = { ok: boolean; code: string; reason: string; ttlMs?: number };
+
+export type SizingFailureReason =
+  | 'missing_equity'
+  | 'invalid_sl_distance'
+  | 'invalid_risk_budget'
+  | 'invalid_notional'
+  | 'below_min_notional'
+  | 'invalid_qty'
+  | 'invalid_entry'
+  | 'invalid_fixed_qty'
+  | 'invalid_fixed_notional';
+
+// Flat shape: the sizing fields are set when `ok`, `reason` when not.
+export type SizingResult = {
+  ok: boolean;
+  notional?: number;
+  qty?: number;
+  riskUsd?: number;
+  equity?: number;
+  reason?: SizingFailureReason;
+};
+
+export type SizingModel = 'fixed-fractional' | 'vol-target' | 'kelly';
+
+export type SizingSettings = {
+  sizingModel: SizingModel;
+  /** Target daily portfolio vol as a fraction of equity. */
+  targetDailyVolPct: number;
+  /** Multiplier on the full Kelly bet. */
+  kellyFraction: number;
+  maxRiskPerTradeCap: number;
+};
+
+export type TradeStats = {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgWin: number;
+  avgLoss: number;
+  /** Average win / average loss. */
+  payoffRatio: number;
+};
+
+export type SizingDecision = {
+  model: SizingModel;
+  /** Model actually used; missing inputs fall back to fixed-fractional. */
+  appliedModel: SizingModel;
+  riskPct: number;
+  capPct: number;
+  capped: boolean;
+  detail: string;
+};
+
+export type VenueSizingArgs = {
+  useTestnet: boolean;
+  leverage: number;
+  perTradeTestnetUsd?: number;
+  perTradeMainnetUsd?: number;
+};
+
+export type WalletEquityFields = {
+  availableBalance?: number | string;
+  totalEquity?: number | string;
+  totalWalletBalance?: number | string;
+};
+
+export type IntentOrderPayload = {
+  symbol: string;
+  side: TradeIntent['side'];
+  qty: number;
+  orderType: 'Market' | 'Limit';
+  price?: number;
+  triggerPrice?: number;
+  timeInForce: 'IOC' | 'PostOnly' | 'GTC';
+  orderLinkId: string;
+  sl: number;
+  tp?: number;
+  takeProfits?: TradeIntent['takeProfits'];
+  trailingStop?: number;
+  trailingActivePrice?: number;
+  reduceOnly: false;
+  signalId?: string;
+  signalLeg?: string;
+  journal?: TradeIntent['journal'];
+};
+
+export const MIN_POSITION_NOTIONAL_USD: number = policy.MIN_POSITION_NOTIONAL_USD;
+export const MAX_POSITION_NOTIONAL_USD: number = policy.MAX_POSITION_NOTIONAL_USD;
+export const DEFAULT_TESTNET_PER_TRADE_USD: number = policy.DEFAULT_TESTNET_PER_TRADE_USD;
+export const DEFAULT_MAINNET_PER_TRADE_USD: number = policy.DEFAULT_MAINNET_PER_TRADE_USD;
+export const TESTNET_MARGIN_MIN_USDT: number = policy.TESTNET_MARGIN_MIN_USDT;
+export const TESTNET_MARGIN_MAX_USDT: number = policy.TESTNET_MARGIN_MAX_USDT;
+export const CORE_V2_RISK_PCT: Record<AISettings['riskMode'], number> = policy.CORE_V2_RISK_PCT;
+export const CORE_V2_NOTIONAL_CAP_PCT: number = policy.CORE_V2_NOTIONAL_CAP_PCT;
+export const MAINNET_FALLBACK_LEVERAGE: number = policy.MAINNET_FALLBACK_LEVERAGE;
+export const MIN_PROTECTION_DISTANCE_PCT: number = policy.MIN_PROTECTION_DISTANCE_PCT;
+export const MIN_PROTECTION_ATR_FACTOR: number = policy.MIN_PROTECTION_ATR_FACTOR;
+export const REENTRY_COOLDOWN_MS: number = policy.REENTRY_COOLDOWN_MS;
+export const SCALP_COOLDOWN_MS: number = policy.SCALP_COOLDOWN_MS;
+export const INTENT_COOLDOWN_MS: number = policy.INTENT_COOLDOWN_MS;
+export const ENTRY_ORDER_LOCK_MS: number = policy.ENTRY_ORDER_LOCK_MS;
+export const POSITION_GATE_TTL_MS: number = policy.POSITION_GATE_TTL_MS;
+export const MAX_POS_GATE_TTL_MS: number = policy.MAX_POS_GATE_TTL_MS;
+
+export const clampPerTradeUsd = (value: unknown, fallback: number): number =>
+  policy.clampPerTradeUsd(value, fallback);
+
+export const clampTestnetMarginUsd = (value: unknown, fallback: number): number =>
+  policy.clampTestnetMarginUsd(value, fallback);
+
+export const resolveEquity = (
+  wallet: WalletEquityFields | null | undefined,
+  useTestnet: boolean
+): number => policy.resolveEquity(wallet, useTestnet);
+
+export const applyVenueNotionalBounds = (
+  args: VenueSizingArgs & { entry: number; notional: number; qty: number }
+): { notional: number; qty: number } => policy.applyVenueNotionalBounds(args);
+
+export const computeNotionalForSignal = (
+  args: VenueSizingArgs & { equity: number; entry: number; sl: number; riskPct: number }
+): SizingResult => policy.computeNotionalForSignal(args);
+
+export const computeFixedSizing = (
+  args: VenueSizingArgs & {
+    equity: number;
+    entry: number;
+    sl: number;
+    allowMainnet?: boolean;
+  }
+): SizingResult | null => policy.computeFixedSizing(args);
+
+export const SIZING_MODELS: SizingModel[] = policy.SIZING_MODELS;
+export const DEFAULT_SIZING_MODEL: SizingModel = policy.DEFAULT_SIZING_MODEL;
+export const DEFAULT_TARGET_DAILY_VOL_PCT: number = policy.DEFAULT_TARGET_DAILY_VOL_PCT;
+export const DEFAULT_KELLY_FRACTION: number = policy.DEFAULT_KELLY_FRACTION;
+export const DEFAULT_MAX_RISK_PER_TRADE_CAP: number = policy.DEFAULT_MAX_RISK_PER_TRADE_CAP;
+export const KELLY_MIN_TRADES: number = policy.KELLY_MIN_TRADES;
+export const KELLY_STATS_WINDOW: number = policy.KELLY_STATS_WINDOW;
+
+export const normalizeSizingSettings = (
+  input?: Partial<SizingSettings> | null,
+  base?: Partial<SizingSettings> | null
+): SizingSettings => policy.normalizeSizingSettings(input ?? {}, base ?? {});
+
+export const summarizeTradeStats = (pnls: number[], window?: number): TradeStats =>
+  policy.summarizeTradeStats(pnls, window);
+
+export const kellyFraction = (winRate: number, payoffRatio: number): number =>
+  policy.kellyFraction(winRate, payoffRatio);
+
+export const resolveSizingRiskPct = (
+  args: Partial<SizingSettings> & {
+    baseRiskPct: number;
+    entry: number;
+    sl: number;
+    atrPct?: number;
+    barMinutes?: number;
+    openPositionsLimit?: number;
+    stats?: TradeStats | null;
+    minTrades?: number;
+  }
+): SizingDecision => policy.resolveSizingRiskPct(args);
+
+export const resolveMinProtectionDistance = (entry: number, atr?: number): number =>
+  policy.resolveMinProtectionDistance(entry, atr);
+
+export const normalizeProtectionLevels = (
+  entry: number,
+  side: 'Buy' | 'Sell',
+  sl?: number,
+  tp?: number,
+  atr?: number
+): { sl: number | undefined; tp: number | undefined; minDistance: number } =>
+  policy.normalizeProtectionLevels(entry, side, sl, tp, atr);
+
+export const resolveFallbackStopLoss = (args: {
+  entry: number;
+  side: string;
+  atr?: number;
+  markPrice?: number;
+  tickSize?: number;
+}): number => policy.resolveFallbackStopLoss(args);
+
+export type PositionProtectionStatus = 'protected' | 'partial' | 'missing';
+
+export const assessPositionProtection = (
+  position: {
+    symbol?: string;
+    side?: string;
+    size?: number | string;
+    qty?: number | string;
+    stopLoss?: number | string;
+    sl?: number | string;
+    positionIdx?: number | string;
+  },
+  orders?: Array<Record<string, unknown>>
+): { status: PositionProtectionStatus; size: number; coveredQty: number } =>
+  policy.assessPositionProtection(position, orders);
+
+export const positionCapacityGate = (args: {
+  hasSymbolPosition: boolean;
+  openPositionsTotal: number;
+  maxPos: number;
+  positionReason?: string;
+  maxPosReasonPrefix?: string;
+}): PolicyGateResult => policy.positionCapacityGate(args);
+
+export const deriveOrderLinkId = (input: {
+  signalId: string;
+  symbol: string;
+  side: string;
+  leg?: string;
+}): string => policy.deriveOrderLinkId(input);
+
+export const buildIntentOrderPayload = (intent: TradeIntent): IntentOrderPayload =>
+  policy.buildIntentOrderPayload(intent);
+
+// --- Strategy entry gates (entryGatesEngine.js) ---
+
+type RiskMode = AISettings['riskMode'];
+type GateDecision = PriceFeedDecision | null | undefined;
+type GateSignal = PriceFeedDecision['signal'] | null | undefined;
+
+export type EntryGate = {
+  name: string;
+  ok: boolean;
+  detail?: string;
+  pending?: boolean;
+  hard?: boolean;
+};
+
+export type EntryCoreEval = {
+  gates: EntryGate[];
+  score: number;
+  scoreTotal: number;
+  threshold: number;
+  scorePass: boolean | undefined;
+  hardFailures: string[];
+  atrMin: number;
+  volumePct: number;
+  isMajor: boolean;
+  altseasonGateActive?: boolean;
+  dominanceProxy?: number;
+  qualityScore?: number;
+  qualityThreshold?: number;
+  hardGatePass?: boolean;
+};
+
+export type GroupedGateEval = { gates: EntryGate[]; pass: boolean };
+
+export type ChecklistPassResult = { eligibleCount: number; passedCount: number; pass: boolean };
+
+export type DecisionTraceEntry = { gate: string; result: PolicyGateResult };
+
+export type GateOverrides = Record<string, boolean> | null | undefined;
+
+export type ClosedPnlRecord = { symbol?: string; pnl: number; ts: number };
+
+export type PortfolioRegime = { active: boolean; dominanceProxy: number };
+
+/** Gate that blocked the entry; the dashboard maps it onto its log ids. */
+export type EntryGateId =
+  | 'AMD'
+  | 'TREE_ADAPTIVE'
+  | 'TREND_1H5M'
+  | 'TREE_5M'
+  | 'RISK_OFF'
+  | 'OLIKELLA'
+  | 'SCORE'
+  | 'AI_MATIC_CORE'
+  | 'CHECKLIST';
+
+export type EntryGateVerdict = {
+  ok: boolean;
+  gate?: EntryGateId;
+  code?: string;
+  /** Log line of the blocking gate, prefixed with the symbol. */
+  message?: string;
+};
+
+export type SignalGatesResult = EntryGateVerdict & { amdEval: GroupedGateEval | null };
+
+export type StrategyGatesResult = EntryGateVerdict & {
+  riskOff: boolean;
+  riskReasons: string[];
+  aiMaticCoreEval: GroupedGateEval | null;
+};
+
+export const MAJOR_SYMBOLS: Set<string> = gates.MAJOR_SYMBOLS;
+export const MIN_CHECKLIST_PASS: number = gates.MIN_CHECKLIST_PASS;
+export const AI_MATIC_CHECKLIST_MIN: number = gates.AI_MATIC_CHECKLIST_MIN;
+export const CORE_V2_VOLUME_PCTL: Record<RiskMode, number> = gates.CORE_V2_VOLUME_PCTL;
+export const CORE_V2_SCORE_GATE: Record<RiskMode, { major: number; alt: number }> =
+  gates.CORE_V2_SCORE_GATE;
+export const CORE_V2_ATR_MIN_PCT_MAJOR: number = gates.CORE_V2_ATR_MIN_PCT_MAJOR;
+export const CORE_V2_ATR_MIN_PCT_ALT: number = gates.CORE_V2_ATR_MIN_PCT_ALT;
+export const PRO_MTF_FIBO_GATE_NAMES: string[] = gates.PRO_MTF_FIBO_GATE_NAMES;
+export const TREND_GATE_STRONG_ADX: number = gates.TREND_GATE_STRONG_ADX;
+export const TREND_DAY_ADX_MIN: number = gates.TREND_DAY_ADX_MIN;
+export const TREND_GATE_STRONG_SCORE: number = gates.TREND_GATE_STRONG_SCORE;
+export const SCALP_MAX_LOSSES_IN_ROW: number = gates.SCALP_MAX_LOSSES_IN_ROW;
+export const SCALP_MAX_DAILY_LOSS_R: number = gates.SCALP_MAX_DAILY_LOSS_R;
+export const SCALP_RISK_OFF_MULT: number = gates.SCALP_RISK_OFF_MULT;
+
+export const resolveBboAgeLimit = (symbol: string): number => gates.resolveBboAgeLimit(symbol);
+
+export const isGateEnabled = (gateOverrides: GateOverrides, name: string): boolean =>
+  gates.isGateEnabled(gateOverrides, name);
+
+export const evaluateChecklistPass = (
+  list: EntryGate[],
+  gateOverrides: GateOverrides
+): ChecklistPassResult => gates.evaluateChecklistPass(list, gateOverrides);
+
+export const evaluateCoreV2Gates = (args: {
+  symbol: string;
+  riskMode: RiskMode;
+  decision: GateDecision;
+  signal: GateSignal;
+  feedAgeMs: number | null;
+  portfolioRegime?: PortfolioRegime;
+}): EntryCoreEval => gates.evaluateCoreV2Gates(args);
+
+export const evaluateProGates = (decision: GateDecision, signal: GateSignal): EntryCoreEval =>
+  gates.evaluateProGates(decision, signal);
+
+export const evaluateEntryCore = (args: {
+  symbol: string;
+  riskMode: RiskMode;
+  decision: GateDecision;
+  signal: GateSignal;
+  feedAgeMs: number | null;
+  portfolioRegime?: PortfolioRegime;
+}): EntryCoreEval => gates.evaluateEntryCore(args);
+
+export const evaluateAmdGatesCore = (args: {
+  decision: GateDecision;
+  signal: GateSignal;
+}): GroupedGateEval => gates.evaluateAmdGatesCore(args);
+
+export const normalizeTrendDir = (value: string): string => gates.normalizeTrendDir(value);
+
+export const resolveH1M15TrendGate = (
+  core: object | undefined,
+  signal: GateSignal,
+  decision?: GateDecision
+): { ok: boolean; detail: string } => gates.resolveH1M15TrendGate(core, signal, decision);
+
+export const treeTrendGate5m = (input: {
+  side: string;
+  price: number;
+  ema200_5m: number;
+  macdHist_5m: number;
+  rsi14_5m: number;
+  ttlMs?: number;
+}): PolicyGateResult => gates.treeTrendGate5m(input);
+
+export const computeLossStreak = (
+  records: ClosedPnlRecord[] | null | undefined,
+  maxCheck?: number
+): number => gates.computeLossStreak(records, maxCheck);
+
+export const summarizeOliGateFailures = (args: {
+  oliContext?: unknown;
+  gateEnabled?: (name: string) => boolean;
+}): { failedGateNames: string[]; allReasons: string[] } => gates.summarizeOliGateFailures(args);
+
+export const buildAiMaticCoreGroupedGates = (args: {
+  coreGates: EntryGate[];
+  trace?: DecisionTraceEntry[];
+}): GroupedGateEval => gates.buildAiMaticCoreGroupedGates(args);
+
+export const resolveAiMaticSwingTf = (aiMatic: unknown, side: 'Buy' | 'Sell'): 5 | 15 | null =>
+  gates.resolveAiMaticSwingTf(aiMatic, side);
+
+export const resolveSwingCooldownUntil = (now: number, tfMin: 5 | 15): number =>
+  gates.resolveSwingCooldownUntil(now, tfMin);
+
+export const swingCooldownGate = (
+  cooldownUntil: number,
+  now: number,
+  ttlMs?: number
+): PolicyGateResult => gates.swingCooldownGate(cooldownUntil, now, ttlMs);
+
+export const evaluateSignalGates = (args: {
+  symbol: string;
+  riskMode: RiskMode;
+  decision: GateDecision;
+  signal: GateSignal;
+  trendGateMode?: AISettings['trendGateMode'];
+}): SignalGatesResult => gates.evaluateSignalGates(args);
+
+export const evaluateStrategyEntryGates = (args: {
+  symbol: string;
+  riskMode: RiskMode;
+  decision: GateDecision;
+  signal: GateSignal;
+  side: 'Buy' | 'Sell';
+  coreEval: EntryCoreEval;
+  amdEval?: GroupedGateEval | null;
+  gateOverrides: GateOverrides;
+  enableSoftGates?: boolean;
+  trace?: DecisionTraceEntry[];
+  closedPnl?: ClosedPnlRecord[] | null;
+  equity: number;
+  now: number;
+}): StrategyGatesResult => gates.evaluateStrategyEntryGates(args);
@@ -0,0 +1,520 @@
+import { OLIKELLA_RISK_PER_TRADE } from '../lib/oliKellaProfile.js';
+import { isHedgePositionIdx, normalizePositionSide, positionLegSide } from './positionModeEngine.js';
+
+// Entry gating, sizing and protection rules shared by the dashboard hook and
+// the server-side auto-trader, so a signal produces the same order in both.
+
+export const MIN_POSITION_NOTIONAL_USD = 5;
+export const MAX_POSITION_NOTIONAL_USD = 50000;
+export const DEFAULT_TESTNET_PER_TRADE_USD = 50;
+export const DEFAULT_MAINNET_PER_TRADE_USD = 20;
+export const TESTNET_MARGIN_MIN_USDT = 50;
+export const TESTNET_MARGIN_MAX_USDT = 100;
+export const CORE_V2_RISK_PCT = {
+  'ai-matic': 0.003,
+  'ai-matic-x': 0.003,
+  'ai-matic-amd': 0.003,
+  'ai-matic-olikella': OLIKELLA_RISK_PER_TRADE,
+  'ai-matic-bbo': 0.003,
+  'ai-matic-tree': 0.003,
+  'ai-matic-pro': 0.003,
+};
+export const CORE_V2_NOTIONAL_CAP_PCT = 0.1;
+export const MAINNET_FALLBACK_LEVERAGE = 50;
+export const MIN_PROTECTION_DISTANCE_PCT = 0.0005;
+export const MIN_PROTECTION_ATR_FACTOR = 0.05;
+export const REENTRY_COOLDOWN_MS = 15_000;
+export const SCALP_COOLDOWN_MS = 5 * 60_000;
+export const INTENT_COOLDOWN_MS = 8_000;
+export const ENTRY_ORDER_LOCK_MS = 20_000;
+export const POSITION_GATE_TTL_MS = 60_000;
+export const MAX_POS_GATE_TTL_MS = 30_000;
+
+export function clampPerTradeUsd(value, fallback) {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return fallback;
+  return Math.min(MAX_POSITION_NOTIONAL_USD, Math.max(MIN_POSITION_NOTIONAL_USD, n));
+}
+
+export function clampTestnetMarginUsd(value, fallback) {
+  const base = clampPerTradeUsd(value, fallback);
+  return Math.min(TESTNET_MARGIN_MAX_USDT, Math.max(TESTNET_MARGIN_MIN_USDT, base));
+}
+
+const positive = (value) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : Number.NaN;
+};
+
+// Testnet sizes off the free balance, mainnet off total equity.
+export function resolveEquity(wallet, useTestnet) {
+  const availableBalance = positive(wallet?.availableBalance);
+  if (useTestnet && Number.isFinite(availableBalance)) return availableBalance;
+  const totalEquity = positive(wallet?.totalEquity);
+  if (Number.isFinite(totalEquity)) return totalEquity;
+  const totalWalletBalance = positive(wallet?.totalWalletBalance);
+  if (Number.isFinite(totalWalletBalance)) return totalWalletBalance;
+  return availableBalance;
+}
+
+/**
+ * Venue floor/ceiling on entry notional: testnet keeps margin between
+ * TESTNET_MARGIN_MIN_USDT and the per-trade setting, mainnet never goes below
+ * the per-trade initial margin.
+ */
+export function applyVenueNotionalBounds(args) {
+  const { entry, useTestnet, leverage } = args;
+  let { notional, qty } = args;
+  if (!Number.isFinite(entry) || entry <= 0) return { notional, qty };
+  if (useTestnet) {
+    const perTradeTestnetUsd = clampTestnetMarginUsd(
+      args.perTradeTestnetUsd,
+      DEFAULT_TESTNET_PER_TRADE_USD
+    );
+    const leverageMultiplier = Number.isFinite(leverage) && leverage > 0 ? leverage : 1;
+    const minNotionalByMargin = TESTNET_MARGIN_MIN_USDT * leverageMultiplier;
+    const maxNotionalByMargin = perTradeTestnetUsd * leverageMultiplier;
+    if (
+      Number.isFinite(minNotionalByMargin) &&
+      minNotionalByMargin > 0 &&
+      Number.isFinite(notional) &&
+      notional < minNotionalByMargin
+    ) {
+      notional = minNotionalByMargin;
+      qty = notional / entry;
+    }
+    if (
+      Number.isFinite(maxNotionalByMargin) &&
+      maxNotionalByMargin > 0 &&
+      Number.isFinite(notional) &&
+      notional > maxNotionalByMargin
+    ) {
+      notional = maxNotionalByMargin;
+      qty = notional / entry;
+    }
+    return { notional, qty };
+  }
+  const perTradeMainnetUsd = clampPerTradeUsd(
+    args.perTradeMainnetUsd,
+    DEFAULT_MAINNET_PER_TRADE_USD
+  );
+  const minNotionalByIm = perTradeMainnetUsd * leverage;
+  if (
+    Number.isFinite(minNotionalByIm) &&
+    minNotionalByIm > 0 &&
+    Number.isFinite(notional) &&
+    notional < minNotionalByIm
+  ) {
+    notional = minNotionalByIm;
+    qty = notional / entry;
+  }
+  return { notional, qty };
+}
+
+/** Risk-based sizing: equity * riskPct spread over the entry-to-SL distance. */
+export function computeNotionalForSignal(args) {
+  const { equity, entry, sl, riskPct } = args;
+  if (!Number.isFinite(equity) || equity <= 0) {
+    return { ok: false, reason: 'missing_equity' };
+  }
+  const riskPerUnit = Math.abs(entry - sl);
+  if (!Number.isFinite(riskPerUnit) || riskPerUnit <= 0) {
+    return { ok: false, reason: 'invalid_sl_distance' };
+  }
+  const riskBudget = equity * (riskPct ?? 0);
+  if (!Number.isFinite(riskBudget) || riskBudget <= 0) {
+    return { ok: false, reason: 'invalid_risk_budget' };
+  }
+
+  let qty = riskBudget / riskPerUnit;
+  let notional = qty * entry;
+  if (!Number.isFinite(notional) || notional <= 0) {
+    return { ok: false, reason: 'invalid_notional' };
+  }
+  const notionalCap = equity * CORE_V2_NOTIONAL_CAP_PCT;
+  if (Number.isFinite(notionalCap) && notionalCap > 0 && notional > notionalCap) {
+    notional = notionalCap;
+    qty = notional / entry;
+  }
+  ({ notional, qty } = applyVenueNotionalBounds({ ...args, notional, qty }));
+
+  if (notional < MIN_POSITION_NOTIONAL_USD) {
+    return { ok: false, reason: 'below_min_notional' };
+  }
+  if (notional > MAX_POSITION_NOTIONAL_USD) {
+    notional = MAX_POSITION_NOTIONAL_USD;
+    qty = notional / entry;
+  }
+  if (!Number.isFinite(qty) || qty <= 0) {
+    return { ok: false, reason: 'invalid_qty' };
+  }
+  return { ok: true, notional, qty, riskUsd: riskPerUnit * qty, equity };
+}
+
+/**
+ * Fixed per-trade margin times leverage. Returns null on mainnet unless
+ * `allowMainnet` is set, so callers fall back to risk-based sizing.
+ */
+export function computeFixedSizing(args) {
+  const { entry, sl, equity, useTestnet, allowMainnet, leverage } = args;
+  if (!useTestnet && !allowMainnet) return null;
+  if (!Number.isFinite(entry) || entry <= 0) {
+    return { ok: false, reason: 'invalid_entry' };
+  }
+  const perTradeUsd = useTestnet
+    ? clampTestnetMarginUsd(args.perTradeTestnetUsd, DEFAULT_TESTNET_PER_TRADE_USD)
+    : clampPerTradeUsd(args.perTradeMainnetUsd, DEFAULT_MAINNET_PER_TRADE_USD);
+  const leverageMultiplier = Number.isFinite(leverage) && leverage > 0 ? leverage : 1;
+  const targetNotional = Math.min(
+    Math.max(perTradeUsd * leverageMultiplier, MIN_POSITION_NOTIONAL_USD),
+    MAX_POSITION_NOTIONAL_USD
+  );
+  const qty = targetNotional / entry;
+  if (!Number.isFinite(qty) || qty <= 0) {
+    return { ok: false, reason: 'invalid_fixed_qty' };
+  }
+  const notional = qty * entry;
+  if (!Number.isFinite(notional) || notional <= 0) {
+    return { ok: false, reason: 'invalid_fixed_notional' };
+  }
+  const riskPerUnit = Math.abs(entry - sl);
+  const riskUsd =
+    Number.isFinite(riskPerUnit) && riskPerUnit > 0 ? riskPerUnit * qty : Number.NaN;
+  return { ok: true, notional, qty, riskUsd, equity };
+}
+
+// Sizing models. Each one only decides the fraction of equity put at risk;
+// the notional then comes from computeNotionalForSignal as before.
+//   fixed-fractional: the profile's CORE_V2_RISK_PCT
+//   vol-target: notional whose daily vol (ATR% scaled to a day) hits the
+//     target portfolio vol split across the open-position slots
+//   kelly: a fraction of the Kelly bet from the profile's closed trades
+// Every model is capped by maxRiskPerTradeCap.
+export const SIZING_MODELS = ['fixed-fractional', 'vol-target', 'kelly'];
+export const DEFAULT_SIZING_MODEL = 'fixed-fractional';
+export const DEFAULT_TARGET_DAILY_VOL_PCT = 0.02;
+export const DEFAULT_KELLY_FRACTION = 0.25;
+export const DEFAULT_MAX_RISK_PER_TRADE_CAP = 0.02;
+export const KELLY_MIN_TRADES = 20;
+export const KELLY_STATS_WINDOW = 50;
+// Share of the base risk kept when the rolling stats show no edge.
+export const KELLY_NO_EDGE_SCALE = 0.25;
+
+const clampNumber = (value, min, max, fallback) => {
+  const n = value === null || value === '' ? Number.NaN : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+};
+
+/**
+ * Fills in and clamps the sizing fields of AISettings / auto-trade settings.
+ * Missing or invalid input falls back to `base`, then to the defaults.
+ */
+export function normalizeSizingSettings(input = {}, base = {}) {
+  const pickModel = (value) => (SIZING_MODELS.includes(value) ? value : undefined);
+  const pickNumber = (key, min, max, fallback) =>
+    clampNumber(
+      input?.[key],
+      min,
+      max,
+      clampNumber(base?.[key], min, max, fallback)
+    );
+  return {
+    sizingModel:
+      pickModel(input?.sizingModel) ?? pickModel(base?.sizingModel) ?? DEFAULT_SIZING_MODEL,
+    targetDailyVolPct: pickNumber('targetDailyVolPct', 0.001, 0.2, DEFAULT_TARGET_DAILY_VOL_PCT),
+    kellyFraction: pickNumber('kellyFraction', 0.05, 1, DEFAULT_KELLY_FRACTION),
+    maxRiskPerTradeCap: pickNumber(
+      'maxRiskPerTradeCap',
+      0.0005,
+      0.1,
+      DEFAULT_MAX_RISK_PER_TRADE_CAP
+    ),
+  };
+}
+
+/** Win rate and payoff ratio of the last `window` closed trades (oldest first). */
+export function summarizeTradeStats(pnls, window = KELLY_STATS_WINDOW) {
+  const recent = (Array.isArray(pnls) ? pnls : [])
+    .map(Number)
+    .filter((pnl) => Number.isFinite(pnl) && pnl !== 0)
+    .slice(-window);
+  const wins = recent.filter((pnl) => pnl > 0);
+  const losses = recent.filter((pnl) => pnl < 0);
+  const avgWin = wins.length ? wins.reduce((sum, pnl) => sum + pnl, 0) / wins.length : 0;
+  const avgLoss = losses.length
+    ? Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0) / losses.length)
+    : 0;
+  return {
+    trades: recent.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: recent.length ? wins.length / recent.length : Number.NaN,
+    avgWin,
+    avgLoss,
+    payoffRatio: avgLoss > 0 ? avgWin / avgLoss : Number.NaN,
+  };
+}
+
+/** Full Kelly bet W - (1 - W) / R; NaN without a payoff ratio. */
+export function kellyFraction(winRate, payoffRatio) {
+  if (!Number.isFinite(winRate) || !Number.isFinite(payoffRatio) || payoffRatio <= 0) {
+    return Number.NaN;
+  }
+  return winRate - (1 - winRate) / payoffRatio;
+}
+
+const pct = (value) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Risk fraction for one entry under the selected sizing model. Models that
+ * lack their inputs (no ATR, too few closed trades) fall back to the base
+ * risk and say so in `detail`.
+ */
+export function resolveSizingRiskPct(args) {
+  const settings = normalizeSizingSettings(args);
+  const baseRiskPct = Math.max(0, Number(args.baseRiskPct) || 0);
+  const cap = settings.maxRiskPerTradeCap;
+  let model = settings.sizingModel;
+  let riskPct = baseRiskPct;
+  let detail = `fixed ${pct(baseRiskPct)}`;
+  let fallback = false;
+
+  if (model === 'vol-target') {
+    const barMinutes = Number(args.barMinutes) > 0 ? Number(args.barMinutes) : 5;
+    const dailyVolPct = Number(args.atrPct) * Math.sqrt(1440 / barMinutes);
+    const slPct = Math.abs(args.entry - args.sl) / args.entry;
+    const slots = Math.max(1, Math.round(Number(args.openPositionsLimit) || 1));
+    if (Number.isFinite(dailyVolPct) && dailyVolPct > 0 && Number.isFinite(slPct) && slPct > 0) {
+      const targetPct = settings.targetDailyVolPct / Math.sqrt(slots);
+      const notionalPct = targetPct / dailyVolPct;
+      riskPct = notionalPct * slPct;
+      detail = `vol ${pct(dailyVolPct)}/d → target ${pct(targetPct)} (${slots} slots) → notional ${pct(
+        notionalPct
+      )} equity`;
+    } else {
+      fallback = true;
+      detail = `no ATR → fixed ${pct(baseRiskPct)}`;
+    }
+  } else if (model === 'kelly') {
+    const stats = args.stats ?? summarizeTradeStats([]);
+    const minTrades = args.minTrades ?? KELLY_MIN_TRADES;
+    const full = kellyFraction(stats.winRate, stats.payoffRatio);
+    if (stats.trades < minTrades || !Number.isFinite(full)) {
+      fallback = true;
+      detail = `${stats.trades}/${minTrades} trades → fixed ${pct(baseRiskPct)}`;
+    } else if (full <= 0) {
+      riskPct = baseRiskPct * KELLY_NO_EDGE_SCALE;
+      detail = `W ${pct(stats.winRate)} R ${stats.payoffRatio.toFixed(2)} → no edge, ${pct(riskPct)}`;
+    } else {
+      riskPct = full * settings.kellyFraction;
+      detail = `W ${pct(stats.winRate)} R ${stats.payoffRatio.toFixed(2)} → Kelly ${pct(full)} × ${
+        settings.kellyFraction
+      }`;
+    }
+  }
+  if (fallback) model = 'fixed-fractional';
+
+  const capped = riskPct > cap;
+  if (capped) riskPct = cap;
+  return {
+    model: settings.sizingModel,
+    appliedModel: model,
+    riskPct,
+    capPct: cap,
+    capped,
+    detail: capped ? `${detail} → cap ${pct(cap)}` : detail,
+  };
+}
+
+export function resolveMinProtectionDistance(entry, atr) {
+  const pctDistance = entry * MIN_PROTECTION_DISTANCE_PCT;
+  const atrDistance = Number.isFinite(atr) ? atr * MIN_PROTECTION_ATR_FACTOR : 0;
+  return Math.max(pctDistance, atrDistance);
+}
+
+/** Pushes SL/TP out to at least the minimum protection distance from entry. */
+export function normalizeProtectionLevels(entry, side, sl, tp, atr) {
+  if (!Number.isFinite(entry) || entry <= 0) {
+    return { sl, tp, minDistance: Number.NaN };
+  }
+  const minDistance = resolveMinProtectionDistance(entry, atr);
+  let nextSl = sl;
+  let nextTp = tp;
+  if (side === 'Buy') {
+    if (Number.isFinite(nextSl) && nextSl >= entry - minDistance) {
+      nextSl = entry - minDistance;
+    }
+    if (Number.isFinite(nextTp) && nextTp <= entry + minDistance) {
+      nextTp = entry + minDistance;
+    }
+  } else {
+    if (Number.isFinite(nextSl) && nextSl <= entry + minDistance) {
+      nextSl = entry + minDistance;
+    }
+    if (Number.isFinite(nextTp) && nextTp >= entry - minDistance) {
+      nextTp = entry - minDistance;
+    }
+  }
+  return { sl: nextSl, tp: nextTp, minDistance };
+}
+
+/**
+ * Stop loss for a position found without one: the minimum protection
+ * distance from the entry, pushed behind the mark price when the position
+ * already runs against the entry (a long stop must stay below the mark), and
+ * rounded away from the position to the tick size. NaN without an entry.
+ */
+export function resolveFallbackStopLoss({ entry, side, atr, markPrice, tickSize } = {}) {
+  const entryPrice = Number(entry);
+  if (!Number.isFinite(entryPrice) || entryPrice <= 0) return Number.NaN;
+  const atrValue = Number(atr);
+  const minDistance = resolveMinProtectionDistance(
+    entryPrice,
+    Number.isFinite(atrValue) && atrValue > 0 ? atrValue : undefined
+  );
+  const isBuy = String(side ?? '').toLowerCase() !== 'sell';
+  let sl = isBuy ? entryPrice - minDistance : entryPrice + minDistance;
+  const mark = Number(markPrice);
+  if (Number.isFinite(mark) && mark > 0) {
+    sl = isBuy ? Math.min(sl, mark - minDistance) : Math.max(sl, mark + minDistance);
+  }
+  const tick = Number(tickSize);
+  if (Number.isFinite(tick) && tick > 0) {
+    const steps = isBuy ? Math.floor(sl / tick + 1e-9) : Math.ceil(sl / tick - 1e-9);
+    sl = Number((steps * tick).toFixed(12));
+  }
+  return sl > 0 ? sl : Number.NaN;
+}
+
+const STOP_ORDER_TYPES = new Set(['stoploss', 'partialstoploss', 'stop']);
+const ACTIVE_STOP_STATUSES = new Set(['new', 'untriggered', 'partiallyfilled', 'created']);
+
+/**
+ * Stop-loss coverage of an open position: `protected` with a position stop
+ * loss or stop orders for the whole size, `partial` when stop orders cover
+ * only part of it, `missing` otherwise. Stop orders are conditional orders
+ * closing the position (the opposite side; the same leg in hedge mode).
+ */
+export function assessPositionProtection(position, orders = []) {
+  const size = Math.abs(Number(position?.size ?? position?.qty ?? 0));
+  const stopLoss = Number(position?.stopLoss ?? position?.sl ?? 0);
+  if (Number.isFinite(stopLoss) && stopLoss > 0) {
+    return { status: 'protected', size, coveredQty: size };
+  }
+  const symbol = String(position?.symbol ?? '').toUpperCase();
+  const legSide = positionLegSide(position);
+  const hedgeIdx = isHedgePositionIdx(position?.positionIdx) ? Number(position.positionIdx) : null;
+  let coveredQty = 0;
+  for (const order of Array.isArray(orders) ? orders : []) {
+    if (String(order?.symbol ?? '').toUpperCase() !== symbol) continue;
+    if (!ACTIVE_STOP_STATUSES.has(String(order?.orderStatus ?? '').toLowerCase())) continue;
+    if (!legSide || normalizePositionSide(order?.side) === legSide) continue;
+    if (hedgeIdx != null && Number(order?.positionIdx) !== hedgeIdx) continue;
+    const stopType = String(order?.stopOrderType ?? '').toLowerCase();
+    if (!STOP_ORDER_TYPES.has(stopType)) continue;
+    const qty = Number(order?.qty ?? 0);
+    // Close-on-trigger stops without a qty close the whole position.
+    coveredQty += Number.isFinite(qty) && qty > 0 ? qty : size;
+  }
+  if (coveredQty <= 0) return { status: 'missing', size, coveredQty: 0 };
+  return {
+    status: coveredQty + 1e-9 >= size ? 'protected' : 'partial',
+    size,
+    coveredQty: Math.min(coveredQty, size),
+  };
+}
+
+export function positionCapacityGate(args) {
+  const positionReason = args.positionReason ?? 'open position';
+  const maxPosReasonPrefix = args.maxPosReasonPrefix ?? 'max positions';
+  if (args.hasSymbolPosition) {
+    return {
+      ok: false,
+      code: 'OPEN_POSITION',
+      reason: positionReason,
+      ttlMs: POSITION_GATE_TTL_MS,
+    };
+  }
+  const maxPos = Number.isFinite(args.maxPos) ? Math.max(0, Math.round(args.maxPos)) : 0;
+  if (maxPos <= 0 || args.openPositionsTotal >= maxPos) {
+    return {
+      ok: false,
+      code: 'MAX_POS',
+      reason: `${maxPosReasonPrefix} ${args.openPositionsTotal}/${maxPos}`,
+      ttlMs: MAX_POS_GATE_TTL_MS,
+    };
+  }
+  return { ok: true, code: 'OK', reason: 'capacity' };
+}
+
+/**
+ * Maps a trade intent onto the POST /order body. Throws on intents the
+ * order route would reject anyway.
+ */
+// 53-bit string hash (cyrb53). Not cryptographic; it only has to give the
+// browser and the server the same id for the same signal.
+function hash53(text, seed) {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Deterministic orderLinkId of an entry: signal id + symbol + side, plus
+ * `leg` for the second order of a staged entry. The server refuses a
+ * signal entry whose orderLinkId differs from it.
+ */
+export function deriveOrderLinkId({ signalId, symbol, side, leg }) {
+  const key = [
+    String(signalId ?? ''),
+    String(symbol ?? '').toUpperCase(),
+    String(side ?? '').toLowerCase() === 'sell' ? 'Sell' : 'Buy',
+    String(leg ?? ''),
+  ].join('|');
+  const part = (seed) => hash53(key, seed).toString(16).padStart(14, '0');
+  return `sig-${part(1)}${part(2)}`;
+}
+
+export function buildIntentOrderPayload(intent) {
+  if (intent.entryType === 'MARKET_DISABLED') {
+    throw new Error('market_disabled');
+  }
+  if (!intent.entryPrice) {
+    throw new Error('missing_entry_price');
+  }
+  const qty =
+    intent.qtyMode === 'BASE_QTY' ? intent.qtyValue : intent.qtyValue / intent.entryPrice;
+  if (!Number.isFinite(qty) || qty <= 0) {
+    throw new Error('invalid_qty');
+  }
+  const isConditional = intent.entryType === 'CONDITIONAL';
+  const isMarket = intent.entryType === 'MARKET';
+  return {
+    symbol: intent.symbol,
+    side: intent.side,
+    qty,
+    orderType: isMarket ? 'Market' : 'Limit',
+    price: intent.entryPrice,
+    triggerPrice: isConditional ? intent.triggerPrice ?? intent.entryPrice : undefined,
+    timeInForce: isMarket ? 'IOC' : intent.entryType === 'LIMIT_MAKER_FIRST' ? 'PostOnly' : 'GTC',
+    orderLinkId: intent.intentId,
+    sl: intent.slPrice,
+    tp: intent.tpPrices?.[0],
+    ...(intent.takeProfits?.length ? { takeProfits: intent.takeProfits } : {}),
+    trailingStop: intent.trailingStop,
+    trailingActivePrice: intent.trailingActivePrice,
+    reduceOnly: false,
+    ...(intent.signalId ? { signalId: intent.signalId } : {}),
+    ...(intent.signalId && intent.signalLeg ? { signalLeg: intent.signalLeg } : {}),
+    ...(intent.expireAfterMs > 0 ? { expireAfterMs: intent.expireAfterMs } : {}),
+    journal: intent.journal,
+  };
+}
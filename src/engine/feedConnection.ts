@@ -0,0 +1,330 @@
+// src/engine/feedConnection.ts
+// Samoopravné WS spojení pro veřejné feedy (priceFeed, liquidationFeed):
+// reconnect s exponenciálním backoffem, znovu-přihlášení všech topiců po
+// každém otevření a detekce mrtvého spojení přes heartbeat timeout.
+// Stav spojení se publikuje do registru, ze kterého čte StatusBar.
+
+import type { FeedSocket } from "./trafficRecording";
+
+const SOCKET_OPEN = 1;
+
+export type FeedChannel = "price" | "liquidation";
+
+export type FeedConnectionStatus = "connecting" | "open" | "reconnecting";
+
+export type FeedConnectionState = {
+  id: string;
+  channel: FeedChannel;
+  exchange: string;
+  status: FeedConnectionStatus;
+  /** Neúspěšné pokusy od posledního otevření. */
+  attempt: number;
+  reconnects: number;
+  connectedAt: number | null;
+  disconnectedAt: number | null;
+  lastMessageAt: number | null;
+  nextRetryAt: number | null;
+  lastError: string | null;
+};
+
+export type FeedBackoff = {
+  initialMs?: number;
+  maxMs?: number;
+  factor?: number;
+  /** Podíl náhodného zkrácení zpoždění (0–1). */
+  jitter?: number;
+};
+
+export type FeedReconnectInfo = {
+  /** Čas posledního přijatého message před výpadkem (nebo odpojení). */
+  since: number;
+  downtimeMs: number;
+};
+
+export type ResilientFeedOptions = {
+  channel: FeedChannel;
+  exchange: string;
+  url: string;
+  openSocket?: (url: string) => FeedSocket;
+  /** Volá se při každém otevření, takže se obnoví všechny topicy. */
+  subscribeMessages: () => string[];
+  pingMessage?: string | null;
+  pingIntervalMs?: number;
+  /** Bez zprávy déle než tento limit se spojení zahodí; 0 = vypnuto. */
+  heartbeatTimeoutMs?: number;
+  backoff?: FeedBackoff;
+  onMessage: (data: string) => void;
+  /** Po znovupřipojení (ne po prvním otevření) – např. doplnění svíček. */
+  onReconnect?: (info: FeedReconnectInfo) => void;
+  now?: () => number;
+  random?: () => number;
+};
+
+export type ResilientFeed = {
+  state: () => FeedConnectionState;
+  /** Zahodí aktuální spojení a hned otevře nové. */
+  reconnect: () => void;
+  close: () => void;
+};
+
+export const DEFAULT_FEED_BACKOFF: Required<FeedBackoff> = {
+  initialMs: 1_000,
+  maxMs: 30_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+// ---------------------------------------------------------------------------
+// Registr stavů spojení
+// ---------------------------------------------------------------------------
+
+const connections = new Map<string, FeedConnectionState>();
+const listeners = new Set<(states: FeedConnectionState[]) => void>();
+let snapshot: FeedConnectionState[] = [];
+let connectionSeq = 0;
+
+function publish() {
+  snapshot = Array.from(connections.values()).map((state) => ({ ...state }));
+  for (const listener of listeners) listener(snapshot);
+}
+
+/** Aktuální stavy všech běžících feedů (stabilní reference mezi změnami). */
+export function getFeedConnections(): FeedConnectionState[] {
+  return snapshot;
+}
+
+export function subscribeFeedConnections(
+  listener: (states: FeedConnectionState[]) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Zrcadlí stavy feedů běžících v jiném kontextu (Web Worker) do registru
+ * tohoto okna; prázdný seznam je odebere.
+ */
+export function mirrorFeedConnections(source: string, states: FeedConnectionState[]): void {
+  const prefix = `${source}:`;
+  for (const id of Array.from(connections.keys())) {
+    if (id.startsWith(prefix)) connections.delete(id);
+  }
+  for (const state of states) {
+    connections.set(`${prefix}${state.id}`, { ...state, id: `${prefix}${state.id}` });
+  }
+  publish();
+}
+
+export type FeedConnectionSummary = {
+  status: FeedConnectionStatus;
+  attempt: number;
+  reconnects: number;
+  lastError: string | null;
+};
+
+/** Nejhorší stav ze všech feedů; null když žádný neběží. */
+export function summarizeFeedConnections(
+  states: FeedConnectionState[]
+): FeedConnectionSummary | null {
+  if (!states.length) return null;
+  const rank: Record<FeedConnectionStatus, number> = {
+    open: 0,
+    connecting: 1,
+    reconnecting: 2,
+  };
+  const worst = states.reduce((a, b) => (rank[b.status] > rank[a.status] ? b : a));
+  return {
+    status: worst.status,
+    attempt: Math.max(...states.map((s) => s.attempt)),
+    reconnects: states.reduce((sum, s) => sum + s.reconnects, 0),
+    lastError: worst.lastError,
+  };
+}
+
+export function feedBackoffDelay(
+  attempt: number,
+  backoff: FeedBackoff = DEFAULT_FEED_BACKOFF,
+  random: () => number = Math.random
+): number {
+  const { initialMs, maxMs, factor, jitter } = { ...DEFAULT_FEED_BACKOFF, ...backoff };
+  const base = Math.min(maxMs, initialMs * factor ** Math.max(0, attempt - 1));
+  return Math.round(base * (1 - Math.min(Math.max(jitter, 0), 1) * random()));
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err ?? "unknown_error");
+}
+
+// ---------------------------------------------------------------------------
+// Spojení
+// ---------------------------------------------------------------------------
+
+export function openResilientFeed(opts: ResilientFeedOptions): ResilientFeed {
+  const now = opts.now ?? Date.now;
+  const random = opts.random ?? Math.random;
+  const openSocket = opts.openSocket ?? ((url: string) => new WebSocket(url));
+  const heartbeatTimeoutMs = opts.heartbeatTimeoutMs ?? 0;
+  const id = `${opts.exchange}:${opts.channel}:${(connectionSeq += 1)}`;
+  const state: FeedConnectionState = {
+    id,
+    channel: opts.channel,
+    exchange: opts.exchange,
+    status: "connecting",
+    attempt: 0,
+    reconnects: 0,
+    connectedAt: null,
+    disconnectedAt: null,
+    lastMessageAt: null,
+    nextRetryAt: null,
+    lastError: null,
+  };
+  connections.set(id, state);
+
+  let socket: FeedSocket | null = null;
+  // Události starých socketů (po timeoutu nebo reconnectu) se ignorují.
+  let generation = 0;
+  let everOpened = false;
+  let stopped = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  const update = (patch: Partial<FeedConnectionState>) => {
+    Object.assign(state, patch);
+    publish();
+  };
+
+  const clearTimers = () => {
+    if (pingTimer) clearInterval(pingTimer);
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    pingTimer = null;
+    heartbeatTimer = null;
+  };
+
+  const dropSocket = () => {
+    generation += 1;
+    clearTimers();
+    const current = socket;
+    socket = null;
+    try {
+      current?.close();
+    } catch {
+      // ignore
+    }
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    if (stopped || retryTimer) return;
+    const attempt = state.attempt + 1;
+    const delay = feedBackoffDelay(attempt, opts.backoff, random);
+    console.warn(
+      `[Feed] ${opts.exchange} ${opts.channel} WS down (${reason}) → reconnect #${attempt} in ${delay} ms`
+    );
+    update({
+      status: "reconnecting",
+      attempt,
+      disconnectedAt: state.disconnectedAt ?? now(),
+      nextRetryAt: now() + delay,
+      lastError: reason,
+    });
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    dropSocket();
+    const gen = generation;
+    let ws: FeedSocket;
+    try {
+      ws = openSocket(opts.url);
+    } catch (err) {
+      scheduleReconnect(errorText(err));
+      return;
+    }
+    socket = ws;
+    if (state.status !== "reconnecting") update({ status: "connecting" });
+
+    ws.addEventListener("open", () => {
+      if (gen !== generation || stopped) return;
+      const openedAt = now();
+      const isReconnect = everOpened;
+      const since = state.lastMessageAt ?? state.disconnectedAt ?? openedAt;
+      const downtimeFrom = state.disconnectedAt ?? openedAt;
+      everOpened = true;
+      update({
+        status: "open",
+        attempt: 0,
+        reconnects: state.reconnects + (isReconnect ? 1 : 0),
+        connectedAt: openedAt,
+        disconnectedAt: null,
+        lastMessageAt: openedAt,
+        nextRetryAt: null,
+        lastError: null,
+      });
+      for (const message of opts.subscribeMessages()) ws.send(message);
+
+      // ping nutný pro udržení spojení
+      if (opts.pingMessage) {
+        const ping = opts.pingMessage;
+        pingTimer = setInterval(() => {
+          if (ws.readyState === SOCKET_OPEN) ws.send(ping);
+        }, opts.pingIntervalMs ?? 20_000);
+      }
+      if (heartbeatTimeoutMs > 0) {
+        heartbeatTimer = setInterval(() => {
+          if (now() - (state.lastMessageAt ?? openedAt) < heartbeatTimeoutMs) return;
+          dropSocket();
+          scheduleReconnect("heartbeat_timeout");
+        }, Math.max(10, Math.floor(heartbeatTimeoutMs / 4)));
+      }
+      if (isReconnect) {
+        opts.onReconnect?.({ since, downtimeMs: openedAt - downtimeFrom });
+      }
+    });
+
+    ws.addEventListener("message", (event) => {
+      if (gen !== generation || stopped) return;
+      state.lastMessageAt = now();
+      opts.onMessage(String(event.data));
+    });
+
+    ws.addEventListener("error", () => {
+      if (gen !== generation || stopped) return;
+      state.lastError = "socket_error";
+    });
+
+    ws.addEventListener("close", () => {
+      if (gen !== generation || stopped) return;
+      clearTimers();
+      socket = null;
+      scheduleReconnect(state.lastError === "socket_error" ? "socket_error" : "closed");
+    });
+  };
+
+  connect();
+
+  return {
+    state: () => ({ ...state }),
+    reconnect() {
+      if (stopped) return;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      update({ status: "reconnecting", disconnectedAt: state.disconnectedAt ?? now() });
+      connect();
+    },
+    close() {
+      if (stopped) return;
+      stopped = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      dropSocket();
+      connections.delete(id);
+      publish();
+    },
+  };
+}
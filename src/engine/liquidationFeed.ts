@@ -1,8 +1,11 @@
 import { updateLiquidations } from "./orderflow";
+import { getPublicStreamAdapter, type ExchangeId } from "./exchangeStreams";
+import type { FeedSocket, TrafficRecorder } from "./trafficRecording";
+import { openResilientFeed, type FeedBackoff } from "./feedConnection";
 
-const FEED_URL_MAINNET = "wss://stream.bybit.com/v5/public/linear";
-const FEED_URL_TESTNET = "wss://stream.bybit.com/v5/public/linear";
 const PING_INTERVAL = 20000;
+// Likvidace chodí nárazově; mrtvé spojení poznáme jen podle chybějících pongů.
+const HEARTBEAT_TIMEOUT = 45000;
 
 type LiquidationEvent = {
   price: number;
@@ -17,37 +20,23 @@ const LIQUIDATION_TTL = 5 * 60 * 1000; // 5 minutes
 
 export function startLiquidationFeed(
   symbols: string[],
-  useTestnet: boolean = false
+  useTestnet: boolean = false,
+  exchange?: ExchangeId,
+  io?: {
+    recorder?: TrafficRecorder;
+    openSocket?: (url: string, channel: "liquidation") => FeedSocket;
+    backoff?: FeedBackoff;
+  }
 ): () => void {
-  const ws = new WebSocket(useTestnet ? FEED_URL_TESTNET : FEED_URL_MAINNET);
-  let pingTimer: ReturnType<typeof setInterval> | null = null;
+  const adapter = getPublicStreamAdapter(exchange);
+  const openFeedSocket = io?.openSocket;
 
-  ws.addEventListener("open", () => {
-    console.log("Liquidation Feed WS open");
-    const args = symbols.map((s) => `liquidation.${s}`);
-    ws.send(JSON.stringify({ op: "subscribe", args }));
-
-    pingTimer = setInterval(() => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ op: "ping" }));
-      }
-    }, PING_INTERVAL);
-  });
-
-  ws.addEventListener("message", (event) => {
+  const handleMessage = (data: string) => {
     try {
-      const msg = JSON.parse(event.data.toString());
-      // Bybit V5 liquidation topic: liquidation.{symbol}
-      // data: { symbol, side, price, size, updatedTime }
-      if (msg.topic && msg.topic.startsWith("liquidation.")) {
-        const data = msg.data;
-        if (!data) return;
-
-        const symbol = data.symbol;
-        const price = parseFloat(data.price);
-        const size = parseFloat(data.size);
-        const side = data.side;
-        const time = Number(data.updatedTime) || Date.now();
+      io?.recorder?.record("ws.public", "liquidation", data);
+      for (const liq of adapter.parse(data)) {
+        if (liq.kind !== "liquidation" || !liq.symbol) continue;
+        const { symbol, price, size, side, time } = liq;
 
         if (!liquidationBuffers[symbol]) {
           liquidationBuffers[symbol] = [];
@@ -74,14 +63,27 @@ export function startLiquidationFeed(
     } catch (e) {
       console.error("Liquidation feed error", e);
     }
-  });
+  };
 
-  ws.addEventListener("close", () => {
-    if (pingTimer) clearInterval(pingTimer);
+  const feed = openResilientFeed({
+    channel: "liquidation",
+    exchange: adapter.id,
+    url: adapter.url(useTestnet),
+    openSocket: openFeedSocket
+      ? (socketUrl: string): FeedSocket => openFeedSocket(socketUrl, "liquidation")
+      : undefined,
+    subscribeMessages: () => {
+      console.log("Liquidation Feed WS open");
+      return adapter.subscribeMessages({ symbols, liquidations: true });
+    },
+    pingMessage: adapter.pingMessage,
+    pingIntervalMs: PING_INTERVAL,
+    heartbeatTimeoutMs: adapter.pingMessage ? HEARTBEAT_TIMEOUT : 0,
+    backoff: io?.backoff,
+    onMessage: handleMessage,
   });
 
   return () => {
-    if (pingTimer) clearInterval(pingTimer);
-    ws.close();
+    feed.close();
   };
 }
\ No newline at end of file
@@ -3,8 +3,14 @@
 /**
  * Returns the Backend API prefix based on the network mode.
  * Enforces strict boolean check and logs the selection.
+ * Paper mode routes to the simulated venue regardless of network.
  */
-export function getApiBase(useTestnet: boolean): string {
+export function getApiBase(useTestnet: boolean, paper = false): string {
+  if (paper === true) {
+    console.info("[API ROUTE]", { paper, base: "/api/paper" });
+    return "/api/paper";
+  }
+
   // Strict validation: Must be explicitly true/false, not truthy/falsy
   if (useTestnet !== true && useTestnet !== false) {
     console.error(`[CRITICAL] Invalid useTestnet value: ${useTestnet}`);
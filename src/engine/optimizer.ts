@@ -0,0 +1,436 @@
+import type { BotConfig, Candle } from "./botEngine";
+import {
+  computeBacktestStats,
+  DEFAULT_BACKTEST_CONFIG,
+  runBacktest,
+  type BacktestConfig,
+  type BacktestDecisionFn,
+  type BacktestEquityPoint,
+  type BacktestProfile,
+  type BacktestStats,
+  type BacktestTrade,
+} from "./backtest";
+
+export type OptimizerParamKey = Exclude<keyof BotConfig, "symbol" | "strategyProfile">;
+
+/**
+ * A declared search range for one BotConfig knob. Either list the values
+ * explicitly (any type, e.g. partialSteps arrays) or give a numeric
+ * min/max/step range.
+ */
+export type OptimizerParam = {
+  key: OptimizerParamKey;
+  values?: unknown[];
+  min?: number;
+  max?: number;
+  step?: number;
+};
+
+export type OptimizerWeights = {
+  profitFactor: number;
+  winRate: number;
+  maxDrawdown: number;
+};
+
+export type OptimizerConfig = {
+  method: "grid" | "random";
+  /** Random search: number of sampled configurations. */
+  samples: number;
+  seed: number;
+  /** Grid search: hard cap on the cartesian product. */
+  maxCandidates: number;
+  inSampleBars: number;
+  outOfSampleBars: number;
+  /** Window advance; 0 means outOfSampleBars, so OOS segments never overlap. */
+  stepBars: number;
+  /** Configurations with fewer OOS trades are ranked after all eligible ones. */
+  minTrades: number;
+  weights: OptimizerWeights;
+  backtest: Partial<BacktestConfig>;
+};
+
+export const DEFAULT_OPTIMIZER_CONFIG: OptimizerConfig = {
+  method: "grid",
+  samples: 50,
+  seed: 1,
+  maxCandidates: 500,
+  inSampleBars: 2000,
+  outOfSampleBars: 500,
+  stepBars: 0,
+  minTrades: 5,
+  weights: { profitFactor: 1, winRate: 1, maxDrawdown: 2 },
+  backtest: {},
+};
+
+/**
+ * Starting ranges for the knobs we hand-tune most often.
+ */
+export const DEFAULT_OPTIMIZER_PARAMS: OptimizerParam[] = [
+  { key: "atrEntryMultiplier", min: 1.5, max: 3, step: 0.5 },
+  { key: "trailingActivationR", min: 0.5, max: 1.5, step: 0.5 },
+  { key: "liquiditySweepAtrMult", min: 0.3, max: 0.7, step: 0.2 },
+  {
+    key: "partialSteps",
+    values: [
+      [{ r: 1, exitFraction: 0.35 }],
+      [
+        { r: 1, exitFraction: 0.35 },
+        { r: 2, exitFraction: 0.25 },
+      ],
+    ],
+  },
+];
+
+// BotConfig knobs that the backtest simulator also applies to position management.
+const MANAGEMENT_KEYS = [
+  "riskPerTrade",
+  "maxRiskPerTradeCap",
+  "trailingActivationR",
+  "partialSteps",
+] as const;
+
+export type WalkForwardWindow = {
+  index: number;
+  inSample: { start: number; end: number };
+  outOfSample: { start: number; end: number };
+};
+
+export type OptimizerWindowResult = {
+  window: WalkForwardWindow;
+  inSample: BacktestStats;
+  outOfSample: BacktestStats;
+};
+
+export type OptimizerCandidateResult = {
+  rank: number;
+  params: Partial<BotConfig>;
+  eligible: boolean;
+  score: number;
+  inSample: BacktestStats;
+  outOfSample: BacktestStats;
+  windows: OptimizerWindowResult[];
+};
+
+export type OptimizerWalkForwardStep = {
+  window: WalkForwardWindow;
+  params: Partial<BotConfig>;
+  inSample: BacktestStats;
+  outOfSample: BacktestStats;
+};
+
+export type OptimizerReport = {
+  symbol: string;
+  profile: BacktestProfile;
+  method: OptimizerConfig["method"];
+  candles: number;
+  windows: WalkForwardWindow[];
+  ranked: OptimizerCandidateResult[];
+  /** Per window: best in-sample configuration and how it did out of sample. */
+  walkForward: OptimizerWalkForwardStep[];
+  /** Top-ranked eligible overrides, ready to paste into settings; null when nothing met minTrades. */
+  best: Partial<BotConfig> | null;
+};
+
+/**
+ * Expands a declared range to its discrete candidate values.
+ */
+export function expandParamValues(param: OptimizerParam): unknown[] {
+  if (Array.isArray(param.values) && param.values.length) return [...param.values];
+  const { min, max } = param;
+  if (!Number.isFinite(min) || !Number.isFinite(max) || max < min) {
+    throw new Error(`optimizer param ${param.key}: needs values[] or min <= max`);
+  }
+  const step = Number.isFinite(param.step) && param.step > 0 ? param.step : max - min || 1;
+  const out: number[] = [];
+  for (let i = 0; ; i++) {
+    const value = Number((min + i * step).toFixed(10));
+    if (value > max + 1e-9) break;
+    out.push(value);
+  }
+  return out;
+}
+
+/**
+ * Cartesian product of every param range, truncated at maxCandidates.
+ */
+export function buildGridCandidates(
+  params: OptimizerParam[],
+  maxCandidates = DEFAULT_OPTIMIZER_CONFIG.maxCandidates
+): Partial<BotConfig>[] {
+  let out: Record<string, unknown>[] = [{}];
+  for (const param of params) {
+    const values = expandParamValues(param);
+    const next: Record<string, unknown>[] = [];
+    for (const base of out) {
+      for (const value of values) {
+        next.push({ ...base, [param.key]: value });
+        if (next.length >= maxCandidates) break;
+      }
+      if (next.length >= maxCandidates) break;
+    }
+    out = next;
+  }
+  return out as Partial<BotConfig>[];
+}
+
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seeded random sampling; numeric ranges snap to their step, duplicates are skipped.
+ */
+export function buildRandomCandidates(
+  params: OptimizerParam[],
+  samples: number,
+  seed = DEFAULT_OPTIMIZER_CONFIG.seed
+): Partial<BotConfig>[] {
+  const rand = mulberry32(seed);
+  const pools = params.map((param) => ({ key: param.key, values: expandParamValues(param) }));
+  const space = pools.reduce((n, pool) => n * pool.values.length, 1);
+  const target = Math.min(Math.max(0, Math.floor(samples)), space);
+  const seen = new Set<string>();
+  const out: Partial<BotConfig>[] = [];
+  while (out.length < target) {
+    const candidate: Record<string, unknown> = {};
+    for (const pool of pools) {
+      candidate[pool.key] = pool.values[Math.floor(rand() * pool.values.length)];
+    }
+    const signature = JSON.stringify(candidate);
+    if (seen.has(signature)) continue;
+    seen.add(signature);
+    out.push(candidate as Partial<BotConfig>);
+  }
+  return out;
+}
+
+/**
+ * Rolling in-sample / out-of-sample windows over bar indices. The first
+ * `warmupBars` are reserved so every window has indicator history.
+ */
+export function buildWalkForwardWindows(
+  totalBars: number,
+  opts: { inSampleBars: number; outOfSampleBars: number; stepBars?: number; warmupBars?: number }
+): WalkForwardWindow[] {
+  const warmup = Math.max(0, Math.floor(opts.warmupBars ?? 0));
+  const isBars = Math.floor(opts.inSampleBars);
+  const oosBars = Math.floor(opts.outOfSampleBars);
+  if (isBars <= 0 || oosBars <= 0) {
+    throw new Error("walk-forward windows need positive inSampleBars and outOfSampleBars");
+  }
+  const step = opts.stepBars && opts.stepBars > 0 ? Math.floor(opts.stepBars) : oosBars;
+  const windows: WalkForwardWindow[] = [];
+  for (let start = warmup; start + isBars + oosBars <= totalBars; start += step) {
+    windows.push({
+      index: windows.length,
+      inSample: { start, end: start + isBars },
+      outOfSample: { start: start + isBars, end: start + isBars + oosBars },
+    });
+  }
+  return windows;
+}
+
+/**
+ * Composite ranking score: higher profit factor and win rate, lower drawdown.
+ * Profit factor is capped at 5 so a single lucky trade cannot dominate.
+ */
+export function scoreBacktestStats(
+  stats: BacktestStats,
+  weights: OptimizerWeights = DEFAULT_OPTIMIZER_CONFIG.weights
+): number {
+  if (!stats.trades) return 0;
+  const pf = Number.isFinite(stats.profitFactor) ? Math.min(stats.profitFactor, 5) : 5;
+  return (
+    weights.profitFactor * pf +
+    weights.winRate * stats.winRate -
+    weights.maxDrawdown * stats.maxDrawdownPct
+  );
+}
+
+function toBacktestConfig(
+  base: Partial<BacktestConfig>,
+  params: Partial<BotConfig>
+): Partial<BacktestConfig> {
+  const cfg: Partial<BacktestConfig> = {
+    ...base,
+    botConfig: { ...base.botConfig, ...params },
+  };
+  for (const key of MANAGEMENT_KEYS) {
+    if (params[key] !== undefined) {
+      (cfg as Record<string, unknown>)[key] = params[key];
+    }
+  }
+  return cfg;
+}
+
+function runSegment(args: {
+  symbol: string;
+  candles: Candle[];
+  profile: BacktestProfile;
+  range: { start: number; end: number };
+  warmupBars: number;
+  config: Partial<BacktestConfig>;
+  decisionFn?: BacktestDecisionFn;
+}) {
+  const from = Math.max(0, args.range.start - args.warmupBars);
+  const slice = args.candles.slice(from, args.range.end);
+  return runBacktest({
+    symbol: args.symbol,
+    candles: slice,
+    profile: args.profile,
+    config: { ...args.config, warmupBars: args.range.start - from },
+    decisionFn: args.decisionFn,
+  });
+}
+
+function combineStats(
+  parts: { trades: BacktestTrade[]; equityCurve: BacktestEquityPoint[]; stats: BacktestStats }[],
+  initialBalance: number
+): BacktestStats {
+  const trades = parts.flatMap((p) => p.trades);
+  const curve = parts.flatMap((p) => p.equityCurve);
+  return computeBacktestStats(trades, curve, initialBalance, {
+    signals: parts.reduce((s, p) => s + p.stats.signals, 0),
+    expiredOrders: parts.reduce((s, p) => s + p.stats.expiredOrders, 0),
+    decisionErrors: parts.reduce((s, p) => s + p.stats.decisionErrors, 0),
+    firstDecisionError: parts.find((p) => p.stats.firstDecisionError)?.stats.firstDecisionError ?? null,
+  });
+}
+
+function compareCandidates(
+  a: Omit<OptimizerCandidateResult, "rank">,
+  b: Omit<OptimizerCandidateResult, "rank">
+) {
+  if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+  if (b.score !== a.score) return b.score - a.score;
+  if (b.outOfSample.profitFactor !== a.outOfSample.profitFactor) {
+    return b.outOfSample.profitFactor - a.outOfSample.profitFactor;
+  }
+  if (b.outOfSample.winRate !== a.outOfSample.winRate) {
+    return b.outOfSample.winRate - a.outOfSample.winRate;
+  }
+  return a.outOfSample.maxDrawdownPct - b.outOfSample.maxDrawdownPct;
+}
+
+/**
+ * Walk-forward optimisation of BotConfig knobs over a local candle set.
+ *
+ * Every candidate is backtested on each in-sample and out-of-sample segment.
+ * Candidates are ranked by their combined out-of-sample score; the
+ * `walkForward` section additionally shows the classic "pick best in-sample,
+ * trade it out-of-sample" chain so overfitting is visible.
+ */
+export function runWalkForwardOptimization(args: {
+  symbol: string;
+  candles: Candle[];
+  profile?: BacktestProfile;
+  params?: OptimizerParam[];
+  config?: Partial<OptimizerConfig>;
+  decisionFn?: BacktestDecisionFn;
+}): OptimizerReport {
+  const cfg: OptimizerConfig = {
+    ...DEFAULT_OPTIMIZER_CONFIG,
+    ...args.config,
+    weights: { ...DEFAULT_OPTIMIZER_CONFIG.weights, ...args.config?.weights },
+  };
+  const profile = args.profile ?? "ai-matic";
+  const params = args.params?.length ? args.params : DEFAULT_OPTIMIZER_PARAMS;
+  const candles = [...args.candles].sort((a, b) => a.openTime - b.openTime);
+  const backtestBase: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...cfg.backtest };
+  const warmupBars = backtestBase.warmupBars;
+
+  const windows = buildWalkForwardWindows(candles.length, {
+    inSampleBars: cfg.inSampleBars,
+    outOfSampleBars: cfg.outOfSampleBars,
+    stepBars: cfg.stepBars,
+    warmupBars,
+  });
+  if (!windows.length) {
+    throw new Error(
+      `not enough candles for walk-forward: ${candles.length} < ${warmupBars + cfg.inSampleBars + cfg.outOfSampleBars}`
+    );
+  }
+
+  const candidates =
+    cfg.method === "random"
+      ? buildRandomCandidates(params, cfg.samples, cfg.seed)
+      : buildGridCandidates(params, cfg.maxCandidates);
+  if (!candidates.length) {
+    throw new Error("optimizer produced no candidate configurations");
+  }
+
+  const evaluated = candidates.map((candidate) => {
+    const config = toBacktestConfig(cfg.backtest, candidate);
+    const segment = (range: { start: number; end: number }) =>
+      runSegment({
+        symbol: args.symbol,
+        candles,
+        profile,
+        range,
+        warmupBars,
+        config,
+        decisionFn: args.decisionFn,
+      });
+    const runs = windows.map((window) => ({
+      window,
+      inSample: segment(window.inSample),
+      outOfSample: segment(window.outOfSample),
+    }));
+    const outOfSample = combineStats(
+      runs.map((r) => r.outOfSample),
+      backtestBase.initialBalance
+    );
+    return {
+      params: candidate,
+      eligible: outOfSample.trades >= cfg.minTrades,
+      score: scoreBacktestStats(outOfSample, cfg.weights),
+      inSample: combineStats(
+        runs.map((r) => r.inSample),
+        backtestBase.initialBalance
+      ),
+      outOfSample,
+      windows: runs.map((r) => ({
+        window: r.window,
+        inSample: r.inSample.stats,
+        outOfSample: r.outOfSample.stats,
+      })),
+    };
+  });
+
+  const ranked = [...evaluated]
+    .sort(compareCandidates)
+    .map((result, idx) => ({ rank: idx + 1, ...result }));
+
+  const walkForward = windows.map((window, wIdx) => {
+    let best = evaluated[0];
+    for (const candidate of evaluated) {
+      const score = scoreBacktestStats(candidate.windows[wIdx].inSample, cfg.weights);
+      const bestScore = scoreBacktestStats(best.windows[wIdx].inSample, cfg.weights);
+      if (score > bestScore) best = candidate;
+    }
+    return {
+      window,
+      params: best.params,
+      inSample: best.windows[wIdx].inSample,
+      outOfSample: best.windows[wIdx].outOfSample,
+    };
+  });
+
+  return {
+    symbol: args.symbol,
+    profile,
+    method: cfg.method,
+    candles: candles.length,
+    windows,
+    ranked,
+    walkForward,
+    best: ranked[0]?.eligible ? ranked[0].params : null,
+  };
+}
@@ -0,0 +1,66 @@
+// src/engine/positionMode.ts
+// Typovaný obal nad positionModeEngine.js: one-way vs. hedge režim účtu,
+// positionIdx nohou (0 = one-way, 1 = long, 2 = short) a klíče pozic po
+// nohách.
+
+import * as engine from "./positionModeEngine.js";
+
+export type PositionMode = "oneway" | "hedge";
+export type PositionSide = "Buy" | "Sell";
+
+/** Řádek pozice tak, jak ho vrací burza nebo ActivePosition. */
+export type PositionLegLike = {
+  symbol?: string;
+  side?: string;
+  size?: number | string;
+  qty?: number | string;
+  positionIdx?: number | string;
+};
+
+export const POSITION_MODES: PositionMode[] = engine.POSITION_MODES;
+export const ONE_WAY_POSITION_IDX: number = engine.ONE_WAY_POSITION_IDX;
+export const HEDGE_LONG_POSITION_IDX: number = engine.HEDGE_LONG_POSITION_IDX;
+export const HEDGE_SHORT_POSITION_IDX: number = engine.HEDGE_SHORT_POSITION_IDX;
+
+export const normalizePositionMode = (value: unknown): PositionMode | null =>
+  engine.normalizePositionMode(value);
+
+export const normalizePositionSide = (side: unknown): PositionSide | null =>
+  engine.normalizePositionSide(side);
+
+export const isHedgePositionIdx = (positionIdx: unknown): boolean =>
+  engine.isHedgePositionIdx(positionIdx);
+
+export const positionIdxForLeg = (
+  side: unknown,
+  mode: PositionMode | null | undefined
+): number | undefined => engine.positionIdxForLeg(side, mode);
+
+/** Reduce-only příkaz míří na opačnou nohu než je jeho strana. */
+export const positionIdxForOrder = (input: {
+  mode: PositionMode | null | undefined;
+  side: unknown;
+  reduceOnly?: boolean;
+}): number | undefined => engine.positionIdxForOrder(input);
+
+export const positionLegSide = (position: PositionLegLike | null | undefined): PositionSide | null =>
+  engine.positionLegSide(position);
+
+/** `SYMBOL:Buy` / `SYMBOL:Sell` – platí v obou režimech. */
+export const positionLegKey = (position: PositionLegLike | null | undefined): string =>
+  engine.positionLegKey(position);
+
+export const detectPositionMode = (
+  positions: PositionLegLike[] | null | undefined
+): PositionMode | null => engine.detectPositionMode(positions);
+
+export const openPositionLegs = <P extends PositionLegLike>(
+  positions: P[] | null | undefined,
+  filter?: { symbol?: string; side?: string }
+): P[] => engine.openPositionLegs(positions, filter);
+
+/** One-way pozice blokuje každý vstup na symbolu, hedge noha jen vstup na své straně. */
+export const positionBlocksEntry = (
+  position: PositionLegLike | null | undefined,
+  side: unknown
+): boolean => engine.positionBlocksEntry(position, side);
@@ -0,0 +1,119 @@
+// Position mode helpers (pure JS; shared by the server and the dashboard).
+//
+// One-way accounts hold a single position per symbol (positionIdx 0); hedge
+// (two-way) accounts hold a long leg (positionIdx 1) and a short leg
+// (positionIdx 2) side by side. The numbering is Bybit's; the Binance
+// adapter maps positionSide BOTH / LONG / SHORT onto the same values.
+
+export const POSITION_MODES = ['oneway', 'hedge'];
+
+export const ONE_WAY_POSITION_IDX = 0;
+export const HEDGE_LONG_POSITION_IDX = 1;
+export const HEDGE_SHORT_POSITION_IDX = 2;
+
+/**
+ * 'oneway' | 'hedge', or null for anything else. Accepts the venue spellings
+ * (Bybit "MergedSingle" / "BothSides", Binance dual side true / false).
+ */
+export function normalizePositionMode(value) {
+  if (value === true) return 'hedge';
+  if (value === false) return 'oneway';
+  const key = String(value ?? '').trim().toLowerCase().replace(/[^a-z]/g, '');
+  if (key === 'hedge' || key === 'twoway' || key === 'bothsides' || key === 'dual') return 'hedge';
+  if (key === 'oneway' || key === 'mergedsingle' || key === 'single') return 'oneway';
+  return null;
+}
+
+/**
+ * 'Buy' | 'Sell' for buy/long and sell/short in any case, null otherwise.
+ */
+export function normalizePositionSide(side) {
+  const key = String(side ?? '').trim().toLowerCase();
+  if (key === 'buy' || key === 'long') return 'Buy';
+  if (key === 'sell' || key === 'short') return 'Sell';
+  return null;
+}
+
+export function isHedgePositionIdx(positionIdx) {
+  const idx = Number(positionIdx);
+  return idx === HEDGE_LONG_POSITION_IDX || idx === HEDGE_SHORT_POSITION_IDX;
+}
+
+/**
+ * positionIdx of the leg holding positions of `side`: 0 in one-way mode,
+ * 1 / 2 in hedge mode; undefined for an unknown side in hedge mode.
+ */
+export function positionIdxForLeg(side, mode) {
+  if (normalizePositionMode(mode) !== 'hedge') return ONE_WAY_POSITION_IDX;
+  const legSide = normalizePositionSide(side);
+  if (!legSide) return undefined;
+  return legSide === 'Buy' ? HEDGE_LONG_POSITION_IDX : HEDGE_SHORT_POSITION_IDX;
+}
+
+/**
+ * positionIdx an order is sent with: entries open the leg of their own side,
+ * reduce-only orders close the opposite leg (a reduce-only Sell closes the
+ * long leg).
+ */
+export function positionIdxForOrder({ mode, side, reduceOnly = false } = {}) {
+  const orderSide = normalizePositionSide(side);
+  if (normalizePositionMode(mode) !== 'hedge') return ONE_WAY_POSITION_IDX;
+  if (!orderSide) return undefined;
+  const legSide = reduceOnly ? (orderSide === 'Buy' ? 'Sell' : 'Buy') : orderSide;
+  return positionIdxForLeg(legSide, 'hedge');
+}
+
+/**
+ * Side of the leg a position row belongs to. Hedge rows take it from
+ * positionIdx, since venues report an empty leg with side "None".
+ */
+export function positionLegSide(position) {
+  const idx = Number(position?.positionIdx);
+  if (idx === HEDGE_LONG_POSITION_IDX) return 'Buy';
+  if (idx === HEDGE_SHORT_POSITION_IDX) return 'Sell';
+  return normalizePositionSide(position?.side);
+}
+
+/**
+ * Key of one position leg: symbol + leg side. Unique in both modes (a
+ * one-way symbol has a single side at a time), so state keyed by it survives
+ * switching modes.
+ */
+export function positionLegKey(position) {
+  const symbol = String(position?.symbol ?? '').toUpperCase();
+  return `${symbol}:${positionLegSide(position) ?? ''}`;
+}
+
+/**
+ * 'hedge' when any row carries a hedge positionIdx, 'oneway' when there are
+ * rows but none does, null without rows (nothing to tell from).
+ */
+export function detectPositionMode(positions) {
+  const list = Array.isArray(positions) ? positions : [];
+  if (list.some((p) => isHedgePositionIdx(p?.positionIdx))) return 'hedge';
+  return list.length ? 'oneway' : null;
+}
+
+/**
+ * Open legs (size > 0) of `symbol`, narrowed to the leg of `side` when given.
+ */
+export function openPositionLegs(positions, { symbol, side } = {}) {
+  const key = String(symbol ?? '').toUpperCase();
+  const legSide = normalizePositionSide(side);
+  return (Array.isArray(positions) ? positions : []).filter((p) => {
+    if (key && String(p?.symbol ?? '').toUpperCase() !== key) return false;
+    if (!(Math.abs(Number(p?.size ?? p?.qty ?? 0)) > 0)) return false;
+    return !legSide || positionLegSide(p) === legSide;
+  });
+}
+
+/**
+ * Whether an open position blocks a new entry on `side`: a one-way position
+ * blocks every entry on its symbol, a hedge leg only entries of its own side.
+ * Without a known side every position blocks.
+ */
+export function positionBlocksEntry(position, side) {
+  const entrySide = normalizePositionSide(side);
+  if (!entrySide || !isHedgePositionIdx(position?.positionIdx)) return true;
+  return positionLegSide(position) === entrySide;
+}
@@ -1,5 +1,7 @@
 // src/engine/priceFeed.ts
-// Public realtime feed z Bybitu přes WebSocket s automatickým pingem
+// Public realtime feed přes WebSocket (Bybit nebo Binance, viz exchangeStreams)
+// s automatickým pingem, reconnectem (feedConnection) a doplněním svíček
+// z REST po výpadku
 
 import {
   Candle,
@@ -8,14 +10,20 @@ import {
 import type { BotConfig } from "@/engine/botEngine";
 import { updateOpenInterest, updateOrderbook, updateTrades } from "./orderflow";
 import { startLiquidationFeed } from "./liquidationFeed";
-
-const FEED_URL_MAINNET = "wss://stream.bybit.com/v5/public/linear";
-const FEED_URL_TESTNET = "wss://stream.bybit.com/v5/public/linear";
-const REST_URL_MAINNET = "https://api.bybit.com";
-const REST_URL_TESTNET = "https://api-demo.bybit.com";
+import {
+  getPublicStreamAdapter,
+  type ExchangeId,
+  type PublicStreamAdapter,
+  type PublicStreamSubscription,
+} from "./exchangeStreams";
+import type { FeedSocket, TrafficRecorder } from "./trafficRecording";
+import { openResilientFeed, type FeedBackoff } from "./feedConnection";
+import { getBrowserCandleStore, type CandleStore } from "./candleStore";
 
 // WS ping interval (Bybit vyžaduje každých ~20s)
 const PING_INTERVAL = 20000;
+// Kline topic tiká po sekundách, pong chodí každých 20s.
+const HEARTBEAT_TIMEOUT = 45000;
 
 // Engine decision – bereme přímo návrat evaluateStrategyForSymbol
 export type PriceFeedDecision = ReturnType<typeof evaluateStrategyForSymbol>;
@@ -23,6 +31,12 @@ export type PriceFeedDecisionExtras = {
   preloadedCandlesByInterval?: Record<string, Candle[]>;
 };
 
+// Otevírá WS pro daný feed; pro replay vrací createReplaySocket.
+export type FeedSocketFactory = (
+  url: string,
+  channel: "price" | "liquidation"
+) => FeedSocket;
+
 export type PriceFeedCallback = {
   symbol: string;
   decision: PriceFeedDecision;
@@ -31,20 +45,6 @@ export type PriceFeedCallback = {
 // Buffer svíček pro každý symbol
 const candleBuffers: Record<string, Candle[]> = {};
 
-type BybitWsKlineRow =
-  | {
-      start?: number | string;
-      startTime?: number | string;
-      open?: number | string;
-      high?: number | string;
-      low?: number | string;
-      close?: number | string;
-      volume?: number | string;
-    }
-  | (string | number)[];
-
-type BybitRestKlineRow = (string | number)[];
-
 function ensureBuffer(symbol: string): Candle[] {
   if (!candleBuffers[symbol]) {
     candleBuffers[symbol] = [];
@@ -52,42 +52,6 @@ function ensureBuffer(symbol: string): Candle[] {
   return candleBuffers[symbol];
 }
 
-// normalizace Bybit WS kline dat
-function normalizeWsKline(row: BybitWsKlineRow) {
-  if (Array.isArray(row)) {
-    return {
-      openTime: Number(row[0]),
-      open: parseFloat(row[1] as string),
-      high: parseFloat(row[2] as string),
-      low: parseFloat(row[3] as string),
-      close: parseFloat(row[4] as string),
-      volume: parseFloat(row[5] as string),
-    };
-  } else {
-    return {
-      openTime: Number(row.start ?? row.startTime),
-      open: parseFloat(row.open as string),
-      high: parseFloat(row.high as string),
-      low: parseFloat(row.low as string),
-      close: parseFloat(row.close as string),
-      volume: parseFloat(row.volume as string),
-    };
-  }
-}
-
-function normalizeRestKline(row: BybitRestKlineRow): Candle | null {
-  if (!Array.isArray(row) || row.length < 6) return null;
-  const openTime = Number(row[0]);
-  const open = parseFloat(row[1] as string);
-  const high = parseFloat(row[2] as string);
-  const low = parseFloat(row[3] as string);
-  const close = parseFloat(row[4] as string);
-  const volume = parseFloat(row[5] as string);
-  if (!Number.isFinite(openTime)) return null;
-  if (![open, high, low, close].every(Number.isFinite)) return null;
-  return { openTime, open, high, low, close, volume };
-}
-
 function mergeCandles(existing: Candle[], incoming: Candle[], maxCandles: number): Candle[] {
   const merged = new Map<number, Candle>();
   for (const c of existing) {
@@ -103,60 +67,86 @@ function mergeCandles(existing: Candle[], incoming: Candle[], maxCandles: number
   return sorted.slice(-maxCandles);
 }
 
-async function fetchBackfillCandles(args: {
+type KlinePageArgs = {
+  adapter: PublicStreamAdapter;
   symbol: string;
   interval: string;
-  lookbackMinutes: number;
   useTestnet?: boolean;
-  limit?: number;
-}): Promise<Candle[]> {
+};
+
+async function fetchKlinePage(
+  args: KlinePageArgs & { end: number; limit: number }
+): Promise<Candle[]> {
+  const url = args.adapter.klineRestUrl(
+    { symbol: args.symbol, interval: args.interval, limit: args.limit, end: args.end },
+    args.useTestnet
+  );
+  const maxAttemptsPerPage = 3;
+  let lastError: unknown = null;
+  for (let attempt = 1; attempt <= maxAttemptsPerPage; attempt++) {
+    try {
+      const res = await fetch(url);
+      if (!res.ok) {
+        throw new Error(`backfill_failed_http:${res.status}`);
+      }
+      return args.adapter.parseKlineRest(await res.json());
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("backfill_failed");
+}
+
+async function fetchBackfillCandles(
+  args: KlinePageArgs & {
+    lookbackMinutes: number;
+    limit?: number;
+    // Se storem se uzavřené svíčky čtou z něj a z REST jen chybějící konec.
+    store?: CandleStore | null;
+  }
+): Promise<Candle[]> {
   const intervalMinutes = Number(args.interval) || 1;
   const totalBars = Math.max(1, Math.ceil(args.lookbackMinutes / intervalMinutes));
   const limitPerRequest = Math.min(Math.max(args.limit ?? 1000, 1), 1000);
-  const base = args.useTestnet ? REST_URL_TESTNET : REST_URL_MAINNET;
+  const fetchPage = ({ end, limit }: { end: number; limit: number }) =>
+    fetchKlinePage({ ...args, end, limit });
+
+  if (args.store) {
+    const window = await args.store.loadWindow(args.symbol, args.interval, {
+      bars: totalBars,
+      fetchPage,
+      includeOpen: true,
+      pageLimit: limitPerRequest,
+      maxPages: Math.ceil(totalBars / limitPerRequest) + 2,
+    });
+    if (window.error) {
+      console.warn(
+        `backfill partial for ${args.symbol}: ${window.candles.length}/${totalBars} bars (${window.error})`
+      );
+    }
+    return window.candles;
+  }
+
   const out: Candle[] = [];
   let end = Date.now();
   let lastEnd = end;
-  const maxAttemptsPerPage = 3;
 
   while (out.length < totalBars) {
     const limit = Math.min(limitPerRequest, totalBars - out.length);
-    const url = `${base}/v5/market/kline?category=linear&symbol=${args.symbol}&interval=${args.interval}&limit=${limit}&end=${end}`;
-    let json: any = null;
-    let lastError: unknown = null;
-    for (let attempt = 1; attempt <= maxAttemptsPerPage; attempt++) {
-      try {
-        const res = await fetch(url);
-        if (!res.ok) {
-          throw new Error(`backfill_failed_http:${res.status}`);
-        }
-        json = await res.json();
-        const retCode = Number(json?.retCode ?? 0);
-        if (Number.isFinite(retCode) && retCode !== 0) {
-          throw new Error(`backfill_failed_retcode:${retCode}`);
-        }
-        lastError = null;
-        break;
-      } catch (err) {
-        lastError = err;
-      }
-    }
-    if (lastError) {
+    let parsed: Candle[];
+    try {
+      parsed = await fetchPage({ end, limit });
+    } catch (err) {
       if (out.length > 0) {
         console.warn(
           `backfill partial for ${args.symbol}: loaded ${out.length}/${totalBars} bars (${String(
-            (lastError as Error)?.message ?? lastError
+            (err as Error)?.message ?? err
           )})`
         );
         break;
       }
-      throw lastError instanceof Error ? lastError : new Error("backfill_failed");
+      throw err;
     }
-    const list = json?.result?.list ?? [];
-    if (!Array.isArray(list) || list.length === 0) break;
-    const parsed = list
-      .map((row: BybitRestKlineRow) => normalizeRestKline(row))
-      .filter((c: Candle | null): c is Candle => Boolean(c));
     if (!parsed.length) break;
     out.push(...parsed);
     const oldest = parsed.reduce((min, c) => Math.min(min, c.openTime), Infinity);
@@ -169,16 +159,9 @@ async function fetchBackfillCandles(args: {
   return out.sort((a, b) => a.openTime - b.openTime);
 }
 
-interface BybitWsMessage {
-  op?: "pong" | "ping" | "subscribe";
-  success?: boolean;
-  topic?: string;
-  type?: "snapshot" | "delta";
-  data?: BybitWsKlineRow[] | any;
-}
-
 export interface PriceFeedOptions {
   useTestnet?: boolean;
+  exchange?: ExchangeId;
   timeframe?: string;
   configOverrides?:
     | Partial<BotConfig>
@@ -207,6 +190,20 @@ export interface PriceFeedOptions {
     enabled?: boolean;
     depth?: number;
   };
+  // Record/replay (viz trafficRecording): raw WS zprávy jdou do recorderu,
+  // openSocket nahrazuje živé spojení.
+  recorder?: TrafficRecorder;
+  openSocket?: FeedSocketFactory;
+  reconnect?: {
+    backoff?: FeedBackoff;
+    /** 0 vypne detekci mrtvého spojení. */
+    heartbeatTimeoutMs?: number;
+  };
+  /**
+   * Lokální store svíček (viz candleStore); výchozí je IndexedDB store
+   * burzy, null ho vypne. Replay (openSocket) store nepoužívá.
+   */
+  candleStore?: CandleStore | null;
 }
 
 export function startPriceFeed(
@@ -214,17 +211,32 @@ export function startPriceFeed(
   onDecision: (symbol: string, decision: PriceFeedDecision) => void,
   opts?: PriceFeedOptions
 ): () => void {
-  const ws = new WebSocket(opts?.useTestnet ? FEED_URL_TESTNET : FEED_URL_MAINNET);
+  const adapter = getPublicStreamAdapter(opts?.exchange);
+  const url = adapter.url(opts?.useTestnet);
   const timeframe = opts?.timeframe ?? "5";
   const maxCandles = opts?.maxCandles ?? 500;
   const decisionFn = opts?.decisionFn ?? evaluateStrategyForSymbol;
   const backfill = opts?.backfill;
   const preloadedBySymbol: Record<string, Record<string, Candle[]>> = {};
+  const candleStore =
+    opts?.candleStore !== undefined
+      ? opts.candleStore
+      : opts?.openSocket
+        ? null
+        : getBrowserCandleStore(`${adapter.id}${opts?.useTestnet ? "-testnet" : ""}`);
 
   // Start Liquidation Feed alongside Price Feed
-  const stopLiquidationFeed = startLiquidationFeed(symbols, opts?.useTestnet);
+  const stopLiquidationFeed = startLiquidationFeed(
+    symbols,
+    opts?.useTestnet,
+    opts?.exchange,
+    {
+      recorder: opts?.recorder,
+      openSocket: opts?.openSocket,
+      backoff: opts?.reconnect?.backoff,
+    }
+  );
 
-  let pingTimer: ReturnType<typeof setInterval> | null = null;
   const resolveOverrides = (symbol: string) =>
     typeof opts?.configOverrides === "function"
       ? opts.configOverrides(symbol)
@@ -250,11 +262,13 @@ export function startPriceFeed(
     const limit = backfill.limit ?? 1000;
     for (const symbol of symbols) {
       fetchBackfillCandles({
+        adapter,
         symbol,
         interval,
         lookbackMinutes,
         useTestnet: opts?.useTestnet,
         limit,
+        store: candleStore,
       })
         .then((candles) => {
           if (!candles.length) return;
@@ -283,11 +297,13 @@ export function startPriceFeed(
           Number(lookbackByInterval[interval] ?? fallbackLookback)
         );
         const candles = await fetchBackfillCandles({
+          adapter,
           symbol,
           interval,
           lookbackMinutes,
           useTestnet: opts?.useTestnet,
           limit,
+          store: candleStore,
         });
         return { interval, candles };
       });
@@ -312,121 +328,103 @@ export function startPriceFeed(
     }
   }
 
-  ws.addEventListener("open", () => {
-    console.log("Bybit WS open → subscribing…");
-
-    const args = [
-      ...symbols.map((s) => `kline.${timeframe}.${s}`),
-      ...symbols.map((s) => `tickers.${s}`),
-    ];
-
-    if (opts?.orderflow?.enabled) {
-      const depth = opts.orderflow.depth ?? 50;
-      args.push(...symbols.map((s) => `publicTrade.${s}`));
-      args.push(...symbols.map((s) => `orderbook.${depth}.${s}`));
-    }
-
-    console.log(`[PriceFeed] Subscribing to: ${args.length} topics for ${symbols.length} symbols`);
-
-    ws.send(
-      JSON.stringify({
-        op: "subscribe",
-        args,
-      })
-    );
-
-    // ping nutný pro udržení spojení
-    pingTimer = setInterval(() => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ op: "ping" }));
-      }
-    }, PING_INTERVAL);
-  });
+  const subscription: PublicStreamSubscription = {
+    symbols,
+    klineInterval: timeframe,
+    tickers: true,
+  };
+  if (opts?.orderflow?.enabled) {
+    subscription.trades = true;
+    subscription.orderbookDepth = opts.orderflow.depth ?? 50;
+  }
 
-  ws.addEventListener("message", (raw) => {
+  const handleMessage = (data: string) => {
     try {
-      const msg: BybitWsMessage = JSON.parse(
-        (raw as MessageEvent).data.toString()
-      );
-
-      // ignore pongs & subscription acks
-      if (msg.op === "pong") return;
-      if (msg.success === true) return;
-
-      if (!msg.topic || !msg.data) return;
-
-      if (msg.topic.startsWith("tickers.")) {
-        const data = msg.data;
-        const symbol = data?.symbol;
-        const oi = data?.openInterest;
-        if (symbol && oi) {
-          updateOpenInterest(symbol, parseFloat(oi));
-        }
-        return;
-      }
-
-      if (msg.topic.startsWith("publicTrade.")) {
-        const data = msg.data;
-        if (Array.isArray(data) && data.length > 0) {
-          const symbol = data[0].s;
-          updateTrades(symbol, data);
-        }
-        return;
-      }
-
-      if (msg.topic.startsWith("orderbook.")) {
-        const data = msg.data;
-        const symbol = data?.s;
-        if (symbol) {
-          updateOrderbook(symbol, data.b, data.a, msg.type === "snapshot");
+      opts?.recorder?.record("ws.public", "price", data);
+      const events = adapter.parse(data);
+      for (const event of events) {
+        if (event.kind === "ticker") {
+          updateOpenInterest(event.symbol, event.openInterest);
+        } else if (event.kind === "trades") {
+          updateTrades(event.symbol, event.trades);
+        } else if (event.kind === "orderbook") {
+          updateOrderbook(event.symbol, event.bids, event.asks, event.snapshot);
+        } else if (event.kind === "kline") {
+          const buffer = ensureBuffer(event.symbol);
+          // Průběžné updaty téže svíčky ji přepíšou, nová svíčka se přidá.
+          const last = buffer[buffer.length - 1];
+          if (last && last.openTime === event.candle.openTime) {
+            buffer[buffer.length - 1] = event.candle;
+          } else {
+            buffer.push(event.candle);
+            if (buffer.length > maxCandles) buffer.shift();
+          }
+          if (event.confirmed && candleStore) {
+            candleStore.write(event.symbol, event.interval, [event.candle]).catch((err) => {
+              console.warn(`candle store write failed for ${event.symbol}:`, err);
+            });
+          }
+          emitDecision(event.symbol, buffer);
         }
-        return;
       }
-
-      const [, , symbol] = msg.topic.split(".");
-      if (!symbol) return;
-
-      const list = msg.data;
-      if (!Array.isArray(list) || list.length === 0) return;
-
-      const row = list[list.length - 1];
-      const { openTime, open, high, low, close, volume } =
-        normalizeWsKline(row);
-
-      const buffer = ensureBuffer(symbol);
-
-      const candle: Candle = {
-        openTime,
-        open,
-        high,
-        low,
-        close,
-        volume,
-      };
-
-      buffer.push(candle);
-      if (buffer.length > maxCandles) buffer.shift();
-
-      emitDecision(symbol, buffer);
     } catch (err) {
       console.error("priceFeed ws error:", err);
     }
-  });
+  };
 
-  ws.addEventListener("error", (ev) => {
-    console.error("[PriceFeed] Bybit WS error", ev);
-  });
+  // Po reconnectu doplní svíčky od poslední známé (nebo od výpadku) přes REST.
+  const backfillGap = (since: number) => {
+    const intervalMinutes = Number(timeframe) || 1;
+    for (const symbol of symbols) {
+      const from = ensureBuffer(symbol).at(-1)?.openTime ?? since;
+      const lookbackMinutes = Math.min(
+        maxCandles * intervalMinutes,
+        Math.ceil((Date.now() - from) / 60_000) + intervalMinutes
+      );
+      fetchBackfillCandles({
+        adapter,
+        symbol,
+        interval: timeframe,
+        lookbackMinutes,
+        useTestnet: opts?.useTestnet,
+        store: candleStore,
+      })
+        .then((candles) => {
+          if (!candles.length) return;
+          const merged = mergeCandles(ensureBuffer(symbol), candles, maxCandles);
+          candleBuffers[symbol] = merged;
+          emitDecision(symbol, merged);
+        })
+        .catch((err) => {
+          console.warn(`gap backfill failed for ${symbol}:`, err);
+        });
+    }
+  };
 
-  ws.addEventListener("close", () => {
-    console.warn("[PriceFeed] Bybit WS closed");
-    clearInterval(pingTimer);
+  const openFeedSocket = opts?.openSocket;
+  const feed = openResilientFeed({
+    channel: "price",
+    exchange: adapter.id,
+    url,
+    openSocket: openFeedSocket
+      ? (socketUrl: string): FeedSocket => openFeedSocket(socketUrl, "price")
+      : undefined,
+    subscribeMessages: () => {
+      console.log(`[PriceFeed] Subscribing ${symbols.length} symbols on ${adapter.id}`);
+      return adapter.subscribeMessages(subscription);
+    },
+    pingMessage: adapter.pingMessage,
+    pingIntervalMs: PING_INTERVAL,
+    heartbeatTimeoutMs: opts?.reconnect?.heartbeatTimeoutMs ?? HEARTBEAT_TIMEOUT,
+    backoff: opts?.reconnect?.backoff,
+    onMessage: handleMessage,
+    onReconnect: ({ since }) => backfillGap(since),
   });
 
   return () => {
     try {
       stopLiquidationFeed();
-      clearInterval(pingTimer);
-      ws.close();
+      feed.close();
     } catch {
       // ignore
     }
@@ -0,0 +1,21 @@
+// src/engine/strategy.worker.ts
+// Vstupní bod Web Workeru se strategiemi (viz strategyWorker.ts);
+// Vite ho bundluje přes new Worker(new URL(...), { type: "module" }).
+
+import {
+  createStrategyWorkerRuntime,
+  type StrategyWorkerEvent,
+  type StrategyWorkerRequest,
+} from "./strategyWorker";
+
+type WorkerScope = {
+  postMessage: (event: StrategyWorkerEvent) => void;
+  onmessage: ((event: MessageEvent<StrategyWorkerRequest>) => void) | null;
+};
+
+const scope = self as unknown as WorkerScope;
+const runtime = createStrategyWorkerRuntime((event) => scope.postMessage(event), {
+  reportFeed: true,
+});
+
+scope.onmessage = (event) => runtime.handle(event.data);
@@ -0,0 +1,36 @@
+// Server build of the strategy registry: the catalog bound to the `.js`
+// strategy modules. Gate names, checklist defaults and trade management are
+// client concerns and live in strategyRegistry.ts only.
+import { createStrategyRegistry, registerCatalog, DEFAULT_STRATEGY_ID } from './strategyRegistryEngine.js';
+import { evaluateStrategyForSymbol } from './botEngine.js';
+import { evaluateAiMaticXStrategyForSymbol } from './aiMaticXStrategy.js';
+import { evaluateAiMaticAmdStrategyForSymbol } from './aiMaticAmdStrategy.js';
+import { evaluateAiMaticProStrategyForSymbol } from './aiMaticProStrategy.js';
+import { evaluateAiMaticOliKellaStrategyForSymbol } from './aiMaticOliKellaStrategy.js';
+import { evaluateAiMaticBboStrategyForSymbol } from './aiMaticBboStrategy.js';
+
+export { DEFAULT_STRATEGY_ID };
+
+const registry = registerCatalog(createStrategyRegistry(), {
+  'ai-matic': {
+    decide: (symbol, candles, botConfig) =>
+      evaluateStrategyForSymbol(symbol, candles, { ...botConfig, strategyProfile: 'ai-matic' }),
+  },
+  'ai-matic-tree': {
+    decide: (symbol, candles, botConfig) =>
+      evaluateStrategyForSymbol(symbol, candles, { ...botConfig, strategyProfile: 'ai-matic-tree' }),
+  },
+  'ai-matic-x': { decide: (symbol, candles) => evaluateAiMaticXStrategyForSymbol(symbol, candles) },
+  'ai-matic-amd': { decide: (symbol, candles) => evaluateAiMaticAmdStrategyForSymbol(symbol, candles) },
+  'ai-matic-olikella': {
+    decide: (symbol, candles) => evaluateAiMaticOliKellaStrategyForSymbol(symbol, candles),
+  },
+  'ai-matic-bbo': { decide: (symbol, candles) => evaluateAiMaticBboStrategyForSymbol(symbol, candles) },
+  'ai-matic-pro': { decide: (symbol, candles) => evaluateAiMaticProStrategyForSymbol(symbol, candles) },
+});
+
+export const registerStrategy = (definition) => registry.register(definition);
+export const getStrategy = (value) => registry.get(value);
+export const resolveStrategy = (value) => registry.resolve(value);
+export const resolveStrategyId = (value, fallback) => registry.resolveId(value, fallback);
+export const listStrategies = () => registry.list();
@@ -0,0 +1,223 @@
+import type { AISettings } from "../types";
+import type { Profile } from "../api/types";
+import * as engine from "./strategyRegistryEngine.js";
+import {
+  evaluateStrategyForSymbol,
+  type BotConfig,
+  type Candle,
+  type EngineDecision,
+} from "./botEngine";
+import { evaluateAiMaticXStrategyForSymbol } from "./aiMaticXStrategy";
+import { evaluateAiMaticAmdStrategyForSymbol } from "./aiMaticAmdStrategy";
+import { evaluateAiMaticProStrategyForSymbol } from "./aiMaticProStrategy";
+import { evaluateAiMaticOliKellaStrategyForSymbol } from "./aiMaticOliKellaStrategy";
+import { evaluateAiMaticBboStrategyForSymbol } from "./aiMaticBboStrategy";
+import {
+  AI_MATIC_CORE_CHECKLIST_DEFAULTS,
+  AI_MATIC_CORE_GATE_NAMES,
+} from "../lib/aiMaticCoreProfile";
+import {
+  AI_MATIC_BBO_CHECKLIST_DEFAULTS,
+  AI_MATIC_BBO_GATE_NAMES,
+} from "../lib/aiMaticBboProfile";
+import {
+  OLIKELLA_CHECKLIST_DEFAULTS,
+  OLIKELLA_GATE_NAMES,
+} from "../lib/oliKellaProfile";
+
+export type StrategyId = AISettings["riskMode"];
+
+export type StrategyDecisionFn = (
+  symbol: string,
+  candles: Candle[],
+  botConfig?: Partial<BotConfig>
+) => EngineDecision;
+
+// Trailing stop activation/lock, in R (or ATR multiples when set).
+export type TrailProfile = {
+  activateR: number;
+  lockR: number;
+  retracementRate?: number;
+  activateAtrMult?: number;
+  lockAtrMult?: number;
+};
+
+export type StrategyManagement = {
+  trail: TrailProfile;
+};
+
+export type StrategyDefinition = {
+  id: StrategyId;
+  label: Profile;
+  /** Legacy ids that resolve to this profile. */
+  aliases: string[];
+  /** Candle resolutions (minutes) the decision resamples the feed to. */
+  timeframes: number[];
+  /** Decisions come from the shared TradingBot rather than a standalone evaluator. */
+  botEngine: boolean;
+  /** Candle history kept per symbol by the live aggregator. */
+  maxCandles: number;
+  decide: StrategyDecisionFn;
+  gateNames: string[];
+  checklistDefaults: Record<string, boolean>;
+  management: StrategyManagement;
+};
+
+export type StrategyDefinitionInput = Omit<
+  StrategyDefinition,
+  "aliases" | "botEngine" | "maxCandles" | "gateNames" | "checklistDefaults"
+> &
+  Partial<
+    Pick<
+      StrategyDefinition,
+      "aliases" | "botEngine" | "maxCandles" | "gateNames" | "checklistDefaults"
+    >
+  >;
+
+export const DEFAULT_STRATEGY_ID = engine.DEFAULT_STRATEGY_ID as StrategyId;
+
+const AI_MATIC_TRAIL_RETRACE_PCT_MIN = 0.005;
+const AI_MATIC_TRAIL_RETRACE_PCT_MAX = 0.008;
+const AI_MATIC_TRAIL_RETRACE_PCT =
+  (AI_MATIC_TRAIL_RETRACE_PCT_MIN + AI_MATIC_TRAIL_RETRACE_PCT_MAX) / 2;
+const AI_MATIC_TRAIL_ACTIVATE_ATR_MULT = 1.5;
+const AI_MATIC_TRAIL_RETRACE_ATR_MULT = 0.5;
+export const TREE_TRAIL_PCT_MIN = 0.006;
+export const TREE_TRAIL_K_ATR = 1.2;
+
+const TREE_TRAIL: TrailProfile = {
+  activateR: AI_MATIC_TRAIL_ACTIVATE_ATR_MULT,
+  lockR: AI_MATIC_TRAIL_RETRACE_ATR_MULT,
+  retracementRate: TREE_TRAIL_PCT_MIN,
+  activateAtrMult: TREE_TRAIL_K_ATR,
+  lockAtrMult: TREE_TRAIL_K_ATR,
+};
+
+export const CORE_V2_GATE_NAMES = [
+  "HTF bias",
+  "EMA200 trend",
+  "EMA200 breakout",
+  "EMA200 confirm",
+  "ATR% window",
+  "Volume Pxx",
+  "LTF pullback",
+  "Micro pivot",
+  "Micro break close",
+  "BBO fresh",
+  "BBO age",
+  "Trend strength",
+  "Maker entry",
+  "SL structural",
+];
+
+export const AMD_GATE_NAMES = [
+  "AMD: Phase sequence",
+  "AMD: Killzone active",
+  "AMD: Midnight open set",
+  "AMD: Asia range valid",
+  "AMD: Liquidity sweep",
+  "AMD: Inversion FVG confirm",
+  "AMD: Target model valid",
+];
+
+export const PRO_GATE_NAMES = [
+  "1H trend confirmed (SMA50 + swing sequence)",
+  "Fib proximity <= 1% (38.2/61.8)",
+  "5m swing near Fib <= 0.50%",
+  "5m trigger valid (engulfing/pin/breakout+vol)",
+  "Volatility gate ATR >= 0.8x 20d avg",
+  "RR gate >= 1.5",
+];
+
+function allEnabled(names: readonly string[]): Record<string, boolean> {
+  return Object.fromEntries(names.map((name) => [name, true]));
+}
+
+type StrategyRuntimeParts = Pick<
+  StrategyDefinition,
+  "decide" | "gateNames" | "checklistDefaults" | "management"
+>;
+
+const BUILTIN_PARTS: Record<StrategyId, StrategyRuntimeParts> = {
+  "ai-matic": {
+    decide: (symbol, candles, botConfig) =>
+      evaluateStrategyForSymbol(symbol, candles, {
+        ...botConfig,
+        strategyProfile: "ai-matic",
+      }),
+    gateNames: [...AI_MATIC_CORE_GATE_NAMES],
+    checklistDefaults: AI_MATIC_CORE_CHECKLIST_DEFAULTS,
+    management: { trail: TREE_TRAIL },
+  },
+  "ai-matic-x": {
+    decide: (symbol, candles) => evaluateAiMaticXStrategyForSymbol(symbol, candles),
+    gateNames: CORE_V2_GATE_NAMES,
+    checklistDefaults: allEnabled(CORE_V2_GATE_NAMES),
+    management: { trail: { activateR: 0.6, lockR: 0.3, retracementRate: 0.004 } },
+  },
+  "ai-matic-amd": {
+    decide: (symbol, candles) => evaluateAiMaticAmdStrategyForSymbol(symbol, candles),
+    gateNames: AMD_GATE_NAMES,
+    checklistDefaults: allEnabled(AMD_GATE_NAMES),
+    management: {
+      trail: { activateR: 1.0, lockR: 0.6, retracementRate: AI_MATIC_TRAIL_RETRACE_PCT },
+    },
+  },
+  "ai-matic-olikella": {
+    decide: (symbol, candles) =>
+      evaluateAiMaticOliKellaStrategyForSymbol(symbol, candles),
+    gateNames: [...OLIKELLA_GATE_NAMES],
+    checklistDefaults: OLIKELLA_CHECKLIST_DEFAULTS,
+    management: { trail: { activateR: 0.6, lockR: 0.3 } },
+  },
+  "ai-matic-bbo": {
+    decide: (symbol, candles) => evaluateAiMaticBboStrategyForSymbol(symbol, candles),
+    gateNames: [...AI_MATIC_BBO_GATE_NAMES],
+    checklistDefaults: AI_MATIC_BBO_CHECKLIST_DEFAULTS,
+    management: { trail: TREE_TRAIL },
+  },
+  "ai-matic-tree": {
+    decide: (symbol, candles, botConfig) =>
+      evaluateStrategyForSymbol(symbol, candles, {
+        ...botConfig,
+        strategyProfile: "ai-matic-tree",
+      }),
+    gateNames: CORE_V2_GATE_NAMES,
+    checklistDefaults: allEnabled(CORE_V2_GATE_NAMES),
+    management: { trail: TREE_TRAIL },
+  },
+  "ai-matic-pro": {
+    decide: (symbol, candles) => evaluateAiMaticProStrategyForSymbol(symbol, candles),
+    gateNames: PRO_GATE_NAMES,
+    checklistDefaults: allEnabled(PRO_GATE_NAMES),
+    management: { trail: { activateR: 0.6, lockR: 0.3, retracementRate: 0.004 } },
+  },
+};
+
+const registry = engine.registerCatalog(engine.createStrategyRegistry(), BUILTIN_PARTS);
+
+/** Adds (or replaces) a profile; the id must also be a `riskMode` value. */
+export function registerStrategy(definition: StrategyDefinitionInput): StrategyDefinition {
+  return registry.register(definition) as StrategyDefinition;
+}
+
+/** Definition for an id or legacy alias, or null when unknown. */
+export function getStrategy(value: unknown): StrategyDefinition | null {
+  return registry.get(value) as StrategyDefinition | null;
+}
+
+/** Like getStrategy, falling back to the default profile. */
+export function resolveStrategy(value: unknown): StrategyDefinition {
+  return registry.resolve(value) as StrategyDefinition;
+}
+
+export function resolveStrategyId(
+  value: unknown,
+  fallback: StrategyId = DEFAULT_STRATEGY_ID
+): StrategyId {
+  return registry.resolveId(value, fallback) as StrategyId;
+}
+
+export function listStrategies(): StrategyDefinition[] {
+  return registry.list() as StrategyDefinition[];
+}
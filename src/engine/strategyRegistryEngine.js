@@ -0,0 +1,116 @@
+// Strategy profile registry. A profile (the `riskMode` setting) is one
+// definition: id, label, the candle timeframes its decision reads, the
+// decision function and, on the client, gate names, checklist defaults and
+// in-trade management. STRATEGY_CATALOG is the runtime-neutral part; the
+// client/backtest registry (strategyRegistry.ts) and the server registry
+// (strategyRegistry.js) bind their own build of the decision functions to it.
+
+export const DEFAULT_STRATEGY_ID = 'ai-matic';
+export const DEFAULT_MAX_CANDLES = 5000;
+
+// timeframes: candle resolutions (minutes) the decision resamples the feed to.
+// botEngine: decisions come from the shared TradingBot (evaluateStrategyForSymbol)
+// instead of a standalone evaluator.
+export const STRATEGY_CATALOG = [
+  { id: 'ai-matic', label: 'AI-MATIC', timeframes: [5, 60], botEngine: true },
+  { id: 'ai-matic-x', label: 'AI-MATIC-X', timeframes: [5, 60] },
+  { id: 'ai-matic-amd', label: 'AI-MATIC-AMD', timeframes: [1, 5, 15, 60] },
+  {
+    id: 'ai-matic-olikella',
+    label: 'AI-MATIC-OLIkella',
+    aliases: ['ai-matic-scalp'],
+    timeframes: [15, 240],
+    maxCandles: 2500,
+  },
+  { id: 'ai-matic-bbo', label: 'AI-MATIC-BBO', timeframes: [5, 60] },
+  { id: 'ai-matic-tree', label: 'AI-MATIC-TREE', timeframes: [5, 60], botEngine: true },
+  { id: 'ai-matic-pro', label: 'AI-MATIC-PRO', timeframes: [5, 60] },
+];
+
+function normalizeKey(value) {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+/** Built-in profile id for an id or legacy alias (no registry needed). */
+export function resolveCatalogId(value, fallback = DEFAULT_STRATEGY_ID) {
+  const key = normalizeKey(value);
+  const entry = STRATEGY_CATALOG.find((item) => item.id === key || item.aliases?.includes(key));
+  return entry ? entry.id : fallback;
+}
+
+function normalizeDefinition(definition) {
+  const id = normalizeKey(definition?.id);
+  if (!id) throw new Error('strategy_invalid_id');
+  if (typeof definition.decide !== 'function') {
+    throw new Error(`strategy_missing_decide:${id}`);
+  }
+  const timeframes = (definition.timeframes ?? [])
+    .map(Number)
+    .filter((tf) => Number.isFinite(tf) && tf > 0)
+    .sort((a, b) => a - b);
+  if (!timeframes.length) throw new Error(`strategy_missing_timeframes:${id}`);
+  return Object.freeze({
+    ...definition,
+    id,
+    label: String(definition.label ?? id.toUpperCase()),
+    aliases: (definition.aliases ?? []).map(normalizeKey).filter(Boolean),
+    timeframes,
+    botEngine: Boolean(definition.botEngine),
+    maxCandles: Number(definition.maxCandles) > 0 ? Number(definition.maxCandles) : DEFAULT_MAX_CANDLES,
+    gateNames: [...(definition.gateNames ?? [])],
+    checklistDefaults: { ...definition.checklistDefaults },
+    management: { ...definition.management },
+  });
+}
+
+/**
+ * Registers definitions by id (registering an id again replaces it). Lookups
+ * are case-insensitive and follow aliases (legacy ids); `resolve` falls back
+ * to `fallbackId` for unknown values.
+ */
+export function createStrategyRegistry({ fallbackId = DEFAULT_STRATEGY_ID } = {}) {
+  const byId = new Map();
+  const aliasToId = new Map();
+
+  const get = (value) => {
+    const key = normalizeKey(value);
+    return byId.get(key) ?? byId.get(aliasToId.get(key)) ?? null;
+  };
+
+  return {
+    register(definition) {
+      const entry = normalizeDefinition(definition);
+      const clash = entry.aliases.find((alias) => byId.has(alias)) ?? (aliasToId.has(entry.id) ? entry.id : null);
+      if (clash) throw new Error(`strategy_alias_conflict:${clash}`);
+      const previous = byId.get(entry.id);
+      for (const alias of previous?.aliases ?? []) aliasToId.delete(alias);
+      byId.set(entry.id, entry);
+      for (const alias of entry.aliases) aliasToId.set(alias, entry.id);
+      return entry;
+    },
+    get,
+    resolve(value) {
+      return get(value) ?? byId.get(fallbackId) ?? null;
+    },
+    resolveId(value, fallback = fallbackId) {
+      return get(value)?.id ?? fallback;
+    },
+    has(value) {
+      return get(value) != null;
+    },
+    list() {
+      return [...byId.values()];
+    },
+    ids() {
+      return [...byId.keys()];
+    },
+  };
+}
+
+/** Registers the catalog with the runtime's decision function (and extras) per id. */
+export function registerCatalog(registry, partsById) {
+  for (const entry of STRATEGY_CATALOG) {
+    registry.register({ ...entry, ...partsById[entry.id] });
+  }
+  return registry;
+}
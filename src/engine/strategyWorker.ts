@@ -0,0 +1,172 @@
+// src/engine/strategyWorker.ts
+// Vyhodnocení strategií mimo React vlákno: price feed, orderflow stav
+// a volání decide() běží ve Web Workeru (strategy.worker.ts), hook dostává
+// jen hotová rozhodnutí přes typovaný protokol zpráv níže.
+
+import type { BotConfig } from "./botEngine";
+import type { ExchangeId } from "./exchangeStreams";
+import {
+  getFeedConnections,
+  subscribeFeedConnections,
+  type FeedConnectionState,
+} from "./feedConnection";
+import { startPriceFeed, type PriceFeedDecision } from "./priceFeed";
+import { resolveStrategy, type StrategyId } from "./strategyRegistry";
+
+// ---------------------------------------------------------------------------
+// Protokol
+// ---------------------------------------------------------------------------
+
+export type StrategyWorkerFeed = {
+  symbols: string[];
+  riskMode: StrategyId;
+  useTestnet?: boolean;
+  exchange?: ExchangeId;
+  configOverrides?: Partial<BotConfig>;
+};
+
+/** Zprávy hook → worker. */
+export type StrategyWorkerRequest =
+  /** Spustí (nebo restartuje) feed pro dané symboly a profil. */
+  | { type: "start"; feed: StrategyWorkerFeed }
+  /** Změna BotConfig bez restartu feedu. */
+  | { type: "config"; configOverrides: Partial<BotConfig> }
+  | { type: "stop" };
+
+/** Zprávy worker → hook. */
+export type StrategyWorkerEvent =
+  | {
+      type: "decision";
+      symbol: string;
+      decision: PriceFeedDecision;
+      /** Doba vyhodnocení strategie pro tuto svíčku. */
+      evalMs: number;
+      ts: number;
+    }
+  | { type: "feed"; connections: FeedConnectionState[] }
+  | { type: "error"; symbol: string | null; message: string }
+  | { type: "stopped" };
+
+// ---------------------------------------------------------------------------
+// Runtime (běží ve workeru, bez workeru přímo ve vlákně)
+// ---------------------------------------------------------------------------
+
+export type StrategyWorkerRuntimeOptions = {
+  startFeed?: typeof startPriceFeed;
+  /** Hodiny pro měření latence (ms, monotónní). */
+  clock?: () => number;
+  /** Posílá stavy WS spojení; ve vlákně je okno vidí samo. */
+  reportFeed?: boolean;
+};
+
+export type StrategyWorkerRuntime = {
+  handle: (request: StrategyWorkerRequest) => void;
+};
+
+const FEED_TIMEFRAME = "5";
+const FEED_TIMEFRAME_MIN = 5;
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err ?? "unknown_error");
+}
+
+export function createStrategyWorkerRuntime(
+  post: (event: StrategyWorkerEvent) => void,
+  opts: StrategyWorkerRuntimeOptions = {}
+): StrategyWorkerRuntime {
+  const startFeed = opts.startFeed ?? startPriceFeed;
+  const clock =
+    opts.clock ?? (typeof performance !== "undefined" ? () => performance.now() : Date.now);
+  let stopFeed: (() => void) | null = null;
+  let stopReporting: (() => void) | null = null;
+  let overrides: Partial<BotConfig> = {};
+  const evalMsBySymbol = new Map<string, number>();
+
+  const send = (event: StrategyWorkerEvent) => {
+    try {
+      post(event);
+    } catch (err) {
+      // Např. rozhodnutí, které nejde strukturovaně klonovat.
+      if (event.type !== "error") {
+        post({
+          type: "error",
+          symbol: event.type === "decision" ? event.symbol : null,
+          message: errorText(err),
+        });
+      }
+    }
+  };
+
+  const stop = () => {
+    stopFeed?.();
+    stopFeed = null;
+    stopReporting?.();
+    stopReporting = null;
+    evalMsBySymbol.clear();
+  };
+
+  const start = (feed: StrategyWorkerFeed) => {
+    stop();
+    const strategy = resolveStrategy(feed.riskMode);
+    overrides = feed.configOverrides ?? {};
+    if (opts.reportFeed) {
+      stopReporting = subscribeFeedConnections((connections) =>
+        send({ type: "feed", connections })
+      );
+    }
+    stopFeed = startFeed(
+      feed.symbols,
+      (symbol, decision) =>
+        send({
+          type: "decision",
+          symbol,
+          decision,
+          evalMs: evalMsBySymbol.get(symbol) ?? 0,
+          ts: Date.now(),
+        }),
+      {
+        useTestnet: feed.useTestnet,
+        exchange: feed.exchange,
+        timeframe: FEED_TIMEFRAME,
+        configOverrides: () => overrides,
+        decisionFn: (symbol, candles, config) => {
+          const startedAt = clock();
+          try {
+            return strategy.decide(symbol, candles, config);
+          } catch (err) {
+            send({ type: "error", symbol, message: errorText(err) });
+            throw err;
+          } finally {
+            evalMsBySymbol.set(symbol, clock() - startedAt);
+          }
+        },
+        maxCandles: strategy.maxCandles,
+        backfill: {
+          enabled: true,
+          interval: FEED_TIMEFRAME,
+          lookbackMinutes: strategy.maxCandles * FEED_TIMEFRAME_MIN,
+          limit: 1000,
+        },
+        orderflow: strategy.id === "ai-matic-pro" ? { enabled: true, depth: 50 } : undefined,
+      }
+    );
+    if (opts.reportFeed) send({ type: "feed", connections: getFeedConnections() });
+  };
+
+  return {
+    handle(request) {
+      try {
+        if (request.type === "start") {
+          start(request.feed);
+        } else if (request.type === "config") {
+          overrides = request.configOverrides;
+        } else if (request.type === "stop") {
+          stop();
+          send({ type: "stopped" });
+        }
+      } catch (err) {
+        send({ type: "error", symbol: null, message: errorText(err) });
+      }
+    },
+  };
+}
@@ -0,0 +1,152 @@
+// src/engine/strategyWorkerClient.ts
+// Strana hooku pro strategyWorker: spustí Web Worker (nebo runtime ve vlákně,
+// kde Worker není), předává rozhodnutí a vede latenci vyhodnocení per symbol.
+
+import type { BotConfig } from "./botEngine";
+import { mirrorFeedConnections } from "./feedConnection";
+import type { PriceFeedDecision } from "./priceFeed";
+import {
+  createStrategyWorkerRuntime,
+  type StrategyWorkerEvent,
+  type StrategyWorkerFeed,
+  type StrategyWorkerRequest,
+  type StrategyWorkerRuntimeOptions,
+} from "./strategyWorker";
+
+// Váha nového vzorku v klouzavém průměru latence.
+const LATENCY_EWMA_ALPHA = 0.2;
+const FEED_MIRROR_SOURCE = "strategy-worker";
+
+export type EvaluationLatency = {
+  lastMs: number;
+  /** Exponenciální klouzavý průměr. */
+  avgMs: number;
+  maxMs: number;
+  count: number;
+  updatedAt: number;
+};
+
+/** Podmnožina Worker API, kterou klient používá (testy ji podvrhnou). */
+export type StrategyWorkerHandle = {
+  postMessage: (request: StrategyWorkerRequest) => void;
+  onmessage: ((event: { data: StrategyWorkerEvent }) => void) | null;
+  onerror?: ((event: { message?: string }) => void) | null;
+  terminate: () => void;
+};
+
+export type StrategyWorkerClientOptions = {
+  onDecision: (symbol: string, decision: PriceFeedDecision, evalMs: number) => void;
+  onError?: (message: string, symbol: string | null) => void;
+  /** Výchozí je strategy.worker.ts; null vynutí běh ve vlákně. */
+  createWorker?: (() => StrategyWorkerHandle) | null;
+  /** Nastavení runtime při běhu ve vlákně. */
+  runtime?: StrategyWorkerRuntimeOptions;
+};
+
+export type StrategyWorkerClient = {
+  /** Worker není k dispozici a strategie běží v tomto vlákně. */
+  inThread: boolean;
+  start: (feed: StrategyWorkerFeed) => void;
+  updateConfig: (configOverrides: Partial<BotConfig>) => void;
+  stop: () => void;
+  latency: () => Record<string, EvaluationLatency>;
+  terminate: () => void;
+};
+
+export function recordEvaluationLatency(
+  prev: EvaluationLatency | undefined,
+  evalMs: number,
+  ts: number
+): EvaluationLatency {
+  if (!prev) {
+    return { lastMs: evalMs, avgMs: evalMs, maxMs: evalMs, count: 1, updatedAt: ts };
+  }
+  return {
+    lastMs: evalMs,
+    avgMs: prev.avgMs + LATENCY_EWMA_ALPHA * (evalMs - prev.avgMs),
+    maxMs: Math.max(prev.maxMs, evalMs),
+    count: prev.count + 1,
+    updatedAt: ts,
+  };
+}
+
+function defaultWorkerFactory(): (() => StrategyWorkerHandle) | null {
+  if (typeof Worker === "undefined") return null;
+  return () =>
+    new Worker(new URL("./strategy.worker.ts", import.meta.url), {
+      type: "module",
+    }) as unknown as StrategyWorkerHandle;
+}
+
+export function createStrategyWorkerClient(
+  opts: StrategyWorkerClientOptions
+): StrategyWorkerClient {
+  const latencyBySymbol = new Map<string, EvaluationLatency>();
+
+  const handleEvent = (event: StrategyWorkerEvent) => {
+    if (event.type === "decision") {
+      latencyBySymbol.set(
+        event.symbol,
+        recordEvaluationLatency(latencyBySymbol.get(event.symbol), event.evalMs, event.ts)
+      );
+      opts.onDecision(event.symbol, event.decision, event.evalMs);
+    } else if (event.type === "feed") {
+      mirrorFeedConnections(FEED_MIRROR_SOURCE, event.connections);
+    } else if (event.type === "error") {
+      opts.onError?.(event.message, event.symbol);
+    }
+  };
+
+  const factory = opts.createWorker === undefined ? defaultWorkerFactory() : opts.createWorker;
+  let worker: StrategyWorkerHandle | null = null;
+  if (factory) {
+    try {
+      worker = factory();
+    } catch (err) {
+      // CSP nebo prostředí bez module workerů – pojedeme ve vlákně.
+      opts.onError?.(err instanceof Error ? err.message : String(err), null);
+    }
+  }
+
+  let send: (request: StrategyWorkerRequest) => void;
+  if (worker) {
+    const active = worker;
+    active.onmessage = (event) => handleEvent(event.data);
+    active.onerror = (event) => opts.onError?.(event.message ?? "strategy_worker_error", null);
+    send = (request) => active.postMessage(request);
+  } else {
+    const runtime = createStrategyWorkerRuntime(handleEvent, opts.runtime);
+    send = (request) => runtime.handle(request);
+  }
+
+  let terminated = false;
+  return {
+    inThread: !worker,
+    start(feed) {
+      if (terminated) return;
+      latencyBySymbol.clear();
+      send({ type: "start", feed });
+    },
+    updateConfig(configOverrides) {
+      if (terminated) return;
+      send({ type: "config", configOverrides });
+    },
+    stop() {
+      if (terminated) return;
+      send({ type: "stop" });
+    },
+    latency() {
+      return Object.fromEntries(latencyBySymbol);
+    },
+    terminate() {
+      if (terminated) return;
+      terminated = true;
+      if (worker) {
+        worker.terminate();
+        mirrorFeedConnections(FEED_MIRROR_SOURCE, []);
+      } else {
+        send({ type: "stop" });
+      }
+    },
+  };
+}
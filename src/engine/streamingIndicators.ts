@@ -0,0 +1,88 @@
+// src/engine/streamingIndicators.ts
+// Typovaný obal nad streamingIndicatorsEngine.js: inkrementální indikátory
+// (O(1) na svíčku) a resampler, který při každém ticku zpracuje jen změny
+// bufferu místo přepočtu celé historie.
+
+import type { Candle } from "./botEngine";
+import type { BollingerPoint, MacdPoint, Ohlcv, Pivot } from "./ta";
+import * as engine from "./streamingIndicatorsEngine.js";
+
+export type IndicatorStream<In, Out> = {
+  /** Přidá novou svíčku. */
+  update: (input: In) => Out;
+  /** Nahradí poslední svíčku (tvořící se bar). */
+  revise: (input: In) => Out;
+  value: () => Out;
+};
+
+export type IndicatorSpec =
+  | { type: "ema" | "atr" | "rsi" | "adx"; period: number }
+  | { type: "bollinger"; period: number; mult?: number }
+  | { type: "macd"; fast?: number; slow?: number; signal?: number };
+
+export type IndicatorValue<S extends IndicatorSpec> = S extends { type: "bollinger" }
+  ? BollingerPoint
+  : S extends { type: "macd" }
+    ? MacdPoint
+    : number;
+
+export type ResampleChange = {
+  /** Historie se změnila a resampler se přestavěl. */
+  reset: boolean;
+  appended: number;
+  /** Poslední dřívější bar se změnil. */
+  revised: boolean;
+  trimmed: number;
+};
+
+export type CandleResampler = {
+  sync: (candles: Candle[]) => ResampleChange;
+  reset: () => void;
+  /** Aktuální bary (živé pole, jen pro čtení). */
+  candles: () => Candle[];
+};
+
+export type TimeframeStream = {
+  sync: (candles: Candle[]) => TimeframeStream;
+  candles: () => Candle[];
+  /** Hodnoty zarovnané s candles(); indikátor se registruje při prvním dotazu. */
+  series: <S extends IndicatorSpec>(spec: S) => IndicatorValue<S>[];
+  pivots: (left: number, right: number) => { highs: Pivot[]; lows: Pivot[] };
+  reset: () => void;
+};
+
+export type SymbolStreams = {
+  frame: (targetMinutes: number) => TimeframeStream;
+  sync: (candles: Candle[], targetMinutes: number) => TimeframeStream;
+};
+
+export const createEmaStream = (period: number): IndicatorStream<number, number> =>
+  engine.createEmaStream(period);
+
+export const createAtrStream = (period: number): IndicatorStream<Ohlcv, number> =>
+  engine.createAtrStream(period);
+
+export const createRsiStream = (period: number): IndicatorStream<number, number> =>
+  engine.createRsiStream(period);
+
+export const createAdxStream = (period: number): IndicatorStream<Ohlcv, number> =>
+  engine.createAdxStream(period);
+
+export const createBollingerStream = (
+  period: number,
+  mult = 2
+): IndicatorStream<number, BollingerPoint> => engine.createBollingerStream(period, mult);
+
+export const createMacdStream = (
+  fast?: number,
+  slow?: number,
+  signal?: number
+): IndicatorStream<number, MacdPoint> => engine.createMacdStream(fast, slow, signal);
+
+export const createResampler = (targetMinutes: number): CandleResampler =>
+  engine.createResampler(targetMinutes);
+
+export const createTimeframeStream = (targetMinutes: number): TimeframeStream =>
+  engine.createTimeframeStream(targetMinutes);
+
+export const createSymbolStreams = (): SymbolStreams => engine.createSymbolStreams();
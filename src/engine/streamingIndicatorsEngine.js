@@ -0,0 +1,573 @@
+// Incremental indicators and multi-timeframe resampling. Every indicator
+// keeps O(1) state: `update(input)` appends a bar, `revise(input)` replaces
+// the last one (the forming bar ticking), both return the current value. The
+// arithmetic mirrors the batch functions in ta.ts step by step, so a stream
+// fed the same bars yields the same numbers.
+//
+// A timeframe stream resamples base candles into one timeframe and feeds its
+// bars to the indicators registered on it. `sync(candles)` takes the whole
+// base buffer but only processes what changed since the last call: new or
+// updated tail candles and candles dropped from the head. Indicator values
+// are not re-seeded when old bars leave the window (the batch functions
+// would start over from the first bar of the window).
+
+function emaDef(period) {
+  const k = 2 / (period + 1);
+  return {
+    init: { n: 0, value: Number.NaN },
+    step: (s, x) => ({ n: s.n + 1, value: s.n === 0 ? x : x * k + s.value * (1 - k) }),
+    read: (s) => s.value,
+  };
+}
+
+function trueRange(bar, prevClose) {
+  const hl = bar.high - bar.low;
+  if (prevClose === undefined) return hl;
+  return Math.max(hl, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+}
+
+// Wilder ATR seeded with the first true range (computeAtr / computeATR).
+function atrDef(period) {
+  return {
+    init: { n: 0, value: Number.NaN, close: undefined },
+    step: (s, bar) => {
+      const tr = trueRange(bar, s.close);
+      const value = s.n === 0 ? tr : (s.value * (period - 1) + tr) / period;
+      return { n: s.n + 1, value, close: bar.close };
+    },
+    read: (s) => s.value,
+  };
+}
+
+// RSI with an SMA seed over the first `period` changes (computeRsi).
+function rsiDef(period) {
+  const rsi = (avgGain, avgLoss) => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  return {
+    init: { n: 0, last: Number.NaN, gain: 0, loss: 0, avgGain: 0, avgLoss: 0, value: Number.NaN },
+    step: (s, x) => {
+      const next = { ...s, n: s.n + 1, last: x };
+      if (s.n === 0) return next;
+      const diff = x - s.last;
+      const i = s.n;
+      if (i <= period) {
+        if (diff >= 0) next.gain = s.gain + diff;
+        else next.loss = s.loss - diff;
+        if (i === period) {
+          next.avgGain = next.gain / period;
+          next.avgLoss = next.loss / period;
+          next.value = rsi(next.avgGain, next.avgLoss);
+        }
+        return next;
+      }
+      const up = diff > 0 ? diff : 0;
+      const down = diff < 0 ? -diff : 0;
+      next.avgGain = (s.avgGain * (period - 1) + up) / period;
+      next.avgLoss = (s.avgLoss * (period - 1) + down) / period;
+      next.value = rsi(next.avgGain, next.avgLoss);
+      return next;
+    },
+    read: (s) => s.value,
+  };
+}
+
+// computeADX including its quirks: DM smoothing seeded with the first move,
+// DX of bar t divided by the smoothed TR of bar t, ADX seeded with the mean
+// of DX 1..period and the result shifted right by `period` bars (zeros first).
+function adxDef(period) {
+  return {
+    init: {
+      n: 0,
+      high: 0,
+      low: 0,
+      close: 0,
+      sTr: 0,
+      sPlus: 0,
+      sMinus: 0,
+      dxSum: 0,
+      adx: 0,
+      delayed: [],
+    },
+    step: (s, bar) => {
+      if (s.n === 0) {
+        return { ...s, n: 1, high: bar.high, low: bar.low, close: bar.close, sTr: trueRange(bar) };
+      }
+      const j = s.n - 1;
+      const sTr = (s.sTr * (period - 1) + trueRange(bar, s.close)) / period;
+      const upMove = bar.high - s.high;
+      const downMove = s.low - bar.low;
+      const plusDm = upMove > downMove && upMove > 0 ? upMove : 0;
+      const minusDm = downMove > upMove && downMove > 0 ? downMove : 0;
+      const sPlus = j === 0 ? plusDm : (s.sPlus * (period - 1) + plusDm) / period;
+      const sMinus = j === 0 ? minusDm : (s.sMinus * (period - 1) + minusDm) / period;
+      const trVal = sTr || s.sTr;
+      const pdi = (sPlus / trVal) * 100;
+      const mdi = (sMinus / trVal) * 100;
+      const dx = ((Math.abs(pdi - mdi) / (pdi + mdi || 1)) || 0) * 100;
+      const dxSum = j >= 1 && j <= period ? s.dxSum + dx : s.dxSum;
+      let adx = 0;
+      if (j === period) adx = dxSum / period;
+      else if (j > period) adx = (s.adx * (period - 1) + dx) / period;
+      const delayed = [...s.delayed, adx];
+      if (delayed.length > period) delayed.shift();
+      return {
+        n: s.n + 1,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        sTr,
+        sPlus,
+        sMinus,
+        dxSum,
+        adx,
+        delayed,
+      };
+    },
+    // Bar t shows the ADX computed `period` bars later in the batch output.
+    read: (s) => (s.n > period ? s.delayed[0] : 0),
+  };
+}
+
+function macdDef(fast, slow, signal) {
+  const fastDef = emaDef(fast);
+  const slowDef = emaDef(slow);
+  const signalDef = emaDef(signal);
+  return {
+    init: { fast: fastDef.init, slow: slowDef.init, signal: signalDef.init },
+    step: (s, x) => {
+      const f = fastDef.step(s.fast, x);
+      const sl = slowDef.step(s.slow, x);
+      const sig = signalDef.step(s.signal, f.value - sl.value);
+      return { fast: f, slow: sl, signal: sig };
+    },
+    read: (s) => {
+      const macd = s.fast.value - s.slow.value;
+      return { macd, signal: s.signal.value, histogram: macd - s.signal.value };
+    },
+  };
+}
+
+function createStateStream(def) {
+  let before = def.init;
+  let state = def.init;
+  return {
+    update(input) {
+      before = state;
+      state = def.step(state, input);
+      return def.read(state);
+    },
+    revise(input) {
+      state = def.step(before, input);
+      return def.read(state);
+    },
+    value: () => def.read(state),
+  };
+}
+
+// Rolling mean and population deviation over `period` values; the sums are
+// recomputed from the window once per `period` updates to stop drift.
+function createBollingerStream(period, mult) {
+  const window = [];
+  let sum = 0;
+  let sumSq = 0;
+  let sinceRebase = 0;
+  const empty = { middle: Number.NaN, upper: Number.NaN, lower: Number.NaN };
+  const read = () => {
+    if (window.length < period) return empty;
+    const middle = sum / period;
+    const variance = Math.max(0, sumSq / period - middle * middle);
+    const dev = mult * Math.sqrt(variance);
+    return { middle, upper: middle + dev, lower: middle - dev };
+  };
+  const rebase = () => {
+    sum = 0;
+    sumSq = 0;
+    for (const v of window) {
+      sum += v;
+      sumSq += v * v;
+    }
+    sinceRebase = 0;
+  };
+  function update(x) {
+    window.push(x);
+    sum += x;
+    sumSq += x * x;
+    if (window.length > period) {
+      const out = window.shift();
+      sum -= out;
+      sumSq -= out * out;
+    }
+    sinceRebase += 1;
+    if (sinceRebase >= period) rebase();
+    return read();
+  }
+  return {
+    update,
+    revise(x) {
+      const last = window[window.length - 1];
+      if (last === undefined) return update(x);
+      window[window.length - 1] = x;
+      sum += x - last;
+      sumSq += x * x - last * last;
+      return read();
+    },
+    value: read,
+  };
+}
+
+export function createEmaStream(period) {
+  return createStateStream(emaDef(period));
+}
+
+export function createAtrStream(period) {
+  return createStateStream(atrDef(period));
+}
+
+export function createRsiStream(period) {
+  return createStateStream(rsiDef(period));
+}
+
+export function createAdxStream(period) {
+  return createStateStream(adxDef(period));
+}
+
+export function createMacdStream(fast = 12, slow = 26, signal = 9) {
+  return createStateStream(macdDef(fast, slow, signal));
+}
+
+export { createBollingerStream };
+
+function indicatorKey(spec) {
+  switch (spec.type) {
+    case 'ema':
+    case 'atr':
+    case 'rsi':
+    case 'adx':
+      return `${spec.type}:${spec.period}`;
+    case 'bollinger':
+      return `bollinger:${spec.period}:${spec.mult ?? 2}`;
+    case 'macd':
+      return `macd:${spec.fast ?? 12}:${spec.slow ?? 26}:${spec.signal ?? 9}`;
+    default:
+      throw new Error(`unknown_indicator:${spec?.type}`);
+  }
+}
+
+// Closes feed ema/rsi/bollinger/macd, whole bars feed atr/adx.
+function createIndicator(spec) {
+  switch (spec.type) {
+    case 'ema':
+      return { stream: createEmaStream(spec.period), input: (bar) => bar.close };
+    case 'atr':
+      return { stream: createAtrStream(spec.period), input: (bar) => bar };
+    case 'rsi':
+      return { stream: createRsiStream(spec.period), input: (bar) => bar.close };
+    case 'adx':
+      return { stream: createAdxStream(spec.period), input: (bar) => bar };
+    case 'bollinger':
+      return { stream: createBollingerStream(spec.period, spec.mult ?? 2), input: (bar) => bar.close };
+    case 'macd':
+      return {
+        stream: createMacdStream(spec.fast ?? 12, spec.slow ?? 26, spec.signal ?? 9),
+        input: (bar) => bar.close,
+      };
+    default:
+      throw new Error(`unknown_indicator:${spec?.type}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resampling
+// ---------------------------------------------------------------------------
+
+// Same aggregation (and summation order) as resampleCandles.
+function aggregate(bucketStart, subs) {
+  let high = -Infinity;
+  let low = Infinity;
+  for (const x of subs) {
+    if (x.high > high) high = x.high;
+    if (x.low < low) low = x.low;
+  }
+  const volume = subs.reduce((s, x) => s + x.volume, 0);
+  return {
+    openTime: bucketStart,
+    open: subs[0].open,
+    high,
+    low,
+    close: subs[subs.length - 1].close,
+    volume,
+  };
+}
+
+/**
+ * Resamples base candles into `targetMinutes` bars. `sync(candles)` matches
+ * resampleCandles(candles, targetMinutes) and reports what changed:
+ * `appended`/`revised` bars at the tail, `trimmed` bars dropped from the
+ * head and `reset` when the history was rewritten and rebuilt.
+ */
+export function createResampler(targetMinutes) {
+  const ms = targetMinutes * 60 * 1000;
+  const bucketOf = (openTime) => Math.floor(openTime / ms) * ms;
+  let bars = [];
+  // Base candles per bar; the forming (last) bar keeps its candles for revisions.
+  let counts = [];
+  let formingSubs = [];
+  let baseCount = 0;
+  let headOpen = Number.NaN;
+  let lastOpen = Number.NaN;
+
+  function clear() {
+    bars = [];
+    counts = [];
+    formingSubs = [];
+    baseCount = 0;
+    headOpen = Number.NaN;
+    lastOpen = Number.NaN;
+  }
+
+  // Adds one candle newer than or equal to the last one; returns "append" or "revise".
+  function push(candle) {
+    const bucket = bucketOf(candle.openTime);
+    if (bars.length && bucket === bars[bars.length - 1].openTime) {
+      if (candle.openTime === lastOpen) {
+        formingSubs[formingSubs.length - 1] = candle;
+      } else {
+        formingSubs.push(candle);
+        counts[counts.length - 1] += 1;
+        baseCount += 1;
+      }
+      bars[bars.length - 1] = aggregate(bucket, formingSubs);
+      lastOpen = candle.openTime;
+      return 'revise';
+    }
+    formingSubs = [candle];
+    bars.push(aggregate(bucket, formingSubs));
+    counts.push(1);
+    baseCount += 1;
+    if (!Number.isFinite(headOpen)) headOpen = candle.openTime;
+    lastOpen = candle.openTime;
+    return 'append';
+  }
+
+  function rebuild(candles) {
+    clear();
+    const sorted = [...candles].sort((a, b) => a.openTime - b.openTime);
+    for (const candle of sorted) push(candle);
+    return { reset: true, appended: 0, revised: false, trimmed: 0 };
+  }
+
+  function sync(candles) {
+    if (!candles.length) {
+      const hadBars = bars.length > 0;
+      clear();
+      return { reset: hadBars, appended: 0, revised: false, trimmed: 0 };
+    }
+    if (!bars.length) return rebuild(candles);
+    const first = candles[0].openTime;
+    const last = candles[candles.length - 1].openTime;
+    if (first < headOpen || last < lastOpen) return rebuild(candles);
+
+    // Tail: candles from the last seen one on; `seen` candles were synced before.
+    let from = candles.length - 1;
+    while (from > 0 && candles[from - 1].openTime >= lastOpen) from -= 1;
+    if (candles[from].openTime !== lastOpen && from > 0) return rebuild(candles);
+    const seen = candles[from].openTime === lastOpen ? from + 1 : from;
+
+    // Head: drop bars that left the window, re-aggregate a partial first bar.
+    let trimmed = 0;
+    if (first > headOpen) {
+      const firstBucket = bucketOf(first);
+      let dropped = 0;
+      while (trimmed < bars.length && bars[trimmed].openTime < firstBucket) {
+        dropped += counts[trimmed];
+        trimmed += 1;
+      }
+      if (trimmed === bars.length) return rebuild(candles);
+      bars.splice(0, trimmed);
+      counts.splice(0, trimmed);
+      baseCount -= dropped;
+      let n = 0;
+      while (n < seen && bucketOf(candles[n].openTime) === firstBucket) n += 1;
+      if (bars.length > 1) {
+        baseCount += n - counts[0];
+        counts[0] = n;
+        bars[0] = aggregate(firstBucket, candles.slice(0, n));
+      } else {
+        // The forming bar is also the first one.
+        const kept = formingSubs.filter((c) => c.openTime >= first);
+        baseCount += kept.length - counts[0];
+        counts[0] = kept.length;
+        formingSubs = kept;
+        if (!kept.length) return rebuild(candles);
+        bars[0] = aggregate(firstBucket, kept);
+      }
+      headOpen = first;
+    }
+
+    // The history before the tail must be unchanged (same number of candles).
+    if (seen !== baseCount) return rebuild(candles);
+
+    let appended = 0;
+    let revised = false;
+    for (let i = from; i < candles.length; i += 1) {
+      if (push(candles[i]) === 'append') appended += 1;
+      else if (appended === 0) revised = true;
+    }
+    return { reset: false, appended, revised, trimmed };
+  }
+
+  return {
+    sync,
+    reset: clear,
+    /** Resampled bars (live array: read-only, changes on the next sync). */
+    candles: () => bars,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Timeframe streams
+// ---------------------------------------------------------------------------
+
+function isPivot(bars, i, left, right, field, better) {
+  if (i - left < 0 || i + right >= bars.length) return false;
+  const v = bars[i][field];
+  for (let j = 1; j <= left; j++) if (!better(v, bars[i - j][field])) return false;
+  for (let j = 1; j <= right; j++) if (!better(v, bars[i + j][field])) return false;
+  return true;
+}
+
+/**
+ * Resampler plus the indicators registered on it. `series(spec)` and
+ * `pivots(left, right)` register on first use (replaying the current window
+ * once) and afterwards advance with every sync; values are aligned with
+ * `candles()`.
+ */
+export function createTimeframeStream(targetMinutes) {
+  const resampler = createResampler(targetMinutes);
+  const indicators = new Map();
+  const pivotTrackers = new Map();
+  // Absolute index of candles()[0]; pivots keep absolute indexes.
+  let offset = 0;
+
+  const higher = (a, b) => a > b;
+  const lower = (a, b) => a < b;
+
+  function replay(indicator) {
+    indicator.values = resampler
+      .candles()
+      .map((bar) => indicator.stream.update(indicator.input(bar)));
+  }
+
+  function checkPivots(tracker, barIndex) {
+    const bars = resampler.candles();
+    const i = barIndex - tracker.right;
+    if (isPivot(bars, i, tracker.left, tracker.right, 'high', higher)) {
+      tracker.highs.push({ idx: offset + i, price: bars[i].high });
+    }
+    if (isPivot(bars, i, tracker.left, tracker.right, 'low', lower)) {
+      tracker.lows.push({ idx: offset + i, price: bars[i].low });
+    }
+  }
+
+  function replayPivots(tracker) {
+    tracker.highs = [];
+    tracker.lows = [];
+    const count = resampler.candles().length;
+    for (let t = 0; t < count; t++) checkPivots(tracker, t);
+  }
+
+  function sync(candles) {
+    const change = resampler.sync(candles);
+    const bars = resampler.candles();
+    if (change.reset) {
+      offset = 0;
+      for (const [key, indicator] of indicators) {
+        const fresh = { ...createIndicator(indicator.spec), spec: indicator.spec, values: [] };
+        indicators.set(key, fresh);
+        replay(fresh);
+      }
+      for (const tracker of pivotTrackers.values()) replayPivots(tracker);
+      return api;
+    }
+    if (change.trimmed) {
+      offset += change.trimmed;
+      for (const indicator of indicators.values()) indicator.values.splice(0, change.trimmed);
+      for (const tracker of pivotTrackers.values()) {
+        tracker.highs = tracker.highs.filter((p) => p.idx >= offset);
+        tracker.lows = tracker.lows.filter((p) => p.idx >= offset);
+      }
+    }
+    const firstNew = bars.length - change.appended;
+    if (change.revised) {
+      const at = firstNew - 1;
+      for (const indicator of indicators.values()) {
+        indicator.values[at] = indicator.stream.revise(indicator.input(bars[at]));
+      }
+      for (const tracker of pivotTrackers.values()) {
+        const pivotIdx = offset + at - tracker.right;
+        tracker.highs = tracker.highs.filter((p) => p.idx !== pivotIdx);
+        tracker.lows = tracker.lows.filter((p) => p.idx !== pivotIdx);
+        checkPivots(tracker, at);
+      }
+    }
+    for (let t = firstNew; t < bars.length; t++) {
+      for (const indicator of indicators.values()) {
+        indicator.values[t] = indicator.stream.update(indicator.input(bars[t]));
+      }
+      for (const tracker of pivotTrackers.values()) checkPivots(tracker, t);
+    }
+    return api;
+  }
+
+  const api = {
+    sync,
+    candles: () => resampler.candles(),
+    series(spec) {
+      const key = indicatorKey(spec);
+      let indicator = indicators.get(key);
+      if (!indicator) {
+        indicator = { ...createIndicator(spec), spec, values: [] };
+        indicators.set(key, indicator);
+        replay(indicator);
+      }
+      return indicator.values;
+    },
+    pivots(left, right) {
+      const key = `${left}:${right}`;
+      let tracker = pivotTrackers.get(key);
+      if (!tracker) {
+        tracker = { left, right, highs: [], lows: [] };
+        pivotTrackers.set(key, tracker);
+        replayPivots(tracker);
+      }
+      return {
+        highs: tracker.highs.map((p) => ({ idx: p.idx - offset, price: p.price })),
+        lows: tracker.lows.map((p) => ({ idx: p.idx - offset, price: p.price })),
+      };
+    },
+    reset() {
+      resampler.reset();
+      offset = 0;
+      indicators.clear();
+      pivotTrackers.clear();
+    },
+  };
+  return api;
+}
+
+/** Timeframe streams of one symbol, created on first use. */
+export function createSymbolStreams() {
+  const frames = new Map();
+  function frame(targetMinutes) {
+    let stream = frames.get(targetMinutes);
+    if (!stream) {
+      stream = createTimeframeStream(targetMinutes);
+      frames.set(targetMinutes, stream);
+    }
+    return stream;
+  }
+  return {
+    frame,
+    /** Syncs the timeframe with the base candles and returns it. */
+    sync: (candles, targetMinutes) => frame(targetMinutes).sync(candles),
+  };
+}
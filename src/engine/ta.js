@@ -223,3 +223,33 @@ export function computeADX(highs, lows, closes, period) {
     const padding = new Array(period).fill(0);
     return padding.concat(adx).slice(0, highs.length);
 }
+/**
+ * Computes Bollinger Bands (SMA ± mult × population standard deviation).
+ * Values before the first full window are NaN.
+ */
+export function computeBollinger(values, period, mult = 2) {
+    return values.map((_, i) => {
+        if (i < period - 1) {
+            return { middle: Number.NaN, upper: Number.NaN, lower: Number.NaN };
+        }
+        const window = values.slice(i - period + 1, i + 1);
+        const middle = window.reduce((sum, v) => sum + v, 0) / period;
+        const variance = window.reduce((sum, v) => sum + (v - middle) * (v - middle), 0) / period;
+        const dev = mult * Math.sqrt(variance);
+        return { middle, upper: middle + dev, lower: middle - dev };
+    });
+}
+/**
+ * Computes MACD (fast EMA − slow EMA), its signal EMA and the histogram.
+ */
+export function computeMacd(values, fast = 12, slow = 26, signal = 9) {
+    const emaFast = computeEma(values, fast);
+    const emaSlow = computeEma(values, slow);
+    const macd = emaFast.map((v, i) => v - emaSlow[i]);
+    const signalLine = computeEma(macd, signal);
+    return macd.map((v, i) => ({
+        macd: v,
+        signal: signalLine[i],
+        histogram: v - signalLine[i],
+    }));
+}
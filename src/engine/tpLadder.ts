@@ -0,0 +1,77 @@
+// src/engine/tpLadder.ts
+// Typovaný obal nad tpLadderEngine.js: take-profit žebříky z OrderPlanV2
+// (`takeProfits`) rozpočítané na reduce-only limitní nohy podle aktuální
+// velikosti pozice.
+
+import type { OrderPlanV2 } from "./v2Contracts";
+import * as engine from "./tpLadderEngine.js";
+
+export type TakeProfitLevel = OrderPlanV2["takeProfits"][number];
+
+export type TpLadderLeg = {
+  /** Index úrovně v normalizovaném žebříku. */
+  level: number;
+  price: number;
+  qty: number;
+};
+
+/** Pracovní příkaz žebříku tak, jak ho vrací burza. */
+export type TpLadderOrder = {
+  orderLinkId: string;
+  price?: number | string;
+  qty?: number | string;
+  leavesQty?: number | string;
+  cumExecQty?: number | string;
+};
+
+export type TpLadderDiff<O extends TpLadderOrder = TpLadderOrder> = {
+  keep: { leg: TpLadderLeg; order: O }[];
+  place: TpLadderLeg[];
+  cancel: O[];
+};
+
+export const MAX_TP_LADDER_LEVELS: number = engine.MAX_TP_LADDER_LEVELS;
+export const TP_LADDER_LINK_PREFIX: string = engine.TP_LADDER_LINK_PREFIX;
+
+/** sizePct nad 1 se čte jako procenta (50 = polovina). */
+export const normalizeTakeProfits = (
+  takeProfits: TakeProfitLevel[] | null | undefined,
+  options?: { side?: string; entry?: number }
+): TakeProfitLevel[] => engine.normalizeTakeProfits(takeProfits, options);
+
+/** `exitFraction` je podíl z toho, co je v daném kroku ještě otevřené. */
+export const takeProfitsFromPartialSteps = (input: {
+  side: string;
+  entry: number;
+  sl: number;
+  partialSteps: { r: number; exitFraction: number }[];
+}): TakeProfitLevel[] => engine.takeProfitsFromPartialSteps(input);
+
+export const tpLadderLinkId = (ladderId: string, level: number, rev: number): string =>
+  engine.tpLadderLinkId(ladderId, level, rev);
+
+export const parseTpLadderLinkId = (
+  linkId: string | null | undefined
+): { ladderId: string; level: number; rev: number } | null =>
+  engine.parseTpLadderLinkId(linkId);
+
+/** Vykonaný podíl každé úrovně (0..1). */
+export const tpLadderProgress = (input: {
+  levels: TakeProfitLevel[];
+  done?: number[];
+  orders?: TpLadderOrder[];
+}): number[] => engine.tpLadderProgress(input);
+
+export const planTpLadderLegs = (input: {
+  levels: TakeProfitLevel[];
+  progress?: number[];
+  size: number;
+  stepSize?: number;
+  minQty?: number;
+  tickSize?: number;
+}): TpLadderLeg[] => engine.planTpLadderLegs(input);
+
+export const diffTpLadder = <O extends TpLadderOrder>(
+  legs: TpLadderLeg[],
+  orders: O[]
+): TpLadderDiff<O> => engine.diffTpLadder(legs, orders);
@@ -0,0 +1,214 @@
+// Take-profit ladders. A ladder is the OrderPlanV2 `takeProfits` list
+// ({ price, sizePct }[], sizePct a fraction of the position) placed on the
+// venue as one reduce-only limit order per level. Legs are sized from the
+// *current* position, so scale-ins, manual reductions and earlier fills keep
+// the ladder consistent: the levels not yet executed split the open size in
+// their original proportions, and a ladder covering the whole position gives
+// the farthest leg the qty-step remainder so the last fill flattens it.
+//
+// Progress is tracked per level as the executed fraction (0..1) of that
+// level; a partially filled leg keeps its level with the rest of the qty.
+// Leg orders carry `tpl-<ladderId>-<level>-<rev>` link ids so the server
+// and reconcile can recognise them among the open orders.
+
+export const MAX_TP_LADDER_LEVELS = 8;
+export const TP_LADDER_LINK_PREFIX = 'tpl';
+
+const EPSILON = 1e-6;
+const LINK_ID_PATTERN = /^tpl-([A-Za-z0-9]+)-(\d+)-(\d+)$/;
+
+function toNumber(value) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function roundQty(value) {
+  return Number(value.toFixed(10));
+}
+
+function floorToStep(value, step) {
+  if (!(step > 0)) return roundQty(value);
+  return Number((Math.floor(value / step + 1e-9) * step).toFixed(12));
+}
+
+function roundToTick(value, tick) {
+  if (!(tick > 0)) return value;
+  return Number((Math.round(value / tick) * tick).toFixed(12));
+}
+
+function sideDirection(side) {
+  return String(side ?? '').toLowerCase() === 'sell' ? -1 : 1;
+}
+
+/**
+ * Validated ladder levels, nearest to the entry first. Drops levels without
+ * a price or size and, when the entry is known, levels on the losing side;
+ * levels at the same price are merged. `sizePct` above 1 is read as percent
+ * (50 = half). Sizes summing above 1 are scaled down to the whole position.
+ */
+export function normalizeTakeProfits(takeProfits, { side, entry } = {}) {
+  const dir = sideDirection(side);
+  const ref = toNumber(entry);
+  const byPrice = new Map();
+  for (const item of Array.isArray(takeProfits) ? takeProfits : []) {
+    const price = toNumber(item?.price);
+    let sizePct = toNumber(item?.sizePct);
+    if (!(price > 0) || !(sizePct > 0)) continue;
+    if (sizePct > 1) sizePct /= 100;
+    if (ref > 0 && (price - ref) * dir <= 0) continue;
+    byPrice.set(price, (byPrice.get(price) ?? 0) + sizePct);
+  }
+  const levels = [...byPrice]
+    .map(([price, sizePct]) => ({ price, sizePct }))
+    .sort((a, b) => (a.price - b.price) * dir)
+    .slice(0, MAX_TP_LADDER_LEVELS);
+  const total = levels.reduce((sum, level) => sum + level.sizePct, 0);
+  return levels.map((level) => ({
+    price: level.price,
+    sizePct: roundQty(total > 1 ? level.sizePct / total : level.sizePct),
+  }));
+}
+
+/**
+ * BotConfig `partialSteps` as a ladder: step `r` sits at entry ± r·|entry − sl|
+ * and `exitFraction` is a share of what is still open at that step, so the
+ * sizes become fractions of the whole position.
+ */
+export function takeProfitsFromPartialSteps({ side, entry, sl, partialSteps }) {
+  const ref = toNumber(entry);
+  const risk = Math.abs(ref - toNumber(sl));
+  if (!(ref > 0) || !(risk > 0)) return [];
+  const dir = sideDirection(side);
+  const steps = (Array.isArray(partialSteps) ? partialSteps : [])
+    .filter((step) => toNumber(step?.r) > 0 && toNumber(step?.exitFraction) > 0)
+    .sort((a, b) => a.r - b.r);
+  let open = 1;
+  const levels = [];
+  for (const step of steps) {
+    const sizePct = open * Math.min(1, step.exitFraction);
+    open -= sizePct;
+    levels.push({ price: ref + dir * step.r * risk, sizePct });
+  }
+  return normalizeTakeProfits(levels, { side, entry: ref });
+}
+
+export function tpLadderLinkId(ladderId, level, rev) {
+  return `${TP_LADDER_LINK_PREFIX}-${ladderId}-${level}-${rev}`;
+}
+
+/**
+ * `{ ladderId, level, rev }` for a ladder leg link id, null for anything else.
+ */
+export function parseTpLadderLinkId(linkId) {
+  const match = LINK_ID_PATTERN.exec(String(linkId ?? ''));
+  if (!match) return null;
+  return { ladderId: match[1], level: Number(match[2]), rev: Number(match[3]) };
+}
+
+/**
+ * Executed fraction of each level: the committed `done` of the ladder plus
+ * the fills of its working leg orders (`cumExecQty` of `qty`; the order
+ * carried the part of the level that was still open when it was placed).
+ */
+export function tpLadderProgress({ levels, done = [], orders = [] }) {
+  const progress = levels.map((_, i) => Math.min(1, Math.max(0, toNumber(done[i]) || 0)));
+  for (const order of orders) {
+    const parsed = parseTpLadderLinkId(order?.orderLinkId);
+    if (!parsed || parsed.level >= progress.length) continue;
+    const qty = toNumber(order.qty);
+    const executed = toNumber(order.cumExecQty);
+    if (!(qty > 0) || !(executed > 0)) continue;
+    const prior = progress[parsed.level];
+    progress[parsed.level] = Math.min(1, prior + (1 - prior) * Math.min(1, executed / qty));
+  }
+  return progress;
+}
+
+/**
+ * Reduce-only legs `{ level, price, qty }` for an open position of `size`.
+ * Levels executed in full are skipped; a leg below `minQty` is carried into
+ * the next level, a too small last leg into the previous one.
+ */
+export function planTpLadderLegs({
+  levels,
+  progress = [],
+  size,
+  stepSize = 0,
+  minQty = 0,
+  tickSize = 0,
+}) {
+  const openSize = toNumber(size);
+  if (!(openSize > 0) || !Array.isArray(levels) || !levels.length) return [];
+  const remaining = levels.map((level, i) => ({
+    level: i,
+    price: level.price,
+    pct: level.sizePct * (1 - Math.min(1, Math.max(0, toNumber(progress[i]) || 0))),
+  }));
+  const executedPct = levels.reduce((sum, level, i) => sum + level.sizePct - remaining[i].pct, 0);
+  if (executedPct >= 1 - EPSILON) return [];
+  const open = remaining.filter((item) => item.pct > EPSILON);
+  if (!open.length) return [];
+  const coversPosition = levels.reduce((sum, level) => sum + level.sizePct, 0) >= 1 - EPSILON;
+  // Size the ladder would have if nothing had been executed yet.
+  const base = openSize / (1 - executedPct);
+  const floor = Math.max(minQty > 0 ? minQty : 0, EPSILON);
+  const legs = [];
+  let allocated = 0;
+  let carry = 0;
+  open.forEach((item, k) => {
+    const last = k === open.length - 1;
+    const wanted = base * item.pct + carry;
+    const qty =
+      last && coversPosition
+        ? roundQty(openSize - allocated)
+        : Math.min(floorToStep(wanted, stepSize), floorToStep(openSize - allocated, stepSize));
+    if (qty < floor) {
+      carry = wanted;
+      if (last && coversPosition && legs.length && qty > 0) {
+        legs[legs.length - 1].qty = roundQty(legs[legs.length - 1].qty + qty);
+      }
+      return;
+    }
+    carry = 0;
+    allocated = roundQty(allocated + qty);
+    legs.push({ level: item.level, price: roundToTick(item.price, tickSize), qty });
+  });
+  return legs;
+}
+
+/**
+ * Compares planned legs with the ladder's working orders (`leavesQty` is the
+ * open part). Orders at another price or qty are replaced, duplicates and
+ * orders of levels without a leg are cancelled.
+ */
+export function diffTpLadder(legs, orders) {
+  const keep = [];
+  const place = [];
+  const cancel = [];
+  const wanted = new Map(legs.map((leg) => [leg.level, leg]));
+  const byLevel = new Map();
+  for (const order of orders) {
+    const parsed = parseTpLadderLinkId(order?.orderLinkId);
+    if (!parsed || !wanted.has(parsed.level) || byLevel.has(parsed.level)) {
+      cancel.push(order);
+      continue;
+    }
+    byLevel.set(parsed.level, order);
+  }
+  for (const leg of legs) {
+    const order = byLevel.get(leg.level);
+    const price = toNumber(order?.price);
+    const qty = toNumber(order?.leavesQty ?? order?.qty);
+    const matches =
+      order &&
+      Math.abs(price - leg.price) <= Math.abs(leg.price) * 1e-9 &&
+      Math.abs(qty - leg.qty) <= Math.max(EPSILON, leg.qty * 1e-9);
+    if (matches) {
+      keep.push({ leg, order });
+      continue;
+    }
+    if (order) cancel.push(order);
+    place.push(leg);
+  }
+  return { keep, place, cancel };
+}
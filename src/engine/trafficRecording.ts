@@ -0,0 +1,58 @@
+import * as recording from './trafficRecordingEngine.js';
+
+export type RecordingSource = 'ws.public' | 'ws.private' | 'rest' | 'session';
+
+export type RecordedFrame = {
+  seq: number;
+  ts: number;
+  source: RecordingSource;
+  channel: string;
+  data: unknown;
+};
+
+export type TrafficRecorder = {
+  record: (source: RecordingSource, channel: string, data: unknown) => RecordedFrame;
+  frames: () => RecordedFrame[];
+  toJsonl: () => string;
+};
+
+// Minimal WebSocket surface the feeds use; the browser WebSocket satisfies it.
+export type FeedSocket = {
+  readyState: number;
+  addEventListener: (type: string, listener: (event: MessageEvent) => void) => void;
+  send: (message: string) => void;
+  close: () => void;
+};
+
+export type ReplaySocket = FeedSocket & {
+  sent: string[];
+  done: Promise<void>;
+};
+
+export type ReplayOptions = {
+  speed?: number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export const RECORDING_VERSION: number = recording.RECORDING_VERSION;
+
+export const createTrafficRecorder = (args?: {
+  now?: () => number;
+  sink?: (frame: RecordedFrame) => void;
+  maxFrames?: number;
+}): TrafficRecorder => recording.createTrafficRecorder(args);
+
+export const serializeFrame = (frame: RecordedFrame): string => recording.serializeFrame(frame);
+
+export const parseRecording = (text: string): RecordedFrame[] => recording.parseRecording(text);
+
+export const replayFrames = (
+  frames: RecordedFrame[],
+  onFrame: (frame: RecordedFrame, index: number) => void | Promise<void>,
+  opts?: ReplayOptions
+): Promise<number> => recording.replayFrames(frames, onFrame, opts);
+
+export const createReplaySocket = (
+  frames: RecordedFrame[],
+  opts?: ReplayOptions & { channel?: string }
+): ReplaySocket => recording.createReplaySocket(frames, opts);
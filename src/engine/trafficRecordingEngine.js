@@ -0,0 +1,135 @@
+// Record-and-replay of exchange traffic. A recording is JSONL, one frame per
+// line: { seq, ts, source, channel, data }.
+//   source  "ws.public" | "ws.private" | "rest" | "session"
+//   channel the feed ("price", "liquidation", "aggregator") for WS frames,
+//           the poll ("fast", "slow", "backfill") for REST frames, "start"
+//           for the session parameters a replay needs
+//   data    the raw WS message / the REST results as received
+// Replays walk the frames in `seq` order; with speed 0 (default) nothing
+// waits, so the same file always produces the same sequence of calls.
+
+export const RECORDING_VERSION = 1;
+export const RECORDING_SOURCES = ['ws.public', 'ws.private', 'rest', 'session'];
+
+export function createTrafficRecorder({ now = Date.now, sink, maxFrames = 50_000 } = {}) {
+  const frames = [];
+  let seq = 0;
+  return {
+    record(source, channel, data) {
+      if (!RECORDING_SOURCES.includes(source)) {
+        throw new Error(`unknown_recording_source:${source}`);
+      }
+      seq += 1;
+      const frame = { seq, ts: now(), source, channel: String(channel ?? ''), data };
+      if (sink) {
+        sink(frame);
+      } else {
+        frames.push(frame);
+        if (frames.length > maxFrames) frames.shift();
+      }
+      return frame;
+    },
+    frames() {
+      return frames.slice();
+    },
+    toJsonl() {
+      return frames.map(serializeFrame).join('');
+    },
+  };
+}
+
+export function serializeFrame(frame) {
+  return `${JSON.stringify(frame)}\n`;
+}
+
+/** Parses a JSONL recording; throws with the line number on a broken line. */
+export function parseRecording(text) {
+  const frames = [];
+  const lines = String(text ?? '').split(/\r?\n/);
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    let frame;
+    try {
+      frame = JSON.parse(line);
+    } catch (err) {
+      throw new Error(`recording_parse_failed:line ${i + 1}: ${err?.message ?? err}`);
+    }
+    if (!frame || !RECORDING_SOURCES.includes(frame.source) || !Number.isFinite(frame.ts)) {
+      throw new Error(`recording_invalid_frame:line ${i + 1}`);
+    }
+    frames.push(frame);
+  }
+  return frames.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+const defaultSleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Calls `onFrame(frame, index)` for each frame in order, awaiting it before
+ * the next. `speed` > 0 waits the recorded gaps divided by `speed`.
+ */
+export async function replayFrames(frames, onFrame, { speed = 0, sleep = defaultSleep } = {}) {
+  let prevTs = null;
+  let index = 0;
+  for (const frame of frames) {
+    if (speed > 0 && prevTs != null) {
+      const gap = Math.max(0, frame.ts - prevTs) / speed;
+      if (gap > 0) await sleep(gap);
+    }
+    prevTs = frame.ts;
+    await onFrame(frame, index);
+    index += 1;
+  }
+  return index;
+}
+
+/**
+ * WebSocket stand-in replaying the recorded public frames of `channel` (all
+ * public frames when omitted) as message events once opened. `sent` keeps
+ * what the feed sent (subscriptions, pings); `done` resolves after the last
+ * frame.
+ */
+export function createReplaySocket(frames, { channel, speed = 0, sleep } = {}) {
+  const listeners = new Map();
+  const sent = [];
+  const own = frames.filter(
+    (frame) => frame.source === 'ws.public' && (!channel || frame.channel === channel)
+  );
+  const emit = (type, event) => {
+    for (const fn of listeners.get(type) ?? []) fn(event);
+  };
+  const socket = {
+    readyState: 0,
+    sent,
+    addEventListener(type, fn) {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type).add(fn);
+    },
+    removeEventListener(type, fn) {
+      listeners.get(type)?.delete(fn);
+    },
+    send(message) {
+      sent.push(message);
+    },
+    close() {
+      if (socket.readyState === 3) return;
+      socket.readyState = 3;
+      emit('close', {});
+    },
+  };
+  socket.done = Promise.resolve().then(async () => {
+    socket.readyState = 1;
+    emit('open', {});
+    await replayFrames(
+      own,
+      (frame) => {
+        if (socket.readyState !== 1) return;
+        const data = typeof frame.data === 'string' ? frame.data : JSON.stringify(frame.data);
+        emit('message', { data });
+      },
+      { speed, sleep }
+    );
+  });
+  return socket;
+}
@@ -0,0 +1,826 @@
+// hooks/tradingAiMaticContext.ts
+// Kontext AI-MATIC: struktura trhu, POI, formace a fáze pro brány vstupu.
+import {
+  computeRsiBollingerEnvelope,
+  resampleCandles,
+  resolveRegimeAwareRsiBounds,
+  type Candle,
+} from "../engine/botEngine";
+import {
+  computeEma,
+  computeRsi,
+  findPivotsHigh,
+  findPivotsLow,
+  computeATR,
+} from "../engine/ta";
+import { CandlestickAnalyzer } from "../engine/universal-candlestick-analyzer";
+import {
+  computeMarketProfile,
+  type MarketProfile,
+} from "../engine/marketProfile";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import { EMA_TREND_PERIOD, clampEmaTrendPeriod } from "./tradingSettings";
+import { toNumber } from "./tradingSyncHelpers";
+import type { CoreV2Metrics } from "./tradingDecisionHelpers";
+import {
+  resolveAiMaticEma200ScalpModule,
+  resolveAiMaticSwingModule,
+  resolveMacdState,
+  type AiMaticEma200ScalpModule,
+  type AiMaticSwingModule,
+  type ResampleFn,
+} from "./tradingAiMaticSetups";
+
+const EMA_TREND_CONFIRM_BARS = 2;
+const EMA_TREND_TOUCH_LOOKBACK = 8;
+
+const AI_MATIC_POI_DISTANCE_PCT = 0.0015;
+
+const AI_MATIC_RSI_OVERSOLD = 35;
+const AI_MATIC_RSI_OVERBOUGHT = 70;
+const AI_MATIC_LIQ_SWEEP_LOOKBACK = 15;
+const AI_MATIC_LIQ_SWEEP_ATR_MULT = 0.5;
+const AI_MATIC_LIQ_SWEEP_VOL_MULT = 1.0;
+const AI_MATIC_BREAK_RETEST_LOOKBACK = 6;
+
+type Ema200BreakoutState = {
+  direction: "BULL" | "BEAR" | "NONE";
+  ema: number;
+  close: number;
+  breakoutBull: boolean;
+  breakoutBear: boolean;
+  confirmedBull: boolean;
+  confirmedBear: boolean;
+};
+
+function resolveEma200BreakoutState(
+  candles: Candle[],
+  opts?: { emaPeriod?: number; breakoutLookback?: number; confirmBars?: number }
+): Ema200BreakoutState {
+  const emaPeriod = Math.max(10, Math.round(opts?.emaPeriod ?? EMA_TREND_PERIOD));
+  const breakoutLookback = Math.max(
+    2,
+    Math.round(opts?.breakoutLookback ?? EMA_TREND_TOUCH_LOOKBACK)
+  );
+  const confirmBars = Math.max(1, Math.round(opts?.confirmBars ?? EMA_TREND_CONFIRM_BARS));
+  const closes = candles.map((c) => c.close);
+  if (closes.length < Math.max(emaPeriod + 2, confirmBars + 2)) {
+    return {
+      direction: "NONE",
+      ema: Number.NaN,
+      close: Number.NaN,
+      breakoutBull: false,
+      breakoutBear: false,
+      confirmedBull: false,
+      confirmedBear: false,
+    };
+  }
+  const emaArr = computeEma(closes, emaPeriod);
+  const lastIdx = closes.length - 1;
+  const close = closes[lastIdx];
+  const ema = emaArr[lastIdx];
+  const start = Math.max(1, closes.length - breakoutLookback);
+  let bullBreakoutIdx = -1;
+  let bearBreakoutIdx = -1;
+  for (let i = start; i <= lastIdx; i++) {
+    const prevClose = closes[i - 1];
+    const prevEma = emaArr[i - 1];
+    const currClose = closes[i];
+    const currEma = emaArr[i];
+    if (!Number.isFinite(prevClose) || !Number.isFinite(prevEma)) continue;
+    if (!Number.isFinite(currClose) || !Number.isFinite(currEma)) continue;
+    if (prevClose <= prevEma && currClose > currEma) bullBreakoutIdx = i;
+    if (prevClose >= prevEma && currClose < currEma) bearBreakoutIdx = i;
+  }
+  const confirmedBull =
+    bullBreakoutIdx >= 0 &&
+    lastIdx - bullBreakoutIdx + 1 >= confirmBars &&
+    (() => {
+      for (let i = Math.max(bullBreakoutIdx, lastIdx - confirmBars + 1); i <= lastIdx; i++) {
+        if (closes[i] <= emaArr[i]) return false;
+      }
+      return true;
+    })();
+  const confirmedBear =
+    bearBreakoutIdx >= 0 &&
+    lastIdx - bearBreakoutIdx + 1 >= confirmBars &&
+    (() => {
+      for (let i = Math.max(bearBreakoutIdx, lastIdx - confirmBars + 1); i <= lastIdx; i++) {
+        if (closes[i] >= emaArr[i]) return false;
+      }
+      return true;
+    })();
+  let direction: Ema200BreakoutState["direction"] = "NONE";
+  if (confirmedBull && !confirmedBear) direction = "BULL";
+  else if (confirmedBear && !confirmedBull) direction = "BEAR";
+  else if (confirmedBull && confirmedBear) {
+    direction = bullBreakoutIdx >= bearBreakoutIdx ? "BULL" : "BEAR";
+  }
+  return {
+    direction,
+    ema,
+    close,
+    breakoutBull: bullBreakoutIdx >= 0,
+    breakoutBear: bearBreakoutIdx >= 0,
+    confirmedBull,
+    confirmedBear,
+  };
+}
+
+export type AiMaticPoi = {
+  type: string;
+  direction: string;
+  high: number;
+  low: number;
+  time: number;
+  mitigated?: boolean;
+  priority?: number;
+  touches?: number;
+};
+
+type AiMaticPatterns = {
+  pinbarBull: boolean;
+  pinbarBear: boolean;
+  engulfBull: boolean;
+  engulfBear: boolean;
+  insideBar: boolean;
+  trapBull: boolean;
+  trapBear: boolean;
+};
+
+type AiMaticEmaFlags = {
+  bullOk: boolean;
+  bearOk: boolean;
+  breakoutRecent: boolean;
+  confirmed: boolean;
+  ema200: number;
+  close: number;
+};
+
+type LiquiditySweepState = {
+  sweepHigh: boolean;
+  sweepLow: boolean;
+  sweepHighWick: number;
+  sweepLowWick: number;
+  swingHigh: number;
+  swingLow: number;
+};
+
+type StructureState = {
+  structureTrend: "BULL" | "BEAR" | "RANGE";
+  lastHighType: "HH" | "LH" | "NONE";
+  lastLowType: "HL" | "LL" | "NONE";
+  bosUp: boolean;
+  bosDown: boolean;
+  chochUp: boolean;
+  chochDown: boolean;
+  lastHigh?: number;
+  lastLow?: number;
+};
+
+export type AiMaticContext = {
+  htf: {
+    direction: "bull" | "bear" | "none";
+    adx: number;
+    phase: "ACCUMULATION" | "DISTRIBUTION" | "MANIPULATION" | "TREND";
+    ema: AiMaticEmaFlags;
+    structureTrend: "BULL" | "BEAR" | "RANGE";
+    lastHighType: "HH" | "LH" | "NONE";
+    lastLowType: "HL" | "LL" | "NONE";
+    bosUp: boolean;
+    bosDown: boolean;
+    chochUp: boolean;
+    chochDown: boolean;
+    sweepHigh: boolean;
+    sweepLow: boolean;
+    sweepHighWick: number;
+    sweepLowWick: number;
+    swingHigh: number;
+    swingLow: number;
+    volumeRising: boolean;
+    pivotHigh?: number;
+    pivotLow?: number;
+    pois: AiMaticPoi[];
+    poiReactionBull: boolean;
+    poiReactionBear: boolean;
+  };
+  mtf: {
+    sweepHigh: boolean;
+    sweepLow: boolean;
+    profile: MarketProfile | null;
+    pocNear: boolean;
+    lvnRejectionBull: boolean;
+    lvnRejectionBear: boolean;
+    ema: AiMaticEmaFlags;
+    patterns: AiMaticPatterns;
+    gapPresent: boolean;
+    obRetest: boolean;
+    structureTrend: "BULL" | "BEAR" | "RANGE";
+    lastHighType: "HH" | "LH" | "NONE";
+    lastLowType: "HL" | "LL" | "NONE";
+    bosUp: boolean;
+    bosDown: boolean;
+    chochUp: boolean;
+    chochDown: boolean;
+    pivotHigh?: number;
+    pivotLow?: number;
+    sweepHighWick: number;
+    sweepLowWick: number;
+    swingHigh: number;
+    swingLow: number;
+    pois: AiMaticPoi[];
+    poiReactionBull: boolean;
+    poiReactionBear: boolean;
+  };
+  ltf: {
+    patterns: AiMaticPatterns;
+    bosUp: boolean;
+    bosDown: boolean;
+    chochUp: boolean;
+    chochDown: boolean;
+    breakRetestUp: boolean;
+    breakRetestDown: boolean;
+    fakeoutHigh: boolean;
+    fakeoutLow: boolean;
+    rsi: number;
+    rsiOversold: number;
+    rsiOverbought: number;
+    rsiMode: "BASE" | "BULL_TREND" | "BULL_TREND_RANGE_LOCK";
+    rsiBbLower: number;
+    rsiBbUpper: number;
+    rsiBbOversold: boolean;
+    rsiBbOverbought: boolean;
+    rsiExtremeLong: boolean;
+    rsiExtremeShort: boolean;
+    macdHist: number;
+    macdSignal: number;
+    macdCrossUp: boolean;
+    macdCrossDown: boolean;
+    momentumLongOk: boolean;
+    momentumShortOk: boolean;
+    sweepHigh: boolean;
+    sweepLow: boolean;
+    sweepHighWick: number;
+    sweepLowWick: number;
+    swingHigh: number;
+    swingLow: number;
+    ema: AiMaticEmaFlags;
+    volumeReaction: boolean;
+    structureTrend: "BULL" | "BEAR" | "RANGE";
+    lastHighType: "HH" | "LH" | "NONE";
+    lastLowType: "HL" | "LL" | "NONE";
+  };
+  swing?: AiMaticSwingModule;
+  ema200Scalp?: AiMaticEma200ScalpModule;
+};
+
+const toAnalyzerCandles = (candles: Candle[]) =>
+  candles.map((c, idx) => ({
+    time: Number.isFinite(c.openTime) ? (c.openTime as number) : idx * 60_000,
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+    volume: c.volume,
+  }));
+
+const resolveAiMaticHtfDirection = (
+  decision: PriceFeedDecision | null | undefined,
+  core?: CoreV2Metrics
+) => {
+  const consensus = String((decision as any)?.htfTrend?.consensus ?? "").toLowerCase();
+  if (consensus === "bull" || consensus === "bear") return consensus;
+  const bias = core?.htfBias ?? "NONE";
+  if (bias === "BULL") return "bull";
+  if (bias === "BEAR") return "bear";
+  const trendRaw = String((decision as any)?.trend ?? "").toLowerCase();
+  if (trendRaw === "bull" || trendRaw === "bear") return trendRaw;
+  return "none";
+};
+
+export const resolveAiMaticEmaFlags = (
+  candles: Candle[],
+  emaPeriod = EMA_TREND_PERIOD
+): AiMaticEmaFlags => {
+  const breakout = resolveEma200BreakoutState(candles, {
+    emaPeriod,
+    breakoutLookback: EMA_TREND_TOUCH_LOOKBACK,
+    confirmBars: EMA_TREND_CONFIRM_BARS,
+  });
+  return {
+    bullOk: breakout.direction === "BULL",
+    bearOk: breakout.direction === "BEAR",
+    breakoutRecent: breakout.breakoutBull || breakout.breakoutBear,
+    confirmed: breakout.confirmedBull || breakout.confirmedBear,
+    ema200: breakout.ema,
+    close: breakout.close,
+  };
+};
+
+export const resolveStructureState = (
+  candles: Candle[],
+  lookback = 2
+): StructureState => {
+  const highs = findPivotsHigh(candles, lookback, lookback);
+  const lows = findPivotsLow(candles, lookback, lookback);
+  const lastHigh = highs[highs.length - 1]?.price;
+  const prevHigh = highs[highs.length - 2]?.price;
+  const lastLow = lows[lows.length - 1]?.price;
+  const prevLow = lows[lows.length - 2]?.price;
+  const lastHighType =
+    Number.isFinite(lastHigh) && Number.isFinite(prevHigh)
+      ? lastHigh! > prevHigh!
+        ? "HH"
+        : lastHigh! < prevHigh!
+          ? "LH"
+          : "NONE"
+      : "NONE";
+  const lastLowType =
+    Number.isFinite(lastLow) && Number.isFinite(prevLow)
+      ? lastLow! > prevLow!
+        ? "HL"
+        : lastLow! < prevLow!
+          ? "LL"
+          : "NONE"
+      : "NONE";
+  const structureTrend =
+    lastHighType === "HH" && lastLowType === "HL"
+      ? "BULL"
+      : lastHighType === "LH" && lastLowType === "LL"
+        ? "BEAR"
+        : "RANGE";
+  const lastClose = candles[candles.length - 1]?.close ?? Number.NaN;
+  const bosUp =
+    structureTrend === "BULL" &&
+    Number.isFinite(lastHigh) &&
+    Number.isFinite(lastClose) &&
+    lastClose > (lastHigh as number);
+  const bosDown =
+    structureTrend === "BEAR" &&
+    Number.isFinite(lastLow) &&
+    Number.isFinite(lastClose) &&
+    lastClose < (lastLow as number);
+  const chochDown =
+    structureTrend === "BULL" &&
+    Number.isFinite(lastLow) &&
+    Number.isFinite(lastClose) &&
+    lastClose < (lastLow as number);
+  const chochUp =
+    structureTrend === "BEAR" &&
+    Number.isFinite(lastHigh) &&
+    Number.isFinite(lastClose) &&
+    lastClose > (lastHigh as number);
+  return {
+    structureTrend,
+    lastHighType,
+    lastLowType,
+    bosUp,
+    bosDown,
+    chochUp,
+    chochDown,
+    lastHigh,
+    lastLow,
+  };
+};
+
+export const resolveAiMaticPatterns = (candles: Candle[]): AiMaticPatterns => {
+  if (candles.length < 2) {
+    return {
+      pinbarBull: false,
+      pinbarBear: false,
+      engulfBull: false,
+      engulfBear: false,
+      insideBar: false,
+      trapBull: false,
+      trapBear: false,
+    };
+  }
+  const prev = candles[candles.length - 2];
+  const curr = candles[candles.length - 1];
+  const range = Math.max(curr.high - curr.low, 1e-8);
+  const body = Math.abs(curr.close - curr.open);
+  const upperWick = curr.high - Math.max(curr.close, curr.open);
+  const lowerWick = Math.min(curr.close, curr.open) - curr.low;
+  const pinbarBull = body <= 0.3 * range && lowerWick >= 0.6 * range;
+  const pinbarBear = body <= 0.3 * range && upperWick >= 0.6 * range;
+  const prevBodyHigh = Math.max(prev.open, prev.close);
+  const prevBodyLow = Math.min(prev.open, prev.close);
+  const currBodyHigh = Math.max(curr.open, curr.close);
+  const currBodyLow = Math.min(curr.open, curr.close);
+  const engulfBull =
+    curr.close > curr.open &&
+    prev.close < prev.open &&
+    currBodyHigh >= prevBodyHigh &&
+    currBodyLow <= prevBodyLow;
+  const engulfBear =
+    curr.close < curr.open &&
+    prev.close > prev.open &&
+    currBodyHigh >= prevBodyHigh &&
+    currBodyLow <= prevBodyLow;
+  const insideBar = curr.high <= prev.high && curr.low >= prev.low;
+  const trapBull = curr.low < prev.low && curr.close > prev.low;
+  const trapBear = curr.high > prev.high && curr.close < prev.high;
+  return {
+    pinbarBull,
+    pinbarBear,
+    engulfBull,
+    engulfBear,
+    insideBar,
+    trapBull,
+    trapBear,
+  };
+};
+
+export const resolveAiMaticBreakRetest = (
+  candles: Candle[],
+  level: number | undefined,
+  dir: "bull" | "bear"
+) => {
+  if (!Number.isFinite(level) || candles.length < 3) return false;
+  const recent = candles.slice(-AI_MATIC_BREAK_RETEST_LOOKBACK - 1, -1);
+  const broke = recent.some((c) =>
+    dir === "bull" ? c.close > (level as number) : c.close < (level as number)
+  );
+  if (!broke) return false;
+  const last = candles[candles.length - 1];
+  const retest =
+    last.low <= (level as number) && last.high >= (level as number);
+  const closeOk =
+    dir === "bull" ? last.close >= (level as number) : last.close <= (level as number);
+  return retest && closeOk;
+};
+
+const resolvePoiReaction = (
+  pois: AiMaticPoi[],
+  price: number,
+  candle: Candle | undefined,
+  dir: "bull" | "bear"
+) => {
+  if (!Number.isFinite(price) || !candle || !pois.length) return false;
+  const closeOk = dir === "bull" ? candle.close >= candle.open : candle.close <= candle.open;
+  if (!closeOk) return false;
+  return pois.some((poi) => {
+    const poiDir = String(poi.direction ?? "").toLowerCase();
+    const dirOk =
+      dir === "bull"
+        ? poiDir === "bullish" || poiDir === "bull"
+        : poiDir === "bearish" || poiDir === "bear";
+    if (!dirOk) return false;
+    return price >= poi.low && price <= poi.high;
+  });
+};
+
+const resolveLvnRejection = (
+  profile: MarketProfile | null,
+  candle: Candle | undefined
+) => {
+  if (!profile || !candle || !Array.isArray(profile.lvn)) {
+    return { bull: false, bear: false };
+  }
+  const price = candle.close;
+  const tolerance = price * AI_MATIC_POI_DISTANCE_PCT;
+  const touched = profile.lvn.some((lvn) =>
+    Math.abs(price - lvn) <= tolerance
+  );
+  if (!touched) return { bull: false, bear: false };
+  return {
+    bull: candle.close >= candle.open,
+    bear: candle.close <= candle.open,
+  };
+};
+
+const resolveGapPresent = (pois: AiMaticPoi[]) => {
+  return pois.some((poi) => {
+    const type = String(poi.type ?? "").toLowerCase();
+    return type.includes("fvg") || type.includes("gap");
+  });
+};
+
+const resolvePoiTouch = (pois: AiMaticPoi[], price: number) => {
+  if (!Number.isFinite(price) || !pois.length) return false;
+  return pois.some(
+    (poi) =>
+      Number.isFinite(poi.low) &&
+      Number.isFinite(poi.high) &&
+      price >= poi.low &&
+      price <= poi.high
+  );
+};
+
+const resolveVolumeRising = (candles: Candle[], lookback = 8) => {
+  if (candles.length < lookback * 2) return false;
+  const recent = candles.slice(-lookback);
+  const prev = candles.slice(-lookback * 2, -lookback);
+  const avg = (slice: Candle[]) =>
+    slice.reduce((s, c) => s + (c.volume ?? 0), 0) / Math.max(1, slice.length);
+  const recentAvg = avg(recent);
+  const prevAvg = avg(prev);
+  return Number.isFinite(recentAvg) && Number.isFinite(prevAvg) && recentAvg > prevAvg * 1.1;
+};
+
+export const resolveLiquiditySweep = (candles: Candle[]): LiquiditySweepState => {
+  if (candles.length < AI_MATIC_LIQ_SWEEP_LOOKBACK + 2) {
+    return {
+      sweepHigh: false,
+      sweepLow: false,
+      sweepHighWick: Number.NaN,
+      sweepLowWick: Number.NaN,
+      swingHigh: Number.NaN,
+      swingLow: Number.NaN,
+    };
+  }
+  const highs = candles.map((c) => c.high);
+  const lows = candles.map((c) => c.low);
+  const closes = candles.map((c) => c.close);
+  const vols = candles.map((c) => c.volume ?? 0);
+  const atrArr = computeATR(highs, lows, closes, 14);
+  const atr = atrArr[atrArr.length - 1] || 0;
+  const lb = AI_MATIC_LIQ_SWEEP_LOOKBACK;
+  const swingHigh = Math.max(...highs.slice(-lb - 1, -1));
+  const swingLow = Math.min(...lows.slice(-lb - 1, -1));
+  const last = candles[candles.length - 1];
+  const volSmaWindow = Math.min(vols.length, 50);
+  const volSma =
+    vols.slice(-volSmaWindow).reduce((a, b) => a + b, 0) /
+    Math.max(1, volSmaWindow);
+  const volOk = (last.volume ?? 0) > AI_MATIC_LIQ_SWEEP_VOL_MULT * volSma;
+  const sweptHigh =
+    last.high > swingHigh + AI_MATIC_LIQ_SWEEP_ATR_MULT * atr &&
+    last.close < swingHigh;
+  const sweptLow =
+    last.low < swingLow - AI_MATIC_LIQ_SWEEP_ATR_MULT * atr &&
+    last.close > swingLow;
+  const sweepHigh = Boolean(volOk && sweptHigh);
+  const sweepLow = Boolean(volOk && sweptLow);
+  return {
+    sweepHigh,
+    sweepLow,
+    sweepHighWick: sweepHigh ? last.high : Number.NaN,
+    sweepLowWick: sweepLow ? last.low : Number.NaN,
+    swingHigh: Number.isFinite(swingHigh) ? swingHigh : Number.NaN,
+    swingLow: Number.isFinite(swingLow) ? swingLow : Number.NaN,
+  };
+};
+
+const resolveAiMaticPhase = (args: {
+  trend: string;
+  adx: number;
+  sweepHigh: boolean;
+  sweepLow: boolean;
+  volumeRising: boolean;
+  profile: MarketProfile | null;
+  price: number;
+  volumeSpike: boolean;
+}) => {
+  const trend = String(args.trend ?? "").toLowerCase();
+  const lowAdx = Number.isFinite(args.adx) && args.adx < 20;
+  const rangeLike = trend === "range" || lowAdx;
+  const poc = args.profile?.poc ?? Number.NaN;
+  const vah = args.profile?.vah ?? Number.NaN;
+  const val = args.profile?.val ?? Number.NaN;
+  if (
+    rangeLike &&
+    args.sweepLow &&
+    args.volumeRising &&
+    Number.isFinite(poc) &&
+    args.price > poc
+  ) {
+    return "ACCUMULATION";
+  }
+  if (
+    rangeLike &&
+    args.sweepHigh &&
+    args.volumeRising &&
+    Number.isFinite(poc) &&
+    args.price < poc
+  ) {
+    return "DISTRIBUTION";
+  }
+  if (
+    args.volumeSpike &&
+    ((args.sweepLow && trend === "bear") || (args.sweepHigh && trend === "bull"))
+  ) {
+    return "MANIPULATION";
+  }
+  if (
+    rangeLike &&
+    args.sweepHigh &&
+    args.volumeRising &&
+    Number.isFinite(vah) &&
+    args.price < vah
+  ) {
+    return "DISTRIBUTION";
+  }
+  if (
+    rangeLike &&
+    args.sweepLow &&
+    args.volumeRising &&
+    Number.isFinite(val) &&
+    args.price > val
+  ) {
+    return "ACCUMULATION";
+  }
+  return "TREND";
+};
+
+export const buildAiMaticContext = (
+  candles: Candle[],
+  decision: PriceFeedDecision | null | undefined,
+  core?: CoreV2Metrics,
+  opts?: { resample?: ResampleFn; emaTrendPeriod?: number }
+): AiMaticContext | null => {
+  const resample = opts?.resample ?? ((tf) => resampleCandles(candles, tf));
+  const emaTrendPeriod = clampEmaTrendPeriod(
+    opts?.emaTrendPeriod,
+    EMA_TREND_PERIOD
+  );
+  const htf = resample(60);
+  const mtf = resample(15);
+  const ltf = resample(5);
+  if (!htf.length || !mtf.length || !ltf.length) return null;
+  const htfPois = new CandlestickAnalyzer(toAnalyzerCandles(htf)).getPointsOfInterest() as AiMaticPoi[];
+  const mtfPois = new CandlestickAnalyzer(toAnalyzerCandles(mtf)).getPointsOfInterest() as AiMaticPoi[];
+  const profile = computeMarketProfile({ candles: mtf });
+  const ltfLast = ltf[ltf.length - 1];
+  const htfStructure = resolveStructureState(htf);
+  const mtfStructure = resolveStructureState(mtf);
+  const ltfStructure = resolveStructureState(ltf);
+  const htfEma = resolveAiMaticEmaFlags(htf, emaTrendPeriod);
+  const mtfEma = resolveAiMaticEmaFlags(mtf, emaTrendPeriod);
+  const emaFlags = resolveAiMaticEmaFlags(ltf, emaTrendPeriod);
+  const patterns = resolveAiMaticPatterns(ltf);
+  const mtfPatterns = resolveAiMaticPatterns(mtf);
+  const htfSweep = resolveLiquiditySweep(htf);
+  const mtfSweep = resolveLiquiditySweep(mtf);
+  const ltfSweep = resolveLiquiditySweep(ltf);
+  const htfDir = resolveAiMaticHtfDirection(decision, core);
+  const bosUp = ltfStructure.bosUp;
+  const bosDown = ltfStructure.bosDown;
+  const breakRetestUp = resolveAiMaticBreakRetest(
+    ltf,
+    ltfStructure.lastHigh,
+    "bull"
+  );
+  const breakRetestDown = resolveAiMaticBreakRetest(
+    ltf,
+    ltfStructure.lastLow,
+    "bear"
+  );
+  const ltfVolumeThreshold = Number.isFinite(core?.volumeTodThreshold)
+    ? core!.volumeTodThreshold
+    : core?.volumeP60;
+  const ltfVolumeReaction =
+    Boolean(core?.volumeSpike) ||
+    (Number.isFinite(core?.volumeCurrent) &&
+      Number.isFinite(ltfVolumeThreshold) &&
+      core!.volumeCurrent >= ltfVolumeThreshold);
+  const htfAdx = toNumber((decision as any)?.trendAdx);
+  const htfVolumeRising = resolveVolumeRising(htf);
+  const price = Number.isFinite(ltfLast?.close) ? ltfLast.close : Number.NaN;
+  const ltfCloses = ltf.map((c) => c.close);
+  const ltfRsiArr = computeRsi(ltfCloses, 14);
+  const ltfRsi = ltfRsiArr[ltfRsiArr.length - 1] ?? Number.NaN;
+  const regimeAwareRsi = resolveRegimeAwareRsiBounds({
+    baseOversold: AI_MATIC_RSI_OVERSOLD,
+    baseOverbought: AI_MATIC_RSI_OVERBOUGHT,
+    htfBias: htfDir,
+    regime: (decision as any)?.proRegime,
+  });
+  const rsiEnvelope = computeRsiBollingerEnvelope(ltfRsiArr, {
+    period: 20,
+    stdDev: 2,
+  });
+  const rsiExtremeLong =
+    Number.isFinite(ltfRsi) &&
+    (ltfRsi <= regimeAwareRsi.oversold ||
+      (rsiEnvelope.valid && rsiEnvelope.oversold));
+  const rsiExtremeShort =
+    Number.isFinite(ltfRsi) &&
+    (ltfRsi >= regimeAwareRsi.overbought ||
+      (rsiEnvelope.valid && rsiEnvelope.overbought));
+  const macdState = resolveMacdState(ltfCloses);
+  const momentumLongOk =
+    rsiExtremeLong && (macdState.macdCrossUp || macdState.macdAlignedUp);
+  const momentumShortOk =
+    rsiExtremeShort && (macdState.macdCrossDown || macdState.macdAlignedDown);
+  const gapPresent = resolveGapPresent([...htfPois, ...mtfPois]);
+  const obRetest = resolvePoiTouch([...htfPois, ...mtfPois], price);
+  const pocNear =
+    profile &&
+    Number.isFinite(price) &&
+    Number.isFinite(profile.poc) &&
+    Math.abs(price - profile.poc) <= price * AI_MATIC_POI_DISTANCE_PCT;
+  const lvnRejection = resolveLvnRejection(profile, ltfLast);
+  const poiReactionBull = resolvePoiReaction(htfPois, price, ltfLast, "bull");
+  const poiReactionBear = resolvePoiReaction(htfPois, price, ltfLast, "bear");
+  const mtfPoiReactionBull = resolvePoiReaction(mtfPois, price, ltfLast, "bull");
+  const mtfPoiReactionBear = resolvePoiReaction(mtfPois, price, ltfLast, "bear");
+  const phase = resolveAiMaticPhase({
+    trend: String((decision as any)?.trend ?? ""),
+    adx: htfAdx,
+    sweepHigh: htfSweep.sweepHigh,
+    sweepLow: htfSweep.sweepLow,
+    volumeRising: htfVolumeRising,
+    profile,
+    price,
+    volumeSpike: Boolean(core?.volumeSpike),
+  });
+  const swingModule = resolveAiMaticSwingModule(candles);
+  const ema200ScalpModule = resolveAiMaticEma200ScalpModule(candles, { resample });
+
+  return {
+    htf: {
+      direction: htfDir,
+      adx: htfAdx,
+      phase,
+      ema: htfEma,
+      sweepHigh: htfSweep.sweepHigh,
+      sweepLow: htfSweep.sweepLow,
+      sweepHighWick: htfSweep.sweepHighWick,
+      sweepLowWick: htfSweep.sweepLowWick,
+      swingHigh: htfSweep.swingHigh,
+      swingLow: htfSweep.swingLow,
+      volumeRising: htfVolumeRising,
+      structureTrend: htfStructure.structureTrend,
+      lastHighType: htfStructure.lastHighType,
+      lastLowType: htfStructure.lastLowType,
+      bosUp: htfStructure.bosUp,
+      bosDown: htfStructure.bosDown,
+      chochUp: htfStructure.chochUp,
+      chochDown: htfStructure.chochDown,
+      pivotHigh: htfStructure.lastHigh,
+      pivotLow: htfStructure.lastLow,
+      pois: htfPois,
+      poiReactionBull,
+      poiReactionBear,
+    },
+    mtf: {
+      sweepHigh: mtfSweep.sweepHigh,
+      sweepLow: mtfSweep.sweepLow,
+      sweepHighWick: mtfSweep.sweepHighWick,
+      sweepLowWick: mtfSweep.sweepLowWick,
+      swingHigh: mtfSweep.swingHigh,
+      swingLow: mtfSweep.swingLow,
+      profile,
+      pocNear: Boolean(pocNear),
+      lvnRejectionBull: lvnRejection.bull,
+      lvnRejectionBear: lvnRejection.bear,
+      ema: mtfEma,
+      patterns: mtfPatterns,
+      gapPresent,
+      obRetest,
+      structureTrend: mtfStructure.structureTrend,
+      lastHighType: mtfStructure.lastHighType,
+      lastLowType: mtfStructure.lastLowType,
+      bosUp: mtfStructure.bosUp,
+      bosDown: mtfStructure.bosDown,
+      chochUp: mtfStructure.chochUp,
+      chochDown: mtfStructure.chochDown,
+      pivotHigh: mtfStructure.lastHigh,
+      pivotLow: mtfStructure.lastLow,
+      pois: mtfPois,
+      poiReactionBull: mtfPoiReactionBull,
+      poiReactionBear: mtfPoiReactionBear,
+    },
+    ltf: {
+      patterns,
+      bosUp,
+      bosDown,
+      chochUp: ltfStructure.chochUp,
+      chochDown: ltfStructure.chochDown,
+      breakRetestUp,
+      breakRetestDown,
+      fakeoutHigh: Boolean(core?.ltfFakeBreakHigh),
+      fakeoutLow: Boolean(core?.ltfFakeBreakLow),
+      rsi: ltfRsi,
+      rsiOversold: regimeAwareRsi.oversold,
+      rsiOverbought: regimeAwareRsi.overbought,
+      rsiMode: regimeAwareRsi.mode,
+      rsiBbLower: rsiEnvelope.lower,
+      rsiBbUpper: rsiEnvelope.upper,
+      rsiBbOversold: rsiEnvelope.oversold,
+      rsiBbOverbought: rsiEnvelope.overbought,
+      rsiExtremeLong,
+      rsiExtremeShort,
+      macdHist: macdState.macdHist,
+      macdSignal: macdState.macdSignal,
+      macdCrossUp: macdState.macdCrossUp,
+      macdCrossDown: macdState.macdCrossDown,
+      momentumLongOk,
+      momentumShortOk,
+      sweepHigh: ltfSweep.sweepHigh,
+      sweepLow: ltfSweep.sweepLow,
+      sweepHighWick: ltfSweep.sweepHighWick,
+      sweepLowWick: ltfSweep.sweepLowWick,
+      swingHigh: ltfSweep.swingHigh,
+      swingLow: ltfSweep.swingLow,
+      ema: emaFlags,
+      volumeReaction: ltfVolumeReaction,
+      structureTrend: ltfStructure.structureTrend,
+      lastHighType: ltfStructure.lastHighType,
+      lastLowType: ltfStructure.lastLowType,
+    },
+    swing: swingModule,
+    ema200Scalp: ema200ScalpModule,
+  };
+};
@@ -0,0 +1,608 @@
+// hooks/tradingAiMaticPlan.ts
+// Plán obchodu AI-MATIC: stop loss, cíle, typ vstupu a vyhodnocení bran.
+import { EntryType, Symbol } from "../api/types";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import {
+  AI_MATIC_CHECKLIST_MIN,
+  CORE_V2_ATR_MIN_PCT_ALT,
+  CORE_V2_ATR_MIN_PCT_MAJOR,
+  MAJOR_SYMBOLS,
+  buildAiMaticCoreGroupedGates,
+} from "../engine/executionPolicy";
+import { maxFinite, minFinite, toNumber } from "./tradingSyncHelpers";
+import {
+  resolveOliKellaTrailConfig,
+  resolveTrailingActivationPrice,
+  type AiMaticAdaptiveRiskParams,
+} from "./tradingProtectionHelpers";
+import type { CoreV2Metrics } from "./tradingDecisionHelpers";
+import {
+  buildAiMaticContext,
+  resolveAiMaticBreakRetest,
+  resolveAiMaticEmaFlags,
+  resolveAiMaticPatterns,
+  resolveLiquiditySweep,
+  resolveStructureState,
+  type AiMaticContext,
+  type AiMaticPoi,
+} from "./tradingAiMaticContext";
+import {
+  resolveAiMaticEma200ScalpModule,
+  resolveAiMaticSwingModule,
+} from "./tradingAiMaticSetups";
+
+const AI_MATIC_HARD_MIN = 3;
+
+const AI_MATIC_ENTRY_FACTOR_MIN = 3;
+
+const AI_MATIC_SL_ATR_BUFFER = 0.3;
+const AI_MATIC_MIN_RR = 1.5;
+const AI_MATIC_ENTRY_PULLBACK_MAX_PCT = 0.008;
+const AI_MATIC_ENTRY_RVOL_MIN = 1.3;
+const AI_MATIC_ENTRY_RVOL_MIN_ETH = 1.4;
+const AI_MATIC_ENTRY_WICK_BODY_MIN = 0.5;
+const AI_MATIC_CHECKLIST_ADX_MIN = 22;
+const AI_MATIC_CHECKLIST_SPREAD_MAX_PCT = 0.0002;
+const AI_MATIC_CHECKLIST_FUNDING_ABS_MAX = 0.0002;
+const AI_MATIC_TP1_ATR_MULT = 1.5;
+const AI_MATIC_TP1_PCT_MIN = 0.009;
+const AI_MATIC_TP1_PCT_MAX = 0.012;
+const AI_MATIC_TP2_PCT_MIN = 0.02;
+const AI_MATIC_TP2_PCT_MAX = 0.03;
+
+const AI_MATIC_SL_HARD_CAP_PCT = 0.018;
+const AI_MATIC_SL_HARD_CAP_ATR_MULT = 3.0;
+
+const isAiMaticLondonNySession = (date: Date) => {
+  const hourUtc = date.getUTCHours();
+  const londonHours = hourUtc >= 7 && hourUtc < 16;
+  const nyHours = hourUtc >= 13 && hourUtc < 22;
+  return londonHours || nyHours;
+};
+
+const resolveNearestPoiBoundary = (
+  pois: AiMaticPoi[],
+  side: "Buy" | "Sell",
+  entry: number
+) => {
+  if (!Number.isFinite(entry) || !pois.length) return Number.NaN;
+  if (side === "Buy") {
+    const candidates = pois
+      .map((poi) => poi.low)
+      .filter((v) => Number.isFinite(v) && v < entry);
+    return candidates.length ? Math.max(...(candidates as number[])) : Number.NaN;
+  }
+  const candidates = pois
+    .map((poi) => poi.high)
+    .filter((v) => Number.isFinite(v) && v > entry);
+  return candidates.length ? Math.min(...(candidates as number[])) : Number.NaN;
+};
+
+export const resolveAiMaticStopLoss = (args: {
+  side: "Buy" | "Sell";
+  entry: number;
+  currentSl?: number;
+  atr?: number;
+  aiMatic?: AiMaticContext | null;
+  core?: CoreV2Metrics;
+  riskParams?: AiMaticAdaptiveRiskParams;
+}) => {
+  const { side, entry, currentSl, atr, aiMatic, core, riskParams } = args;
+  if (!Number.isFinite(entry) || entry <= 0) return Number.NaN;
+  const pivotLow = minFinite(
+    aiMatic?.htf.pivotLow,
+    aiMatic?.mtf.pivotLow,
+    core?.lastPivotLow,
+    core?.pivotLow
+  );
+  const pivotHigh = maxFinite(
+    aiMatic?.htf.pivotHigh,
+    aiMatic?.mtf.pivotHigh,
+    core?.lastPivotHigh,
+    core?.pivotHigh
+  );
+  const pois = [
+    ...(aiMatic?.htf.pois ?? []),
+    ...(aiMatic?.mtf.pois ?? []),
+  ];
+  const poiBoundary = resolveNearestPoiBoundary(pois, side, entry);
+  const sweepBase =
+    side === "Buy"
+      ? minFinite(
+          aiMatic?.ltf.sweepLowWick,
+          aiMatic?.mtf.sweepLowWick,
+          aiMatic?.htf.sweepLowWick
+        )
+      : maxFinite(
+          aiMatic?.ltf.sweepHighWick,
+          aiMatic?.mtf.sweepHighWick,
+          aiMatic?.htf.sweepHighWick
+        );
+  const buffer = Number.isFinite(atr) ? atr * AI_MATIC_SL_ATR_BUFFER : 0;
+  let candidate = Number.NaN;
+  if (side === "Buy") {
+    const base = minFinite(pivotLow, poiBoundary, sweepBase);
+    if (Number.isFinite(base)) {
+      candidate = base - buffer;
+    }
+  } else {
+    const base = maxFinite(pivotHigh, poiBoundary, sweepBase);
+    if (Number.isFinite(base)) {
+      candidate = base + buffer;
+    }
+  }
+  if (!Number.isFinite(candidate) || candidate <= 0) return Number.NaN;
+  const hardCapByPct = entry * (riskParams?.hardCapPct ?? AI_MATIC_SL_HARD_CAP_PCT);
+  const hardCapByAtr =
+    Number.isFinite(atr) && (atr as number) > 0
+      ? (atr as number) *
+        (riskParams?.hardCapAtrMult ?? AI_MATIC_SL_HARD_CAP_ATR_MULT)
+      : Number.POSITIVE_INFINITY;
+  const hardCapDistance = Math.min(hardCapByPct, hardCapByAtr);
+  if (Number.isFinite(hardCapDistance) && hardCapDistance > 0) {
+    if (side === "Buy") {
+      const capped = entry - hardCapDistance;
+      if (candidate < capped) candidate = capped;
+    } else {
+      const capped = entry + hardCapDistance;
+      if (candidate > capped) candidate = capped;
+    }
+  }
+  if (
+    Number.isFinite(currentSl) &&
+    Number.isFinite(hardCapDistance) &&
+    hardCapDistance > 0
+  ) {
+    if (side === "Buy") {
+      const cappedCurrent = entry - hardCapDistance;
+      if ((currentSl as number) < cappedCurrent) {
+        return cappedCurrent;
+      }
+    } else {
+      const cappedCurrent = entry + hardCapDistance;
+      if ((currentSl as number) > cappedCurrent) {
+        return cappedCurrent;
+      }
+    }
+  }
+  if (!Number.isFinite(currentSl)) return candidate;
+  if (side === "Buy") {
+    return candidate < (currentSl as number) ? candidate : Number.NaN;
+  }
+  return candidate > (currentSl as number) ? candidate : Number.NaN;
+};
+
+export type AiMaticTargetPlan = {
+  tp1: number;
+  tp2: number;
+};
+
+export const resolveAiMaticTargetPlan = (args: {
+  side: "Buy" | "Sell";
+  entry: number;
+  sl: number;
+  atr?: number;
+  aiMatic?: AiMaticContext | null;
+}): AiMaticTargetPlan => {
+  const { side, entry, sl, atr, aiMatic } = args;
+  if (!Number.isFinite(entry) || !Number.isFinite(sl)) {
+    return { tp1: Number.NaN, tp2: Number.NaN };
+  }
+  const risk = Math.abs(entry - sl);
+  if (!Number.isFinite(risk) || risk <= 0) {
+    return { tp1: Number.NaN, tp2: Number.NaN };
+  }
+  const targets = new Set<number>();
+  const add = (value: number | undefined | null) => {
+    if (!Number.isFinite(value)) return;
+    targets.add(value as number);
+  };
+  const profile = aiMatic?.mtf.profile ?? null;
+  if (profile) {
+    add(profile.poc);
+    if (side === "Buy") {
+      add(profile.vah);
+      profile.hvn?.forEach(add);
+    } else {
+      add(profile.val);
+      profile.lvn?.forEach(add);
+    }
+  }
+  const pois = [
+    ...(aiMatic?.htf.pois ?? []),
+    ...(aiMatic?.mtf.pois ?? []),
+  ];
+  for (const poi of pois) {
+    if (side === "Buy") add(poi.high);
+    else add(poi.low);
+  }
+  if (side === "Buy") add(aiMatic?.htf.pivotHigh ?? aiMatic?.mtf.pivotHigh);
+  else add(aiMatic?.htf.pivotLow ?? aiMatic?.mtf.pivotLow);
+
+  const list = Array.from(targets)
+    .filter((v) =>
+      side === "Buy" ? v > entry : v < entry
+    )
+    .sort((a, b) => Math.abs(a - entry) - Math.abs(b - entry));
+
+  const direction = side === "Buy" ? 1 : -1;
+  const pctMove = (price: number) => Math.abs(price - entry) / entry;
+  const isBeyond = (a: number, b: number) =>
+    side === "Buy" ? a > b : a < b;
+  const pctTarget = (pct: number) => entry * (1 + direction * pct);
+  const pickInPctRange = (
+    minPct: number,
+    maxPct: number,
+    minLevel?: number
+  ) =>
+    list.find((candidate) => {
+      if (Number.isFinite(minLevel) && !isBeyond(candidate, minLevel as number)) {
+        return false;
+      }
+      const pct = pctMove(candidate);
+      return pct >= minPct && pct <= maxPct;
+    });
+  const pickNextBeyond = (level: number) =>
+    list.find((candidate) => isBeyond(candidate, level));
+
+  const atrTarget =
+    Number.isFinite(atr) && (atr as number) > 0
+      ? side === "Buy"
+        ? entry + AI_MATIC_TP1_ATR_MULT * (atr as number)
+        : entry - AI_MATIC_TP1_ATR_MULT * (atr as number)
+      : Number.NaN;
+
+  let tp1 = pickInPctRange(AI_MATIC_TP1_PCT_MIN, AI_MATIC_TP1_PCT_MAX);
+  if (!Number.isFinite(tp1) && Number.isFinite(atrTarget) && atrTarget > 0) {
+    for (const candidate of list) {
+      if (side === "Buy" ? candidate >= atrTarget : candidate <= atrTarget) {
+        tp1 = candidate;
+        break;
+      }
+    }
+    if (!Number.isFinite(tp1)) {
+      tp1 = atrTarget;
+    }
+  }
+
+  if (!Number.isFinite(tp1)) {
+    const minTarget =
+      side === "Buy" ? entry + risk * AI_MATIC_MIN_RR : entry - risk * AI_MATIC_MIN_RR;
+    for (const candidate of list) {
+      if (side === "Buy" ? candidate >= minTarget : candidate <= minTarget) {
+        tp1 = candidate;
+        break;
+      }
+    }
+  }
+
+  if (!Number.isFinite(tp1)) {
+    tp1 = pctTarget((AI_MATIC_TP1_PCT_MIN + AI_MATIC_TP1_PCT_MAX) / 2);
+  }
+
+  let tp2 = pickInPctRange(AI_MATIC_TP2_PCT_MIN, AI_MATIC_TP2_PCT_MAX, tp1);
+  if (!Number.isFinite(tp2)) {
+    tp2 = pickNextBeyond(tp1 as number);
+  }
+  if (!Number.isFinite(tp2)) {
+    tp2 = pctTarget((AI_MATIC_TP2_PCT_MIN + AI_MATIC_TP2_PCT_MAX) / 2);
+  }
+  if (!Number.isFinite(tp2) || !isBeyond(tp2, tp1 as number)) {
+    const minDistance = entry * AI_MATIC_TP2_PCT_MIN;
+    tp2 = side === "Buy" ? (tp1 as number) + minDistance : (tp1 as number) - minDistance;
+  }
+
+  return {
+    tp1: Number.isFinite(tp1) ? (tp1 as number) : Number.NaN,
+    tp2: Number.isFinite(tp2) ? (tp2 as number) : Number.NaN,
+  };
+};
+
+const resolveAiMaticTargets = (args: {
+  side: "Buy" | "Sell";
+  entry: number;
+  sl: number;
+  atr?: number;
+  aiMatic?: AiMaticContext | null;
+}) => {
+  return resolveAiMaticTargetPlan(args).tp1;
+};
+
+type EnabledEntryType = Exclude<EntryType, "MARKET_DISABLED">;
+
+export const resolveAiMaticEntryType = (args: {
+  aiMatic: AiMaticContext;
+  side: "Buy" | "Sell";
+  entry: number;
+}): { entryType: EnabledEntryType; triggerPrice?: number; allowMarket: boolean } => {
+  const { aiMatic, side, entry } = args;
+  const dir = side === "Buy" ? "bull" : "bear";
+  const patterns = aiMatic.ltf.patterns;
+  const insideBreakout =
+    patterns.insideBar &&
+    (dir === "bull"
+      ? aiMatic.ltf.bosUp || aiMatic.ltf.breakRetestUp
+      : aiMatic.ltf.bosDown || aiMatic.ltf.breakRetestDown);
+  const strongPattern =
+    dir === "bull"
+      ? patterns.pinbarBull || patterns.engulfBull || patterns.trapBull || insideBreakout
+      : patterns.pinbarBear || patterns.engulfBear || patterns.trapBear || insideBreakout;
+  const momentumOk =
+    dir === "bull" ? aiMatic.ltf.momentumLongOk : aiMatic.ltf.momentumShortOk;
+  const strongReaction = strongPattern && aiMatic.ltf.volumeReaction && momentumOk;
+  if (strongReaction) {
+    return { entryType: "LIMIT_MAKER_FIRST", allowMarket: false };
+  }
+  const breakoutOk =
+    dir === "bull"
+      ? aiMatic.ltf.bosUp || aiMatic.ltf.breakRetestUp
+      : aiMatic.ltf.bosDown || aiMatic.ltf.breakRetestDown;
+  if (breakoutOk) {
+    const triggerBase =
+      dir === "bull"
+        ? maxFinite(
+            entry,
+            aiMatic.ltf.swingHigh,
+            aiMatic.mtf.pivotHigh,
+            aiMatic.htf.pivotHigh
+          )
+        : minFinite(
+            entry,
+            aiMatic.ltf.swingLow,
+            aiMatic.mtf.pivotLow,
+            aiMatic.htf.pivotLow
+          );
+    const triggerPrice =
+      Number.isFinite(triggerBase) && triggerBase > 0 ? triggerBase : undefined;
+    return { entryType: "CONDITIONAL", triggerPrice, allowMarket: false };
+  }
+  return { entryType: "LIMIT_MAKER_FIRST", allowMarket: false };
+};
+
+type AiMaticGate = { name: string; ok: boolean; detail?: string; pending?: boolean };
+type AiMaticGateEval = {
+  hardGates: AiMaticGate[];
+  entryFactors: AiMaticGate[];
+  checklist: AiMaticGate[];
+  hardPass: boolean;
+  entryFactorsPass: boolean;
+  checklistPass: boolean;
+  pass: boolean;
+};
+
+const evaluateAiMaticGatesCore = (args: {
+  decision: PriceFeedDecision | null | undefined;
+  signal: PriceFeedDecision["signal"] | null | undefined;
+  correlationOk: boolean;
+  dominanceOk: boolean;
+  symbol?: string;
+  nowTs?: number;
+  lossStreak?: number;
+  takerFeePct?: number;
+}): AiMaticGateEval => {
+  const aiMatic = (args.decision as any)?.aiMatic as AiMaticContext | null;
+  const core = (args.decision as any)?.coreV2 as CoreV2Metrics | undefined;
+  const orderflow = (args.decision as any)?.orderflow as
+    | { bestBid?: number; bestAsk?: number }
+    | undefined;
+  const signal = args.signal ?? null;
+  const empty: AiMaticGateEval = {
+    hardGates: [],
+    entryFactors: [],
+    checklist: [],
+    hardPass: false,
+    entryFactorsPass: false,
+    checklistPass: false,
+    pass: false,
+  };
+  if (!aiMatic || !signal) return empty;
+  const sideRaw = String(signal.intent?.side ?? "").toLowerCase();
+  const dir = sideRaw === "buy" ? "bull" : sideRaw === "sell" ? "bear" : null;
+  if (!dir) return empty;
+
+  const symbolUpper = String(args.symbol ?? "").toUpperCase();
+  const nowTs = Number.isFinite(args.nowTs) ? (args.nowTs as number) : Date.now();
+  const lossStreak = Number.isFinite(args.lossStreak)
+    ? (args.lossStreak as number)
+    : 0;
+  const takerFeePct = Number.isFinite(args.takerFeePct)
+    ? Math.max(0, args.takerFeePct as number)
+    : 0.06;
+  const takerFeeRate = takerFeePct / 100;
+  const entry = toNumber(signal.intent?.entry);
+  const stopLoss = toNumber(signal.intent?.sl);
+  const takeProfit = toNumber(signal.intent?.tp);
+  const riskDistance =
+    Number.isFinite(entry) && Number.isFinite(stopLoss)
+      ? Math.abs(entry - stopLoss)
+      : Number.NaN;
+  const rewardDistance =
+    Number.isFinite(entry) && Number.isFinite(takeProfit)
+      ? Math.abs(takeProfit - entry)
+      : Number.NaN;
+  const feeDistance =
+    Number.isFinite(entry) && entry > 0 ? entry * takerFeeRate * 2 : Number.NaN;
+  const netRisk =
+    Number.isFinite(riskDistance) && Number.isFinite(feeDistance)
+      ? riskDistance + feeDistance
+      : Number.NaN;
+  const netReward =
+    Number.isFinite(rewardDistance) && Number.isFinite(feeDistance)
+      ? rewardDistance - feeDistance
+      : Number.NaN;
+  const rrAfterFees =
+    Number.isFinite(netReward) && Number.isFinite(netRisk) && netRisk > 0
+      ? netReward / netRisk
+      : Number.NaN;
+
+  const structureAligned =
+    dir === "bull"
+      ? aiMatic.htf.structureTrend === "BULL"
+      : aiMatic.htf.structureTrend === "BEAR";
+  const htfEmaOk =
+    dir === "bull" ? aiMatic.htf.ema?.bullOk : aiMatic.htf.ema?.bearOk;
+  const htfEmaValid = Number.isFinite(aiMatic.htf.ema?.ema200);
+  const htfAligned =
+    htfEmaValid &&
+    aiMatic.htf.ema.breakoutRecent &&
+    aiMatic.htf.ema.confirmed
+      ? Boolean(htfEmaOk)
+      : structureAligned;
+  const mtfStructureOk =
+    dir === "bull"
+      ? aiMatic.mtf.bosUp || aiMatic.mtf.chochUp
+      : aiMatic.mtf.bosDown || aiMatic.mtf.chochDown;
+  const sweepOk =
+    dir === "bull"
+      ? aiMatic.htf.sweepLow ||
+        aiMatic.mtf.sweepLow ||
+        aiMatic.ltf.sweepLow ||
+        aiMatic.ltf.fakeoutLow
+      : aiMatic.htf.sweepHigh ||
+        aiMatic.mtf.sweepHigh ||
+        aiMatic.ltf.sweepHigh ||
+        aiMatic.ltf.fakeoutHigh;
+  const htfPoiReaction =
+    dir === "bull" ? aiMatic.htf.poiReactionBull : aiMatic.htf.poiReactionBear;
+  const mtfPoiReaction =
+    dir === "bull" ? aiMatic.mtf.poiReactionBull : aiMatic.mtf.poiReactionBear;
+  const obReactionOk = htfPoiReaction || mtfPoiReaction;
+  const gapPresent = Boolean(aiMatic.mtf.gapPresent);
+  const obRetestOk = Boolean(aiMatic.mtf.obRetest);
+  const inPoiZoneOk = obReactionOk || gapPresent || obRetestOk;
+  const rrAfterFeesOk =
+    Number.isFinite(rrAfterFees) && rrAfterFees >= AI_MATIC_MIN_RR;
+
+  const ltfClose = toNumber(core?.ltfClose);
+  const ltfEma200 = toNumber(aiMatic.ltf.ema?.ema200);
+  const pullbackPct =
+    Number.isFinite(ltfClose) && Number.isFinite(ltfEma200) && ltfClose > 0
+      ? Math.abs(ltfClose - ltfEma200) / ltfClose
+      : Number.NaN;
+  const pullbackOk =
+    Number.isFinite(pullbackPct) &&
+    pullbackPct <= AI_MATIC_ENTRY_PULLBACK_MAX_PCT;
+  const rvolThreshold =
+    symbolUpper === "ETHUSDT"
+      ? AI_MATIC_ENTRY_RVOL_MIN_ETH
+      : AI_MATIC_ENTRY_RVOL_MIN;
+  const rvol = toNumber(core?.volumeTodRatio);
+  const rvolOk = Number.isFinite(rvol)
+    ? rvol >= rvolThreshold
+    : Boolean(aiMatic.ltf.volumeReaction);
+  const ltfOpen = toNumber(core?.ltfOpen);
+  const ltfHigh = toNumber(core?.ltfHigh);
+  const ltfLow = toNumber(core?.ltfLow);
+  const ltfBody =
+    Number.isFinite(ltfOpen) && Number.isFinite(ltfClose)
+      ? Math.max(Math.abs(ltfClose - ltfOpen), 1e-8)
+      : Number.NaN;
+  const rejectionWick =
+    Number.isFinite(ltfOpen) &&
+    Number.isFinite(ltfClose) &&
+    Number.isFinite(ltfHigh) &&
+    Number.isFinite(ltfLow)
+      ? dir === "bull"
+        ? Math.min(ltfOpen, ltfClose) - ltfLow
+        : ltfHigh - Math.max(ltfOpen, ltfClose)
+      : Number.NaN;
+  const rejectionRatio =
+    Number.isFinite(rejectionWick) && Number.isFinite(ltfBody)
+      ? rejectionWick / ltfBody
+      : Number.NaN;
+  const rejectionOk =
+    Number.isFinite(rejectionRatio) &&
+    rejectionRatio >= AI_MATIC_ENTRY_WICK_BODY_MIN;
+
+  const adx = toNumber((args.decision as any)?.trendAdx);
+  const adxOk = Number.isFinite(adx) && adx >= AI_MATIC_CHECKLIST_ADX_MIN;
+  const bid = toNumber(orderflow?.bestBid);
+  const ask = toNumber(orderflow?.bestAsk);
+  const spreadPct =
+    Number.isFinite(bid) &&
+    Number.isFinite(ask) &&
+    bid > 0 &&
+    ask > 0 &&
+    ask >= bid
+      ? (ask - bid) / ((ask + bid) / 2)
+      : Number.NaN;
+  const spreadOk = !Number.isFinite(spreadPct)
+    ? true
+    : spreadPct <= AI_MATIC_CHECKLIST_SPREAD_MAX_PCT;
+  const fundingRate = toNumber(
+    (args.decision as any)?.fundingRate ?? (args.decision as any)?.funding
+  );
+  const fundingNeutralOk = !Number.isFinite(fundingRate)
+    ? true
+    : Math.abs(fundingRate) <= AI_MATIC_CHECKLIST_FUNDING_ABS_MAX;
+  const isMajor = MAJOR_SYMBOLS.has(symbolUpper as Symbol);
+  const atrFloor = isMajor ? CORE_V2_ATR_MIN_PCT_MAJOR : CORE_V2_ATR_MIN_PCT_ALT;
+  const atrPct = toNumber(core?.atrPct);
+  const atrOk = Number.isFinite(atrPct) && atrPct >= atrFloor;
+  const noOpposingHtfSupplyOk =
+    dir === "bull"
+      ? aiMatic.htf.structureTrend !== "BEAR" && !aiMatic.htf.chochDown
+      : aiMatic.htf.structureTrend !== "BULL" && !aiMatic.htf.chochUp;
+  const riskBudgetOk =
+    args.correlationOk &&
+    args.dominanceOk &&
+    Number.isFinite(riskDistance) &&
+    riskDistance > 0;
+  const lossStreakOk = lossStreak <= 3;
+  const sessionOk = isAiMaticLondonNySession(new Date(nowTs));
+
+  const hardGates: AiMaticGate[] = [
+    { name: "HTF trend alignment", ok: htfAligned },
+    { name: "5m BOS/CHOCH", ok: mtfStructureOk },
+    { name: "OB/FVG zone", ok: inPoiZoneOk },
+    { name: `RRR >= ${AI_MATIC_MIN_RR} (fees)`, ok: rrAfterFeesOk },
+  ];
+  const entryFactors: AiMaticGate[] = [
+    { name: "5m EMA pullback <= 0.8%", ok: pullbackOk },
+    { name: `RVOL >= ${rvolThreshold}`, ok: rvolOk },
+    { name: "Liquidity sweep", ok: sweepOk },
+    { name: "Rejection wick/body >= 0.5", ok: rejectionOk },
+  ];
+  const checklist: AiMaticGate[] = [
+    { name: "Session London/NY", ok: sessionOk },
+    { name: "ADX >= 22", ok: adxOk },
+    { name: "Spread <= 0.02%", ok: spreadOk },
+    { name: "Funding neutral", ok: fundingNeutralOk },
+    { name: "ATR volatility floor", ok: atrOk },
+    { name: "No HTF supply against", ok: noOpposingHtfSupplyOk },
+    { name: "Risk budget available", ok: riskBudgetOk },
+    { name: "Loss streak <= 3", ok: lossStreakOk },
+  ];
+  const hardPass =
+    hardGates.filter((g) => g.ok).length >= AI_MATIC_HARD_MIN;
+  const entryFactorsPass =
+    entryFactors.filter((g) => g.ok).length >= AI_MATIC_ENTRY_FACTOR_MIN;
+  const checklistPass =
+    checklist.filter((g) => g.ok).length >= AI_MATIC_CHECKLIST_MIN;
+  return {
+    hardGates,
+    entryFactors,
+    checklist,
+    hardPass,
+    entryFactorsPass,
+    checklistPass,
+    pass: hardPass && entryFactorsPass && checklistPass,
+  };
+};
+
+export const __aiMaticTest = {
+  resolveAiMaticPatterns,
+  resolveAiMaticEmaFlags,
+  resolveAiMaticBreakRetest,
+  resolveLiquiditySweep,
+  resolveStructureState,
+  resolveAiMaticSwingModule,
+  resolveAiMaticEma200ScalpModule,
+  resolveAiMaticStopLoss,
+  resolveAiMaticTargets,
+  evaluateAiMaticGatesCore,
+  buildAiMaticCoreGroupedGates,
+  buildAiMaticContext,
+  resolveTrailingActivationPrice,
+  resolveOliKellaTrailConfig,
+};
@@ -0,0 +1,622 @@
+// hooks/tradingAiMaticSetups.ts
+// Setupy AI-MATIC: swing z fraktálů a EMA200 scalp modul.
+import { resampleCandles, type Candle } from "../engine/botEngine";
+import {
+  computeEma,
+  findPivotsHigh,
+  findPivotsLow,
+  computeATR,
+} from "../engine/ta";
+
+const AI_MATIC_SWING_K_5M = 3;
+const AI_MATIC_SWING_K_15M = 2;
+const AI_MATIC_SWING_RANGE_ATR_MIN_5M = 1.8;
+const AI_MATIC_SWING_RANGE_ATR_MIN_15M = 1.5;
+const AI_MATIC_SWING_ZONE_ATR = 0.25;
+const AI_MATIC_SWING_LIMIT_OFFSET_ATR = 0.1;
+const AI_MATIC_SWING_CONFIRM_OFFSET_ATR = 0.35;
+const AI_MATIC_SWING_CONFIRM_LIMIT_OFFSET_ATR = 0.05;
+const AI_MATIC_SWING_SL_OFFSET_ATR = 0.45;
+const AI_MATIC_SWING_TP2_FRONTRUN_ATR = 0.2;
+const AI_MATIC_SWING_CANCEL_RUNAWAY_ATR = 0.6;
+const AI_MATIC_SWING_TP1_PARTIAL_FRACTION = 0.45;
+
+const AI_MATIC_EMA200_MODULE_BREAKOUT_LOOKBACK = 8;
+const AI_MATIC_EMA200_MODULE_VOL_SMA_PERIOD = 20;
+const AI_MATIC_EMA200_MODULE_SL_ATR_MULT = 1.5;
+const AI_MATIC_EMA200_MODULE_AOI_TOUCH_ATR = 0.2;
+const AI_MATIC_EMA200_MODULE_MICRO_VOL_SMA_PERIOD = 20;
+
+export type AiMaticSwingSideSetup = {
+  enabled: boolean;
+  entryType: "LIMIT_MAKER_FIRST" | "CONDITIONAL";
+  entry: number;
+  trigger?: number;
+  sl: number;
+  tp1: number;
+  tp2: number;
+  tp1Fraction: number;
+};
+
+type AiMaticSwingTfPlan = {
+  timeframeMin: 5 | 15;
+  k: number;
+  atr: number;
+  rangeEligible: boolean;
+  rangeReason: string;
+  swingHigh: number;
+  swingLow: number;
+  rangeWidth: number;
+  buy?: AiMaticSwingSideSetup;
+  sell?: AiMaticSwingSideSetup;
+};
+
+export type AiMaticSwingModule = {
+  active: boolean;
+  activeTfMin?: 5 | 15;
+  reason: string;
+  plans: AiMaticSwingTfPlan[];
+  buy?: AiMaticSwingSideSetup;
+  sell?: AiMaticSwingSideSetup;
+};
+
+export type AiMaticEma200ScalpSideSetup = {
+  enabled: boolean;
+  mode: "BREAKOUT_PULLBACK_LIMIT" | "AOI_REVERSAL_MARKET";
+  entryType: "LIMIT_MAKER_FIRST" | "MARKET";
+  entry: number;
+  sl: number;
+  tp: number;
+  sourceTfMin: 1 | 3 | 5;
+};
+
+export type AiMaticEma200ScalpModule = {
+  active: boolean;
+  reason: string;
+  baseTfMin: 5;
+  htfTfMin: 60;
+  microTfMin: 1 | 3;
+  ema200: number;
+  atr14: number;
+  nearestSupport: number;
+  nearestResistance: number;
+  buy?: AiMaticEma200ScalpSideSetup;
+  sell?: AiMaticEma200ScalpSideSetup;
+};
+
+export const resolveMacdState = (closes: number[]) => {
+  if (closes.length < 3) {
+    return {
+      macdHist: Number.NaN,
+      macdSignal: Number.NaN,
+      macdCrossUp: false,
+      macdCrossDown: false,
+      macdAlignedUp: false,
+      macdAlignedDown: false,
+    };
+  }
+  const ema12 = computeEma(closes, 12);
+  const ema26 = computeEma(closes, 26);
+  const size = Math.min(ema12.length, ema26.length);
+  const macd = ema12.slice(0, size).map((v, i) => v - (ema26[i] ?? 0));
+  const signal = computeEma(macd, 9);
+  const hist = macd.map((v, i) => v - (signal[i] ?? 0));
+  const macdHist = hist[hist.length - 1] ?? Number.NaN;
+  const macdHistPrev = hist[hist.length - 2] ?? Number.NaN;
+  const macdSignal = signal[signal.length - 1] ?? Number.NaN;
+  const macdCrossUp = macdHist > 0 && macdHistPrev <= 0;
+  const macdCrossDown = macdHist < 0 && macdHistPrev >= 0;
+  return {
+    macdHist,
+    macdSignal,
+    macdCrossUp,
+    macdCrossDown,
+    macdAlignedUp: macdHist > 0,
+    macdAlignedDown: macdHist < 0,
+  };
+};
+
+const resolveFractalPivots = (candles: Candle[], k: number) => {
+  const highs: { idx: number; price: number }[] = [];
+  const lows: { idx: number; price: number }[] = [];
+  if (!candles.length || k < 1 || candles.length < k * 2 + 1) {
+    return { highs, lows };
+  }
+  for (let i = k; i < candles.length - k; i++) {
+    const center = candles[i];
+    if (!center) continue;
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - k; j <= i + k; j++) {
+      if (j === i) continue;
+      const other = candles[j];
+      if (!other) continue;
+      if (!(center.high > other.high)) isHigh = false;
+      if (!(center.low < other.low)) isLow = false;
+      if (!isHigh && !isLow) break;
+    }
+    if (isHigh) highs.push({ idx: i, price: center.high });
+    if (isLow) lows.push({ idx: i, price: center.low });
+  }
+  return { highs, lows };
+};
+
+const resolveSwingAtr = (candles: Candle[]) => {
+  if (!candles.length) return Number.NaN;
+  const highs = candles.map((c) => c.high);
+  const lows = candles.map((c) => c.low);
+  const closes = candles.map((c) => c.close);
+  const atrArr = computeATR(highs, lows, closes, 14);
+  return atrArr[atrArr.length - 1] ?? Number.NaN;
+};
+
+const buildAiMaticSwingSideSetup = (args: {
+  side: "Buy" | "Sell";
+  candles: Candle[];
+  atr: number;
+  swingHigh: number;
+  swingLow: number;
+}): AiMaticSwingSideSetup | undefined => {
+  const { side, candles, atr, swingHigh, swingLow } = args;
+  if (!Number.isFinite(atr) || atr <= 0 || !candles.length) return undefined;
+  const last = candles[candles.length - 1];
+  if (!last) return undefined;
+  const zoneHalf = AI_MATIC_SWING_ZONE_ATR * atr;
+  const limitOffset = AI_MATIC_SWING_LIMIT_OFFSET_ATR * atr;
+  const confirmOffset = AI_MATIC_SWING_CONFIRM_OFFSET_ATR * atr;
+  const confirmLimitOffset = AI_MATIC_SWING_CONFIRM_LIMIT_OFFSET_ATR * atr;
+  const slOffset = AI_MATIC_SWING_SL_OFFSET_ATR * atr;
+  const tpFrontRun = AI_MATIC_SWING_TP2_FRONTRUN_ATR * atr;
+  const runawayOffset = AI_MATIC_SWING_CANCEL_RUNAWAY_ATR * atr;
+  const recent = candles.slice(-3);
+  const midRange = (swingHigh + swingLow) / 2;
+
+  if (side === "Buy") {
+    if (!Number.isFinite(swingLow) || !Number.isFinite(swingHigh)) return undefined;
+    const zoneLow = swingLow - zoneHalf;
+    const zoneHigh = swingLow + zoneHalf;
+    const touched = recent.some(
+      (c) =>
+        Number.isFinite(c.low) &&
+        Number.isFinite(c.high) &&
+        c.low <= zoneHigh &&
+        c.high >= zoneLow
+    );
+    const trigger = swingLow + confirmOffset;
+    const confirmed = touched && Number.isFinite(last.close) && last.close >= trigger;
+    const runaway =
+      Number.isFinite(last.close) && last.close > swingLow + runawayOffset;
+    const entryType = confirmed ? "CONDITIONAL" : "LIMIT_MAKER_FIRST";
+    const entry = confirmed ? trigger + confirmLimitOffset : swingLow + limitOffset;
+    if (runaway && !confirmed) return undefined;
+    const sl = swingLow - slOffset;
+    const tp1 = midRange;
+    const tp2 = swingHigh - tpFrontRun;
+    if (
+      !Number.isFinite(entry) ||
+      !Number.isFinite(sl) ||
+      !Number.isFinite(tp1) ||
+      !Number.isFinite(tp2) ||
+      sl >= entry ||
+      tp1 <= entry ||
+      tp2 <= tp1
+    ) {
+      return undefined;
+    }
+    return {
+      enabled: true,
+      entryType,
+      entry,
+      trigger: confirmed ? trigger : undefined,
+      sl,
+      tp1,
+      tp2,
+      tp1Fraction: AI_MATIC_SWING_TP1_PARTIAL_FRACTION,
+    };
+  }
+
+  const zoneLow = swingHigh - zoneHalf;
+  const zoneHigh = swingHigh + zoneHalf;
+  const touched = recent.some(
+    (c) =>
+      Number.isFinite(c.low) &&
+      Number.isFinite(c.high) &&
+      c.low <= zoneHigh &&
+      c.high >= zoneLow
+  );
+  const trigger = swingHigh - confirmOffset;
+  const confirmed = touched && Number.isFinite(last.close) && last.close <= trigger;
+  const runaway =
+    Number.isFinite(last.close) && last.close < swingHigh - runawayOffset;
+  const entryType = confirmed ? "CONDITIONAL" : "LIMIT_MAKER_FIRST";
+  const entry = confirmed ? trigger - confirmLimitOffset : swingHigh - limitOffset;
+  if (runaway && !confirmed) return undefined;
+  const sl = swingHigh + slOffset;
+  const tp1 = midRange;
+  const tp2 = swingLow + tpFrontRun;
+  if (
+    !Number.isFinite(entry) ||
+    !Number.isFinite(sl) ||
+    !Number.isFinite(tp1) ||
+    !Number.isFinite(tp2) ||
+    sl <= entry ||
+    tp1 >= entry ||
+    tp2 >= tp1
+  ) {
+    return undefined;
+  }
+  return {
+    enabled: true,
+    entryType,
+    entry,
+    trigger: confirmed ? trigger : undefined,
+    sl,
+    tp1,
+    tp2,
+    tp1Fraction: AI_MATIC_SWING_TP1_PARTIAL_FRACTION,
+  };
+};
+
+const buildAiMaticSwingTfPlan = (args: {
+  candles: Candle[];
+  timeframeMin: 5 | 15;
+}): AiMaticSwingTfPlan => {
+  const { candles, timeframeMin } = args;
+  const k = timeframeMin === 5 ? AI_MATIC_SWING_K_5M : AI_MATIC_SWING_K_15M;
+  const atrMinMult =
+    timeframeMin === 5
+      ? AI_MATIC_SWING_RANGE_ATR_MIN_5M
+      : AI_MATIC_SWING_RANGE_ATR_MIN_15M;
+  const atr = resolveSwingAtr(candles);
+  const pivots = resolveFractalPivots(candles, k);
+  const lastHigh = pivots.highs[pivots.highs.length - 1]?.price;
+  const lastLow = pivots.lows[pivots.lows.length - 1]?.price;
+  const prevHigh = pivots.highs[pivots.highs.length - 2]?.price;
+  const prevLow = pivots.lows[pivots.lows.length - 2]?.price;
+  const base: AiMaticSwingTfPlan = {
+    timeframeMin,
+    k,
+    atr,
+    rangeEligible: false,
+    rangeReason: "insufficient_swings",
+    swingHigh: Number.isFinite(lastHigh) ? (lastHigh as number) : Number.NaN,
+    swingLow: Number.isFinite(lastLow) ? (lastLow as number) : Number.NaN,
+    rangeWidth:
+      Number.isFinite(lastHigh) && Number.isFinite(lastLow)
+        ? (lastHigh as number) - (lastLow as number)
+        : Number.NaN,
+  };
+  if (
+    !Number.isFinite(lastHigh) ||
+    !Number.isFinite(lastLow) ||
+    !Number.isFinite(prevHigh) ||
+    !Number.isFinite(prevLow) ||
+    !Number.isFinite(atr) ||
+    atr <= 0
+  ) {
+    return base;
+  }
+  const hhhl =
+    (lastHigh as number) > (prevHigh as number) &&
+    (lastLow as number) > (prevLow as number);
+  const lllh =
+    (lastHigh as number) < (prevHigh as number) &&
+    (lastLow as number) < (prevLow as number);
+  const structureRange = !hhhl && !lllh;
+  const width = (lastHigh as number) - (lastLow as number);
+  const widthOk = width >= atrMinMult * (atr as number);
+  const rangeEligible = structureRange && widthOk;
+  const buy = rangeEligible
+    ? buildAiMaticSwingSideSetup({
+        side: "Buy",
+        candles,
+        atr,
+        swingHigh: lastHigh as number,
+        swingLow: lastLow as number,
+      })
+    : undefined;
+  const sell = rangeEligible
+    ? buildAiMaticSwingSideSetup({
+        side: "Sell",
+        candles,
+        atr,
+        swingHigh: lastHigh as number,
+        swingLow: lastLow as number,
+      })
+    : undefined;
+  return {
+    ...base,
+    rangeEligible,
+    rangeReason: !structureRange
+      ? "trend_sequence"
+      : !widthOk
+        ? "range_too_tight"
+        : "ok",
+    buy,
+    sell,
+  };
+};
+
+export const resolveAiMaticSwingModule = (candles: Candle[]): AiMaticSwingModule => {
+  const m15 = resampleCandles(candles, 15);
+  const m5 = resampleCandles(candles, 5);
+  const plan15 = buildAiMaticSwingTfPlan({ candles: m15, timeframeMin: 15 });
+  const plan5 = buildAiMaticSwingTfPlan({ candles: m5, timeframeMin: 5 });
+  const plans = [plan15, plan5];
+  const pickSide = (side: "buy" | "sell") => {
+    for (const plan of plans) {
+      if (!plan.rangeEligible) continue;
+      const setup = side === "buy" ? plan.buy : plan.sell;
+      if (setup?.enabled) {
+        return { setup, tf: plan.timeframeMin };
+      }
+    }
+    return null;
+  };
+  const buyPick = pickSide("buy");
+  const sellPick = pickSide("sell");
+  const activeTfCandidate = buyPick?.tf ?? sellPick?.tf;
+  const activeTfMin =
+    activeTfCandidate === 5 || activeTfCandidate === 15
+      ? activeTfCandidate
+      : undefined;
+  const active = activeTfMin != null;
+  const reason = active
+    ? `tf_${activeTfMin}`
+    : `${plan15.rangeReason}|${plan5.rangeReason}`;
+  return {
+    active,
+    activeTfMin: active ? activeTfMin : undefined,
+    reason,
+    plans,
+    buy: buyPick?.setup,
+    sell: sellPick?.setup,
+  };
+};
+
+const resolveSmaValue = (values: number[], period: number, index: number) => {
+  if (!values.length) return Number.NaN;
+  const window = Math.max(1, Math.round(period));
+  if (index < window - 1) return Number.NaN;
+  const start = index - window + 1;
+  const slice = values.slice(start, index + 1);
+  if (!slice.length) return Number.NaN;
+  const sum = slice.reduce((acc, value) => acc + value, 0);
+  return sum / slice.length;
+};
+
+const resolveNearestH1AoiLevels = (h1: Candle[], reference: number) => {
+  const highs = findPivotsHigh(h1, 2, 2).map((p) => p.price);
+  const lows = findPivotsLow(h1, 2, 2).map((p) => p.price);
+  const sourceHighs = highs.length ? highs : h1.slice(-72).map((c) => c.high);
+  const sourceLows = lows.length ? lows : h1.slice(-72).map((c) => c.low);
+  const supportCandidates = sourceLows.filter(
+    (value) => Number.isFinite(value) && value < reference
+  );
+  const resistanceCandidates = sourceHighs.filter(
+    (value) => Number.isFinite(value) && value > reference
+  );
+  const nearestSupport = supportCandidates.length
+    ? Math.max(...supportCandidates)
+    : Number.NaN;
+  const nearestResistance = resistanceCandidates.length
+    ? Math.min(...resistanceCandidates)
+    : Number.NaN;
+  return { nearestSupport, nearestResistance };
+};
+
+export const resolveAiMaticEma200ScalpModule = (
+  candles: Candle[],
+  opts?: { resample?: ResampleFn }
+): AiMaticEma200ScalpModule => {
+  const resample = opts?.resample ?? ((tf: number) => resampleCandles(candles, tf));
+  const m5 = resample(5);
+  const h1 = resample(60);
+  const micro1 = resample(1);
+  const micro3 = resample(3);
+  const microTfMin: 1 | 3 = micro1.length >= 120 ? 1 : 3;
+  const micro = microTfMin === 1 ? micro1 : micro3;
+  const inactive: AiMaticEma200ScalpModule = {
+    active: false,
+    reason: "insufficient_data",
+    baseTfMin: 5,
+    htfTfMin: 60,
+    microTfMin,
+    ema200: Number.NaN,
+    atr14: Number.NaN,
+    nearestSupport: Number.NaN,
+    nearestResistance: Number.NaN,
+  };
+  if (m5.length < 220 || h1.length < 20) {
+    return inactive;
+  }
+
+  const closes5 = m5.map((c) => c.close);
+  const highs5 = m5.map((c) => c.high);
+  const lows5 = m5.map((c) => c.low);
+  const volumes5 = m5.map((c) => c.volume ?? 0);
+  const ema200Arr = computeEma(closes5, 200);
+  const atrArr = computeATR(highs5, lows5, closes5, 14);
+  const ema200 = ema200Arr[ema200Arr.length - 1] ?? Number.NaN;
+  const atr14 = atrArr[atrArr.length - 1] ?? Number.NaN;
+  if (!Number.isFinite(ema200) || !Number.isFinite(atr14) || atr14 <= 0) {
+    return inactive;
+  }
+
+  const { nearestSupport, nearestResistance } = resolveNearestH1AoiLevels(h1, ema200);
+  const last5 = m5[m5.length - 1];
+  if (!last5) {
+    return inactive;
+  }
+  const macd5 = resolveMacdState(closes5);
+  const startIdx = Math.max(
+    1,
+    m5.length - AI_MATIC_EMA200_MODULE_BREAKOUT_LOOKBACK
+  );
+  let breakoutLong = false;
+  let breakoutShort = false;
+  for (let i = startIdx; i < m5.length; i++) {
+    const prev = m5[i - 1];
+    const curr = m5[i];
+    const emaPrev = ema200Arr[i - 1];
+    const emaNow = ema200Arr[i];
+    if (!prev || !curr || !Number.isFinite(emaPrev) || !Number.isFinite(emaNow)) {
+      continue;
+    }
+    const volSma = resolveSmaValue(
+      volumes5,
+      AI_MATIC_EMA200_MODULE_VOL_SMA_PERIOD,
+      i
+    );
+    const volOk =
+      Number.isFinite(volSma) &&
+      Number(curr.volume) > (volSma as number);
+    if (!volOk) continue;
+    if (prev.close <= emaPrev && curr.close > emaNow) {
+      breakoutLong = true;
+    }
+    if (prev.close >= emaPrev && curr.close < emaNow) {
+      breakoutShort = true;
+    }
+  }
+
+  const buyBreakoutSetup: AiMaticEma200ScalpSideSetup | undefined =
+    breakoutLong &&
+    Number.isFinite(nearestResistance) &&
+    nearestResistance > ema200 &&
+    last5.close >= ema200 &&
+    macd5.macdHist > 0
+      ? {
+          enabled: true,
+          mode: "BREAKOUT_PULLBACK_LIMIT",
+          entryType: "LIMIT_MAKER_FIRST",
+          entry: ema200,
+          sl: ema200 - AI_MATIC_EMA200_MODULE_SL_ATR_MULT * atr14,
+          tp: nearestResistance,
+          sourceTfMin: 5,
+        }
+      : undefined;
+  const sellBreakoutSetup: AiMaticEma200ScalpSideSetup | undefined =
+    breakoutShort &&
+    Number.isFinite(nearestSupport) &&
+    nearestSupport < ema200 &&
+    last5.close <= ema200 &&
+    macd5.macdHist < 0
+      ? {
+          enabled: true,
+          mode: "BREAKOUT_PULLBACK_LIMIT",
+          entryType: "LIMIT_MAKER_FIRST",
+          entry: ema200,
+          sl: ema200 + AI_MATIC_EMA200_MODULE_SL_ATR_MULT * atr14,
+          tp: nearestSupport,
+          sourceTfMin: 5,
+        }
+      : undefined;
+
+  let buy = buyBreakoutSetup;
+  let sell = sellBreakoutSetup;
+  if (micro.length >= 40) {
+    const microCloses = micro.map((c) => c.close);
+    const microVolumes = micro.map((c) => c.volume ?? 0);
+    const microMacd = resolveMacdState(microCloses);
+    const microLast = micro[micro.length - 1];
+    if (microLast) {
+      const microVolSma = resolveSmaValue(
+        microVolumes,
+        AI_MATIC_EMA200_MODULE_MICRO_VOL_SMA_PERIOD,
+        microVolumes.length - 1
+      );
+      const microVolumeUp =
+        Number.isFinite(microVolSma) &&
+        microLast.volume > (microVolSma as number);
+      const supportTouched =
+        Number.isFinite(nearestSupport) &&
+        ((last5.low <= nearestSupport && last5.high >= nearestSupport) ||
+          Math.abs(last5.close - nearestSupport) <=
+            AI_MATIC_EMA200_MODULE_AOI_TOUCH_ATR * atr14);
+      const resistanceTouched =
+        Number.isFinite(nearestResistance) &&
+        ((last5.low <= nearestResistance && last5.high >= nearestResistance) ||
+          Math.abs(last5.close - nearestResistance) <=
+            AI_MATIC_EMA200_MODULE_AOI_TOUCH_ATR * atr14);
+      const bullishMicroClose = microLast.close > microLast.open;
+      const bearishMicroClose = microLast.close < microLast.open;
+      const reversalLong =
+        supportTouched &&
+        microMacd.macdCrossUp &&
+        bullishMicroClose &&
+        microVolumeUp &&
+        ema200 > microLast.close;
+      const reversalShort =
+        resistanceTouched &&
+        microMacd.macdCrossDown &&
+        bearishMicroClose &&
+        microVolumeUp &&
+        ema200 < microLast.close;
+      if (reversalLong) {
+        buy = {
+          enabled: true,
+          mode: "AOI_REVERSAL_MARKET",
+          entryType: "MARKET",
+          entry: microLast.close,
+          sl:
+            (nearestSupport as number) -
+            AI_MATIC_EMA200_MODULE_SL_ATR_MULT * atr14,
+          tp: ema200,
+          sourceTfMin: microTfMin,
+        };
+      }
+      if (reversalShort) {
+        sell = {
+          enabled: true,
+          mode: "AOI_REVERSAL_MARKET",
+          entryType: "MARKET",
+          entry: microLast.close,
+          sl:
+            (nearestResistance as number) +
+            AI_MATIC_EMA200_MODULE_SL_ATR_MULT * atr14,
+          tp: ema200,
+          sourceTfMin: microTfMin,
+        };
+      }
+    }
+  }
+
+  const buyEnabled =
+    Boolean(buy?.enabled) &&
+    Number.isFinite(buy?.entry) &&
+    Number.isFinite(buy?.sl) &&
+    Number.isFinite(buy?.tp) &&
+    (buy?.sl as number) < (buy?.entry as number) &&
+    (buy?.tp as number) > (buy?.entry as number);
+  const sellEnabled =
+    Boolean(sell?.enabled) &&
+    Number.isFinite(sell?.entry) &&
+    Number.isFinite(sell?.sl) &&
+    Number.isFinite(sell?.tp) &&
+    (sell?.sl as number) > (sell?.entry as number) &&
+    (sell?.tp as number) < (sell?.entry as number);
+  const active = buyEnabled || sellEnabled;
+  const reason =
+    buy?.mode === "AOI_REVERSAL_MARKET" || sell?.mode === "AOI_REVERSAL_MARKET"
+      ? "aoi_reversal"
+      : active
+        ? "ema200_pullback"
+        : "no_valid_signal";
+
+  return {
+    active,
+    reason,
+    baseTfMin: 5,
+    htfTfMin: 60,
+    microTfMin,
+    ema200,
+    atr14,
+    nearestSupport,
+    nearestResistance,
+    buy: buyEnabled ? buy : undefined,
+    sell: sellEnabled ? sell : undefined,
+  };
+};
+
+export type ResampleFn = (timeframeMin: number) => Candle[];
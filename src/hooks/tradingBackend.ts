@@ -0,0 +1,113 @@
+// hooks/tradingBackend.ts
+import type { TradingState } from "./tradingState";
+
+/** Podmnožina fetch, přes kterou jdou všechna volání backendu. */
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+function formatApiError(
+  method: "GET" | "POST",
+  path: string,
+  status: number,
+  payload: unknown
+) {
+  const json =
+    payload && typeof payload === "object"
+      ? (payload as Record<string, unknown>)
+      : {};
+  const errorTextRaw = json.error;
+  const errorText =
+    typeof errorTextRaw === "string" && errorTextRaw.trim().length > 0
+      ? errorTextRaw.trim()
+      : `HTTP_${status}`;
+  const codeRaw = json.code;
+  const codeText =
+    typeof codeRaw === "number" || typeof codeRaw === "string"
+      ? String(codeRaw)
+      : "";
+  const detailsRaw = json.details;
+  const details =
+    detailsRaw && typeof detailsRaw === "object"
+      ? (detailsRaw as Record<string, unknown>)
+      : null;
+  const detailTextRaw = details?.retMsg ?? details?.message;
+  const detailText =
+    typeof detailTextRaw === "string" && detailTextRaw.trim().length > 0
+      ? detailTextRaw.trim()
+      : "";
+  const detailSuffix =
+    detailText && !errorText.includes(detailText) ? ` (${detailText})` : "";
+  const codeSuffix = codeText ? ` [code=${codeText}]` : "";
+  return `${method} ${path}: ${errorText}${codeSuffix}${detailSuffix}`;
+}
+
+/**
+ * Volání backendu s autorizací podle aktuálních vstupů. Rozpracované
+ * požadavky lze zrušit, když se aplikace vypne nebo controller zastaví.
+ */
+export class TradingBackend {
+  private readonly inflight = new Set<AbortController>();
+
+  constructor(
+    private readonly state: TradingState,
+    readonly http: HttpClient
+  ) {}
+
+  fetchJson(path: string, params?: Record<string, string>) {
+    const qs = params ? `?${new URLSearchParams(params)}` : "";
+    return this.request("GET", path, `${this.state.apiBase}${path}${qs}`);
+  }
+
+  postJson(path: string, body?: Record<string, unknown>) {
+    return this.request("POST", path, `${this.state.apiBase}${path}`, body ?? {});
+  }
+
+  abortAll() {
+    for (const controller of this.inflight) {
+      controller.abort();
+    }
+    this.inflight.clear();
+  }
+
+  private async request(
+    method: "GET" | "POST",
+    path: string,
+    url: string,
+    body?: Record<string, unknown>
+  ) {
+    const { authToken, clock } = this.state;
+    if (!authToken) {
+      throw new Error("missing_auth_token");
+    }
+    if (!this.state.appEnabled) {
+      throw new Error("app_disabled");
+    }
+    const started = clock.now();
+    const controller = new AbortController();
+    this.inflight.add(controller);
+    try {
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${authToken}`,
+        "X-Auth-Token": authToken,
+      };
+      const res = await this.http(
+        url,
+        method === "GET"
+          ? { signal: controller.signal, headers }
+          : {
+              signal: controller.signal,
+              method,
+              headers: { "Content-Type": "application/json", ...headers },
+              body: JSON.stringify(body),
+            }
+      );
+      const json = await res.json().catch(() => ({}));
+      this.state.update({ lastLatencyMs: Math.round(clock.now() - started) });
+      if (!res.ok || json?.ok === false) {
+        throw new Error(formatApiError(method, path, res.status, json));
+      }
+      return json?.data ?? json;
+    } finally {
+      this.inflight.delete(controller);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+// hooks/tradingController.ts
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import {
+  createStrategyWorkerClient,
+  type StrategyWorkerClient,
+  type StrategyWorkerClientOptions,
+} from "../engine/strategyWorkerClient";
+import type { AISettings } from "../types";
+import { TradingBackend, type HttpClient } from "./tradingBackend";
+import { createTradingDecisions, type TradingDecisions } from "./tradingDecisions";
+import {
+  createTradingDiagnostics,
+  type TradingDiagnostics,
+} from "./tradingDiagnostics";
+import {
+  createTradingProtection,
+  type TradingProtection,
+} from "./tradingProtection";
+import { DEFAULT_SETTINGS, loadStoredSettings } from "./tradingSettings";
+import {
+  TradingState,
+  systemClock,
+  type TradingClock,
+  type TradingControllerInputs,
+} from "./tradingState";
+import { createTradingSync, type TradingSync } from "./tradingSync";
+
+export type { ActivePosition } from "./tradingSyncHelpers";
+export { CORRELATION_RISK_THRESHOLD } from "./tradingDecisionHelpers";
+export { __aiMaticTest } from "./tradingAiMaticPlan";
+export { __scalpTest } from "./tradingScalpFib";
+export type { HttpClient } from "./tradingBackend";
+export type { TradingClock, TradingControllerInputs } from "./tradingState";
+
+export type TradingControllerOptions = {
+  clock?: TradingClock;
+  http?: HttpClient;
+  /** Zdroj lokálních rozhodnutí strategie (výchozí Web Worker klient). */
+  createFeed?: (opts: StrategyWorkerClientOptions) => StrategyWorkerClient;
+  /** Naplánuje publikaci změn stavu; výchozí je microtask. */
+  schedule?: (flush: () => void) => void;
+  /** Počáteční nastavení (nad výchozím) místo uloženého v localStorage. */
+  settings?: Partial<AISettings>;
+};
+
+export type TradingSnapshot = ReturnType<TradingController["buildSnapshot"]>;
+
+/**
+ * Celý obchodní cyklus bota (polling backendu, rozhodnutí strategií, vstupy,
+ * ochrany a výstupy) bez závislosti na Reactu. Hook useTradingBot je jen
+ * odběratel snapshotu; testy controller řídí přímo s podvrženými hodinami,
+ * HTTP klientem a feedem.
+ *
+ * Controller skládá moduly v pořadí závislostí: sdílený stav a backend,
+ * ochrany pozic, diagnostika a brány, zpracování rozhodnutí a synchronizace
+ * s backendem. Sám drží jen snapshot, odběratele a životní cyklus.
+ */
+export class TradingController {
+  private readonly state: TradingState;
+  private readonly backend: TradingBackend;
+  private readonly protection: TradingProtection;
+  private readonly diagnostics: TradingDiagnostics;
+  private readonly decisions: TradingDecisions;
+  private readonly sync: TradingSync;
+  private readonly schedule: (flush: () => void) => void;
+  private readonly listeners = new Set<() => void>();
+  private snapshot: TradingSnapshot;
+  private running = false;
+  private dirty = false;
+  private publishQueued = false;
+
+  constructor(
+    inputs: TradingControllerInputs = {},
+    opts: TradingControllerOptions = {}
+  ) {
+    this.schedule = opts.schedule ?? queueMicrotask;
+    this.state = new TradingState({
+      inputs,
+      settings: opts.settings
+        ? { ...DEFAULT_SETTINGS, ...opts.settings }
+        : loadStoredSettings() ?? DEFAULT_SETTINGS,
+      clock: opts.clock ?? systemClock,
+      onChange: () => this.schedulePublish(),
+      onConfigure: () => this.configure(),
+    });
+    this.backend = new TradingBackend(
+      this.state,
+      opts.http ?? ((url, init) => fetch(url, init))
+    );
+    this.protection = createTradingProtection(this.state, this.backend, () =>
+      this.sync.refreshFast()
+    );
+    this.diagnostics = createTradingDiagnostics(
+      this.state,
+      this.backend,
+      this.protection
+    );
+    this.decisions = createTradingDecisions(
+      this.state,
+      this.backend,
+      this.protection,
+      this.diagnostics
+    );
+    this.sync = createTradingSync(
+      this.state,
+      this.backend,
+      this.protection,
+      this.diagnostics,
+      this.decisions,
+      opts.createFeed ?? createStrategyWorkerClient
+    );
+    this.snapshot = this.buildSnapshot();
+  }
+
+  getSnapshot = (): TradingSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  updateSettings = (next: AISettings) => {
+    this.state.updateSettings(next);
+  };
+
+  setInputs(inputs: TradingControllerInputs): void {
+    this.state.setInputs(inputs);
+  }
+
+  /** Spustí polling a synchronizace; po stop() lze znovu spustit. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.configure();
+    this.flush();
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.protection.stop();
+    this.sync.stop();
+    this.backend.abortAll();
+  }
+
+  /** Předá rozhodnutí strategie stejnou cestou jako dashboard polling. */
+  handleDecision(symbol: string, decision: PriceFeedDecision): void {
+    this.decisions.handleDecision(symbol, decision);
+  }
+
+  /** Publikuje čekající změny stavu hned, bez čekání na plánovač. */
+  flush(): void {
+    this.publishQueued = false;
+    if (!this.dirty) return;
+    this.dirty = false;
+    this.snapshot = this.buildSnapshot();
+    for (const listener of this.listeners) listener();
+  }
+
+  private schedulePublish(): void {
+    this.dirty = true;
+    if (this.publishQueued) return;
+    this.publishQueued = true;
+    this.schedule(() => this.flush());
+  }
+
+  /** Sladí běžící části s aktuálními vstupy a nastavením. */
+  private configure(): void {
+    if (!this.running) return;
+    if (!this.state.appEnabled) this.backend.abortAll();
+    // Polling se plánuje před ochranami, aby retry SL viděl čerstvý snapshot.
+    this.sync.configure();
+    this.protection.configure();
+  }
+
+  private buildSnapshot() {
+    const { state, diagnostics, decisions, sync } = this;
+    return {
+      autoTrade: decisions.autoTrade,
+      systemState: state.systemState(),
+      portfolioState: state.portfolioState(),
+      activePositions: state.positions,
+      logEntries: state.logEntries,
+      testnetOrders: state.orders,
+      testnetTrades: state.trades,
+      ordersError: state.ordersError,
+      refreshTestnetOrders: sync.refreshFast,
+      assetPnlHistory: state.assetPnlHistory,
+      resetPnlHistory: sync.resetPnlHistory,
+      scanDiagnostics: state.scanDiagnostics,
+      manualClosePosition: sync.manualClosePosition,
+      cancelOrder: sync.cancelOrder,
+      allowPositionClose: sync.allowPositionClose,
+      allowOrderCancel: sync.allowOrderCancel,
+      dynamicSymbols: state.dynamicSymbols,
+      settings: state.settings,
+      updateSettings: this.updateSettings,
+      updateGateOverrides: diagnostics.updateGateOverrides,
+      strategyLatency: state.strategyLatency,
+      correlation: state.correlation,
+      sizing: { stats: state.tradeStats, last: state.lastSizing },
+    };
+  }
+}
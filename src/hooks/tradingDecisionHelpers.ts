@@ -0,0 +1,332 @@
+// hooks/tradingDecisionHelpers.ts
+// Konstanty a typy bran vstupu: kapacita, throttling logů, korelace a režim trhu.
+import type { AltseasonRegimeSnapshot } from "../engine/botEngine";
+import type { EntryGateId } from "../engine/executionPolicy";
+import type { AISettings } from "../types";
+import type { ScalpConfirm, ScalpFibData } from "./tradingScalpFib";
+
+const DATA_HEALTH_LAG_FACTOR = 2;
+const FEED_TIMEFRAME_MS_BY_RISK_MODE: Record<AISettings["riskMode"], number> = {
+  "ai-matic": 5 * 60_000,
+  "ai-matic-x": 5 * 60_000,
+  "ai-matic-amd": 5 * 60_000,
+  "ai-matic-olikella": 5 * 60_000,
+  "ai-matic-bbo": 5 * 60_000,
+  "ai-matic-tree": 5 * 60_000,
+  "ai-matic-pro": 5 * 60_000,
+};
+
+export const CORE_V2_COOLDOWN_MS: Record<AISettings["riskMode"], number> = {
+  "ai-matic": 0,
+  "ai-matic-x": 0,
+  "ai-matic-amd": 0,
+  "ai-matic-olikella": 0,
+  "ai-matic-bbo": 0,
+  "ai-matic-tree": 0,
+  "ai-matic-pro": 0,
+};
+
+export const SIGNAL_LOG_THROTTLE_MS = 10_000;
+export const SIGNAL_LOG_SIMILAR_THROTTLE_MS = 6_000;
+const SIGNAL_LOG_PRICE_BUCKET_RATIO = 0.0002;
+const SIGNAL_LOG_MIN_PRICE_BUCKET = 0.0005;
+export const SKIP_LOG_THROTTLE_MS = 10_000;
+export const DATA_INTEGRITY_WATCHDOG_FAILS = 3;
+export const DATA_INTEGRITY_WATCHDOG_LOG_TTL_MS = 30_000;
+export const MAX_ORDERS_GATE_TTL_MS = 30_000;
+export const CAPACITY_RECHECK_MS = 30_000;
+
+export const CORRELATION_RISK_THRESHOLD = 0.8;
+export const CORRELATION_RISK_MIN_SCALE = 0.2;
+export const ALTSEASON_SAMPLE_MS = 60_000;
+export const ALTSEASON_HISTORY_POINTS = 12;
+export const ALTSEASON_DOMINANCE_DROP_THRESHOLD = 0.05;
+export const ALTSEASON_ALT_ATR_EXPANSION_RATIO = 1.15;
+
+export const SKIP_STATUS_SUPPRESSED_CODES = new Set([
+  "MAX_POS",
+  "MAX_ORDERS",
+  "MAX_POS+MAX_ORDERS",
+  "OPEN_POSITION",
+]);
+export const RISK_ENTRY_BLOCK_MONITOR_ONLY = false;
+
+export const SCALP_PROTECTED_RISK_MULT = 0.5;
+
+export const AMD_ENTRY_RULE_NAMES = [
+  "AMD: Phase sequence",
+  "AMD: Killzone active",
+  "AMD: Midnight open set",
+  "AMD: Asia range valid",
+  "AMD: Liquidity sweep",
+  "AMD: Inversion FVG confirm",
+  "AMD: Target model valid",
+] as const;
+
+export const AI_MATIC_SIGNAL_EXPIRE_BARS = 2;
+
+export const AI_MATIC_RETEST_PRIMARY_RATIO = 0.6;
+export const AI_MATIC_RETEST_SECONDARY_RATIO = 0.4;
+export const AI_MATIC_RETEST_FALLBACK_BARS = 2;
+export const AI_MATIC_RETEST_ABSORPTION_MIN = 2.5;
+export const AI_MATIC_RETEST_DELTA_DOMINANCE_RATIO = 1.4;
+export const AI_MATIC_RETEST_TWAP_SLICES = 2;
+export const AI_MATIC_RETEST_TWAP_DELAY_MS = 1500;
+
+export const AI_MATIC_SWING_BE_MIN_R = 0.9;
+export const AI_MATIC_SWING_MIN_NOTIONAL = 150;
+
+// Sdílené vstupní gates (executionPolicy) vrací jen id gate; log id zůstávají stejná jako dřív.
+export function resolveEntryGateLogId(
+  gate: EntryGateId | undefined,
+  symbol: string,
+  signalId: string
+) {
+  switch (gate) {
+    case "AMD":
+      return `ai-matic-amd-gate:${signalId}`;
+    case "TREE_ADAPTIVE":
+      return `tree-trend-gate:${symbol}:${signalId}`;
+    case "TREND_1H5M":
+      return `signal:trend-gate:${signalId}`;
+    case "TREE_5M":
+      return `signal:tree-trend-gate:${signalId}`;
+    case "RISK_OFF":
+      return `signal:risk:${signalId}`;
+    case "OLIKELLA":
+      return `signal:olikella-gate:${signalId}`;
+    case "SCORE":
+      return `signal:score:${signalId}`;
+    case "AI_MATIC_CORE":
+      return `ai-matic-gate:${signalId}`;
+    default:
+      return `signal:checklist:${signalId}`;
+  }
+}
+
+export function signalPriceBucket(value: number) {
+  if (!Number.isFinite(value) || value <= 0) return "na";
+  const step = Math.max(value * SIGNAL_LOG_PRICE_BUCKET_RATIO, SIGNAL_LOG_MIN_PRICE_BUCKET);
+  const bucket = Math.round(value / step) * step;
+  const digits = bucket >= 1_000 ? 2 : bucket >= 100 ? 3 : bucket >= 1 ? 4 : 6;
+  return bucket.toFixed(digits);
+}
+
+export type GateResult = { ok: boolean; code: string; reason: string; ttlMs?: number };
+export type DecisionTraceEntry = {
+  gate: string;
+  result: GateResult;
+};
+type CapacityReason = "OK" | "MAX_POS" | "MAX_ORDERS" | "MAX_POS+MAX_ORDERS";
+type CapacityStatus = {
+  posFull: boolean;
+  ordFull: boolean;
+  reason: CapacityReason;
+};
+export type AtomicExposureSnapshot = {
+  openPositionsTotal: number;
+  openOrdersTotal: number;
+  pendingIntentsTotal: number;
+  reservedPositionsTotal: number;
+  reservedOrdersTotal: number;
+  maxPos: number;
+  maxOrders: number;
+  status: CapacityStatus;
+  reservedStatus: CapacityStatus;
+  fingerprint: string;
+};
+export type CapacityPauseTrigger =
+  | "POSITION_CLOSED"
+  | "ORDER_CANCELED"
+  | "ORDER_FILLED"
+  | "RECONCILED"
+  | "TTL_RECHECK";
+export type RelayPauseState = {
+  paused: boolean;
+  pausedReason: CapacityReason | null;
+  pausedAt: number;
+  lastCapacityFingerprint: string;
+  forceScanSymbols: Set<string>;
+  forceScanReason: CapacityPauseTrigger | null;
+  lastTtlRecheckAt: number;
+};
+
+export function resolveDataHealthLagMs(riskMode: AISettings["riskMode"]): number {
+  const timeframeMs = FEED_TIMEFRAME_MS_BY_RISK_MODE[riskMode] ?? 60_000;
+  return Math.max(1_000, timeframeMs * DATA_HEALTH_LAG_FACTOR);
+}
+
+export function normalizeCapacityLimit(value: number): number {
+  return Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0;
+}
+
+export function getCapacityStatus(args: {
+  openPositionsTotal: number;
+  maxPos: number;
+  openOrdersTotal: number;
+  maxOrders: number;
+}): CapacityStatus {
+  const maxPos = normalizeCapacityLimit(args.maxPos);
+  const maxOrders = normalizeCapacityLimit(args.maxOrders);
+  const posFull = maxPos <= 0 || args.openPositionsTotal >= maxPos;
+  const ordFull = maxOrders <= 0 || args.openOrdersTotal >= maxOrders;
+  const reason: CapacityReason = posFull && ordFull
+    ? "MAX_POS+MAX_ORDERS"
+    : posFull
+      ? "MAX_POS"
+      : ordFull
+        ? "MAX_ORDERS"
+        : "OK";
+  return { posFull, ordFull, reason };
+}
+
+export function buildCapacityFingerprint(args: {
+  openPositionsTotal: number;
+  maxPos: number;
+  openOrdersTotal: number;
+  maxOrders: number;
+}): string {
+  const maxPos = normalizeCapacityLimit(args.maxPos);
+  const maxOrders = normalizeCapacityLimit(args.maxOrders);
+  return `${args.openPositionsTotal}/${maxPos}|${args.openOrdersTotal}/${maxOrders}`;
+}
+
+export type CoreV2Metrics = {
+  ltfTimeframeMin: number;
+  ltfOpenTime: number;
+  ltfClose: number;
+  ltfOpen: number;
+  ltfHigh: number;
+  ltfLow: number;
+  ltfVolume: number;
+  ltfPrevClose: number;
+  ltfPrevHigh: number;
+  ltfPrevLow: number;
+  ltfPrevVolume: number;
+  ema8: number;
+  ema12: number;
+  ema21: number;
+  ema26: number;
+  ema50: number;
+  ema200: number;
+  ema200BreakoutBull: boolean;
+  ema200BreakoutBear: boolean;
+  ema200ConfirmBull: boolean;
+  ema200ConfirmBear: boolean;
+  atr14: number;
+  atrPct: number;
+  sep1: number;
+  sep2: number;
+  volumeCurrent: number;
+  volumeP50: number;
+  volumeP60: number;
+  volumeP65: number;
+  volumeP70: number;
+  volumeTodBaseline: number;
+  volumeTodThreshold: number;
+  volumeTodRatio: number;
+  volumeTodSampleCount: number;
+  volumeTodSlotMinute: number;
+  volumeTodFallback: boolean;
+  volumeSma: number;
+  volumeStd: number;
+  volumeZ: number;
+  volumeSpike: boolean;
+  ltfRange: number;
+  ltfRangeSma: number;
+  ltfRangeExpansionSma: boolean;
+  ltfUp3: boolean;
+  ltfDown3: boolean;
+  ltfVolDown3: boolean;
+  ltfFakeBreakHigh: boolean;
+  ltfFakeBreakLow: boolean;
+  volumeSpikeCurrent: number;
+  volumeSpikePrev: number;
+  volumeSpikeFading: boolean;
+  volumeFalling: boolean;
+  volumeRising: boolean;
+  ltfRangeExpansion: boolean;
+  ltfRangeExpVolume: boolean;
+  ltfSweepBackInside: boolean;
+  ltfRsi: number;
+  ltfMacdHist: number;
+  ltfMacdSignal: number;
+  ltfRsiNeutral: boolean;
+  ltfNoNewHigh: boolean;
+  ltfNoNewLow: boolean;
+  htfClose: number;
+  htfEma200: number;
+  htfBias: "BULL" | "BEAR" | "NONE";
+  htfBreakoutBull: boolean;
+  htfBreakoutBear: boolean;
+  htfConfirmBull: boolean;
+  htfConfirmBear: boolean;
+  htfAtr14: number;
+  htfAtrPct: number;
+  htfPivotHigh?: number;
+  htfPivotLow?: number;
+  m15Close: number;
+  m15Sma20: number;
+  m15Sma50: number;
+  m15SmaTrend: "BULL" | "BEAR" | "NONE";
+  m15Atr14: number;
+  m15AtrPct: number;
+  m15EmaSpreadPct: number;
+  m15OverlapWicky: boolean;
+  m15TrendLongOk: boolean;
+  m15TrendShortOk: boolean;
+  m15DriftBlocked: boolean;
+  m15EmaCompression: boolean;
+  m15EmaCompressionSoft: boolean;
+  m15MacdHist: number;
+  m15MacdHistPrev: number;
+  m15MacdHistPrev2: number;
+  m15MacdWeak3: boolean;
+  m15MacdWeak2: boolean;
+  m15ImpulseWeak: boolean;
+  m15WickIndecision: boolean;
+  m15WickIndecisionSoft: boolean;
+  ema15m12: number;
+  ema15m26: number;
+  ema15mTrend: "BULL" | "BEAR" | "NONE";
+  emaCrossDir: "BULL" | "BEAR" | "NONE";
+  emaCrossBarsAgo?: number;
+  pullbackLong: boolean;
+  pullbackShort: boolean;
+  pivotHigh?: number;
+  pivotLow?: number;
+  lastPivotHigh?: number;
+  lastPivotLow?: number;
+  prevPivotHigh?: number;
+  prevPivotLow?: number;
+  microBreakLong: boolean;
+  microBreakShort: boolean;
+  rsiBullDiv: boolean;
+  rsiBearDiv: boolean;
+  ltfCrossRsiAgainst: boolean;
+  scalpFib?: ScalpFibData;
+  scalpConfirm?: ScalpConfirm;
+};
+
+export type AiMaticRetestFallbackState = {
+  symbol: string;
+  side: "Buy" | "Sell";
+  signalId: string;
+  createdAt: number;
+  ltfTimeframeMin: number;
+  lastLtfOpenTime: number;
+  missedBars: number;
+  fallbackBars: number;
+  retestIntentId: string;
+  fallbackQty: number;
+  slPrice: number;
+  tpPrices: number[];
+  triggerPrice?: number;
+  executing: boolean;
+};
+
+export type PortfolioRegimeState = {
+  dominanceHistory: number[];
+  lastSampleAt: number;
+  snapshot: AltseasonRegimeSnapshot | null;
+};
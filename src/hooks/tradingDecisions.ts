@@ -0,0 +1,1862 @@
+// hooks/tradingDecisions.ts
+import { sendIntent } from "../api/botApi";
+import { EntryType, Symbol, TradeJournalContext } from "../api/types";
+import type { AiMaticXContext } from "../engine/aiMaticXStrategy";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import { TradingMode } from "../types";
+import {
+  CORE_V2_RISK_PCT,
+  ENTRY_ORDER_LOCK_MS,
+  INTENT_COOLDOWN_MS,
+  MAINNET_FALLBACK_LEVERAGE,
+  MIN_CHECKLIST_PASS,
+  POSITION_GATE_TTL_MS,
+  REENTRY_COOLDOWN_MS,
+  SCALP_COOLDOWN_MS,
+  SCALP_RISK_OFF_MULT,
+  applyVenueNotionalBounds,
+  computeFixedSizing as computeFixedSizingPolicy,
+  computeNotionalForSignal as computeNotionalForSignalPolicy,
+  deriveOrderLinkId,
+  evaluateProGates,
+  evaluateSignalGates,
+  evaluateStrategyEntryGates,
+  normalizeProtectionLevels,
+  normalizeSizingSettings,
+  positionCapacityGate,
+  resolveEquity,
+  resolveMinProtectionDistance,
+  resolveSizingRiskPct,
+  resolveSwingCooldownUntil,
+  swingCooldownGate,
+} from "../engine/executionPolicy";
+import { positionBlocksEntry } from "../engine/positionMode";
+import { resolveStrategy } from "../engine/strategyRegistry";
+import { stopValidityGate } from "./tradingGuards";
+import type { SymbolDiagnostic } from "../lib/diagnosticsTypes";
+import {
+  asErrorMessage,
+  formatNumber,
+  hasMeaningfulOpenPosition,
+  isActiveEntryOrder,
+  isEntryOrder,
+  isWaitingLimitEntryOrder,
+  toNumber,
+} from "./tradingSyncHelpers";
+import {
+  resolveAiMaticAdaptiveRiskParams,
+  resolveOliKellaTrailConfig,
+} from "./tradingProtectionHelpers";
+import {
+  AI_MATIC_RETEST_ABSORPTION_MIN,
+  AI_MATIC_RETEST_DELTA_DOMINANCE_RATIO,
+  AI_MATIC_RETEST_FALLBACK_BARS,
+  AI_MATIC_RETEST_PRIMARY_RATIO,
+  AI_MATIC_RETEST_SECONDARY_RATIO,
+  AI_MATIC_RETEST_TWAP_DELAY_MS,
+  AI_MATIC_RETEST_TWAP_SLICES,
+  AI_MATIC_SIGNAL_EXPIRE_BARS,
+  AI_MATIC_SWING_BE_MIN_R,
+  AI_MATIC_SWING_MIN_NOTIONAL,
+  CAPACITY_RECHECK_MS,
+  CORE_V2_COOLDOWN_MS,
+  MAX_ORDERS_GATE_TTL_MS,
+  RISK_ENTRY_BLOCK_MONITOR_ONLY,
+  SCALP_PROTECTED_RISK_MULT,
+  SIGNAL_LOG_SIMILAR_THROTTLE_MS,
+  SIGNAL_LOG_THROTTLE_MS,
+  SKIP_LOG_THROTTLE_MS,
+  SKIP_STATUS_SUPPRESSED_CODES,
+  buildCapacityFingerprint,
+  getCapacityStatus,
+  resolveEntryGateLogId,
+  signalPriceBucket,
+  type CoreV2Metrics,
+  type DecisionTraceEntry,
+  type GateResult,
+} from "./tradingDecisionHelpers";
+import { type AiMaticContext } from "./tradingAiMaticContext";
+import {
+  type AiMaticEma200ScalpSideSetup,
+  type AiMaticSwingSideSetup,
+} from "./tradingAiMaticSetups";
+import {
+  resolveAiMaticEntryType,
+  resolveAiMaticStopLoss,
+  resolveAiMaticTargetPlan,
+  type AiMaticTargetPlan,
+} from "./tradingAiMaticPlan";
+import { resolveProtectedScalpStop } from "./tradingScalpFib";
+import type { TradingState } from "./tradingState";
+import type { TradingBackend } from "./tradingBackend";
+import type { TradingProtection } from "./tradingProtection";
+import type { TradingDiagnostics } from "./tradingDiagnostics";
+
+/**
+ * Zpracování rozhodnutí strategie: vstupní brány, sizing a odeslání
+ * záměru na backend.
+ */
+export function createTradingDecisions(
+  state: TradingState,
+  backend: TradingBackend,
+  protection: TradingProtection,
+  diagnostics: TradingDiagnostics,
+) {
+  const { clock } = state;
+  const lastState = new Map<string, string>();
+  const signalSeen = new Set<string>();
+  const signalLogThrottle = new Map<string, number>();
+  const skipLogThrottle = new Map<string, number>();
+  const feedPause = new Set<string>();
+  const aiMaticStructureLog = new Map<string, number>();
+  const { protectionGate, handleOliKellaInTrade } = protection;
+  const {
+    buildChecklistSignal,
+    resolveDataHealthSnapshot,
+    dataHealthGate,
+    resolvePortfolioRegime,
+    resolvePortfolioRiskScale,
+    getSymbolContext,
+    shouldEmitBlockLog,
+    queueCapacityRecheck,
+    evaluateCoreV2,
+    updateDataIntegrityWatchdog,
+    buildScanDiagnostics,
+  } = diagnostics;
+
+  const getEquityValue = () => resolveEquity(state.walletSnapshot, state.useTestnet);
+
+  const resolveSymbolLeverage = (symbol: Symbol) => {
+    const cached = state.leverageBySymbol.get(symbol);
+    if (Number.isFinite(cached) && (cached as number) > 0) {
+      return cached as number;
+    }
+    return MAINNET_FALLBACK_LEVERAGE;
+  };
+
+  const resolveSizingDecision = (entry: number, sl: number, atrPct?: number) => {
+    const settings = state.settings;
+    return resolveSizingRiskPct({
+      ...normalizeSizingSettings(settings),
+      baseRiskPct: CORE_V2_RISK_PCT[settings.riskMode] ?? 0,
+      entry,
+      sl,
+      atrPct,
+      openPositionsLimit: settings.maxOpenPositions,
+      stats: state.tradeStats,
+    });
+  };
+
+  const computeNotionalForSignal = (
+    symbol: Symbol,
+    entry: number,
+    sl: number,
+    riskPct = resolveSizingDecision(entry, sl).riskPct
+  ) => {
+    const settings = state.settings;
+    return computeNotionalForSignalPolicy({
+      equity: getEquityValue(),
+      entry,
+      sl,
+      riskPct,
+      useTestnet: state.useTestnet,
+      leverage: resolveSymbolLeverage(symbol),
+      perTradeTestnetUsd: settings.perTradeTestnetUsd,
+      perTradeMainnetUsd: settings.perTradeMainnetUsd,
+    });
+  };
+
+  const computeFixedSizing = (
+    symbol: Symbol,
+    entry: number,
+    sl: number,
+    options?: { allowMainnet?: boolean }
+  ) => {
+    if (!state.useTestnet && !options?.allowMainnet) return null;
+    const settings = state.settings;
+    return computeFixedSizingPolicy({
+      equity: getEquityValue(),
+      entry,
+      sl,
+      allowMainnet: options?.allowMainnet,
+      useTestnet: state.useTestnet,
+      leverage: resolveSymbolLeverage(symbol),
+      perTradeTestnetUsd: settings.perTradeTestnetUsd,
+      perTradeMainnetUsd: settings.perTradeMainnetUsd,
+    });
+  };
+
+  async function autoTrade(signal: {
+    symbol: Symbol;
+    side: "Buy" | "Sell";
+    entryPrice: number;
+    slPrice: number;
+    tpPrices: number[];
+    entryType: EntryType;
+    triggerPrice?: number;
+    trailingStop?: number;
+    trailingActivePrice?: number;
+    qtyMode: "USDT_NOTIONAL" | "BASE_QTY";
+    qtyValue: number;
+    intentId?: string;
+    signalId?: string;
+    signalLeg?: string;
+    expireAfterMs?: number;
+    journal?: TradeJournalContext;
+  }) {
+    if (!state.authToken) throw new Error("missing_auth_token");
+    const intentId = signal.intentId ?? crypto.randomUUID();
+    const intent = {
+      intentId,
+      createdAt: clock.now(),
+      profile: resolveStrategy(state.settings.riskMode).label,
+      symbol: signal.symbol,
+      side: signal.side,
+      entryType: signal.entryType,
+      entryPrice: signal.entryPrice,
+      triggerPrice: signal.triggerPrice,
+      trailingStop: signal.trailingStop,
+      trailingActivePrice: signal.trailingActivePrice,
+      qtyMode: signal.qtyMode,
+      qtyValue: signal.qtyValue,
+      slPrice: signal.slPrice,
+      tpPrices: signal.tpPrices ?? [],
+      expireAfterMs: Number.isFinite(signal.expireAfterMs)
+        ? Math.max(1_000, signal.expireAfterMs as number)
+        : 30_000,
+      signalId: signal.signalId,
+      signalLeg: signal.signalLeg,
+      tags: {
+        env: state.paperMode ? "paper" : state.useTestnet ? "testnet" : "mainnet",
+        mode: "intent",
+      },
+      journal: signal.journal,
+    } as const;
+
+    await sendIntent(intent, { authToken: state.authToken, useTestnet: state.useTestnet, paper: state.paperMode, http: backend.http });
+  }
+
+  const resolveAiMaticFlowPressure = (
+    decision: PriceFeedDecision,
+    side: "Buy" | "Sell"
+  ): {
+    strong: boolean;
+    absorptionScore: number;
+    delta: number;
+    deltaPrev: number;
+    ofi: number;
+    dominanceRatio: number;
+  } => {
+    const orderflow = (decision as any)?.orderflow as
+      | {
+          absorptionScore?: number;
+          delta?: number;
+          deltaPrev?: number;
+          ofi?: number;
+        }
+      | undefined;
+    const absorptionScore = toNumber(orderflow?.absorptionScore);
+    const delta = toNumber(orderflow?.delta);
+    const deltaPrev = toNumber(orderflow?.deltaPrev);
+    const ofi = toNumber(orderflow?.ofi);
+    const sideAligned =
+      side === "Buy"
+        ? Number.isFinite(delta) && delta > 0
+        : Number.isFinite(delta) && delta < 0;
+    const ofiAligned =
+      side === "Buy"
+        ? Number.isFinite(ofi) && ofi > 0
+        : Number.isFinite(ofi) && ofi < 0;
+    const dominanceRatio =
+      Number.isFinite(delta) && Number.isFinite(deltaPrev)
+        ? Math.abs(delta) / Math.max(1, Math.abs(deltaPrev))
+        : Number.NaN;
+    const absorptionStrong =
+      Number.isFinite(absorptionScore) &&
+      absorptionScore >= AI_MATIC_RETEST_ABSORPTION_MIN;
+    const takerDominance =
+      sideAligned &&
+      ofiAligned &&
+      Number.isFinite(dominanceRatio) &&
+      dominanceRatio >= AI_MATIC_RETEST_DELTA_DOMINANCE_RATIO;
+    return {
+      strong: Boolean(absorptionStrong || takerDominance),
+      absorptionScore,
+      delta,
+      deltaPrev,
+      ofi,
+      dominanceRatio,
+    };
+  };
+
+  const maybeRunAiMaticRetestFallback = async (symbol: string, decision: PriceFeedDecision, now: number) => {
+    const fallback = state.aiMaticRetestFallback.get(symbol);
+    if (!fallback) return;
+    if (state.settings.riskMode !== "ai-matic") {
+      state.aiMaticRetestFallback.delete(symbol);
+      return;
+    }
+
+    const activeRetestOrder = state.openOrders.find(
+      (order) =>
+        isActiveEntryOrder(order) &&
+        String(order?.symbol ?? "") === symbol &&
+        String(order?.orderLinkId ?? "") === fallback.retestIntentId
+    );
+    if (!activeRetestOrder) {
+      state.aiMaticRetestFallback.delete(symbol);
+      return;
+    }
+
+    const core = (decision as any)?.coreV2 as CoreV2Metrics | undefined;
+    const ltfOpenTime = toNumber(core?.ltfOpenTime);
+    if (Number.isFinite(ltfOpenTime) && ltfOpenTime > fallback.lastLtfOpenTime) {
+      fallback.lastLtfOpenTime = ltfOpenTime;
+      fallback.missedBars += 1;
+      state.aiMaticRetestFallback.set(symbol, fallback);
+    }
+
+    if (fallback.executing || fallback.missedBars < fallback.fallbackBars) return;
+
+    const hasPrimaryPosition = state.openPositions.some((p) => {
+      if (String(p.symbol ?? "") !== symbol) return false;
+      const size = toNumber(p.size ?? p.qty);
+      if (!Number.isFinite(size) || size <= 0) return false;
+      const posSide = String(p.side ?? "").toLowerCase();
+      return fallback.side === "Buy" ? posSide === "buy" : posSide === "sell";
+    });
+    if (!hasPrimaryPosition) return;
+
+    const pressure = resolveAiMaticFlowPressure(decision, fallback.side);
+    if (!pressure.strong) return;
+
+    fallback.executing = true;
+    state.aiMaticRetestFallback.set(symbol, fallback);
+
+    try {
+      await backend.postJson("/cancel", {
+        symbol,
+        orderId: activeRetestOrder.orderId || undefined,
+        orderLinkId: activeRetestOrder.orderLinkId || undefined,
+      });
+      state.addLogEntries([
+        {
+          id: `ai-matic-retest-cancel:${symbol}:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `${symbol} retest 40% cancel | bars ${fallback.missedBars} | Abs ${formatNumber(
+            pressure.absorptionScore,
+            2
+          )} | Δ ${formatNumber(pressure.delta, 2)}`,
+        },
+      ]);
+
+      const slices = Math.max(1, AI_MATIC_RETEST_TWAP_SLICES);
+      const sliceQty = fallback.fallbackQty / slices;
+      if (!Number.isFinite(sliceQty) || sliceQty <= 0) {
+        throw new Error("invalid_retest_fallback_qty");
+      }
+      for (let i = 0; i < slices; i++) {
+        await autoTrade({
+          symbol: fallback.symbol as Symbol,
+          side: fallback.side,
+          entryPrice: fallback.triggerPrice ?? activeRetestOrder.price ?? 0,
+          entryType: "MARKET",
+          slPrice: fallback.slPrice,
+          tpPrices: fallback.tpPrices,
+          qtyMode: "BASE_QTY",
+          qtyValue: sliceQty,
+          intentId: crypto.randomUUID(),
+        });
+        if (i < slices - 1) {
+          await new Promise<void>((resolve) =>
+            clock.setTimeout(resolve, AI_MATIC_RETEST_TWAP_DELAY_MS)
+          );
+        }
+      }
+      state.aiMaticRetestFallback.delete(symbol);
+      state.addLogEntries([
+        {
+          id: `ai-matic-retest-exec:${symbol}:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `${symbol} retest fallback TWAP ${Math.round(
+            AI_MATIC_RETEST_SECONDARY_RATIO * 100
+          )}% executed`,
+        },
+      ]);
+    } catch (err) {
+      fallback.executing = false;
+      state.aiMaticRetestFallback.set(symbol, fallback);
+      state.addLogEntries([
+        {
+          id: `ai-matic-retest-error:${symbol}:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "ERROR",
+          message: `${symbol} retest fallback failed: ${asErrorMessage(err)}`,
+        },
+      ]);
+    }
+  };
+
+  const handleDecision = (symbol: string, decision: PriceFeedDecision) => {
+    if (!state.appEnabled) return;
+    const now = clock.now();
+    const isSelected = state.activeSymbols.includes(symbol as Symbol);
+    const scalpActive = state.settings.riskMode === "ai-matic-olikella";
+    const isProProfile = state.settings.riskMode === "ai-matic-pro";
+    const isAiMaticProfile = state.settings.riskMode === "ai-matic";
+    const isAmdProfile = state.settings.riskMode === "ai-matic-amd";
+    const relayPaused = state.relayPause.paused;
+    const relayForceScan = state.relayPause.forceScanSymbols.has(symbol);
+    const skipDiagWhilePaused = relayPaused && !relayForceScan;
+    state.symbolTick.set(symbol, now);
+    let latestDiag:
+      | ReturnType<typeof buildScanDiagnostics>
+      | null = null;
+    if (!skipDiagWhilePaused) {
+      state.decisions[symbol] = { decision, ts: now };
+      latestDiag = buildScanDiagnostics(symbol, decision, now);
+      updateDataIntegrityWatchdog(symbol, latestDiag, now);
+    }
+    const portfolioRegime = resolvePortfolioRegime(now);
+    if (isSelected && !skipDiagWhilePaused) {
+      state.mergeScanDiagnostics({
+        [symbol]: latestDiag ?? buildScanDiagnostics(symbol, decision, now),
+      });
+    }
+    if (!isSelected) {
+      return;
+    }
+
+    const signalSideRaw = String(decision?.signal?.intent?.side ?? "")
+      .trim()
+      .toLowerCase();
+    const buySignal = signalSideRaw === "buy" || signalSideRaw === "long";
+    const symbolPositions = state.openPositions.filter(
+      (p) => p.symbol === symbol && hasMeaningfulOpenPosition(p)
+    );
+    // Správa obchodu běží nad každou otevřenou nohou symbolu; vstup v hedge
+    // režimu blokuje jen noha na straně signálu.
+    const hasOpenLeg = symbolPositions.length > 0;
+    const hasPosition = symbolPositions.some((p) =>
+      positionBlocksEntry(p, signalSideRaw)
+    );
+    const hasEntryOrder = state.openOrders.some(
+      (order) =>
+        isActiveEntryOrder(order) && String(order?.symbol ?? "") === symbol
+    );
+    const hasWaitingLimitOrder = state.openOrders.some(
+      (order) =>
+        isWaitingLimitEntryOrder(order) &&
+        String(order?.symbol ?? "") === symbol
+    );
+    const runtimeScalpOpenPosBlocked =
+      scalpActive &&
+      (hasPosition || hasWaitingLimitOrder);
+    const riskEntryMonitorOnly =
+      RISK_ENTRY_BLOCK_MONITOR_ONLY && !scalpActive;
+    const hasPendingIntent = state.intentPending.has(symbol);
+    const paused = feedPause.has(symbol);
+    // Pokud je feed pro tento symbol pozastavený, čekáme dokud se nevyčistí
+    // pending intent / otevřená pozice / entry order, potom automaticky obnovíme.
+    if (paused) {
+      void maybeRunAiMaticRetestFallback(symbol, decision, now);
+      if (hasOpenLeg && scalpActive) {
+        void handleOliKellaInTrade(symbol, decision, now);
+      }
+      if (hasPosition || hasEntryOrder || hasPendingIntent) {
+        return;
+      }
+      feedPause.delete(symbol);
+    }
+    const symbolPausedByPosition = state.symbolOpenPositionPause.has(symbol);
+    if (symbolPausedByPosition && !hasOpenLeg) {
+      const pauseKey = `symbol-open-position-pause:${symbol}`;
+      const lastPauseLog = skipLogThrottle.get(pauseKey) ?? 0;
+      if (now - lastPauseLog >= POSITION_GATE_TTL_MS) {
+        skipLogThrottle.set(pauseKey, now);
+        state.addLogEntries([
+          {
+            id: `symbol-open-position-pause:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} OPEN_POSITION pause active -> skip decision`,
+          },
+        ]);
+      }
+      return;
+    }
+    void maybeRunAiMaticRetestFallback(symbol, decision, now);
+    if (runtimeScalpOpenPosBlocked) {
+      const openPosKey = `open-pos-gate:${symbol}`;
+      const lastOpenPosLog = skipLogThrottle.get(openPosKey) ?? 0;
+      if (now - lastOpenPosLog >= POSITION_GATE_TTL_MS) {
+        skipLogThrottle.set(openPosKey, now);
+        state.addLogEntries([
+          {
+            id: `open-pos-gate:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "RISK_BLOCK",
+            message: `${symbol} OPEN_POS gate: open position or waiting limit order active`,
+          },
+        ]);
+      }
+      if (hasOpenLeg && scalpActive) {
+        void handleOliKellaInTrade(symbol, decision, now);
+      }
+      if (!riskEntryMonitorOnly) {
+        return;
+      }
+    }
+    if (buySignal && (hasPosition || hasWaitingLimitOrder)) {
+      const buyLockKey = `buy-lock:${symbol}`;
+      const lastBuyLockLog = skipLogThrottle.get(buyLockKey) ?? 0;
+      if (now - lastBuyLockLog >= POSITION_GATE_TTL_MS) {
+        skipLogThrottle.set(buyLockKey, now);
+        state.addLogEntries([
+          {
+            id: `buy-lock:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "RISK_BLOCK",
+            message: `${symbol} BUY_LOCK: active position or waiting limit order`,
+          },
+        ]);
+      }
+      if (hasOpenLeg && scalpActive) {
+        void handleOliKellaInTrade(symbol, decision, now);
+      }
+      if (!riskEntryMonitorOnly) {
+        return;
+      }
+    }
+    if (hasPosition || hasEntryOrder) {
+      if (hasOpenLeg && scalpActive) {
+        void handleOliKellaInTrade(symbol, decision, now);
+      }
+      if (hasPosition && state.settings.riskMode === "ai-matic") {
+        const aiMatic = (decision as any)?.aiMatic as AiMaticContext | null;
+        const pos = symbolPositions.find((p) =>
+          positionBlocksEntry(p, signalSideRaw)
+        );
+        const side = pos?.side === "Sell" ? "Sell" : "Buy";
+        const structureTrend = aiMatic?.htf.structureTrend ?? "RANGE";
+        const htfFlip =
+          side === "Buy" ? structureTrend === "BEAR" : structureTrend === "BULL";
+        const chochAgainst =
+          side === "Buy" ? aiMatic?.ltf.chochDown : aiMatic?.ltf.chochUp;
+        if (htfFlip || chochAgainst) {
+          const reason = htfFlip ? "HTF flip" : "CHoCH";
+          const key = `ai-matic-struct:${symbol}:${reason}`;
+          const last = aiMaticStructureLog.get(key) ?? 0;
+          if (now - last >= 15_000) {
+            aiMaticStructureLog.set(key, now);
+            state.addLogEntries([
+              {
+                id: `ai-matic-structure:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "STATUS",
+                message: `${symbol} STRUCTURE CHANGE -> MANUAL EXIT (${reason})`,
+              },
+            ]);
+          }
+        }
+      }
+      if (!riskEntryMonitorOnly) {
+        return;
+      }
+    }
+    const relayPauseState = state.relayPause;
+    if (relayPauseState.paused && !relayPauseState.forceScanSymbols.has(symbol)) {
+      if (
+        relayPauseState.forceScanSymbols.size === 0 &&
+        now - relayPauseState.lastTtlRecheckAt >= CAPACITY_RECHECK_MS
+      ) {
+        queueCapacityRecheck("TTL_RECHECK");
+      }
+      return;
+    }
+    const capacityContext = getSymbolContext(symbol, decision);
+    const capacityStatus = getCapacityStatus({
+      openPositionsTotal: capacityContext.openPositionsCount,
+      maxPos: capacityContext.maxPositions,
+      openOrdersTotal: capacityContext.openOrdersCount,
+      maxOrders: capacityContext.maxOrders,
+    });
+    const capacityFingerprint = buildCapacityFingerprint({
+      openPositionsTotal: capacityContext.openPositionsCount,
+      maxPos: capacityContext.maxPositions,
+      openOrdersTotal: capacityContext.openOrdersCount,
+      maxOrders: capacityContext.maxOrders,
+    });
+    const relayPause = state.relayPause;
+    const canSkipForCapacityPause =
+      !hasPosition && !hasEntryOrder;
+    if (capacityStatus.reason !== "OK") {
+      const shouldLogPause =
+        !relayPause.paused ||
+        relayPause.pausedReason !== capacityStatus.reason ||
+        relayPause.lastCapacityFingerprint !== capacityFingerprint;
+      if (shouldLogPause) {
+        relayPause.paused = true;
+        relayPause.pausedReason = capacityStatus.reason;
+        relayPause.pausedAt = now;
+        relayPause.lastCapacityFingerprint = capacityFingerprint;
+        relayPause.lastTtlRecheckAt = now;
+        relayPause.forceScanSymbols.clear();
+        relayPause.forceScanReason = null;
+        state.addLogEntries([
+          {
+            id: `signal-relay:paused:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `SIGNAL_RELAY_PAUSED [${capacityStatus.reason}] pos ${capacityContext.openPositionsCount}/${capacityContext.maxPositions} | orders ${capacityContext.openOrdersCount}/${capacityContext.maxOrders}`,
+          },
+        ]);
+        if (isSelected) {
+          const diag = buildScanDiagnostics(symbol, decision, now);
+          updateDataIntegrityWatchdog(symbol, diag, now);
+          state.mergeScanDiagnostics({ [symbol]: diag });
+        }
+      }
+      if (
+        canSkipForCapacityPause &&
+        relayPause.forceScanSymbols.size === 0 &&
+        now - relayPause.lastTtlRecheckAt >= CAPACITY_RECHECK_MS
+      ) {
+        queueCapacityRecheck("TTL_RECHECK");
+      }
+      if (!canSkipForCapacityPause) {
+        relayPause.forceScanSymbols.delete(symbol);
+      } else {
+        const forceScan = relayPause.forceScanSymbols.has(symbol);
+        if (!forceScan) return;
+        relayPause.forceScanSymbols.delete(symbol);
+        if (relayPause.forceScanSymbols.size === 0) {
+          relayPause.forceScanReason = null;
+        }
+      }
+    } else if (relayPause.paused) {
+      const pausedReason = relayPause.pausedReason ?? "UNKNOWN";
+      const afterMs =
+        relayPause.pausedAt > 0 ? Math.max(0, now - relayPause.pausedAt) : 0;
+      const resumeTrigger = relayPause.forceScanReason ?? "CAPACITY_CHANGED";
+      relayPause.paused = false;
+      relayPause.pausedReason = null;
+      relayPause.pausedAt = 0;
+      relayPause.lastCapacityFingerprint = capacityFingerprint;
+      relayPause.forceScanSymbols.clear();
+      relayPause.forceScanReason = null;
+      relayPause.lastTtlRecheckAt = 0;
+      state.addLogEntries([
+        {
+          id: `signal-relay:resumed:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `SIGNAL_RELAY_RESUMED [${pausedReason}] after ${afterMs}ms | trigger ${resumeTrigger}`,
+        },
+      ]);
+    }
+
+    const nextState = String(decision?.state ?? "").toUpperCase();
+    if (nextState) {
+      const prevState = lastState.get(symbol);
+      if (prevState && prevState !== nextState) {
+        state.addLogEntries([
+          {
+            id: `state:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} state ${prevState} → ${nextState}`,
+          },
+        ]);
+      }
+      lastState.set(symbol, nextState);
+    }
+
+    const rawSignal = decision?.signal ?? null;
+    const dataHealthSnapshot = resolveDataHealthSnapshot(
+      symbol,
+      now,
+      state.settings.riskMode
+    );
+    const feedAgeMs = dataHealthSnapshot.feedAgeMs;
+    const coreEval = isProProfile
+      ? evaluateProGates(decision, rawSignal)
+      : evaluateCoreV2(symbol as Symbol, decision, rawSignal, feedAgeMs);
+    const checklistBase = state.evaluateChecklistPass(coreEval.gates);
+    let signal = rawSignal;
+    const checklistAutoEligible =
+      checklistBase.pass &&
+      !isProProfile &&
+      !scalpActive &&
+      !isAmdProfile;
+    if (
+      !signal &&
+      checklistAutoEligible
+    ) {
+      signal = buildChecklistSignal(symbol as Symbol, decision, now);
+    }
+    if (!signal) {
+      if (checklistAutoEligible) {
+        state.addLogEntries([
+          {
+            id: `signal:missing:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} checklist ${checklistBase.passedCount}/${Math.max(
+              checklistBase.eligibleCount,
+              MIN_CHECKLIST_PASS
+            )} ready, but signal payload missing`,
+          },
+        ]);
+      }
+      return;
+    }
+
+    const signalId = String(signal.id ?? `${symbol}-${now}`);
+    if (signalSeen.has(signalId)) return;
+    signalSeen.add(signalId);
+    const journalContext: TradeJournalContext = {
+      profile: state.settings.riskMode,
+      signal,
+      diagnostic: latestDiag as SymbolDiagnostic | null,
+      settingsSnapshot: state.settings,
+    };
+
+    const isTreeProfile =
+      state.settings.riskMode === "ai-matic-tree" ||
+      state.settings.riskMode === "ai-matic";
+    const signalGates = evaluateSignalGates({
+      symbol,
+      riskMode: state.settings.riskMode,
+      decision,
+      signal,
+      trendGateMode: state.settings.trendGateMode,
+    });
+    const amdEval = signalGates.amdEval;
+    if (!signalGates.ok) {
+      state.addLogEntries([
+        {
+          id: resolveEntryGateLogId(signalGates.gate, symbol, signalId),
+          timestamp: new Date(now).toISOString(),
+          action: "RISK_BLOCK",
+          message: signalGates.message ?? `${symbol} entry gate -> NO TRADE`,
+        },
+      ]);
+      return;
+    }
+
+    const intent = signal.intent;
+    let entry = toNumber(intent?.entry);
+    const sl = toNumber(intent?.sl);
+    const tp = toNumber(intent?.tp);
+    const side =
+      String(intent?.side ?? "").toLowerCase() === "buy" ? "Buy" : "Sell";
+    let entryType =
+      signal.entryType === "CONDITIONAL" ||
+      signal.entryType === "LIMIT" ||
+      signal.entryType === "LIMIT_MAKER_FIRST" ||
+      signal.entryType === "MARKET"
+        ? signal.entryType
+        : "LIMIT_MAKER_FIRST";
+    const timestamp =
+      signal.createdAt || new Date(now).toISOString();
+
+    const msgParts = [`${symbol} ${side}`];
+    if (Number.isFinite(entry)) {
+      msgParts.push(`entry ${formatNumber(entry, 6)}`);
+    }
+    if (Number.isFinite(sl)) {
+      msgParts.push(`sl ${formatNumber(sl, 6)}`);
+    }
+    if (Number.isFinite(tp)) {
+      msgParts.push(`tp ${formatNumber(tp, 6)}`);
+    }
+    if (signal.message) msgParts.push(signal.message);
+
+    const isChecklistSignal =
+      signal.message === "Checklist auto-signál" ||
+      signal.message === "Checklist auto-signal";
+    const signalKey = [
+      symbol,
+      side,
+      String(signal.kind ?? "OTHER"),
+      signalPriceBucket(entry),
+      signalPriceBucket(sl),
+      signalPriceBucket(tp),
+    ].join("|");
+    const signalThrottleMs = isChecklistSignal
+      ? SIGNAL_LOG_THROTTLE_MS
+      : SIGNAL_LOG_SIMILAR_THROTTLE_MS;
+    const lastSignalLog = signalLogThrottle.get(signalKey) ?? 0;
+    const shouldLogSignal = now - lastSignalLog >= signalThrottleMs;
+    if (shouldLogSignal) {
+      if (signalLogThrottle.size > 500) {
+        for (const [key, ts] of signalLogThrottle.entries()) {
+          if (now - ts > 60_000) signalLogThrottle.delete(key);
+        }
+      }
+      signalLogThrottle.set(signalKey, now);
+      state.addLogEntries([
+        {
+          id: `signal:${signalId}`,
+          timestamp,
+          action: "SIGNAL",
+          message: msgParts.join(" | "),
+        },
+      ]);
+    }
+
+    if (
+      state.mode !== TradingMode.AUTO_ON &&
+      state.mode !== TradingMode.PAPER
+    ) {
+      state.addLogEntries([
+        {
+          id: `signal:auto-off:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `AUTO_OFF ${symbol} signal not executed`,
+        },
+      ]);
+      return;
+    }
+
+    // The server executor runs the same pipeline on its own session.
+    if (state.settings.serverAutoTrading) return;
+
+    const context = getSymbolContext(symbol, decision);
+    const isAiMaticX = context.settings.riskMode === "ai-matic-x";
+    const isScalpProfile = context.settings.riskMode === "ai-matic-olikella";
+    const xContext = (decision as any)?.xContext as AiMaticXContext | undefined;
+    const hasSymbolPosition =
+      context.hasPosition &&
+      state.openPositions.some(
+        (p) => p.symbol === symbol && positionBlocksEntry(p, side)
+      );
+    const hasSymbolEntryOrder = state.openOrders.some(
+      (order) =>
+        isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+    );
+    const hasSymbolWaitingLimitOrder = state.openOrders.some(
+      (order) =>
+        isWaitingLimitEntryOrder(order) &&
+        String(order?.symbol ?? "") === symbol
+    );
+    const entryScalpOpenPosBlocked =
+      isScalpProfile &&
+      (hasSymbolPosition || hasSymbolWaitingLimitOrder);
+    const decisionTrace: DecisionTraceEntry[] = [];
+    const appendTrace = (gate: string, result: GateResult) => {
+      decisionTrace.push({ gate, result });
+    };
+    const cooldownMs = CORE_V2_COOLDOWN_MS[context.settings.riskMode];
+    const lastLossTs = state.lastLossBySymbol.get(symbol) ?? 0;
+    const lastCloseTs = state.lastCloseBySymbol.get(symbol) ?? 0;
+    const lastIntentTs = state.lastIntentBySymbol.get(symbol) ?? 0;
+    const entryLockTs = state.entryOrderLock.get(symbol) ?? 0;
+    const entryBlockReasons: string[] = [];
+    const capacityGate = positionCapacityGate({
+      hasSymbolPosition,
+      openPositionsTotal: context.openPositionsCount,
+      maxPos: context.maxPositions,
+    });
+    appendTrace("PositionCapacity", capacityGate);
+    if (!capacityGate.ok) entryBlockReasons.push(capacityGate.reason);
+    if (entryScalpOpenPosBlocked) {
+      entryBlockReasons.push("open_pos");
+      appendTrace("OpenPosGate", {
+        ok: false,
+        code: "OPEN_POS",
+        reason: "open position or waiting limit order active",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (side === "Buy" && (hasSymbolPosition || hasSymbolWaitingLimitOrder)) {
+      entryBlockReasons.push("buy lock");
+      appendTrace("BuyLock", {
+        ok: false,
+        code: "BUY_LOCK",
+        reason: "active position or waiting limit order",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (hasSymbolEntryOrder) {
+      entryBlockReasons.push("open order");
+      appendTrace("OpenOrder", {
+        ok: false,
+        code: "OPEN_ORDER",
+        reason: "open order",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (hasPendingIntent) {
+      entryBlockReasons.push("pending intent");
+      appendTrace("IntentPending", {
+        ok: false,
+        code: "PENDING_INTENT",
+        reason: "pending intent",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (entryLockTs && now - entryLockTs < ENTRY_ORDER_LOCK_MS) {
+      const remainingMs = Math.max(0, ENTRY_ORDER_LOCK_MS - (now - entryLockTs));
+      const remainingSec = Math.ceil(remainingMs / 1000);
+      const reason = `entry lock ${remainingSec}s`;
+      entryBlockReasons.push(reason);
+      appendTrace("EntryLock", {
+        ok: false,
+        code: "ENTRY_LOCK",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (lastIntentTs && now - lastIntentTs < INTENT_COOLDOWN_MS) {
+      const remainingMs = Math.max(0, INTENT_COOLDOWN_MS - (now - lastIntentTs));
+      const remainingSec = Math.ceil(remainingMs / 1000);
+      const reason = `recent intent ${remainingSec}s`;
+      entryBlockReasons.push(reason);
+      appendTrace("IntentCooldown", {
+        ok: false,
+        code: "RECENT_INTENT",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    const closeCooldownMs = isScalpProfile
+      ? SCALP_COOLDOWN_MS
+      : REENTRY_COOLDOWN_MS;
+    if (lastCloseTs && now - lastCloseTs < closeCooldownMs) {
+      const remainingMs = Math.max(0, closeCooldownMs - (now - lastCloseTs));
+      const remainingSec = Math.ceil(remainingMs / 1000);
+      const reason = `recent close ${remainingSec}s`;
+      entryBlockReasons.push(reason);
+      appendTrace("ReentryCooldown", {
+        ok: false,
+        code: "RECENT_CLOSE",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (lastLossTs && now - lastLossTs < cooldownMs) {
+      const remainingMs = Math.max(0, cooldownMs - (now - lastLossTs));
+      const remainingMin = Math.ceil(remainingMs / 60_000);
+      const reason = `cooldown ${remainingMin}m`;
+      entryBlockReasons.push(reason);
+      appendTrace("LossCooldown", {
+        ok: false,
+        code: "LOSS_COOLDOWN",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (isAiMaticProfile) {
+      const swingGate = swingCooldownGate(
+        toNumber(state.aiMaticSwingState.get(symbol)?.cooldownUntil),
+        now,
+        POSITION_GATE_TTL_MS
+      );
+      if (!swingGate.ok) {
+        entryBlockReasons.push(swingGate.reason);
+        appendTrace("SwingCooldown", swingGate);
+      }
+    }
+    if (!context.ordersClearOk) {
+      entryBlockReasons.push("max orders");
+      appendTrace("OrderCapacity", {
+        ok: false,
+        code: "MAX_ORDERS",
+        reason: "max orders",
+        ttlMs: MAX_ORDERS_GATE_TTL_MS,
+      });
+    }
+    const dataGate = dataHealthGate(symbol, now, context.settings.riskMode);
+    appendTrace("DataHealth", dataGate);
+    if (!dataGate.ok) {
+      entryBlockReasons.push(dataGate.reason);
+    }
+    const slProtectionGate = protectionGate();
+    appendTrace("ProtectionSL", slProtectionGate);
+    if (!slProtectionGate.ok) {
+      entryBlockReasons.push(slProtectionGate.reason);
+    }
+    const entryRiskMonitorOnly =
+      RISK_ENTRY_BLOCK_MONITOR_ONLY && !isScalpProfile;
+    if (entryBlockReasons.length > 0) {
+      const profileLabel = resolveStrategy(context.settings.riskMode).label;
+      const skipCode = decisionTrace.find((entry) => !entry.result.ok)?.result.code ?? "ENTRY_BLOCKED";
+      const skipReason =
+        decisionTrace.find((entry) => !entry.result.ok)?.result.reason ??
+        entryBlockReasons[0] ??
+        "entry blocked";
+      const stateFingerprint = [
+        context.capacityStateFingerprint,
+        entryBlockReasons.join("|"),
+        String(signal?.intent?.side ?? ""),
+        String(signal?.kind ?? ""),
+      ].join("::");
+      const prevFingerprint = state.entryBlockFingerprint.get(symbol);
+      const sameFingerprint = prevFingerprint === stateFingerprint;
+      if (!sameFingerprint) {
+        state.entryBlockFingerprint.set(symbol, stateFingerprint);
+      }
+      const ttlMs =
+        decisionTrace.find((entry) => !entry.result.ok)?.result.ttlMs ??
+        SKIP_LOG_THROTTLE_MS;
+      const normalizedSkipCode = String(skipCode ?? "").toUpperCase();
+      const relayPausedReason = state.relayPause.pausedReason;
+      const relayCapacityPaused =
+        state.relayPause.paused &&
+        (relayPausedReason === "MAX_POS" ||
+          relayPausedReason === "MAX_ORDERS" ||
+          relayPausedReason === "MAX_POS+MAX_ORDERS");
+      const shouldEmitSkipStatus =
+        !relayCapacityPaused &&
+        !SKIP_STATUS_SUPPRESSED_CODES.has(normalizedSkipCode);
+      if (
+        !sameFingerprint &&
+        shouldEmitSkipStatus &&
+        shouldEmitBlockLog(symbol, skipCode, stateFingerprint, ttlMs, now)
+      ) {
+        state.addLogEntries([
+          {
+            id: `signal:max-pos:${signalId}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} ${profileLabel} gate [${skipCode}]: ${skipReason} -> ${entryRiskMonitorOnly ? "monitor only" : "skip entry"}`,
+          },
+        ]);
+      }
+      if (!entryRiskMonitorOnly) {
+        return;
+      }
+    } else {
+      state.entryBlockFingerprint.delete(symbol);
+    }
+    const strategyGates = evaluateStrategyEntryGates({
+      symbol,
+      riskMode: context.settings.riskMode,
+      decision,
+      signal,
+      side,
+      coreEval,
+      amdEval,
+      gateOverrides: state.gateOverrides,
+      enableSoftGates: context.settings.enableSoftGates,
+      trace: decisionTrace,
+      closedPnl: state.closedPnlRecords,
+      equity: getEquityValue(),
+      now,
+    });
+    const riskOff = strategyGates.riskOff;
+    const riskOn = !riskOff;
+    // OLIkella v risk-off režimu vstupuje dál, jen se zmenšenou velikostí.
+    if (riskOff && isScalpProfile) {
+      state.addLogEntries([
+        {
+          id: `signal:risk:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "RISK_BLOCK",
+          message: `${symbol} risk off: ${strategyGates.riskReasons.join(", ")}`,
+        },
+      ]);
+    }
+    if (!strategyGates.ok) {
+      state.addLogEntries([
+        {
+          id: resolveEntryGateLogId(strategyGates.gate, symbol, signalId),
+          timestamp: new Date(now).toISOString(),
+          action: "RISK_BLOCK",
+          message: strategyGates.message ?? `${symbol} entry gate -> NO TRADE`,
+        },
+      ]);
+      return;
+    }
+    const aiMaticCoreEval = strategyGates.aiMaticCoreEval;
+
+    const core = (decision as any)?.coreV2 as CoreV2Metrics | undefined;
+    const protectedEntry = false;
+
+    if (isTreeProfile) {
+      entryType = "LIMIT_MAKER_FIRST";
+    }
+    let aiMaticMarketAllowed = false;
+    let aiMaticTriggerOverride: number | undefined;
+    let aiMaticContextForEntry: AiMaticContext | null = null;
+    let aiMaticSwingSetup: AiMaticSwingSideSetup | null = null;
+    let aiMaticEma200Setup: AiMaticEma200ScalpSideSetup | null = null;
+    let aiMaticSwingTfMin: 5 | 15 | undefined;
+    if (isAiMaticProfile && aiMaticCoreEval?.pass) {
+      const aiMatic = (decision as any)?.aiMatic as AiMaticContext | null;
+      if (aiMatic) {
+        aiMaticContextForEntry = aiMatic;
+        const resolved = resolveAiMaticEntryType({
+          aiMatic,
+          side,
+          entry,
+        });
+        entryType = resolved.entryType;
+        aiMaticMarketAllowed = resolved.allowMarket;
+        if (Number.isFinite(resolved.triggerPrice)) {
+          aiMaticTriggerOverride = resolved.triggerPrice;
+        }
+        const applyEma200Setup = (
+          setup: AiMaticEma200ScalpSideSetup
+        ) => {
+          aiMaticEma200Setup = setup;
+          entry = setup.entry;
+          entryType = setup.entryType;
+          aiMaticMarketAllowed = setup.entryType === "MARKET";
+          aiMaticTriggerOverride = undefined;
+          state.addLogEntries([
+            {
+              id: `ai-matic:ema200:${symbol}:${signalId}`,
+              timestamp: new Date(now).toISOString(),
+              action: "STATUS",
+              message: `${symbol} ema200 ${aiMatic.ema200Scalp?.reason ?? "module"} ${setup.mode} ${side} ${entryType} @ ${formatNumber(entry, 6)}`,
+            },
+          ]);
+        };
+        const ema200Setup =
+          side === "Buy" ? aiMatic.ema200Scalp?.buy : aiMatic.ema200Scalp?.sell;
+        const swingSetup =
+          side === "Buy" ? aiMatic.swing?.buy : aiMatic.swing?.sell;
+        const preferEma200Reversal =
+          ema200Setup?.mode === "AOI_REVERSAL_MARKET";
+        if (preferEma200Reversal && ema200Setup?.enabled) {
+          applyEma200Setup(ema200Setup);
+        } else if (aiMatic.swing?.active && swingSetup?.enabled) {
+          aiMaticSwingSetup = swingSetup;
+          aiMaticSwingTfMin = aiMatic.swing.activeTfMin;
+          if (Number.isFinite(swingSetup.entry) && swingSetup.entry > 0) {
+            entry = swingSetup.entry;
+          }
+          entryType = swingSetup.entryType;
+          aiMaticMarketAllowed = false;
+          if (
+            swingSetup.entryType === "CONDITIONAL" &&
+            Number.isFinite(swingSetup.trigger)
+          ) {
+            aiMaticTriggerOverride = swingSetup.trigger;
+          }
+          state.addLogEntries([
+            {
+              id: `ai-matic:swing:${symbol}:${signalId}`,
+              timestamp: new Date(now).toISOString(),
+              action: "STATUS",
+              message: `${symbol} swing ${aiMatic.swing.reason} ${side} ${entryType} @ ${formatNumber(entry, 6)}`,
+            },
+          ]);
+        } else if (ema200Setup?.enabled) {
+          applyEma200Setup(ema200Setup);
+        }
+      }
+    }
+    if (isAiMaticProfile && symbol === "ETHUSDT" && side === "Buy") {
+      entryType = "LIMIT";
+      aiMaticMarketAllowed = false;
+      aiMaticTriggerOverride = undefined;
+    }
+    if (isAiMaticProfile && aiMaticCoreEval?.pass) {
+      if (entryType === "MARKET") {
+        entryType = "CONDITIONAL";
+        aiMaticMarketAllowed = false;
+        if (!Number.isFinite(aiMaticTriggerOverride) && Number.isFinite(entry) && entry > 0) {
+          aiMaticTriggerOverride = entry;
+        }
+      } else if (entryType === "LIMIT_MAKER_FIRST") {
+        entryType = "LIMIT";
+      }
+    }
+    if (isScalpProfile) {
+      if (entryType === "MARKET") {
+        entryType =
+          Number.isFinite(signal.triggerPrice) || (Number.isFinite(entry) && entry > 0)
+            ? "CONDITIONAL"
+            : "LIMIT";
+      } else if (entryType === "LIMIT_MAKER_FIRST") {
+        entryType = "LIMIT";
+      }
+    }
+    if (entryType === "MARKET") {
+      let allowMarket =
+        (isAiMaticX && riskOn && xContext?.strongTrendExpanse) ||
+        (isAiMaticProfile && aiMaticMarketAllowed);
+      if (isAiMaticProfile && symbol === "BTCUSDT") {
+        const btcSweepOk =
+          side === "Buy"
+            ? Boolean(
+                aiMaticContextForEntry?.ltf.sweepLow ||
+                  aiMaticContextForEntry?.ltf.fakeoutLow
+              )
+            : Boolean(
+                aiMaticContextForEntry?.ltf.sweepHigh ||
+                  aiMaticContextForEntry?.ltf.fakeoutHigh
+              );
+        if (!btcSweepOk) {
+          allowMarket = false;
+        }
+      }
+      if (isAiMaticProfile && symbol === "ETHUSDT" && side === "Buy") {
+        allowMarket = false;
+      }
+      if (!allowMarket) {
+        entryType = "LIMIT";
+      }
+    }
+    const triggerPrice =
+      entryType === "CONDITIONAL"
+        ? Number.isFinite(aiMaticTriggerOverride)
+          ? aiMaticTriggerOverride
+          : Number.isFinite(signal.triggerPrice)
+            ? signal.triggerPrice
+            : entry
+        : undefined;
+
+    const proTargets = isProProfile ? (signal as any)?.proTargets : null;
+    let resolvedSl = sl;
+    let resolvedTp = tp;
+    let aiMaticTargets: AiMaticTargetPlan | null = null;
+    if (isScalpProfile && Number.isFinite(entry) && entry > 0) {
+      if (
+        (!Number.isFinite(resolvedSl) || resolvedSl <= 0) &&
+        Number.isFinite(signal?.intent?.sl)
+      ) {
+        resolvedSl = toNumber(signal.intent.sl);
+      }
+      if (
+        (!Number.isFinite(resolvedTp) || resolvedTp <= 0) &&
+        Number.isFinite(signal?.intent?.tp)
+      ) {
+        resolvedTp = toNumber(signal.intent.tp);
+      }
+      if (
+        (!Number.isFinite(resolvedSl) || resolvedSl <= 0) &&
+        Number.isFinite(core?.atr14) &&
+        core!.atr14 > 0
+      ) {
+        resolvedSl =
+          side === "Buy"
+            ? entry - core!.atr14 * 1.5
+            : entry + core!.atr14 * 1.5;
+      }
+      if (
+        (!Number.isFinite(resolvedTp) || resolvedTp <= 0) &&
+        Number.isFinite(resolvedSl) &&
+        resolvedSl > 0
+      ) {
+        const risk = Math.abs(entry - resolvedSl);
+        if (Number.isFinite(risk) && risk > 0) {
+          resolvedTp = side === "Buy" ? entry + 2 * risk : entry - 2 * risk;
+        }
+      }
+    }
+    if (protectedEntry) {
+      const protectedSl = resolveProtectedScalpStop(
+        core,
+        side,
+        entry,
+        resolvedSl
+      );
+      if (Number.isFinite(protectedSl) && protectedSl > 0) {
+        resolvedSl = protectedSl;
+      }
+      if (
+        isScalpProfile &&
+        Number.isFinite(entry) &&
+        entry > 0 &&
+        Number.isFinite(resolvedSl) &&
+        resolvedSl > 0
+      ) {
+        const risk = Math.abs(entry - resolvedSl);
+        if (Number.isFinite(risk) && risk > 0) {
+          resolvedTp =
+            side === "Buy"
+              ? entry + 1.5 * risk
+              : entry - 1.5 * risk;
+        }
+      }
+    }
+
+    if (isAiMaticProfile) {
+        const aiMatic = (decision as any)?.aiMatic as AiMaticContext | null;
+        if (aiMaticSwingSetup) {
+          if (Number.isFinite(aiMaticSwingSetup.sl) && aiMaticSwingSetup.sl > 0) {
+            resolvedSl = aiMaticSwingSetup.sl;
+          }
+          aiMaticTargets = {
+            tp1: aiMaticSwingSetup.tp1,
+            tp2: aiMaticSwingSetup.tp2,
+          };
+          if (Number.isFinite(aiMaticSwingSetup.tp2) && aiMaticSwingSetup.tp2 > 0) {
+            resolvedTp = aiMaticSwingSetup.tp2;
+          } else if (
+            Number.isFinite(aiMaticSwingSetup.tp1) &&
+            aiMaticSwingSetup.tp1 > 0
+          ) {
+            resolvedTp = aiMaticSwingSetup.tp1;
+          }
+        } else if (aiMaticEma200Setup) {
+          if (Number.isFinite(aiMaticEma200Setup.sl) && aiMaticEma200Setup.sl > 0) {
+            resolvedSl = aiMaticEma200Setup.sl;
+          }
+          aiMaticTargets = {
+            tp1: aiMaticEma200Setup.tp,
+            tp2: aiMaticEma200Setup.tp,
+          };
+          if (Number.isFinite(aiMaticEma200Setup.tp) && aiMaticEma200Setup.tp > 0) {
+            resolvedTp = aiMaticEma200Setup.tp;
+          }
+        } else {
+          const riskParams = resolveAiMaticAdaptiveRiskParams({
+            symbol,
+            records: state.closedPnlRecords,
+          });
+          const nextSl = resolveAiMaticStopLoss({
+            side,
+            entry,
+            currentSl: resolvedSl,
+            atr: core?.atr14,
+            aiMatic,
+            core,
+            riskParams,
+          });
+          if (Number.isFinite(nextSl) && nextSl > 0) {
+            resolvedSl = nextSl;
+          }
+          aiMaticTargets = resolveAiMaticTargetPlan({
+            side,
+            entry,
+            sl: resolvedSl,
+            atr: core?.atr14,
+            aiMatic,
+          });
+          if (Number.isFinite(aiMaticTargets.tp2) && aiMaticTargets.tp2 > 0) {
+            resolvedTp = aiMaticTargets.tp2;
+          } else if (Number.isFinite(aiMaticTargets.tp1) && aiMaticTargets.tp1 > 0) {
+            resolvedTp = aiMaticTargets.tp1;
+          }
+        }
+    }
+
+    if (isTreeProfile) {
+      const minStopDistance = resolveMinProtectionDistance(entry, core?.atr14);
+      const slGate = stopValidityGate(entry, resolvedSl, side, minStopDistance);
+      appendTrace("TreeStopValidity", slGate);
+      if (!slGate.ok) {
+        state.addLogEntries([
+          {
+            id: `signal:tree-stop-gate:${signalId}`,
+            timestamp: new Date(now).toISOString(),
+            action: "RISK_BLOCK",
+            message: `${symbol} TREE stop gate [${slGate.code}]: ${slGate.reason}`,
+          },
+        ]);
+        return;
+      }
+    }
+
+    const normalized = normalizeProtectionLevels(
+      entry,
+      side,
+      resolvedSl,
+      resolvedTp,
+      core?.atr14
+    );
+    resolvedSl = normalized.sl;
+    resolvedTp = normalized.tp;
+    if (
+      isAiMaticProfile &&
+      Number.isFinite(resolvedSl) &&
+      Number.isFinite(resolvedTp)
+    ) {
+      const minGap = Number.isFinite(normalized.minDistance)
+        ? normalized.minDistance
+        : resolveMinProtectionDistance(entry, core?.atr14);
+      if (side === "Buy" && resolvedSl >= resolvedTp) {
+        resolvedTp = resolvedSl + minGap;
+      }
+      if (side === "Sell" && resolvedSl <= resolvedTp) {
+        resolvedTp = resolvedSl - minGap;
+      }
+    }
+    if (isProProfile && proTargets && Number.isFinite(proTargets.t2)) {
+      resolvedTp = proTargets.t2;
+    }
+
+    if (
+      !Number.isFinite(entry) ||
+      !Number.isFinite(resolvedSl) ||
+      entry <= 0 ||
+      resolvedSl <= 0
+    ) {
+      state.addLogEntries([
+        {
+          id: `signal:invalid:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "ERROR",
+          message: `${symbol} invalid signal params (entry/sl)`,
+        },
+      ]);
+      return;
+    }
+
+    state.plannedProtection.set(String(symbol).toUpperCase(), {
+      sl: resolvedSl,
+      setAt: now,
+    });
+
+    if (
+      isAiMaticProfile &&
+      aiMaticTargets &&
+      Number.isFinite(aiMaticTargets.tp1) &&
+      aiMaticTargets.tp1 > 0
+    ) {
+      state.aiMaticTp1.set(symbol, {
+        entry,
+        tp1: aiMaticTargets.tp1,
+        tp2:
+          Number.isFinite(aiMaticTargets.tp2) && aiMaticTargets.tp2 > 0
+            ? aiMaticTargets.tp2
+            : aiMaticTargets.tp1,
+        side,
+        setAt: now,
+        partialFraction: aiMaticSwingSetup?.tp1Fraction,
+      });
+    }
+
+    if (
+      isProProfile &&
+      proTargets &&
+      Number.isFinite(entry) &&
+      Number.isFinite(proTargets.t1) &&
+      Number.isFinite(proTargets.t2)
+    ) {
+      state.proTargets.set(symbol, {
+        t1: proTargets.t1,
+        t2: proTargets.t2,
+        entryPrice: entry,
+        side,
+        setAt: now,
+      });
+      state.proTrailArmed.set(symbol, false);
+    }
+
+    let scalpExitMode: "TRAIL" | "TP" | null = null;
+    let scalpExitReason: string | null = null;
+
+    const fixedSizing = computeFixedSizing(symbol as Symbol, entry, resolvedSl, {
+      allowMainnet: isScalpProfile,
+    });
+    const treeUseDynamicSizing =
+      !isTreeProfile || state.settings.useDynamicPositionSizing !== false;
+    // Vol-target a Kelly vždy velikostí přes riziko, fixní per-trade notional jen fixed-fractional.
+    const sizingDecision = resolveSizingDecision(entry, resolvedSl, core?.atrPct);
+    const modelSizing = sizingDecision.model !== "fixed-fractional";
+    const riskSizing = () =>
+      computeNotionalForSignal(symbol as Symbol, entry, resolvedSl, sizingDecision.riskPct);
+    const sizing = modelSizing
+      ? riskSizing()
+      : isTreeProfile
+        ? treeUseDynamicSizing
+          ? riskSizing()
+          : fixedSizing ?? riskSizing()
+        : fixedSizing ?? riskSizing();
+    if (!sizing.ok) {
+      state.addLogEntries([
+        {
+          id: `signal:sizing:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "ERROR",
+          message: `${symbol} sizing failed: ${sizing.reason}`,
+        },
+      ]);
+      return;
+    }
+    const riskOffMultiplier =
+      isScalpProfile && riskOff ? SCALP_RISK_OFF_MULT : 1;
+    const portfolioScale = resolvePortfolioRiskScale(
+      symbol as Symbol,
+      side,
+      now
+    );
+    const riskMultiplier = Math.min(
+      protectedEntry ? SCALP_PROTECTED_RISK_MULT : 1,
+      riskOffMultiplier,
+      portfolioScale.scale
+    );
+    const useFixedQty = modelSizing
+      ? false
+      : isTreeProfile
+        ? !treeUseDynamicSizing && fixedSizing?.ok === true
+        : fixedSizing?.ok === true;
+    const lockManualPerTradeSizing =
+      isScalpProfile && useFixedQty && fixedSizing?.ok === true;
+    const effectiveRiskMultiplier = lockManualPerTradeSizing
+      ? 1
+      : riskMultiplier;
+    const qtyMode = useFixedQty ? "BASE_QTY" : "USDT_NOTIONAL";
+    const baseQty = sizing.qty;
+    const baseNotional = sizing.notional;
+    let adjustedQty =
+      Number.isFinite(baseQty) && baseQty > 0
+        ? baseQty * effectiveRiskMultiplier
+        : baseQty;
+    let adjustedNotional =
+      Number.isFinite(baseNotional) && baseNotional > 0
+        ? baseNotional * effectiveRiskMultiplier
+        : baseNotional;
+    if (
+      isAiMaticProfile &&
+      aiMaticSwingSetup &&
+      Number.isFinite(entry) &&
+      entry > 0 &&
+      Number.isFinite(adjustedNotional)
+    ) {
+      adjustedNotional = Math.max(adjustedNotional, AI_MATIC_SWING_MIN_NOTIONAL);
+      adjustedQty = adjustedNotional / entry;
+    }
+    ({ notional: adjustedNotional, qty: adjustedQty } = applyVenueNotionalBounds({
+      entry,
+      notional: adjustedNotional,
+      qty: adjustedQty,
+      useTestnet: state.useTestnet,
+      leverage: resolveSymbolLeverage(symbol as Symbol),
+      perTradeTestnetUsd: state.settings.perTradeTestnetUsd,
+      perTradeMainnetUsd: state.settings.perTradeMainnetUsd,
+    }));
+    const qtyValue = useFixedQty ? adjustedQty : adjustedNotional;
+    state.update({
+      lastSizing: {
+        ...sizingDecision,
+        symbol,
+        ts: now,
+        basis: useFixedQty ? "per-trade" : "risk",
+        notional: adjustedNotional,
+      },
+    });
+    const stagedRetestConfig = (signal as any)?.execution?.stagedRetest as
+      | {
+          enabled?: boolean;
+          primaryRatio?: number;
+          retestRatio?: number;
+          fallbackBars?: number;
+          retestLtfMinutes?: number;
+        }
+      | undefined;
+    const stagedRetestEnabled = false;
+    const stagedPrimaryRatio = Number.isFinite(stagedRetestConfig?.primaryRatio)
+      ? Math.min(0.95, Math.max(0.05, stagedRetestConfig!.primaryRatio as number))
+      : AI_MATIC_RETEST_PRIMARY_RATIO;
+    const stagedSecondaryRatioRaw = Number.isFinite(stagedRetestConfig?.retestRatio)
+      ? (stagedRetestConfig!.retestRatio as number)
+      : AI_MATIC_RETEST_SECONDARY_RATIO;
+    const stagedSecondaryRatio = Math.max(
+      0.01,
+      Math.min(0.95, stagedSecondaryRatioRaw)
+    );
+    const stagedNormalizedTotal = stagedPrimaryRatio + stagedSecondaryRatio;
+    const stagedPrimaryWeight =
+      stagedRetestEnabled && stagedNormalizedTotal > 0
+        ? stagedPrimaryRatio / stagedNormalizedTotal
+        : 1;
+    const stagedSecondaryWeight =
+      stagedRetestEnabled && stagedNormalizedTotal > 0
+        ? stagedSecondaryRatio / stagedNormalizedTotal
+        : 0;
+    const stagedPrimaryQty =
+      stagedRetestEnabled && Number.isFinite(adjustedQty)
+        ? adjustedQty * stagedPrimaryWeight
+        : Number.NaN;
+    const stagedSecondaryQty =
+      stagedRetestEnabled && Number.isFinite(adjustedQty)
+        ? adjustedQty * stagedSecondaryWeight
+        : Number.NaN;
+    const stagedFallbackBars = Number.isFinite(stagedRetestConfig?.fallbackBars)
+      ? Math.max(1, Math.round(stagedRetestConfig!.fallbackBars as number))
+      : AI_MATIC_RETEST_FALLBACK_BARS;
+    const stagedLtfMin = Number.isFinite(stagedRetestConfig?.retestLtfMinutes)
+      ? Math.max(1, Math.round(stagedRetestConfig!.retestLtfMinutes as number))
+      : core?.ltfTimeframeMin ?? 5;
+    const shouldUseStagedRetest =
+      stagedRetestEnabled &&
+      Number.isFinite(stagedPrimaryQty) &&
+      stagedPrimaryQty > 0 &&
+      Number.isFinite(stagedSecondaryQty) &&
+      stagedSecondaryQty > 0;
+    const primaryEntryType: EntryType = shouldUseStagedRetest
+      ? entryType === "CONDITIONAL"
+        ? "CONDITIONAL"
+        : "LIMIT"
+      : entryType;
+    const secondaryEntryType: EntryType = shouldUseStagedRetest
+      ? entryType === "CONDITIONAL"
+        ? "CONDITIONAL"
+        : "LIMIT"
+      : entryType;
+    if (protectedEntry) {
+      state.addLogEntries([
+        {
+          id: `signal:protected:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `${symbol} protected entry (risk ${Math.round(
+            SCALP_PROTECTED_RISK_MULT * 100
+          )}%)`,
+        },
+      ]);
+    }
+    if (isScalpProfile && riskOff) {
+      state.addLogEntries([
+        {
+          id: `signal:riskoff:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `${symbol} risk-off sizing (${Math.round(
+            SCALP_RISK_OFF_MULT * 100
+          )}%)`,
+        },
+      ]);
+    }
+    if (portfolioScale.scale < 0.999) {
+      const clusterKey = `cluster:${symbol}:${side}:${portfolioScale.correlatedSymbols.join("|")}:${Math.round(
+        portfolioScale.scale * 100
+      )}`;
+      const last = skipLogThrottle.get(clusterKey) ?? 0;
+      if (now - last >= SKIP_LOG_THROTTLE_MS) {
+        skipLogThrottle.set(clusterKey, now);
+        const clusterDetail =
+          portfolioScale.correlatedSymbols.length > 0
+            ? portfolioScale.correlatedSymbols.join(", ")
+            : "none";
+        state.addLogEntries([
+          {
+            id: `signal:portfolio:${signalId}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} portfolio scale ${Math.round(
+              portfolioScale.scale * 100
+            )}% | cluster ${portfolioScale.clusterSize} | corr ${formatNumber(
+              portfolioScale.strongestCorrelation,
+              2
+            )} | ${clusterDetail}${
+              portfolioScale.altseasonActive || portfolioRegime.active
+                ? " | altseason"
+                : ""
+            }`,
+          },
+        ]);
+      }
+    }
+
+    const trailOffset = toNumber((decision as any)?.trailOffsetPct);
+    const allowScalpTrail = !isScalpProfile;
+    if (allowScalpTrail && Number.isFinite(trailOffset) && trailOffset > 0) {
+      state.trailOffset.set(symbol, trailOffset);
+    } else {
+      state.trailOffset.delete(symbol);
+    }
+
+    if (state.intentPending.has(symbol)) {
+      state.addLogEntries([
+        {
+          id: `signal:pending:${signalId}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `${symbol} intent pending`,
+        },
+      ]);
+      return;
+    }
+
+    // Deterministické ID podle signálu: server odmítne druhý vstup téhož
+    // signálu i z jiné záložky nebo po reloadu.
+    const primaryIntentId = deriveOrderLinkId({ signalId, symbol, side });
+    const secondaryIntentId = shouldUseStagedRetest
+      ? deriveOrderLinkId({ signalId, symbol, side, leg: "retest" })
+      : undefined;
+    state.intentPending.add(symbol);
+    if (isScalpProfile && scalpExitMode) {
+      state.scalpExitState.set(symbol, {
+        mode: scalpExitMode,
+        switched: false,
+        decidedAt: now,
+      });
+      if (scalpExitReason) {
+        state.addLogEntries([
+          {
+            id: `signal:scalp-exit:${signalId}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} scalp exit mode ${scalpExitMode} (${scalpExitReason})`,
+          },
+        ]);
+      }
+    }
+    state.lastIntentBySymbol.set(symbol, now);
+    state.entryOrderLock.set(symbol, now);
+    if (isAiMaticProfile && aiMaticSwingSetup && Number.isFinite(aiMaticSwingTfMin)) {
+      const tfMin = aiMaticSwingTfMin as 5 | 15;
+      state.aiMaticSwingState.set(symbol, {
+        tfMin,
+        beMinR: AI_MATIC_SWING_BE_MIN_R,
+        cooldownUntil: resolveSwingCooldownUntil(now, tfMin),
+        setAt: now,
+      });
+    }
+    // Pozastavíme feed pro tento symbol, dokud nedoběhne intent/pozice,
+    // aby se nevyvolávaly nové obchody.
+    feedPause.add(symbol);
+    const tpPrices =
+      isProProfile && proTargets
+        ? [proTargets.t1, proTargets.t2].filter(
+            (value) => Number.isFinite(value) && value > 0
+          )
+        : Number.isFinite(resolvedTp)
+          ? [resolvedTp]
+          : [];
+    const oliKellaInitialTrail =
+      isScalpProfile && Number.isFinite(entry) && entry > 0
+        ? resolveOliKellaTrailConfig({
+            entry,
+            sl: resolvedSl,
+            side,
+            atr: core?.atr14,
+          })
+        : null;
+    const aiMaticLtfMin = Math.max(1, Math.round(core?.ltfTimeframeMin ?? 5));
+    const signalExpireAfterMs = isAiMaticProfile
+      ? aiMaticLtfMin * AI_MATIC_SIGNAL_EXPIRE_BARS * 60_000
+      : 30_000;
+    void (async () => {
+      try {
+        if (shouldUseStagedRetest && secondaryIntentId) {
+          await autoTrade({
+            symbol: symbol as Symbol,
+            side,
+            entryPrice: entry,
+            entryType: primaryEntryType,
+            triggerPrice:
+              primaryEntryType === "CONDITIONAL" ? triggerPrice : undefined,
+            slPrice: resolvedSl,
+            tpPrices,
+            trailingStop: oliKellaInitialTrail?.trailingStop,
+            trailingActivePrice: oliKellaInitialTrail?.trailingActivePrice,
+            qtyMode: "BASE_QTY",
+            qtyValue: stagedPrimaryQty,
+            intentId: primaryIntentId,
+            signalId,
+            expireAfterMs: signalExpireAfterMs,
+            journal: journalContext,
+          });
+          await autoTrade({
+            symbol: symbol as Symbol,
+            side,
+            entryPrice: entry,
+            entryType: secondaryEntryType,
+            triggerPrice:
+              secondaryEntryType === "CONDITIONAL"
+                ? triggerPrice ?? entry
+                : undefined,
+            slPrice: resolvedSl,
+            tpPrices,
+            trailingStop: oliKellaInitialTrail?.trailingStop,
+            trailingActivePrice: oliKellaInitialTrail?.trailingActivePrice,
+            qtyMode: "BASE_QTY",
+            qtyValue: stagedSecondaryQty,
+            intentId: secondaryIntentId,
+            signalId,
+            signalLeg: "retest",
+            expireAfterMs: signalExpireAfterMs,
+            journal: journalContext,
+          });
+          const ltfOpenTime = toNumber(core?.ltfOpenTime);
+          state.aiMaticRetestFallback.set(symbol, {
+            symbol,
+            side,
+            signalId,
+            createdAt: now,
+            ltfTimeframeMin: stagedLtfMin,
+            lastLtfOpenTime: Number.isFinite(ltfOpenTime)
+              ? ltfOpenTime
+              : now,
+            missedBars: 0,
+            fallbackBars: stagedFallbackBars,
+            retestIntentId: secondaryIntentId,
+            fallbackQty: stagedSecondaryQty,
+            slPrice: resolvedSl,
+            tpPrices,
+            triggerPrice: triggerPrice ?? entry,
+            executing: false,
+          });
+          state.addLogEntries([
+            {
+              id: `signal:staged:${signalId}`,
+              timestamp: new Date(clock.now()).toISOString(),
+              action: "STATUS",
+              message: `${symbol} staged entry 60/40 | primary ${primaryEntryType} | retest ${secondaryEntryType}`,
+            },
+          ]);
+        } else {
+          await autoTrade({
+            symbol: symbol as Symbol,
+            side,
+            entryPrice: entry,
+            entryType,
+            triggerPrice,
+            slPrice: resolvedSl,
+            tpPrices,
+            trailingStop: oliKellaInitialTrail?.trailingStop,
+            trailingActivePrice: oliKellaInitialTrail?.trailingActivePrice,
+            qtyMode,
+            qtyValue,
+            intentId: primaryIntentId,
+            signalId,
+            expireAfterMs: signalExpireAfterMs,
+            journal: journalContext,
+          });
+        }
+        state.addLogEntries([
+          {
+            id: `signal:sent:${signalId}`,
+            timestamp: new Date(clock.now()).toISOString(),
+            action: "STATUS",
+            message: `${symbol} intent sent | qty ${formatNumber(
+              shouldUseStagedRetest ? adjustedQty : sizing.qty,
+              6
+            )} | notional ${formatNumber(sizing.notional, 2)}`,
+          },
+        ]);
+      } catch (err) {
+        if (isAiMaticProfile && aiMaticSwingSetup) {
+          state.aiMaticSwingState.delete(symbol);
+        }
+        state.addLogEntries([
+          {
+            id: `signal:error:${signalId}`,
+            timestamp: new Date(clock.now()).toISOString(),
+            action: "ERROR",
+            message: `${symbol} intent failed: ${asErrorMessage(err)}`,
+          },
+        ]);
+      } finally {
+        state.intentPending.delete(symbol);
+      }
+    })();
+  };
+
+  /** Zahodí deduplikaci signálů z předchozího připojení. */
+  const resetSession = () => {
+    signalSeen.clear();
+    aiMaticStructureLog.clear();
+  };
+
+  return {
+    autoTrade,
+    handleDecision,
+    resetSession,
+  };
+}
+
+export type TradingDecisions = ReturnType<typeof createTradingDecisions>;
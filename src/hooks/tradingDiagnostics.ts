@@ -0,0 +1,1562 @@
+// hooks/tradingDiagnostics.ts
+import { Symbol } from "../api/types";
+import {
+  computeCorrelatedExposureScale,
+  evaluateAltseasonRegime,
+} from "../engine/botEngine";
+import type { AiMaticOliKellaContext } from "../engine/aiMaticOliKellaStrategy";
+import {
+  lookupBeta,
+  lookupCorrelation,
+  selectCorrelationWindow,
+} from "../engine/correlation";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import type {
+  AltseasonRegimeSnapshot,
+  PortfolioExposure,
+} from "../engine/botEngine";
+import {
+  ENTRY_ORDER_LOCK_MS,
+  INTENT_COOLDOWN_MS,
+  MIN_CHECKLIST_PASS,
+  POSITION_GATE_TTL_MS,
+  PRO_MTF_FIBO_GATE_NAMES,
+  REENTRY_COOLDOWN_MS,
+  SCALP_COOLDOWN_MS,
+  buildAiMaticCoreGroupedGates,
+  evaluateAmdGatesCore,
+  evaluateCoreV2Gates,
+  evaluateProGates,
+  normalizeTrendDir,
+  positionCapacityGate,
+  summarizeOliGateFailures,
+} from "../engine/executionPolicy";
+import type { AISettings, TestnetOrder } from "../types";
+import {
+  AI_MATIC_CORE_GATE_ENTRY_CONDITIONS,
+  AI_MATIC_CORE_GATE_EXECUTION_CONDITIONS,
+  AI_MATIC_CORE_GATE_RISK_RULES,
+  AI_MATIC_CORE_GATE_SIGNAL_CHECKLIST,
+} from "../lib/aiMaticCoreProfile";
+import {
+  OLIKELLA_GATE_ENTRY_CONDITIONS,
+  OLIKELLA_GATE_EXIT_CONDITIONS,
+  OLIKELLA_GATE_RISK_RULES,
+  OLIKELLA_GATE_SIGNAL_CHECKLIST,
+} from "../lib/oliKellaProfile";
+import { buildEntryGateProgress } from "../lib/entryGateProgressModel";
+import {
+  AUTO_CANCEL_ENTRY_ORDERS,
+  asErrorMessage,
+  isActiveEntryOrder,
+  isEntryOrder,
+  isWaitingLimitEntryOrder,
+  toNumber,
+} from "./tradingSyncHelpers";
+import {
+  ALTSEASON_ALT_ATR_EXPANSION_RATIO,
+  ALTSEASON_DOMINANCE_DROP_THRESHOLD,
+  ALTSEASON_HISTORY_POINTS,
+  ALTSEASON_SAMPLE_MS,
+  AMD_ENTRY_RULE_NAMES,
+  CORE_V2_COOLDOWN_MS,
+  CORRELATION_RISK_MIN_SCALE,
+  CORRELATION_RISK_THRESHOLD,
+  DATA_INTEGRITY_WATCHDOG_FAILS,
+  DATA_INTEGRITY_WATCHDOG_LOG_TTL_MS,
+  MAX_ORDERS_GATE_TTL_MS,
+  RISK_ENTRY_BLOCK_MONITOR_ONLY,
+  SKIP_LOG_THROTTLE_MS,
+  buildCapacityFingerprint,
+  getCapacityStatus,
+  normalizeCapacityLimit,
+  resolveDataHealthLagMs,
+  type AtomicExposureSnapshot,
+  type CapacityPauseTrigger,
+  type CoreV2Metrics,
+  type DecisionTraceEntry,
+  type GateResult,
+  type PortfolioRegimeState,
+} from "./tradingDecisionHelpers";
+import type { TradingState } from "./tradingState";
+import type { TradingBackend } from "./tradingBackend";
+import type { TradingProtection } from "./tradingProtection";
+
+/**
+ * Diagnostika a vstupní brány: kontext symbolů, zdraví dat, korelace,
+ * BTC bias a diagnostika skenu pro dashboard.
+ */
+export function createTradingDiagnostics(
+  state: TradingState,
+  backend: TradingBackend,
+  protection: TradingProtection,
+) {
+  const { clock } = state;
+  const autoCloseCooldown = new Map<string, number>();
+  const blockDecisionCooldown = new Map<
+    string,
+    { fingerprint: string; expiresAt: number }
+  >();
+  const dataIntegrityWatchdog = new Map<
+    string,
+    { fails: number; lastLogAt: number }
+  >();
+  let portfolioRegime: PortfolioRegimeState = {
+    dominanceHistory: [],
+    lastSampleAt: 0,
+    snapshot: null,
+  };
+  const { protectionGate } = protection;
+
+  const buildBiasSignal = (
+    symbol: Symbol,
+    core: CoreV2Metrics,
+    now: number,
+    bias: "BULL" | "BEAR",
+    message: string,
+    risk = 0.6
+  ) => {
+    if (!core) return null;
+    const normalizedEntry = toNumber(core.ltfClose);
+    const normalizedAtr = toNumber(core.atr14);
+    const normalizedPivotLow = toNumber(core.pivotLow);
+    const normalizedPivotHigh = toNumber(core.pivotHigh);
+    if (!Number.isFinite(normalizedEntry) || normalizedEntry <= 0) return null;
+    let scale = 1;
+    if (Number.isFinite(normalizedPivotLow) && normalizedPivotLow > 0) {
+      const ratio = Math.max(normalizedPivotLow, normalizedEntry) /
+        Math.min(normalizedPivotLow, normalizedEntry);
+      if (ratio >= 5) scale = normalizedEntry / normalizedPivotLow;
+    } else if (Number.isFinite(normalizedPivotHigh) && normalizedPivotHigh > 0) {
+      const ratio = Math.max(normalizedPivotHigh, normalizedEntry) /
+        Math.min(normalizedPivotHigh, normalizedEntry);
+      if (ratio >= 5) scale = normalizedEntry / normalizedPivotHigh;
+    }
+    const entry = normalizedEntry;
+    if (!Number.isFinite(entry) || entry <= 0) return null;
+    const atr = Number.isFinite(normalizedAtr) ? normalizedAtr * scale : Number.NaN;
+    const fallbackOffset =
+      Number.isFinite(atr) && atr > 0 ? atr * 1.5 : Number.NaN;
+    let sl =
+      bias === "BULL"
+        ? (Number.isFinite(normalizedPivotLow) ? normalizedPivotLow * scale : Number.NaN)
+        : (Number.isFinite(normalizedPivotHigh) ? normalizedPivotHigh * scale : Number.NaN);
+    if (!Number.isFinite(sl) || sl <= 0) {
+      if (!Number.isFinite(fallbackOffset)) return null;
+      sl = bias === "BULL" ? entry - fallbackOffset : entry + fallbackOffset;
+    }
+    if (bias === "BULL" && sl >= entry) {
+      sl = Number.isFinite(fallbackOffset) ? entry - fallbackOffset : Number.NaN;
+    }
+    if (bias === "BEAR" && sl <= entry) {
+      sl = Number.isFinite(fallbackOffset) ? entry + fallbackOffset : Number.NaN;
+    }
+    if (!Number.isFinite(sl) || sl <= 0 || sl === entry) return null;
+    const riskSize = Math.abs(entry - sl);
+    const tp = bias === "BULL" ? entry + 2 * riskSize : entry - 2 * riskSize;
+    if (!Number.isFinite(tp) || tp <= 0) return null;
+    return {
+      id: `${symbol}-${now}-bias`,
+      symbol,
+      intent: {
+        side: bias === "BULL" ? "buy" : "sell",
+        entry,
+        sl,
+        tp,
+      },
+      entryType: "LIMIT_MAKER_FIRST",
+      kind: "PULLBACK",
+      risk,
+      message,
+      createdAt: new Date(now).toISOString(),
+    } as PriceFeedDecision["signal"];
+  };
+
+  const buildChecklistSignal = (symbol: Symbol, decision: PriceFeedDecision, now: number) => {
+    const core = (decision as any)?.coreV2 as CoreV2Metrics | undefined;
+    const biasCandidates: Array<unknown> = [
+      core?.htfBias,
+      core?.ema15mTrend,
+      core?.emaCrossDir,
+      (decision as any)?.htfTrend?.consensus,
+      (decision as any)?.trendH1,
+      (decision as any)?.trend,
+    ];
+    const bias = biasCandidates.reduce<"BULL" | "BEAR" | "NONE">((acc, value) => {
+      if (acc !== "NONE") return acc;
+      const normalized = normalizeTrendDir(String(value ?? ""));
+      return normalized === "BULL" || normalized === "BEAR" ? normalized : "NONE";
+    }, "NONE");
+    if (bias !== "BULL" && bias !== "BEAR") return null;
+    if (core) {
+      const next = buildBiasSignal(
+        symbol,
+        core,
+        now,
+        bias,
+        "Checklist auto-signál",
+        0.6
+      );
+      if (next) {
+        next.id = `${symbol}-${now}-checklist`;
+        return next;
+      }
+    }
+    const entryCandidates = [
+      toNumber(core?.ltfClose),
+      toNumber((decision as any)?.ltfClose),
+      toNumber((decision as any)?.price),
+      toNumber((decision as any)?.close),
+    ];
+    const entry = entryCandidates.find(
+      (value): value is number => Number.isFinite(value) && value > 0
+    );
+    if (!Number.isFinite(entry) || entry <= 0) return null;
+    const atrCandidates = [
+      toNumber(core?.atr14),
+      toNumber(core?.m15Atr14),
+      toNumber((decision as any)?.atr14),
+    ];
+    const atrRaw =
+      atrCandidates.find(
+        (value): value is number => Number.isFinite(value) && value > 0
+      ) ?? entry * 0.006;
+    const maxDistance = entry * 0.45;
+    if (!Number.isFinite(maxDistance) || maxDistance <= 0) return null;
+    const minDistance = Math.max(entry * 0.002, atrRaw * 0.8);
+    const distance = Math.min(Math.max(minDistance, atrRaw * 1.5), maxDistance);
+    if (!Number.isFinite(distance) || distance <= 0) return null;
+    const sl =
+      bias === "BULL"
+        ? Math.max(entry - distance, entry * 0.1)
+        : entry + distance;
+    if (!Number.isFinite(sl) || sl <= 0 || sl === entry) return null;
+    const fallbackR = 1.8;
+    const rawTp =
+      bias === "BULL"
+        ? entry + distance * fallbackR
+        : entry - distance * fallbackR;
+    const tp = rawTp > 0 ? rawTp : entry * 0.1;
+    if (!Number.isFinite(tp) || tp <= 0) return null;
+    return {
+      id: `${symbol}-${now}-checklist-fallback`,
+      symbol,
+      intent: {
+        side: bias === "BULL" ? "buy" : "sell",
+        entry,
+        sl,
+        tp,
+      },
+      entryType: "LIMIT_MAKER_FIRST",
+      kind: "PULLBACK",
+      risk: 0.6,
+      message: "Checklist auto-signál (fallback)",
+      createdAt: new Date(now).toISOString(),
+    } as PriceFeedDecision["signal"];
+  };
+
+  const normalizeBias = (value: unknown): "bull" | "bear" | null => {
+    const raw = String(value ?? "").trim().toLowerCase();
+    if (!raw) return null;
+    if (raw === "buy" || raw === "long" || raw === "bull") return "bull";
+    if (raw === "sell" || raw === "short" || raw === "bear") return "bear";
+    return null;
+  };
+
+  const getAtomicExposureSnapshot = (): AtomicExposureSnapshot => {
+    const openPositionsTotal = state.openPositions.reduce((sum, position) => {
+      const size = toNumber(position?.size ?? position?.qty);
+      return Number.isFinite(size) && size > 0 ? sum + 1 : sum;
+    }, 0);
+    const openOrdersTotal = Array.isArray(state.openOrders)
+      ? state.openOrders.reduce(
+          (sum, order) => sum + (isActiveEntryOrder(order) ? 1 : 0),
+          0
+        )
+      : 0;
+    const pendingIntentsTotal = state.intentPending.size;
+    const reservedPositionsTotal =
+      openPositionsTotal + (state.useTestnet ? 0 : pendingIntentsTotal);
+    const reservedOrdersTotal =
+      openOrdersTotal + (state.useTestnet ? 0 : pendingIntentsTotal);
+    const maxPos = normalizeCapacityLimit(
+      toNumber(state.settings.maxOpenPositions)
+    );
+    const maxOrders = normalizeCapacityLimit(
+      toNumber(state.settings.maxOpenOrders)
+    );
+    const status = getCapacityStatus({
+      openPositionsTotal,
+      maxPos,
+      openOrdersTotal,
+      maxOrders,
+    });
+    const reservedStatus = getCapacityStatus({
+      openPositionsTotal: reservedPositionsTotal,
+      maxPos,
+      openOrdersTotal: reservedOrdersTotal,
+      maxOrders,
+    });
+    return {
+      openPositionsTotal,
+      openOrdersTotal,
+      pendingIntentsTotal,
+      reservedPositionsTotal,
+      reservedOrdersTotal,
+      maxPos,
+      maxOrders,
+      status,
+      reservedStatus,
+      fingerprint: buildCapacityFingerprint({
+        openPositionsTotal: reservedPositionsTotal,
+        maxPos,
+        openOrdersTotal: reservedOrdersTotal,
+        maxOrders,
+      }),
+    };
+  };
+
+  const resolveDataHealthSnapshot = (
+    symbol: string,
+    now = clock.now(),
+    riskMode?: AISettings["riskMode"]
+  ) => {
+    const mode = riskMode ?? state.settings.riskMode;
+    const maxLagMs = resolveDataHealthLagMs(mode);
+    const lastTick = state.symbolTick.get(symbol) ?? 0;
+    const feedAgeMs = lastTick > 0 ? Math.max(0, now - lastTick) : null;
+    const safe = feedAgeMs != null && feedAgeMs <= maxLagMs;
+    return { feedAgeMs, maxLagMs, safe };
+  };
+
+  const dataHealthGate = (
+    symbol: string,
+    now = clock.now(),
+    riskMode?: AISettings["riskMode"]
+  ): GateResult => {
+    const health = resolveDataHealthSnapshot(symbol, now, riskMode);
+    if (health.safe) {
+      return { ok: true, code: "OK", reason: "data health" };
+    }
+    const diff = health.feedAgeMs == null ? "NO_TICK" : `${Math.round(health.feedAgeMs)}ms`;
+    return {
+      ok: false,
+      code: "DATA_HEALTH",
+      reason: `SKIP::DATA_HEALTH lastMarketTick ${diff} (max ${Math.round(health.maxLagMs)}ms)`,
+      ttlMs: SKIP_LOG_THROTTLE_MS,
+    };
+  };
+
+  const getOpenBiasState = () => {
+    const biases = new Set<"bull" | "bear">();
+    let btcBias: "bull" | "bear" | null = null;
+    state.openPositions.forEach((p) => {
+      const size = toNumber(p.size ?? p.qty);
+      if (!Number.isFinite(size) || size <= 0) return;
+      const bias = normalizeBias(p.side);
+      if (!bias) return;
+      biases.add(bias);
+      if (String(p.symbol ?? "").toUpperCase() === "BTCUSDT" && !btcBias) {
+        btcBias = bias;
+      }
+    });
+    state.openOrders.forEach((o: any) => {
+      if (!isEntryOrder(o)) return;
+      const bias = normalizeBias(o.side);
+      if (!bias) return;
+      biases.add(bias);
+      if (String(o.symbol ?? "").toUpperCase() === "BTCUSDT" && !btcBias) {
+        btcBias = bias;
+      }
+    });
+    return { biases, btcBias };
+  };
+
+  const resolvePortfolioRegime = (now = clock.now()): AltseasonRegimeSnapshot => {
+    const btcDecision = state.decisions["BTCUSDT"]?.decision;
+    const btcCore = (btcDecision as any)?.coreV2 as CoreV2Metrics | undefined;
+    const btcAtrPct = toNumber(btcCore?.atrPct);
+    const btcAdx = toNumber((btcDecision as any)?.trendAdx);
+    const btcTrendRaw = String(
+      (btcDecision as any)?.trend ?? btcCore?.htfBias ?? "none"
+    ).toLowerCase();
+    const altAtrPcts = state.activeSymbols
+      .filter((s) => s !== "BTCUSDT")
+      .map((s) =>
+        toNumber(
+          ((state.decisions[s]?.decision as any)?.coreV2 as
+            | CoreV2Metrics
+            | undefined)?.atrPct
+        )
+      )
+      .filter((value): value is number => Number.isFinite(value) && value > 0);
+    const altAtrMean =
+      altAtrPcts.length > 0
+        ? altAtrPcts.reduce((sum, value) => sum + value, 0) / altAtrPcts.length
+        : Number.NaN;
+
+    if (
+      now - portfolioRegime.lastSampleAt >= ALTSEASON_SAMPLE_MS &&
+      Number.isFinite(btcAtrPct) &&
+      btcAtrPct > 0 &&
+      Number.isFinite(altAtrMean) &&
+      altAtrMean > 0
+    ) {
+      const dominanceProxy = btcAtrPct / altAtrMean;
+      if (Number.isFinite(dominanceProxy) && dominanceProxy > 0) {
+        portfolioRegime.dominanceHistory.push(dominanceProxy);
+        if (portfolioRegime.dominanceHistory.length > ALTSEASON_HISTORY_POINTS) {
+          portfolioRegime.dominanceHistory = portfolioRegime.dominanceHistory.slice(
+            -ALTSEASON_HISTORY_POINTS
+          );
+        }
+      }
+      portfolioRegime.lastSampleAt = now;
+    }
+
+    const snapshot = evaluateAltseasonRegime({
+      btcTrend: btcTrendRaw,
+      btcAdx,
+      btcAtrPct,
+      altAtrPcts,
+      dominanceHistory: portfolioRegime.dominanceHistory,
+      dominanceDropThreshold: ALTSEASON_DOMINANCE_DROP_THRESHOLD,
+      altAtrExpansionRatio: ALTSEASON_ALT_ATR_EXPANSION_RATIO,
+    });
+    portfolioRegime.snapshot = snapshot;
+    return snapshot;
+  };
+
+  const liveCorrelation = (symbolA: string, symbolB: string) =>
+    lookupCorrelation(selectCorrelationWindow(state.correlation), symbolA, symbolB);
+
+  const resolvePortfolioRiskScale = (symbol: Symbol, side: "Buy" | "Sell", now = clock.now()) => {
+    const targetSide = side === "Buy" ? "bull" : "bear";
+    const exposures: PortfolioExposure[] = [];
+    const selected = new Set(state.activeSymbols);
+    state.openPositions.forEach((position) => {
+      const symbolUpper = String(position.symbol ?? "").toUpperCase();
+      if (!selected.has(symbolUpper as Symbol)) return;
+      const size = toNumber(position.size ?? position.qty);
+      if (!Number.isFinite(size) || size <= 0) return;
+      const bias = normalizeBias(position.side);
+      if (!bias) return;
+      exposures.push({ symbol: symbolUpper, side: bias });
+    });
+    state.openOrders.forEach((order) => {
+      const symbolUpper = String(order?.symbol ?? "").toUpperCase();
+      if (!selected.has(symbolUpper as Symbol)) return;
+      if (!isEntryOrder(order)) return;
+      const bias = normalizeBias(order.side);
+      if (!bias) return;
+      exposures.push({ symbol: symbolUpper, side: bias });
+    });
+    Object.entries(state.decisions).forEach(([otherSymbol, payload]) => {
+      const symbolUpper = String(otherSymbol ?? "").toUpperCase();
+      if (!selected.has(symbolUpper as Symbol)) return;
+      const signal = payload?.decision?.signal;
+      const sideRaw = String(signal?.intent?.side ?? "").toLowerCase();
+      const bias =
+        sideRaw === "buy" ? "bull" : sideRaw === "sell" ? "bear" : null;
+      if (!bias) return;
+      exposures.push({ symbol: symbolUpper, side: bias });
+    });
+
+    const regime = resolvePortfolioRegime(now);
+    const skipSymbols =
+      regime.active && symbol !== "BTCUSDT" ? ["BTCUSDT"] : undefined;
+    const scaled = computeCorrelatedExposureScale({
+      targetSymbol: symbol,
+      targetSide,
+      exposures,
+      minCorrelation: CORRELATION_RISK_THRESHOLD,
+      minScale: CORRELATION_RISK_MIN_SCALE,
+      skipSymbols,
+      correlation: liveCorrelation,
+    });
+    return { ...scaled, altseasonActive: regime.active };
+  };
+
+  const resolveBtcBias = (fallbackDir?: "bull" | "bear", symbolUpper?: string) => {
+    const { btcBias: openBtcBias } = getOpenBiasState();
+    let btcBias = openBtcBias ?? null;
+    if (!btcBias) {
+      const btcDecision = state.decisions["BTCUSDT"]?.decision;
+      const btcConsensus = (btcDecision as any)?.htfTrend?.consensus;
+      const btcDir =
+        btcConsensus === "bull" || btcConsensus === "bear"
+          ? btcConsensus
+          : String((btcDecision as any)?.trend ?? "").toLowerCase();
+      if (btcDir === "bull" || btcDir === "bear") {
+        btcBias = btcDir;
+      }
+    }
+    if (!btcBias && symbolUpper === "BTCUSDT" && fallbackDir) {
+      btcBias = fallbackDir;
+    }
+    return btcBias;
+  };
+
+  const isSessionAllowed = (_now: Date, _next: AISettings) => true;
+
+  const getSymbolContext = (symbol: string, decision?: PriceFeedDecision | null) => {
+    const settings = state.settings;
+    const now = new Date(clock.now());
+    const sessionOk = isSessionAllowed(now, settings);
+    const exposure = getAtomicExposureSnapshot();
+    const openPositionsCount = exposure.reservedPositionsTotal;
+    const maxPositionsOk = exposure.maxPos > 0
+      ? openPositionsCount < exposure.maxPos
+      : false;
+    const hasPosition = state.openPositions.some((p) => {
+      if (p.symbol !== symbol) return false;
+      const size = toNumber(p.size ?? p.qty);
+      return Number.isFinite(size) && size > 0;
+    });
+    const openOrdersCount = exposure.reservedOrdersTotal;
+    const ordersClearOk = exposure.maxOrders > 0
+      ? openOrdersCount < exposure.maxOrders
+      : false;
+    const engineOk = !(decision?.halted ?? false);
+    return {
+      settings,
+      now,
+      sessionOk,
+      maxPositionsOk,
+      maxPositions: exposure.maxPos,
+      maxOrders: exposure.maxOrders,
+      openPositionsCount,
+      hasPosition,
+      openOrdersCount,
+      ordersClearOk,
+      engineOk,
+      capacityStateFingerprint: exposure.fingerprint,
+    };
+  };
+
+  const shouldEmitBlockLog = (
+    symbol: string,
+    code: string,
+    fingerprint: string,
+    ttlMs: number,
+    now: number
+  ) => {
+    const key = `${symbol}:${code}`;
+    const cache = blockDecisionCooldown;
+    const prev = cache.get(key);
+    if (
+      prev &&
+      prev.fingerprint === fingerprint &&
+      prev.expiresAt > now
+    ) {
+      return false;
+    }
+    cache.set(key, { fingerprint, expiresAt: now + ttlMs });
+    return true;
+  };
+
+  const queueCapacityRecheck = (trigger: CapacityPauseTrigger) => {
+    if (!state.appEnabled) return false;
+    const relay = state.relayPause;
+    if (!relay.paused) return false;
+    const exposure = getAtomicExposureSnapshot();
+    const currentStatus = exposure.reservedStatus;
+    const currentFingerprint = exposure.fingerprint;
+    if (trigger !== "TTL_RECHECK") {
+      if (currentFingerprint === relay.lastCapacityFingerprint) return false;
+      if (currentStatus.reason !== "OK") return false;
+    }
+    const symbols = state.activeSymbols.filter((symbol) => Boolean(symbol));
+    if (!symbols.length) return false;
+    let added = false;
+    for (const symbol of symbols) {
+      if (relay.forceScanSymbols.has(symbol)) continue;
+      relay.forceScanSymbols.add(symbol);
+      added = true;
+    }
+    if (!added && relay.forceScanReason === trigger) {
+      return false;
+    }
+    relay.forceScanReason = trigger;
+    if (trigger === "TTL_RECHECK") {
+      relay.lastTtlRecheckAt = clock.now();
+    }
+    const now = clock.now();
+    state.addLogEntries([
+      {
+        id: `signal-relay:recheck:${trigger}:${now}`,
+        timestamp: new Date(now).toISOString(),
+        action: "STATUS",
+        message: `SIGNAL_RELAY_RECHECK ${trigger} | reason ${relay.pausedReason ?? "UNKNOWN"} | fp ${currentFingerprint}`,
+      },
+    ]);
+    return true;
+  };
+
+  const evaluateCoreV2 = (
+    symbol: Symbol,
+    decision: PriceFeedDecision | null | undefined,
+    signal: PriceFeedDecision["signal"] | null,
+    feedAgeMs: number | null
+  ) =>
+    evaluateCoreV2Gates({
+      symbol,
+      riskMode: state.settings.riskMode,
+      decision,
+      signal,
+      feedAgeMs,
+      portfolioRegime: resolvePortfolioRegime(clock.now()),
+    });
+
+  const isBtcDecoupling = () => {
+    const regime = resolvePortfolioRegime(clock.now());
+    if (regime.active) return true;
+    const btcDecision = state.decisions["BTCUSDT"]?.decision;
+    if (!btcDecision) return false;
+    const trend = (btcDecision as any)?.trend;
+    const adx = toNumber((btcDecision as any)?.trendAdx);
+    // Fallback: BTC Range + low ADX.
+    return String(trend).toLowerCase() === "range" && Number.isFinite(adx) && adx < 25;
+  };
+
+  const enforceBtcBiasAlignment = async (now: number) => {
+    if (!AUTO_CANCEL_ENTRY_ORDERS) return;
+    if (!state.authToken) return;
+    if (isBtcDecoupling()) return; // Skip enforcement during decoupling
+    const btcBias = resolveBtcBias(); 
+    if (!btcBias) return;
+    const cooldown = autoCloseCooldown;
+    const nextOrders = state.openOrders;
+    const isTriggerEntryOrder = (order: TestnetOrder | any) => {
+      const filter = String(order?.orderFilter ?? order?.order_filter ?? "").toLowerCase();
+      const trigger = toNumber(order?.triggerPrice ?? order?.trigger_price);
+      return filter === "stoporder" || (Number.isFinite(trigger) && trigger > 0);
+    };
+
+    const cancelTargets = nextOrders.filter((order) => {
+      if (!isEntryOrder(order)) return false;
+      if (isTriggerEntryOrder(order)) return false;
+      const bias = normalizeBias(order.side);
+      return bias != null && bias !== btcBias;
+    });
+
+    if (!cancelTargets.length) return;
+
+    for (const order of cancelTargets) {
+      const orderId = order.orderId || "";
+      const orderLinkId = order.orderLinkId || "";
+      const key = orderId || orderLinkId || `ord:${order.symbol}:${order.side}`;
+      const last = cooldown.get(key) ?? 0;
+      if (now - last < 15_000) continue;
+      cooldown.set(key, now);
+      try {
+        await backend.postJson("/cancel", {
+          symbol: order.symbol,
+          orderId: orderId || undefined,
+          orderLinkId: orderLinkId || undefined,
+        });
+        state.addLogEntries([
+          {
+            id: `btc-bias-cancel:${key}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `BTC bias ${btcBias} -> CANCEL ${order.symbol} ${order.side}`,
+          },
+        ]);
+      } catch (err) {
+        state.addLogEntries([
+          {
+            id: `btc-bias-cancel:error:${key}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "ERROR",
+            message: `BTC bias cancel failed ${order.symbol}: ${asErrorMessage(err)}`,
+          },
+        ]);
+      }
+    }
+  };
+
+
+  const resolveCorrelationGate = (
+    symbol: string,
+    now = clock.now(),
+    signal?: PriceFeedDecision["signal"] | null
+  ) => {
+    const details: string[] = [];
+    let ok = true;
+    const decoupling = isBtcDecoupling();
+    const { biases: activeBiases } = getOpenBiasState();
+    
+    if (activeBiases.size > 1 && !decoupling) {
+      ok = false;
+      details.push("mixed open bias");
+    }
+    const symbolUpper = String(symbol).toUpperCase();
+
+    if (symbolUpper !== "BTCUSDT" && decoupling) {
+      return { ok: true, detail: "BTC Range (Decoupling)" };
+    }
+
+    // Symbol, který se s BTC aktuálně nehýbe, nemusí respektovat jeho směr.
+    const btcCorrelation =
+      symbolUpper === "BTCUSDT" ? Number.NaN : liveCorrelation(symbolUpper, "BTCUSDT");
+    if (Number.isFinite(btcCorrelation) && btcCorrelation < CORRELATION_RISK_THRESHOLD) {
+      return {
+        ok: true,
+        detail: `ρ BTC ${btcCorrelation.toFixed(2)} < ${CORRELATION_RISK_THRESHOLD} (decoupled)`,
+      };
+    }
+
+    if (!signal) {
+      details.push("no signal");
+      return { ok, detail: details.join(" | ") };
+    }
+
+    const sideRaw = String(signal.intent?.side ?? "").toLowerCase();
+    const signalDir =
+      sideRaw === "buy" ? "bull" : sideRaw === "sell" ? "bear" : "none";
+    if (signalDir === "none") {
+      ok = false;
+      details.push("signal dir unknown");
+      return { ok, detail: details.join(" | ") };
+    }
+
+    const btcBias = resolveBtcBias(signalDir, symbolUpper);
+    if (!btcBias) {
+      ok = false;
+      details.push("btc direction unknown");
+      return { ok, detail: details.join(" | ") };
+    }
+
+    if (activeBiases.size === 1) {
+      const [openBias] = Array.from(activeBiases);
+      if (openBias !== btcBias) {
+        ok = false;
+        details.push(`open ${openBias} vs btc ${btcBias}`);
+      }
+    }
+
+    if (signalDir !== btcBias) {
+      ok = false;
+      details.push(`signal ${signalDir} vs btc ${btcBias}`);
+    } else {
+      details.push(`btc ${btcBias} aligned`);
+    }
+    if (Number.isFinite(btcCorrelation)) {
+      const beta = lookupBeta(selectCorrelationWindow(state.correlation), symbolUpper);
+      details.push(
+        `ρ ${btcCorrelation.toFixed(2)}${Number.isFinite(beta) ? ` β ${beta.toFixed(2)}` : ""}`
+      );
+    }
+    return { ok, detail: details.join(" | ") };
+  };
+
+  const evaluateAmdGates = (
+    _symbol: string,
+    decision: PriceFeedDecision | null | undefined,
+    signal: PriceFeedDecision["signal"] | null
+  ) => {
+    return evaluateAmdGatesCore({ decision, signal });
+  };
+
+  const resolveQualityScore = (
+    symbol: Symbol,
+    decision: PriceFeedDecision | null | undefined,
+    signal: PriceFeedDecision["signal"] | null,
+    feedAgeMs: number | null
+  ) => {
+    if (!decision) return { score: null, threshold: null, pass: undefined };
+    const evalResult = evaluateCoreV2(symbol, decision, signal, feedAgeMs);
+    return {
+      score: Number.isFinite(evalResult.score)
+        ? evalResult.score
+        : null,
+      threshold: Number.isFinite(evalResult.threshold)
+        ? evalResult.threshold
+        : null,
+      pass: evalResult.scorePass,
+    };
+  };
+
+  const resolveSymbolState = (symbol: string) => {
+    if (state.symbolOpenPositionPause.has(symbol)) return "HOLD";
+    const hasPosition = state.openPositions.some((p) => {
+      if (p.symbol !== symbol) return false;
+      const size = toNumber(p.size ?? p.qty);
+      return Number.isFinite(size) && size > 0;
+    });
+    if (hasPosition) return "HOLD";
+    const hasOrders = state.openOrders.some(
+      (o) => isActiveEntryOrder(o) && String(o.symbol ?? "") === symbol
+    );
+    if (hasOrders) return "HOLD";
+    return "SCAN";
+  };
+
+  const updateDataIntegrityWatchdog = (
+    symbol: string,
+    diag: {
+      dataHealthStatus?: "SAFE" | "UNSAFE";
+      dataHealthReasons?: string[];
+    },
+    now: number
+  ) => {
+    const status = diag?.dataHealthStatus ?? "UNSAFE";
+    const reasons = Array.isArray(diag?.dataHealthReasons)
+      ? diag.dataHealthReasons
+      : [];
+    const prev = dataIntegrityWatchdog.get(symbol) ?? {
+      fails: 0,
+      lastLogAt: 0,
+    };
+    if (status === "SAFE") {
+      if (prev.fails !== 0) {
+        dataIntegrityWatchdog.set(symbol, {
+          fails: 0,
+          lastLogAt: prev.lastLogAt,
+        });
+      }
+      return 0;
+    }
+    const nextFails = prev.fails + 1;
+    let nextLastLogAt = prev.lastLogAt;
+    if (
+      nextFails >= DATA_INTEGRITY_WATCHDOG_FAILS &&
+      now - prev.lastLogAt >= DATA_INTEGRITY_WATCHDOG_LOG_TTL_MS
+    ) {
+      nextLastLogAt = now;
+      state.addLogEntries([
+        {
+          id: `watchdog:data-integrity:${symbol}:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "ERROR",
+          message: `${symbol} DATA_INTEGRITY_WATCHDOG fails=${nextFails} reason=${reasons.join(" | ") || "unknown"}`,
+        },
+      ]);
+    }
+    dataIntegrityWatchdog.set(symbol, {
+      fails: nextFails,
+      lastLogAt: nextLastLogAt,
+    });
+    return nextFails;
+  };
+
+  const buildScanDiagnostics = (symbol: string, decision: PriceFeedDecision, lastScanTs: number) => {
+    const context = getSymbolContext(symbol, decision);
+    const symbolState = resolveSymbolState(symbol);
+    const dataHealth = resolveDataHealthSnapshot(
+      symbol,
+      clock.now(),
+      context.settings.riskMode
+    );
+    const feedAgeMs = dataHealth.feedAgeMs;
+    const feedAgeOk = dataHealth.feedAgeMs == null ? null : dataHealth.safe;
+    const capacityStatus = getCapacityStatus({
+      openPositionsTotal: context.openPositionsCount,
+      maxPos: context.maxPositions,
+      openOrdersTotal: context.openOrdersCount,
+      maxOrders: context.maxOrders,
+    });
+    const relayPaused = capacityStatus.reason !== "OK";
+    if (relayPaused) {
+      const dataHealthReasons =
+        feedAgeOk === false
+          ? [`feed latency ${Math.round(feedAgeMs ?? 0)}ms exceeds max ${Math.round(dataHealth.maxLagMs)}ms`]
+          : [];
+      return {
+        symbolState,
+        manageReason: capacityStatus.reason,
+        entryBlockReasons: [capacityStatus.reason],
+        skipCode: capacityStatus.reason,
+        skipReason: capacityStatus.reason,
+        decisionTrace: [],
+        signalActive: false,
+        executionAllowed: false,
+        executionReason: `Relay paused (${capacityStatus.reason})`,
+        relayState: "PAUSED",
+        relayReason: capacityStatus.reason,
+        gates: [],
+        qualityScore: null,
+        qualityThreshold: null,
+        qualityPass: false,
+        dataHealthStatus:
+          dataHealthReasons.length > 0 ? ("UNSAFE" as const) : ("SAFE" as const),
+        dataHealthReasons,
+        timeframeSyncOk: null,
+        timeframeSyncDetail: undefined,
+        dataIntegrityWatchdogFails:
+          dataIntegrityWatchdog.get(symbol)?.fails ?? 0,
+        gateFailureReasons: [],
+        lastScanTs,
+        feedAgeMs,
+        feedAgeOk,
+        feedLagMaxMs: dataHealth.maxLagMs,
+      };
+    }
+    const openPositionPaused = state.symbolOpenPositionPause.has(symbol);
+    if (openPositionPaused) {
+      const dataHealthReasons =
+        feedAgeOk === false
+          ? [`feed latency ${Math.round(feedAgeMs ?? 0)}ms exceeds max ${Math.round(dataHealth.maxLagMs)}ms`]
+          : [];
+      return {
+        symbolState: "HOLD",
+        manageReason: "OPEN_POSITION",
+        entryBlockReasons: ["OPEN_POSITION"],
+        skipCode: "OPEN_POSITION",
+        skipReason: "OPEN_POSITION",
+        decisionTrace: [],
+        signalActive: false,
+        executionAllowed: false,
+        executionReason: "Relay paused (OPEN_POSITION)",
+        relayState: "PAUSED",
+        relayReason: "OPEN_POSITION",
+        gates: [],
+        qualityScore: null,
+        qualityThreshold: null,
+        qualityPass: false,
+        dataHealthStatus:
+          dataHealthReasons.length > 0 ? ("UNSAFE" as const) : ("SAFE" as const),
+        dataHealthReasons,
+        timeframeSyncOk: null,
+        timeframeSyncDetail: undefined,
+        dataIntegrityWatchdogFails:
+          dataIntegrityWatchdog.get(symbol)?.fails ?? 0,
+        gateFailureReasons: [],
+        lastScanTs,
+        feedAgeMs,
+        feedAgeOk,
+        feedLagMaxMs: dataHealth.maxLagMs,
+      };
+    }
+    const signal = decision?.signal ?? null;
+    const isAiMaticProfile = context.settings.riskMode === "ai-matic";
+    const isAmdProfile = context.settings.riskMode === "ai-matic-amd";
+    const amdEval =
+      isAmdProfile ? evaluateAmdGates(symbol, decision, signal) : null;
+    const quality = resolveQualityScore(symbol as Symbol, decision, signal, feedAgeMs);
+    const now = Number.isFinite(lastScanTs) ? lastScanTs : clock.now();
+
+    const gates: { name: string; ok: boolean; detail?: string; pending?: boolean }[] = [];
+    const addGate = (
+      name: string,
+      ok: boolean,
+      detail?: string,
+      pending?: boolean
+    ) => {
+      gates.push({ name, ok, detail, pending });
+    };
+
+    const correlation = resolveCorrelationGate(symbol, now, signal);
+    if (
+      symbol !== "BTCUSDT" &&
+      !isAiMaticProfile &&
+      !isAmdProfile &&
+      context.settings.riskMode !== "ai-matic-olikella"
+    ) {
+      addGate("BTC Correlation", correlation.ok, correlation.detail);
+    }
+
+    const isProProfile = context.settings.riskMode === "ai-matic-pro";
+    const coreEval = isProProfile
+      ? evaluateProGates(decision, signal)
+      : evaluateCoreV2(symbol as Symbol, decision, signal, feedAgeMs);
+    const core = (decision as any)?.coreV2 as CoreV2Metrics | undefined;
+    const isScalpProfile = context.settings.riskMode === "ai-matic-olikella";
+    const oliContext = (decision as any)?.oliKella as
+      | AiMaticOliKellaContext
+      | undefined;
+    const oliGateFailureSummary = isScalpProfile
+      ? summarizeOliGateFailures({ oliContext })
+      : { failedGateNames: [] as string[], allReasons: [] as string[] };
+    const timeframeSyncOk = isScalpProfile
+      ? typeof oliContext?.dataHealth?.h4SyncOk === "boolean"
+        ? oliContext.dataHealth.h4SyncOk
+        : null
+      : null;
+    const timeframeSyncDetail = isScalpProfile
+      ? oliContext?.dataHealth?.detail ?? "missing timeframe sync data"
+      : undefined;
+    const hasEntryOrder = state.openOrders.some(
+      (order) =>
+        isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+    );
+    const hasWaitingLimitOrder = state.openOrders.some(
+      (order) =>
+        isWaitingLimitEntryOrder(order) &&
+        String(order?.symbol ?? "") === symbol
+    );
+    const scalpOpenPosBlocked =
+      isScalpProfile &&
+      (context.hasPosition || hasWaitingLimitOrder);
+    const hasPendingIntent = state.intentPending.has(symbol);
+    const signalSideRaw = String(signal?.intent?.side ?? "")
+      .trim()
+      .toLowerCase();
+    const buySignal = signalSideRaw === "buy" || signalSideRaw === "long";
+    const decisionTrace: DecisionTraceEntry[] = [];
+    const entryBlockReasons: string[] = [];
+    const addBlockReason = (label: string) => {
+      entryBlockReasons.push(label);
+    };
+    const appendTrace = (gate: string, result: GateResult) => {
+      decisionTrace.push({ gate, result });
+    };
+    const entryLockTs = state.entryOrderLock.get(symbol) ?? 0;
+    const lastIntentTs = state.lastIntentBySymbol.get(symbol) ?? 0;
+    const lastCloseTs = state.lastCloseBySymbol.get(symbol) ?? 0;
+    const lastLossTs = state.lastLossBySymbol.get(symbol) ?? 0;
+    const cooldownMs = CORE_V2_COOLDOWN_MS[context.settings.riskMode];
+    const closeCooldownMs = isScalpProfile
+      ? SCALP_COOLDOWN_MS
+      : REENTRY_COOLDOWN_MS;
+    const capacityGate = positionCapacityGate({
+      hasSymbolPosition: context.hasPosition,
+      openPositionsTotal: context.openPositionsCount,
+      maxPos: context.maxPositions,
+      positionReason: "pozice",
+      maxPosReasonPrefix: "max pozic",
+    });
+    appendTrace("PositionCapacity", capacityGate);
+    if (!capacityGate.ok) addBlockReason(capacityGate.reason);
+    if (scalpOpenPosBlocked) {
+      addBlockReason("open_pos");
+      appendTrace("OpenPosGate", {
+        ok: false,
+        code: "OPEN_POS",
+        reason: "open position or waiting limit order active",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (buySignal && (context.hasPosition || hasWaitingLimitOrder)) {
+      addBlockReason("buy lock");
+      appendTrace("BuyLock", {
+        ok: false,
+        code: "BUY_LOCK",
+        reason: "active position or waiting limit order",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (hasEntryOrder) {
+      addBlockReason("order");
+      appendTrace("OpenOrder", {
+        ok: false,
+        code: "OPEN_ORDER",
+        reason: "order",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (hasPendingIntent) {
+      addBlockReason("intent");
+      appendTrace("IntentPending", {
+        ok: false,
+        code: "PENDING_INTENT",
+        reason: "intent",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (entryLockTs && now - entryLockTs < ENTRY_ORDER_LOCK_MS) {
+      const remainingMs = Math.max(0, ENTRY_ORDER_LOCK_MS - (now - entryLockTs));
+      const reason = `lock ${Math.ceil(remainingMs / 1000)}s`;
+      addBlockReason(reason);
+      appendTrace("EntryLock", {
+        ok: false,
+        code: "ENTRY_LOCK",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (lastIntentTs && now - lastIntentTs < INTENT_COOLDOWN_MS) {
+      const remainingMs = Math.max(0, INTENT_COOLDOWN_MS - (now - lastIntentTs));
+      const reason = `intent ${Math.ceil(remainingMs / 1000)}s`;
+      addBlockReason(reason);
+      appendTrace("IntentCooldown", {
+        ok: false,
+        code: "RECENT_INTENT",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (lastCloseTs && now - lastCloseTs < closeCooldownMs) {
+      const remainingMs = Math.max(0, closeCooldownMs - (now - lastCloseTs));
+      const reason = `re-entry ${Math.ceil(remainingMs / 1000)}s`;
+      addBlockReason(reason);
+      appendTrace("ReentryCooldown", {
+        ok: false,
+        code: "RECENT_CLOSE",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (lastLossTs && now - lastLossTs < cooldownMs) {
+      const remainingMs = Math.max(0, cooldownMs - (now - lastLossTs));
+      const reason = `cooldown ${Math.ceil(remainingMs / 60_000)}m`;
+      addBlockReason(reason);
+      appendTrace("LossCooldown", {
+        ok: false,
+        code: "LOSS_COOLDOWN",
+        reason,
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (isAiMaticProfile) {
+      const swingState = state.aiMaticSwingState.get(symbol);
+      const cooldownUntil = toNumber(swingState?.cooldownUntil);
+      if (Number.isFinite(cooldownUntil) && cooldownUntil > now) {
+        const remainingMs = Math.max(0, cooldownUntil - now);
+        const reason = `swing ${Math.ceil(remainingMs / 60_000)}m`;
+        addBlockReason(reason);
+        appendTrace("SwingCooldown", {
+          ok: false,
+          code: "SWING_COOLDOWN",
+          reason,
+          ttlMs: POSITION_GATE_TTL_MS,
+        });
+      }
+    }
+    if (!context.ordersClearOk) {
+      addBlockReason("max orderů");
+      appendTrace("OrderCapacity", {
+        ok: false,
+        code: "MAX_ORDERS",
+        reason: "max orderů",
+        ttlMs: MAX_ORDERS_GATE_TTL_MS,
+      });
+    }
+    const dataGate = dataHealthGate(symbol, now, context.settings.riskMode);
+    appendTrace("DataHealth", dataGate);
+    if (!dataGate.ok) addBlockReason(dataGate.reason);
+    const protectionState = protectionGate();
+    appendTrace("ProtectionSL", protectionState);
+    if (!protectionState.ok) addBlockReason(protectionState.reason);
+    if (
+      context.settings.riskMode === "ai-matic-x" &&
+      (decision as any)?.xContext?.riskOff
+    ) {
+      addBlockReason("risk off");
+      appendTrace("RiskOff", {
+        ok: false,
+        code: "RISK_OFF",
+        reason: "risk off",
+        ttlMs: POSITION_GATE_TTL_MS,
+      });
+    }
+    if (
+      !capacityGate.ok &&
+      capacityStatus.reason === "OK" &&
+      capacityGate.code !== "OPEN_POSITION"
+    ) {
+      const ttlMs = capacityGate.ttlMs ?? SKIP_LOG_THROTTLE_MS;
+      const fingerprint = `${context.capacityStateFingerprint}:${capacityGate.code}`;
+      if (shouldEmitBlockLog(symbol, capacityGate.code, fingerprint, ttlMs, now)) {
+        const logId = `entry-block:${symbol}:${now}`;
+        state.addLogEntries([
+          {
+            id: logId,
+            timestamp: new Date(now).toISOString(),
+            action: "RISK_BLOCK",
+            message: `${symbol} ENTRY BLOCKED [${capacityGate.code}] ${capacityGate.reason}`,
+          },
+        ]);
+      }
+    }
+    const manageReason =
+      entryBlockReasons.length > 0 ? entryBlockReasons.join(" • ") : null;
+    const aiMaticCoreEval = isAiMaticProfile
+      ? buildAiMaticCoreGroupedGates({
+          coreGates: coreEval.gates,
+          trace: decisionTrace,
+        })
+      : null;
+
+    if (isAiMaticProfile) {
+      aiMaticCoreEval?.gates.forEach((gate) =>
+        addGate(gate.name, gate.ok, gate.detail, gate.pending)
+      );
+    } else if (isAmdProfile) {
+      if (amdEval) {
+        amdEval.gates.forEach((gate) =>
+          addGate(gate.name, gate.ok, gate.detail, gate.pending)
+        );
+      }
+    } else if (isScalpProfile) {
+      addGate(
+        OLIKELLA_GATE_SIGNAL_CHECKLIST,
+        Boolean(oliContext?.gates.signalChecklistOk),
+        oliContext?.gates.signalChecklistDetail ?? "no valid OLIkella setup"
+      );
+      addGate(
+        OLIKELLA_GATE_ENTRY_CONDITIONS,
+        Boolean(oliContext?.gates.entryConditionsOk),
+        oliContext?.gates.entryConditionsDetail ?? "entry conditions missing"
+      );
+      addGate(
+        OLIKELLA_GATE_EXIT_CONDITIONS,
+        Boolean(oliContext?.gates.exitConditionsOk),
+        oliContext?.gates.exitConditionsDetail ?? "exit lifecycle unavailable"
+      );
+      addGate(
+        OLIKELLA_GATE_RISK_RULES,
+        Boolean(oliContext?.gates.riskRulesOk),
+        oliContext?.gates.riskRulesDetail ?? "risk 1.5% | RRR 1.8 | max positions 5 | max orders 20"
+      );
+    } else {
+      coreEval.gates.forEach((gate) =>
+        addGate(
+          gate.name,
+          gate.ok,
+          gate.detail,
+          "pending" in gate ? Boolean(gate.pending) : undefined
+        )
+      );
+    }
+
+    const hardEnabled = isAmdProfile ? true : false;
+    const softEnabled = isAiMaticProfile
+      ? false
+      : isAmdProfile
+        ? false
+      : isScalpProfile
+        ? false
+      : context.settings.enableSoftGates !== false;
+    const hardReasons: string[] = [];
+    const hardBlocked = false;
+    const softBlocked = softEnabled && quality.pass === false;
+    const oliChecklist = isScalpProfile
+      ? (() => {
+          const eligible = gates.filter((gate) => state.isGateEnabled(gate.name));
+          const passed = eligible.filter((gate) => gate.ok).length;
+          return {
+            eligibleCount: eligible.length,
+            passedCount: passed,
+            pass: eligible.length > 0 ? passed === eligible.length : false,
+          };
+        })()
+      : null;
+    const checklist = isAiMaticProfile && aiMaticCoreEval
+      ? {
+          eligibleCount: aiMaticCoreEval.gates.length,
+          passedCount: aiMaticCoreEval.gates.filter((g) => g.ok).length,
+          pass: aiMaticCoreEval.pass,
+        }
+      : isAmdProfile && amdEval
+        ? {
+            eligibleCount: amdEval.gates.length,
+            passedCount: amdEval.gates.filter((g) => g.ok).length,
+            pass: amdEval.pass,
+          }
+      : isProProfile
+        ? {
+            eligibleCount: coreEval.scoreTotal,
+            passedCount: coreEval.score,
+            pass: coreEval.scorePass !== false,
+          }
+        : isScalpProfile && oliChecklist
+          ? oliChecklist
+          : state.evaluateChecklistPass(gates);
+    const signalActive = isScalpProfile
+      ? Boolean(signal)
+      : isAmdProfile
+        ? Boolean(signal)
+      : Boolean(signal) || checklist.pass;
+    const riskEntryMonitorOnly =
+      RISK_ENTRY_BLOCK_MONITOR_ONLY && !isScalpProfile;
+    let executionAllowed: boolean | null = null;
+    let executionReason: string | undefined;
+    if (entryBlockReasons.length > 0) {
+      executionAllowed = riskEntryMonitorOnly ? true : false;
+      executionReason = riskEntryMonitorOnly
+        ? `monitor only: ${entryBlockReasons.join(", ")}`
+        : entryBlockReasons.join(", ");
+    } else if (!signalActive) {
+      executionAllowed = null;
+      executionReason = "čeká na signál";
+    } else if (isAiMaticProfile && aiMaticCoreEval && !aiMaticCoreEval.pass) {
+      const passCount = aiMaticCoreEval.gates.filter((g) => g.ok).length;
+      executionAllowed = false;
+      executionReason = `AI-MATIC Core gates ${passCount}/${aiMaticCoreEval.gates.length}`;
+    } else if (isAmdProfile && amdEval && !amdEval.pass) {
+      const passCount = amdEval.gates.filter((g) => g.ok).length;
+      executionAllowed = false;
+      executionReason = `AI-MATIC-AMD gates ${passCount}/${amdEval.gates.length}`;
+    } else if (!checklist.pass) {
+      executionAllowed = false;
+      executionReason = isScalpProfile
+        ? `OLIkella gates ${checklist.passedCount}/${checklist.eligibleCount}`
+        : isProProfile
+        ? `Checklist ${checklist.passedCount}/${checklist.eligibleCount}`
+        : `Checklist ${checklist.passedCount}/${MIN_CHECKLIST_PASS}`;
+    } else if (softBlocked) {
+      executionAllowed = false;
+      executionReason = `Score ${quality.score ?? "—"} / ${quality.threshold ?? "—"}`;
+    } else {
+      executionAllowed = true;
+    }
+    const relayState =
+      executionAllowed === true
+        ? "READY"
+        : executionAllowed === false
+          ? "BLOCKED"
+          : "WAITING";
+    const dataHealthReasons: string[] = [];
+    if (feedAgeOk === false) {
+      dataHealthReasons.push(
+        `feed latency ${Math.round(feedAgeMs ?? 0)}ms exceeds max ${Math.round(
+          dataHealth.maxLagMs
+        )}ms`
+      );
+    }
+    if (timeframeSyncOk === false) {
+      dataHealthReasons.push(timeframeSyncDetail ?? "H1/5m timeframe desync");
+    }
+    const dataHealthStatus: "SAFE" | "UNSAFE" =
+      dataHealthReasons.length > 0 ? "UNSAFE" : "SAFE";
+    const watchdogFails =
+      dataIntegrityWatchdog.get(symbol)?.fails ?? 0;
+
+    const profileKey = String(context.settings.riskMode ?? "ai-matic");
+    let entryGateRules: { name: string; passed: boolean; pending?: boolean }[] = [];
+    let entryGateProgress:
+      | ReturnType<typeof buildEntryGateProgress>
+      | undefined;
+
+    if (isAiMaticProfile) {
+      entryGateRules = aiMaticCoreEval?.gates.length
+        ? aiMaticCoreEval.gates.map((gate) => ({
+            name: gate.name,
+            passed: gate.ok,
+            pending: gate.pending,
+          }))
+        : [
+            {
+              name: AI_MATIC_CORE_GATE_SIGNAL_CHECKLIST,
+              passed: false,
+              pending: true,
+            },
+            {
+              name: AI_MATIC_CORE_GATE_ENTRY_CONDITIONS,
+              passed: false,
+              pending: true,
+            },
+            {
+              name: AI_MATIC_CORE_GATE_EXECUTION_CONDITIONS,
+              passed: false,
+              pending: true,
+            },
+            {
+              name: AI_MATIC_CORE_GATE_RISK_RULES,
+              passed: false,
+              pending: true,
+            },
+          ];
+      const passed = entryGateRules.filter((rule) => rule.passed).length;
+      entryGateProgress = buildEntryGateProgress({
+        profile: profileKey,
+        passed,
+        required: 4,
+        total: 4,
+        label: "AI-MATIC Core gates",
+        reason: executionReason,
+        signalActive,
+        rules: entryGateRules,
+      });
+    } else if (isAmdProfile) {
+      entryGateRules =
+        amdEval?.gates.length
+          ? amdEval.gates.map((gate) => ({
+              name: gate.name,
+              passed: gate.ok,
+              pending: gate.pending,
+            }))
+          : AMD_ENTRY_RULE_NAMES.map((name) => ({
+              name,
+              passed: false,
+              pending: true,
+            }));
+      const passed = entryGateRules.filter((rule) => rule.passed).length;
+      entryGateProgress = buildEntryGateProgress({
+        profile: profileKey,
+        passed,
+        required: AMD_ENTRY_RULE_NAMES.length,
+        total: AMD_ENTRY_RULE_NAMES.length,
+        label: "AMD gates",
+        reason: executionReason,
+        signalActive,
+        rules: entryGateRules,
+      });
+    } else if (isScalpProfile) {
+      const scalpRulesRaw = [
+        {
+          name: OLIKELLA_GATE_SIGNAL_CHECKLIST,
+          value: oliContext?.gates.signalChecklistOk,
+        },
+        {
+          name: OLIKELLA_GATE_ENTRY_CONDITIONS,
+          value: oliContext?.gates.entryConditionsOk,
+        },
+        {
+          name: OLIKELLA_GATE_EXIT_CONDITIONS,
+          value: oliContext?.gates.exitConditionsOk,
+        },
+        {
+          name: OLIKELLA_GATE_RISK_RULES,
+          value: oliContext?.gates.riskRulesOk,
+        },
+      ] as const;
+      entryGateRules = scalpRulesRaw.map((rule) => {
+        const known = typeof rule.value === "boolean";
+        return {
+          name: rule.name,
+          passed: rule.value === true,
+          pending: !known && !signalActive,
+        };
+      });
+      const passed = entryGateRules.filter((rule) => rule.passed).length;
+      entryGateProgress = buildEntryGateProgress({
+        profile: profileKey,
+        passed,
+        required: 4,
+        total: 4,
+        label: "OLIkella gates",
+        reason: executionReason,
+        signalActive,
+        rules: entryGateRules,
+      });
+    } else if (isProProfile) {
+      entryGateRules = coreEval.gates.length
+        ? coreEval.gates.map((gate) => ({
+            name: gate.name,
+            passed: gate.ok,
+            pending: gate.pending,
+          }))
+        : PRO_MTF_FIBO_GATE_NAMES.map((name) => ({
+            name,
+            passed: false,
+            pending: !signalActive,
+          }));
+      entryGateProgress = buildEntryGateProgress({
+        profile: profileKey,
+        passed: coreEval.score,
+        required: coreEval.threshold,
+        total: coreEval.scoreTotal,
+        label: "PRO MTF Fibo gates",
+        reason: executionReason,
+        signalActive,
+        rules: entryGateRules,
+      });
+    } else {
+      entryGateRules = [
+        {
+          name: `Checklist >= ${MIN_CHECKLIST_PASS}`,
+          passed: checklist.pass,
+          pending: !signalActive && !checklist.pass,
+        },
+      ];
+      entryGateProgress = buildEntryGateProgress({
+        profile: profileKey,
+        passed: checklist.passedCount,
+        required: MIN_CHECKLIST_PASS,
+        total: checklist.eligibleCount,
+        label: "Checklist threshold",
+        reason: executionReason,
+        signalActive,
+        rules: entryGateRules,
+      });
+    }
+
+    return {
+      symbolState,
+      manageReason,
+      entryBlockReasons,
+      skipCode: decisionTrace.find((entry) => !entry.result.ok)?.result.code,
+      skipReason: decisionTrace.find((entry) => !entry.result.ok)?.result.reason,
+      decisionTrace,
+      hasPosition: context.hasPosition,
+      hasEntryOrder,
+      hasPendingIntent,
+      signalActive,
+      hardEnabled,
+      softEnabled,
+      hardBlocked,
+      hardBlock: hardBlocked ? hardReasons.join(" · ") : undefined,
+      executionAllowed,
+      executionReason,
+      relayState,
+      relayReason: undefined,
+      gates,
+      entryGateProgress,
+      entryGateRules,
+      qualityScore: quality.score,
+      qualityThreshold: quality.threshold,
+      qualityPass: quality.pass,
+      dataHealthStatus,
+      dataHealthReasons,
+      timeframeSyncOk,
+      timeframeSyncDetail,
+      dataIntegrityWatchdogFails: watchdogFails,
+      gateFailureReasons: oliGateFailureSummary.allReasons,
+      proTrend: (decision as any)?.proMtfFibo?.trend ?? null,
+      lastScanTs,
+      feedAgeMs,
+      feedAgeOk,
+      feedLagMaxMs: dataHealth.maxLagMs,
+    };
+  };
+
+  const refreshDiagnosticsFromDecisions = () => {
+    const entries = Object.entries(state.decisions);
+    if (!entries.length) return;
+    const now = clock.now();
+    const prepared: Record<string, any> = {};
+    for (const [symbol, data] of entries) {
+      if (!state.activeSymbols.includes(symbol as Symbol)) continue;
+      const diag = buildScanDiagnostics(
+        symbol,
+        data.decision,
+        data.ts
+      );
+      updateDataIntegrityWatchdog(symbol, diag, now);
+      prepared[symbol] = diag;
+    }
+    if (!Object.keys(prepared).length) return;
+    state.mergeScanDiagnostics(prepared);
+  };
+
+  const updateGateOverrides = (overrides: Record<string, boolean>) => {
+    // Změněné overrides se přes configure() propíšou i na server executor.
+    state.setGateOverrides(overrides);
+    refreshDiagnosticsFromDecisions();
+  };
+
+  /** Zahodí cooldowny a watchdog z předchozího připojení. */
+  const resetSession = () => {
+    blockDecisionCooldown.clear();
+    dataIntegrityWatchdog.clear();
+    portfolioRegime = {
+      dominanceHistory: [],
+      lastSampleAt: 0,
+      snapshot: null,
+    };
+  };
+
+  return {
+    buildChecklistSignal,
+    resolveDataHealthSnapshot,
+    dataHealthGate,
+    resolvePortfolioRegime,
+    resolvePortfolioRiskScale,
+    getSymbolContext,
+    shouldEmitBlockLog,
+    queueCapacityRecheck,
+    evaluateCoreV2,
+    enforceBtcBiasAlignment,
+    resolveSymbolState,
+    updateDataIntegrityWatchdog,
+    buildScanDiagnostics,
+    refreshDiagnosticsFromDecisions,
+    updateGateOverrides,
+    resetSession,
+  };
+}
+
+export type TradingDiagnostics = ReturnType<typeof createTradingDiagnostics>;
@@ -1,3 +1,5 @@
+import { treeTrendGate5m as treeTrendGate5mPolicy } from "../engine/executionPolicy";
+
 export type GuardResult = {
   ok: boolean;
   code: string;
@@ -25,25 +27,7 @@ export function treeTrendGate5m(input: {
   rsi14_5m: number;
   ttlMs?: number;
 }): GuardResult {
-  const ttlMs = Number.isFinite(input.ttlMs) ? Number(input.ttlMs) : 60_000;
-  if (!isShortSide(input.side)) {
-    return { ok: true, code: "OK", reason: "trend ok" };
-  }
-  const aboveEma200 =
-    Number.isFinite(input.price) &&
-    Number.isFinite(input.ema200_5m) &&
-    input.price > input.ema200_5m;
-  const macdBull = Number.isFinite(input.macdHist_5m) && input.macdHist_5m > 0;
-  const rsiBull = Number.isFinite(input.rsi14_5m) && input.rsi14_5m >= 55;
-  if (aboveEma200 || macdBull || rsiBull) {
-    return {
-      ok: false,
-      code: "TREND_FILTER",
-      reason: "short vs 5m uptrend",
-      ttlMs,
-    };
-  }
-  return { ok: true, code: "OK", reason: "trend ok" };
+  return treeTrendGate5mPolicy(input);
 }
 
 export function stopValidityGate(
@@ -0,0 +1,1409 @@
+// hooks/tradingProtection.ts
+import { Symbol } from "../api/types";
+import type { AiMaticOliKellaContext } from "../engine/aiMaticOliKellaStrategy";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import {
+  normalizeProtectionLevels,
+  resolveMinProtectionDistance,
+} from "../engine/executionPolicy";
+import {
+  TREE_TRAIL_K_ATR,
+  TREE_TRAIL_PCT_MIN,
+  resolveStrategy,
+} from "../engine/strategyRegistry";
+import {
+  TS_VERIFY_INTERVAL_MS,
+  asErrorMessage,
+  formatNumber,
+  isEntryOrder,
+  maxFinite,
+  normalizePositionSide,
+  resolveProtectionFromOrders,
+  toEpoch,
+  toNumber,
+  type ActivePosition,
+} from "./tradingSyncHelpers";
+import {
+  AI_MATIC_NO_PROGRESS_EXIT_COOLDOWN_MS,
+  AI_MATIC_TP1_PARTIAL_FRACTION,
+  AI_MATIC_TRAIL_ACTIVATE_PCT,
+  AUTO_MANUAL_EXITS_ENABLED,
+  NONSCALP_PARTIAL_COOLDOWN_MS,
+  NONSCALP_PARTIAL_FRACTION,
+  NONSCALP_PARTIAL_TAKE_R,
+  OLIKELLA_MANUAL_EXIT_COOLDOWN_MS,
+  OLIKELLA_MANUAL_EXIT_ENABLED,
+  OLIKELLA_MANUAL_EXIT_MIN_CONFIRMATIONS,
+  OLIKELLA_TRAIL_TIMEFRAME_MIN,
+  PROTECTION_ATTACH_GRACE_MS,
+  PROTECTION_RETRY_INTERVAL_MS,
+  PROTECTION_RETRY_LOG_TTL_MS,
+  PROTECTION_SYNC_STALE_MS,
+  TRAIL_ACTIVATION_R_MULTIPLIER,
+  TRAIL_SYMBOL_MODE,
+  TREE_TRAIL_MIN_TICKS,
+  computeRMultiple,
+  resolveAiMaticAdaptiveRiskParams,
+  resolveFallbackTickSize,
+  resolveOliKellaTrailConfig,
+  resolveTrailingActivationPrice,
+  type AiMaticProgressState,
+} from "./tradingProtectionHelpers";
+import {
+  SKIP_LOG_THROTTLE_MS,
+  type CoreV2Metrics,
+  type GateResult,
+} from "./tradingDecisionHelpers";
+import type { TradingState } from "./tradingState";
+import type { TradingBackend } from "./tradingBackend";
+
+/**
+ * Ochrany otevřených pozic: SL/TP, trailing, dorovnání chybějícího SL
+ * a řízení výstupů scalpu a OLIkella.
+ */
+export function createTradingProtection(
+  state: TradingState,
+  backend: TradingBackend,
+  refresh: () => Promise<void>,
+) {
+  const { clock } = state;
+  const partialExit = new Map<string, { taken: boolean; lastAttempt: number }>();
+  const proPartial = new Map<
+    string,
+    {
+      t1: number;
+      t2: number;
+      entryPrice: number;
+      side: "Buy" | "Sell";
+      t1Taken: boolean;
+      lastAttempt: number;
+    }
+  >();
+  const trailingSync = new Map<string, number>();
+  const aiMaticTrailCooldown = new Map<string, number>();
+  const aiMaticProgress = new Map<string, AiMaticProgressState>();
+  const scalpActionCooldown = new Map<string, number>();
+  const oliExtensionCount = new Map<string, number>();
+  const oliTrendLeg = new Map<string, string>();
+  const oliScaleInUsed = new Map<string, boolean>();
+  const protectionRetryLog = new Map<string, number>();
+
+  const positionsWithoutActiveSl = () => {
+    const now = clock.now();
+    const lastAtomicSyncAt = state.lastAtomicSyncAt;
+    if (
+      !Number.isFinite(lastAtomicSyncAt) ||
+      lastAtomicSyncAt <= 0 ||
+      now - lastAtomicSyncAt > PROTECTION_SYNC_STALE_MS
+    ) {
+      return [];
+    }
+    return state.openPositions.filter((position) => {
+      const size = toNumber(position?.size ?? position?.qty);
+      if (!Number.isFinite(size) || size <= 0) return false;
+      const sl = toNumber(position?.sl);
+      if (Number.isFinite(sl) && sl > 0) return false;
+      const symbol = String(position?.symbol ?? "").toUpperCase();
+      if (!symbol) return false;
+      const side = normalizePositionSide(position?.side);
+      const entryPrice = toNumber(position?.entryPrice ?? position?.triggerPrice);
+      const positionIdx = toNumber(position?.positionIdx);
+      const exchangeProtection = resolveProtectionFromOrders({
+        orders: state.openOrders,
+        symbol,
+        positionSide: side,
+        entryPrice,
+        positionIdx: Number.isFinite(positionIdx) ? positionIdx : undefined,
+      });
+      if (exchangeProtection.hasActiveSL) return false;
+      const planned = state.plannedProtection.get(symbol);
+      const plannedSl = toNumber(planned?.sl);
+      const plannedAt = toNumber(planned?.setAt);
+      if (
+        Number.isFinite(plannedSl) &&
+        plannedSl > 0 &&
+        Number.isFinite(plannedAt) &&
+        now - plannedAt <= PROTECTION_ATTACH_GRACE_MS
+      ) {
+        return false;
+      }
+      const openedAt = toEpoch(position?.openedAt ?? position?.timestamp);
+      if (Number.isFinite(openedAt) && now - openedAt <= PROTECTION_ATTACH_GRACE_MS) {
+        return false;
+      }
+      return true;
+    });
+  };
+
+  const protectionGate = (): GateResult => {
+    const missing = positionsWithoutActiveSl();
+    if (missing.length === 0) {
+      return { ok: true, code: "OK", reason: "protection" };
+    }
+    const sample = missing
+      .slice(0, 3)
+      .map((position) => String(position.symbol ?? "").toUpperCase())
+      .filter(Boolean)
+      .join(",");
+    const suffix = sample ? ` (${sample})` : "";
+    return {
+      ok: false,
+      code: "PROTECTION_INACTIVE",
+      reason: `SKIP::PROTECTION_INACTIVE missing SL ${missing.length}${suffix}`,
+      ttlMs: SKIP_LOG_THROTTLE_MS,
+    };
+  };
+
+  const resolveProtectionRetryStop = (position: ActivePosition) => {
+    const symbol = String(position.symbol ?? "").toUpperCase();
+    const planned = state.plannedProtection.get(symbol);
+    const plannedSl = toNumber(planned?.sl);
+    if (Number.isFinite(plannedSl) && plannedSl > 0) {
+      return plannedSl;
+    }
+    const entry = toNumber(position.entryPrice);
+    if (!Number.isFinite(entry) || entry <= 0) {
+      return Number.NaN;
+    }
+    const side = String(position.side ?? "").toLowerCase() === "sell" ? "Sell" : "Buy";
+    const atr = toNumber(
+      (state.decisions[symbol]?.decision as any)?.coreV2?.atr14
+    );
+    const minDistance = resolveMinProtectionDistance(entry, atr);
+    const fallbackSl = side === "Buy" ? entry - minDistance : entry + minDistance;
+    return Number.isFinite(fallbackSl) && fallbackSl > 0
+      ? fallbackSl
+      : Number.NaN;
+  };
+
+  const computeTrailingPlan = (
+    entry: number,
+    sl: number,
+    side: "Buy" | "Sell",
+    symbol: Symbol,
+    atr?: number,
+    marketPrice?: number
+  ) => {
+    const settings = state.settings;
+    const isScalpProfile = settings.riskMode === "ai-matic-olikella";
+    const isProProfile = settings.riskMode === "ai-matic-pro";
+    const proTrailArmed = Boolean(state.proTrailArmed.get(symbol));
+    const proSeed = isProProfile ? state.proTargets.get(symbol) : null;
+    if (isScalpProfile) {
+      return null;
+    }
+    const symbolMode = TRAIL_SYMBOL_MODE[symbol];
+    const forceTrail =
+      settings.riskMode === "ai-matic" ||
+      settings.riskMode === "ai-matic-amd" ||
+      settings.riskMode === "ai-matic-x" ||
+      settings.riskMode === "ai-matic-bbo" ||
+      settings.riskMode === "ai-matic-tree" ||
+      settings.riskMode === "ai-matic-pro";
+    if (symbolMode === "off") return null;
+    if (!forceTrail && !settings.lockProfitsWithTrail && symbolMode !== "on") {
+      return null;
+    }
+    const normalized = normalizeProtectionLevels(entry, side, sl);
+    const normalizedSl = Number.isFinite(normalized.sl) ? normalized.sl : sl;
+    const r = Math.abs(entry - normalizedSl);
+    if (!Number.isFinite(r) || r <= 0) return null;
+    const profile = resolveStrategy(settings.riskMode).management.trail;
+    const activateR = profile.activateR;
+    const lockR = profile.lockR;
+    const overrideRate = state.trailOffset.get(symbol);
+    const isAiMaticCoreProfile = false;
+    const isAmdProfile = settings.riskMode === "ai-matic-amd";
+    const isTreeProfile =
+      settings.riskMode === "ai-matic-tree" ||
+      settings.riskMode === "ai-matic-bbo" ||
+      settings.riskMode === "ai-matic";
+    const usePercentActivation =
+      isScalpProfile ||
+      isAiMaticCoreProfile ||
+      isAmdProfile ||
+      (isTreeProfile &&
+        Number.isFinite(overrideRate) &&
+        (overrideRate as number) > 0);
+    const effectiveRate =
+      Number.isFinite(overrideRate) && overrideRate > 0
+        ? overrideRate
+        : profile.retracementRate;
+    const minDistance = resolveMinProtectionDistance(entry, atr);
+    const atrValue =
+      Number.isFinite(atr) && (atr as number) > 0 ? (atr as number) : Number.NaN;
+    const treeTickSize = resolveFallbackTickSize(symbol);
+    const treeTickDistance =
+      treeTickSize > 0 ? treeTickSize * TREE_TRAIL_MIN_TICKS : Number.NaN;
+    const distanceBasePrice =
+      Number.isFinite(marketPrice) && (marketPrice as number) > 0
+        ? (marketPrice as number)
+        : entry;
+    const treePctDistance = distanceBasePrice * TREE_TRAIL_PCT_MIN;
+    const treeAtrDistance =
+      Number.isFinite(atrValue) && atrValue > 0 ? atrValue * TREE_TRAIL_K_ATR : Number.NaN;
+    const rawDistance = isTreeProfile
+      ? maxFinite(treePctDistance, treeAtrDistance, treeTickDistance)
+      : Number.isFinite(effectiveRate)
+        ? entry * (effectiveRate as number)
+        : Math.abs(activateR - lockR) * r;
+    const distance = Math.max(rawDistance, minDistance);
+    if (!Number.isFinite(distance) || distance <= 0) return null;
+    const aiMaticActivationMove = Math.max(
+      entry * AI_MATIC_TRAIL_ACTIVATE_PCT,
+      minDistance
+    );
+    const proTp1ActivationMove =
+      isProProfile &&
+      !proTrailArmed &&
+      proSeed &&
+      proSeed.side === side &&
+      Number.isFinite(proSeed.t1) &&
+      Number.isFinite(proSeed.entryPrice)
+        ? Math.abs((proSeed.t1 as number) - (proSeed.entryPrice as number)) * 0.5
+        : Number.NaN;
+    const treeActivationMove = Math.max(treePctDistance, minDistance);
+    const activationMove =
+      isProProfile &&
+      !proTrailArmed &&
+      Number.isFinite(proTp1ActivationMove) &&
+      proTp1ActivationMove > 0
+        ? (proTp1ActivationMove as number)
+        : isAiMaticCoreProfile
+          ? aiMaticActivationMove
+          : isTreeProfile
+            ? treeActivationMove
+            : usePercentActivation
+              ? distance
+              : Math.max(
+                  activateR * TRAIL_ACTIVATION_R_MULTIPLIER * r,
+                  minDistance
+                );
+    const activePrice = resolveTrailingActivationPrice(entry, side, activationMove);
+    if (!Number.isFinite(activePrice) || activePrice <= 0) return null;
+    return { trailingStop: distance, trailingActivePrice: activePrice };
+  };
+
+  const syncTrailingProtection = async (positions: ActivePosition[]) => {
+    const now = clock.now();
+    const seenSymbols = new Set(
+      positions.map((p) => String(p.symbol ?? "")).filter(Boolean)
+    );
+    for (const symbol of trailingSync.keys()) {
+      if (!seenSymbols.has(symbol)) {
+        trailingSync.delete(symbol);
+      }
+    }
+    for (const symbol of state.trailOffset.keys()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasOrder = state.openOrders.some(
+        (order) => isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+      );
+      if (!hasPosition && !hasOrder && !hasPending) {
+        state.trailOffset.delete(symbol);
+      }
+    }
+    for (const symbol of state.aiMaticTp1.keys()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasOrder = state.openOrders.some(
+        (order) => isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+      );
+      if (!hasPosition && !hasOrder && !hasPending) {
+        state.aiMaticTp1.delete(symbol);
+        aiMaticTrailCooldown.delete(symbol);
+      }
+    }
+    for (const [symbol, swing] of state.aiMaticSwingState.entries()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasOrder = state.openOrders.some(
+        (order) => isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+      );
+      const cooldownUntil = toNumber(swing?.cooldownUntil);
+      const cooldownExpired =
+        !Number.isFinite(cooldownUntil) || cooldownUntil <= now;
+      if (!hasPosition && !hasOrder && !hasPending && cooldownExpired) {
+        state.aiMaticSwingState.delete(symbol);
+      }
+    }
+    for (const [symbol, fallback] of state.aiMaticRetestFallback.entries()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasRetestOrder = state.openOrders.some(
+        (order) =>
+          isEntryOrder(order) &&
+          String(order?.symbol ?? "") === symbol &&
+          String(order?.orderLinkId ?? "") === fallback.retestIntentId
+      );
+      if (!hasPosition && !hasRetestOrder && !hasPending) {
+        state.aiMaticRetestFallback.delete(symbol);
+      }
+    }
+    for (const symbol of state.proTargets.keys()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasOrder = state.openOrders.some(
+        (order) => isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+      );
+      if (!hasPosition && !hasOrder && !hasPending) {
+        state.proTargets.delete(symbol);
+        state.proTrailArmed.delete(symbol);
+      }
+    }
+    for (const symbol of state.plannedProtection.keys()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasOrder = state.openOrders.some(
+        (order) => isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+      );
+      if (!hasPosition && !hasOrder && !hasPending) {
+        state.plannedProtection.delete(symbol);
+        state.protectionRetryAt.delete(symbol);
+        protectionRetryLog.delete(symbol);
+      }
+    }
+    for (const symbol of state.scalpExitState.keys()) {
+      const hasPosition = seenSymbols.has(symbol);
+      const hasPending = state.intentPending.has(symbol);
+      const hasOrder = state.openOrders.some(
+        (order) => isEntryOrder(order) && String(order?.symbol ?? "") === symbol
+      );
+      if (!hasPosition && !hasOrder && !hasPending) {
+        state.scalpExitState.delete(symbol);
+        scalpActionCooldown.delete(symbol);
+        oliExtensionCount.delete(symbol);
+        oliTrendLeg.delete(symbol);
+        oliScaleInUsed.delete(symbol);
+      }
+    }
+    const activePositionKeys = new Set(
+      positions
+        .map((pos) =>
+          String(pos.positionId || pos.id || `${pos.symbol}:${pos.openedAt}`)
+        )
+        .filter(Boolean)
+    );
+    for (const key of partialExit.keys()) {
+      if (!activePositionKeys.has(key)) {
+        partialExit.delete(key);
+      }
+    }
+    for (const key of aiMaticProgress.keys()) {
+      if (!activePositionKeys.has(key)) {
+        aiMaticProgress.delete(key);
+      }
+    }
+    for (const key of proPartial.keys()) {
+      if (!activePositionKeys.has(key)) {
+        proPartial.delete(key);
+      }
+    }
+
+    for (const pos of positions) {
+      const symbol = String(pos.symbol ?? "");
+      if (!symbol) continue;
+      const settings = state.settings;
+      const isScalpProfile = settings.riskMode === "ai-matic-olikella";
+      const isProProfile = settings.riskMode === "ai-matic-pro";
+      const isAiMaticProfile = false;
+      const positionKey = String(
+        pos.positionId || pos.id || `${pos.symbol}:${pos.openedAt}`
+      );
+      const currentTrail = toNumber(pos.currentTrailingStop);
+      const entry = toNumber(pos.entryPrice);
+      const sl = toNumber(pos.sl);
+      if (
+        !Number.isFinite(entry) ||
+        !Number.isFinite(sl) ||
+        entry <= 0 ||
+        sl <= 0
+      ) {
+        continue;
+      }
+      const side = pos.side === "Sell" ? "Sell" : "Buy";
+      const price = toNumber(pos.markPrice);
+      let progress: AiMaticProgressState | null = null;
+      let aiMaticMfe = Number.NaN;
+      if (
+        isAiMaticProfile &&
+        positionKey &&
+        Number.isFinite(price) &&
+        price > 0
+      ) {
+        const openedAtMsRaw = toEpoch(pos.openedAt);
+        const openedAtMs = Number.isFinite(openedAtMsRaw) ? openedAtMsRaw : now;
+        const entryRiskSeed = Math.abs(entry - sl);
+        progress = aiMaticProgress.get(positionKey) ?? {
+          openedAtMs,
+          entryRisk: Number.isFinite(entryRiskSeed) ? entryRiskSeed : Number.NaN,
+          bestFavorablePrice: price,
+          beMoved: false,
+          lastNoProgressExitAttempt: 0,
+        };
+        if (
+          (!Number.isFinite(progress.entryRisk) || progress.entryRisk <= 0) &&
+          Number.isFinite(entryRiskSeed) &&
+          entryRiskSeed > 0
+        ) {
+          progress.entryRisk = entryRiskSeed;
+        }
+        if (
+          !Number.isFinite(progress.bestFavorablePrice) ||
+          progress.bestFavorablePrice <= 0
+        ) {
+          progress.bestFavorablePrice = price;
+        }
+        progress.bestFavorablePrice =
+          side === "Buy"
+            ? Math.max(progress.bestFavorablePrice, price)
+            : Math.min(progress.bestFavorablePrice, price);
+        aiMaticMfe =
+          side === "Buy"
+            ? progress.bestFavorablePrice - entry
+            : entry - progress.bestFavorablePrice;
+        if (!progress.beMoved) {
+          const minDistance = resolveMinProtectionDistance(entry);
+          const beSl =
+            side === "Buy" ? entry - minDistance : entry + minDistance;
+          const alreadyAtBeOrBetter =
+            side === "Buy" ? sl >= beSl : sl <= beSl;
+          if (alreadyAtBeOrBetter) {
+            progress.beMoved = true;
+          }
+        }
+        aiMaticProgress.set(positionKey, progress);
+      }
+      if (
+        isAiMaticProfile &&
+        progress &&
+        Number.isFinite(price) &&
+        price > 0
+      ) {
+        const adaptiveRisk = resolveAiMaticAdaptiveRiskParams({
+          symbol,
+          records: state.closedPnlRecords,
+        });
+        const swingState = state.aiMaticSwingState.get(symbol);
+        const beMinR = Number.isFinite(swingState?.beMinR)
+          ? Math.min(adaptiveRisk.beMinR, swingState!.beMinR)
+          : adaptiveRisk.beMinR;
+        const core = (state.decisions[symbol]?.decision as any)?.coreV2 as
+          | CoreV2Metrics
+          | undefined;
+        const atr = toNumber(core?.atr14);
+        const ltfMinRaw = toNumber(core?.ltfTimeframeMin);
+        const ltfMin =
+          Number.isFinite(ltfMinRaw) && ltfMinRaw > 0
+            ? Math.max(1, Math.round(ltfMinRaw))
+            : 5;
+        const noProgressWindowMs =
+          adaptiveRisk.noProgressBars * ltfMin * 60_000;
+        const elapsedMs = Math.max(0, now - progress.openedAtMs);
+        const noProgress =
+          elapsedMs >= noProgressWindowMs &&
+          Number.isFinite(atr) &&
+          atr > 0 &&
+          Number.isFinite(aiMaticMfe) &&
+          aiMaticMfe < adaptiveRisk.noProgressMfeAtr * atr;
+        const sizeRaw = Math.abs(toNumber(pos.size ?? pos.qty));
+        if (
+          noProgress &&
+          Number.isFinite(sizeRaw) &&
+          sizeRaw > 0 &&
+          now - progress.lastNoProgressExitAttempt >=
+            AI_MATIC_NO_PROGRESS_EXIT_COOLDOWN_MS
+        ) {
+          progress.lastNoProgressExitAttempt = now;
+          aiMaticProgress.set(positionKey, progress);
+          if (!AUTO_MANUAL_EXITS_ENABLED) {
+            state.addLogEntries([
+              {
+                id: `ai-matic:no-progress:disabled:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "STATUS",
+                message: `${symbol} AI-MATIC no-progress auto-exit disabled (TP/SL/TS only)`,
+              },
+            ]);
+          } else {
+            try {
+              await backend.postJson("/order", {
+                symbol,
+                side: side === "Buy" ? "Sell" : "Buy",
+                qty: sizeRaw,
+                orderType: "Market",
+                reduceOnly: true,
+                timeInForce: "IOC",
+                positionIdx: Number.isFinite(pos.positionIdx)
+                  ? pos.positionIdx
+                  : undefined,
+              });
+              state.addLogEntries([
+                {
+                  id: `ai-matic:no-progress:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "STATUS",
+                  message: `${symbol} AI-MATIC no-progress exit (${adaptiveRisk.noProgressBars} bars, MFE < ${formatNumber(
+                    adaptiveRisk.noProgressMfeAtr,
+                    2
+                  )} ATR)`,
+                },
+              ]);
+            } catch (err) {
+              state.addLogEntries([
+                {
+                  id: `ai-matic:no-progress:error:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "ERROR",
+                  message: `${symbol} AI-MATIC no-progress exit failed: ${asErrorMessage(err)}`,
+                },
+              ]);
+            }
+            continue;
+          }
+        }
+        const mfeR =
+          Number.isFinite(progress.entryRisk) &&
+          progress.entryRisk > 0 &&
+          Number.isFinite(aiMaticMfe)
+            ? aiMaticMfe / progress.entryRisk
+            : Number.NaN;
+        if (
+          !progress.beMoved &&
+          Number.isFinite(mfeR) &&
+          mfeR >= beMinR
+        ) {
+          const minDistance = resolveMinProtectionDistance(entry, atr);
+          const beSl =
+            side === "Buy" ? entry - minDistance : entry + minDistance;
+          const shouldMove =
+            side === "Buy" ? sl < beSl : sl > beSl;
+          if (shouldMove) {
+            try {
+              await backend.postJson("/protection", {
+                symbol,
+                sl: beSl,
+                positionIdx: Number.isFinite(pos.positionIdx)
+                  ? pos.positionIdx
+                  : undefined,
+              });
+              progress.beMoved = true;
+              aiMaticProgress.set(positionKey, progress);
+              state.addLogEntries([
+                {
+                  id: `ai-matic:be:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "STATUS",
+                  message: `${symbol} AI-MATIC BE move @ ${formatNumber(mfeR, 2)}R`,
+                },
+              ]);
+            } catch (err) {
+              state.addLogEntries([
+                {
+                  id: `ai-matic:be:error:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "ERROR",
+                  message: `${symbol} AI-MATIC BE move failed: ${asErrorMessage(err)}`,
+                },
+              ]);
+            }
+          } else {
+            progress.beMoved = true;
+            aiMaticProgress.set(positionKey, progress);
+          }
+        }
+      }
+      if (isProProfile && positionKey) {
+        const sizeRaw = Math.abs(toNumber(pos.size ?? pos.qty));
+        let proState = proPartial.get(positionKey);
+        if (!proState) {
+          const seed = state.proTargets.get(symbol);
+          if (
+            seed &&
+            Number.isFinite(seed.entryPrice) &&
+            Number.isFinite(entry) &&
+            Math.abs(seed.entryPrice - entry) / entry <= 0.01
+          ) {
+            proState = {
+              t1: seed.t1,
+              t2: seed.t2,
+              entryPrice: seed.entryPrice,
+              side: seed.side,
+              t1Taken: false,
+              lastAttempt: 0,
+            };
+            proPartial.set(positionKey, proState);
+          }
+        }
+        if (proState) {
+          const t1Hit =
+            Number.isFinite(price) &&
+            Number.isFinite(proState.t1) &&
+            (side === "Buy" ? price >= proState.t1 : price <= proState.t1);
+          if (
+            t1Hit &&
+            !proState.t1Taken &&
+            now - proState.lastAttempt >= 30_000 &&
+            Number.isFinite(sizeRaw) &&
+            sizeRaw > 0
+          ) {
+            proState.lastAttempt = now;
+            const reduceQty = Math.min(sizeRaw, sizeRaw * 0.6);
+            try {
+              if (AUTO_MANUAL_EXITS_ENABLED && Number.isFinite(reduceQty) && reduceQty > 0) {
+                await backend.postJson("/order", {
+                  symbol,
+                  side: side === "Buy" ? "Sell" : "Buy",
+                  qty: reduceQty,
+                  orderType: "Market",
+                  reduceOnly: true,
+                  timeInForce: "IOC",
+                  positionIdx: Number.isFinite(pos.positionIdx)
+                    ? pos.positionIdx
+                    : undefined,
+                });
+              }
+              proState.t1Taken = true;
+              proPartial.set(positionKey, proState);
+              const minDistance = resolveMinProtectionDistance(entry);
+              const beSl =
+                side === "Buy"
+                  ? entry - minDistance
+                  : entry + minDistance;
+              await backend.postJson("/protection", {
+                symbol,
+                sl: beSl,
+                positionIdx: Number.isFinite(pos.positionIdx)
+                  ? pos.positionIdx
+                  : undefined,
+              });
+              state.proTrailArmed.set(symbol, true);
+              state.addLogEntries([
+                {
+                  id: `pro-t1:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "STATUS",
+                  message: AUTO_MANUAL_EXITS_ENABLED
+                    ? `${symbol} PRO T1 partial 60% + BE`
+                    : `${symbol} PRO T1 partial disabled -> BE only (TP/SL/TS)`,
+                },
+              ]);
+            } catch (err) {
+              state.addLogEntries([
+                {
+                  id: `pro-t1:error:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "ERROR",
+                  message: `${symbol} PRO T1 handling failed: ${asErrorMessage(err)}`,
+                },
+              ]);
+            }
+          }
+        }
+      }
+      if (isAiMaticProfile && positionKey) {
+        const partialState = partialExit.get(positionKey);
+        const lastAttempt = partialState?.lastAttempt ?? 0;
+        const tpState = state.aiMaticTp1.get(symbol);
+        const price = toNumber(pos.markPrice);
+        const tp1 = tpState?.tp1;
+        const tp1FractionRaw = toNumber(tpState?.partialFraction);
+        const tp1Fraction =
+          Number.isFinite(tp1FractionRaw) &&
+          tp1FractionRaw >= 0.2 &&
+          tp1FractionRaw <= 0.8
+            ? tp1FractionRaw
+            : AI_MATIC_TP1_PARTIAL_FRACTION;
+        const sizeRaw = Math.abs(toNumber(pos.size ?? pos.qty));
+        const tp1Hit =
+          Number.isFinite(tp1) &&
+          Number.isFinite(price) &&
+          (side === "Buy" ? price >= (tp1 as number) : price <= (tp1 as number));
+        if (
+          tp1Hit &&
+          (!partialState || !partialState.taken) &&
+          now - lastAttempt >= NONSCALP_PARTIAL_COOLDOWN_MS &&
+          Number.isFinite(sizeRaw) &&
+          sizeRaw > 0
+        ) {
+          partialExit.set(positionKey, {
+            taken: false,
+            lastAttempt: now,
+          });
+          const reduceQty = Math.min(sizeRaw, sizeRaw * tp1Fraction);
+          const closeSide = side === "Buy" ? "Sell" : "Buy";
+          try {
+            if (AUTO_MANUAL_EXITS_ENABLED) {
+              await backend.postJson("/order", {
+                symbol,
+                side: closeSide,
+                qty: reduceQty,
+                orderType: "Market",
+                reduceOnly: true,
+                timeInForce: "IOC",
+                positionIdx: Number.isFinite(pos.positionIdx)
+                  ? pos.positionIdx
+                  : undefined,
+              });
+            }
+            partialExit.set(positionKey, {
+              taken: true,
+              lastAttempt: now,
+            });
+            const minDistance = resolveMinProtectionDistance(entry);
+            const beSl =
+              side === "Buy"
+                ? entry - minDistance
+                : entry + minDistance;
+            await backend.postJson("/protection", {
+              symbol,
+              sl: beSl,
+              positionIdx: Number.isFinite(pos.positionIdx)
+                ? pos.positionIdx
+                : undefined,
+            });
+            state.addLogEntries([
+              {
+                id: `partial:ai-matic:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "STATUS",
+                message: AUTO_MANUAL_EXITS_ENABLED
+                  ? `${symbol} AI-MATIC TP1 partial ${Math.round(
+                      tp1Fraction * 100
+                    )}% + BE`
+                  : `${symbol} AI-MATIC TP1 partial disabled -> BE only (TP/SL/TS)`,
+              },
+            ]);
+          } catch (err) {
+            state.addLogEntries([
+              {
+                id: `partial:ai-matic:error:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "ERROR",
+                message: `${symbol} AI-MATIC TP1 handling failed: ${asErrorMessage(err)}`,
+              },
+            ]);
+          }
+        }
+      }
+      if (!isScalpProfile && !isProProfile && !isAiMaticProfile && positionKey) {
+        const partialState = partialExit.get(positionKey);
+        const lastAttempt = partialState?.lastAttempt ?? 0;
+        const price = toNumber(pos.markPrice);
+        const rMultiple =
+          Number.isFinite(price) && Number.isFinite(sl)
+            ? computeRMultiple(entry, sl, price, side)
+            : Number.NaN;
+        if (
+          Number.isFinite(rMultiple) &&
+          rMultiple >= NONSCALP_PARTIAL_TAKE_R &&
+          (!partialState || !partialState.taken) &&
+          now - lastAttempt >= NONSCALP_PARTIAL_COOLDOWN_MS
+        ) {
+          partialExit.set(positionKey, {
+            taken: false,
+            lastAttempt: now,
+          });
+          const sizeRaw = Math.abs(toNumber(pos.size ?? pos.qty));
+          const reduceQty = Math.min(
+            sizeRaw,
+            sizeRaw * NONSCALP_PARTIAL_FRACTION
+          );
+          if (Number.isFinite(reduceQty) && reduceQty > 0) {
+            const closeSide = side === "Buy" ? "Sell" : "Buy";
+            try {
+              if (AUTO_MANUAL_EXITS_ENABLED) {
+                await backend.postJson("/order", {
+                  symbol,
+                  side: closeSide,
+                  qty: reduceQty,
+                  orderType: "Market",
+                  reduceOnly: true,
+                  timeInForce: "IOC",
+                  positionIdx: Number.isFinite(pos.positionIdx)
+                    ? pos.positionIdx
+                    : undefined,
+                });
+              }
+              partialExit.set(positionKey, {
+                taken: true,
+                lastAttempt: now,
+              });
+              const minDistance = resolveMinProtectionDistance(entry);
+              const beSl =
+                side === "Buy"
+                  ? entry - minDistance
+                  : entry + minDistance;
+              await backend.postJson("/protection", {
+                symbol,
+                sl: beSl,
+                positionIdx: Number.isFinite(pos.positionIdx)
+                  ? pos.positionIdx
+                  : undefined,
+              });
+              state.addLogEntries([
+                {
+                  id: `partial:non-scalp:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "STATUS",
+                  message: AUTO_MANUAL_EXITS_ENABLED
+                    ? `${symbol} partial ${Math.round(
+                        NONSCALP_PARTIAL_FRACTION * 100
+                      )}% @ ${NONSCALP_PARTIAL_TAKE_R}R + BE`
+                    : `${symbol} partial exit disabled -> BE only (TP/SL/TS)`,
+                },
+              ]);
+            } catch (err) {
+              state.addLogEntries([
+                {
+                  id: `partial:non-scalp:error:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "ERROR",
+                  message: `${symbol} partial handling failed: ${asErrorMessage(err)}`,
+                },
+              ]);
+            }
+          }
+        }
+      }
+      if (Number.isFinite(currentTrail) && currentTrail > 0) {
+        const isTreeProfile =
+          state.settings.riskMode === "ai-matic-tree" ||
+          state.settings.riskMode === "ai-matic-bbo" ||
+          state.settings.riskMode === "ai-matic";
+        const profileLabel =
+          state.settings.riskMode === "ai-matic-bbo"
+            ? "AI-MATIC-BBO"
+            : "TREE";
+        const price = toNumber(pos.markPrice);
+        if (isTreeProfile && Number.isFinite(price) && price > 0) {
+          const decisionAtr = toNumber(
+            (state.decisions[symbol]?.decision as any)?.coreV2?.atr14
+          );
+          const adaptivePlan = computeTrailingPlan(
+            entry,
+            sl,
+            side,
+            symbol as Symbol,
+            decisionAtr,
+            price
+          );
+          const canWidenTrail =
+            adaptivePlan &&
+            Number.isFinite(adaptivePlan.trailingStop) &&
+            adaptivePlan.trailingStop > (currentTrail as number) * 1.02;
+          const lastAttempt = trailingSync.get(symbol);
+          if (
+            canWidenTrail &&
+            (!lastAttempt || now - lastAttempt >= TS_VERIFY_INTERVAL_MS)
+          ) {
+            trailingSync.set(symbol, now);
+            try {
+              await backend.postJson("/protection", {
+                symbol,
+                trailingStop: adaptivePlan.trailingStop,
+                trailingActivePrice: adaptivePlan.trailingActivePrice,
+                positionIdx: Number.isFinite(pos.positionIdx)
+                  ? pos.positionIdx
+                  : 0,
+              });
+              state.addLogEntries([
+                {
+                  id: `trail:widen:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "STATUS",
+                  message: `${symbol} ${profileLabel} trailing widen ${formatNumber(
+                    currentTrail,
+                    6
+                  )} -> ${formatNumber(adaptivePlan.trailingStop, 6)}`,
+                },
+              ]);
+            } catch (err) {
+              state.addLogEntries([
+                {
+                  id: `trail:widen:error:${symbol}:${now}`,
+                  timestamp: new Date(now).toISOString(),
+                  action: "ERROR",
+                  message: `${symbol} ${profileLabel} trail widen failed: ${asErrorMessage(err)}`,
+                },
+              ]);
+            }
+          }
+        }
+        continue;
+      }
+      const decisionAtr = toNumber(
+        (state.decisions[symbol]?.decision as any)?.coreV2?.atr14
+      );
+      const plan = computeTrailingPlan(
+        entry,
+        sl,
+        side,
+        symbol as Symbol,
+        decisionAtr,
+        toNumber(pos.markPrice)
+      );
+      if (!plan) continue;
+
+      const lastAttempt = trailingSync.get(symbol);
+      if (lastAttempt && now - lastAttempt < TS_VERIFY_INTERVAL_MS) {
+        continue;
+      }
+      trailingSync.set(symbol, now);
+
+      try {
+        await backend.postJson("/protection", {
+          symbol,
+          trailingStop: plan.trailingStop,
+          trailingActivePrice: plan.trailingActivePrice,
+          positionIdx: Number.isFinite(pos.positionIdx)
+            ? pos.positionIdx
+            : 0,
+        });
+        state.addLogEntries([
+          {
+            id: `trail:set:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} TS nastaven | aktivace ${formatNumber(
+              plan.trailingActivePrice ?? Number.NaN,
+              6
+            )} | distance ${formatNumber(
+              plan.trailingStop ?? Number.NaN,
+              6
+            )}`,
+          },
+        ]);
+      } catch (err) {
+        state.addLogEntries([
+          {
+            id: `trail:error:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "ERROR",
+            message: `${symbol} TS update failed: ${asErrorMessage(err)}`,
+          },
+        ]);
+      }
+    }
+  };
+
+  const submitReduceOnlyOrder = async (pos: ActivePosition, qty: number) => {
+    if (!state.authToken) throw new Error("missing_auth_token");
+    if (!Number.isFinite(qty) || qty <= 0) {
+      throw new Error("invalid_reduce_qty");
+    }
+    const closeSide =
+      String(pos.side).toLowerCase() === "buy" ? "Sell" : "Buy";
+    const payload = {
+      symbol: pos.symbol,
+      side: closeSide,
+      qty: Math.abs(qty),
+      orderType: "Market",
+      reduceOnly: true,
+      timeInForce: "IOC",
+      positionIdx: Number.isFinite(pos.positionIdx)
+        ? pos.positionIdx
+        : undefined,
+    };
+    await backend.postJson("/order", payload as unknown as Record<string, unknown>);
+    await refresh();
+    return true;
+  };
+
+  const updateProtection = async (payload: {
+    symbol: string;
+    sl?: number;
+    tp?: number;
+    trailingStop?: number;
+    trailingActivePrice?: number;
+    positionIdx?: number;
+  }) => {
+    await backend.postJson("/protection", payload as unknown as Record<string, unknown>);
+  };
+
+  const handleOliKellaInTrade = async (symbol: string, decision: PriceFeedDecision, now: number) => {
+    const pos = state.openPositions.find((item) => item.symbol === symbol);
+    if (!pos) return;
+    const context = (decision as any)?.oliKella as AiMaticOliKellaContext | undefined;
+    if (!context) return;
+    const sizeRaw = Math.abs(toNumber(pos.size ?? pos.qty));
+    if (!Number.isFinite(sizeRaw) || sizeRaw <= 0) return;
+    const side = pos.side === "Sell" ? "Sell" : "Buy";
+    const entry = toNumber(pos.entryPrice);
+    const sl = toNumber(pos.sl);
+    const price = toNumber(pos.markPrice);
+    if (!Number.isFinite(entry) || !Number.isFinite(sl) || !Number.isFinite(price)) {
+      return;
+    }
+    const core = (decision as any)?.coreV2 as CoreV2Metrics | undefined;
+    const atr = Number.isFinite(context.atr14)
+      ? context.atr14
+      : toNumber(core?.atr14);
+    const ltfTimeframeMin = toNumber(core?.ltfTimeframeMin);
+    const currentTrailingStop = toNumber(pos.currentTrailingStop);
+    const currentTrailingActive = toNumber(pos.trailingActivePrice);
+    const rMultiple = computeRMultiple(entry, sl, price, side);
+    const legId = String(context.trendLegId ?? "NONE");
+    const prevLegId = oliTrendLeg.get(symbol);
+    if (legId !== "NONE" && prevLegId !== legId) {
+      oliTrendLeg.set(symbol, legId);
+      oliExtensionCount.set(symbol, 0);
+      oliScaleInUsed.set(symbol, false);
+    } else if (!prevLegId && legId !== "NONE") {
+      oliTrendLeg.set(symbol, legId);
+    }
+
+    const allowAction = (key: string, cooldownMs: number) => {
+      const storageKey = `${symbol}:${key}`;
+      const last = scalpActionCooldown.get(storageKey) ?? 0;
+      if (now - last < cooldownMs) return false;
+      scalpActionCooldown.set(storageKey, now);
+      return true;
+    };
+
+    const oppositeCross =
+      side === "Buy" ? context.oppositeCrossbackLong : context.oppositeCrossbackShort;
+    const wedgeDrop =
+      side === "Buy" ? context.wedgeDrop.againstLong : context.wedgeDrop.againstShort;
+
+    const exhaustionDirection = context.exhaustion.direction;
+    const exhaustionMatches =
+      context.exhaustion.active &&
+      ((side === "Buy" && exhaustionDirection === "BUY") ||
+        (side === "Sell" && exhaustionDirection === "SELL"));
+    const contextDirection = String(context.direction ?? "NONE").toUpperCase();
+    const trendAgainst =
+      (side === "Buy" && contextDirection === "SELL") ||
+      (side === "Sell" && contextDirection === "BUY");
+    const htfBiasAgainst =
+      side === "Buy"
+        ? core?.htfBias === "BEAR" && Boolean(core?.htfConfirmBear)
+        : core?.htfBias === "BULL" && Boolean(core?.htfConfirmBull);
+    const oppositeSignalSide = side === "Buy" ? "sell" : "buy";
+    const opposingSignalConfirmed =
+      String((decision as any)?.signal?.intent?.side ?? "").toLowerCase() ===
+      oppositeSignalSide;
+    const microBreakAgainst =
+      side === "Buy" ? Boolean(core?.microBreakShort) : Boolean(core?.microBreakLong);
+    const srBreakConfirmed =
+      side === "Buy"
+        ? (Number.isFinite(core?.lastPivotLow) &&
+            Number.isFinite(core?.ltfClose) &&
+            core!.ltfClose < (core!.lastPivotLow as number)) ||
+          (Number.isFinite(core?.htfPivotLow) &&
+            Number.isFinite(core?.ltfClose) &&
+            core!.ltfClose < (core!.htfPivotLow as number))
+        : (Number.isFinite(core?.lastPivotHigh) &&
+            Number.isFinite(core?.ltfClose) &&
+            core!.ltfClose > (core!.lastPivotHigh as number)) ||
+          (Number.isFinite(core?.htfPivotHigh) &&
+            Number.isFinite(core?.ltfClose) &&
+            core!.ltfClose > (core!.htfPivotHigh as number));
+    const poiRejectConfirmed =
+      side === "Buy"
+        ? (Boolean(core?.ltfFakeBreakHigh) || Boolean(core?.ltfSweepBackInside)) &&
+          (Boolean(core?.volumeSpike) || Boolean(core?.ltfRangeExpVolume))
+        : (Boolean(core?.ltfFakeBreakLow) || Boolean(core?.ltfSweepBackInside)) &&
+          (Boolean(core?.volumeSpike) || Boolean(core?.ltfRangeExpVolume));
+    const confirmations: string[] = [];
+    if (trendAgainst) confirmations.push("trend flip");
+    if (htfBiasAgainst) confirmations.push("HTF flip");
+    if (opposingSignalConfirmed) confirmations.push("opposite signal");
+    if (oppositeCross) confirmations.push("opposite EMA cross");
+    if (microBreakAgainst) confirmations.push("micro break against");
+    if (wedgeDrop) confirmations.push("wedge drop");
+    if (exhaustionMatches) confirmations.push("exhaustion");
+    if (srBreakConfirmed) confirmations.push("S/R break");
+    if (poiRejectConfirmed) confirmations.push("POI rejection");
+    const trendChangeConfirmed =
+      (trendAgainst || htfBiasAgainst) &&
+      (oppositeCross || microBreakAgainst || opposingSignalConfirmed);
+    const srOrPoiConfirmed =
+      (srBreakConfirmed || poiRejectConfirmed) &&
+      (oppositeCross || microBreakAgainst || wedgeDrop || exhaustionMatches);
+    const manualExitConfirmed =
+      Boolean(context.gates?.exitConditionsOk) &&
+      confirmations.length >= OLIKELLA_MANUAL_EXIT_MIN_CONFIRMATIONS &&
+      (trendChangeConfirmed || srOrPoiConfirmed);
+    if (
+      manualExitConfirmed &&
+      allowAction("olikella-manual-exit", OLIKELLA_MANUAL_EXIT_COOLDOWN_MS)
+    ) {
+      if (!OLIKELLA_MANUAL_EXIT_ENABLED) {
+        state.addLogEntries([
+          {
+            id: `olikella:manual-exit:disabled:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} OLIkella manual exits disabled (TP/SL/TS only)`,
+          },
+        ]);
+      } else {
+        try {
+          await submitReduceOnlyOrder(pos, sizeRaw);
+          state.addLogEntries([
+            {
+              id: `olikella:manual-exit:${symbol}:${now}`,
+              timestamp: new Date(now).toISOString(),
+              action: "RISK_BLOCK",
+              message: `${symbol} OLIkella manual exit -> ${confirmations.join(" | ")}`,
+            },
+          ]);
+          return;
+        } catch (err) {
+          state.addLogEntries([
+            {
+              id: `olikella:manual-exit:error:${symbol}:${now}`,
+              timestamp: new Date(now).toISOString(),
+              action: "ERROR",
+              message: `${symbol} OLIkella manual exit failed: ${asErrorMessage(err)}`,
+            },
+          ]);
+        }
+      }
+    }
+
+    if (Number.isFinite(rMultiple) && rMultiple >= 1 && allowAction("olikella-be", 20_000)) {
+      const minDistance = resolveMinProtectionDistance(entry, atr);
+      const beSl = side === "Buy" ? entry - minDistance : entry + minDistance;
+      const shouldMove = side === "Buy" ? sl < beSl : sl > beSl;
+      if (shouldMove && Number.isFinite(beSl) && beSl > 0) {
+        try {
+          await updateProtection({
+            symbol,
+            sl: beSl,
+            positionIdx: Number.isFinite(pos.positionIdx)
+              ? pos.positionIdx
+              : undefined,
+          });
+          state.addLogEntries([
+            {
+              id: `olikella:be:${symbol}:${now}`,
+              timestamp: new Date(now).toISOString(),
+              action: "STATUS",
+              message: `${symbol} OLIkella BE move @ >=1R`,
+            },
+          ]);
+        } catch (err) {
+          state.addLogEntries([
+            {
+              id: `olikella:be:error:${symbol}:${now}`,
+              timestamp: new Date(now).toISOString(),
+              action: "ERROR",
+              message: `${symbol} OLIkella BE move failed: ${asErrorMessage(err)}`,
+            },
+          ]);
+        }
+      }
+    }
+
+    if (
+      Number.isFinite(ltfTimeframeMin) &&
+      Math.round(ltfTimeframeMin) === OLIKELLA_TRAIL_TIMEFRAME_MIN &&
+      allowAction("olikella-trail-5m", 20_000)
+    ) {
+      const hasTrailing =
+        Number.isFinite(currentTrailingStop) &&
+        currentTrailingStop > 0 &&
+        Number.isFinite(currentTrailingActive) &&
+        currentTrailingActive > 0;
+      if (!hasTrailing) {
+        const trail = resolveOliKellaTrailConfig({
+          entry,
+          sl,
+          side,
+          atr,
+        });
+        if (trail) {
+          try {
+            await updateProtection({
+              symbol,
+              trailingStop: trail.trailingStop,
+              trailingActivePrice: trail.trailingActivePrice,
+              positionIdx: Number.isFinite(pos.positionIdx)
+                ? pos.positionIdx
+                : undefined,
+            });
+            state.addLogEntries([
+              {
+                id: `olikella:trail:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "STATUS",
+                message: `${symbol} OLIkella trail set (activate 1R | retrace ${(trail.retraceRate * 100).toFixed(2)}%)`,
+              },
+            ]);
+          } catch (err) {
+            state.addLogEntries([
+              {
+                id: `olikella:trail:error:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "ERROR",
+                message: `${symbol} OLIkella trail update failed: ${asErrorMessage(err)}`,
+              },
+            ]);
+          }
+        }
+      }
+    }
+
+    const scaleInUsed = oliScaleInUsed.get(symbol) ?? false;
+    const sameSideSignal =
+      (decision as any)?.signal?.intent?.side === (side === "Buy" ? "buy" : "sell");
+    if (
+      context.canScaleIn &&
+      sameSideSignal &&
+      !scaleInUsed &&
+      Number.isFinite(rMultiple) &&
+      rMultiple >= 1 &&
+      allowAction("olikella-scale-in", 30_000)
+    ) {
+      try {
+        await backend.postJson("/order", {
+          symbol,
+          side,
+          qty: sizeRaw * 0.25,
+          orderType: "Market",
+          reduceOnly: false,
+          timeInForce: "IOC",
+          positionIdx: Number.isFinite(pos.positionIdx)
+            ? pos.positionIdx
+            : undefined,
+        });
+        oliScaleInUsed.set(symbol, true);
+        state.addLogEntries([
+          {
+            id: `olikella:scale-in:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `${symbol} OLIkella scale-in executed (+25%)`,
+          },
+        ]);
+      } catch (err) {
+        state.addLogEntries([
+          {
+            id: `olikella:scale-in:error:${symbol}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "ERROR",
+            message: `${symbol} OLIkella scale-in failed: ${asErrorMessage(err)}`,
+          },
+        ]);
+      }
+    }
+  };
+
+  let retryKey: string | null = null;
+  let stopRetry: (() => void) | null = null;
+
+  const startProtectionRetry = () => {
+    let alive = true;
+    const retryMissingSlProtection = async () => {
+      if (!alive) return;
+      const missing = positionsWithoutActiveSl();
+      if (missing.length === 0) return;
+      const now = clock.now();
+      for (const position of missing) {
+        const symbol = String(position.symbol ?? "").toUpperCase();
+        if (!symbol) continue;
+        const lastAttempt = state.protectionRetryAt.get(symbol) ?? 0;
+        if (now - lastAttempt < PROTECTION_RETRY_INTERVAL_MS) continue;
+        state.protectionRetryAt.set(symbol, now);
+        const sl = resolveProtectionRetryStop(position);
+        if (!Number.isFinite(sl) || sl <= 0) continue;
+        try {
+          await backend.postJson("/protection", {
+            symbol,
+            sl,
+            positionIdx: Number.isFinite(position.positionIdx)
+              ? position.positionIdx
+              : undefined,
+          });
+          state.plannedProtection.set(symbol, { sl, setAt: now });
+          const lastLog = protectionRetryLog.get(symbol) ?? 0;
+          if (now - lastLog >= PROTECTION_RETRY_LOG_TTL_MS) {
+            protectionRetryLog.set(symbol, now);
+            state.addLogEntries([
+              {
+                id: `protection:retry:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "STATUS",
+                message: `${symbol} PROTECTION_RETRY_SL ${formatNumber(sl, 6)}`,
+              },
+            ]);
+          }
+        } catch (err) {
+          const lastLog = protectionRetryLog.get(symbol) ?? 0;
+          if (now - lastLog >= PROTECTION_RETRY_LOG_TTL_MS) {
+            protectionRetryLog.set(symbol, now);
+            state.addLogEntries([
+              {
+                id: `protection:retry:error:${symbol}:${now}`,
+                timestamp: new Date(now).toISOString(),
+                action: "ERROR",
+                message: `${symbol} PROTECTION_RETRY_SL failed: ${asErrorMessage(err)}`,
+              },
+            ]);
+          }
+        }
+      }
+    };
+    const id = clock.setInterval(() => {
+      void retryMissingSlProtection();
+    }, PROTECTION_RETRY_INTERVAL_MS);
+    void retryMissingSlProtection();
+    stopRetry = () => {
+      alive = false;
+      clock.clearInterval(id);
+    };
+  };
+
+  /** Spustí dorovnání chybějících SL, jakmile je backend připojený. */
+  const configure = () => {
+    const nextKey = JSON.stringify([state.apiBase, state.appEnabled, state.authToken]);
+    if (nextKey === retryKey) return;
+    retryKey = nextKey;
+    stopRetry?.();
+    stopRetry = null;
+    if (state.authToken && state.appEnabled) startProtectionRetry();
+  };
+
+  const stop = () => {
+    stopRetry?.();
+    stopRetry = null;
+    retryKey = null;
+  };
+
+  /** Zahodí stav řízení výstupů z předchozího připojení. */
+  const resetSession = () => {
+    scalpActionCooldown.clear();
+    oliExtensionCount.clear();
+    oliTrendLeg.clear();
+    oliScaleInUsed.clear();
+    aiMaticTrailCooldown.clear();
+    aiMaticProgress.clear();
+    partialExit.clear();
+    proPartial.clear();
+    protectionRetryLog.clear();
+  };
+
+  /** Uvolní stav scalpu a OLIkella po zavření poslední nohy symbolu. */
+  const releaseSymbol = (symbol: string) => {
+    scalpActionCooldown.delete(symbol);
+    oliExtensionCount.delete(symbol);
+    oliTrendLeg.delete(symbol);
+    oliScaleInUsed.delete(symbol);
+  };
+
+  return {
+    configure,
+    stop,
+    resetSession,
+    releaseSymbol,
+    protectionGate,
+    computeTrailingPlan,
+    syncTrailingProtection,
+    handleOliKellaInTrade,
+  };
+}
+
+export type TradingProtection = ReturnType<typeof createTradingProtection>;
@@ -0,0 +1,203 @@
+// hooks/tradingProtectionHelpers.ts
+// Konstanty a výpočty ochran pozic: SL/TP, trailing, částečné výstupy.
+import { Symbol } from "../api/types";
+import {
+  MAJOR_SYMBOLS,
+  computeLossStreak,
+  resolveMinProtectionDistance,
+} from "../engine/executionPolicy";
+import type { ClosedPnlRecord } from "./tradingSyncHelpers";
+
+export const PROTECTION_RETRY_INTERVAL_MS = 5_000;
+
+export const PROTECTION_RETRY_LOG_TTL_MS = 30_000;
+export const PROTECTION_ATTACH_GRACE_MS = 8_000;
+export const PROTECTION_SYNC_STALE_MS = 4_000;
+
+export const OLIKELLA_TRAIL_TIMEFRAME_MIN = 5;
+const OLIKELLA_TRAIL_ACTIVATION_R = 1.0;
+const OLIKELLA_TRAIL_RETRACE_BASE_RATE = 0.004;
+const OLIKELLA_TRAIL_RETRACE_MIN_RATE = 0.002;
+const OLIKELLA_TRAIL_RETRACE_MAX_RATE = 0.01;
+const OLIKELLA_TRAIL_RETRACE_ATR_MULT = 0.8;
+export const AUTO_MANUAL_EXITS_ENABLED = false;
+export const OLIKELLA_MANUAL_EXIT_ENABLED = true;
+export const OLIKELLA_MANUAL_EXIT_MIN_CONFIRMATIONS = 2;
+export const OLIKELLA_MANUAL_EXIT_COOLDOWN_MS = 45_000;
+
+export const NONSCALP_PARTIAL_TAKE_R = 1.0;
+export const NONSCALP_PARTIAL_FRACTION = 0.35;
+export const NONSCALP_PARTIAL_COOLDOWN_MS = 60_000;
+
+export const AI_MATIC_TP1_PARTIAL_FRACTION = 0.7;
+
+export const AI_MATIC_TRAIL_ACTIVATE_PCT = 0.01;
+
+const AI_MATIC_BE_MIN_R = 1.0;
+const AI_MATIC_NO_PROGRESS_BARS = 6;
+const AI_MATIC_NO_PROGRESS_MFE_ATR = 0.8;
+export const AI_MATIC_NO_PROGRESS_EXIT_COOLDOWN_MS = 30_000;
+
+export type AiMaticAdaptiveRiskParams = {
+  hardCapPct: number;
+  hardCapAtrMult: number;
+  beMinR: number;
+  noProgressBars: number;
+  noProgressMfeAtr: number;
+};
+
+export type AiMaticProgressState = {
+  openedAtMs: number;
+  entryRisk: number;
+  bestFavorablePrice: number;
+  beMoved: boolean;
+  lastNoProgressExitAttempt: number;
+};
+
+export function resolveAiMaticAdaptiveRiskParams(args: {
+  symbol: string;
+  records: ClosedPnlRecord[] | null | undefined;
+}): AiMaticAdaptiveRiskParams {
+  const isMajor = MAJOR_SYMBOLS.has(args.symbol as Symbol);
+  const base: AiMaticAdaptiveRiskParams = isMajor
+    ? {
+        hardCapPct: 0.017,
+        hardCapAtrMult: 3.0,
+        beMinR: AI_MATIC_BE_MIN_R,
+        noProgressBars: AI_MATIC_NO_PROGRESS_BARS + 1,
+        noProgressMfeAtr: AI_MATIC_NO_PROGRESS_MFE_ATR,
+      }
+    : {
+        hardCapPct: 0.016,
+        hardCapAtrMult: 2.8,
+        beMinR: AI_MATIC_BE_MIN_R - 0.1,
+        noProgressBars: Math.max(3, AI_MATIC_NO_PROGRESS_BARS - 1),
+        noProgressMfeAtr: Math.max(0.55, AI_MATIC_NO_PROGRESS_MFE_ATR - 0.05),
+      };
+  if (!Array.isArray(args.records) || args.records.length === 0) {
+    return base;
+  }
+  const recent = args.records
+    .filter((r) => String(r.symbol ?? "") === args.symbol)
+    .sort((a, b) => b.ts - a.ts)
+    .slice(0, 20);
+  if (!recent.length) return base;
+  const wins = recent.filter((r) => r.pnl > 0).length;
+  const winRate = wins / recent.length;
+  const lossStreak = computeLossStreak(recent, 3);
+
+  if (lossStreak >= 2 || (recent.length >= 8 && winRate < 0.45)) {
+    return {
+      hardCapPct: Math.max(0.012, base.hardCapPct * 0.85),
+      hardCapAtrMult: Math.max(2.0, base.hardCapAtrMult - 0.4),
+      beMinR: 0.8,
+      noProgressBars: Math.max(3, base.noProgressBars - 1),
+      noProgressMfeAtr: Math.max(0.55, base.noProgressMfeAtr - 0.1),
+    };
+  }
+  if (recent.length >= 10 && winRate >= 0.6 && lossStreak === 0) {
+    return {
+      hardCapPct: Math.min(0.022, base.hardCapPct * 1.1),
+      hardCapAtrMult: Math.min(3.6, base.hardCapAtrMult + 0.3),
+      beMinR: 1.1,
+      noProgressBars: Math.min(10, base.noProgressBars + 1),
+      noProgressMfeAtr: Math.min(1.0, base.noProgressMfeAtr + 0.05),
+    };
+  }
+  return base;
+}
+
+const MIN_TRAILING_ACTIVATION_DISTANCE_PCT = 0.005;
+export const TRAIL_ACTIVATION_R_MULTIPLIER = 0.5;
+export const TREE_TRAIL_MIN_TICKS = 5;
+const FALLBACK_TICK_SIZE_BY_SYMBOL: Partial<Record<Symbol, number>> = {
+  BTCUSDT: 0.1,
+  ETHUSDT: 0.01,
+  SOLUSDT: 0.001,
+  ADAUSDT: 0.0001,
+  XRPUSDT: 0.0001,
+  DOGEUSDT: 0.00001,
+  AVAXUSDT: 0.001,
+  XAUTUSDT: 0.01,
+  OPUSDT: 0.0001,
+};
+
+export function resolveTrailingActivationPrice(
+  entry: number,
+  side: "Buy" | "Sell",
+  requestedMove: number,
+  minActivationDistancePct = MIN_TRAILING_ACTIVATION_DISTANCE_PCT
+) {
+  if (!Number.isFinite(entry) || entry <= 0) return Number.NaN;
+  if (!Number.isFinite(requestedMove) || requestedMove <= 0) return Number.NaN;
+  const minMove =
+    Number.isFinite(minActivationDistancePct) && minActivationDistancePct > 0
+      ? entry * minActivationDistancePct
+      : Number.NaN;
+  const move =
+    Number.isFinite(minMove) && minMove > 0
+      ? Math.max(requestedMove, minMove)
+      : requestedMove;
+  const dir = side === "Buy" ? 1 : -1;
+  return entry + dir * move;
+}
+
+export function resolveOliKellaTrailConfig(args: {
+  entry: number;
+  sl: number;
+  side: "Buy" | "Sell";
+  atr?: number;
+}) {
+  const { entry, sl, side, atr } = args;
+  if (!Number.isFinite(entry) || entry <= 0) return null;
+  if (!Number.isFinite(sl) || sl <= 0) return null;
+  const riskDistance = Math.abs(entry - sl);
+  if (!Number.isFinite(riskDistance) || riskDistance <= 0) return null;
+  const minDistance = resolveMinProtectionDistance(entry, atr);
+  const atrRate =
+    Number.isFinite(atr) && (atr as number) > 0
+      ? (atr as number) / entry
+      : Number.NaN;
+  const retraceRateRaw =
+    Number.isFinite(atrRate) && atrRate > 0
+      ? atrRate * OLIKELLA_TRAIL_RETRACE_ATR_MULT
+      : OLIKELLA_TRAIL_RETRACE_BASE_RATE;
+  const retraceRate = Math.min(
+    OLIKELLA_TRAIL_RETRACE_MAX_RATE,
+    Math.max(OLIKELLA_TRAIL_RETRACE_MIN_RATE, retraceRateRaw)
+  );
+  const trailingStop = Math.max(entry * retraceRate, minDistance);
+  const trailingActivePrice = resolveTrailingActivationPrice(
+    entry,
+    side,
+    riskDistance * OLIKELLA_TRAIL_ACTIVATION_R,
+    0
+  );
+  if (!Number.isFinite(trailingStop) || trailingStop <= 0) return null;
+  if (!Number.isFinite(trailingActivePrice) || trailingActivePrice <= 0) return null;
+  return { trailingStop, trailingActivePrice, retraceRate };
+}
+
+export function computeRMultiple(
+  entry: number,
+  sl: number,
+  price: number,
+  side: "Buy" | "Sell"
+) {
+  const risk = Math.abs(entry - sl);
+  if (!Number.isFinite(risk) || risk <= 0) return Number.NaN;
+  const move = side === "Buy" ? price - entry : entry - price;
+  return move / risk;
+}
+
+export function resolveFallbackTickSize(symbol: Symbol) {
+  const tick = FALLBACK_TICK_SIZE_BY_SYMBOL[symbol];
+  return Number.isFinite(tick) && (tick as number) > 0 ? (tick as number) : 0;
+}
+
+export const TRAIL_SYMBOL_MODE: Partial<Record<Symbol, "on" | "off">> = {
+  SOLUSDT: "on",
+  ADAUSDT: "on",
+  BTCUSDT: "on",
+  ETHUSDT: "on",
+};
@@ -0,0 +1,336 @@
+// hooks/tradingScalpFib.ts
+// Fibonacci úrovně, potvrzení a stopy scalp profilu.
+import type { CoreV2Metrics } from "./tradingDecisionHelpers";
+
+const CORE_V2_TOD_MIN_RATIO = 1.1;
+
+const SCALP_FIB_LEVELS = [0.382, 0.5, 0.618] as const;
+const SCALP_FIB_EXT = [0.618, 1.0, 1.618] as const;
+
+const SCALP_PROTECTED_SL_ATR_BUFFER = 0.3;
+const SCALP_SL_ATR_BUFFER = 0.3;
+
+type ScalpFibLevel = "38.2" | "50" | "61.8";
+type ScalpFibExtLevel = "61.8" | "100" | "161.8";
+export type ScalpFibData = {
+  swingHigh: number;
+  swingLow: number;
+  range: number;
+  fib236: number;
+  fib382: number;
+  fib500: number;
+  fib618: number;
+  fib705: number;
+  fib786: number;
+  longEntryZoneLow: number;
+  longEntryZoneHigh: number;
+  shortEntryZoneLow: number;
+  shortEntryZoneHigh: number;
+  trend: "BULL" | "BEAR" | "NONE";
+  valid: boolean;
+};
+
+export type ScalpConfirm = {
+  trendAligned: boolean;
+  pullbackValid: boolean;
+  microBreakValid: boolean;
+  volumeValid: boolean;
+  rangeValid: boolean;
+  rsiValid: boolean;
+  macdValid: boolean;
+  noCompression: boolean;
+  noIndecision: boolean;
+  noRsiAgainst: boolean;
+  score: number;
+  confirmed: boolean;
+};
+
+const resolveScalpSwing = (
+  pivotsHigh: { idx: number; price: number }[],
+  pivotsLow: { idx: number; price: number }[],
+  direction: "BULL" | "BEAR"
+) => {
+  if (!pivotsHigh.length || !pivotsLow.length) return null;
+  if (direction === "BULL") {
+    const lastHigh = pivotsHigh[pivotsHigh.length - 1];
+    const lastLow = [...pivotsLow].reverse().find((p) => p.idx < lastHigh.idx);
+    if (!lastHigh || !lastLow) return null;
+    const range = lastHigh.price - lastLow.price;
+    if (!Number.isFinite(range) || range <= 0) return null;
+    return { high: lastHigh.price, low: lastLow.price, range };
+  }
+  const lastLow = pivotsLow[pivotsLow.length - 1];
+  const lastHigh = [...pivotsHigh].reverse().find((p) => p.idx < lastLow.idx);
+  if (!lastHigh || !lastLow) return null;
+  const range = lastHigh.price - lastLow.price;
+  if (!Number.isFinite(range) || range <= 0) return null;
+  return { high: lastHigh.price, low: lastLow.price, range };
+};
+
+const resolveScalpFibLevels = (
+  swing: { high: number; low: number; range: number },
+  direction: "BULL" | "BEAR"
+) => {
+  const retrace: Record<ScalpFibLevel, number> = {
+    "38.2": Number.NaN,
+    "50": Number.NaN,
+    "61.8": Number.NaN,
+  };
+  const ext: Record<ScalpFibExtLevel, number> = {
+    "61.8": Number.NaN,
+    "100": Number.NaN,
+    "161.8": Number.NaN,
+  };
+  if (direction === "BULL") {
+    retrace["38.2"] = swing.high - swing.range * SCALP_FIB_LEVELS[0];
+    retrace["50"] = swing.high - swing.range * SCALP_FIB_LEVELS[1];
+    retrace["61.8"] = swing.high - swing.range * SCALP_FIB_LEVELS[2];
+    ext["61.8"] = swing.high + swing.range * SCALP_FIB_EXT[0];
+    ext["100"] = swing.high + swing.range * SCALP_FIB_EXT[1];
+    ext["161.8"] = swing.high + swing.range * SCALP_FIB_EXT[2];
+  } else {
+    retrace["38.2"] = swing.low + swing.range * SCALP_FIB_LEVELS[0];
+    retrace["50"] = swing.low + swing.range * SCALP_FIB_LEVELS[1];
+    retrace["61.8"] = swing.low + swing.range * SCALP_FIB_LEVELS[2];
+    ext["61.8"] = swing.low - swing.range * SCALP_FIB_EXT[0];
+    ext["100"] = swing.low - swing.range * SCALP_FIB_EXT[1];
+    ext["161.8"] = swing.low - swing.range * SCALP_FIB_EXT[2];
+  }
+  return { retrace, ext };
+};
+
+const resolveFibHitLevel = (
+  price: number,
+  retrace: Record<ScalpFibLevel, number>,
+  tolerance: number
+): ScalpFibLevel | undefined => {
+  if (!Number.isFinite(price) || !Number.isFinite(tolerance) || tolerance <= 0) {
+    return undefined;
+  }
+  const levels: [ScalpFibLevel, number][] = [
+    ["38.2", retrace["38.2"]],
+    ["50", retrace["50"]],
+    ["61.8", retrace["61.8"]],
+  ];
+  let best: ScalpFibLevel | undefined;
+  let bestDist = Number.POSITIVE_INFINITY;
+  for (const [level, value] of levels) {
+    if (!Number.isFinite(value)) continue;
+    const dist = Math.abs(price - value);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = level;
+    }
+  }
+  if (best && bestDist <= tolerance) return best;
+  return undefined;
+};
+
+const buildScalpFibData = (args: {
+  m15Highs: { idx: number; price: number }[];
+  m15Lows: { idx: number; price: number }[];
+  direction: "BULL" | "BEAR";
+}): ScalpFibData | null => {
+  const swing = resolveScalpSwing(args.m15Highs, args.m15Lows, args.direction);
+  if (!swing) return null;
+  const fib236 =
+    args.direction === "BULL"
+      ? swing.high - 0.236 * swing.range
+      : swing.low + 0.236 * swing.range;
+  const fib382 =
+    args.direction === "BULL"
+      ? swing.high - 0.382 * swing.range
+      : swing.low + 0.382 * swing.range;
+  const fib500 =
+    args.direction === "BULL"
+      ? swing.high - 0.5 * swing.range
+      : swing.low + 0.5 * swing.range;
+  const fib618 =
+    args.direction === "BULL"
+      ? swing.high - 0.618 * swing.range
+      : swing.low + 0.618 * swing.range;
+  const fib705 =
+    args.direction === "BULL"
+      ? swing.high - 0.705 * swing.range
+      : swing.low + 0.705 * swing.range;
+  const fib786 =
+    args.direction === "BULL"
+      ? swing.high - 0.786 * swing.range
+      : swing.low + 0.786 * swing.range;
+  const entryZoneLow = Math.min(fib500, fib705);
+  const entryZoneHigh = Math.max(fib500, fib705);
+  const valid =
+    Number.isFinite(swing.high) &&
+    Number.isFinite(swing.low) &&
+    Number.isFinite(swing.range) &&
+    swing.range > 0;
+  return {
+    swingHigh: swing.high,
+    swingLow: swing.low,
+    range: swing.range,
+    fib236,
+    fib382,
+    fib500,
+    fib618,
+    fib705,
+    fib786,
+    longEntryZoneLow: entryZoneLow,
+    longEntryZoneHigh: entryZoneHigh,
+    shortEntryZoneLow: entryZoneLow,
+    shortEntryZoneHigh: entryZoneHigh,
+    trend: args.direction,
+    valid,
+  };
+};
+
+const resolveScalpConfirmation = (args: {
+  htfBias: "BULL" | "BEAR" | "NONE";
+  pullbackLong: boolean;
+  pullbackShort: boolean;
+  microBreakLong: boolean;
+  microBreakShort: boolean;
+  volumeSpike: boolean;
+  volumeTodRatio: number;
+  ltfRangeExpansionSma: boolean;
+  ltfRangeExpVolume: boolean;
+  ltfRsiNeutral: boolean;
+  ltfMacdHist: number;
+  m15EmaCompression: boolean;
+  m15WickIndecision: boolean;
+  m15OverlapWicky: boolean;
+  ltfCrossRsiAgainst: boolean;
+}): ScalpConfirm => {
+  const trendAligned =
+    (args.pullbackLong && args.htfBias === "BULL") ||
+    (args.pullbackShort && args.htfBias === "BEAR");
+  const pullbackValid = args.pullbackLong || args.pullbackShort;
+  const microBreakValid = args.microBreakLong || args.microBreakShort;
+  const volumeValid =
+    args.volumeSpike ||
+    (Number.isFinite(args.volumeTodRatio) && args.volumeTodRatio >= CORE_V2_TOD_MIN_RATIO);
+  const rangeValid = args.ltfRangeExpansionSma || args.ltfRangeExpVolume;
+  const rsiValid = !args.ltfRsiNeutral;
+  const macdValid = args.pullbackLong
+    ? args.ltfMacdHist > 0
+    : args.pullbackShort
+      ? args.ltfMacdHist < 0
+      : false;
+  const noCompression = !args.m15EmaCompression;
+  const noIndecision = !args.m15WickIndecision && !args.m15OverlapWicky;
+  const noRsiAgainst = !args.ltfCrossRsiAgainst;
+  const scoreFields = [
+    pullbackValid,
+    microBreakValid,
+    volumeValid,
+    rangeValid,
+    rsiValid,
+    macdValid,
+    noCompression,
+    noIndecision,
+    noRsiAgainst,
+  ];
+  const score = scoreFields.filter(Boolean).length;
+  const confirmed =
+    score >= 7 &&
+    trendAligned &&
+    microBreakValid &&
+    volumeValid &&
+    noCompression;
+  return {
+    trendAligned,
+    pullbackValid,
+    microBreakValid,
+    volumeValid,
+    rangeValid,
+    rsiValid,
+    macdValid,
+    noCompression,
+    noIndecision,
+    noRsiAgainst,
+    score,
+    confirmed,
+  };
+};
+
+export const resolveProtectedScalpStop = (
+  core: CoreV2Metrics | undefined,
+  side: "Buy" | "Sell",
+  entry: number,
+  fallbackSl?: number
+) => {
+  if (!core || !Number.isFinite(entry) || entry <= 0) return fallbackSl;
+  const atr = core.atr14;
+  const buffer =
+    Number.isFinite(atr) && atr > 0 ? atr * SCALP_PROTECTED_SL_ATR_BUFFER : 0;
+  const structure =
+    side === "Buy"
+      ? core.lastPivotLow ?? core.pivotLow
+      : core.lastPivotHigh ?? core.pivotHigh;
+  if (Number.isFinite(structure) && structure > 0) {
+    return side === "Buy" ? structure - buffer : structure + buffer;
+  }
+  if (Number.isFinite(atr) && atr > 0) {
+    return side === "Buy" ? entry - atr * 2 : entry + atr * 2;
+  }
+  return fallbackSl;
+};
+
+const resolveScalpFibStop = (
+  entry: number,
+  side: "Buy" | "Sell",
+  fib: ScalpFibData | undefined,
+  atr: number,
+  structure?: number
+) => {
+  if (!fib || !fib.valid || !Number.isFinite(entry) || entry <= 0) return Number.NaN;
+  const buffer =
+    Number.isFinite(atr) && atr > 0 ? atr * SCALP_SL_ATR_BUFFER : 0;
+  let stop =
+    side === "Buy"
+      ? Math.min(fib.fib786, fib.swingLow)
+      : Math.max(fib.fib786, fib.swingHigh);
+  if (!Number.isFinite(stop) || stop <= 0) {
+    stop = Number.isFinite(structure) ? structure : Number.NaN;
+  }
+  if (!Number.isFinite(stop) || stop <= 0) return Number.NaN;
+  const buffered = side === "Buy" ? stop - buffer : stop + buffer;
+  if (!Number.isFinite(buffered) || buffered <= 0) return Number.NaN;
+  if (side === "Buy" && buffered >= entry) return Number.NaN;
+  if (side === "Sell" && buffered <= entry) return Number.NaN;
+  return buffered;
+};
+
+const resolveScalpFibTarget = (
+  entry: number,
+  side: "Buy" | "Sell",
+  fib: ScalpFibData | undefined,
+  core: CoreV2Metrics | undefined
+) => {
+  if (!fib || !fib.valid || !Number.isFinite(entry) || entry <= 0) return Number.NaN;
+  const trendOk = Boolean(core?.m15TrendLongOk || core?.m15TrendShortOk);
+  const trendWeak =
+    Boolean(core?.m15MacdWeak2) ||
+    Boolean(core?.m15MacdWeak3) ||
+    Boolean(core?.m15EmaCompression) ||
+    Boolean(core?.m15WickIndecisionSoft) ||
+    Boolean(core?.m15ImpulseWeak);
+  const extMult = trendWeak ? 0.618 : trendOk ? 1.618 : 1.0;
+  const target =
+    side === "Buy"
+      ? fib.swingHigh + fib.range * extMult
+      : fib.swingLow - fib.range * extMult;
+  if (!Number.isFinite(target) || target <= 0) return Number.NaN;
+  if (side === "Buy" && target <= entry) return Number.NaN;
+  if (side === "Sell" && target >= entry) return Number.NaN;
+  return target;
+};
+
+export const __scalpTest = {
+  resolveScalpSwing,
+  resolveScalpFibLevels,
+  resolveFibHitLevel,
+  buildScalpFibData,
+  resolveScalpConfirmation,
+  resolveScalpFibStop,
+  resolveScalpFibTarget,
+};
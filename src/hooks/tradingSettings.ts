@@ -0,0 +1,302 @@
+// hooks/tradingSettings.ts
+// Výchozí nastavení bota, jeho uložení v localStorage a konfigurace enginu.
+import { Symbol } from "../api/types";
+import {
+  DEFAULT_KELLY_FRACTION,
+  DEFAULT_MAINNET_PER_TRADE_USD,
+  DEFAULT_MAX_RISK_PER_TRADE_CAP,
+  DEFAULT_SIZING_MODEL,
+  DEFAULT_TARGET_DAILY_VOL_PCT,
+  DEFAULT_TESTNET_PER_TRADE_USD,
+  clampPerTradeUsd,
+  normalizeSizingSettings,
+} from "../engine/executionPolicy";
+import {
+  DEFAULT_SELECTED_SYMBOLS,
+  SUPPORTED_SYMBOLS,
+  resolveSelectedSymbols,
+} from "../constants/symbols";
+import type { BotConfig } from "../engine/botEngine";
+import type { AISettings } from "../types";
+import { resolveStrategyId } from "../engine/strategyRegistry";
+
+export type DynamicSymbolsCatalog = {
+  availableSymbols: Symbol[];
+  recommendedSymbols: Symbol[];
+  defaultSelectedSymbols: Symbol[];
+  updatedAt: string;
+};
+
+const SETTINGS_STORAGE_KEY = "ai-matic-settings";
+
+const MAX_OPEN_POSITIONS_CAP = 50000;
+const ORDERS_PER_POSITION = 5;
+const MAX_OPEN_ORDERS_CAP = MAX_OPEN_POSITIONS_CAP * ORDERS_PER_POSITION;
+
+const DEFAULT_AUTO_REFRESH_MINUTES = 3;
+export const EMA_TREND_PERIOD = 200;
+const MIN_EMA_TREND_PERIOD = 10;
+const MAX_EMA_TREND_PERIOD = 500;
+
+export const DEFAULT_SETTINGS: AISettings = {
+  riskMode: "ai-matic",
+  trendGateMode: "follow",
+  pauseOnHighVolatility: false,
+  avoidLowLiquidity: false,
+  useTrendFollowing: true,
+  smcScalpMode: true,
+  useLiquiditySweeps: false,
+  enableHardGates: true,
+  enableSoftGates: true,
+  entryStrictness: "base",
+  useDynamicPositionSizing: true,
+  lockProfitsWithTrail: true,
+  autoRefreshEnabled: false,
+  autoRefreshMinutes: DEFAULT_AUTO_REFRESH_MINUTES,
+  maxOpenPositions: 5,
+  maxOpenOrders: 16,
+  selectedSymbols: [...DEFAULT_SELECTED_SYMBOLS],
+  requireConfirmationInAuto: false,
+  customInstructions: "",
+  customStrategy: "",
+  min24hVolume: 50,
+  minProfitFactor: 1.0,
+  minWinRate: 65,
+  makerFeePct: 0.01,
+  takerFeePct: 0.06,
+  slippageBufferPct: 0.02,
+  perTradeTestnetUsd: DEFAULT_TESTNET_PER_TRADE_USD,
+  perTradeMainnetUsd: DEFAULT_MAINNET_PER_TRADE_USD,
+  sizingModel: DEFAULT_SIZING_MODEL,
+  targetDailyVolPct: DEFAULT_TARGET_DAILY_VOL_PCT,
+  kellyFraction: DEFAULT_KELLY_FRACTION,
+  maxRiskPerTradeCap: DEFAULT_MAX_RISK_PER_TRADE_CAP,
+  emaTrendPeriod: EMA_TREND_PERIOD,
+  serverAutoTrading: false,
+  localStrategyWorker: false,
+};
+
+export const usesLocalStrategyWorker = (settings: AISettings) =>
+  Boolean(settings.localStrategyWorker) && !settings.serverAutoTrading;
+
+export function loadStoredSettings(args?: {
+  allowedSymbols?: Iterable<string> | null;
+  fallbackSymbols?: Iterable<string> | null;
+}): AISettings | null {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return null;
+    const merged = { ...DEFAULT_SETTINGS, ...parsed } as AISettings;
+    merged.riskMode = resolveStrategyId((parsed as any)?.riskMode);
+    if (merged.trendGateMode !== "follow" && merged.trendGateMode !== "adaptive") {
+      merged.trendGateMode = DEFAULT_SETTINGS.trendGateMode;
+    }
+    if (typeof merged.autoRefreshEnabled !== "boolean") {
+      merged.autoRefreshEnabled = DEFAULT_SETTINGS.autoRefreshEnabled;
+    }
+    if (typeof merged.serverAutoTrading !== "boolean") {
+      merged.serverAutoTrading = DEFAULT_SETTINGS.serverAutoTrading;
+    }
+    if (typeof merged.localStrategyWorker !== "boolean") {
+      merged.localStrategyWorker = DEFAULT_SETTINGS.localStrategyWorker;
+    }
+    if (merged.positionMode !== "oneway" && merged.positionMode !== "hedge") {
+      delete merged.positionMode;
+    }
+    if (!Number.isFinite(merged.autoRefreshMinutes)) {
+      merged.autoRefreshMinutes = DEFAULT_SETTINGS.autoRefreshMinutes;
+    } else {
+      merged.autoRefreshMinutes = Math.max(
+        1,
+        Math.round(merged.autoRefreshMinutes)
+      );
+    }
+    if (!Number.isFinite(merged.maxOpenPositions)) {
+      merged.maxOpenPositions = DEFAULT_SETTINGS.maxOpenPositions;
+    } else {
+      merged.maxOpenPositions = Math.min(
+        MAX_OPEN_POSITIONS_CAP,
+        Math.max(0, Math.round(merged.maxOpenPositions))
+      );
+    }
+    if (!Number.isFinite(merged.maxOpenOrders)) {
+      merged.maxOpenOrders = DEFAULT_SETTINGS.maxOpenOrders;
+    } else {
+      merged.maxOpenOrders = Math.min(
+        MAX_OPEN_ORDERS_CAP,
+        Math.max(0, Math.round(merged.maxOpenOrders))
+      );
+    }
+    if (!Number.isFinite(merged.makerFeePct) || merged.makerFeePct < 0) {
+      merged.makerFeePct = DEFAULT_SETTINGS.makerFeePct;
+    }
+    if (!Number.isFinite(merged.takerFeePct) || merged.takerFeePct < 0) {
+      merged.takerFeePct = DEFAULT_SETTINGS.takerFeePct;
+    }
+    if (!Number.isFinite(merged.slippageBufferPct) || merged.slippageBufferPct < 0) {
+      merged.slippageBufferPct = DEFAULT_SETTINGS.slippageBufferPct;
+    }
+    merged.perTradeTestnetUsd = clampPerTradeUsd(
+      merged.perTradeTestnetUsd,
+      DEFAULT_SETTINGS.perTradeTestnetUsd
+    );
+    merged.perTradeMainnetUsd = clampPerTradeUsd(
+      merged.perTradeMainnetUsd,
+      DEFAULT_SETTINGS.perTradeMainnetUsd
+    );
+    Object.assign(merged, normalizeSizingSettings(merged, DEFAULT_SETTINGS));
+    merged.emaTrendPeriod = clampEmaTrendPeriod(
+      merged.emaTrendPeriod,
+      DEFAULT_SETTINGS.emaTrendPeriod ?? EMA_TREND_PERIOD
+    );
+    merged.selectedSymbols = resolveSelectedSymbols(merged.selectedSymbols, {
+      allowedSymbols: args?.allowedSymbols ?? SUPPORTED_SYMBOLS,
+      fallbackSymbols:
+        args?.fallbackSymbols ?? DEFAULT_SETTINGS.selectedSymbols,
+    });
+    return merged;
+  } catch {
+    return null;
+  }
+}
+
+export function persistSettings(settings: AISettings) {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export function clampEmaTrendPeriod(value: unknown, fallback: number) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(MAX_EMA_TREND_PERIOD, Math.max(MIN_EMA_TREND_PERIOD, Math.round(n)));
+}
+
+/** Konfigurace strategie pro lokální engine podle profilu a přísnosti vstupu. */
+export function resolveEngineConfig(settings: AISettings): Partial<BotConfig> {
+  const emaTrendPeriod = clampEmaTrendPeriod(
+    settings.emaTrendPeriod,
+    EMA_TREND_PERIOD
+  );
+  const baseConfig: Partial<BotConfig> = { emaTrendPeriod };
+  const strictness =
+    settings.entryStrictness === "base"
+      ? "ultra"
+      : settings.entryStrictness;
+  if (
+    settings.riskMode === "ai-matic" ||
+    settings.riskMode === "ai-matic-tree"
+  ) {
+    return {
+      ...baseConfig,
+      strategyProfile: "ai-matic-tree",
+      baseTimeframe: "1h",
+      signalTimeframe: "5m",
+      aiMaticMultiTf: true,
+      aiMaticHtfTimeframe: "1h",
+      aiMaticMidTimeframe: "5m",
+      aiMaticEntryTimeframe: "5m",
+      aiMaticExecTimeframe: "5m",
+      entryStrictness: strictness,
+      partialSteps: [
+        { r: 1.0, exitFraction: 0.35 },
+        { r: 2.0, exitFraction: 0.25 },
+      ],
+      adxThreshold: 20,
+      aggressiveAdxThreshold: 28,
+      minAtrFractionOfPrice: 0.0004,
+      atrEntryMultiplier: 1.6,
+      entryStopMode: "swing",
+      entrySwingBackoffAtr: 1.0,
+      swingBackoffAtr: 0.6,
+      liquiditySweepVolumeMult: 1.0,
+      volExpansionAtrMult: 1.15,
+      volExpansionVolMult: 1.1,
+      cooldownBars: 0,
+    };
+  }
+  if (settings.riskMode === "ai-matic-bbo") {
+    return {
+      ...baseConfig,
+      strategyProfile: "ai-matic-bbo",
+      baseTimeframe: "1h",
+      signalTimeframe: "5m",
+      aiMaticMultiTf: true,
+      aiMaticHtfTimeframe: "1h",
+      aiMaticMidTimeframe: "5m",
+      aiMaticEntryTimeframe: "5m",
+      aiMaticExecTimeframe: "5m",
+      entryStrictness: strictness,
+      partialSteps: [
+        { r: 1.0, exitFraction: 0.35 },
+        { r: 2.0, exitFraction: 0.25 },
+      ],
+      adxThreshold: 18,
+      aggressiveAdxThreshold: 25,
+      minAtrFractionOfPrice: 0.0004,
+      atrEntryMultiplier: 1.4,
+      entryStopMode: "swing",
+      entrySwingBackoffAtr: 1.0,
+      swingBackoffAtr: 0.6,
+      liquiditySweepVolumeMult: 1.1,
+      volExpansionAtrMult: 1.15,
+      volExpansionVolMult: 1.2,
+      cooldownBars: 0,
+    };
+  }
+  if (settings.riskMode === "ai-matic-amd") {
+    return {
+      ...baseConfig,
+      strategyProfile: "ai-matic-amd",
+      baseTimeframe: "1h",
+      signalTimeframe: "5m",
+      aiMaticMultiTf: true,
+      aiMaticHtfTimeframe: "1h",
+      aiMaticMidTimeframe: "5m",
+      aiMaticEntryTimeframe: "5m",
+      aiMaticExecTimeframe: "5m",
+      entryStrictness: strictness,
+      cooldownBars: 0,
+    };
+  }
+  if (settings.riskMode === "ai-matic-olikella") {
+    const strictness =
+      settings.entryStrictness === "base"
+        ? "ultra"
+        : settings.entryStrictness;
+    return {
+      ...baseConfig,
+      strategyProfile: "ai-matic-olikella",
+      baseTimeframe: "1h",
+      signalTimeframe: "5m",
+      entryStrictness: strictness,
+      cooldownBars: 0,
+    };
+  }
+  if (settings.riskMode === "ai-matic-x") {
+    return {
+      ...baseConfig,
+      strategyProfile: "ai-matic-x",
+      partialSteps: [
+        { r: 1.0, exitFraction: 0.35 },
+        { r: 2.0, exitFraction: 0.25 },
+      ],
+      cooldownBars: 0,
+    };
+  }
+  if (settings.riskMode === "ai-matic-pro") {
+    return {
+      ...baseConfig,
+      strategyProfile: "ai-matic-pro",
+      baseTimeframe: "1h",
+      signalTimeframe: "5m",
+      entryStrictness: "base",
+      cooldownBars: 0,
+    };
+  }
+  return baseConfig;
+}
@@ -0,0 +1,495 @@
+// hooks/tradingState.ts
+import { Symbol } from "../api/types";
+import { getApiBase } from "../engine/networkConfig";
+import type { CorrelationSnapshot } from "../engine/correlation";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import type { BotConfig } from "../engine/botEngine";
+import { TradingMode } from "../types";
+import {
+  evaluateChecklistPass as evaluateChecklistPassPolicy,
+  type SizingDecision,
+  type TradeStats,
+} from "../engine/executionPolicy";
+import type { EvaluationLatency } from "../engine/strategyWorkerClient";
+import {
+  DEFAULT_SELECTED_SYMBOLS,
+  SUPPORTED_SYMBOLS,
+  filterSupportedSymbols,
+  resolveSelectedSymbols,
+} from "../constants/symbols";
+import type {
+  AISettings,
+  LogEntry,
+  PortfolioState,
+  SystemState,
+  TestnetOrder,
+  TestnetTrade,
+} from "../types";
+import {
+  loadPnlHistory,
+  persistPnlHistory,
+  type AssetPnlMap,
+} from "../lib/pnlHistory";
+import {
+  persistSettings,
+  resolveEngineConfig,
+  type DynamicSymbolsCatalog,
+} from "./tradingSettings";
+import {
+  LOG_DEDUPE_WINDOW_MS,
+  toNumber,
+  type ActivePosition,
+  type ClosedPnlRecord,
+} from "./tradingSyncHelpers";
+import type {
+  AiMaticRetestFallbackState,
+  RelayPauseState,
+} from "./tradingDecisionHelpers";
+
+type TimerHandle = ReturnType<typeof setTimeout>;
+
+/** Čas a časovače controlleru; testy podvrhnou deterministické hodiny. */
+export type TradingClock = {
+  now: () => number;
+  setTimeout: (fn: () => void, ms: number) => TimerHandle;
+  clearTimeout: (id: TimerHandle) => void;
+  setInterval: (fn: () => void, ms: number) => TimerHandle;
+  clearInterval: (id: TimerHandle) => void;
+};
+
+export const systemClock: TradingClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (id) => clearTimeout(id),
+  setInterval: (fn, ms) => setInterval(fn, ms),
+  clearInterval: (id) => clearInterval(id),
+};
+
+export type TradingControllerInputs = {
+  mode?: TradingMode;
+  useTestnet?: boolean;
+  authToken?: string;
+  appEnabled?: boolean;
+};
+
+export type WalletSnapshot = {
+  totalEquity: number;
+  availableBalance: number;
+  totalWalletBalance: number;
+};
+
+export type LastSizing = SizingDecision & {
+  symbol: string;
+  ts: number;
+  basis: "per-trade" | "risk";
+  notional: number;
+};
+
+/** Publikovaná data controlleru; mění se jen přes TradingState.update(). */
+export type TradingView = {
+  positions: ActivePosition[] | null;
+  orders: TestnetOrder[] | null;
+  trades: TestnetTrade[] | null;
+  logEntries: LogEntry[] | null;
+  scanDiagnostics: Record<string, any> | null;
+  assetPnlHistory: AssetPnlMap | null;
+  closedPnlRecords: ClosedPnlRecord[] | null;
+  walletSnapshot: WalletSnapshot | null;
+  ordersError: string | null;
+  systemError: string | null;
+  recentErrors: string[];
+  lastLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  strategyLatency: Record<string, EvaluationLatency>;
+  /** Živá korelační matice ze serveru (engine.correlation v /dashboard). */
+  correlation: CorrelationSnapshot | null;
+  /** Statistiky uzavřených obchodů profilu (journal) pro Kellyho sizing. */
+  tradeStats: TradeStats | null;
+  lastSizing: LastSizing | null;
+};
+
+type TradingStateOptions = {
+  inputs: TradingControllerInputs;
+  settings: AISettings;
+  clock: TradingClock;
+  /** Změnila se publikovaná data. */
+  onChange: () => void;
+  /** Změnily se vstupy, nastavení, katalog symbolů nebo overrides bran. */
+  onConfigure: () => void;
+};
+
+function loadAssetPnlHistory(): AssetPnlMap {
+  const loaded = loadPnlHistory();
+  const next: AssetPnlMap = {};
+  for (const symbol of SUPPORTED_SYMBOLS) {
+    const records = loaded[symbol];
+    if (Array.isArray(records)) next[symbol] = records;
+  }
+  if (Object.keys(next).length !== Object.keys(loaded).length) {
+    persistPnlHistory(next);
+  }
+  return next;
+}
+
+/**
+ * Stav controlleru sdílený mezi moduly: vstupy z aplikace, nastavení, odvozené
+ * hodnoty, publikovaná data a stav vstupů a ochran, který čte víc modulů.
+ * Stav, který patří jen jednomu modulu, drží ten modul sám.
+ */
+export class TradingState implements TradingView {
+  readonly clock: TradingClock;
+  private readonly onChange: () => void;
+  private readonly onConfigure: () => void;
+
+  mode: TradingMode | undefined;
+  useTestnet: boolean;
+  authToken: string | undefined;
+  appEnabled: boolean;
+  settings: AISettings;
+  dynamicSymbols: DynamicSymbolsCatalog | null = null;
+  gateOverrides: Record<string, boolean> = {};
+
+  // Odvozené hodnoty; přepočítá je derive() po změně vstupů nebo nastavení.
+  paperMode = false;
+  apiBase = "";
+  availableSymbols: Symbol[] = [];
+  availableSymbolSet = new Set<string>();
+  defaultSelectedSymbols: Symbol[] = [];
+  activeSymbols: Symbol[] = [];
+  feedSymbols: Symbol[] = [];
+  engineConfig: Partial<BotConfig> = {};
+
+  positions: ActivePosition[] | null = null;
+  orders: TestnetOrder[] | null = null;
+  trades: TestnetTrade[] | null = null;
+  logEntries: LogEntry[] | null = null;
+  scanDiagnostics: Record<string, any> | null = null;
+  assetPnlHistory: AssetPnlMap | null = loadAssetPnlHistory();
+  closedPnlRecords: ClosedPnlRecord[] | null = null;
+  walletSnapshot: WalletSnapshot | null = null;
+  ordersError: string | null = null;
+  systemError: string | null = null;
+  recentErrors: string[] = [];
+  lastLatencyMs: number | null = null;
+  lastSuccessAt: number | null = null;
+  strategyLatency: Record<string, EvaluationLatency> = {};
+  correlation: CorrelationSnapshot | null = null;
+  tradeStats: TradeStats | null = null;
+  lastSizing: LastSizing | null = null;
+
+  // Poslední rozhodnutí strategie per symbol.
+  decisions: Record<string, { decision: PriceFeedDecision; ts: number }> = {};
+  // Vstupy: rozpracované intenty, zámky a časy posledních událostí.
+  readonly intentPending = new Set<string>();
+  readonly entryOrderLock = new Map<string, number>();
+  readonly entryBlockFingerprint = new Map<string, string>();
+  readonly lastIntentBySymbol = new Map<string, number>();
+  readonly lastCloseBySymbol = new Map<string, number>();
+  lastLossBySymbol = new Map<string, number>();
+  readonly leverageBySymbol = new Map<string, number>();
+  readonly symbolTick = new Map<string, number>();
+  readonly symbolOpenPositionPause = new Set<string>();
+  lastAtomicSyncAt = 0;
+  readonly relayPause: RelayPauseState = {
+    paused: false,
+    pausedReason: null,
+    pausedAt: 0,
+    lastCapacityFingerprint: "",
+    forceScanSymbols: new Set<string>(),
+    forceScanReason: null,
+    lastTtlRecheckAt: 0,
+  };
+  // Ochrany naplánované při vstupu, které čte i správa otevřených pozic.
+  readonly plannedProtection = new Map<string, { sl: number; setAt: number }>();
+  readonly protectionRetryAt = new Map<string, number>();
+  readonly trailOffset = new Map<string, number>();
+  readonly proTargets = new Map<
+    string,
+    {
+      t1: number;
+      t2: number;
+      entryPrice: number;
+      side: "Buy" | "Sell";
+      setAt: number;
+    }
+  >();
+  readonly proTrailArmed = new Map<string, boolean>();
+  readonly aiMaticTp1 = new Map<
+    string,
+    {
+      entry: number;
+      tp1: number;
+      tp2: number;
+      side: "Buy" | "Sell";
+      setAt: number;
+      partialFraction?: number;
+    }
+  >();
+  readonly aiMaticSwingState = new Map<
+    string,
+    { tfMin: 5 | 15; beMinR: number; cooldownUntil: number; setAt: number }
+  >();
+  readonly aiMaticRetestFallback = new Map<string, AiMaticRetestFallbackState>();
+  readonly scalpExitState = new Map<
+    string,
+    { mode: "TRAIL" | "TP"; switched: boolean; decidedAt: number }
+  >();
+
+  private readonly logDedupe = new Map<string, number>();
+
+  constructor(opts: TradingStateOptions) {
+    this.clock = opts.clock;
+    this.onChange = opts.onChange;
+    this.onConfigure = opts.onConfigure;
+    this.mode = opts.inputs.mode;
+    this.useTestnet = opts.inputs.useTestnet ?? false;
+    this.authToken = opts.inputs.authToken;
+    this.appEnabled = opts.inputs.appEnabled ?? true;
+    this.settings = opts.settings;
+    this.derive();
+  }
+
+  /** Pozice z posledního snapshotu (prázdné, dokud žádný nepřišel). */
+  get openPositions(): ActivePosition[] {
+    return this.positions ?? [];
+  }
+
+  get openOrders(): TestnetOrder[] {
+    return this.orders ?? [];
+  }
+
+  /** Zapíše změněná publikovaná data a ohlásí změnu odběratelům. */
+  update(patch: Partial<TradingView>) {
+    let changed = false;
+    for (const key of Object.keys(patch) as (keyof TradingView)[]) {
+      if (Object.is(this[key], patch[key])) continue;
+      (this as TradingView)[key] = patch[key] as never;
+      changed = true;
+    }
+    if (changed) this.onChange();
+  }
+
+  /** Vrací true, pokud se vstupy opravdu změnily. */
+  setInputs(next: TradingControllerInputs): boolean {
+    const useTestnet = next.useTestnet ?? false;
+    const appEnabled = next.appEnabled ?? true;
+    if (
+      next.mode === this.mode &&
+      useTestnet === this.useTestnet &&
+      next.authToken === this.authToken &&
+      appEnabled === this.appEnabled
+    ) {
+      return false;
+    }
+    this.mode = next.mode;
+    this.useTestnet = useTestnet;
+    this.authToken = next.authToken;
+    this.appEnabled = appEnabled;
+    this.reconfigure();
+    return true;
+  }
+
+  setSettings(next: AISettings) {
+    if (next === this.settings) return;
+    const prev = this.settings;
+    this.settings = next;
+    persistSettings(next);
+    if (
+      next.maxOpenOrders !== prev.maxOpenOrders ||
+      next.maxOpenPositions !== prev.maxOpenPositions
+    ) {
+      // Blokace vstupu podle kapacity se s novými limity vyhodnotí znovu.
+      this.entryBlockFingerprint.clear();
+    }
+    this.reconfigure();
+  }
+
+  /** Nastavení z dashboardu; symboly omezí na katalog backendu. */
+  updateSettings(next: AISettings) {
+    // Kellyho statistiky patří profilu, po přepnutí se načtou znovu.
+    if (next.riskMode !== this.settings.riskMode) this.update({ tradeStats: null });
+    this.setSettings({
+      ...next,
+      selectedSymbols: resolveSelectedSymbols(next.selectedSymbols, {
+        allowedSymbols: this.availableSymbols,
+        fallbackSymbols: this.defaultSelectedSymbols,
+      }),
+    });
+  }
+
+  setDynamicSymbols(next: DynamicSymbolsCatalog | null) {
+    if (next === this.dynamicSymbols) return;
+    this.dynamicSymbols = next;
+    this.reconfigure();
+  }
+
+  setGateOverrides(overrides: Record<string, boolean>) {
+    this.gateOverrides = { ...overrides };
+    this.reconfigure();
+  }
+
+  isGateEnabled(name: string) {
+    const value = this.gateOverrides[name];
+    return typeof value === "boolean" ? value : true;
+  }
+
+  evaluateChecklistPass(gates: { name: string; ok: boolean; detail?: string }[]) {
+    return evaluateChecklistPassPolicy(gates, this.gateOverrides);
+  }
+
+  /** Přidá záznamy do logu; stejná zpráva v krátkém okně projde jen jednou. */
+  addLogEntries(entries: LogEntry[]) {
+    if (!entries.length) return;
+    const dedupe = this.logDedupe;
+    const now = this.clock.now();
+    const filtered: LogEntry[] = [];
+    for (const entry of entries) {
+      const key = `${entry.action}:${entry.message}`;
+      const last = dedupe.get(key);
+      if (last && now - last < LOG_DEDUPE_WINDOW_MS) continue;
+      dedupe.set(key, now);
+      filtered.push(entry);
+    }
+    if (dedupe.size > 1000) {
+      for (const [key, ts] of dedupe.entries()) {
+        if (now - ts > 60_000) dedupe.delete(key);
+      }
+    }
+    if (!filtered.length) return;
+    const map = new Map((this.logEntries ?? []).map((entry) => [entry.id, entry]));
+    for (const entry of filtered) {
+      map.set(entry.id, entry);
+    }
+    const merged = Array.from(map.values()).sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    );
+    this.update({ logEntries: merged.slice(0, 200) });
+  }
+
+  /** Doplní diagnostiku skenu pro dané symboly, ostatní ponechá. */
+  mergeScanDiagnostics(patch: Record<string, any>) {
+    this.update({ scanDiagnostics: { ...(this.scanDiagnostics ?? {}), ...patch } });
+  }
+
+  recordError(message: string) {
+    this.update({ recentErrors: [message, ...this.recentErrors].slice(0, 5) });
+  }
+
+  /** Zahodí stav vstupů a ochran z předchozího připojení k backendu. */
+  resetSession() {
+    this.intentPending.clear();
+    this.symbolOpenPositionPause.clear();
+    this.relayPause.paused = false;
+    this.relayPause.pausedReason = null;
+    this.relayPause.pausedAt = 0;
+    this.relayPause.lastCapacityFingerprint = "";
+    this.relayPause.forceScanSymbols.clear();
+    this.relayPause.forceScanReason = null;
+    this.relayPause.lastTtlRecheckAt = 0;
+    this.scalpExitState.clear();
+    this.aiMaticTp1.clear();
+    this.aiMaticSwingState.clear();
+    this.aiMaticRetestFallback.clear();
+    this.proTargets.clear();
+    this.proTrailArmed.clear();
+    this.plannedProtection.clear();
+    this.protectionRetryAt.clear();
+    this.leverageBySymbol.clear();
+    this.entryBlockFingerprint.clear();
+    this.lastAtomicSyncAt = 0;
+    this.decisions = {};
+    this.update({ scanDiagnostics: null });
+  }
+
+  systemState(): SystemState {
+    const status = !this.authToken
+      ? "Disconnected"
+      : this.systemError
+        ? "Error"
+        : this.lastSuccessAt
+          ? "Connected"
+          : "Connecting...";
+    return {
+      bybitStatus: status,
+      latency: this.lastLatencyMs ?? Number.NaN,
+      lastError: this.systemError ?? null,
+      recentErrors: this.recentErrors,
+    };
+  }
+
+  portfolioState(): PortfolioState {
+    const wallet = this.walletSnapshot;
+    const positions = this.positions;
+    const totalEquity = wallet?.totalEquity ?? Number.NaN;
+    const availableBalance = wallet?.availableBalance ?? Number.NaN;
+    const totalWalletBalance = wallet?.totalWalletBalance ?? Number.NaN;
+    const openPositions = Array.isArray(positions)
+      ? positions.length
+      : Number.NaN;
+    const allocatedCapital = Array.isArray(positions)
+      ? positions.reduce((sum, p) => {
+          const size = toNumber(p.size ?? p.qty);
+          const entry = toNumber(p.entryPrice);
+          if (!Number.isFinite(size) || !Number.isFinite(entry)) return sum;
+          return sum + Math.abs(size * entry);
+        }, 0)
+      : Number.NaN;
+    const dayAgo = this.clock.now() - 24 * 60 * 60_000;
+    const dailyPnl = Array.isArray(this.closedPnlRecords)
+      ? this.closedPnlRecords.reduce(
+          (sum, r) => (r.ts < dayAgo ? sum : sum + r.pnl),
+          0
+        )
+      : Number.NaN;
+    return {
+      totalEquity,
+      availableBalance,
+      dailyPnl,
+      openPositions,
+      totalCapital: Number.isFinite(totalEquity)
+        ? totalEquity
+        : totalWalletBalance,
+      allocatedCapital,
+      maxAllocatedCapital: totalWalletBalance,
+      peakCapital: totalWalletBalance,
+      currentDrawdown: Number.NaN,
+      maxOpenPositions: this.settings.maxOpenPositions,
+    };
+  }
+
+  private reconfigure() {
+    this.derive();
+    this.onConfigure();
+    this.onChange();
+  }
+
+  private derive() {
+    const catalog = this.dynamicSymbols;
+    this.paperMode = this.mode === TradingMode.PAPER;
+    this.apiBase = getApiBase(Boolean(this.useTestnet), this.paperMode);
+    const dynamicAvailable = filterSupportedSymbols(
+      catalog?.availableSymbols ?? [],
+      catalog?.availableSymbols
+    );
+    this.availableSymbols =
+      dynamicAvailable.length > 0 ? dynamicAvailable : [...SUPPORTED_SYMBOLS];
+    this.availableSymbolSet = new Set(this.availableSymbols);
+    const dynamicDefaults = filterSupportedSymbols(
+      catalog?.defaultSelectedSymbols ?? [],
+      this.availableSymbols
+    );
+    this.defaultSelectedSymbols =
+      dynamicDefaults.length > 0
+        ? dynamicDefaults
+        : [...DEFAULT_SELECTED_SYMBOLS];
+    this.activeSymbols = resolveSelectedSymbols(this.settings.selectedSymbols, {
+      allowedSymbols: this.availableSymbols,
+      fallbackSymbols: this.defaultSelectedSymbols,
+    });
+    this.feedSymbols = this.activeSymbols.includes("BTCUSDT")
+      ? this.activeSymbols
+      : ["BTCUSDT", ...this.activeSymbols];
+    this.engineConfig = resolveEngineConfig(this.settings);
+  }
+}
@@ -0,0 +1,1536 @@
+// hooks/tradingSync.ts
+import { Symbol } from "../api/types";
+import { normalizeCorrelationSnapshot } from "../engine/correlation";
+import type { PriceFeedDecision } from "../engine/priceFeed";
+import { TradingMode } from "../types";
+import {
+  ENTRY_ORDER_LOCK_MS,
+  KELLY_STATS_WINDOW,
+  normalizeSizingSettings,
+  summarizeTradeStats,
+} from "../engine/executionPolicy";
+import { positionLegKey } from "../engine/positionMode";
+import type {
+  StrategyWorkerClient,
+  StrategyWorkerClientOptions,
+} from "../engine/strategyWorkerClient";
+import {
+  DEFAULT_SELECTED_SYMBOLS,
+  SUPPORTED_SYMBOLS,
+  filterSupportedSymbols,
+  resolveSelectedSymbols,
+} from "../constants/symbols";
+import type { LogEntry, TestnetOrder, TestnetTrade } from "../types";
+import {
+  resolveOrderPriceFields,
+  resolveTrailingFields,
+} from "./tradingGuards";
+import { mergePnlRecords, resetPnlHistoryMap } from "../lib/pnlHistory";
+import {
+  usesLocalStrategyWorker,
+  type DynamicSymbolsCatalog,
+} from "./tradingSettings";
+import {
+  AUTO_CANCEL_ENTRY_ORDERS,
+  FAST_POLL_INTERVAL_MS,
+  SLOW_POLL_INTERVAL_MS,
+  STRATEGY_LATENCY_REFRESH_MS,
+  TS_VERIFY_INTERVAL_MS,
+  asErrorMessage,
+  buildEntryFallback,
+  buildPositionWatermarkKey,
+  extractList,
+  formatNumber,
+  isEntryOrder,
+  isProtectionOrderLike,
+  resolveProtectionFromOrders,
+  toEpoch,
+  toIso,
+  toNumber,
+  type ActivePosition,
+  type ClosedPnlRecord,
+  type EntryFallback,
+} from "./tradingSyncHelpers";
+import type { TradingState } from "./tradingState";
+import type { TradingBackend } from "./tradingBackend";
+import type { TradingProtection } from "./tradingProtection";
+import type { TradingDiagnostics } from "./tradingDiagnostics";
+import type { TradingDecisions } from "./tradingDecisions";
+
+/**
+ * Synchronizace s backendem: polling pozic, příkazů a PnL, serverový
+ * auto-trading, feed strategie a heartbeat.
+ */
+export function createTradingSync(
+  state: TradingState,
+  backend: TradingBackend,
+  protection: TradingProtection,
+  diagnostics: TradingDiagnostics,
+  decisions: TradingDecisions,
+  createFeed: (opts: StrategyWorkerClientOptions) => StrategyWorkerClient,
+) {
+  const { clock } = state;
+  const { computeTrailingPlan, syncTrailingProtection, releaseSymbol } =
+    protection;
+  const {
+    queueCapacityRecheck,
+    enforceBtcBiasAlignment,
+    resolveSymbolState,
+    refreshDiagnosticsFromDecisions,
+  } = diagnostics;
+  const { handleDecision } = decisions;
+
+  const allowOrderCancel = true;
+  const allowPositionClose = true;
+
+  let fastPoll = false;
+  let slowPoll = false;
+  let fastOk = false;
+  let slowOk = false;
+  let orderSnapshot = new Map<
+    string,
+    {
+      status: string;
+      qty: number;
+      price: number | null;
+      side: string;
+      symbol: string;
+      orderLinkId?: string;
+    }
+  >();
+  let positionSnapshot = new Map<
+    string,
+    { size: number; side: string; symbol: string }
+  >();
+  const execSeen = new Set<string>();
+  let pnlSeen = new Set<string>();
+  let positionStateSignature = "";
+  let positionSync = { lastEventAt: 0, lastReconcileAt: 0 };
+  const trailWatermark = new Map<
+    string,
+    { high: number; low: number; updatedAt: number }
+  >();
+  const cancelingOrders = new Set<string>();
+  const backendDecisionTs = new Map<string, number>();
+  let feedLog: { env: string; ts: number } | null = null;
+  let strategyWorker: StrategyWorkerClient | null = null;
+  let lastHeartbeat = 0;
+  let serverAutoTradingSynced = false;
+
+  const refreshFast = async () => {
+    if (!state.appEnabled) return;
+    if (fastPoll) return;
+    fastPoll = true;
+
+    const now = clock.now();
+    const [dashboardRes] = await Promise.allSettled([
+      backend.fetchJson("/dashboard", {
+        scope: "fast",
+        riskMode: state.settings.riskMode,
+        symbols: state.feedSymbols.join(","),
+        ordersLimit: "50",
+        executionsLimit: "50",
+      }),
+    ]);
+    const dashboardData =
+      dashboardRes.status === "fulfilled" ? dashboardRes.value ?? {} : null;
+    const dashboardErrors: Record<string, unknown> =
+      dashboardRes.status === "fulfilled" && dashboardData?.errors
+        ? dashboardData.errors
+        : {};
+    const getSectionResult = (key: string): PromiseSettledResult<any> => {
+      if (dashboardRes.status === "rejected") {
+        return { status: "rejected", reason: dashboardRes.reason };
+      }
+      const sectionError = dashboardErrors[key];
+      if (sectionError) {
+        return { status: "rejected", reason: new Error(String(sectionError)) };
+      }
+      return { status: "fulfilled", value: dashboardData?.[key] ?? {} };
+    };
+
+    let sawError = false;
+    const newLogs: LogEntry[] = [];
+    let sawPositionClosed = false;
+    let sawOrderCanceled = false;
+    let sawOrderFilled = false;
+    const positionsRes = getSectionResult("positions");
+    const ordersRes = getSectionResult("orders");
+    const executionsRes = getSectionResult("executions");
+    const ordersSnapshot =
+      ordersRes.status === "fulfilled"
+        ? extractList(ordersRes.value)
+        : [];
+    if (positionsRes.status === "fulfilled" && ordersRes.status === "fulfilled") {
+      state.lastAtomicSyncAt = now;
+    }
+    const entryFallbackByKey =
+      ordersSnapshot.length > 0
+        ? buildEntryFallback(ordersSnapshot)
+        : new Map<string, EntryFallback>();
+
+    if (positionsRes.status === "fulfilled") {
+      const list = extractList(positionsRes.value);
+      const leverageMap = state.leverageBySymbol;
+      list.forEach((p: any) => {
+        const symbol = String(p?.symbol ?? "").toUpperCase();
+        if (!symbol) return;
+        const leverage = toNumber(
+          p?.leverage ??
+            p?.buyLeverage ??
+            p?.sellLeverage ??
+            p?.effectiveLeverage
+        );
+        if (Number.isFinite(leverage) && leverage > 0) {
+          leverageMap.set(symbol, leverage);
+        }
+      });
+      const prevPositions = positionSnapshot;
+      const nextPositions = new Map<
+        string,
+        { size: number; side: string; symbol: string }
+      >();
+      const nextWatermarkKeys = new Set<string>();
+      const next = list
+        .map((p: any) => {
+          const size = toNumber(p?.size ?? p?.qty);
+          if (!Number.isFinite(size) || size <= 0) return null;
+          const sideRaw = String(p?.side ?? "");
+          const side =
+            sideRaw.toLowerCase() === "buy" ? "Buy" : "Sell";
+          const symbol = String(p?.symbol ?? "");
+          const positionIdxRaw = toNumber(p?.positionIdx);
+          const positionIdx = Number.isFinite(positionIdxRaw)
+            ? positionIdxRaw
+            : undefined;
+          const entryPrice = toNumber(
+            p?.entryPrice ?? p?.avgEntryPrice ?? p?.avgPrice
+          );
+          const unrealized = toNumber(
+            p?.unrealisedPnl ?? p?.unrealizedPnl
+          );
+          const openEpoch = toEpoch(p?.openTime);
+          const updatedEpoch = toEpoch(p?.updatedTime ?? p?.updated_at);
+          const openedAt = Number.isFinite(openEpoch)
+            ? new Date(openEpoch).toISOString()
+            : "";
+          const updatedAt = Number.isFinite(updatedEpoch)
+            ? new Date(updatedEpoch).toISOString()
+            : "";
+          const triggerFromPos = toNumber(
+            p?.triggerPrice ?? p?.trigger_price
+          );
+          let sl = toNumber(p?.stopLoss ?? p?.sl);
+          let tp = toNumber(p?.takeProfit ?? p?.tp);
+          const trailingActiveRaw = toNumber(
+            p?.trailingActivePrice ?? p?.activePrice ?? p?.activationPrice
+          );
+          const markPrice = toNumber(
+            p?.markPrice ?? p?.lastPrice ?? p?.indexPrice
+          );
+          const trailingStop = toNumber(p?.trailingStop);
+          const trailingStopDistance = toNumber(p?.trailingStopDistance);
+          const trailingStopPrice = toNumber(p?.trailingStopPrice);
+          const trailPrice = toNumber(p?.trailPrice);
+          const fallback =
+            entryFallbackByKey.get(`${symbol}:${side}`) ?? null;
+          const triggerPrice = Number.isFinite(triggerFromPos)
+            ? triggerFromPos
+            : fallback?.triggerPrice;
+          const resolvedEntry = Number.isFinite(entryPrice)
+            ? entryPrice
+            : Number.isFinite(triggerPrice)
+              ? triggerPrice
+              : Number.isFinite(fallback?.price)
+                ? (fallback?.price as number)
+                : Number.NaN;
+          const protectionFallback = resolveProtectionFromOrders({
+            orders: ordersSnapshot,
+            symbol,
+            positionSide: side,
+            entryPrice: resolvedEntry,
+            positionIdx,
+          });
+          if (
+            (!Number.isFinite(sl) || sl <= 0) &&
+            Number.isFinite(protectionFallback.sl) &&
+            protectionFallback.sl > 0
+          ) {
+            sl = protectionFallback.sl;
+          }
+          if (
+            (!Number.isFinite(tp) || tp <= 0) &&
+            Number.isFinite(protectionFallback.tp) &&
+            protectionFallback.tp > 0
+          ) {
+            tp = protectionFallback.tp;
+          }
+          if (Number.isFinite(sl) && sl > 0) {
+            state.plannedProtection.set(symbol.toUpperCase(), {
+              sl,
+              setAt: now,
+            });
+            state.protectionRetryAt.delete(symbol.toUpperCase());
+          }
+          const trailPlan =
+            Number.isFinite(resolvedEntry) &&
+            Number.isFinite(sl) &&
+            sl > 0
+              ? computeTrailingPlan(
+                  resolvedEntry,
+                  sl,
+                  side === "Sell" ? "Sell" : "Buy",
+                  symbol as Symbol,
+                  toNumber((state.decisions[symbol]?.decision as any)?.coreV2?.atr14),
+                  markPrice
+                )
+              : null;
+          const trailingActivePrice = Number.isFinite(trailingActiveRaw)
+            ? trailingActiveRaw
+            : trailPlan?.trailingActivePrice;
+          const watermarkKey = buildPositionWatermarkKey(
+            symbol,
+            side,
+            positionIdx
+          );
+          const prevWatermark = trailWatermark.get(watermarkKey);
+          const seedPriceRaw = Number.isFinite(markPrice) && markPrice > 0
+            ? markPrice
+            : resolvedEntry;
+          const seedPrice = Number.isFinite(seedPriceRaw) && seedPriceRaw > 0
+            ? seedPriceRaw
+            : Number.NaN;
+          const highWatermark = Number.isFinite(seedPrice)
+            ? Math.max(
+                Number.isFinite(prevWatermark?.high)
+                  ? (prevWatermark?.high as number)
+                  : seedPrice,
+                seedPrice
+              )
+            : Number.NaN;
+          const lowWatermark = Number.isFinite(seedPrice)
+            ? Math.min(
+                Number.isFinite(prevWatermark?.low)
+                  ? (prevWatermark?.low as number)
+                  : seedPrice,
+                seedPrice
+              )
+            : Number.NaN;
+          if (Number.isFinite(highWatermark) && Number.isFinite(lowWatermark)) {
+            trailWatermark.set(watermarkKey, {
+              high: highWatermark,
+              low: lowWatermark,
+              updatedAt: now,
+            });
+            nextWatermarkKeys.add(watermarkKey);
+          }
+          const trailingFields = resolveTrailingFields({
+            side,
+            trailingStop,
+            trailingStopDistance,
+            trailingStopPrice,
+            trailPrice,
+            highWatermark,
+            lowWatermark,
+          });
+          const trailingDistance = trailingFields.trailingDistance;
+          const trailStopPrice = trailingFields.trailStopPrice;
+          const rrr =
+            Number.isFinite(resolvedEntry) &&
+            Number.isFinite(sl) &&
+            Number.isFinite(tp) &&
+            resolvedEntry !== sl
+              ? Math.abs(tp - resolvedEntry) /
+                Math.abs(resolvedEntry - sl)
+              : Number.NaN;
+          
+          // Calculate Breakeven Status
+          const isBreakeven = side === "Buy" 
+            ? Number.isFinite(sl) && sl >= resolvedEntry
+            : Number.isFinite(sl) && sl <= resolvedEntry;
+
+          // Klíč nohy (symbol + strana): v hedge režimu má symbol dvě pozice.
+          nextPositions.set(positionLegKey({ symbol, side, positionIdx }), {
+            size,
+            side,
+            symbol,
+          });
+          return {
+            positionId: String(p?.positionId ?? `${p?.symbol}-${sideRaw}`),
+            id: String(p?.positionId ?? ""),
+            symbol,
+            side,
+            qty: size,
+            size,
+            entryPrice: Number.isFinite(resolvedEntry)
+              ? resolvedEntry
+              : Number.NaN,
+            triggerPrice: Number.isFinite(triggerPrice)
+              ? triggerPrice
+              : undefined,
+            sl: Number.isFinite(sl) ? sl : undefined,
+            tp: Number.isFinite(tp) ? tp : undefined,
+            trailingActivePrice: Number.isFinite(trailingActivePrice)
+              ? trailingActivePrice
+              : undefined,
+            markPrice: Number.isFinite(markPrice) ? markPrice : undefined,
+            trailingDistance,
+            trailStopPrice:
+              Number.isFinite(trailStopPrice) && (trailStopPrice as number) > 0
+                ? (trailStopPrice as number)
+                : undefined,
+            trailingIsActive:
+              Number.isFinite(trailingActivePrice) &&
+              trailingActivePrice > 0 &&
+              Number.isFinite(markPrice) &&
+              (side === "Buy"
+                ? markPrice >= trailingActivePrice
+                : markPrice <= trailingActivePrice),
+            highWatermark:
+              Number.isFinite(highWatermark) && highWatermark > 0
+                ? highWatermark
+                : undefined,
+            lowWatermark:
+              Number.isFinite(lowWatermark) && lowWatermark > 0
+                ? lowWatermark
+                : undefined,
+            currentTrailingStop:
+              Number.isFinite(trailingDistance) && trailingDistance > 0
+                ? trailingDistance
+                : undefined,
+            trailPlanned: Boolean(trailPlan),
+            unrealizedPnl: Number.isFinite(unrealized)
+              ? unrealized
+              : Number.NaN,
+            openedAt: openedAt || "",
+            rrr: Number.isFinite(rrr) ? rrr : undefined,
+            lastUpdateReason: String(p?.lastUpdateReason ?? "") || undefined,
+            timestamp: updatedAt || openedAt || "",
+            env: state.useTestnet ? "testnet" : "mainnet",
+            positionIdx,
+            isBreakeven, // Pass to UI
+          } satisfies ActivePosition;
+        })
+        .filter((p: ActivePosition | null): p is ActivePosition => Boolean(p));
+      for (const key of Array.from(trailWatermark.keys())) {
+        if (!nextWatermarkKeys.has(key)) {
+          trailWatermark.delete(key);
+        }
+      }
+      const nextPositionSignature = Array.from(nextPositions.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([legKey, leg]) => `${legKey}:${formatNumber(leg.size, 8)}`)
+        .join("|");
+      if (nextPositionSignature !== positionStateSignature) {
+        positionStateSignature = nextPositionSignature;
+        state.entryBlockFingerprint.clear();
+      }
+      state.update({ positions: next, lastSuccessAt: now });
+      void syncTrailingProtection(next);
+      const pausedByOpenPosition = state.symbolOpenPositionPause;
+      const openSymbols = new Set(
+        Array.from(nextPositions.values(), (pos) => pos.symbol)
+      );
+      for (const symbol of openSymbols) {
+        pausedByOpenPosition.add(symbol);
+      }
+      for (const symbol of Array.from(pausedByOpenPosition)) {
+        if (openSymbols.has(symbol)) continue;
+        pausedByOpenPosition.delete(symbol);
+        newLogs.push({
+          id: `position-flat:${symbol}:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `${symbol} POSITION_FLAT -> relay resume`,
+        });
+      }
+
+      for (const [legKey, nextPos] of nextPositions.entries()) {
+        const symbol = nextPos.symbol;
+        const prev = prevPositions.get(legKey);
+        if (!prev) {
+          newLogs.push({
+            id: `pos-open:${legKey}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `POSITION OPEN ${symbol} ${nextPos.side} size ${formatNumber(
+              nextPos.size,
+              4
+            )}`,
+          });
+          continue;
+        }
+        if (Number.isFinite(prev.size) && prev.size !== nextPos.size) {
+          newLogs.push({
+            id: `pos-size:${legKey}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `POSITION SIZE ${symbol} ${formatNumber(
+              prev.size,
+              4
+            )} → ${formatNumber(nextPos.size, 4)}`,
+          });
+        }
+      }
+      for (const [legKey, prevPos] of prevPositions.entries()) {
+        if (!nextPositions.has(legKey)) {
+          const symbol = prevPos.symbol;
+          sawPositionClosed = true;
+          state.lastCloseBySymbol.set(symbol, now);
+          // Stav správy obchodu je po symbolu; druhá hedge noha ho drží.
+          if (!openSymbols.has(symbol)) {
+            state.scalpExitState.delete(symbol);
+            releaseSymbol(symbol);
+          }
+          newLogs.push({
+            id: `pos-close:${legKey}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `POSITION CLOSED ${symbol} ${prevPos.side} size ${formatNumber(
+              prevPos.size,
+              4
+            )}`,
+          });
+        }
+      }
+      positionSnapshot = nextPositions;
+    }
+
+    if (ordersRes.status === "fulfilled") {
+      const list = extractList(ordersRes.value);
+      const prevOrders = orderSnapshot;
+      const nextOrders = new Map<
+        string,
+        {
+          status: string;
+          qty: number;
+          price: number | null;
+          side: string;
+          symbol: string;
+          orderLinkId?: string;
+        }
+      >();
+      const mapped = list
+        .map((o: any) => {
+          const qty = toNumber(o?.qty ?? o?.orderQty ?? o?.leavesQty);
+          const priceRaw = toNumber(o?.price);
+          const triggerPriceRaw = toNumber(o?.triggerPrice ?? o?.trigger_price);
+          const priceFields = resolveOrderPriceFields(priceRaw, triggerPriceRaw);
+          const orderId = String(o?.orderId ?? o?.orderID ?? o?.id ?? "");
+          const orderLinkId = String(
+            o?.orderLinkId ?? o?.order_link_id ?? o?.orderLinkID ?? ""
+          );
+          const symbol = String(o?.symbol ?? "");
+          const side = String(o?.side ?? "Buy");
+          const status = String(o?.orderStatus ?? o?.order_status ?? o?.status ?? "");
+          const orderType = String(o?.orderType ?? o?.order_type ?? "");
+          const stopOrderType = String(o?.stopOrderType ?? o?.stop_order_type ?? "");
+          const orderFilter = String(o?.orderFilter ?? o?.order_filter ?? "");
+          const reduceOnly = Boolean(o?.reduceOnly ?? o?.reduce_only ?? o?.reduce);
+          const entry = {
+            orderId,
+            orderLinkId: orderLinkId || undefined,
+            symbol,
+            side: side as "Buy" | "Sell",
+            qty: Number.isFinite(qty) ? qty : Number.NaN,
+            price: priceFields.price,
+            triggerPrice: priceFields.triggerPrice,
+            shownPrice: priceFields.shownPrice,
+            orderType: orderType || undefined,
+            stopOrderType: stopOrderType || undefined,
+            orderFilter: orderFilter || undefined,
+            reduceOnly,
+            status,
+            createdTime: toIso(o?.createdTime ?? o?.created_at) || "",
+          } as TestnetOrder;
+          if (orderId || orderLinkId) {
+            nextOrders.set(orderId || orderLinkId, {
+              status,
+              qty: Number.isFinite(qty) ? qty : Number.NaN,
+              price: priceFields.shownPrice,
+              side,
+              symbol,
+              orderLinkId: orderLinkId || undefined,
+            });
+          }
+          return entry;
+        })
+        .filter((o: TestnetOrder) => Boolean(o.orderId || o.orderLinkId));
+      const isProtectionOrder = (order: TestnetOrder) => {
+        return isProtectionOrderLike(order);
+      };
+      const isTriggerEntryOrder = (order: TestnetOrder) => {
+        const filter = String(order.orderFilter ?? "").toLowerCase();
+        const trigger = toNumber(order.triggerPrice);
+        return filter === "stoporder" || (Number.isFinite(trigger) && trigger > 0);
+      };
+      const isNewEntryOrder = (order: TestnetOrder) => {
+        if (isProtectionOrder(order)) return false;
+        const status = String(order.status ?? "").toLowerCase();
+        return status === "new" || status === "created";
+      };
+      const latestNewBySymbol = new Map<
+        string,
+        { order: TestnetOrder; ts: number }
+      >();
+      for (const order of mapped) {
+        if (!isNewEntryOrder(order)) continue;
+        const ts = toEpoch(order.createdTime);
+        const resolvedTs = Number.isFinite(ts) ? ts : 0;
+        const prev = latestNewBySymbol.get(order.symbol);
+        if (!prev || resolvedTs >= prev.ts) {
+          latestNewBySymbol.set(order.symbol, {
+            order,
+            ts: resolvedTs,
+          });
+        }
+      }
+      const latestNewIds = new Map<
+        string,
+        { orderId: string; orderLinkId?: string }
+      >();
+      for (const [symbol, data] of latestNewBySymbol.entries()) {
+        latestNewIds.set(symbol, {
+          orderId: data.order.orderId,
+          orderLinkId: data.order.orderLinkId,
+        });
+      }
+      const next = AUTO_CANCEL_ENTRY_ORDERS
+        ? mapped.filter((order) => {
+            if (!isNewEntryOrder(order)) return true;
+            if (isTriggerEntryOrder(order)) return true;
+            const latest = latestNewIds.get(order.symbol);
+            if (!latest) return true;
+            return (
+              (latest.orderId && order.orderId === latest.orderId) ||
+              (latest.orderLinkId && order.orderLinkId === latest.orderLinkId)
+            );
+          })
+        : mapped;
+      state.update({ orders: next, ordersError: null, lastSuccessAt: now });
+      const activeEntrySymbols = new Set(
+        next
+          .filter((order) => isEntryOrder(order))
+          .map((order) => String(order.symbol ?? ""))
+          .filter(Boolean)
+      );
+      for (const [symbol, ts] of state.entryOrderLock.entries()) {
+        const hasEntry = activeEntrySymbols.has(symbol);
+        const hasPending = state.intentPending.has(symbol);
+        const hasPos = state.openPositions.some(
+          (p) => String(p.symbol ?? "") === symbol
+        );
+        if (!hasEntry && !hasPending && !hasPos) {
+          state.entryOrderLock.delete(symbol);
+        } else if (!hasEntry && !hasPos && now - ts >= ENTRY_ORDER_LOCK_MS) {
+          state.entryOrderLock.delete(symbol);
+        }
+      }
+      const cancelTargets =
+        AUTO_CANCEL_ENTRY_ORDERS && state.authToken
+          ? mapped.filter((order) => {
+              if (!isNewEntryOrder(order)) return false;
+              if (isTriggerEntryOrder(order)) return false;
+              const latest = latestNewIds.get(order.symbol);
+              if (!latest) return false;
+              const isLatest =
+                (latest.orderId && order.orderId === latest.orderId) ||
+                (latest.orderLinkId &&
+                  order.orderLinkId === latest.orderLinkId);
+              return !isLatest;
+            })
+          : [];
+      if (cancelTargets.length && AUTO_CANCEL_ENTRY_ORDERS) {
+        void (async () => {
+          for (const order of cancelTargets) {
+            const key = order.orderId || order.orderLinkId;
+            if (!key || cancelingOrders.has(key)) continue;
+            cancelingOrders.add(key);
+            try {
+              const res = await backend.http(`${state.apiBase}/cancel`, {
+                method: "POST",
+                headers: {
+                  "Content-Type": "application/json",
+                  Authorization: `Bearer ${state.authToken}`,
+                  "X-Auth-Token": state.authToken,
+                },
+                body: JSON.stringify({
+                  symbol: order.symbol,
+                  orderId: order.orderId || undefined,
+                  orderLinkId: order.orderLinkId || undefined,
+                }),
+              });
+              const json = await res.json().catch(() => ({}));
+              if (res.ok && json?.ok !== false) {
+                state.addLogEntries([
+                  {
+                    id: `order-prune:${key}:${clock.now()}`,
+                    timestamp: new Date(clock.now()).toISOString(),
+                    action: "STATUS",
+                    message: `ORDER PRUNE (NEW) ${order.symbol} ${order.side} ${key}`,
+                  },
+                ]);
+              }
+            } catch {
+              // ignore cancel errors in enforcement loop
+            } finally {
+              cancelingOrders.delete(key);
+            }
+          }
+        })();
+      }
+
+      for (const [orderId, nextOrder] of nextOrders.entries()) {
+        const prev = prevOrders.get(orderId);
+        if (!prev) {
+          newLogs.push({
+            id: `order-new:${orderId}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `ORDER NEW ${nextOrder.symbol} ${nextOrder.side} ${formatNumber(
+              nextOrder.qty,
+              4
+            )} @ ${nextOrder.price ?? "mkt"} | ${nextOrder.status}`,
+          });
+          continue;
+        }
+        if (prev.status !== nextOrder.status) {
+          const nextStatus = String(nextOrder.status ?? "").toLowerCase();
+          if (nextStatus.includes("cancel")) {
+            sawOrderCanceled = true;
+          }
+          if (nextStatus.includes("filled")) {
+            sawOrderFilled = true;
+          }
+          newLogs.push({
+            id: `order-status:${orderId}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `ORDER STATUS ${nextOrder.symbol} ${prev.status} → ${nextOrder.status}`,
+          });
+        }
+      }
+      for (const [orderId, prevOrder] of prevOrders.entries()) {
+        if (!nextOrders.has(orderId)) {
+          const prevStatus = String(prevOrder.status ?? "").toLowerCase();
+          if (prevStatus.includes("cancel")) {
+            sawOrderCanceled = true;
+          }
+          if (prevStatus.includes("filled")) {
+            sawOrderFilled = true;
+          }
+          newLogs.push({
+            id: `order-closed:${orderId}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "STATUS",
+            message: `ORDER CLOSED ${prevOrder.symbol} ${prevOrder.side} ${formatNumber(
+              prevOrder.qty,
+              4
+            )} | ${prevOrder.status}`,
+          });
+        }
+      }
+      orderSnapshot = nextOrders;
+      if (positionsRes.status === "fulfilled") {
+        void enforceBtcBiasAlignment(now);
+      }
+    } else {
+      const msg = asErrorMessage(ordersRes.reason);
+      state.update({ ordersError: msg, systemError: msg });
+      state.recordError(msg);
+      sawError = true;
+    }
+
+    if (executionsRes.status === "fulfilled") {
+      const list = extractList(executionsRes.value);
+      const nextTrades = list.map((t: any) => {
+        const price = toNumber(t?.execPrice ?? t?.price);
+        const qty = toNumber(t?.execQty ?? t?.qty);
+        const value = toNumber(t?.execValue ?? t?.value);
+        const fee = toNumber(t?.execFee ?? t?.fee);
+        const execTimeMs = toNumber(
+          t?.execTime ?? t?.transactTime ?? t?.createdTime
+        );
+        const tradeId = String(t?.execId ?? t?.tradeId ?? "").trim();
+        const orderId = String(t?.orderId ?? t?.orderID ?? "").trim();
+        const orderLinkId = String(
+          t?.orderLinkId ?? t?.orderLinkID ?? t?.clOrdId ?? ""
+        ).trim();
+        const isMaker =
+          typeof t?.isMaker === "boolean"
+            ? t.isMaker
+            : String(t?.lastLiquidityInd ?? "")
+                .toLowerCase()
+                .includes("maker")
+              ? true
+              : String(t?.lastLiquidityInd ?? "")
+                  .toLowerCase()
+                  .includes("taker")
+                ? false
+                : undefined;
+        const reduceOnly = Boolean(
+          t?.reduceOnly ?? t?.reduce_only ?? t?.reduce
+        );
+        return {
+          id: tradeId || `${orderId || "order"}:${execTimeMs || clock.now()}`,
+          tradeId: tradeId || undefined,
+          orderId: orderId || undefined,
+          orderLinkId: orderLinkId || undefined,
+          symbol: String(t?.symbol ?? ""),
+          side: (t?.side ?? "Buy") as "Buy" | "Sell",
+          price: Number.isFinite(price) ? price : Number.NaN,
+          qty: Number.isFinite(qty) ? qty : Number.NaN,
+          value: Number.isFinite(value) ? value : Number.NaN,
+          fee: Number.isFinite(fee) ? fee : Number.NaN,
+          execType: String(t?.execType ?? t?.exec_type ?? "") || undefined,
+          reduceOnly,
+          liquidity:
+            typeof isMaker === "boolean"
+              ? isMaker
+                ? "maker"
+                : "taker"
+              : "unknown",
+          execTimeMs: Number.isFinite(execTimeMs) ? execTimeMs : undefined,
+          time: toIso(t?.execTime ?? t?.transactTime ?? t?.createdTime) || "",
+        } as TestnetTrade;
+      });
+      state.update({ trades: nextTrades });
+      const tradeLogs = list
+        .map((t: any) => {
+          const timestamp = toIso(
+            t?.execTime ?? t?.transactTime ?? t?.createdTime
+          );
+          if (!timestamp) return null;
+          const symbol = String(t?.symbol ?? "");
+          const side = String(t?.side ?? "");
+          const qty = toNumber(t?.execQty ?? t?.qty);
+          const price = toNumber(t?.execPrice ?? t?.price);
+          const value = toNumber(t?.execValue ?? t?.value);
+          const fee = toNumber(t?.execFee ?? t?.fee);
+          const execType = String(t?.execType ?? t?.exec_type ?? "");
+          const orderId = String(t?.orderId ?? t?.orderID ?? "");
+          const orderLinkId = String(
+            t?.orderLinkId ?? t?.orderLinkID ?? t?.clOrdId ?? ""
+          );
+          const isMaker =
+            typeof t?.isMaker === "boolean" ? t.isMaker : undefined;
+
+          const parts: string[] = [];
+          if (
+            symbol &&
+            side &&
+            Number.isFinite(qty) &&
+            Number.isFinite(price)
+          ) {
+            parts.push(
+              `${symbol} ${side} ${formatNumber(qty, 4)} @ ${formatNumber(
+                price,
+                6
+              )}`
+            );
+          } else if (symbol && side) {
+            parts.push(`${symbol} ${side}`);
+          }
+          if (Number.isFinite(value)) {
+            parts.push(`value ${formatNumber(value, 4)}`);
+          }
+          if (Number.isFinite(fee)) {
+            parts.push(`fee ${formatNumber(fee, 4)}`);
+          }
+          if (execType) parts.push(`type ${execType}`);
+          if (orderId) parts.push(`order ${orderId}`);
+          if (orderLinkId) parts.push(`link ${orderLinkId}`);
+          if (typeof isMaker === "boolean") {
+            parts.push(isMaker ? "maker" : "taker");
+          }
+
+          const message = parts.filter(Boolean).join(" | ");
+          if (!message) return null;
+          const id = String(
+            t?.execId ?? t?.tradeId ?? `${symbol}-${timestamp}`
+          );
+          if (execSeen.has(id)) return null;
+          execSeen.add(id);
+          return {
+            id,
+            timestamp,
+            action: "SYSTEM",
+            message,
+          } as LogEntry;
+        })
+        .filter((entry: LogEntry | null): entry is LogEntry => Boolean(entry));
+      if (tradeLogs.length > 0) {
+        positionSync.lastEventAt = now;
+        sawOrderFilled = true;
+      }
+      if (tradeLogs.length) {
+        state.addLogEntries(tradeLogs);
+      } else {
+        if (!state.logEntries) state.update({ logEntries: [] });
+      }
+      state.update({ lastSuccessAt: now });
+    } else {
+      const msg = asErrorMessage(executionsRes.reason);
+      state.update({ systemError: msg });
+      state.recordError(msg);
+      sawError = true;
+    }
+    if (newLogs.length) {
+      state.addLogEntries(newLogs);
+    }
+
+    if (dashboardRes.status === "fulfilled") {
+      const nextCorrelation = normalizeCorrelationSnapshot(dashboardData?.engine?.correlation);
+      if (nextCorrelation && nextCorrelation.updatedAt !== state.correlation?.updatedAt) {
+        state.update({ correlation: nextCorrelation });
+      }
+    }
+
+    // S lokálním workerem chodí rozhodnutí z něj, serverová se ignorují.
+    if (dashboardRes.status === "fulfilled" && !usesLocalStrategyWorker(state.settings)) {
+      const enginePayload = dashboardData?.engine ?? {};
+      const decisionList = Array.isArray(enginePayload?.decisions)
+        ? enginePayload.decisions
+        : [];
+      const seenBySymbol = backendDecisionTs;
+      for (const item of decisionList) {
+        const symbol = String(item?.symbol ?? "").toUpperCase();
+        if (!symbol) continue;
+        if (!state.activeSymbols.includes(symbol as Symbol)) continue;
+        const ts = toNumber(item?.ts);
+        if (!Number.isFinite(ts)) continue;
+        const prevTs = seenBySymbol.get(symbol) ?? 0;
+        if (ts <= prevTs) continue;
+        seenBySymbol.set(symbol, ts);
+        handleDecision(symbol, (item?.decision ?? {}) as PriceFeedDecision);
+      }
+    }
+
+    refreshDiagnosticsFromDecisions();
+
+    if (sawPositionClosed) {
+      queueCapacityRecheck("POSITION_CLOSED");
+    }
+    if (sawOrderCanceled) {
+      queueCapacityRecheck("ORDER_CANCELED");
+    }
+    if (sawOrderFilled) {
+      queueCapacityRecheck("ORDER_FILLED");
+    }
+
+    fastOk = !sawError;
+    if (!sawError && slowOk) {
+      state.update({ systemError: null });
+    }
+
+    fastPoll = false;
+  };
+
+  const refreshSlow = async () => {
+    if (!state.appEnabled) return;
+    if (slowPoll) return;
+    slowPoll = true;
+
+    const now = clock.now();
+    const [dashboardRes] = await Promise.allSettled([
+      backend.fetchJson("/dashboard", {
+        scope: "slow",
+        riskMode: state.settings.riskMode,
+        symbols: state.feedSymbols.join(","),
+        pnlLimit: "200",
+      }),
+    ]);
+    const dashboardData =
+      dashboardRes.status === "fulfilled" ? dashboardRes.value ?? {} : null;
+    const dashboardErrors: Record<string, unknown> =
+      dashboardRes.status === "fulfilled" && dashboardData?.errors
+        ? dashboardData.errors
+        : {};
+    const getSectionResult = (key: string): PromiseSettledResult<any> => {
+      if (dashboardRes.status === "rejected") {
+        return { status: "rejected", reason: dashboardRes.reason };
+      }
+      const sectionError = dashboardErrors[key];
+      if (sectionError) {
+        return { status: "rejected", reason: new Error(String(sectionError)) };
+      }
+      return { status: "fulfilled", value: dashboardData?.[key] ?? {} };
+    };
+    const walletRes = getSectionResult("wallet");
+    const closedPnlRes = getSectionResult("pnl");
+
+    let sawError = false;
+    const newLogs: LogEntry[] = [];
+
+    if (walletRes.status === "fulfilled") {
+      const list = extractList(walletRes.value);
+      const row = list[0] ?? {};
+      const totalEquity = toNumber(
+        row?.totalEquity ?? row?.totalWalletBalance
+      );
+      const availableBalance = toNumber(
+        row?.totalAvailableBalance ?? row?.availableBalance
+      );
+      const totalWalletBalance = toNumber(row?.totalWalletBalance);
+      state.update({
+        walletSnapshot: { totalEquity, availableBalance, totalWalletBalance },
+        lastSuccessAt: now,
+      });
+    } else {
+      const msg = asErrorMessage(walletRes.reason);
+      state.update({ systemError: msg });
+      state.recordError(msg);
+      sawError = true;
+    }
+
+    if (closedPnlRes.status === "fulfilled") {
+      const list = extractList(closedPnlRes.value);
+      const records = list
+        .map((r: any) => {
+          const ts = toNumber(r?.execTime ?? r?.updatedTime ?? r?.createdTime);
+          const pnl = toNumber(r?.closedPnl ?? r?.realisedPnl);
+          const symbol = String(r?.symbol ?? "").toUpperCase();
+          if (!symbol || !Number.isFinite(ts) || !Number.isFinite(pnl))
+            return null;
+          if (!state.availableSymbolSet.has(symbol)) return null;
+          return { symbol, pnl, ts };
+        })
+        .filter((r: ClosedPnlRecord | null): r is ClosedPnlRecord =>
+          Boolean(r)
+        );
+      const lastLossMap = new Map(state.lastLossBySymbol);
+      for (const r of records) {
+        if (r.pnl >= 0) continue;
+        const prev = lastLossMap.get(r.symbol) ?? 0;
+        if (r.ts > prev) lastLossMap.set(r.symbol, r.ts);
+      }
+      state.lastLossBySymbol = lastLossMap;
+      const pnlRecords = records.map((r) => ({
+        symbol: r.symbol,
+        pnl: r.pnl,
+        timestamp: new Date(r.ts).toISOString(),
+      }));
+      const map = mergePnlRecords(pnlRecords);
+      state.update({ closedPnlRecords: records, assetPnlHistory: map });
+      for (const r of records) {
+        const id = `pnl:${r.symbol}:${r.ts}`;
+        if (pnlSeen.has(id)) continue;
+        pnlSeen.add(id);
+        newLogs.push({
+          id,
+          timestamp: new Date(r.ts).toISOString(),
+          action: "SYSTEM",
+          message: `PNL ${r.symbol} ${r.pnl >= 0 ? "+" : ""}${r.pnl.toFixed(
+            2
+          )}`,
+        });
+      }
+      state.update({ lastSuccessAt: now });
+    } else {
+      const msg = asErrorMessage(closedPnlRes.reason);
+      state.update({ systemError: msg });
+      state.recordError(msg);
+      sawError = true;
+    }
+
+    if (state.settings.sizingModel === "kelly") {
+      try {
+        const journal = await backend.fetchJson("/journal", {
+          profile: state.settings.riskMode,
+          status: "CLOSED",
+          limit: String(KELLY_STATS_WINDOW),
+          sync: "0",
+        });
+        // Journal vrací nejnovější první, statistiky chtějí chronologicky.
+        const entries: { realizedPnl?: unknown }[] = extractList(journal);
+        const pnls = entries
+          .map((entry) => toNumber(entry?.realizedPnl))
+          .reverse();
+        state.update({ tradeStats: summarizeTradeStats(pnls) });
+      } catch (err) {
+        const msg = asErrorMessage(err);
+        state.recordError(msg);
+      }
+    }
+
+    if (state.settings.serverAutoTrading) {
+      try {
+        const status = await backend.fetchJson("/autotrade");
+        if (Array.isArray(status?.logs)) newLogs.push(...status.logs);
+      } catch (err) {
+        const msg = asErrorMessage(err);
+        state.recordError(msg);
+      }
+    }
+
+    if (newLogs.length) {
+      state.addLogEntries(newLogs);
+    } else {
+      if (!state.logEntries) state.update({ logEntries: [] });
+    }
+
+    slowOk = !sawError;
+    if (!sawError && fastOk) {
+      state.update({ systemError: null });
+    }
+
+    slowPoll = false;
+  };
+
+  // Každá část životního cyklu si pamatuje klíč vstupů, se kterými běží;
+  // configure() restartuje jen ty části, jejichž klíč se změnil.
+  let sessionKey: string | null = null;
+  let catalogKey: string | null = null;
+  let catalogLoad = 0;
+  let pollingKey: string | null = null;
+  let stopPolling: (() => void) | null = null;
+  let positionModeKey: string | null = null;
+  let autoTradeKey: string | null = null;
+  let workerKey: string | null = null;
+  let workerConfigKey: string | null = null;
+  let stopWorker: (() => void) | null = null;
+  let heartbeatKey: string | null = null;
+  let stopHeartbeat: (() => void) | null = null;
+
+  const isConnected = () => Boolean(state.authToken && state.appEnabled);
+
+  const startSession = () => {
+    state.resetSession();
+    protection.resetSession();
+    diagnostics.resetSession();
+    decisions.resetSession();
+    positionStateSignature = "";
+    positionSync = { lastEventAt: 0, lastReconcileAt: 0 };
+    trailWatermark.clear();
+    backendDecisionTs.clear();
+
+    const envLabel = state.useTestnet ? "testnet" : "mainnet";
+    const lastLog = feedLog;
+    const now = clock.now();
+    if (!lastLog || lastLog.env !== envLabel || now - lastLog.ts > 5000) {
+      feedLog = { env: envLabel, ts: now };
+      state.addLogEntries([
+        {
+          id: `feed:start:${envLabel}:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message: `Backend strategy engine connected (${envLabel})`,
+        },
+      ]);
+    }
+  };
+
+  const loadSymbolsCatalog = async () => {
+    const load = ++catalogLoad;
+    try {
+      const payload = await backend.fetchJson("/symbols");
+      if (load !== catalogLoad) return;
+      const availableSymbols = filterSupportedSymbols(
+        payload?.availableSymbols ?? [],
+        payload?.availableSymbols
+      );
+      const resolvedAvailable =
+        availableSymbols.length > 0 ? availableSymbols : [...SUPPORTED_SYMBOLS];
+      const defaultSelectedSymbols = resolveSelectedSymbols(
+        payload?.defaultSelectedSymbols ?? [],
+        {
+          allowedSymbols: resolvedAvailable,
+          fallbackSymbols: DEFAULT_SELECTED_SYMBOLS,
+        }
+      );
+      const recommendedSymbols = filterSupportedSymbols(
+        payload?.recommendedSymbols ?? [],
+        resolvedAvailable
+      );
+      const catalog: DynamicSymbolsCatalog = {
+        availableSymbols: resolvedAvailable,
+        recommendedSymbols,
+        defaultSelectedSymbols,
+        updatedAt: String(payload?.updatedAt ?? new Date(clock.now()).toISOString()),
+      };
+      const prev = state.settings;
+      state.setDynamicSymbols(catalog);
+      state.setSettings({
+        ...prev,
+        selectedSymbols: resolveSelectedSymbols(prev.selectedSymbols, {
+          allowedSymbols: catalog.availableSymbols,
+          fallbackSymbols:
+            prev.selectedSymbols?.length > 0
+              ? prev.selectedSymbols
+              : catalog.defaultSelectedSymbols,
+        }),
+      });
+    } catch {
+      if (load !== catalogLoad) return;
+      const prev = state.settings;
+      state.setDynamicSymbols(null);
+      state.setSettings({
+        ...prev,
+        selectedSymbols: resolveSelectedSymbols(prev.selectedSymbols, {
+          allowedSymbols: SUPPORTED_SYMBOLS,
+          fallbackSymbols: DEFAULT_SELECTED_SYMBOLS,
+        }),
+      });
+    }
+  };
+
+  const startPolling = () => {
+    let alive = true;
+    const tickFast = async () => {
+      if (!alive) return;
+      await refreshFast();
+    };
+    const tickSlow = async () => {
+      if (!alive) return;
+      await refreshSlow();
+    };
+    const fastId = clock.setInterval(tickFast, FAST_POLL_INTERVAL_MS);
+    const slowId = clock.setInterval(tickSlow, SLOW_POLL_INTERVAL_MS);
+    const tsId = clock.setInterval(() => {
+      void syncTrailingProtection(state.openPositions);
+    }, TS_VERIFY_INTERVAL_MS);
+    tickFast();
+    tickSlow();
+    stopPolling = () => {
+      alive = false;
+      clock.clearInterval(fastId);
+      clock.clearInterval(slowId);
+      clock.clearInterval(tsId);
+    };
+  };
+
+  // Režim pozic se na burze přepíná jen po volbě v nastavení; server ho
+  // odmítne (409), dokud jsou otevřené pozice nebo příkazy.
+  const syncPositionMode = (positionMode: string) => {
+    backend.postJson("/position-mode", { mode: positionMode }).catch((err) => {
+      state.addLogEntries([
+        {
+          id: `position-mode:sync:${clock.now()}`,
+          timestamp: new Date(clock.now()).toISOString(),
+          action: "ERROR",
+          message: `Position mode switch failed: ${asErrorMessage(err)}`,
+        },
+      ]);
+    });
+  };
+
+  // With server auto-trading the dashboard only configures the executor:
+  // AUTO_ON / PAPER enable it, any other mode (or turning the flag off)
+  // disables it.
+  const resolveAutoTradeConfig = () => {
+    const { settings } = state;
+    const serverTrading = Boolean(settings.serverAutoTrading);
+    return {
+      enabled:
+        serverTrading &&
+        (state.mode === TradingMode.AUTO_ON || state.mode === TradingMode.PAPER),
+      riskMode: settings.riskMode,
+      symbols: state.feedSymbols,
+      settings: {
+        maxOpenPositions: settings.maxOpenPositions,
+        maxOpenOrders: settings.maxOpenOrders,
+        perTradeTestnetUsd: settings.perTradeTestnetUsd,
+        perTradeMainnetUsd: settings.perTradeMainnetUsd,
+        useDynamicPositionSizing: settings.useDynamicPositionSizing,
+        trendGateMode: settings.trendGateMode,
+        enableSoftGates: settings.enableSoftGates,
+        gateOverrides: state.gateOverrides,
+        ...normalizeSizingSettings(settings),
+      },
+    };
+  };
+
+  const syncAutoTrade = (config: ReturnType<typeof resolveAutoTradeConfig>) => {
+    const serverTrading = Boolean(state.settings.serverAutoTrading);
+    if (!serverTrading && !serverAutoTradingSynced) return;
+    serverAutoTradingSynced = serverTrading;
+    backend.postJson("/autotrade", config).catch((err) => {
+      state.addLogEntries([
+        {
+          id: `autotrade:sync:${clock.now()}`,
+          timestamp: new Date(clock.now()).toISOString(),
+          action: "ERROR",
+          message: `Server auto-trading sync failed: ${asErrorMessage(err)}`,
+        },
+      ]);
+    });
+  };
+
+  // Lokální vyhodnocení: feed, orderflow a strategie běží ve Web Workeru,
+  // sem chodí jen hotová rozhodnutí a latence vyhodnocení per symbol.
+  const startWorker = () => {
+    const client = createFeed({
+      onDecision: (symbol, decision) => {
+        handleDecision(symbol, decision);
+      },
+      onError: (message, symbol) => {
+        const now = clock.now();
+        state.addLogEntries([
+          {
+            id: `strategy-worker:error:${symbol ?? "all"}:${now}`,
+            timestamp: new Date(now).toISOString(),
+            action: "ERROR",
+            message: `Strategy worker${symbol ? ` ${symbol}` : ""}: ${message}`,
+          },
+        ]);
+      },
+    });
+    strategyWorker = client;
+    client.start({
+      symbols: state.feedSymbols,
+      riskMode: state.settings.riskMode,
+      useTestnet: state.useTestnet,
+      configOverrides: state.engineConfig,
+    });
+    const latencyTimer = clock.setInterval(
+      () => state.update({ strategyLatency: client.latency() }),
+      STRATEGY_LATENCY_REFRESH_MS
+    );
+    stopWorker = () => {
+      clock.clearInterval(latencyTimer);
+      client.terminate();
+      strategyWorker = null;
+      state.update({ strategyLatency: {} });
+    };
+  };
+
+  const startHeartbeat = () => {
+    const heartbeatId = clock.setInterval(() => {
+      const now = clock.now();
+      if (now - lastHeartbeat < 60_000) return;
+      lastHeartbeat = now;
+
+      const scan: string[] = [];
+      const hold: string[] = [];
+      for (const symbol of state.activeSymbols) {
+        if (resolveSymbolState(symbol) === "HOLD") hold.push(symbol);
+        else scan.push(symbol);
+      }
+
+      const parts: string[] = [];
+      if (scan.length) parts.push(`scan: ${scan.join(", ")}`);
+      if (hold.length) parts.push(`hold: ${hold.join(", ")}`);
+      const message = parts.length
+        ? `BOT HEARTBEAT | ${parts.join(" | ")}`
+        : "BOT HEARTBEAT | idle";
+
+      state.addLogEntries([
+        {
+          id: `heartbeat:${now}`,
+          timestamp: new Date(now).toISOString(),
+          action: "STATUS",
+          message,
+        },
+      ]);
+    }, 30_000);
+    stopHeartbeat = () => {
+      clock.clearInterval(heartbeatId);
+    };
+  };
+
+  /** Sladí běžící polling, worker a synchronizace s aktuálním stavem. */
+  const configure = () => {
+    const connected = isConnected();
+    const { apiBase, appEnabled, authToken, useTestnet, settings } = state;
+
+    const nextSessionKey = JSON.stringify([appEnabled, authToken, useTestnet]);
+    if (nextSessionKey !== sessionKey) {
+      sessionKey = nextSessionKey;
+      if (connected) startSession();
+    }
+
+    const nextCatalogKey = JSON.stringify([apiBase, appEnabled, authToken]);
+    if (nextCatalogKey !== catalogKey) {
+      catalogKey = nextCatalogKey;
+      catalogLoad += 1;
+      if (connected) void loadSymbolsCatalog();
+    }
+
+    const nextPollingKey = JSON.stringify([
+      apiBase,
+      appEnabled,
+      authToken,
+      useTestnet,
+      state.activeSymbols,
+      state.feedSymbols,
+    ]);
+    if (nextPollingKey !== pollingKey) {
+      pollingKey = nextPollingKey;
+      stopPolling?.();
+      stopPolling = null;
+      if (!authToken) {
+        state.update({ systemError: "missing_auth_token" });
+      } else if (!appEnabled) {
+        state.update({ systemError: null });
+      } else {
+        startPolling();
+      }
+    }
+
+    const nextPositionModeKey = JSON.stringify([
+      apiBase,
+      appEnabled,
+      authToken,
+      settings.positionMode,
+    ]);
+    if (nextPositionModeKey !== positionModeKey) {
+      positionModeKey = nextPositionModeKey;
+      if (connected && settings.positionMode) {
+        syncPositionMode(settings.positionMode);
+      }
+    }
+
+    const autoTradeConfig = resolveAutoTradeConfig();
+    const nextAutoTradeKey = JSON.stringify([
+      apiBase,
+      appEnabled,
+      authToken,
+      settings.serverAutoTrading,
+      autoTradeConfig,
+    ]);
+    if (nextAutoTradeKey !== autoTradeKey) {
+      autoTradeKey = nextAutoTradeKey;
+      if (connected) syncAutoTrade(autoTradeConfig);
+    }
+
+    const usesWorker = connected && usesLocalStrategyWorker(settings);
+    const nextWorkerKey = JSON.stringify([
+      appEnabled,
+      authToken,
+      useTestnet,
+      usesWorker,
+      settings.riskMode,
+      state.feedSymbols,
+    ]);
+    const nextWorkerConfigKey = JSON.stringify(state.engineConfig);
+    if (nextWorkerKey !== workerKey) {
+      workerKey = nextWorkerKey;
+      workerConfigKey = nextWorkerConfigKey;
+      stopWorker?.();
+      stopWorker = null;
+      if (usesWorker) startWorker();
+    } else if (nextWorkerConfigKey !== workerConfigKey) {
+      workerConfigKey = nextWorkerConfigKey;
+      strategyWorker?.updateConfig(state.engineConfig);
+    }
+
+    const nextHeartbeatKey = JSON.stringify([
+      appEnabled,
+      authToken,
+      state.activeSymbols,
+    ]);
+    if (nextHeartbeatKey !== heartbeatKey) {
+      heartbeatKey = nextHeartbeatKey;
+      stopHeartbeat?.();
+      stopHeartbeat = null;
+      if (connected) startHeartbeat();
+    }
+  };
+
+  /** Zastaví polling, worker i heartbeat; další configure() vše spustí znovu. */
+  const stop = () => {
+    stopPolling?.();
+    stopWorker?.();
+    stopHeartbeat?.();
+    stopPolling = null;
+    stopWorker = null;
+    stopHeartbeat = null;
+    catalogLoad += 1;
+    sessionKey = null;
+    catalogKey = null;
+    pollingKey = null;
+    positionModeKey = null;
+    autoTradeKey = null;
+    workerKey = null;
+    workerConfigKey = null;
+    heartbeatKey = null;
+  };
+
+  const resetPnlHistory = () => {
+    const next = resetPnlHistoryMap(state.activeSymbols);
+    state.update({ assetPnlHistory: next, closedPnlRecords: [] });
+    pnlSeen = new Set();
+  };
+
+  const manualClosePosition = async (pos: ActivePosition) => {
+    if (!allowPositionClose) {
+      throw new Error("close_disabled");
+    }
+    if (!state.authToken) throw new Error("missing_auth_token");
+    const sizeRaw = toNumber(pos.size ?? pos.qty);
+    if (!Number.isFinite(sizeRaw) || sizeRaw <= 0) {
+      throw new Error("invalid_position_qty");
+    }
+    const closeSide =
+      String(pos.side).toLowerCase() === "buy" ? "Sell" : "Buy";
+    const payload = {
+      symbol: pos.symbol,
+      side: closeSide,
+      qty: Math.abs(sizeRaw),
+      orderType: "Market",
+      reduceOnly: true,
+      timeInForce: "IOC",
+      positionIdx: Number.isFinite(pos.positionIdx)
+        ? pos.positionIdx
+        : undefined,
+    };
+    const res = await backend.http(`${state.apiBase}/order`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${state.authToken}`,
+        "X-Auth-Token": state.authToken,
+      },
+      body: JSON.stringify(payload),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok || json?.ok === false) {
+      throw new Error(json?.error || `close_failed:${res.status}`);
+    }
+    await refreshFast();
+    return true;
+  };
+
+  const cancelOrder = async (order: TestnetOrder) => {
+    if (!allowOrderCancel) {
+      throw new Error("cancel_disabled");
+    }
+    if (!state.authToken) throw new Error("missing_auth_token");
+    if (!order?.symbol) throw new Error("missing_order_symbol");
+    const orderId = order?.orderId || "";
+    const orderLinkId = order?.orderLinkId || "";
+    if (!orderId && !orderLinkId) throw new Error("missing_order_id");
+    const res = await backend.http(`${state.apiBase}/cancel`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${state.authToken}`,
+        "X-Auth-Token": state.authToken,
+      },
+      body: JSON.stringify({
+        symbol: order.symbol,
+        orderId: orderId || undefined,
+        orderLinkId: orderLinkId || undefined,
+      }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok || json?.ok === false) {
+      throw new Error(json?.error || `cancel_failed:${res.status}`);
+    }
+    await refreshFast();
+    return true;
+  };
+
+  return {
+    configure,
+    stop,
+    refreshFast,
+    resetPnlHistory,
+    manualClosePosition,
+    cancelOrder,
+    allowOrderCancel,
+    allowPositionClose,
+  };
+}
+
+export type TradingSync = ReturnType<typeof createTradingSync>;
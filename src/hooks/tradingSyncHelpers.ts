@@ -0,0 +1,374 @@
+// hooks/tradingSyncHelpers.ts
+// Převod dat z backendu (pozice, příkazy, PnL), intervaly pollingu a číselné pomůcky.
+import type {
+  ActivePosition as BaseActivePosition,
+  TestnetOrder,
+} from "../types";
+
+export type ActivePosition = BaseActivePosition & { isBreakeven?: boolean };
+
+export const LOG_DEDUPE_WINDOW_MS = 1500;
+
+export const STRATEGY_LATENCY_REFRESH_MS = 5_000;
+
+export const FAST_POLL_INTERVAL_MS = 5_000;
+export const SLOW_POLL_INTERVAL_MS = 15_000;
+
+const SCALP_MIN_POSITION_NOTIONAL_USD = 1;
+const SCALP_MIN_POSITION_SIZE_FALLBACK = 1e-6;
+
+export const TS_VERIFY_INTERVAL_MS = 180_000;
+export const AUTO_CANCEL_ENTRY_ORDERS = false;
+
+export function toNumber(value: unknown) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+export const minFinite = (...values: Array<number | undefined | null>) => {
+  const filtered = values.filter((v): v is number => Number.isFinite(v));
+  if (!filtered.length) return Number.NaN;
+  return Math.min(...filtered);
+};
+
+export const maxFinite = (...values: Array<number | undefined | null>) => {
+  const filtered = values.filter((v): v is number => Number.isFinite(v));
+  if (!filtered.length) return Number.NaN;
+  return Math.max(...filtered);
+};
+
+export function toEpoch(value: unknown) {
+  const n = Number(value);
+  if (Number.isFinite(n) && n > 0) {
+    return n < 1e12 ? n * 1000 : n;
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isFinite(parsed) ? parsed : Number.NaN;
+  }
+  return Number.NaN;
+}
+
+export function toIso(ts: unknown) {
+  const epoch = toEpoch(ts);
+  return Number.isFinite(epoch) ? new Date(epoch).toISOString() : "";
+}
+
+export function formatNumber(value: number, digits = 4) {
+  return Number.isFinite(value) ? value.toFixed(digits) : "";
+}
+
+export function asErrorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err ?? "unknown_error");
+}
+
+export function extractList(data: any) {
+  return data?.result?.list ?? data?.list ?? [];
+}
+
+export type EntryFallback = { triggerPrice?: number; price?: number; ts: number };
+type ProtectionOrderSnapshot = {
+  hasActiveSL: boolean;
+  hasActiveTP: boolean;
+  sl: number;
+  tp: number;
+};
+
+const TERMINAL_ORDER_STATUS_TOKENS = [
+  "filled",
+  "cancel",
+  "reject",
+  "deactivat",
+  "expire",
+];
+const ACTIVE_EXCHANGE_ORDER_STATUS_KEYS = new Set([
+  "new",
+  "untriggered",
+  "partiallyfilled",
+]);
+const PROTECTION_ORDER_FILTERS = new Set(["tpsl", "tpslorder"]);
+const PROTECTION_STOP_TYPES = new Set([
+  "takeprofit",
+  "stoploss",
+  "trailingstop",
+]);
+
+export function normalizePositionSide(value: unknown): "Buy" | "Sell" {
+  return String(value ?? "").toLowerCase() === "sell" ? "Sell" : "Buy";
+}
+
+function normalizeOrderStatus(value: unknown) {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+function normalizeOrderStatusKey(value: unknown) {
+  return normalizeOrderStatus(value).replace(/[^a-z]/g, "");
+}
+
+function isExchangeActiveOrderStatus(value: unknown) {
+  const key = normalizeOrderStatusKey(value);
+  if (!key) return false;
+  return ACTIVE_EXCHANGE_ORDER_STATUS_KEYS.has(key);
+}
+
+export function isOrderStatusActive(value: unknown) {
+  const status = normalizeOrderStatus(value);
+  if (!status) return true;
+  return !TERMINAL_ORDER_STATUS_TOKENS.some((token) => status.includes(token));
+}
+
+export function isActiveEntryOrderStatus(value: unknown) {
+  return isExchangeActiveOrderStatus(value);
+}
+
+export function hasMeaningfulOpenPosition(position: any) {
+  const size = Math.abs(toNumber(position?.size ?? position?.qty));
+  if (!Number.isFinite(size) || size <= 0) return false;
+  const refPrice = toNumber(
+    position?.entryPrice ?? position?.avgEntryPrice ?? position?.markPrice
+  );
+  if (Number.isFinite(refPrice) && refPrice > 0) {
+    return size * refPrice >= SCALP_MIN_POSITION_NOTIONAL_USD;
+  }
+  return size >= SCALP_MIN_POSITION_SIZE_FALLBACK;
+}
+
+export function isProtectionOrderLike(order: any): boolean {
+  if (!order) return false;
+  const reduceOnly = Boolean(order?.reduceOnly ?? order?.reduce_only ?? order?.reduce);
+  const filter = String(order?.orderFilter ?? order?.order_filter ?? "")
+    .trim()
+    .toLowerCase();
+  const stopType = String(order?.stopOrderType ?? order?.stop_order_type ?? "")
+    .trim()
+    .toLowerCase();
+  if (PROTECTION_STOP_TYPES.has(stopType)) return true;
+  if (PROTECTION_ORDER_FILTERS.has(filter)) return true;
+  return reduceOnly;
+}
+
+export function isEntryOrder(order: TestnetOrder | any): boolean {
+  if (!order) return false;
+  if (isProtectionOrderLike(order)) return false;
+  const status =
+    order?.status ?? order?.orderStatus ?? order?.order_status ?? "";
+  return isOrderStatusActive(status);
+}
+
+export function isActiveEntryOrder(order: TestnetOrder | any): boolean {
+  if (!isEntryOrder(order)) return false;
+  const status =
+    order?.status ?? order?.orderStatus ?? order?.order_status ?? "";
+  return isActiveEntryOrderStatus(status);
+}
+
+export function isWaitingLimitEntryOrder(order: TestnetOrder | any): boolean {
+  if (!isActiveEntryOrder(order)) return false;
+  const qty = Math.abs(toNumber(order?.qty ?? order?.orderQty ?? order?.leavesQty));
+  if (!Number.isFinite(qty) || qty <= 0) return false;
+  const orderTypeRaw = String(order?.orderType ?? order?.order_type ?? "")
+    .trim()
+    .toLowerCase();
+  const triggerPrice = toNumber(order?.triggerPrice ?? order?.trigger_price);
+  const stopType = String(order?.stopOrderType ?? order?.stop_order_type ?? "")
+    .trim()
+    .toLowerCase();
+  const isLimit = orderTypeRaw === "limit";
+  const isConditional =
+    Number.isFinite(triggerPrice) && triggerPrice > 0;
+  const isStopPending = stopType.includes("stop");
+  return isLimit || isConditional || isStopPending;
+}
+
+function pickDirectionalProtectionPrice(
+  prices: number[],
+  entryPrice: number,
+  direction: "below" | "above"
+) {
+  const finite = prices.filter((px) => Number.isFinite(px) && px > 0);
+  if (finite.length === 0) return Number.NaN;
+  if (!Number.isFinite(entryPrice) || entryPrice <= 0) {
+    return finite[finite.length - 1];
+  }
+  const directional = finite.filter((px) =>
+    direction === "below" ? px < entryPrice : px > entryPrice
+  );
+  if (directional.length > 0) {
+    let best = directional[0];
+    for (const px of directional) {
+      if (direction === "below" && px > best) best = px;
+      if (direction === "above" && px < best) best = px;
+    }
+    return best;
+  }
+  let closest = finite[0];
+  let closestDist = Math.abs(finite[0] - entryPrice);
+  for (const px of finite.slice(1)) {
+    const dist = Math.abs(px - entryPrice);
+    if (dist < closestDist) {
+      closest = px;
+      closestDist = dist;
+    }
+  }
+  return closest;
+}
+
+export function resolveProtectionFromOrders(args: {
+  orders: any[];
+  symbol: string;
+  positionSide: "Buy" | "Sell";
+  entryPrice: number;
+  positionIdx?: number;
+}): ProtectionOrderSnapshot {
+  const targetSymbol = String(args.symbol ?? "").toUpperCase();
+  if (!targetSymbol || !Array.isArray(args.orders) || args.orders.length === 0) {
+    return {
+      hasActiveSL: false,
+      hasActiveTP: false,
+      sl: Number.NaN,
+      tp: Number.NaN,
+    };
+  }
+  const closeSide = args.positionSide === "Buy" ? "sell" : "buy";
+  const expectedPositionIdx = toNumber(args.positionIdx);
+  const hasExpectedPositionIdx = Number.isFinite(expectedPositionIdx);
+  let hasActiveSL = false;
+  let hasActiveTP = false;
+  const slCandidates: number[] = [];
+  const tpCandidates: number[] = [];
+
+  for (const order of args.orders) {
+    const symbol = String(order?.symbol ?? "").toUpperCase();
+    if (!symbol || symbol !== targetSymbol) continue;
+    if (!isProtectionOrderLike(order)) continue;
+    const status =
+      order?.orderStatus ?? order?.order_status ?? order?.status ?? "";
+    if (!isExchangeActiveOrderStatus(status)) continue;
+    const side = String(order?.side ?? "").toLowerCase();
+    if (side === "buy" || side === "sell") {
+      if (side !== closeSide) continue;
+    }
+    const orderPositionIdx = toNumber(order?.positionIdx ?? order?.position_idx);
+    if (
+      hasExpectedPositionIdx &&
+      Number.isFinite(orderPositionIdx) &&
+      orderPositionIdx !== expectedPositionIdx
+    ) {
+      continue;
+    }
+    const filter = String(order?.orderFilter ?? order?.order_filter ?? "")
+      .trim()
+      .toLowerCase();
+    const stopType = String(order?.stopOrderType ?? order?.stop_order_type ?? "")
+      .trim()
+      .toLowerCase();
+    const orderType = String(order?.orderType ?? order?.order_type ?? "")
+      .trim()
+      .toLowerCase();
+    const triggerPrice = toNumber(order?.triggerPrice ?? order?.trigger_price);
+    const orderPrice = toNumber(order?.price);
+    const px =
+      Number.isFinite(triggerPrice) && triggerPrice > 0
+        ? triggerPrice
+        : Number.isFinite(orderPrice) && orderPrice > 0
+          ? orderPrice
+          : Number.NaN;
+
+    if (stopType === "stoploss" || stopType === "trailingstop") {
+      hasActiveSL = true;
+      if (Number.isFinite(px) && px > 0) slCandidates.push(px);
+      continue;
+    }
+    if (stopType === "takeprofit") {
+      hasActiveTP = true;
+      if (Number.isFinite(px) && px > 0) tpCandidates.push(px);
+      continue;
+    }
+
+    if (!Number.isFinite(px) || px <= 0) continue;
+    const isLong = args.positionSide === "Buy";
+    const canInferByEntry = Number.isFinite(args.entryPrice) && args.entryPrice > 0;
+    if (canInferByEntry) {
+      if (isLong) {
+        if (px < args.entryPrice) {
+          hasActiveSL = true;
+          slCandidates.push(px);
+        } else if (px > args.entryPrice) {
+          hasActiveTP = true;
+          tpCandidates.push(px);
+        }
+      } else if (px > args.entryPrice) {
+        hasActiveSL = true;
+        slCandidates.push(px);
+      } else if (px < args.entryPrice) {
+        hasActiveTP = true;
+        tpCandidates.push(px);
+      }
+      continue;
+    }
+
+    if (orderType === "limit") {
+      hasActiveTP = true;
+      tpCandidates.push(px);
+      continue;
+    }
+    if (
+      filter === "stoporder" ||
+      PROTECTION_ORDER_FILTERS.has(filter) ||
+      orderType === "market"
+    ) {
+      hasActiveSL = true;
+      slCandidates.push(px);
+    }
+  }
+
+  const slDirection = args.positionSide === "Buy" ? "below" : "above";
+  const tpDirection = args.positionSide === "Buy" ? "above" : "below";
+  const sl = pickDirectionalProtectionPrice(slCandidates, args.entryPrice, slDirection);
+  const tp = pickDirectionalProtectionPrice(tpCandidates, args.entryPrice, tpDirection);
+  return {
+    hasActiveSL: hasActiveSL || (Number.isFinite(sl) && sl > 0),
+    hasActiveTP: hasActiveTP || (Number.isFinite(tp) && tp > 0),
+    sl,
+    tp,
+  };
+}
+
+export function buildEntryFallback(list: any[]) {
+  const map = new Map<string, EntryFallback>();
+  for (const o of list) {
+    const symbol = String(o?.symbol ?? "");
+    const side = String(o?.side ?? "");
+    if (!symbol || !side) continue;
+    const reduceOnly = Boolean(o?.reduceOnly ?? o?.reduce_only ?? o?.reduce);
+    if (reduceOnly) continue;
+    const triggerPrice = toNumber(o?.triggerPrice ?? o?.trigger_price);
+    const price = toNumber(o?.price);
+    if (!Number.isFinite(triggerPrice) && !Number.isFinite(price)) continue;
+    const ts = toEpoch(
+      o?.createdTime ?? o?.created_at ?? o?.updatedTime ?? o?.updated_at
+    );
+    const entry: EntryFallback = {
+      triggerPrice: Number.isFinite(triggerPrice) ? triggerPrice : undefined,
+      price: Number.isFinite(price) ? price : undefined,
+      ts: Number.isFinite(ts) ? ts : 0,
+    };
+    const key = `${symbol}:${side}`;
+    const prev = map.get(key);
+    if (!prev || entry.ts >= prev.ts) {
+      map.set(key, entry);
+    }
+  }
+  return map;
+}
+
+export type ClosedPnlRecord = { symbol: string; pnl: number; ts: number };
+
+export function buildPositionWatermarkKey(
+  symbol: string,
+  side: string,
+  positionIdx?: number
+) {
+  const idx = Number.isFinite(positionIdx) ? Math.round(positionIdx as number) : 0;
+  return `${String(symbol ?? "").toUpperCase()}:${String(side ?? "").toUpperCase()}:${idx}`;
+}
@@ -0,0 +1,17 @@
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  getFeedConnections,
+  subscribeFeedConnections,
+  summarizeFeedConnections,
+  type FeedConnectionSummary,
+} from "../engine/feedConnection";
+
+/** Souhrnný stav WS feedů v tomto okně; null když žádný feed neběží. */
+export function useFeedConnection(): FeedConnectionSummary | null {
+  const states = useSyncExternalStore(
+    subscribeFeedConnections,
+    getFeedConnections,
+    getFeedConnections
+  );
+  return useMemo(() => summarizeFeedConnections(states), [states]);
+}
@@ -1,3 +1,5 @@
+import { resolveCatalogId } from "../engine/strategyRegistryEngine.js";
+
 export const OLIKELLA_RISK_MODE = "ai-matic-olikella";
 export const OLIKELLA_LEGACY_RISK_MODE = "ai-matic-scalp";
 export const OLIKELLA_PROFILE_LABEL = "AI-MATIC-OLIkella";
@@ -41,21 +43,5 @@ export function migrateRiskMode(
   | "ai-matic-bbo"
   | "ai-matic-tree"
   | "ai-matic-pro" {
-  const normalized =
-    typeof value === "string" ? value.trim().toLowerCase() : "";
-  if (normalized === OLIKELLA_LEGACY_RISK_MODE) {
-    return OLIKELLA_RISK_MODE;
-  }
-  if (
-    normalized === "ai-matic" ||
-    normalized === "ai-matic-x" ||
-    normalized === "ai-matic-amd" ||
-    normalized === OLIKELLA_RISK_MODE ||
-    normalized === "ai-matic-bbo" ||
-    normalized === "ai-matic-tree" ||
-    normalized === "ai-matic-pro"
-  ) {
-    return normalized;
-  }
-  return fallback;
+  return resolveCatalogId(value, fallback) as ReturnType<typeof migrateRiskMode>;
 }
@@ -49,6 +49,7 @@ export const UI_COPY = {
     mainnet: "Mainnet",
     auto: "Auto",
     manual: "Manuál",
+    paper: "Paper",
     engineRunning: "ENGINE: BĚŽÍ",
     enginePaused: "ENGINE: PAUZA",
     bybitDisconnected: "BYBIT • Odpojeno",
@@ -44,7 +44,21 @@ export interface AISettings {
   slippageBufferPct: number;
   perTradeTestnetUsd: number;
   perTradeMainnetUsd: number;
+  // Position sizing model (see executionPolicy.resolveSizingRiskPct);
+  // every model is capped by maxRiskPerTradeCap (fraction of equity).
+  sizingModel?: "fixed-fractional" | "vol-target" | "kelly";
+  targetDailyVolPct?: number;
+  kellyFraction?: number;
+  maxRiskPerTradeCap?: number;
   emaTrendPeriod?: number;
+  // Entries are placed by the server executor (runs without an open tab).
+  serverAutoTrading?: boolean;
+  // Strategies run in a browser Web Worker on its own feed instead of
+  // taking the server engine's decisions (ignored with serverAutoTrading).
+  localStrategyWorker?: boolean;
+  // Account position mode applied on the venue (see engine/positionMode.ts);
+  // unset leaves the account as it is.
+  positionMode?: "oneway" | "hedge";
 }
 
 // ===== API & COMMON TYPES (MIGRATION A1) =====
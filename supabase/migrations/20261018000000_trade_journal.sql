@@ -0,0 +1,46 @@
+-- Server-side trade journal (server/tradeJournal.js).
+-- One row per submitted entry; fills and closed PnL are attached on sync.
+create table if not exists public.trade_journal (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  env text not null,
+  symbol text not null,
+  side text not null check (side in ('Buy', 'Sell')),
+  profile text,
+  status text not null default 'OPEN' check (status in ('OPEN', 'CLOSED', 'CANCELLED')),
+  order_id text,
+  order_link_id text,
+  entry_type text,
+  entry_price numeric,
+  sl numeric,
+  tp numeric,
+  qty numeric,
+  filled_qty numeric not null default 0,
+  avg_entry_price numeric,
+  realized_pnl numeric,
+  signal jsonb,
+  diagnostic jsonb,
+  settings_snapshot jsonb,
+  fills jsonb not null default '[]'::jsonb,
+  closed_pnl jsonb not null default '[]'::jsonb,
+  opened_at timestamptz not null default now(),
+  closed_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists trade_journal_user_env_opened_idx
+  on public.trade_journal (user_id, env, opened_at desc);
+create index if not exists trade_journal_user_symbol_idx
+  on public.trade_journal (user_id, symbol);
+create index if not exists trade_journal_user_profile_idx
+  on public.trade_journal (user_id, profile);
+create index if not exists trade_journal_open_idx
+  on public.trade_journal (user_id, env)
+  where status = 'OPEN';
+
+-- The server writes with the service role; users may only read their own rows.
+alter table public.trade_journal enable row level security;
+
+create policy "trade_journal_select_own"
+  on public.trade_journal for select
+  using (auth.uid() = user_id);
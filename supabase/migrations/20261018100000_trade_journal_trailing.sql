@@ -0,0 +1,5 @@
+-- Trailing stop the entry was submitted with, so reconciliation
+-- (server/reconcile.js) can tell a leg that lost its trailing stop.
+alter table public.trade_journal
+  add column if not exists trailing_stop numeric,
+  add column if not exists trailing_active_price numeric;
@@ -0,0 +1,26 @@
+-- Envelope-encrypted API key values (server/keyVault.js).
+-- secret_ciphertext: the value, AES-256-GCM with a per-row data key
+-- wrapped_data_key:  that data key, AES-256-GCM with the server master key
+-- master_key_id:     which master key wrapped it (API_KEYS_MASTER_KEY_ID)
+-- Existing plaintext rows are encrypted by `npm run api-keys -- reencrypt`,
+-- which also clears api_key; the server reads plaintext rows until then.
+alter table public.user_api_keys
+  add column if not exists secret_ciphertext text,
+  add column if not exists wrapped_data_key text,
+  add column if not exists master_key_id text;
+
+alter table public.user_api_keys
+  alter column api_key drop not null;
+
+alter table public.user_api_keys
+  drop constraint if exists user_api_keys_encrypted_complete;
+alter table public.user_api_keys
+  add constraint user_api_keys_encrypted_complete check (
+    (secret_ciphertext is null and wrapped_data_key is null and master_key_id is null)
+    or (secret_ciphertext is not null and wrapped_data_key is not null and master_key_id is not null)
+  );
+
+-- Keys are written and read through the server (/api/keys) with the service
+-- role; browsers may only list which services exist.
+revoke select, insert, update, delete on public.user_api_keys from anon, authenticated;
+grant select (id, user_id, service, updated_at) on public.user_api_keys to authenticated;
@@ -0,0 +1,5 @@
+-- When the entry's intent expires (the order's expireAfterMs), so
+-- reconciliation (server/reconcile.js) flags the bot's own resting entries
+-- by their own deadline.
+alter table public.trade_journal
+  add column if not exists expires_at timestamptz;
@@ -0,0 +1,384 @@
+// tests/autoTrader.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createAutoTrader, createFileAutoTradeStore } from "../server/autoTrader.js";
+import { deriveOrderLinkId } from "../src/engine/executionPolicy.js";
+
+const T0 = Date.parse("2026-10-18T10:00:00Z");
+
+function makeClock(start) {
+  let ts = start;
+  return {
+    now: () => ts,
+    advance: (ms) => {
+      ts += ms;
+    },
+  };
+}
+
+function makeSession(clock, { positions = [], orders = [], venue = {}, riskMode = "ai-matic" } = {}) {
+  return {
+    userId: "u1",
+    env: "testnet",
+    useTestnet: true,
+    creds: { apiKey: "k", apiSecret: "s" },
+    venue,
+    // The market feed is live: its last update is always "now".
+    ws: {
+      get lastUpdateAt() {
+        return clock.now();
+      },
+    },
+    engine: { riskMode, decisions: new Map() },
+    snapshot: {
+      wallet: { result: { list: [{ totalEquity: "1000", totalAvailableBalance: "1000" }] } },
+      positions: { result: { list: positions } },
+      orders: { result: { list: orders } },
+    },
+  };
+}
+
+// A long whose 1h/15m trend, EMA200, ATR and volume pass the AI-MATIC Core gates.
+const CORE_V2_BULL = {
+  htfBias: "BULL",
+  htfBreakoutBull: true,
+  htfConfirmBull: true,
+  ema200BreakoutBull: true,
+  ema200ConfirmBull: true,
+  m15SmaTrend: "BULL",
+  ltfClose: 100,
+  ema200: 95,
+  atrPct: 0.01,
+  htfAtrPct: 0.01,
+  volumeCurrent: 200,
+  volumeP50: 100,
+  volumeP60: 100,
+  volumeP65: 100,
+  volumeP70: 100,
+};
+
+const decision = (id, intent = {}, extra = {}) => ({
+  htfTrend: { consensus: "bull", alignedCount: 1 },
+  trendAdx: 22,
+  coreV2: CORE_V2_BULL,
+  ...extra,
+  signal: {
+    id,
+    entryType: "LIMIT",
+    intent: { side: "buy", entry: 100, sl: 99.99, tp: 102, ...intent },
+  },
+});
+
+function makeTrader(clock, outcome = { ok: true, result: { retCode: 0 }, protection: {} }) {
+  const calls = [];
+  const notices = [];
+  const trader = createAutoTrader({
+    now: clock.now,
+    submitOrder: async (args) => {
+      calls.push(args);
+      return typeof outcome === "function" ? outcome(args) : outcome;
+    },
+    notify: (userId, event) => notices.push({ userId, ...event }),
+  });
+  return { trader, calls, notices };
+}
+
+test("decisions are ignored until auto-trading is enabled", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls } = makeTrader(clock);
+  assert.equal(await trader.onDecision(makeSession(clock), "BTCUSDT", decision("s1")), null);
+  assert.equal(calls.length, 0);
+});
+
+test("places a sized order with normalized protection", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls, notices } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true, settings: { perTradeTestnetUsd: 60 } });
+
+  const res = await trader.onDecision(makeSession(clock), "BTCUSDT", decision("s1"));
+  assert.equal(res.placed, true);
+  assert.equal(calls.length, 1);
+  const { body, userId, env } = calls[0];
+  assert.equal(userId, "u1");
+  assert.equal(env, "testnet");
+  assert.equal(body.orderLinkId, deriveOrderLinkId({ signalId: "s1", symbol: "BTCUSDT", side: "Buy" }));
+  assert.equal(body.signalId, "s1");
+  assert.equal(body.side, "Buy");
+  assert.equal(body.orderType, "Limit");
+  // SL pushed to the 0.05% minimum distance; fixed sizing 60 USDT * 50x.
+  assert.equal(body.sl, 99.95);
+  assert.equal(body.tp, 102);
+  assert.equal(body.qty, 30);
+  assert.equal(body.journal.profile, "ai-matic");
+
+  const status = trader.getStatus("u1", "testnet");
+  assert.deepEqual(status.pending, []);
+  assert.deepEqual(
+    status.logs.map((entry) => entry.action),
+    ["OPEN", "SIGNAL", "SYSTEM"]
+  );
+  assert.ok(status.logs[0].message.startsWith("[server] BTCUSDT Buy LIMIT"));
+  assert.equal(notices.length, 1);
+  assert.equal(notices[0].type, "OPEN");
+  assert.equal(notices[0].userId, "u1");
+  assert.equal(notices[0].symbol, "BTCUSDT");
+  assert.ok(notices[0].message.startsWith("BTCUSDT Buy LIMIT qty 30"));
+});
+
+test("a signal is handled once and entry gates block repeats", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true });
+  const session = makeSession(clock);
+
+  await trader.onDecision(session, "BTCUSDT", decision("s1"));
+  assert.equal(await trader.onDecision(session, "BTCUSDT", decision("s1")), null);
+
+  const locked = await trader.onDecision(session, "BTCUSDT", decision("s2"));
+  assert.equal(locked.placed, false);
+  assert.equal(locked.reason, "ENTRY_LOCK");
+
+  clock.advance(30_000);
+  const withOrder = makeSession(clock, {
+    orders: [{ symbol: "BTCUSDT", orderStatus: "New", orderType: "Limit", side: "Buy" }],
+  });
+  const openOrder = await trader.onDecision(withOrder, "BTCUSDT", decision("s3"));
+  assert.equal(openOrder.reason, "BUY_LOCK");
+  assert.equal(calls.length, 1);
+});
+
+test("max positions and missing stop losses block new entries", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true, settings: { maxOpenPositions: 1 } });
+
+  const full = makeSession(clock, {
+    positions: [{ symbol: "ETHUSDT", side: "Buy", size: "1", avgPrice: "3000", stopLoss: "2900" }],
+  });
+  assert.equal((await trader.onDecision(full, "BTCUSDT", decision("s1"))).reason, "MAX_POS");
+
+  trader.configure("u1", "testnet", { settings: { maxOpenPositions: 5 } });
+  const unprotected = makeSession(clock, {
+    positions: [{ symbol: "ETHUSDT", side: "Buy", size: "1", avgPrice: "3000", stopLoss: "0" }],
+  });
+  assert.equal(
+    (await trader.onDecision(unprotected, "BTCUSDT", decision("s2"))).reason,
+    "PROTECTION_INACTIVE"
+  );
+  assert.equal(calls.length, 0);
+});
+
+test("decisions arriving together share the position capacity", async () => {
+  const clock = makeClock(T0);
+  const calls = [];
+  let releaseStats;
+  const statsReady = new Promise((resolve) => {
+    releaseStats = resolve;
+  });
+  const trader = createAutoTrader({
+    now: clock.now,
+    submitOrder: async (args) => {
+      calls.push(args);
+      return { ok: true, result: { retCode: 0 }, protection: {} };
+    },
+    loadTradeStats: () => statsReady,
+  });
+  trader.configure("u1", "testnet", {
+    enabled: true,
+    settings: { maxOpenPositions: 1, sizingModel: "kelly" },
+  });
+  const session = makeSession(clock);
+
+  const first = trader.onDecision(session, "BTCUSDT", decision("s1"));
+  const second = trader.onDecision(session, "ETHUSDT", decision("s2"));
+  releaseStats(null);
+  const results = await Promise.all([first, second]);
+  assert.deepEqual(
+    results.map((res) => res.placed),
+    [true, false]
+  );
+  assert.equal(results[1].reason, "MAX_POS");
+  assert.equal(calls.length, 1);
+  assert.deepEqual(trader.getStatus("u1", "testnet").pending, []);
+});
+
+test("a signal held back by a temporary gate is evaluated again", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true, settings: { maxOpenPositions: 1 } });
+  const full = makeSession(clock, {
+    positions: [{ symbol: "ETHUSDT", side: "Buy", size: "1", avgPrice: "3000", stopLoss: "2900" }],
+  });
+  assert.equal((await trader.onDecision(full, "BTCUSDT", decision("s1"))).reason, "MAX_POS");
+
+  // A signal that fails its own gates is final and leaves no entry lock.
+  const againstTrend = decision("s2", {}, { htfTrend: { consensus: "bear" }, coreV2: { ...CORE_V2_BULL, htfBias: "BEAR" } });
+  const flat = makeSession(clock);
+  assert.equal((await trader.onDecision(flat, "BTCUSDT", againstTrend)).reason, "TREND_GATE");
+  assert.equal(await trader.onDecision(flat, "BTCUSDT", againstTrend), null);
+
+  assert.equal((await trader.onDecision(flat, "BTCUSDT", decision("s1"))).placed, true);
+  assert.equal(calls.length, 1);
+});
+
+test("the dashboard's strategy gates reject entries on the server", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true });
+
+  // A long against the 1h bias fails the 1h/5m trend gate.
+  const againstTrend = await trader.onDecision(
+    makeSession(clock),
+    "BTCUSDT",
+    decision("s1", {}, { htfTrend: { consensus: "bear" }, coreV2: { ...CORE_V2_BULL, htfBias: "BEAR" } })
+  );
+  assert.deepEqual(againstTrend, { placed: false, reason: "TREND_GATE" });
+  const [log] = trader.getStatus("u1", "testnet").logs;
+  assert.equal(log.action, "RISK_BLOCK");
+  assert.equal(log.message, "[server] BTCUSDT trend gate 1h/5m [TREND_GATE]: 1h BEAR | 5m BULL");
+
+  // AMD only trades once its phase gates pass.
+  const amd = await trader.onDecision(
+    makeSession(clock, { riskMode: "ai-matic-amd" }),
+    "ETHUSDT",
+    decision("s2")
+  );
+  assert.deepEqual(amd, { placed: false, reason: "AMD_GATE" });
+  assert.equal(calls.length, 0);
+
+  // Soft gates and checklist overrides come from the synced settings.
+  trader.configure("u1", "testnet", {
+    settings: { trendGateMode: "follow", enableSoftGates: false, gateOverrides: { "HTF bias": false, x: "no" } },
+  });
+  const { settings } = trader.getStatus("u1", "testnet");
+  assert.equal(settings.trendGateMode, "follow");
+  assert.equal(settings.enableSoftGates, false);
+  assert.deepEqual(settings.gateOverrides, { "HTF bias": false });
+});
+
+test("a closed position starts the re-entry cooldown", async () => {
+  const clock = makeClock(T0);
+  const { trader, calls } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true });
+
+  const open = makeSession(clock, {
+    positions: [{ symbol: "BTCUSDT", side: "Buy", size: "1", avgPrice: "100", stopLoss: "99" }],
+  });
+  await trader.onAccount(open);
+  clock.advance(60_000);
+  const flat = makeSession(clock);
+  await trader.onAccount(flat);
+  assert.equal(trader.getStatus("u1", "testnet").logs[0].action, "CLOSE");
+
+  const blocked = await trader.onDecision(flat, "BTCUSDT", decision("s1"));
+  assert.equal(blocked.reason, "RECENT_CLOSE");
+  clock.advance(16_000);
+  assert.equal((await trader.onDecision(flat, "BTCUSDT", decision("s2"))).placed, true);
+  assert.equal(calls.length, 1);
+});
+
+test("rejections are logged and release the pending slot", async () => {
+  const clock = makeClock(T0);
+  const { trader, notices } = makeTrader(clock, (args) =>
+    args.body.symbol === "BTCUSDT"
+      ? { ok: false, status: 409, error: "Risk halt: DAILY_LOSS" }
+      : { ok: false, status: 502, error: "venue down" }
+  );
+  trader.configure("u1", "testnet", { enabled: true });
+
+  const res = await trader.onDecision(makeSession(clock), "BTCUSDT", decision("s1"));
+  assert.equal(res.placed, false);
+  const status = trader.getStatus("u1", "testnet");
+  assert.equal(status.logs[0].action, "RISK_BLOCK");
+  assert.deepEqual(status.pending, []);
+
+  // Risk blocks stay in the log; other rejections are notified as errors.
+  await trader.onDecision(makeSession(clock), "ETHUSDT", decision("s2"));
+  assert.equal(trader.getStatus("u1", "testnet").logs[0].action, "ERROR");
+  assert.deepEqual(
+    notices.map((notice) => [notice.type, notice.symbol]),
+    [["ERROR", "ETHUSDT"]]
+  );
+});
+
+test("leaves a missing stop loss to the protection watchdog", async () => {
+  const clock = makeClock(T0);
+  const { trader } = makeTrader(clock);
+  trader.configure("u1", "testnet", { enabled: true });
+  const stops = [];
+  const venue = {
+    setTradingStop: async (protection) => {
+      stops.push(protection);
+      return { retCode: 0 };
+    },
+  };
+  await trader.onDecision(makeSession(clock, { venue }), "BTCUSDT", decision("s1"));
+
+  const filled = makeSession(clock, {
+    venue,
+    positions: [{ symbol: "BTCUSDT", side: "Buy", size: "30", avgPrice: "100", stopLoss: "", positionIdx: 0 }],
+  });
+  await trader.onAccount(filled);
+  clock.advance(60_000);
+  await trader.onAccount(filled);
+  assert.deepEqual(stops, []);
+});
+
+test("kelly sizing uses the profile's journal stats under the risk cap", async () => {
+  const clock = makeClock(T0);
+  const calls = [];
+  const queries = [];
+  const trader = createAutoTrader({
+    now: clock.now,
+    submitOrder: async (args) => {
+      calls.push(args);
+      return { ok: true, result: { retCode: 0 }, protection: {} };
+    },
+    loadTradeStats: async (query) => {
+      queries.push(query);
+      return { trades: 40, wins: 24, losses: 16, winRate: 0.6, avgWin: 15, avgLoss: 10, payoffRatio: 1.5 };
+    },
+  });
+  trader.configure("u1", "mainnet", {
+    enabled: true,
+    settings: { sizingModel: "kelly", kellyFraction: 0.5, maxRiskPerTradeCap: 0.02 },
+  });
+  const session = { ...makeSession(clock), env: "mainnet", useTestnet: false };
+
+  const res = await trader.onDecision(session, "BTCUSDT", decision("s1", { sl: 98, tp: 104 }));
+  assert.equal(res.placed, true);
+  assert.deepEqual(queries, [{ userId: "u1", env: "mainnet", profile: "ai-matic" }]);
+  // Half Kelly of 1/3 is capped at 2% of 1000 USDT = 20 USDT over a 2 USDT stop.
+  assert.equal(calls[0].body.qty, 10);
+});
+
+test("configs survive a restart through the file store", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "autotrade-"));
+  const file = path.join(dir, "autotrade.json");
+  try {
+    const first = createAutoTrader({ store: createFileAutoTradeStore(file) });
+    first.configure("u1", "mainnet", {
+      enabled: true,
+      riskMode: "ai-matic-tree",
+      symbols: ["BTCUSDT", "ETHUSDT"],
+      settings: { maxOpenPositions: 2, perTradeMainnetUsd: "abc" },
+    });
+    first.configure("u2", "testnet", { enabled: false });
+
+    const second = createAutoTrader({ store: createFileAutoTradeStore(file) });
+    const enabled = second.listEnabled();
+    assert.equal(enabled.length, 1);
+    assert.equal(enabled[0].userId, "u1");
+    assert.equal(enabled[0].riskMode, "ai-matic-tree");
+    assert.deepEqual(enabled[0].symbols, ["BTCUSDT", "ETHUSDT"]);
+    const status = second.getStatus("u1", "mainnet");
+    assert.equal(status.enabled, true);
+    assert.equal(status.settings.maxOpenPositions, 2);
+    assert.equal(status.settings.perTradeMainnetUsd, 20);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
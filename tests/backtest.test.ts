@@ -0,0 +1,182 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseCandlesCsv,
+  parseCandlesJson,
+  runBacktest,
+  runBacktestForProfiles,
+  type BacktestDecisionFn,
+} from "../src/engine/backtest";
+import { State, Trend, type Candle, type EngineSignal } from "../src/engine/botEngine";
+
+const TF_5M = 5 * 60_000;
+
+function bar(idx: number, open: number, high: number, low: number, close: number): Candle {
+  return { openTime: idx * TF_5M, open, high, low, close, volume: 100 };
+}
+
+function flatSeries(count: number, price = 100): Candle[] {
+  return Array.from({ length: count }, (_, i) => bar(i, price, price + 0.2, price - 0.2, price));
+}
+
+function scriptedDecision(signalAt: number, signal: Partial<EngineSignal>): BacktestDecisionFn {
+  return (symbol, candles) => {
+    const last = candles[candles.length - 1];
+    const fire = last.openTime === signalAt * TF_5M;
+    return {
+      state: State.Scan,
+      trend: Trend.Range,
+      signal: fire
+        ? ({
+            id: `${symbol}-test`,
+            symbol,
+            risk: 1,
+            message: "test",
+            createdAt: new Date(last.openTime).toISOString(),
+            entryType: "LIMIT",
+            ...signal,
+          } as EngineSignal)
+        : null,
+    };
+  };
+}
+
+const baseConfig = {
+  initialBalance: 1000,
+  riskPerTrade: 0.01,
+  warmupBars: 1,
+  makerFeeRate: 0,
+  takerFeeRate: 0,
+  slippagePct: 0,
+  partialSteps: [],
+  trailingActivationR: 0,
+};
+
+test("limit long fills on the next bar and exits at take-profit", () => {
+  const candles = flatSeries(10);
+  candles[4] = bar(4, 100, 100.2, 99, 99.5);
+  candles[6] = bar(6, 100, 103, 99.8, 102.5);
+  const result = runBacktest({
+    symbol: "BTCUSDT",
+    candles,
+    profile: "ai-matic",
+    config: baseConfig,
+    decisionFn: scriptedDecision(3, { intent: { side: "buy", entry: 99.5, sl: 98.5, tp: 102 } }),
+  });
+  assert.equal(result.trades.length, 1);
+  const [trade] = result.trades;
+  assert.equal(trade.entryTime, 4 * TF_5M);
+  assert.equal(trade.entryPrice, 99.5);
+  assert.equal(trade.exitReason, "TP");
+  assert.equal(trade.exitPrice, 102);
+  assert.equal(Number(trade.rMultiple.toFixed(2)), 2.5);
+  assert.equal(Number(trade.pnl.toFixed(2)), 25);
+  assert.equal(result.stats.winRate, 1);
+  assert.equal(Number(result.equityCurve.at(-1)?.equity.toFixed(2)), 1025);
+});
+
+test("stop is checked before take-profit on the same bar", () => {
+  const candles = flatSeries(8);
+  candles[5] = bar(5, 100, 103, 98, 100);
+  const result = runBacktest({
+    symbol: "BTCUSDT",
+    candles,
+    profile: "ai-matic",
+    config: baseConfig,
+    decisionFn: scriptedDecision(3, { entryType: "MARKET", intent: { side: "buy", entry: 100, sl: 99, tp: 102 } }),
+  });
+  assert.equal(result.trades.length, 1);
+  assert.equal(result.trades[0].exitReason, "SL");
+  assert.equal(Number(result.trades[0].rMultiple.toFixed(2)), -1);
+  assert.ok(result.stats.maxDrawdownPct > 0);
+});
+
+test("partial exit moves stop to breakeven and trailing locks profit on a short", () => {
+  const candles = flatSeries(12);
+  candles[5] = bar(5, 100, 100.1, 98.9, 99);
+  candles[6] = bar(6, 99, 99.1, 97, 97.5);
+  candles[7] = bar(7, 97.5, 98.6, 97.4, 98.5);
+  const result = runBacktest({
+    symbol: "ETHUSDT",
+    candles,
+    profile: "ai-matic",
+    config: {
+      ...baseConfig,
+      partialSteps: [{ r: 1, exitFraction: 0.5 }],
+      trailingActivationR: 2,
+      trailingRetraceR: 1,
+    },
+    decisionFn: scriptedDecision(3, {
+      entryType: "MARKET",
+      intent: { side: "sell", entry: 100, sl: 101, tp: 0 },
+    }),
+  });
+  assert.equal(result.trades.length, 1);
+  const [trade] = result.trades;
+  assert.equal(trade.fills[0].reason, "PARTIAL");
+  assert.equal(trade.fills[0].price, 99);
+  assert.equal(trade.exitReason, "TRAIL");
+  assert.equal(trade.exitPrice, 98);
+  assert.ok(trade.pnl > 0);
+});
+
+test("unfilled limit orders expire", () => {
+  const candles = flatSeries(12);
+  const result = runBacktest({
+    symbol: "BTCUSDT",
+    candles,
+    profile: "ai-matic",
+    config: { ...baseConfig, entryExpiryBars: 2 },
+    decisionFn: scriptedDecision(3, { intent: { side: "buy", entry: 95, sl: 94, tp: 99 } }),
+  });
+  assert.equal(result.trades.length, 0);
+  assert.equal(result.stats.signals, 1);
+  assert.equal(result.stats.expiredOrders, 1);
+});
+
+test("decision errors are counted instead of backtesting as no trades", () => {
+  const candles = flatSeries(10);
+  const result = runBacktest({
+    symbol: "BTCUSDT",
+    candles,
+    profile: "ai-matic",
+    config: baseConfig,
+    decisionFn: (symbol, window) => {
+      if (window.length >= 4) throw new Error("indicator blew up");
+      return { state: State.Scan, trend: Trend.Range, signal: null };
+    },
+  });
+  assert.equal(result.trades.length, 0);
+  assert.equal(result.stats.decisionErrors, 7);
+  assert.equal(result.stats.firstDecisionError, "bar 3: indicator blew up");
+});
+
+test("every profile replays without throwing", () => {
+  const candles = Array.from({ length: 400 }, (_, i) => {
+    const base = 100 + Math.sin(i / 12) * 3 + i * 0.01;
+    return bar(i, base, base + 0.6, base - 0.6, base + 0.1);
+  });
+  const results = runBacktestForProfiles({
+    symbol: "SOLUSDT",
+    candles,
+    config: { warmupBars: 350, maxCandles: 400 },
+  });
+  assert.equal(results.length, 7);
+  for (const result of results) {
+    assert.equal(result.equityCurve.length, candles.length);
+    assert.ok(Number.isFinite(result.stats.netPnl));
+  }
+});
+
+test("parses CSV and Bybit-style JSON candles", () => {
+  const csv = "timestamp,open,high,low,close,volume\n1700000300,2,3,1,2.5,10\n1700000000,1,2,0.5,1.5,5\n";
+  const fromCsv = parseCandlesCsv(csv);
+  assert.equal(fromCsv.length, 2);
+  assert.equal(fromCsv[0].openTime, 1700000000000);
+  assert.equal(fromCsv[1].close, 2.5);
+
+  const json = JSON.stringify({ result: { list: [["1700000300000", "2", "3", "1", "2.5", "10"]] } });
+  const fromJson = parseCandlesJson(json);
+  assert.equal(fromJson.length, 1);
+  assert.equal(fromJson[0].high, 3);
+});
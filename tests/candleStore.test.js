@@ -0,0 +1,212 @@
+// tests/candleStore.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  createCandleStore,
+  createMemoryCandleBackend,
+  findCandleGaps,
+  parseCandleCsv,
+} from "../src/engine/candleStoreEngine.js";
+import { createFileCandleBackend } from "../server/candleStore.js";
+
+const BAR = 5 * 60_000;
+const T0 = Date.parse("2026-10-18T00:00:00Z");
+
+const candle = (i, close = 100 + i) => ({
+  openTime: T0 + i * BAR,
+  open: close - 1,
+  high: close + 1,
+  low: close - 2,
+  close,
+  volume: 10,
+});
+
+const range = (from, to) => Array.from({ length: to - from + 1 }, (_, k) => candle(from + k));
+
+// Exchange stub: `bars` are the exchange history, pages go back from `end`.
+function makeExchange(bars) {
+  const requests = [];
+  return {
+    requests,
+    fetchPage: async ({ end, limit }) => {
+      requests.push({ end, limit });
+      return bars.filter((c) => c.openTime <= end).slice(-limit);
+    },
+  };
+}
+
+test("write keeps the last version per bar and reads ranges in order", async () => {
+  const backend = createMemoryCandleBackend();
+  const store = createCandleStore({ backend });
+
+  assert.equal(await store.write("btcusdt", "5", [candle(2), candle(0), candle(1)]), 3);
+  assert.equal(await store.write("BTCUSDT", "5", [candle(1), candle(2, 150)]), 1);
+
+  const all = await store.read("BTCUSDT", "5");
+  assert.deepEqual(all.map((c) => c.close), [100, 101, 150]);
+  assert.deepEqual(
+    (await store.read("BTCUSDT", "5", { from: T0 + BAR })).map((c) => c.close),
+    [101, 150]
+  );
+  assert.deepEqual((await store.read("BTCUSDT", "5", { limit: 1 })).map((c) => c.close), [150]);
+  // Only the changed bar was appended.
+  assert.equal((await backend.load("BTCUSDT:5")).length, 4);
+  assert.deepEqual(await store.keys(), ["BTCUSDT:5"]);
+});
+
+test("finds gaps and repairs them from the exchange", async () => {
+  const store = createCandleStore();
+  await store.write("BTCUSDT", "5", [...range(0, 3), ...range(6, 7), ...range(10, 10)]);
+
+  assert.deepEqual(await store.findGaps("BTCUSDT", "5"), [
+    { from: T0 + 4 * BAR, to: T0 + 5 * BAR, missing: 2 },
+    { from: T0 + 8 * BAR, to: T0 + 9 * BAR, missing: 2 },
+  ]);
+  assert.deepEqual(findCandleGaps(range(0, 3), "5"), []);
+
+  const exchange = makeExchange(range(0, 10));
+  assert.equal(await store.repairGaps("BTCUSDT", "5", { fetchPage: exchange.fetchPage }), 4);
+  assert.deepEqual(await store.findGaps("BTCUSDT", "5"), []);
+  assert.deepEqual(
+    exchange.requests.map((r) => [(r.end - T0) / BAR, r.limit]),
+    [
+      [5, 2],
+      [9, 2],
+    ]
+  );
+});
+
+test("loadWindow serves stored bars and fetches only the missing tail", async () => {
+  const store = createCandleStore();
+  await store.write("BTCUSDT", "5", range(0, 89));
+  const exchange = makeExchange(range(0, 100));
+  // Bar 100 is still forming.
+  const nowMs = T0 + 100 * BAR + 60_000;
+
+  const result = await store.loadWindow("BTCUSDT", "5", {
+    bars: 50,
+    fetchPage: exchange.fetchPage,
+    includeOpen: true,
+    nowMs,
+  });
+  assert.equal(exchange.requests.length, 1);
+  assert.equal(exchange.requests[0].limit, 12);
+  assert.equal(result.fromStore, 40);
+  assert.equal(result.written, 10);
+  assert.equal(result.error, null);
+  assert.deepEqual(
+    result.candles.map((c) => (c.openTime - T0) / BAR),
+    Array.from({ length: 51 }, (_, k) => 50 + k)
+  );
+  // The forming bar is served but not stored.
+  assert.equal((await store.read("BTCUSDT", "5")).at(-1).openTime, T0 + 99 * BAR);
+});
+
+test("loadWindow fills history, window gaps and remembers unfillable gaps", async () => {
+  const store = createCandleStore();
+  await store.write("BTCUSDT", "5", [...range(80, 84), ...range(90, 99)]);
+  // The exchange itself misses bars 60-61 (maintenance).
+  const exchange = makeExchange([...range(0, 59), ...range(62, 100)]);
+  const nowMs = T0 + 100 * BAR + 1;
+
+  const first = await store.loadWindow("BTCUSDT", "5", {
+    bars: 40,
+    fetchPage: exchange.fetchPage,
+    nowMs,
+  });
+  assert.deepEqual(
+    first.gaps.map((g) => [(g.from - T0) / BAR, g.missing]),
+    [[60, 2]]
+  );
+  assert.equal(first.candles.length, 38);
+  assert.equal(first.candles[0].openTime, T0 + 62 * BAR);
+
+  exchange.requests.length = 0;
+  const second = await store.loadWindow("BTCUSDT", "5", {
+    bars: 40,
+    fetchPage: exchange.fetchPage,
+    nowMs,
+  });
+  assert.equal(second.fromStore, 38);
+  // Only the tail page; the exchange gap is not asked for again.
+  assert.equal(exchange.requests.length, 1);
+});
+
+test("loadWindow falls back to stored bars when the exchange fails", async () => {
+  const store = createCandleStore();
+  await store.write("BTCUSDT", "5", range(0, 9));
+  const failing = async () => {
+    throw new Error("HTTP 503");
+  };
+  const nowMs = T0 + 12 * BAR + 1;
+
+  const result = await store.loadWindow("BTCUSDT", "5", { bars: 5, fetchPage: failing, nowMs });
+  assert.equal(result.error, "HTTP 503");
+  assert.deepEqual(
+    result.candles.map((c) => (c.openTime - T0) / BAR),
+    [7, 8, 9]
+  );
+  await assert.rejects(
+    createCandleStore().loadWindow("BTCUSDT", "5", { bars: 5, fetchPage: failing, nowMs }),
+    /HTTP 503/
+  );
+});
+
+test("CSV import accepts common headers and export round-trips", async () => {
+  const csv = [
+    "timestamp;open;high;low;close;volume",
+    "2026-10-18T00:05:00Z;1;3;0.5;2;7",
+    "1792281600;1;2;0;1.5;4",
+    "bad;row;x;x;x;x",
+  ].join("\n");
+  const parsed = parseCandleCsv(csv);
+  assert.deepEqual(
+    parsed.map((c) => [c.openTime, c.close]),
+    [
+      [T0, 1.5],
+      [T0 + BAR, 2],
+    ]
+  );
+  assert.throws(() => parseCandleCsv("a,b\n1,2"), /candle_csv_missing_columns/);
+
+  const store = createCandleStore();
+  assert.equal(await store.importCsv("ETHUSDT", "5", csv), 2);
+  const exported = await store.exportCsv("ETHUSDT", "5");
+  assert.equal(
+    exported,
+    `openTime,open,high,low,close,volume\n${T0},1,2,0,1.5,4\n${T0 + BAR},1,3,0.5,2,7\n`
+  );
+  assert.deepEqual(parseCandleCsv(exported), parsed);
+});
+
+test("file backend appends rows, survives a torn line and compacts", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "candles-"));
+  try {
+    const store = createCandleStore({ backend: createFileCandleBackend(dir) });
+    await store.write("BTCUSDT", "5", range(0, 2));
+    await store.write("BTCUSDT", "5", [candle(2, 200)]);
+    const file = path.join(dir, "BTCUSDT_5.jsonl");
+    assert.equal(fs.readFileSync(file, "utf8").trim().split("\n").length, 4);
+    fs.appendFileSync(file, "[17927");
+
+    const reopened = createCandleStore({ backend: createFileCandleBackend(dir) });
+    assert.deepEqual(
+      (await reopened.read("BTCUSDT", "5")).map((c) => c.close),
+      [100, 101, 200]
+    );
+    assert.deepEqual(await reopened.keys(), ["BTCUSDT:5"]);
+
+    // Retention rewrites the file with the newest bars only.
+    const capped = createCandleStore({ backend: createFileCandleBackend(dir), maxCandles: 2 });
+    await capped.write("BTCUSDT", "5", [candle(3)]);
+    assert.deepEqual(
+      fs.readFileSync(file, "utf8").trim().split("\n").map((line) => JSON.parse(line)[0]),
+      [T0 + 2 * BAR, T0 + 3 * BAR]
+    );
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,135 @@
+// tests/correlation.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeCorrelationMatrix,
+  createCorrelationService,
+  lookupBeta,
+  lookupCorrelation,
+  normalizeCorrelationSnapshot,
+  parseCorrelationWindows,
+  selectCorrelationWindow,
+} from "../src/engine/correlation";
+import {
+  computeCorrelatedExposureScale,
+  resolvePairCorrelation,
+  type Candle,
+} from "../src/engine/botEngine";
+
+const BAR_MS = 5 * 60_000;
+
+// Candles whose log returns are exactly `returns` (first bar has no return).
+function candlesFromReturns(returns: number[], startBar = 0): Candle[] {
+  let close = 100;
+  const candles: Candle[] = [
+    { openTime: startBar * BAR_MS, open: close, high: close, low: close, close, volume: 1 },
+  ];
+  returns.forEach((r, i) => {
+    close *= Math.exp(r);
+    candles.push({
+      openTime: (startBar + i + 1) * BAR_MS,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1,
+    });
+  });
+  return candles;
+}
+
+const wave = Array.from({ length: 60 }, (_, i) => 0.01 * Math.sin(i * 0.7) + 0.002 * Math.cos(i * 2.3));
+
+test("matrix holds pairwise correlations and betas against BTC", () => {
+  const matrix = computeCorrelationMatrix(
+    {
+      SOLUSDT: candlesFromReturns(wave.map((r) => -r)),
+      ETHUSDT: candlesFromReturns(wave.map((r) => 2 * r)),
+      BTCUSDT: candlesFromReturns(wave),
+    },
+    { window: 48 }
+  );
+  assert.deepEqual(matrix.symbols, ["BTCUSDT", "ETHUSDT", "SOLUSDT"]);
+  assert.equal(matrix.samples, 48);
+  assert.equal(lookupCorrelation(matrix, "btcusdt", "ETHUSDT"), 1);
+  assert.equal(lookupCorrelation(matrix, "ETHUSDT", "SOLUSDT"), -1);
+  assert.equal(matrix.values[0][0], 1);
+  assert.equal(lookupBeta(matrix, "ETHUSDT"), 2);
+  assert.equal(lookupBeta(matrix, "SOLUSDT"), -1);
+  assert.equal(lookupBeta(matrix, "BTCUSDT"), 1);
+  assert.ok(Number.isNaN(lookupCorrelation(matrix, "BTCUSDT", "XRPUSDT")));
+});
+
+test("returns are aligned by bar time and short overlaps stay empty", () => {
+  // ADA starts 40 bars later: only 20 shared returns with BTC.
+  const matrix = computeCorrelationMatrix(
+    {
+      BTCUSDT: candlesFromReturns(wave),
+      ADAUSDT: candlesFromReturns(wave.slice(40), 40),
+    },
+    { window: 48, minSamples: 25 }
+  );
+  assert.equal(matrix.samples, 20);
+  assert.equal(matrix.values[0][1], null);
+  assert.equal(matrix.betas.ADAUSDT, null);
+  assert.ok(Number.isNaN(lookupCorrelation(matrix, "ADAUSDT", "BTCUSDT")));
+
+  const shifted = computeCorrelationMatrix(
+    {
+      BTCUSDT: candlesFromReturns(wave),
+      ADAUSDT: candlesFromReturns(wave.slice(40), 40),
+    },
+    { window: 48, minSamples: 20 }
+  );
+  assert.equal(lookupCorrelation(shifted, "ADAUSDT", "BTCUSDT"), 1);
+});
+
+test("service recomputes every window at most once per interval", () => {
+  const service = createCorrelationService({ windows: "288,48,48", minIntervalMs: 5_000 });
+  assert.deepEqual(service.windows(), [48, 288]);
+  const candles = new Map([
+    ["BTCUSDT", candlesFromReturns(wave)],
+    ["ETHUSDT", candlesFromReturns(wave.map((r) => r * 3))],
+  ]);
+  const first = service.update(candles, 10_000);
+  assert.deepEqual(
+    first.windows.map((matrix) => [matrix.window, matrix.samples]),
+    [
+      [48, 48],
+      [288, 60],
+    ]
+  );
+  candles.set("ETHUSDT", candlesFromReturns(wave.map((r) => -r)));
+  assert.equal(service.update(candles, 12_000), first);
+  const second = service.update(candles, 15_000);
+  assert.equal(lookupCorrelation(selectCorrelationWindow(second, 288), "ETHUSDT", "BTCUSDT"), -1);
+  assert.equal(selectCorrelationWindow(second, 999)?.window, 48);
+
+  // Wire format: null cells survive, garbage does not.
+  const restored = normalizeCorrelationSnapshot(JSON.parse(JSON.stringify(second)));
+  assert.deepEqual(restored, second);
+  assert.equal(normalizeCorrelationSnapshot({ windows: "x" }), null);
+  assert.deepEqual(parseCorrelationWindows("abc"), [48, 288]);
+});
+
+test("exposure scaler prefers live correlations over the static table", () => {
+  const matrix = computeCorrelationMatrix(
+    {
+      BTCUSDT: candlesFromReturns(wave),
+      ETHUSDT: candlesFromReturns(wave.map((r, i) => (i % 2 ? r : -r))),
+    },
+    { window: 48 }
+  );
+  const live = (a: string, b: string) => lookupCorrelation(matrix, a, b);
+  assert.equal(resolvePairCorrelation("BTCUSDT", "ETHUSDT"), 0.92);
+  assert.ok(resolvePairCorrelation("BTCUSDT", "ETHUSDT", live) < 0.8);
+  // Pairs without live data keep the static fallback.
+  assert.equal(resolvePairCorrelation("ETHUSDT", "SOLUSDT", live), 0.88);
+
+  const exposures = [{ symbol: "BTCUSDT", side: "bull" as const }];
+  const args = { targetSymbol: "ETHUSDT", targetSide: "bull" as const, exposures };
+  assert.equal(computeCorrelatedExposureScale(args).clusterSize, 2);
+  const scaled = computeCorrelatedExposureScale({ ...args, correlation: live });
+  assert.equal(scaled.clusterSize, 1);
+  assert.equal(scaled.scale, 1);
+});
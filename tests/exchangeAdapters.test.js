@@ -0,0 +1,272 @@
+// tests/exchangeAdapters.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { createBinanceAdapter } from "../server/exchanges/binanceAdapter.js";
+import {
+  assertExchangeAdapter,
+  getExchangeAdapter,
+  listExchanges,
+  normalizeExchangeId,
+} from "../server/exchanges/index.js";
+
+const FIXTURES = JSON.parse(
+  readFileSync(new URL("./fixtures/binance-usdm.json", import.meta.url), "utf8")
+);
+const CREDS = { apiKey: "test-key", apiSecret: "test-secret" };
+const NOW = 1700000000000;
+
+// Replays recorded Binance responses keyed by "METHOD /path". A fixture keyed
+// by symbol is resolved with the request's symbol param; `errors` entries are
+// thrown the way axios reports a 4xx with a Binance { code, msg } body.
+function createFixtureHttp({ overrides = {}, errors = {} } = {}) {
+  const calls = [];
+  return {
+    calls,
+    async request({ method, url, headers }) {
+      const parsed = new URL(url);
+      const params = Object.fromEntries(parsed.searchParams);
+      const key = `${method} ${parsed.pathname}`;
+      calls.push({ key, params, headers, host: parsed.host });
+      if (errors[key]) {
+        const err = new Error("Request failed with status code 400");
+        err.response = { status: 400, data: errors[key] };
+        throw err;
+      }
+      const fixture = key in overrides ? overrides[key] : FIXTURES[key];
+      if (fixture === undefined) throw new Error(`no fixture for ${key}`);
+      const bySymbol = fixture && !Array.isArray(fixture) && params.symbol in fixture;
+      return { status: 200, data: bySymbol ? fixture[params.symbol] : fixture };
+    },
+  };
+}
+
+function makeAdapter(opts) {
+  const http = createFixtureHttp(opts);
+  return { http, adapter: createBinanceAdapter({ http, now: () => NOW }) };
+}
+
+test("registry resolves adapters and rejects unknown exchanges", () => {
+  assert.equal(getExchangeAdapter().id, "bybit");
+  assert.equal(getExchangeAdapter("Binance").id, "binance");
+  assert.equal(normalizeExchangeId(" BYBIT "), "bybit");
+  assert.deepEqual(
+    listExchanges().map((e) => e.id),
+    ["bybit", "binance"]
+  );
+  assert.throws(() => getExchangeAdapter("okx"), /Unsupported exchange/);
+  assert.throws(() => assertExchangeAdapter({ id: "x" }), /missing/);
+});
+
+test("binance createDemoOrder signs the request and maps a conditional entry", async () => {
+  const { http, adapter } = makeAdapter();
+  const res = await adapter.createDemoOrder(
+    {
+      symbol: "BTCUSDT",
+      side: "Buy",
+      qty: 0.0025,
+      orderType: "Market",
+      triggerPrice: 61000,
+      orderLinkId: "intent-1",
+      leverage: 20,
+    },
+    CREDS,
+    true
+  );
+  assert.equal(res.retCode, 0);
+  assert.equal(res.result.orderId, "4050123456");
+  assert.equal(res.result.orderLinkId, "intent-1");
+
+  const orderCall = http.calls.find((c) => c.key === "POST /fapi/v1/order");
+  assert.equal(orderCall.host, "testnet.binancefuture.com");
+  assert.equal(orderCall.headers["X-MBX-APIKEY"], "test-key");
+  assert.match(orderCall.params.signature, /^[0-9a-f]{64}$/);
+  assert.equal(orderCall.params.timestamp, String(NOW));
+  // Trigger above the last price on a buy is a breakout stop.
+  assert.equal(orderCall.params.type, "STOP_MARKET");
+  assert.equal(orderCall.params.stopPrice, "61000");
+  assert.equal(orderCall.params.quantity, "0.002");
+  assert.equal(orderCall.params.newClientOrderId, "intent-1");
+  assert.equal(orderCall.params.timeInForce, undefined);
+  assert.ok(http.calls.some((c) => c.key === "POST /fapi/v1/leverage" && c.params.leverage === "20"));
+});
+
+test("binance limit PostOnly maps to GTX and bumps qty to min notional", async () => {
+  const { http, adapter } = makeAdapter();
+  const res = await adapter.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 0.001, orderType: "Limit", price: 59000, timeInForce: "PostOnly" },
+    CREDS,
+    true
+  );
+  assert.equal(res.retCode, 0);
+  const orderCall = http.calls.find((c) => c.key === "POST /fapi/v1/order");
+  assert.equal(orderCall.params.type, "LIMIT");
+  assert.equal(orderCall.params.timeInForce, "GTX");
+  // 100 USDT min notional at 59000 -> 0.002
+  assert.equal(orderCall.params.quantity, "0.002");
+});
+
+test("binance rejections come back as retCode, not exceptions", async () => {
+  const { adapter } = makeAdapter({
+    errors: { "POST /fapi/v1/order": { code: -2019, msg: "Margin is insufficient." } },
+  });
+  const res = await adapter.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Sell", qty: 0.01, orderType: "Limit", price: 61000 },
+    CREDS,
+    true
+  );
+  assert.equal(res.retCode, -2019);
+  assert.equal(res.retMsg, "Margin is insufficient.");
+});
+
+test("binance positions expose SL/TP from closePosition orders", async () => {
+  const { adapter } = makeAdapter();
+  const res = await adapter.getDemoPositions(CREDS, true);
+  assert.equal(res.retCode, 0);
+  assert.equal(res.result.list.length, 1);
+  const [pos] = res.result.list;
+  assert.equal(pos.symbol, "BTCUSDT");
+  assert.equal(pos.side, "Buy");
+  assert.equal(pos.size, "0.01");
+  assert.equal(pos.avgPrice, "59500");
+  assert.equal(pos.stopLoss, "58000");
+  assert.equal(pos.takeProfit, "62000");
+  assert.equal(pos.trailingStop, "0");
+  assert.equal(pos.positionIdx, 0);
+});
+
+test("binance open orders map to the canonical order shape", async () => {
+  const { adapter } = makeAdapter();
+  const res = await adapter.listDemoOpenOrders(CREDS, { limit: 50 }, true);
+  const byId = Object.fromEntries(res.result.list.map((o) => [o.orderLinkId, o]));
+  assert.equal(byId.web_sl.stopOrderType, "StopLoss");
+  assert.equal(byId.web_sl.orderStatus, "Untriggered");
+  assert.equal(byId.web_sl.reduceOnly, true);
+  assert.equal(byId["intent-2"].orderStatus, "PartiallyFilled");
+  assert.equal(byId["intent-2"].orderType, "Limit");
+  assert.equal(byId["intent-2"].timeInForce, "PostOnly");
+  assert.equal(byId["intent-2"].leavesQty, "0.003");
+  assert.equal(byId["intent-2"].cumExecQty, "0.001");
+});
+
+test("binance executions and closed pnl fan out over active symbols", async () => {
+  const { http, adapter } = makeAdapter();
+  const execs = await adapter.listExecutions(CREDS, { limit: 10 }, true);
+  assert.equal(execs.retCode, 0);
+  assert.deepEqual(
+    http.calls.filter((c) => c.key === "GET /fapi/v1/userTrades").map((c) => c.params.symbol).sort(),
+    ["BTCUSDT", "ETHUSDT"]
+  );
+  assert.equal(execs.result.list[0].execId, "901");
+  const closing = execs.result.list.find((e) => e.execId === "803");
+  assert.equal(closing.closedSize, "0.6");
+  assert.equal(closing.execPnl, "12");
+
+  const pnl = await adapter.listClosedPnl(CREDS, { limit: 10 }, true);
+  assert.equal(pnl.result.list.length, 1);
+  const [row] = pnl.result.list;
+  assert.equal(row.symbol, "ETHUSDT");
+  assert.equal(row.side, "Sell");
+  assert.equal(row.closedSize, "1");
+  assert.equal(row.avgExitPrice, "3016");
+  assert.equal(row.avgEntryPrice, "3000");
+  // 16 realized minus 1.5 closing fees
+  assert.equal(row.closedPnl, "14.5");
+});
+
+test("binance wallet maps to the UNIFIED balance shape", async () => {
+  const { adapter } = makeAdapter();
+  const res = await adapter.getWalletBalance(CREDS, true);
+  const [account] = res.result.list;
+  assert.equal(account.accountType, "UNIFIED");
+  assert.equal(account.totalEquity, "1005");
+  assert.equal(account.totalAvailableBalance, "975");
+  assert.equal(account.coin[0].coin, "USDT");
+  assert.equal(account.coin[0].walletBalance, "1000");
+});
+
+test("binance setTradingStop replaces SL and reports missing positions", async () => {
+  const { http, adapter } = makeAdapter();
+  const res = await adapter.setTradingStop({ symbol: "BTCUSDT", sl: 58500 }, CREDS, true);
+  assert.equal(res.retCode, 0);
+  const cancelled = http.calls.filter((c) => c.key === "DELETE /fapi/v1/order");
+  assert.deepEqual(cancelled.map((c) => c.params.orderId), ["4050000001"]);
+  const placed = http.calls.filter((c) => c.key === "POST /fapi/v1/order");
+  assert.equal(placed.length, 1);
+  assert.equal(placed[0].params.type, "STOP_MARKET");
+  assert.equal(placed[0].params.side, "SELL");
+  assert.equal(placed[0].params.closePosition, "true");
+  assert.equal(placed[0].params.stopPrice, "58500");
+
+  const { adapter: flat } = makeAdapter({ overrides: { "GET /fapi/v2/positionRisk": [] } });
+  const missing = await flat.setTradingStop({ symbol: "BTCUSDT", sl: 58500 }, CREDS, true);
+  assert.equal(missing.retCode, 10001);
+});
+
+test("binance hedge legs map to positionIdx and protection targets one leg", async () => {
+  const leg = (positionSide, positionAmt) => ({
+    symbol: "BTCUSDT",
+    positionAmt,
+    entryPrice: "59500.0",
+    markPrice: "60000.00",
+    unRealizedProfit: "0",
+    leverage: "20",
+    positionSide,
+    updateTime: NOW,
+  });
+  const { http, adapter } = makeAdapter({
+    overrides: {
+      "GET /fapi/v2/positionRisk": [leg("LONG", "0.010"), leg("SHORT", "-0.020")],
+      "GET /fapi/v1/openOrders": [],
+      "POST /fapi/v1/positionSide/dual": { code: 200, msg: "success" },
+    },
+  });
+  const positions = (await adapter.getDemoPositions(CREDS, true)).result.list;
+  assert.deepEqual(
+    positions.map((p) => [p.side, p.size, p.positionIdx]),
+    [
+      ["Buy", "0.01", 1],
+      ["Sell", "0.02", 2],
+    ]
+  );
+
+  assert.equal((await adapter.setTradingStop({ symbol: "BTCUSDT", side: "Sell", sl: 61000 }, CREDS, true)).retCode, 0);
+  const stop = http.calls.find((c) => c.key === "POST /fapi/v1/order");
+  assert.equal(stop.params.positionSide, "SHORT");
+  assert.equal(stop.params.side, "BUY");
+
+  const switched = await adapter.setPositionMode("hedge", CREDS, true);
+  assert.deepEqual(switched.result, { mode: "hedge" });
+  assert.equal(http.calls.find((c) => c.key === "POST /fapi/v1/positionSide/dual").params.dualSidePosition, "true");
+
+  const { adapter: unchanged } = makeAdapter({
+    errors: { "POST /fapi/v1/positionSide/dual": { code: -4059, msg: "No need to change position side." } },
+  });
+  assert.equal((await unchanged.setPositionMode("oneway", CREDS, true)).retCode, 0);
+  await assert.rejects(() => unchanged.setPositionMode("both", CREDS, true), /Invalid position mode/);
+});
+
+test("binance signed calls require credentials", async () => {
+  const { adapter } = makeAdapter();
+  await assert.rejects(
+    () => adapter.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1 }, {}, true),
+    /Missing Binance API credentials/
+  );
+});
+
+test("binance getTicker maps the book ticker onto Bybit ticker fields", async () => {
+  const { http, adapter } = makeAdapter({
+    overrides: {
+      "GET /fapi/v1/ticker/bookTicker": { symbol: "BTCUSDT", bidPrice: "64999.9", askPrice: "65000.1" },
+    },
+  });
+  const res = await adapter.getTicker("BTCUSDT", false);
+  assert.equal(res.retCode, 0);
+  assert.deepEqual(res.result.list[0], {
+    symbol: "BTCUSDT",
+    bid1Price: "64999.9",
+    ask1Price: "65000.1",
+    lastPrice: "65000",
+  });
+  assert.equal(http.calls[0].headers["X-MBX-APIKEY"], undefined);
+});
@@ -0,0 +1,117 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  binancePublicStream,
+  bybitPublicStream,
+  getPublicStreamAdapter,
+  toBinanceInterval,
+} from "../src/engine/exchangeStreams";
+
+test("getPublicStreamAdapter defaults to bybit", () => {
+  assert.equal(getPublicStreamAdapter().id, "bybit");
+  assert.equal(getPublicStreamAdapter("binance").id, "binance");
+});
+
+test("bybit stream subscribes by topic and parses kline/trade/liquidation", () => {
+  const [sub] = bybitPublicStream.subscribeMessages({
+    symbols: ["BTCUSDT"],
+    klineInterval: "5",
+    tickers: true,
+    liquidations: true,
+  });
+  assert.deepEqual(JSON.parse(sub), {
+    op: "subscribe",
+    args: ["kline.5.BTCUSDT", "tickers.BTCUSDT", "liquidation.BTCUSDT"],
+  });
+
+  const [kline] = bybitPublicStream.parse(
+    JSON.stringify({
+      topic: "kline.5.BTCUSDT",
+      data: [{ start: 1700000000000, open: "1", high: "2", low: "0.5", close: "1.5", volume: "10", confirm: true }],
+    })
+  );
+  assert.equal(kline.kind, "kline");
+  assert.ok(kline.kind === "kline" && kline.confirmed && kline.candle.close === 1.5);
+
+  const [trades] = bybitPublicStream.parse(
+    JSON.stringify({ topic: "publicTrade.BTCUSDT", data: [{ s: "BTCUSDT", p: "100", v: "2", S: "Buy", T: 1 }] })
+  );
+  assert.deepEqual(trades, {
+    kind: "trades",
+    symbol: "BTCUSDT",
+    trades: [{ price: 100, size: 2, side: "Buy", time: 1 }],
+  });
+
+  assert.deepEqual(bybitPublicStream.parse(JSON.stringify({ op: "pong" })), []);
+});
+
+test("binance stream builds combined SUBSCRIBE params and rounds book depth", () => {
+  const [sub] = binancePublicStream.subscribeMessages({
+    symbols: ["BTCUSDT"],
+    klineInterval: "60",
+    trades: true,
+    orderbookDepth: 7,
+    liquidations: true,
+    tickers: true,
+  });
+  assert.deepEqual(JSON.parse(sub).params, [
+    "btcusdt@kline_1h",
+    "btcusdt@aggTrade",
+    "btcusdt@depth10@100ms",
+    "btcusdt@forceOrder",
+  ]);
+  assert.equal(binancePublicStream.pingMessage, null);
+  assert.throws(() => toBinanceInterval("7"), /Unsupported Binance interval/);
+});
+
+test("binance stream maps events onto the shared event shape", () => {
+  const [kline] = binancePublicStream.parse(
+    JSON.stringify({
+      stream: "btcusdt@kline_5m",
+      data: {
+        e: "kline",
+        s: "BTCUSDT",
+        k: { t: 1700000000000, i: "5m", o: "1", h: "2", l: "0.5", c: "1.2", v: "3", x: false },
+      },
+    })
+  );
+  assert.ok(kline.kind === "kline" && kline.interval === "5" && !kline.confirmed);
+
+  const [trade] = binancePublicStream.parse(
+    JSON.stringify({ data: { e: "aggTrade", s: "BTCUSDT", p: "100", q: "0.5", m: true, T: 5 } })
+  );
+  assert.ok(trade.kind === "trades" && trade.trades[0].side === "Sell");
+
+  const [book] = binancePublicStream.parse(
+    JSON.stringify({ data: { e: "depthUpdate", s: "BTCUSDT", b: [["99", "1"]], a: [["101", "2"]] } })
+  );
+  assert.deepEqual(book, {
+    kind: "orderbook",
+    symbol: "BTCUSDT",
+    bids: [[99, 1]],
+    asks: [[101, 2]],
+    snapshot: true,
+  });
+
+  const [liq] = binancePublicStream.parse(
+    JSON.stringify({ data: { e: "forceOrder", o: { s: "BTCUSDT", S: "SELL", q: "0.3", p: "95", ap: "96", T: 9 } } })
+  );
+  assert.deepEqual(liq, { kind: "liquidation", symbol: "BTCUSDT", price: 96, size: 0.3, side: "Buy", time: 9 });
+});
+
+test("kline REST backfill parses both exchanges and surfaces errors", () => {
+  const bybit = bybitPublicStream.parseKlineRest({
+    retCode: 0,
+    result: { list: [["1700000300000", "2", "3", "1", "2.5", "7", "0"]] },
+  });
+  assert.equal(bybit[0].openTime, 1700000300000);
+  assert.throws(() => bybitPublicStream.parseKlineRest({ retCode: 10002 }), /retcode:10002/);
+
+  const binance = binancePublicStream.parseKlineRest([[1700000000000, "1", "2", "0.5", "1.5", "9", 1700000299999]]);
+  assert.equal(binance[0].volume, 9);
+  assert.throws(() => binancePublicStream.parseKlineRest({ code: -1121 }), /code:-1121/);
+  assert.match(
+    binancePublicStream.klineRestUrl({ symbol: "BTCUSDT", interval: "5", limit: 2000, end: 1 }, false),
+    /^https:\/\/fapi\.binance\.com\/fapi\/v1\/klines\?symbol=BTCUSDT&interval=5m&limit=1500&endTime=1$/
+  );
+});
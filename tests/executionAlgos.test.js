@@ -0,0 +1,235 @@
+// tests/executionAlgos.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPaperExchange } from "../server/paperExchange.js";
+import {
+  createExecutionAlgos,
+  normalizeAlgoSpec,
+  splitQty,
+} from "../server/executionAlgos.js";
+import { createOrderIdempotency } from "../server/orderIdempotency.js";
+
+const ACCOUNT = { userId: "u1" };
+const INSTRUMENT = { tickSize: 0.1, stepSize: 0.01, minQty: 0.01 };
+
+// Paper venue and algo runner on one manual clock; every sleep moves the
+// clock and feeds the next scripted price.
+function setup(prices = [], options = {}) {
+  let clock = 1_760_000_000_000;
+  const path = [...prices];
+  const venue = createPaperExchange({
+    initialBalance: 100_000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => clock,
+  });
+  const tick = (price) => venue.updatePrice("BTCUSDT", price, clock);
+  const notices = [];
+  let seq = 0;
+  const algos = createExecutionAlgos({
+    submitOrder: async ({ venue: target, creds, body }) => {
+      const result = await target.createDemoOrder(body, creds);
+      return result.retCode === 0
+        ? { ok: true, result }
+        : { ok: false, status: 400, error: result.retMsg };
+    },
+    getInstrument: async () => INSTRUMENT,
+    now: () => clock,
+    sleep: async (ms) => {
+      clock += ms;
+      if (path.length) tick(path.shift());
+    },
+    randomId: () => `run${(seq += 1)}`,
+    notify: (userId, event) => notices.push({ userId, ...event }),
+    orderIdempotency: createOrderIdempotency({ now: () => clock }),
+    ...options,
+  });
+  const start = (body) =>
+    algos.start({ userId: "u1", env: "paper", venue, creds: ACCOUNT, body });
+  return { venue, algos, tick, start, notices, now: () => clock };
+}
+
+test("algo specs get defaults and quantities follow the qty step", () => {
+  assert.deepEqual(normalizeAlgoSpec("twap").spec, {
+    type: "twap",
+    slices: 5,
+    durationMs: 300_000,
+    pollMs: 2_000,
+    timeoutMs: 360_000,
+  });
+  assert.equal(normalizeAlgoSpec({ type: "chase", maxChaseTicks: -3 }).spec.maxChaseTicks, 0);
+  assert.equal(normalizeAlgoSpec({ type: "iceberg" }).ok, false);
+  assert.equal(normalizeAlgoSpec({ type: "vwap" }).ok, false);
+
+  assert.deepEqual(splitQty(1, 3, 0.01), [0.33, 0.33, 0.34]);
+  // Slices below the minimum qty are merged.
+  assert.deepEqual(splitQty(0.05, 10, 0.01, 0.02), [0.02, 0.03]);
+});
+
+test("chase steps back after a post-only reject and follows the bid up to the cap", async () => {
+  const { venue, start, notices } = setup([100, 100.2, 101, 101, 100.4]);
+  venue.updatePrice("BTCUSDT", 100);
+  const started = await start({
+    symbol: "BTCUSDT",
+    side: "Buy",
+    qty: 2,
+    algo: { type: "chase", maxChaseTicks: 5, pollMs: 1_000 },
+  });
+  assert.equal(started.ok, true);
+  assert.equal(started.run.status, "working");
+
+  const run = await started.done;
+  assert.equal(run.status, "filled");
+  assert.equal(run.filledQty, 2);
+  assert.equal(run.avgPrice, 100.5);
+  assert.deepEqual(
+    run.children.map((child) => [child.price, child.status]),
+    [
+      [100, "Cancelled"],
+      [99.9, "Cancelled"],
+      [100.1, "Cancelled"],
+      [100.5, "Filled"],
+    ]
+  );
+  assert.match(run.children[0].rejectReason, /PostOnly/);
+  assert.equal(notices.length, 1);
+  assert.equal(notices[0].type, "OPEN");
+  assert.match(notices[0].message, /BTCUSDT Buy chase filled: filled 2\/2 @ 100.5/);
+});
+
+test("twap spreads market slices evenly over the duration", async () => {
+  const { venue, start, now } = setup();
+  venue.updatePrice("BTCUSDT", 100);
+  const t0 = now();
+  const started = await start({
+    symbol: "BTCUSDT",
+    side: "Sell",
+    qty: 1,
+    orderType: "Market",
+    algo: { type: "twap", slices: 4, durationMs: 3_000 },
+  });
+  const run = await started.done;
+  assert.equal(run.status, "filled");
+  assert.deepEqual(
+    run.children.map((child) => [child.qty, child.placedAt - t0, child.status]),
+    [
+      [0.25, 0, "Filled"],
+      [0.25, 1_000, "Filled"],
+      [0.25, 2_000, "Filled"],
+      [0.25, 3_000, "Filled"],
+    ]
+  );
+  const positions = await venue.getDemoPositions(ACCOUNT);
+  assert.equal(positions.result.list[0].size, "1");
+});
+
+test("iceberg shows one clip at a time and cancels the working clip on timeout", async () => {
+  const { venue, start } = setup([100, 98.9, 100, 100, 100, 100]);
+  venue.updatePrice("BTCUSDT", 100);
+  const started = await start({
+    symbol: "BTCUSDT",
+    side: "Buy",
+    qty: 3,
+    orderType: "Limit",
+    price: 99,
+    algo: { type: "iceberg", visibleQty: 1, pollMs: 1_000, timeoutMs: 4_000 },
+  });
+  const run = await started.done;
+  // The dip fills the first clip; the next one is placed into the dip and
+  // fills at once, the third rests until the timeout cancels it.
+  assert.equal(run.status, "timeout");
+  assert.equal(run.filledQty, 2);
+  assert.deepEqual(
+    run.children.map((child) => [child.qty, child.price, child.status]),
+    [
+      [1, 99, "Filled"],
+      [1, 99, "Filled"],
+      [1, 99, "Cancelled"],
+    ]
+  );
+  const open = await venue.listDemoOrders(ACCOUNT, { symbol: "BTCUSDT" });
+  assert.deepEqual(open.result.list, []);
+});
+
+test("bad requests are refused and a cancelled run stops its child", async () => {
+  const { venue, algos, start } = setup([100, 100, 100]);
+  venue.updatePrice("BTCUSDT", 100);
+  assert.deepEqual(await start({ symbol: "BTCUSDT", side: "Buy", qty: 1, algo: "vwap" }), {
+    ok: false,
+    status: 400,
+    error: "Unknown execution algo: vwap",
+  });
+  assert.equal(
+    (await start({ symbol: "BTCUSDT", side: "Buy", qty: 1, algo: { type: "iceberg", visibleQty: 1 } }))
+      .status,
+    400
+  );
+
+  const body = { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 95 };
+  const started = await start({ ...body, algo: { type: "iceberg", visibleQty: 0.5 } });
+  assert.equal((await start({ ...body, algo: "twap" })).status, 409);
+  assert.equal(algos.cancel("u1", "paper", started.run.id).status, "working");
+  const run = await started.done;
+  assert.equal(run.status, "cancelled");
+  assert.equal(run.children[0].status, "Cancelled");
+  assert.equal(algos.get("u1", "paper", run.id).status, "cancelled");
+  assert.deepEqual(
+    algos.list("u1", "paper").map((item) => item.id),
+    [run.id]
+  );
+  assert.equal(algos.cancel("u1", "paper", "missing"), null);
+});
+
+test("an algo entry claims its signal until the run ends without a fill", async () => {
+  const orderIdempotency = createOrderIdempotency();
+  const { venue, algos, start } = setup([100, 100, 100, 100], { orderIdempotency });
+  venue.updatePrice("BTCUSDT", 100);
+  const direct = (body) =>
+    orderIdempotency.run({ userId: "u1", env: "paper", body }, async () => ({ ok: true, meta: {} }));
+  const body = {
+    symbol: "BTCUSDT",
+    side: "Buy",
+    qty: 1,
+    orderType: "Limit",
+    price: 95,
+    signalId: "BTCUSDT-1",
+  };
+
+  assert.deepEqual(
+    await start({ ...body, takeProfits: [{ price: 110, sizePct: 100 }], algo: "twap" }),
+    { ok: false, status: 400, error: "Execution algos do not take a take-profit ladder" }
+  );
+
+  const started = await start({ ...body, algo: { type: "iceberg", visibleQty: 0.5 } });
+  assert.equal(started.run.signalId, "BTCUSDT-1");
+  assert.deepEqual(await start({ ...body, symbol: "ETHUSDT", algo: "twap" }), {
+    ok: false,
+    status: 409,
+    error: "An execution algo is already working on signal BTCUSDT-1",
+  });
+  assert.equal((await direct({ ...body, qty: 0.5 })).status, 409);
+
+  // Cancelled before the limit price was reached: the signal may be retried.
+  algos.cancel("u1", "paper", started.run.id);
+  assert.equal((await started.done).filledQty, 0);
+  assert.equal((await direct({ ...body, qty: 0.5 })).ok, true);
+
+  // A run that fills keeps the claim after it ends.
+  const filled = await start({
+    ...body,
+    signalId: "BTCUSDT-2",
+    orderType: "Market",
+    algo: { type: "twap", slices: 2, durationMs: 1_000 },
+  });
+  assert.equal((await filled.done).status, "filled");
+  assert.deepEqual(await direct({ ...body, signalId: "BTCUSDT-2" }), {
+    ok: false,
+    status: 409,
+    error: "Signal BTCUSDT-2 already has an entry",
+    meta: { orderLinkId: filled.run.id },
+  });
+});
@@ -0,0 +1,184 @@
+// tests/executionPolicy.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyVenueNotionalBounds,
+  buildIntentOrderPayload,
+  computeFixedSizing,
+  computeNotionalForSignal,
+  normalizeProtectionLevels,
+  positionCapacityGate,
+  normalizeSizingSettings,
+  resolveEquity,
+  resolveSizingRiskPct,
+  summarizeTradeStats,
+} from "../src/engine/executionPolicy.js";
+
+test("resolveEquity prefers available balance on testnet and total equity on mainnet", () => {
+  const wallet = { availableBalance: "400", totalEquity: "1000", totalWalletBalance: "900" };
+  assert.equal(resolveEquity(wallet, true), 400);
+  assert.equal(resolveEquity(wallet, false), 1000);
+  assert.ok(Number.isNaN(resolveEquity(null, false)));
+});
+
+test("fixed sizing uses the per-trade margin times leverage and is testnet-only by default", () => {
+  const sizing = computeFixedSizing({
+    entry: 100,
+    sl: 99,
+    equity: 1000,
+    useTestnet: true,
+    leverage: 10,
+    perTradeTestnetUsd: 60,
+  });
+  assert.equal(sizing.ok, true);
+  assert.equal(sizing.notional, 600);
+  assert.equal(sizing.qty, 6);
+  assert.equal(sizing.riskUsd, 6);
+  assert.equal(computeFixedSizing({ entry: 100, sl: 99, equity: 1000, useTestnet: false }), null);
+});
+
+test("risk sizing reports why it cannot size", () => {
+  const base = { entry: 100, sl: 99, riskPct: 0.01, useTestnet: false, leverage: 10 };
+  assert.equal(computeNotionalForSignal({ ...base, equity: Number.NaN }).reason, "missing_equity");
+  assert.equal(
+    computeNotionalForSignal({ ...base, equity: 1000, sl: 100 }).reason,
+    "invalid_sl_distance"
+  );
+  assert.equal(computeNotionalForSignal({ ...base, equity: 1000 }).ok, true);
+});
+
+test("testnet notional is bounded by the margin window", () => {
+  const low = applyVenueNotionalBounds({ entry: 100, notional: 10, qty: 0.1, useTestnet: true, leverage: 10 });
+  assert.deepEqual(low, { notional: 500, qty: 5 });
+  const high = applyVenueNotionalBounds({
+    entry: 100,
+    notional: 5000,
+    qty: 50,
+    useTestnet: true,
+    leverage: 10,
+    perTradeTestnetUsd: 80,
+  });
+  assert.deepEqual(high, { notional: 800, qty: 8 });
+});
+
+test("protection levels are pushed out to the minimum distance", () => {
+  const buy = normalizeProtectionLevels(100, "Buy", 99.99, 100.01);
+  assert.equal(buy.minDistance, 0.05);
+  assert.equal(buy.sl, 99.95);
+  assert.equal(buy.tp, 100.05);
+  const sell = normalizeProtectionLevels(100, "Sell", 100.01, 99, 4);
+  assert.equal(sell.sl, 100.2);
+  assert.equal(sell.tp, 99);
+});
+
+test("capacity gate blocks an open symbol before the position count", () => {
+  assert.equal(positionCapacityGate({ hasSymbolPosition: true, openPositionsTotal: 0, maxPos: 3 }).code, "OPEN_POSITION");
+  const full = positionCapacityGate({ hasSymbolPosition: false, openPositionsTotal: 3, maxPos: 3 });
+  assert.equal(full.code, "MAX_POS");
+  assert.equal(full.reason, "max positions 3/3");
+  assert.equal(positionCapacityGate({ hasSymbolPosition: false, openPositionsTotal: 1, maxPos: 3 }).ok, true);
+});
+
+test("buildIntentOrderPayload maps entry types onto the order body", () => {
+  const intent = {
+    intentId: "i-1",
+    symbol: "BTCUSDT",
+    side: "Buy",
+    entryType: "LIMIT_MAKER_FIRST",
+    entryPrice: 50000,
+    qtyMode: "USDT_NOTIONAL",
+    qtyValue: 1000,
+    slPrice: 49000,
+    tpPrices: [52000, 53000],
+  };
+  const limit = buildIntentOrderPayload(intent);
+  assert.equal(limit.qty, 0.02);
+  assert.equal(limit.orderType, "Limit");
+  assert.equal(limit.timeInForce, "PostOnly");
+  assert.equal(limit.orderLinkId, "i-1");
+  assert.equal(limit.tp, 52000);
+  assert.equal(limit.triggerPrice, undefined);
+  assert.equal("takeProfits" in limit, false);
+  const ladder = [{ price: 52000, sizePct: 0.5 }, { price: 53000, sizePct: 0.5 }];
+  assert.deepEqual(buildIntentOrderPayload({ ...intent, takeProfits: ladder }).takeProfits, ladder);
+
+  const conditional = buildIntentOrderPayload({ ...intent, entryType: "CONDITIONAL", qtyMode: "BASE_QTY", qtyValue: 0.5 });
+  assert.equal(conditional.qty, 0.5);
+  assert.equal(conditional.triggerPrice, 50000);
+  assert.equal(conditional.timeInForce, "GTC");
+
+  const market = buildIntentOrderPayload({ ...intent, entryType: "MARKET" });
+  assert.equal(market.orderType, "Market");
+  assert.equal(market.timeInForce, "IOC");
+
+  assert.throws(() => buildIntentOrderPayload({ ...intent, entryType: "MARKET_DISABLED" }), /market_disabled/);
+  assert.throws(() => buildIntentOrderPayload({ ...intent, qtyValue: 0 }), /invalid_qty/);
+});
+
+test("sizing settings are clamped onto the base", () => {
+  assert.deepEqual(normalizeSizingSettings(), {
+    sizingModel: "fixed-fractional",
+    targetDailyVolPct: 0.02,
+    kellyFraction: 0.25,
+    maxRiskPerTradeCap: 0.02,
+  });
+  const next = normalizeSizingSettings(
+    { sizingModel: "martingale", kellyFraction: 3, maxRiskPerTradeCap: Number.NaN },
+    { sizingModel: "kelly", maxRiskPerTradeCap: 0.01 }
+  );
+  assert.equal(next.sizingModel, "kelly");
+  assert.equal(next.kellyFraction, 1);
+  assert.equal(next.maxRiskPerTradeCap, 0.01);
+});
+
+test("trade stats keep the latest window of closed PnL", () => {
+  const stats = summarizeTradeStats([-50, 30, 30, -10, 20], 4);
+  assert.equal(stats.trades, 4);
+  assert.equal(stats.wins, 3);
+  assert.equal(stats.winRate, 0.75);
+  assert.ok(Math.abs(stats.payoffRatio - 80 / 3 / 10) < 1e-9);
+});
+
+test("vol-target sizing scales risk by target over daily ATR volatility", () => {
+  const decision = resolveSizingRiskPct({
+    sizingModel: "vol-target",
+    targetDailyVolPct: 0.02,
+    baseRiskPct: 0.005,
+    entry: 100,
+    sl: 99,
+    atrPct: 0.005,
+    barMinutes: 5,
+    openPositionsLimit: 4,
+  });
+  const dailyVol = 0.005 * Math.sqrt(288);
+  assert.equal(decision.appliedModel, "vol-target");
+  assert.ok(Math.abs(decision.riskPct - (0.01 / dailyVol) * 0.01) < 1e-12);
+  assert.equal(decision.capped, false);
+
+  const noAtr = resolveSizingRiskPct({ sizingModel: "vol-target", baseRiskPct: 0.005, entry: 100, sl: 99 });
+  assert.equal(noAtr.model, "vol-target");
+  assert.equal(noAtr.appliedModel, "fixed-fractional");
+  assert.equal(noAtr.riskPct, 0.005);
+});
+
+test("kelly sizing needs history, shrinks without edge and respects the cap", () => {
+  const winners = Array.from({ length: 30 }, (_, i) => (i % 5 < 3 ? 15 : -10));
+  const base = { sizingModel: "kelly", baseRiskPct: 0.005, entry: 100, sl: 99 };
+
+  const early = resolveSizingRiskPct({ ...base, stats: summarizeTradeStats(winners.slice(0, 10)) });
+  assert.equal(early.appliedModel, "fixed-fractional");
+  assert.equal(early.riskPct, 0.005);
+
+  // W 0.6, R 1.5 -> full Kelly 1/3.
+  const stats = summarizeTradeStats(winners);
+  const quarter = resolveSizingRiskPct({ ...base, stats, kellyFraction: 0.05 });
+  assert.equal(quarter.appliedModel, "kelly");
+  assert.ok(Math.abs(quarter.riskPct - 0.05 / 3) < 1e-9);
+  const capped = resolveSizingRiskPct({ ...base, stats, kellyFraction: 0.5 });
+  assert.equal(capped.riskPct, 0.02);
+  assert.equal(capped.capped, true);
+
+  const losers = summarizeTradeStats(winners.map((pnl) => -pnl));
+  const noEdge = resolveSizingRiskPct({ ...base, stats: losers });
+  assert.equal(noEdge.riskPct, 0.005 * 0.25);
+});
@@ -0,0 +1,231 @@
+// tests/feedConnection.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  feedBackoffDelay,
+  getFeedConnections,
+  openResilientFeed,
+  summarizeFeedConnections,
+} from "../src/engine/feedConnection";
+import { startPriceFeed } from "../src/engine/priceFeed";
+import type { FeedSocket } from "../src/engine/trafficRecording";
+
+type FakeSocket = FeedSocket & {
+  sent: string[];
+  open: () => void;
+  message: (data: string) => void;
+  drop: () => void;
+};
+
+function fakeSocket(): FakeSocket {
+  const listeners = new Map<string, Array<(event: MessageEvent) => void>>();
+  const emit = (type: string, event: unknown = {}) => {
+    for (const fn of listeners.get(type) ?? []) fn(event as MessageEvent);
+  };
+  const socket: FakeSocket = {
+    readyState: 0,
+    sent: [],
+    addEventListener(type, fn) {
+      listeners.set(type, [...(listeners.get(type) ?? []), fn]);
+    },
+    send(message) {
+      socket.sent.push(message);
+    },
+    close() {
+      if (socket.readyState === 3) return;
+      socket.readyState = 3;
+      emit("close");
+    },
+    open() {
+      socket.readyState = 1;
+      emit("open");
+    },
+    message(data) {
+      emit("message", { data });
+    },
+    drop() {
+      socket.readyState = 3;
+      emit("close");
+    },
+  };
+  return socket;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const FAST_BACKOFF = { initialMs: 5, maxMs: 40, factor: 2, jitter: 0 };
+
+test("backoff grows exponentially up to the cap and jitter only shortens it", () => {
+  const backoff = { initialMs: 1000, maxMs: 30_000, factor: 2, jitter: 0.2 };
+  assert.deepEqual(
+    [1, 2, 3, 4, 5, 6, 7].map((attempt) => feedBackoffDelay(attempt, backoff, () => 0)),
+    [1000, 2000, 4000, 8000, 16000, 30000, 30000]
+  );
+  assert.equal(feedBackoffDelay(1, backoff, () => 1), 800);
+});
+
+test("reconnects with backoff, resubscribes and reports connection state", async () => {
+  let clock = 1_000;
+  const sockets: FakeSocket[] = [];
+  const messages: string[] = [];
+  const reconnects: Array<{ since: number; downtimeMs: number }> = [];
+  const feed = openResilientFeed({
+    channel: "price",
+    exchange: "bybit",
+    url: "wss://example.test",
+    openSocket: () => {
+      const socket = fakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    subscribeMessages: () => ["subscribe:kline.5.BTCUSDT"],
+    backoff: FAST_BACKOFF,
+    onMessage: (data) => messages.push(data),
+    onReconnect: (info) => reconnects.push(info),
+    now: () => clock,
+  });
+  try {
+    assert.equal(feed.state().status, "connecting");
+    sockets[0].open();
+    sockets[0].message("a");
+    assert.deepEqual(sockets[0].sent, ["subscribe:kline.5.BTCUSDT"]);
+    assert.deepEqual(messages, ["a"]);
+    assert.equal(
+      getFeedConnections().find((state) => state.id === feed.state().id)?.status,
+      "open"
+    );
+
+    clock = 2_000;
+    sockets[0].drop();
+    assert.equal(feed.state().status, "reconnecting");
+    assert.equal(feed.state().attempt, 1);
+    assert.deepEqual(summarizeFeedConnections([feed.state()]), {
+      status: "reconnecting",
+      attempt: 1,
+      reconnects: 0,
+      lastError: "closed",
+    });
+
+    await wait(20);
+    assert.equal(sockets.length, 2);
+    sockets[1].drop();
+    assert.equal(feed.state().attempt, 2);
+    await wait(30);
+    assert.equal(sockets.length, 3);
+
+    clock = 5_000;
+    sockets[2].open();
+    assert.deepEqual(sockets[2].sent, ["subscribe:kline.5.BTCUSDT"]);
+    assert.equal(feed.state().status, "open");
+    assert.equal(feed.state().attempt, 0);
+    assert.equal(feed.state().reconnects, 1);
+    assert.deepEqual(reconnects, [{ since: 1_000, downtimeMs: 3_000 }]);
+
+    // Late events of replaced sockets are ignored.
+    sockets[0].message("stale");
+    assert.deepEqual(messages, ["a"]);
+  } finally {
+    feed.close();
+  }
+  assert.equal(sockets[2].readyState, 3);
+  assert.equal(
+    getFeedConnections().some((state) => state.id === feed.state().id),
+    false
+  );
+  await wait(20);
+  assert.equal(sockets.length, 3);
+});
+
+test("a silent connection is dropped after the heartbeat timeout", async () => {
+  const sockets: FakeSocket[] = [];
+  const feed = openResilientFeed({
+    channel: "liquidation",
+    exchange: "bybit",
+    url: "wss://example.test",
+    openSocket: () => {
+      const socket = fakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    subscribeMessages: () => [],
+    heartbeatTimeoutMs: 40,
+    backoff: FAST_BACKOFF,
+    onMessage: () => {},
+  });
+  try {
+    sockets[0].open();
+    await wait(20);
+    sockets[0].message("pong");
+    await wait(30);
+    assert.equal(sockets.length, 1);
+    await wait(60);
+    assert.equal(sockets[0].readyState, 3);
+    assert.equal(sockets.length, 2);
+    assert.equal(feed.state().lastError, "heartbeat_timeout");
+  } finally {
+    feed.close();
+  }
+});
+
+test("startPriceFeed backfills candles missed while reconnecting", async () => {
+  const symbol = "GAPUSDT";
+  const BAR = 5 * 60_000;
+  const t0 = Math.floor(Date.now() / BAR) * BAR - 3 * BAR;
+  const row = (openTime: number, close: number) => [
+    String(openTime),
+    String(close - 1),
+    String(close + 1),
+    String(close - 2),
+    String(close),
+    "10",
+    "1000",
+  ];
+  const restRows = [row(t0 + 3 * BAR, 104), row(t0 + 2 * BAR, 103), row(t0 + BAR, 102)];
+  const requested: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    const end = Number(new URL(url).searchParams.get("end"));
+    const list = restRows.filter((r) => Number(r[0]) <= end);
+    return new Response(JSON.stringify({ retCode: 0, result: { list } }));
+  }) as typeof fetch;
+
+  const sockets: FakeSocket[] = [];
+  const decisions: number[][] = [];
+  const stop = startPriceFeed([symbol], () => {}, {
+    openSocket: (url, channel) => {
+      const socket = fakeSocket();
+      if (channel === "price") sockets.push(socket);
+      return socket;
+    },
+    reconnect: { backoff: FAST_BACKOFF, heartbeatTimeoutMs: 0 },
+    decisionFn: (sym, candles) => {
+      decisions.push(candles.map((c) => c.close));
+      return { state: "SCAN", trend: "range" } as never;
+    },
+  });
+  try {
+    sockets[0].open();
+    sockets[0].message(
+      JSON.stringify({
+        topic: `kline.5.${symbol}`,
+        data: [{ start: t0, open: "100", high: "102", low: "99", close: "101", volume: "5" }],
+      })
+    );
+    assert.deepEqual(decisions, [[101]]);
+
+    sockets[0].drop();
+    await wait(20);
+    sockets[1].open();
+    assert.ok(sockets[1].sent.some((msg) => msg.includes(`kline.5.${symbol}`)));
+    await wait(20);
+
+    assert.ok(requested.length > 0);
+    assert.match(requested[0], new RegExp(`symbol=${symbol}&interval=5`));
+    assert.deepEqual(decisions.at(-1), [101, 102, 103, 104]);
+  } finally {
+    stop();
+    globalThis.fetch = originalFetch;
+  }
+});
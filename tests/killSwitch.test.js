@@ -0,0 +1,133 @@
+// tests/killSwitch.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPaperExchange } from "../server/paperExchange.js";
+import { createKillSwitch } from "../server/killSwitch.js";
+
+const ACCOUNT = { userId: "u1" };
+const NOW = 1_760_000_000_000;
+
+function setup() {
+  const paper = createPaperExchange({
+    initialBalance: 100_000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => NOW,
+  });
+  paper.updatePrice("BTCUSDT", 100, NOW);
+  paper.updatePrice("ETHUSDT", 50, NOW);
+  const notices = [];
+  const killSwitch = createKillSwitch({
+    verifyDelayMs: 0,
+    now: () => NOW,
+    notify: (userId, event) => notices.push({ userId, ...event }),
+  });
+  return { paper, killSwitch, notices };
+}
+
+test("kill flattens the account, reports per symbol and blocks entries until re-armed", async () => {
+  const { paper, killSwitch, notices } = setup();
+  await paper.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 2, orderType: "Market" }, ACCOUNT);
+  await paper.createDemoOrder({ symbol: "ETHUSDT", side: "Sell", qty: 1, orderType: "Market" }, ACCOUNT);
+  const { result } = await paper.createDemoOrder(
+    { symbol: "ETHUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 40 },
+    ACCOUNT
+  );
+  const stopped = [];
+
+  assert.deepEqual(killSwitch.checkOrder({ userId: "u1", env: "paper", order: {} }), { allowed: true });
+  const report = await killSwitch.engage({
+    userId: "u1",
+    env: "paper",
+    venue: paper,
+    creds: ACCOUNT,
+    by: "me@example.com",
+    stopAutomation: (scope) => {
+      stopped.push(scope);
+      // Automation is stopped with the switch already engaged.
+      assert.equal(killSwitch.isEngaged("u1", "paper"), true);
+    },
+  });
+
+  assert.deepEqual(stopped, [{ userId: "u1", env: "paper" }]);
+  assert.equal(report.flat, true);
+  assert.equal(report.attempts, 1);
+  assert.deepEqual(
+    report.symbols.map((s) => [s.symbol, s.cancelledOrders, s.closed.map((c) => [c.side, c.qty, c.ok]), s.flat]),
+    [
+      ["BTCUSDT", [], [["Buy", "2", true]], true],
+      ["ETHUSDT", [result.orderId], [["Sell", "1", true]], true],
+    ]
+  );
+  assert.deepEqual((await paper.getDemoPositions(ACCOUNT)).result.list, []);
+  assert.deepEqual((await paper.listDemoOpenOrders(ACCOUNT, {})).result.list, []);
+  assert.deepEqual(notices.map((n) => [n.type, n.message]), [
+    ["RISK_HALT", "Kill switch engaged: account flat (2 symbols)"],
+  ]);
+
+  const blocked = killSwitch.checkOrder({ userId: "u1", env: "paper", order: {} });
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.reason, "KILL_SWITCH");
+  assert.equal(killSwitch.checkOrder({ userId: "u1", env: "paper", order: { reduceOnly: true } }).allowed, true);
+  assert.equal(killSwitch.checkOrder({ userId: "u1", env: "testnet", order: {} }).allowed, true);
+
+  const status = killSwitch.rearm("u1", "paper", { by: "me@example.com" });
+  assert.equal(status.engaged, false);
+  assert.equal(status.rearmedBy, "me@example.com");
+  assert.equal(status.lastReport.flat, true);
+  assert.deepEqual(killSwitch.checkOrder({ userId: "u1", env: "paper", order: {} }), { allowed: true });
+});
+
+test("a close the venue keeps rejecting leaves the report not flat after the retries", async () => {
+  const { paper, killSwitch } = setup();
+  await paper.createDemoOrder({ symbol: "BTCUSDT", side: "Sell", qty: 1, orderType: "Market" }, ACCOUNT);
+  const venue = {
+    ...paper,
+    createDemoOrder: async () => ({ retCode: 110007, retMsg: "insufficient balance" }),
+  };
+
+  const report = await killSwitch.engage({ userId: "u1", env: "paper", venue, creds: ACCOUNT });
+  assert.equal(report.flat, false);
+  assert.equal(report.attempts, 3);
+  assert.deepEqual(
+    report.symbols.map((s) => [s.symbol, s.flat, s.openQty, s.errors.length, s.errors[0]]),
+    [["BTCUSDT", false, 1, 3, "close Sell 1: insufficient balance"]]
+  );
+  // Still engaged: nothing new may open while the position is left.
+  assert.equal(killSwitch.isEngaged("u1", "paper"), true);
+});
+
+test("kill cancels open orders beyond the first page", async () => {
+  const { paper, killSwitch } = setup();
+  const placed = [];
+  for (const price of [90, 91, 92, 93, 94]) {
+    const { result } = await paper.createDemoOrder(
+      { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Limit", price },
+      ACCOUNT
+    );
+    placed.push(result.orderId);
+  }
+  // Two orders per page, like a venue with more open orders than one request returns.
+  const venue = {
+    ...paper,
+    listDemoOpenOrders: async (creds, { cursor } = {}) => {
+      const { result } = await paper.listDemoOpenOrders(creds, {});
+      const from = Number(cursor ?? 0);
+      const to = from + 2;
+      return {
+        retCode: 0,
+        result: { list: result.list.slice(from, to), nextPageCursor: to < result.list.length ? String(to) : "" },
+      };
+    },
+  };
+
+  const report = await killSwitch.engage({ userId: "u1", env: "paper", venue, creds: ACCOUNT });
+  assert.equal(report.flat, true);
+  assert.equal(report.attempts, 1);
+  assert.deepEqual([...report.symbols[0].cancelledOrders].sort(), [...placed].sort());
+  assert.deepEqual((await paper.listDemoOpenOrders(ACCOUNT, {})).result.list, []);
+});
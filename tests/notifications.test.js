@@ -0,0 +1,350 @@
+// tests/notifications.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import {
+  createNotificationListener,
+  createNotifier,
+  normalizeNotificationRules,
+  renderNotificationTemplate,
+} from "../server/notifications.js";
+
+const T0 = Date.parse("2026-10-18T10:00:00Z");
+
+function makeClock(start) {
+  let ts = start;
+  return {
+    now: () => ts,
+    advance: (ms) => {
+      ts += ms;
+    },
+  };
+}
+
+// Local HTTP endpoint recording every request; `status(req)` picks the reply code.
+async function startStub(status = () => 200) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      requests.push({ method: req.method, path: req.url, body: JSON.parse(body || "null") });
+      const code = status(req);
+      res.writeHead(code, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(code < 300 ? { ok: true } : { ok: false, description: "stub error" }));
+    });
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${server.address().port}`;
+  return {
+    base,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+const HOOK_URL = "https://hooks.example.com/hook";
+const DISCORD_URL = "https://discord.com/api/webhooks/1/abc";
+const CHANNELS = {
+  webhook: { url: HOOK_URL },
+  telegram: { botToken: "123:abc", chatId: "42" },
+  discord: { webhookUrl: DISCORD_URL },
+};
+
+// Public DNS answer for every host; the stub stands in for the real endpoints.
+const publicLookup = async () => [{ address: "93.184.216.34", family: 4 }];
+
+function stubFetch(base) {
+  return (url, init) =>
+    fetch(String(url).replace(HOOK_URL, `${base}/hook`).replace(DISCORD_URL, `${base}/discord`), init);
+}
+
+test("templates render event fields and rules drop unknown entries", () => {
+  assert.equal(
+    renderNotificationTemplate("[{{env}}] {{type}} {{symbol}} {{side}}\n{{message}}", {
+      env: "mainnet",
+      type: "CLOSE",
+      symbol: "BTCUSDT",
+      message: "closed",
+    }),
+    "[mainnet] CLOSE BTCUSDT\nclosed"
+  );
+
+  const rules = normalizeNotificationRules(
+    JSON.stringify({
+      routes: [
+        { channel: "Telegram", events: ["open", "nope"], envs: ["Mainnet"], symbols: ["btcusdt"] },
+        { channel: "sms" },
+      ],
+      templates: { close: "{{symbol}} done", BOGUS: "x" },
+      rateLimit: { perMinute: 1000 },
+    })
+  );
+  assert.deepEqual(rules.routes, [
+    { channel: "telegram", events: ["OPEN"], envs: ["mainnet"], symbols: ["BTCUSDT"] },
+  ]);
+  assert.deepEqual(rules.templates, { CLOSE: "{{symbol}} done" });
+  assert.equal(rules.rateLimit.perMinute, 120);
+  assert.equal(rules.error, null);
+
+  const broken = normalizeNotificationRules("{oops");
+  assert.deepEqual(broken.routes, []);
+  assert.equal(broken.rateLimit.perMinute, 20);
+  assert.match(broken.error, /notify_rules_invalid_json/);
+});
+
+test("delivers to webhook, Telegram and Discord endpoints", async () => {
+  const stub = await startStub();
+  try {
+    const notifier = createNotifier({
+      loadConfig: async () => ({ channels: CHANNELS, rules: null }),
+      fetchImpl: stubFetch(stub.base),
+      lookup: publicLookup,
+      telegramApiBase: stub.base,
+      now: () => T0,
+    });
+    const results = await notifier.notify("u1", {
+      type: "OPEN",
+      env: "testnet",
+      symbol: "BTCUSDT",
+      side: "Buy",
+      message: "BTCUSDT Buy LIMIT qty 0.01 @ 60000",
+    });
+    assert.deepEqual(
+      results.map((r) => [r.channel, r.status]),
+      [
+        ["webhook", "sent"],
+        ["telegram", "sent"],
+        ["discord", "sent"],
+      ]
+    );
+
+    const byPath = new Map(stub.requests.map((r) => [r.path, r.body]));
+    const text = "[testnet] OPEN BTCUSDT Buy\nBTCUSDT Buy LIMIT qty 0.01 @ 60000";
+    assert.equal(byPath.get("/hook").event, "OPEN");
+    assert.equal(byPath.get("/hook").text, text);
+    assert.equal(byPath.get("/hook").data.at, new Date(T0).toISOString());
+    assert.deepEqual(byPath.get("/bot123:abc/sendMessage"), {
+      chat_id: "42",
+      text,
+      disable_web_page_preview: true,
+    });
+    assert.deepEqual(byPath.get("/discord"), { content: text });
+    assert.equal(notifier.getStats("u1").sent, 3);
+
+    // Unknown event types and users without channels send nothing.
+    assert.deepEqual(await notifier.notify("u1", { type: "SIGNAL", message: "x" }), []);
+    assert.equal(stub.requests.length, 3);
+  } finally {
+    await stub.close();
+  }
+});
+
+test("routes filter by event, env and symbol and override templates", async () => {
+  const stub = await startStub();
+  try {
+    const notifier = createNotifier({
+      loadConfig: async () => ({
+        channels: CHANNELS,
+        rules: JSON.stringify({
+          routes: [
+            { channel: "discord", events: ["RISK_HALT", "PROTECTION_MISSING"] },
+            { channel: "webhook", envs: ["mainnet"], symbols: ["ETHUSDT"] },
+          ],
+          templates: { RISK_HALT: "halt on {{env}}: {{message}}" },
+        }),
+      }),
+      fetchImpl: stubFetch(stub.base),
+      lookup: publicLookup,
+      telegramApiBase: stub.base,
+      now: () => T0,
+    });
+
+    await notifier.notify("u1", { type: "RISK_HALT", env: "mainnet", message: "DAILY_LOSS" });
+    await notifier.notify("u1", { type: "CLOSE", env: "testnet", symbol: "ETHUSDT", message: "a" });
+    await notifier.notify("u1", { type: "CLOSE", env: "mainnet", symbol: "BTCUSDT", message: "b" });
+    await notifier.notify("u1", { type: "CLOSE", env: "mainnet", symbol: "ETHUSDT", message: "c" });
+
+    assert.deepEqual(
+      stub.requests.map((r) => [r.path, r.body.content ?? r.body.text]),
+      [
+        ["/discord", "halt on mainnet: DAILY_LOSS"],
+        ["/hook", "[mainnet] CLOSE ETHUSDT\nc"],
+      ]
+    );
+  } finally {
+    await stub.close();
+  }
+});
+
+test("rate limits per channel and reports suppressed events", async () => {
+  const stub = await startStub();
+  const clock = makeClock(T0);
+  try {
+    const notifier = createNotifier({
+      loadConfig: async () => ({
+        channels: { webhook: { url: HOOK_URL } },
+        rules: { rateLimit: { perMinute: 2 } },
+      }),
+      fetchImpl: stubFetch(stub.base),
+      lookup: publicLookup,
+      now: clock.now,
+      cacheMs: Infinity,
+    });
+    const send = (message) => notifier.notify("u1", { type: "ERROR", env: "testnet", message });
+
+    assert.equal((await send("e1"))[0].status, "sent");
+    assert.equal((await send("e2"))[0].status, "sent");
+    assert.equal((await send("e3"))[0].status, "suppressed");
+    assert.equal((await send("e4"))[0].status, "suppressed");
+
+    clock.advance(60_000);
+    assert.equal((await send("e5"))[0].status, "sent");
+    assert.equal(stub.requests.length, 3);
+    assert.equal(stub.requests[2].body.text, "[testnet] ERROR\ne5\n(+2 suppressed)");
+    assert.deepEqual(
+      { sent: notifier.getStats("u1").sent, suppressed: notifier.getStats("u1").suppressed },
+      { sent: 3, suppressed: 2 }
+    );
+  } finally {
+    await stub.close();
+  }
+});
+
+test("delivery and config failures are recorded without throwing", async () => {
+  const stub = await startStub((req) => (req.url === "/discord" ? 500 : 200));
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    let loads = 0;
+    const notifier = createNotifier({
+      loadConfig: async (userId) => {
+        loads += 1;
+        if (userId === "broken") throw new Error("supabase down");
+        return {
+          channels: {
+            discord: { webhookUrl: DISCORD_URL },
+            webhook: { url: "ftp://example.com" },
+          },
+        };
+      },
+      fetchImpl: stubFetch(stub.base),
+      now: () => T0,
+    });
+
+    const [result] = await notifier.notify("u1", { type: "CLOSE", env: "testnet", message: "x" });
+    assert.equal(result.status, "failed");
+    assert.match(result.error, /notify_http_500/);
+    const stats = notifier.getStats("u1");
+    assert.equal(stats.failed, 1);
+    assert.match(stats.lastError, /^discord: notify_http_500/);
+
+    assert.deepEqual(await notifier.notify("broken", { type: "OPEN", message: "x" }), []);
+    assert.match(notifier.getStats("broken").lastError, /supabase down/);
+
+    // Cached until invalidated.
+    await notifier.notify("u1", { type: "CLOSE", env: "testnet", message: "y" });
+    assert.equal(loads, 2);
+    notifier.invalidate("u1");
+    await notifier.notify("u1", { type: "CLOSE", env: "testnet", message: "z" });
+    assert.equal(loads, 3);
+  } finally {
+    console.warn = warn;
+    await stub.close();
+  }
+});
+
+test("webhooks must be https to a public host and Discord must be its webhook host", async () => {
+  const requests = [];
+  const fetchImpl = async (url) => {
+    requests.push(String(url));
+    return new Response("{}", { status: 200 });
+  };
+  const addresses = {
+    "hooks.example.com": "93.184.216.34",
+    "metadata.example.com": "169.254.169.254",
+    "intranet.example.com": "10.0.0.5",
+    "127.0.0.1": "127.0.0.1",
+    "::1": "::1",
+  };
+  const lookup = async (hostname) => [
+    { address: addresses[hostname], family: hostname === "::1" ? 6 : 4 },
+  ];
+  const notifier = createNotifier({
+    loadConfig: async (userId) => {
+      const [webhook, discord] = {
+        u1: ["http://hooks.example.com/hook", "https://evil.example.com/api/webhooks/1/abc"],
+        u2: ["https://metadata.example.com/latest", "https://discord.com/other"],
+        u3: ["https://intranet.example.com/hook", null],
+        u4: ["https://127.0.0.1/hook", null],
+        u5: ["https://[::1]/hook", DISCORD_URL],
+      }[userId];
+      return { channels: { webhook: { url: webhook }, discord: { webhookUrl: discord } } };
+    },
+    fetchImpl,
+    lookup,
+    now: () => T0,
+  });
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    const send = (userId) => notifier.notify(userId, { type: "ERROR", env: "testnet", message: "x" });
+
+    assert.deepEqual(await send("u1"), []);
+    assert.match(notifier.getStats("u1").lastError, /notify_webhook_invalid_url.*notify_discord_invalid_url/);
+    assert.deepEqual(await send("u2"), [
+      { channel: "webhook", status: "failed", error: "notify_webhook_blocked_host" },
+    ]);
+    assert.equal((await send("u3"))[0].error, "notify_webhook_blocked_host");
+    assert.equal((await send("u4"))[0].error, "notify_webhook_blocked_host");
+    assert.deepEqual(
+      (await send("u5")).map((r) => [r.channel, r.status]),
+      [
+        ["webhook", "failed"],
+        ["discord", "sent"],
+      ]
+    );
+    assert.deepEqual(requests, [DISCORD_URL]);
+  } finally {
+    console.warn = warn;
+  }
+});
+
+test("session listener notifies closes and positions left without a stop loss", () => {
+  const clock = makeClock(T0);
+  const notices = [];
+  const listener = createNotificationListener({
+    notify: (userId, event) => notices.push({ userId, ...event }),
+    now: clock.now,
+    graceMs: 10_000,
+  });
+  const session = (positions) => ({
+    userId: "u1",
+    env: "mainnet",
+    snapshot: { positions: { result: { list: positions } } },
+  });
+  const btc = { symbol: "BTCUSDT", side: "Buy", size: "0.01", stopLoss: "59000" };
+  const eth = { symbol: "ETHUSDT", side: "Sell", size: "0.5", stopLoss: "" };
+
+  listener.onAccount(session([btc, eth]));
+  clock.advance(5_000);
+  listener.onAccount(session([btc, eth]));
+  assert.deepEqual(notices, []);
+
+  clock.advance(6_000);
+  listener.onAccount(session([btc, eth]));
+  listener.onAccount(session([btc, eth]));
+  clock.advance(1_000);
+  listener.onAccount(session([eth]));
+
+  assert.deepEqual(
+    notices.map((n) => [n.type, n.symbol, n.env]),
+    [
+      ["PROTECTION_MISSING", "ETHUSDT", "mainnet"],
+      ["CLOSE", "BTCUSDT", "mainnet"],
+    ]
+  );
+  assert.equal(notices[0].message, "ETHUSDT size 0.5 has no stop loss");
+});
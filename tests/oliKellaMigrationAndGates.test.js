@@ -9,6 +9,27 @@ import {
   migrateRiskMode,
 } from "../src/lib/oliKellaProfile.js";
 
+// The controller is split into modules; the wiring checks cover all of them.
+const CONTROLLER_MODULES = [
+  "src/hooks/tradingController.ts",
+  "src/hooks/tradingState.ts",
+  "src/hooks/tradingBackend.ts",
+  "src/hooks/tradingProtection.ts",
+  "src/hooks/tradingDiagnostics.ts",
+  "src/hooks/tradingDecisions.ts",
+  "src/hooks/tradingSync.ts",
+  "src/hooks/tradingSettings.ts",
+  "src/hooks/tradingSyncHelpers.ts",
+  "src/hooks/tradingProtectionHelpers.ts",
+  "src/hooks/tradingDecisionHelpers.ts",
+  "src/hooks/tradingAiMaticContext.ts",
+  "src/hooks/tradingAiMaticSetups.ts",
+  "src/hooks/tradingAiMaticPlan.ts",
+  "src/hooks/tradingScalpFib.ts",
+];
+const readTradingController = () =>
+  CONTROLLER_MODULES.map((file) => readFileSync(file, "utf8")).join("\n");
+
 test("OLIkella migration maps legacy risk mode to new key", () => {
   assert.equal(migrateRiskMode(OLIKELLA_LEGACY_RISK_MODE), OLIKELLA_RISK_MODE);
   assert.equal(migrateRiskMode("ai-matic"), "ai-matic");
@@ -25,23 +46,26 @@ test("OLIkella checklist defaults contain exact gate names", () => {
 });
 
 test("OLIkella gate constants are wired in hook + settings + dashboard", () => {
-  const hook = readFileSync("src/hooks/useTradingBot.ts", "utf8");
+  const hook = readTradingController();
   const settings = readFileSync("src/components/SettingsPanel.tsx", "utf8");
   const dashboard = readFileSync("src/components/Dashboard.tsx", "utf8");
+  const registry = readFileSync("src/engine/strategyRegistry.ts", "utf8");
 
   assert.ok(hook.includes("OLIKELLA_GATE_SIGNAL_CHECKLIST"));
   assert.ok(hook.includes("OLIKELLA_GATE_ENTRY_CONDITIONS"));
   assert.ok(hook.includes("OLIKELLA_GATE_EXIT_CONDITIONS"));
   assert.ok(hook.includes("OLIKELLA_GATE_RISK_RULES"));
 
-  assert.ok(settings.includes("OLIKELLA_GATE_NAMES"));
-  assert.ok(dashboard.includes("OLIKELLA_CHECKLIST_DEFAULTS"));
+  assert.ok(registry.includes("OLIKELLA_GATE_NAMES"));
+  assert.ok(registry.includes("OLIKELLA_CHECKLIST_DEFAULTS"));
+  assert.ok(settings.includes("resolveStrategy(local.riskMode).gateNames"));
+  assert.ok(dashboard.includes("resolveStrategy(riskMode).checklistDefaults"));
 });
 
 test("AMD profile is wired in settings and dashboard", () => {
   const settings = readFileSync("src/components/SettingsPanel.tsx", "utf8");
   const dashboard = readFileSync("src/components/Dashboard.tsx", "utf8");
-  const hook = readFileSync("src/hooks/useTradingBot.ts", "utf8");
+  const hook = readTradingController();
 
   assert.ok(settings.includes("ai-matic-amd"));
   assert.ok(settings.includes("AI-Matic-AMD"));
@@ -53,27 +77,30 @@ test("AMD profile is wired in settings and dashboard", () => {
 test("BBO profile is wired in settings, dashboard and hook", () => {
   const settings = readFileSync("src/components/SettingsPanel.tsx", "utf8");
   const dashboard = readFileSync("src/components/Dashboard.tsx", "utf8");
-  const hook = readFileSync("src/hooks/useTradingBot.ts", "utf8");
-  const engine = readFileSync("src/engine/botEngine.ts", "utf8");
+  const hook = readTradingController();
+  const registry = readFileSync("src/engine/strategyRegistry.ts", "utf8");
+  const entryGates = readFileSync("src/engine/entryGatesEngine.js", "utf8");
 
   assert.ok(settings.includes("ai-matic-bbo"));
   assert.ok(settings.includes("AI-Matic-BBO"));
   assert.ok(dashboard.includes("ai-matic-bbo"));
   assert.ok(dashboard.includes("AI-MATIC-BBO"));
   assert.ok(hook.includes("strategyProfile: \"ai-matic-bbo\""));
-  assert.ok(hook.includes("AI_MATIC_BBO_GATE_NAMES"));
-  assert.ok(dashboard.includes("AI_MATIC_BBO_CHECKLIST_DEFAULTS"));
-  assert.ok(engine.includes("evaluateAiMaticBboStrategyForSymbol"));
+  assert.ok(hook.includes("evaluateCoreV2Gates"));
+  assert.ok(entryGates.includes("AI_MATIC_BBO_GATE_NAMES"));
+  assert.ok(registry.includes("AI_MATIC_BBO_CHECKLIST_DEFAULTS"));
+  assert.ok(registry.includes("evaluateAiMaticBboStrategyForSymbol"));
 });
 
 test("PRO diagnostics preserve pending gate status", () => {
-  const hook = readFileSync("src/hooks/useTradingBot.ts", "utf8");
+  const hook = readTradingController();
   assert.ok(hook.includes("addGate(gate.name, gate.ok, gate.detail, gate.pending)"));
 });
 
 test("PRO profile is wired in persistent aggregator", () => {
   const aggregator = readFileSync("server/persistentAggregator.js", "utf8");
+  const serverRegistry = readFileSync("src/engine/strategyRegistry.js", "utf8");
 
-  assert.ok(aggregator.includes("evaluateAiMaticProStrategyForSymbol"));
-  assert.ok(aggregator.includes('if (riskMode === "ai-matic-pro") return evaluateAiMaticProStrategyForSymbol;'));
+  assert.ok(aggregator.includes("decisionFn: strategy.decide"));
+  assert.ok(serverRegistry.includes("evaluateAiMaticProStrategyForSymbol"));
 });
@@ -0,0 +1,141 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildGridCandidates,
+  buildRandomCandidates,
+  buildWalkForwardWindows,
+  expandParamValues,
+  runWalkForwardOptimization,
+} from "../src/engine/optimizer";
+import type { BacktestDecisionFn } from "../src/engine/backtest";
+import { State, Trend, type Candle, type EngineSignal } from "../src/engine/botEngine";
+
+const TF_5M = 5 * 60_000;
+
+// 10-bar cycles: signal bar, a +1.8 spike, then a dip to -1.5 below the entry.
+function cycleSeries(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => {
+    const base = 100 + Math.floor(i / 10) * 0.01;
+    const k = i % 10;
+    const [open, high, low, close] =
+      k === 1
+        ? [base, base + 1.8, base - 0.1, base + 1.5]
+        : k === 2
+          ? [base + 1.5, base + 1.6, base - 1.5, base - 1]
+          : [base, base + 0.2, base - 0.2, base];
+    return { openTime: i * TF_5M, open, high, low, close, volume: 100 };
+  });
+}
+
+// Long every cycle; take-profit distance comes from atrEntryMultiplier.
+const cycleDecision: BacktestDecisionFn = (symbol, candles, botConfig) => {
+  const last = candles[candles.length - 1];
+  const fire = (last.openTime / TF_5M) % 10 === 0;
+  const tpDistance = botConfig?.atrEntryMultiplier ?? 1;
+  return {
+    state: State.Scan,
+    trend: Trend.Bull,
+    signal: fire
+      ? ({
+          id: `${symbol}-${last.openTime}`,
+          symbol,
+          intent: { side: "buy", entry: last.close, sl: last.close - 1, tp: last.close + tpDistance },
+          entryType: "MARKET",
+          risk: 1,
+          message: "cycle",
+          createdAt: new Date(last.openTime).toISOString(),
+        } as EngineSignal)
+      : null,
+  };
+};
+
+test("expands numeric ranges and explicit value lists", () => {
+  assert.deepEqual(expandParamValues({ key: "atrEntryMultiplier", min: 1, max: 2, step: 0.25 }), [
+    1, 1.25, 1.5, 1.75, 2,
+  ]);
+  const steps = [[{ r: 1, exitFraction: 0.5 }]];
+  assert.deepEqual(expandParamValues({ key: "partialSteps", values: steps }), steps);
+  assert.throws(() => expandParamValues({ key: "adxThreshold", min: 5, max: 1 }));
+});
+
+test("grid is a capped cartesian product and random search is seeded", () => {
+  const params = [
+    { key: "atrEntryMultiplier" as const, values: [1, 2, 3] },
+    { key: "adxThreshold" as const, min: 20, max: 30, step: 5 },
+  ];
+  assert.equal(buildGridCandidates(params).length, 9);
+  assert.equal(buildGridCandidates(params, 4).length, 4);
+
+  const first = buildRandomCandidates(params, 5, 42);
+  const second = buildRandomCandidates(params, 5, 42);
+  assert.deepEqual(first, second);
+  assert.equal(new Set(first.map((c) => JSON.stringify(c))).size, 5);
+  assert.equal(buildRandomCandidates(params, 50, 1).length, 9);
+});
+
+test("walk-forward windows roll by the out-of-sample length after warmup", () => {
+  const windows = buildWalkForwardWindows(200, {
+    inSampleBars: 60,
+    outOfSampleBars: 40,
+    warmupBars: 5,
+  });
+  assert.equal(windows.length, 3);
+  assert.deepEqual(windows[0].inSample, { start: 5, end: 65 });
+  assert.deepEqual(windows[0].outOfSample, { start: 65, end: 105 });
+  assert.deepEqual(windows[2].outOfSample, { start: 145, end: 185 });
+});
+
+test("ranks configurations by out-of-sample results and returns pasteable overrides", () => {
+  const report = runWalkForwardOptimization({
+    symbol: "BTCUSDT",
+    candles: cycleSeries(200),
+    params: [{ key: "atrEntryMultiplier", values: [2.5, 1.5] }],
+    decisionFn: cycleDecision,
+    config: {
+      inSampleBars: 60,
+      outOfSampleBars: 40,
+      minTrades: 3,
+      backtest: {
+        warmupBars: 5,
+        makerFeeRate: 0,
+        takerFeeRate: 0,
+        slippagePct: 0,
+        partialSteps: [],
+        trailingActivationR: 0,
+      },
+    },
+  });
+
+  assert.equal(report.windows.length, 3);
+  assert.equal(report.ranked.length, 2);
+  const [top, bottom] = report.ranked;
+  assert.equal(top.rank, 1);
+  assert.deepEqual(top.params, { atrEntryMultiplier: 1.5 });
+  assert.equal(top.eligible, true);
+  assert.equal(top.outOfSample.trades, 12);
+  assert.equal(top.outOfSample.winRate, 1);
+  assert.equal(bottom.outOfSample.winRate, 0);
+  assert.ok(top.score > bottom.score);
+  assert.deepEqual(report.best, { atrEntryMultiplier: 1.5 });
+  assert.equal(report.walkForward.length, 3);
+  for (const step of report.walkForward) {
+    assert.deepEqual(step.params, { atrEntryMultiplier: 1.5 });
+  }
+});
+
+test("best is null when no configuration reaches minTrades", () => {
+  const report = runWalkForwardOptimization({
+    symbol: "BTCUSDT",
+    candles: cycleSeries(200),
+    params: [{ key: "atrEntryMultiplier", values: [1.5] }],
+    decisionFn: cycleDecision,
+    config: {
+      inSampleBars: 60,
+      outOfSampleBars: 40,
+      minTrades: 100,
+      backtest: { warmupBars: 5 },
+    },
+  });
+  assert.equal(report.ranked[0].eligible, false);
+  assert.equal(report.best, null);
+});
@@ -0,0 +1,135 @@
+// tests/orderIdempotency.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createOrderIdempotency, resolveOrderLinkId } from "../server/orderIdempotency.js";
+import { buildIntentOrderPayload, deriveOrderLinkId } from "../src/engine/executionPolicy.js";
+
+const ENTRY = { symbol: "BTCUSDT", side: "Buy", qty: 0.01, orderType: "Market" };
+
+function setup(outcome = (body) => ({ ok: true, result: { orderLinkId: body.orderLinkId }, meta: {} })) {
+  let clock = 1_760_000_000_000;
+  const bodies = [];
+  const store = createOrderIdempotency({ ttlMs: 60_000, now: () => clock });
+  const submit = (body, userId = "u1") =>
+    store.run({ userId, env: "testnet", body }, async (resolved) => {
+      bodies.push(resolved);
+      return outcome(resolved);
+    });
+  return {
+    submit,
+    bodies,
+    advance: (ms) => {
+      clock += ms;
+    },
+  };
+}
+
+test("signal orders get a deterministic orderLinkId shared with the browser", () => {
+  const id = deriveOrderLinkId({ signalId: "BTCUSDT-1", symbol: "btcusdt", side: "buy" });
+  assert.match(id, /^sig-[0-9a-f]{28}$/);
+  assert.equal(id, deriveOrderLinkId({ signalId: "BTCUSDT-1", symbol: "BTCUSDT", side: "Buy" }));
+  assert.notEqual(id, deriveOrderLinkId({ signalId: "BTCUSDT-1", symbol: "BTCUSDT", side: "Sell" }));
+  assert.notEqual(id, deriveOrderLinkId({ signalId: "BTCUSDT-1", symbol: "BTCUSDT", side: "Buy", leg: "retest" }));
+
+  assert.deepEqual(resolveOrderLinkId({ ...ENTRY, signalId: "BTCUSDT-1" }), {
+    ok: true,
+    orderLinkId: id,
+    signalId: "BTCUSDT-1",
+  });
+  assert.equal(resolveOrderLinkId({ ...ENTRY, signalId: "BTCUSDT-1", orderLinkId: "mine" }).ok, false);
+  assert.equal(resolveOrderLinkId({ ...ENTRY, orderLinkId: "has space" }).ok, false);
+  assert.equal(resolveOrderLinkId({ ...ENTRY, orderLinkId: "x".repeat(37) }).ok, false);
+  assert.deepEqual(resolveOrderLinkId(ENTRY), { ok: true, orderLinkId: "", signalId: "" });
+
+  const payload = buildIntentOrderPayload({
+    intentId: id,
+    symbol: "BTCUSDT",
+    side: "Buy",
+    entryType: "MARKET",
+    entryPrice: 100,
+    qtyMode: "BASE_QTY",
+    qtyValue: 1,
+    slPrice: 99,
+    tpPrices: [],
+    signalId: "BTCUSDT-1",
+  });
+  assert.equal(resolveOrderLinkId(payload).orderLinkId, payload.orderLinkId);
+});
+
+test("a duplicate submission replays the first outcome, also while it is in flight", async () => {
+  let release;
+  const gate = new Promise((resolve) => {
+    release = resolve;
+  });
+  const { submit, bodies } = setup(async (body) => {
+    await gate;
+    return { ok: true, result: { orderId: "o1", orderLinkId: body.orderLinkId }, meta: { journalId: "j1" } };
+  });
+  const body = { ...ENTRY, signalId: "s1" };
+  const first = submit(body);
+  const second = submit(body);
+  release();
+  const [a, b] = await Promise.all([first, second]);
+  assert.equal(bodies.length, 1);
+  assert.equal(bodies[0].orderLinkId, deriveOrderLinkId({ signalId: "s1", ...ENTRY }));
+  assert.deepEqual(a.meta, { journalId: "j1" });
+  assert.equal(b.result.orderId, "o1");
+  assert.deepEqual(b.meta, { journalId: "j1", orderLinkId: bodies[0].orderLinkId, idempotentReplay: true });
+
+  // Client ids without a signal dedup the same way; other accounts do not share them.
+  await submit({ ...ENTRY, orderLinkId: "c-1" });
+  assert.equal((await submit({ ...ENTRY, orderLinkId: "c-1" })).meta.idempotentReplay, true);
+  assert.equal((await submit({ ...ENTRY, orderLinkId: "c-1" }, "u2")).meta.idempotentReplay, undefined);
+  // Orders without any id are not deduplicated.
+  await submit(ENTRY);
+  await submit(ENTRY);
+  assert.equal(bodies.length, 5);
+});
+
+test("a signal gets one entry per leg; failures and expired claims free it", async () => {
+  let reject = true;
+  const { submit, bodies, advance } = setup((body) =>
+    reject ? { ok: false, status: 400, error: "Rejected", meta: {} } : { ok: true, result: body, meta: {} }
+  );
+  assert.equal((await submit({ ...ENTRY, signalId: "s1" })).ok, false);
+  reject = false;
+  assert.equal((await submit({ ...ENTRY, signalId: "s1" })).ok, true);
+  assert.equal(bodies.length, 2, "a failed submission can be retried");
+
+  const flipped = await submit({ ...ENTRY, side: "Sell", signalId: "s1" });
+  assert.equal(flipped.status, 409);
+  assert.equal(flipped.error, "Signal s1 already has an entry");
+  assert.equal((await submit({ ...ENTRY, signalId: "s1", signalLeg: "retest" })).ok, true);
+  // Reduce-only exits are not entries.
+  assert.equal((await submit({ ...ENTRY, side: "Sell", reduceOnly: true, signalId: "s1" })).ok, true);
+  assert.equal(bodies.length, 4);
+
+  advance(60_000);
+  const again = await submit({ ...ENTRY, signalId: "s1" });
+  assert.equal(again.meta.idempotentReplay, undefined);
+  assert.equal(bodies.length, 5);
+});
+
+test("a running algo claim outlives the size cap of the signal map", async () => {
+  const clock = 1_760_000_000_000;
+  const store = createOrderIdempotency({ ttlMs: 60_000, maxEntries: 2, now: () => clock });
+  const submit = (signalId) =>
+    store.run({ userId: "u1", env: "testnet", body: { ...ENTRY, signalId } }, async (resolved) => ({
+      ok: true,
+      result: { orderLinkId: resolved.orderLinkId },
+      meta: {},
+    }));
+  const claim = store.claimSignal({ userId: "u1", env: "testnet", signalId: "algo-1", orderLinkId: "algo-run-1" });
+  assert.equal(claim.ok, true);
+  for (const signalId of ["s1", "s2", "s3", "s4"]) {
+    assert.equal((await submit(signalId)).ok, true);
+  }
+
+  const direct = await submit("algo-1");
+  assert.equal(direct.status, 409);
+  assert.equal(direct.meta.orderLinkId, "algo-run-1");
+
+  // Settled, it still blocks a second entry until its TTL runs out.
+  claim.settle();
+  assert.equal((await submit("algo-1")).status, 409);
+});
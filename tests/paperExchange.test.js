@@ -0,0 +1,172 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createPaperExchange } from "../server/paperExchange.js";
+
+const ACCOUNT = { userId: "user-1" };
+
+function createVenue(overrides = {}) {
+  let clock = 1_700_000_000_000;
+  const venue = createPaperExchange({
+    initialBalance: 1000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => clock,
+    ...overrides,
+  });
+  return {
+    venue,
+    tick(symbol, price) {
+      clock += 1000;
+      venue.updatePrice(symbol, price, clock);
+    },
+  };
+}
+
+test("market order opens a position and take-profit closes it with realized pnl", async () => {
+  const { venue, tick } = createVenue();
+  tick("BTCUSDT", 100);
+  const placed = await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 2, orderType: "Market", tp: 105, sl: 95 },
+    ACCOUNT
+  );
+  assert.equal(placed.retCode, 0);
+
+  const positions = (await venue.getDemoPositions(ACCOUNT)).result.list;
+  assert.equal(positions.length, 1);
+  assert.equal(positions[0].side, "Buy");
+  assert.equal(positions[0].size, "2");
+  assert.equal(positions[0].takeProfit, "105");
+  assert.equal(positions[0].stopLoss, "95");
+
+  tick("BTCUSDT", 103);
+  const open = (await venue.getWalletBalance(ACCOUNT)).result.list[0];
+  assert.equal(open.totalEquity, "1006");
+  assert.equal(open.totalWalletBalance, "1000");
+
+  tick("BTCUSDT", 105.5);
+  assert.equal((await venue.getDemoPositions(ACCOUNT)).result.list.length, 0);
+  const pnl = (await venue.listClosedPnl(ACCOUNT)).result.list;
+  assert.equal(pnl.length, 1);
+  assert.equal(pnl[0].closedPnl, "11");
+  const executions = (await venue.listExecutions(ACCOUNT)).result.list;
+  assert.equal(executions.length, 2);
+  assert.equal(executions[0].stopOrderType, "TakeProfit");
+  const wallet = (await venue.getWalletBalance(ACCOUNT)).result.list[0];
+  assert.equal(wallet.totalWalletBalance, "1011");
+});
+
+test("resting limit order fills as maker when price trades through", async () => {
+  const { venue, tick } = createVenue({ makerFeeRate: 0.001 });
+  tick("ETHUSDT", 2000);
+  const placed = await venue.createDemoOrder(
+    { symbol: "ETHUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 1990, orderLinkId: "entry-1" },
+    ACCOUNT
+  );
+  assert.equal(placed.result.orderLinkId, "entry-1");
+  let orders = (await venue.listDemoOrders(ACCOUNT)).result.list;
+  assert.equal(orders.length, 1);
+  assert.equal(orders[0].orderStatus, "New");
+
+  tick("ETHUSDT", 1995);
+  assert.equal((await venue.getDemoPositions(ACCOUNT)).result.list.length, 0);
+  tick("ETHUSDT", 1988);
+  orders = (await venue.listDemoOrders(ACCOUNT)).result.list;
+  assert.equal(orders.length, 0);
+  const [position] = (await venue.getDemoPositions(ACCOUNT)).result.list;
+  assert.equal(position.avgPrice, "1990");
+  const [execution] = (await venue.listExecutions(ACCOUNT)).result.list;
+  assert.equal(execution.isMaker, true);
+  assert.equal(execution.execFee, "1.99");
+});
+
+test("conditional order triggers on cross and trailing stop locks profit", async () => {
+  const { venue, tick } = createVenue();
+  tick("SOLUSDT", 100);
+  await venue.createDemoOrder(
+    { symbol: "SOLUSDT", side: "Sell", qty: 10, orderType: "Market", triggerPrice: 98 },
+    ACCOUNT
+  );
+  const [pending] = (await venue.listDemoOrders(ACCOUNT)).result.list;
+  assert.equal(pending.orderStatus, "Untriggered");
+  assert.equal(pending.triggerDirection, 2);
+
+  tick("SOLUSDT", 97.5);
+  const [position] = (await venue.getDemoPositions(ACCOUNT)).result.list;
+  assert.equal(position.side, "Sell");
+  assert.equal(position.avgPrice, "97.5");
+
+  const stop = await venue.setTradingStop({ symbol: "SOLUSDT", trailingStop: 1, activePrice: 96 }, ACCOUNT);
+  assert.equal(stop.retCode, 0);
+  tick("SOLUSDT", 96.5);
+  tick("SOLUSDT", 94);
+  tick("SOLUSDT", 94.8);
+  assert.equal((await venue.getDemoPositions(ACCOUNT)).result.list.length, 1);
+  tick("SOLUSDT", 95.1);
+  assert.equal((await venue.getDemoPositions(ACCOUNT)).result.list.length, 0);
+  const [exit] = (await venue.listExecutions(ACCOUNT)).result.list;
+  assert.equal(exit.stopOrderType, "TrailingStop");
+  const [closed] = (await venue.listClosedPnl(ACCOUNT)).result.list;
+  assert.equal(closed.closedPnl, "24");
+});
+
+test("rejects invalid requests with Bybit-style ret codes", async () => {
+  const { venue, tick } = createVenue();
+  tick("BTCUSDT", 100);
+  const reduce = await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Sell", qty: 1, orderType: "Market", reduceOnly: true },
+    ACCOUNT
+  );
+  assert.equal(reduce.retCode, 110017);
+
+  const tooBig = await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 500, orderType: "Market", leverage: 10 },
+    ACCOUNT
+  );
+  assert.equal(tooBig.retCode, 110007);
+
+  await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 90, orderLinkId: "dup" },
+    ACCOUNT
+  );
+  const dup = await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 90, orderLinkId: "dup" },
+    ACCOUNT
+  );
+  assert.equal(dup.retCode, 110072);
+
+  const cancel = await venue.cancelOrder({ symbol: "BTCUSDT", orderLinkId: "dup" }, ACCOUNT);
+  assert.equal(cancel.retCode, 0);
+  const again = await venue.cancelOrder({ symbol: "BTCUSDT", orderLinkId: "dup" }, ACCOUNT);
+  assert.equal(again.retCode, 110001);
+
+  const noPosition = await venue.setTradingStop({ symbol: "BTCUSDT", sl: 95 }, ACCOUNT);
+  assert.equal(noPosition.retCode, 10001);
+});
+
+test("state persists to disk and reloads per account", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "paper-"));
+  const storePath = path.join(dir, "state.json");
+  try {
+    const first = createVenue({ storePath });
+    first.tick("BTCUSDT", 100);
+    await first.venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market" }, ACCOUNT);
+
+    const second = createVenue({ storePath });
+    const positions = (await second.venue.getDemoPositions(ACCOUNT)).result.list;
+    assert.equal(positions.length, 1);
+    assert.equal((await second.venue.getDemoPositions({ userId: "other" })).result.list.length, 0);
+
+    second.venue.resetAccount(ACCOUNT, { balance: 500 });
+    const wallet = (await second.venue.getWalletBalance(ACCOUNT)).result.list[0];
+    assert.equal(wallet.totalWalletBalance, "500");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
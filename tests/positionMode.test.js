@@ -0,0 +1,137 @@
+// tests/positionMode.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPaperExchange } from "../server/paperExchange.js";
+import { createPositionModes } from "../server/positionModes.js";
+import { reconcileState } from "../server/reconcile.js";
+import {
+  detectPositionMode,
+  normalizePositionMode,
+  openPositionLegs,
+  positionBlocksEntry,
+  positionIdxForOrder,
+  positionLegKey,
+} from "../src/engine/positionMode.js";
+
+const ACCOUNT = { userId: "u1" };
+
+function setup() {
+  const venue = createPaperExchange({
+    initialBalance: 100_000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => 1_760_000_000_000,
+  });
+  venue.updatePrice("BTCUSDT", 100, 1_760_000_000_000);
+  const legs = async () =>
+    (await venue.getDemoPositions(ACCOUNT)).result.list
+      .map((p) => [p.positionIdx, p.side, Number(p.size), Number(p.stopLoss || 0)])
+      .sort((a, b) => a[0] - b[0]);
+  return { venue, legs };
+}
+
+test("orders address the leg of their side in hedge mode", () => {
+  assert.equal(normalizePositionMode("BothSides"), "hedge");
+  assert.equal(normalizePositionMode(false), "oneway");
+  assert.equal(normalizePositionMode("x"), null);
+
+  assert.equal(positionIdxForOrder({ mode: "oneway", side: "Sell" }), 0);
+  assert.equal(positionIdxForOrder({ mode: "hedge", side: "Buy" }), 1);
+  assert.equal(positionIdxForOrder({ mode: "hedge", side: "Sell" }), 2);
+  // A reduce-only Sell closes the long leg.
+  assert.equal(positionIdxForOrder({ mode: "hedge", side: "Sell", reduceOnly: true }), 1);
+
+  const long = { symbol: "btcusdt", side: "Buy", size: "1", positionIdx: 1 };
+  const emptyShort = { symbol: "BTCUSDT", side: "None", size: "0", positionIdx: 2 };
+  assert.equal(positionLegKey(long), "BTCUSDT:Buy");
+  assert.equal(positionLegKey(emptyShort), "BTCUSDT:Sell");
+  assert.equal(detectPositionMode([long]), "hedge");
+  assert.equal(detectPositionMode([{ symbol: "BTCUSDT", side: "Buy", positionIdx: 0 }]), "oneway");
+  assert.equal(detectPositionMode([]), null);
+  assert.deepEqual(openPositionLegs([long, emptyShort], { symbol: "BTCUSDT" }), [long]);
+
+  assert.equal(positionBlocksEntry(long, "Buy"), true);
+  assert.equal(positionBlocksEntry(long, "Sell"), false);
+  assert.equal(positionBlocksEntry({ ...long, positionIdx: 0 }, "Sell"), true);
+});
+
+test("the paper venue holds a long and a short leg side by side", async () => {
+  const { venue, legs } = setup();
+  assert.equal((await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, positionIdx: 1 }, ACCOUNT)).retCode, 10001);
+  assert.equal((await venue.setPositionMode("hedge", ACCOUNT)).retCode, 0);
+
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market" }, ACCOUNT);
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Sell", qty: 2, orderType: "Market" }, ACCOUNT);
+  assert.deepEqual(await legs(), [
+    [1, "Buy", 1, 0],
+    [2, "Sell", 2, 0],
+  ]);
+
+  // Protection needs the leg once both are open.
+  assert.equal((await venue.setTradingStop({ symbol: "BTCUSDT", sl: 105 }, ACCOUNT)).retCode, 10001);
+  assert.equal((await venue.setTradingStop({ symbol: "BTCUSDT", side: "Sell", sl: 105 }, ACCOUNT)).retCode, 0);
+  assert.equal((await venue.setTradingStop({ symbol: "BTCUSDT", positionIdx: 1, sl: 95 }, ACCOUNT)).retCode, 0);
+  assert.deepEqual(await legs(), [
+    [1, "Buy", 1, 95],
+    [2, "Sell", 2, 105],
+  ]);
+
+  // A Sell on the long leg only closes it; the short leg stays.
+  await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Sell", qty: 1, orderType: "Market", positionIdx: 1 },
+    ACCOUNT
+  );
+  assert.deepEqual(await legs(), [[2, "Sell", 2, 105]]);
+
+  const busy = await venue.setPositionMode("oneway", ACCOUNT);
+  assert.equal(busy.retCode, 110024);
+});
+
+test("the recorded mode follows the venue switch", async () => {
+  const { venue } = setup();
+  let clock = 1_000;
+  const modes = createPositionModes({ now: () => clock });
+  const scope = { userId: "u1", env: "paper", venue, creds: ACCOUNT };
+
+  assert.equal(modes.modeOf("u1", "paper"), null);
+  assert.equal((await modes.apply({ ...scope, mode: "sideways" })).status, 400);
+  assert.deepEqual(await modes.apply({ ...scope, mode: "hedge" }), {
+    ok: true,
+    result: { mode: "hedge", updatedAt: 1_000 },
+  });
+  assert.equal(modes.modeOf("u1", "paper"), "hedge");
+  assert.equal(modes.modeOf("u1", "testnet"), null);
+
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Sell", qty: 1, orderType: "Market" }, ACCOUNT);
+  assert.deepEqual(await modes.status(scope), { mode: "hedge", updatedAt: 1_000, detected: "hedge" });
+
+  clock = 2_000;
+  const refused = await modes.apply({ ...scope, mode: "oneway" });
+  assert.equal(refused.status, 409);
+  assert.equal(refused.meta.code, 110024);
+  assert.equal(modes.modeOf("u1", "paper"), "hedge");
+});
+
+test("reconcile reports a missing stop loss per hedge leg", async () => {
+  const { venue } = setup();
+  await venue.setPositionMode("hedge", ACCOUNT);
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market", sl: 90 }, ACCOUNT);
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Sell", qty: 1, orderType: "Market" }, ACCOUNT);
+
+  const report = await reconcileState(ACCOUNT, false, venue);
+  assert.deepEqual(
+    report.diffs.map((diff) => [diff.field, diff.positionIdx, diff.side, diff.message]),
+    [["sl", 2, "Sell", "Short leg has no Stop Loss"]]
+  );
+  assert.deepEqual(
+    report.positions.map((p) => [p.positionIdx, p.side]).sort((a, b) => a[0] - b[0]),
+    [
+      [1, "buy"],
+      [2, "sell"],
+    ]
+  );
+});
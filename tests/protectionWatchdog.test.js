@@ -0,0 +1,158 @@
+// tests/protectionWatchdog.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPaperExchange } from "../server/paperExchange.js";
+import {
+  createProtectionWatchdog,
+  resolveProtectionWatchdogSettings,
+} from "../server/protectionWatchdog.js";
+import {
+  assessPositionProtection,
+  resolveFallbackStopLoss,
+} from "../src/engine/executionPolicy.js";
+
+const ACCOUNT = { userId: "u1" };
+
+function setup({ settings, rejectStops = false } = {}) {
+  let clock = 1_760_000_000_000;
+  const paper = createPaperExchange({
+    initialBalance: 100_000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => clock,
+  });
+  const venue = rejectStops
+    ? { ...paper, setTradingStop: async () => ({ retCode: 10001, retMsg: "StopLoss price invalid" }) }
+    : paper;
+  const notices = [];
+  const orders = [];
+  const watchdog = createProtectionWatchdog({
+    settings,
+    getInstrument: async () => ({ tickSize: 0.1 }),
+    submitOrder: async ({ body }) => {
+      orders.push(body);
+      const res = await paper.createDemoOrder(body, ACCOUNT);
+      return res.retCode === 0 ? { ok: true, result: res.result } : { ok: false, error: res.retMsg };
+    },
+    notify: (userId, event) => notices.push({ userId, ...event }),
+    now: () => clock,
+  });
+  const session = { userId: "u1", env: "paper", venue, creds: ACCOUNT, useTestnet: false, snapshot: {} };
+  const refresh = async () => {
+    session.snapshot = {
+      positions: await paper.getDemoPositions(ACCOUNT),
+      orders: await paper.listDemoOrders(ACCOUNT, {}),
+    };
+    await watchdog.onAccount(session);
+  };
+  const stopLoss = async () =>
+    (await paper.getDemoPositions(ACCOUNT)).result.list.map((p) => Number(p.stopLoss || 0));
+  paper.updatePrice("BTCUSDT", 100, clock);
+  return {
+    paper,
+    watchdog,
+    notices,
+    orders,
+    refresh,
+    stopLoss,
+    advance: (ms) => {
+      clock += ms;
+    },
+  };
+}
+
+test("fallback stops sit behind the mark on the tick and stop orders count as coverage", () => {
+  assert.equal(resolveFallbackStopLoss({ entry: 100, side: "Buy", tickSize: 0.1 }), 99.9);
+  assert.equal(resolveFallbackStopLoss({ entry: 100, side: "Sell", atr: 4, tickSize: 0.1 }), 100.2);
+  // The long already trades below the entry: the stop goes below the mark.
+  assert.equal(resolveFallbackStopLoss({ entry: 100, side: "Buy", markPrice: 98, tickSize: 0.5 }), 97.5);
+  assert.ok(Number.isNaN(resolveFallbackStopLoss({ entry: 0, side: "Buy" })));
+
+  const position = { symbol: "BTCUSDT", side: "Buy", size: "2", stopLoss: "" };
+  const stop = (qty, extra = {}) => ({
+    symbol: "BTCUSDT",
+    side: "Sell",
+    qty,
+    orderStatus: "Untriggered",
+    stopOrderType: "StopLoss",
+    ...extra,
+  });
+  assert.deepEqual(assessPositionProtection(position, []), { status: "missing", size: 2, coveredQty: 0 });
+  assert.deepEqual(assessPositionProtection(position, [stop("1")]), { status: "partial", size: 2, coveredQty: 1 });
+  assert.equal(assessPositionProtection(position, [stop("1"), stop("1")]).status, "protected");
+  assert.equal(assessPositionProtection(position, [stop("2", { side: "Buy" })]).status, "missing");
+  assert.equal(assessPositionProtection(position, [stop("2", { stopOrderType: "TakeProfit" })]).status, "missing");
+  assert.equal(assessPositionProtection({ ...position, stopLoss: "95" }, []).status, "protected");
+
+  assert.deepEqual(resolveProtectionWatchdogSettings({ PROTECTION_WATCHDOG_FLATTEN_AFTER: "3", PROTECTION_WATCHDOG_RETRY_MS: "5" }), {
+    graceMs: 10_000,
+    retryIntervalMs: 15_000,
+    escalateEvery: 5,
+    flattenAfter: 3,
+  });
+});
+
+test("an unprotected position gets a fallback stop loss after the grace period", async () => {
+  const { paper, watchdog, notices, refresh, stopLoss, advance } = setup();
+  await paper.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market" }, ACCOUNT);
+
+  await refresh();
+  assert.deepEqual(await stopLoss(), [0]);
+  assert.deepEqual(
+    watchdog.getStatus("u1", "paper").legs.map((leg) => [leg.symbol, leg.side, leg.status, leg.attempts]),
+    [["BTCUSDT", "Buy", "missing", 0]]
+  );
+
+  advance(10_000);
+  await refresh();
+  assert.deepEqual(await stopLoss(), [99.9]);
+  await refresh();
+  const status = watchdog.getStatus("u1", "paper");
+  assert.deepEqual(status.legs, []);
+  assert.deepEqual(
+    status.events.map((event) => [event.type, event.message]),
+    [["ATTACHED", "BTCUSDT Buy fallback SL attached at 99.9"]]
+  );
+  assert.deepEqual(notices, []);
+});
+
+test("failed attempts escalate and the position is flattened after N failures", async () => {
+  const { paper, watchdog, notices, orders, refresh, advance } = setup({
+    settings: { graceMs: 0, retryIntervalMs: 5_000, escalateEvery: 5, flattenAfter: 3 },
+    rejectStops: true,
+  });
+  await paper.createDemoOrder({ symbol: "BTCUSDT", side: "Sell", qty: 2, orderType: "Market" }, ACCOUNT);
+
+  await refresh();
+  // Retries wait for the interval.
+  advance(1_000);
+  await refresh();
+  assert.equal(watchdog.getStatus("u1", "paper").legs[0].attempts, 1);
+  advance(5_000);
+  await refresh();
+  assert.deepEqual(
+    notices.map((n) => [n.type, n.message]),
+    [["ERROR", "BTCUSDT Sell stop loss attach failed (1x): StopLoss price invalid"]]
+  );
+
+  advance(5_000);
+  await refresh();
+  assert.deepEqual(orders, [
+    { symbol: "BTCUSDT", side: "Buy", qty: "2", orderType: "Market", reduceOnly: true, positionIdx: 0 },
+  ]);
+  assert.deepEqual(notices.at(-1), {
+    userId: "u1",
+    type: "AUTO_CLOSE",
+    env: "paper",
+    symbol: "BTCUSDT",
+    side: "Sell",
+    message: "BTCUSDT Sell closed: no stop loss after 3 attempts",
+  });
+  assert.deepEqual((await paper.getDemoPositions(ACCOUNT)).result.list, []);
+  await refresh();
+  assert.deepEqual(watchdog.getStatus("u1", "paper").legs, []);
+});
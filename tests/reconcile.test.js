@@ -0,0 +1,213 @@
+// tests/reconcile.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPaperExchange } from "../server/paperExchange.js";
+import { reconcileState } from "../server/reconcile.js";
+
+const ACCOUNT = { userId: "u1" };
+const NOW = 1_760_000_000_000;
+
+function fixtureClient({ positions, orders, executions = [] }) {
+  const calls = [];
+  const ok = (name) => async (payload) => {
+    calls.push([name, payload]);
+    return { retCode: 0, result: {} };
+  };
+  return {
+    calls,
+    env: "testnet",
+    getDemoPositions: async () => ({ retCode: 0, result: { list: positions } }),
+    listDemoOpenOrders: async () => ({ retCode: 0, result: { list: orders } }),
+    listExecutions: async () => ({ retCode: 0, result: { list: executions } }),
+    cancelOrder: ok("cancel"),
+    createDemoOrder: ok("create"),
+    setTradingStop: ok("stop"),
+  };
+}
+
+function order(orderId, extra) {
+  return {
+    orderId,
+    orderLinkId: "",
+    symbol: "BTCUSDT",
+    side: "Sell",
+    orderType: "Limit",
+    orderStatus: "New",
+    price: "0",
+    qty: "1",
+    leavesQty: "1",
+    cumExecQty: "0",
+    triggerPrice: "0",
+    stopOrderType: "",
+    reduceOnly: true,
+    positionIdx: 0,
+    createdTime: String(NOW - 60_000),
+    ...extra,
+  };
+}
+
+function driftedAccount() {
+  return fixtureClient({
+    positions: [
+      {
+        symbol: "BTCUSDT",
+        side: "Buy",
+        size: "1",
+        avgPrice: "98",
+        markPrice: "100",
+        stopLoss: "105",
+        trailingStop: "0",
+        positionIdx: 0,
+        createdTime: String(NOW - 120_000),
+        updatedTime: String(NOW - 120_000),
+      },
+    ],
+    orders: [
+      order("s1", { orderType: "Market", triggerPrice: "95", stopOrderType: "Stop", orderStatus: "Untriggered", createdTime: String(NOW - 90_000) }),
+      order("s2", { orderType: "Market", triggerPrice: "95", stopOrderType: "Stop", orderStatus: "Untriggered" }),
+      order("tp1", { price: "110", qty: "2", leavesQty: "2" }),
+      order("o1", { symbol: "ETHUSDT", price: "3000" }),
+      order("e1", {
+        symbol: "ETHUSDT",
+        side: "Buy",
+        price: "2500",
+        qty: "2",
+        leavesQty: "1.5",
+        cumExecQty: "0.5",
+        reduceOnly: false,
+        createdTime: String(NOW - 30 * 60_000),
+      }),
+      order("e2", { symbol: "SOLUSDT", side: "Buy", price: "150", reduceOnly: false }),
+      order("e3", { symbol: "XRPUSDT", side: "Buy", price: "2", reduceOnly: false }),
+      // Placed by hand: old enough to report, never cancelled.
+      order("m1", {
+        symbol: "SOLUSDT",
+        side: "Buy",
+        price: "120",
+        reduceOnly: false,
+        createdTime: String(NOW - 30 * 60_000),
+      }),
+    ],
+    executions: [{ orderId: "entry-1", execQty: "1" }],
+  });
+}
+
+const INTENTS = [
+  { symbol: "BTCUSDT", side: "Buy", sl: 94, qty: 2, trailingStop: 2, orderId: "entry-1", openedAt: "2025-10-09T09:00:00.000Z" },
+  { symbol: "ETHUSDT", side: "Buy", qty: 2, orderId: "e1" },
+  // e2 is past its own expiry, e3 is still within it.
+  { symbol: "SOLUSDT", side: "Buy", qty: 1, orderId: "e2", expiresAt: new Date(NOW - 10_000).toISOString() },
+  { symbol: "XRPUSDT", side: "Buy", qty: 1, orderId: "e3", expiresAt: new Date(NOW + 60_000).toISOString() },
+];
+
+test("reconcile classifies drift and lists the repairs in dry-run", async () => {
+  const client = driftedAccount();
+  const report = await reconcileState(ACCOUNT, true, client, { intents: INTENTS, now: () => NOW });
+
+  assert.equal(report.meta.repair, "dry-run");
+  assert.deepEqual(
+    report.diffs.map((d) => [d.code, d.symbol, d.severity, d.message]),
+    [
+      ["SL_WRONG_SIDE", "BTCUSDT", "HIGH", "Position Stop Loss 105 is on the wrong side of mark 100"],
+      ["TRAILING_MISSING", "BTCUSDT", "MEDIUM", "Position has no trailing stop (planned 2)"],
+      ["DUPLICATE_PROTECTION", "BTCUSDT", "LOW", "Duplicate stop order s2 @ 95"],
+      ["QTY_MISMATCH", "BTCUSDT", "MEDIUM", "Exit order tp1 covers 2 of a 1 position (entry filled 1 of 2)"],
+      ["ORPHAN_ORDER", "ETHUSDT", "MEDIUM", "Reduce-only order o1 has no position"],
+      ["STALE_ENTRY", "ETHUSDT", "MEDIUM", "Entry order e1 open for 30 min (filled 0.5 of 2)"],
+      ["STALE_ENTRY", "SOLUSDT", "MEDIUM", "Entry order e2 open for 1 min"],
+      ["STALE_ENTRY", "SOLUSDT", "LOW", "Entry order m1 open for 30 min (not placed by the bot)"],
+    ]
+  );
+  assert.deepEqual(
+    report.diffs.map((d) => [d.repair.action, d.repair.orderId ?? d.repair.sl ?? d.repair.trailingStop]),
+    [
+      ["SET_STOP", 94],
+      ["SET_STOP", 2],
+      ["CANCEL_ORDER", "s2"],
+      ["RESIZE_ORDER", "tp1"],
+      ["CANCEL_ORDER", "o1"],
+      ["CANCEL_ORDER", "e1"],
+      ["CANCEL_ORDER", "e2"],
+      ["NONE", undefined],
+    ]
+  );
+  assert.equal(report.diffs[3].repair.qty, 1);
+  assert.ok(report.diffs.every((d) => d.repaired === undefined));
+  assert.deepEqual(client.calls, []);
+});
+
+test("auto mode runs the repairs in order", async () => {
+  const client = driftedAccount();
+  const report = await reconcileState(ACCOUNT, true, client, { intents: INTENTS, repair: "auto", now: () => NOW });
+
+  assert.equal(report.meta.repair, "auto");
+  assert.ok(report.diffs.every((d) => (d.repair.action === "NONE" ? !d.repaired : d.repaired?.ok)));
+  assert.deepEqual(client.calls, [
+    ["stop", { symbol: "BTCUSDT", positionIdx: 0, sl: 94 }],
+    ["stop", { symbol: "BTCUSDT", positionIdx: 0, trailingStop: 2, activePrice: undefined }],
+    ["cancel", { symbol: "BTCUSDT", orderId: "s2", orderLinkId: undefined }],
+    ["cancel", { symbol: "BTCUSDT", orderId: "tp1", orderLinkId: undefined }],
+    [
+      "create",
+      {
+        symbol: "BTCUSDT",
+        side: "Sell",
+        qty: 1,
+        orderType: "Limit",
+        price: 110,
+        triggerPrice: undefined,
+        triggerDirection: undefined,
+        timeInForce: undefined,
+        reduceOnly: true,
+        positionIdx: 0,
+      },
+    ],
+    ["cancel", { symbol: "ETHUSDT", orderId: "o1", orderLinkId: undefined }],
+    ["cancel", { symbol: "ETHUSDT", orderId: "e1", orderLinkId: undefined }],
+    ["cancel", { symbol: "SOLUSDT", orderId: "e2", orderLinkId: undefined }],
+  ]);
+});
+
+test("auto mode protects a paper position and cancels its stale entry", async () => {
+  let clock = NOW;
+  const venue = createPaperExchange({
+    initialBalance: 100_000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => clock,
+  });
+  venue.updatePrice("BTCUSDT", 100, clock);
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market" }, ACCOUNT);
+  await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 90, orderLinkId: "bot-entry" },
+    ACCOUNT
+  );
+  clock += 11 * 60_000;
+
+  const options = {
+    intents: [{ symbol: "BTCUSDT", side: "Buy", qty: 1, trailingStop: 3, orderLinkId: "bot-entry" }],
+    getInstrument: async () => ({ tickSize: 0.1 }),
+    now: () => clock,
+  };
+  const dryRun = await reconcileState(ACCOUNT, false, venue, options);
+  assert.deepEqual(
+    dryRun.diffs.map((d) => [d.code, d.repair.action, d.repair.source ?? null]),
+    [
+      ["MISSING_SL", "SET_STOP", "fallback"],
+      ["TRAILING_MISSING", "SET_STOP", null],
+      ["STALE_ENTRY", "CANCEL_ORDER", null],
+    ]
+  );
+
+  const repaired = await reconcileState(ACCOUNT, false, venue, { ...options, repair: "auto" });
+  assert.deepEqual(repaired.diffs.map((d) => d.repaired), [{ ok: true }, { ok: true }, { ok: true }]);
+  const [position] = (await venue.getDemoPositions(ACCOUNT)).result.list;
+  assert.deepEqual([Number(position.stopLoss), Number(position.trailingStop)], [99.9, 3]);
+
+  const clean = await reconcileState(ACCOUNT, false, venue, options);
+  assert.deepEqual(clean.diffs, []);
+});
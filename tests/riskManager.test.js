@@ -0,0 +1,255 @@
+// tests/riskManager.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  createFileRiskStore,
+  createRiskManager,
+  normalizeRiskLimits,
+  summarizeRiskAccount,
+} from "../server/riskManager.js";
+
+const DAY = Date.parse("2026-10-18T00:00:00Z");
+const LIMITS = { maxDailyLoss: 0, maxDailyLossPct: 5, maxDrawdownPct: 10, maxOpenRiskPct: 10 };
+
+function makeClock(start) {
+  let ts = start;
+  return {
+    now: () => ts,
+    set: (value) => {
+      ts = value;
+    },
+  };
+}
+
+const account = (equity, extra = {}) => ({
+  equity,
+  unrealized: 0,
+  realizedToday: 0,
+  openRisk: 0,
+  ...extra,
+});
+
+test("summarizeRiskAccount sums today's closed pnl, unrealized pnl and stop risk", () => {
+  const now = DAY + 12 * 3600_000;
+  const summary = summarizeRiskAccount(
+    {
+      wallet: { result: { list: [{ totalEquity: "1000" }] } },
+      positions: {
+        result: {
+          list: [
+            { symbol: "BTCUSDT", size: "0.1", avgPrice: "60000", stopLoss: "59500", unrealisedPnl: "-12" },
+            { symbol: "ETHUSDT", size: "1", avgPrice: "3000", stopLoss: "0", leverage: "20", unrealisedPnl: "4" },
+            { symbol: "SOLUSDT", size: "0", avgPrice: "150", unrealisedPnl: "99" },
+          ],
+        },
+      },
+      pnl: {
+        result: {
+          list: [
+            { closedPnl: "-20", updatedTime: String(now - 3600_000) },
+            { closedPnl: "-500", updatedTime: String(DAY - 1) },
+          ],
+        },
+      },
+    },
+    { now }
+  );
+  assert.deepEqual(summary, {
+    equity: 1000,
+    unrealized: -8,
+    realizedToday: -20,
+    // 0.1 * 500 stop distance + 3000 / 20 margin for the unprotected leg
+    openRisk: 200,
+  });
+});
+
+test("daily loss halts new entries but lets reduce-only orders through", () => {
+  const clock = makeClock(DAY + 3600_000);
+  const halts = [];
+  const risk = createRiskManager({
+    limits: LIMITS,
+    now: clock.now,
+    onHalt: (userId, env, halt) => halts.push({ userId, env, reason: halt.reason }),
+  });
+  risk.observe("u1", "testnet", account(1000));
+
+  const ok = risk.checkOrder({ userId: "u1", env: "testnet", account: account(990, { realizedToday: -10 }) });
+  assert.equal(ok.allowed, true);
+
+  const blocked = risk.checkOrder({
+    userId: "u1",
+    env: "testnet",
+    account: account(955, { realizedToday: -30, unrealized: -20 }),
+    order: { symbol: "BTCUSDT", qty: 0.001, price: 60000, sl: 59000 },
+  });
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.reason, "DAILY_LOSS");
+  assert.equal(blocked.status.events[0].type, "RISK_HALT");
+  assert.deepEqual(halts, [{ userId: "u1", env: "testnet", reason: "DAILY_LOSS" }]);
+
+  // Halt sticks even after the loss is recovered.
+  const stillHalted = risk.checkOrder({ userId: "u1", env: "testnet", account: account(1000) });
+  assert.equal(stillHalted.allowed, false);
+  const exit = risk.checkOrder({
+    userId: "u1",
+    env: "testnet",
+    account: account(1000),
+    order: { reduceOnly: true },
+  });
+  assert.equal(exit.allowed, true);
+  assert.equal(halts.length, 1);
+
+  // Other accounts are unaffected.
+  assert.equal(risk.checkOrder({ userId: "u2", env: "testnet", account: account(500) }).allowed, true);
+});
+
+test("halt lifts on the next trading day", () => {
+  const clock = makeClock(DAY + 3600_000);
+  const risk = createRiskManager({ limits: LIMITS, now: clock.now });
+  risk.observe("u1", "mainnet", account(1000));
+  const halted = risk.observe("u1", "mainnet", account(960, { realizedToday: -60 }));
+  assert.equal(halted.halted, true);
+
+  clock.set(DAY + 25 * 3600_000);
+  const verdict = risk.checkOrder({ userId: "u1", env: "mainnet", account: account(960) });
+  assert.equal(verdict.allowed, true);
+  assert.equal(verdict.status.dayStartEquity, 960);
+  assert.equal(verdict.status.events[0].reason, "NEW_TRADING_DAY");
+});
+
+test("unrealized pnl carried over the day roll is not today's loss", () => {
+  const clock = makeClock(DAY + 20 * 3600_000);
+  const risk = createRiskManager({ limits: { ...LIMITS, maxDrawdownPct: 0 }, now: clock.now });
+  risk.observe("u1", "testnet", account(1000));
+  assert.equal(risk.observe("u1", "testnet", account(960, { unrealized: -40 })).halted, false);
+
+  // 55 of 960 would be over 5% if the carried loss counted from zero.
+  clock.set(DAY + 25 * 3600_000);
+  const rolled = risk.checkOrder({ userId: "u1", env: "testnet", account: account(945, { unrealized: -55 }) });
+  assert.equal(rolled.allowed, true);
+  assert.equal(rolled.status.dayStartEquity, 945);
+  assert.equal(rolled.status.metrics.dailyPnl, 0);
+
+  const later = risk.observe("u1", "testnet", account(930, { unrealized: -70 }));
+  assert.equal(later.metrics.dailyPnl, -15);
+  const closed = risk.observe("u1", "testnet", account(930, { realizedToday: -70 }));
+  assert.equal(closed.metrics.dailyPnl, -15);
+  assert.equal(closed.halted, false);
+});
+
+test("drawdown from equity peak halts until manual reset", () => {
+  const clock = makeClock(DAY + 3600_000);
+  const risk = createRiskManager({ limits: { ...LIMITS, maxDailyLossPct: 0 }, now: clock.now });
+  risk.observe("u1", "testnet", account(1000));
+  risk.observe("u1", "testnet", account(1200));
+  const halted = risk.observe("u1", "testnet", account(1070));
+  assert.equal(halted.halted, true);
+  assert.equal(halted.halt.reason, "MAX_DRAWDOWN");
+  assert.equal(halted.equityPeak, 1200);
+
+  // Still in drawdown the next day, so it halts again.
+  clock.set(DAY + 25 * 3600_000);
+  assert.equal(risk.observe("u1", "testnet", account(1070)).halted, true);
+
+  const reset = risk.reset("u1", "testnet", { by: "tester" });
+  assert.equal(reset.halted, false);
+  assert.equal(reset.equityPeak, 1070);
+  assert.equal(reset.events[0].reason, "MANUAL_RESET");
+  assert.equal(risk.checkOrder({ userId: "u1", env: "testnet", account: account(1060) }).allowed, true);
+});
+
+test("manual reset re-bases the daily loss", () => {
+  const clock = makeClock(DAY + 3600_000);
+  const risk = createRiskManager({ limits: LIMITS, now: clock.now });
+  risk.observe("u1", "testnet", account(1000));
+  assert.equal(risk.observe("u1", "testnet", account(940, { realizedToday: -60 })).halted, true);
+  risk.reset("u1", "testnet");
+  const after = risk.checkOrder({ userId: "u1", env: "testnet", account: account(930, { realizedToday: -70 }) });
+  assert.equal(after.allowed, true);
+  assert.equal(after.status.metrics.dailyPnl, -10);
+});
+
+test("open risk cap rejects the order without halting", () => {
+  const clock = makeClock(DAY + 3600_000);
+  const risk = createRiskManager({ limits: LIMITS, now: clock.now });
+  const verdict = risk.checkOrder({
+    userId: "u1",
+    env: "testnet",
+    account: account(1000, { openRisk: 80 }),
+    order: { symbol: "BTCUSDT", qty: 0.05, price: 60000, sl: 59500 },
+  });
+  assert.equal(verdict.allowed, false);
+  assert.equal(verdict.reason, "OPEN_RISK");
+  assert.equal(verdict.status.halted, false);
+
+  const small = risk.checkOrder({
+    userId: "u1",
+    env: "testnet",
+    account: account(1000, { openRisk: 80 }),
+    order: { symbol: "BTCUSDT", qty: 0.01, price: 60000, sl: 59500 },
+  });
+  assert.equal(small.allowed, true);
+});
+
+test("orders fail closed when equity or the order price is unknown", () => {
+  const clock = makeClock(DAY + 3600_000);
+  const risk = createRiskManager({ limits: LIMITS, now: clock.now });
+  const order = { symbol: "BTCUSDT", qty: 0.01, price: 60000, sl: 59500 };
+
+  const noEquity = risk.checkOrder({ userId: "u1", env: "testnet", account: account(null), order });
+  assert.equal(noEquity.allowed, false);
+  assert.equal(noEquity.reason, "NO_EQUITY");
+  assert.equal(noEquity.status.halted, false);
+  assert.equal(
+    risk.checkOrder({ userId: "u1", env: "testnet", account: account(null), order: { ...order, reduceOnly: true } })
+      .allowed,
+    true
+  );
+
+  // A market order without a price would otherwise add no risk at all.
+  const unpriced = risk.checkOrder({
+    userId: "u1",
+    env: "testnet",
+    account: account(1000, { openRisk: 80 }),
+    order: { symbol: "BTCUSDT", qty: 5, sl: 59500 },
+  });
+  assert.equal(unpriced.allowed, false);
+  assert.equal(unpriced.reason, "NO_PRICE");
+
+  const priced = risk.checkOrder({
+    userId: "u1",
+    env: "testnet",
+    account: account(1000, { openRisk: 80 }),
+    order: { symbol: "BTCUSDT", qty: 5, price: 60000, sl: 59500 },
+  });
+  assert.equal(priced.reason, "OPEN_RISK");
+});
+
+test("halt survives a restart through the file store", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "risk-"));
+  const file = path.join(dir, "risk-state.json");
+  try {
+    const clock = makeClock(DAY + 3600_000);
+    const first = createRiskManager({ store: createFileRiskStore(file), limits: LIMITS, now: clock.now });
+    first.observe("u1", "testnet", account(1000));
+    first.observe("u1", "testnet", account(900, { realizedToday: -100 }));
+
+    const second = createRiskManager({ store: createFileRiskStore(file), limits: LIMITS, now: clock.now });
+    const status = second.getStatus("u1", "testnet");
+    assert.equal(status.halted, true);
+    assert.equal(status.halt.reason, "DAILY_LOSS");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("normalizeRiskLimits reads RISK_* env vars and keeps defaults", () => {
+  const limits = normalizeRiskLimits({ RISK_MAX_DAILY_LOSS: "250", RISK_MAX_DRAWDOWN_PCT: "0", RISK_MAX_OPEN_RISK_PCT: "-1" });
+  assert.equal(limits.maxDailyLoss, 250);
+  assert.equal(limits.maxDrawdownPct, 0);
+  assert.equal(limits.maxOpenRiskPct, 10);
+  assert.equal(limits.maxDailyLossPct, 5);
+});
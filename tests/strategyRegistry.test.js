@@ -0,0 +1,110 @@
+// tests/strategyRegistry.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  STRATEGY_CATALOG,
+  createStrategyRegistry,
+  resolveCatalogId,
+} from "../src/engine/strategyRegistryEngine.js";
+// Explicit extensions: `.ts` is the client/backtest registry, `.js` the server twin.
+import {
+  getStrategy,
+  listStrategies,
+  resolveStrategy,
+  resolveStrategyId,
+} from "../src/engine/strategyRegistry.ts";
+import { evaluateStrategyForSymbol, resetStrategyState } from "../src/engine/botEngine.ts";
+import * as serverRegistry from "../src/engine/strategyRegistry.js";
+import { replayPersistentSession } from "../server/persistentAggregator.js";
+
+const noopDecide = () => ({ state: "SCAN", trend: "range" });
+
+test("every built-in profile is registered in both runtimes", () => {
+  const ids = STRATEGY_CATALOG.map((entry) => entry.id);
+  assert.deepEqual(
+    listStrategies().map((strategy) => strategy.id),
+    ids
+  );
+  assert.deepEqual(
+    serverRegistry.listStrategies().map((strategy) => strategy.id),
+    ids
+  );
+  for (const strategy of listStrategies()) {
+    assert.equal(typeof strategy.decide, "function");
+    assert.ok(strategy.timeframes.length > 0);
+    assert.ok(strategy.gateNames.length > 0, `${strategy.id} gate names`);
+    for (const gate of strategy.gateNames) {
+      assert.equal(strategy.checklistDefaults[gate], true, `${strategy.id}: ${gate}`);
+    }
+    assert.ok(Number.isFinite(strategy.management.trail.activateR));
+    assert.equal(serverRegistry.getStrategy(strategy.id).label, strategy.label);
+  }
+});
+
+test("ids resolve case-insensitively, through aliases and to the default", () => {
+  assert.equal(resolveStrategyId("AI-MATIC-PRO"), "ai-matic-pro");
+  assert.equal(resolveStrategyId("ai-matic-scalp"), "ai-matic-olikella");
+  assert.equal(resolveStrategyId("unknown-mode"), "ai-matic");
+  assert.equal(resolveStrategyId(undefined, "ai-matic-tree"), "ai-matic-tree");
+  assert.equal(getStrategy("unknown-mode"), null);
+  assert.equal(resolveStrategy("unknown-mode").id, "ai-matic");
+  assert.equal(resolveCatalogId(" ai-matic-scalp "), "ai-matic-olikella");
+  assert.equal(serverRegistry.resolveStrategy("ai-matic-scalp").maxCandles, 2500);
+  assert.equal(serverRegistry.resolveStrategy("ai-matic-bbo").maxCandles, 5000);
+});
+
+test("registries validate and replace definitions", () => {
+  const registry = createStrategyRegistry({ fallbackId: "base" });
+  assert.throws(() => registry.register({ id: "", decide: noopDecide, timeframes: [5] }), /strategy_invalid_id/);
+  assert.throws(() => registry.register({ id: "x", timeframes: [5] }), /strategy_missing_decide:x/);
+  assert.throws(() => registry.register({ id: "x", decide: noopDecide }), /strategy_missing_timeframes:x/);
+
+  registry.register({ id: "base", decide: noopDecide, timeframes: [60, 5] });
+  const plugin = registry.register({
+    id: "Plugin",
+    label: "PLUGIN",
+    aliases: ["legacy-plugin"],
+    decide: noopDecide,
+    timeframes: [15],
+  });
+  assert.equal(plugin.id, "plugin");
+  assert.ok(Object.isFrozen(plugin));
+  assert.deepEqual(registry.get("base").timeframes, [5, 60]);
+  assert.equal(registry.get("legacy-plugin"), plugin);
+  assert.equal(registry.resolve("nope").id, "base");
+  assert.throws(
+    () => registry.register({ id: "other", aliases: ["base"], decide: noopDecide, timeframes: [5] }),
+    /strategy_alias_conflict:base/
+  );
+
+  const replaced = registry.register({ id: "plugin", label: "PLUGIN v2", decide: noopDecide, timeframes: [15] });
+  assert.equal(registry.get("plugin"), replaced);
+  assert.equal(registry.get("legacy-plugin"), null);
+  assert.deepEqual(registry.ids(), ["base", "plugin"]);
+});
+
+test("the bot engine delegates standalone profiles to the registry", () => {
+  const candles = Array.from({ length: 40 }, (_, i) => ({
+    openTime: Date.UTC(2026, 0, 1) + i * 5 * 60_000,
+    open: 100 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100.5 + i,
+    volume: 10,
+  }));
+  for (const id of ["ai-matic-amd", "ai-matic-pro", "ai-matic-x"]) {
+    resetStrategyState("REGUSDT");
+    const viaEngine = evaluateStrategyForSymbol("REGUSDT", candles, { strategyProfile: id });
+    const direct = resolveStrategy(id).decide("REGUSDT", candles);
+    assert.deepEqual(viaEngine, direct, id);
+  }
+  resetStrategyState("REGUSDT");
+});
+
+test("aggregator sessions take the decision function and history from the registry", async () => {
+  const { session } = await replayPersistentSession([], { riskMode: "ai-matic-scalp" });
+  const strategy = serverRegistry.getStrategy("ai-matic-olikella");
+  assert.equal(session.engine.riskMode, "ai-matic-olikella");
+  assert.equal(session.engine.decisionFn, strategy.decide);
+  assert.equal(session.engine.maxCandles, 2500);
+});
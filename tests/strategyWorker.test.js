@@ -0,0 +1,190 @@
+// tests/strategyWorker.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createStrategyWorkerRuntime } from "../src/engine/strategyWorker.ts";
+import {
+  createStrategyWorkerClient,
+  recordEvaluationLatency,
+} from "../src/engine/strategyWorkerClient.ts";
+import { getFeedConnections } from "../src/engine/feedConnection.ts";
+import { registerStrategy } from "../src/engine/strategyRegistry.ts";
+
+const probeCalls = [];
+registerStrategy({
+  id: "worker-probe",
+  label: "PROBE",
+  timeframes: [5],
+  maxCandles: 300,
+  management: { trail: { activateR: 1, lockR: 0.5 } },
+  decide: (symbol, candles, config) => {
+    probeCalls.push({ symbol, bars: candles.length, config });
+    if (symbol === "BADUSDT") throw new Error("probe_failed");
+    return { state: "SCAN", signal: null, bars: candles.length };
+  },
+});
+
+// Feed stub: remembers the options and lets the test push candles through.
+function fakeFeed() {
+  const feed = { starts: [], stopped: 0 };
+  feed.start = (symbols, onDecision, opts) => {
+    const run = { symbols, opts };
+    run.tick = (symbol, candles) => {
+      const decision = opts.decisionFn(symbol, candles, opts.configOverrides(symbol));
+      onDecision(symbol, decision);
+    };
+    feed.starts.push(run);
+    return () => {
+      feed.stopped += 1;
+    };
+  };
+  return feed;
+}
+
+// Clock advancing by the given steps on every read.
+function steppingClock(steps) {
+  let now = 0;
+  let i = 0;
+  return () => {
+    now += steps[i++ % steps.length];
+    return now;
+  };
+}
+
+test("runtime evaluates the profile per symbol and reports its latency", () => {
+  const feed = fakeFeed();
+  const events = [];
+  const runtime = createStrategyWorkerRuntime((event) => events.push(event), {
+    startFeed: feed.start,
+    clock: steppingClock([0, 12]),
+  });
+
+  runtime.handle({
+    type: "start",
+    feed: {
+      symbols: ["BTCUSDT", "ETHUSDT"],
+      riskMode: "worker-probe",
+      useTestnet: true,
+      configOverrides: { adxPeriod: 10 },
+    },
+  });
+  const run = feed.starts[0];
+  assert.deepEqual(run.symbols, ["BTCUSDT", "ETHUSDT"]);
+  assert.equal(run.opts.maxCandles, 300);
+  assert.equal(run.opts.backfill.lookbackMinutes, 1500);
+  assert.equal(run.opts.useTestnet, true);
+  assert.equal(run.opts.orderflow, undefined);
+
+  run.tick("BTCUSDT", [1, 2, 3]);
+  runtime.handle({ type: "config", configOverrides: { adxPeriod: 20 } });
+  run.tick("ETHUSDT", [1]);
+
+  assert.deepEqual(
+    probeCalls.map((call) => [call.symbol, call.config.adxPeriod]),
+    [
+      ["BTCUSDT", 10],
+      ["ETHUSDT", 20],
+    ]
+  );
+  const decisions = events.filter((event) => event.type === "decision");
+  assert.deepEqual(
+    decisions.map((event) => [event.symbol, event.decision.bars, event.evalMs]),
+    [
+      ["BTCUSDT", 3, 12],
+      ["ETHUSDT", 1, 12],
+    ]
+  );
+
+  // A failing strategy is reported and the feed keeps its own error handling.
+  assert.throws(() => run.tick("BADUSDT", []), /probe_failed/);
+  assert.deepEqual(events.at(-1), { type: "error", symbol: "BADUSDT", message: "probe_failed" });
+
+  // Restarting replaces the running feed.
+  runtime.handle({ type: "start", feed: { symbols: ["SOLUSDT"], riskMode: "worker-probe" } });
+  assert.equal(feed.stopped, 1);
+  runtime.handle({ type: "stop" });
+  assert.equal(feed.stopped, 2);
+  assert.deepEqual(events.at(-1), { type: "stopped" });
+});
+
+test("client forwards worker messages, tracks latency and mirrors feed state", () => {
+  const posted = [];
+  let terminated = false;
+  const worker = {
+    onmessage: null,
+    postMessage: (request) => posted.push(request),
+    terminate: () => {
+      terminated = true;
+    },
+  };
+  const decisions = [];
+  const errors = [];
+  const client = createStrategyWorkerClient({
+    createWorker: () => worker,
+    onDecision: (symbol, decision, evalMs) => decisions.push([symbol, decision.state, evalMs]),
+    onError: (message, symbol) => errors.push([symbol, message]),
+  });
+  assert.equal(client.inThread, false);
+
+  const feed = { symbols: ["BTCUSDT"], riskMode: "ai-matic" };
+  client.start(feed);
+  client.updateConfig({ adxPeriod: 12 });
+  assert.deepEqual(posted, [
+    { type: "start", feed },
+    { type: "config", configOverrides: { adxPeriod: 12 } },
+  ]);
+
+  const emit = (data) => worker.onmessage({ data });
+  emit({ type: "decision", symbol: "BTCUSDT", decision: { state: "SCAN" }, evalMs: 10, ts: 1 });
+  emit({ type: "decision", symbol: "BTCUSDT", decision: { state: "SCAN" }, evalMs: 20, ts: 2 });
+  emit({ type: "error", symbol: null, message: "boom" });
+  emit({
+    type: "feed",
+    connections: [{ id: "price-1", channel: "price", exchange: "bybit", status: "open" }],
+  });
+
+  assert.deepEqual(decisions, [
+    ["BTCUSDT", "SCAN", 10],
+    ["BTCUSDT", "SCAN", 20],
+  ]);
+  assert.deepEqual(errors, [[null, "boom"]]);
+  assert.deepEqual(client.latency(), {
+    BTCUSDT: { lastMs: 20, avgMs: 12, maxMs: 20, count: 2, updatedAt: 2 },
+  });
+  assert.deepEqual(
+    getFeedConnections().map((state) => state.id),
+    ["strategy-worker:price-1"]
+  );
+
+  client.terminate();
+  assert.equal(terminated, true);
+  assert.deepEqual(getFeedConnections(), []);
+  client.start(feed);
+  assert.equal(posted.length, 2);
+});
+
+test("client runs the runtime in-thread when workers are unavailable", () => {
+  const feed = fakeFeed();
+  const decisions = [];
+  const client = createStrategyWorkerClient({
+    createWorker: null,
+    runtime: { startFeed: feed.start, clock: steppingClock([0, 5]) },
+    onDecision: (symbol, decision, evalMs) => decisions.push([symbol, evalMs]),
+  });
+  assert.equal(client.inThread, true);
+
+  client.start({ symbols: ["BTCUSDT"], riskMode: "worker-probe" });
+  feed.starts[0].tick("BTCUSDT", [1, 2]);
+  assert.deepEqual(decisions, [["BTCUSDT", 5]]);
+  assert.equal(client.latency().BTCUSDT.count, 1);
+
+  client.terminate();
+  assert.equal(feed.stopped, 1);
+});
+
+test("latency keeps an exponential average and the maximum", () => {
+  let latency = recordEvaluationLatency(undefined, 100, 1);
+  latency = recordEvaluationLatency(latency, 0, 2);
+  assert.equal(latency.avgMs, 80);
+  assert.equal(latency.maxMs, 100);
+  assert.equal(latency.count, 2);
+});
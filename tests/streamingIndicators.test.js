@@ -0,0 +1,199 @@
+// tests/streamingIndicators.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  createAdxStream,
+  createAtrStream,
+  createBollingerStream,
+  createEmaStream,
+  createMacdStream,
+  createResampler,
+  createRsiStream,
+  createSymbolStreams,
+  createTimeframeStream,
+} from "../src/engine/streamingIndicatorsEngine.js";
+import { computeCoreV2 } from "../src/engine/coreV2Engine.js";
+import {
+  computeADX,
+  computeATR,
+  computeAtr,
+  computeBollinger,
+  computeEma,
+  computeMacd,
+  computeRsi,
+  findPivotsHigh,
+  findPivotsLow,
+} from "../src/engine/ta.ts";
+import { resampleCandles } from "../src/engine/botEngine.ts";
+
+const MIN = 60_000;
+const T0 = Date.parse("2026-10-18T00:00:00Z");
+
+// Deterministic random walk of 1m candles.
+function makeCandles(count, seed = 7) {
+  let s = seed;
+  const rand = () => {
+    s = (s * 1103515245 + 12345) % 2147483648;
+    return s / 2147483648;
+  };
+  const out = [];
+  let price = 60_000;
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    const close = open * (1 + (rand() - 0.5) * 0.004);
+    const high = Math.max(open, close) * (1 + rand() * 0.002);
+    const low = Math.min(open, close) * (1 - rand() * 0.002);
+    out.push({ openTime: T0 + i * MIN, open, high, low, close, volume: 1 + rand() * 10 });
+    price = close;
+  }
+  return out;
+}
+
+// Feeds every bar as two provisional ticks followed by the final value.
+function stream(indicator, inputs, tick) {
+  return inputs.map((input) => {
+    indicator.update(tick(input, 0.999));
+    indicator.revise(tick(input, 1.001));
+    return indicator.revise(input);
+  });
+}
+
+const tickClose = (x, f) => x * f;
+const tickBar = (bar, f) => ({ ...bar, high: bar.high * f, close: bar.close * f });
+
+const candles = makeCandles(600);
+const closes = candles.map((c) => c.close);
+const highs = candles.map((c) => c.high);
+const lows = candles.map((c) => c.low);
+
+test("streamed EMA, ATR, RSI, ADX and MACD equal the batch functions", () => {
+  assert.deepEqual(stream(createEmaStream(21), closes, tickClose), computeEma(closes, 21));
+  assert.deepEqual(stream(createAtrStream(14), candles, tickBar), computeAtr(candles, 14));
+  assert.deepEqual(
+    stream(createAtrStream(14), candles, tickBar),
+    computeATR(highs, lows, closes, 14)
+  );
+  assert.deepEqual(stream(createRsiStream(14), closes, tickClose), computeRsi(closes, 14));
+  assert.deepEqual(
+    stream(createAdxStream(14), candles, tickBar),
+    computeADX(highs, lows, closes, 14)
+  );
+  assert.deepEqual(stream(createMacdStream(12, 26, 9), closes, tickClose), computeMacd(closes));
+  // Short series still follow the batch padding.
+  assert.deepEqual(
+    stream(createAdxStream(14), candles.slice(0, 5), tickBar),
+    computeADX(highs.slice(0, 5), lows.slice(0, 5), closes.slice(0, 5), 14)
+  );
+});
+
+test("streamed Bollinger bands match the batch values", () => {
+  const streamed = stream(createBollingerStream(20, 2), closes, tickClose);
+  const batch = computeBollinger(closes, 20, 2);
+  assert.equal(streamed.length, batch.length);
+  for (let i = 0; i < batch.length; i++) {
+    if (i < 19) {
+      assert.ok(Number.isNaN(streamed[i].middle));
+      continue;
+    }
+    for (const key of ["middle", "upper", "lower"]) {
+      assert.ok(
+        Math.abs(streamed[i][key] - batch[i][key]) < 1e-6,
+        `${key} at ${i}: ${streamed[i][key]} vs ${batch[i][key]}`
+      );
+    }
+  }
+});
+
+test("resampler follows a ticking, sliding buffer like resampleCandles", () => {
+  const resampler = createResampler(15);
+  const buffer = [];
+  const changes = [];
+  for (const candle of candles.slice(0, 200)) {
+    // A provisional tick, then the final candle.
+    buffer.push({ ...candle, close: candle.open });
+    resampler.sync(buffer);
+    buffer[buffer.length - 1] = candle;
+    changes.push(resampler.sync(buffer));
+    if (buffer.length > 100) buffer.shift();
+    resampler.sync(buffer);
+    assert.deepEqual(resampler.candles(), resampleCandles(buffer, 15));
+  }
+  assert.ok(changes.every((change) => !change.reset));
+
+  // Rewritten history (a backfill merge) rebuilds.
+  const rewritten = [...candles.slice(40, 60), ...buffer];
+  const change = resampler.sync(rewritten);
+  assert.equal(change.reset, true);
+  assert.deepEqual(resampler.candles(), resampleCandles(rewritten, 15));
+});
+
+test("timeframe stream keeps indicator series and pivots aligned with its bars", () => {
+  const frame = createTimeframeStream(5);
+  const ema = frame.series({ type: "ema", period: 8 });
+  assert.deepEqual(ema, []);
+
+  const buffer = [];
+  for (const candle of candles) {
+    buffer.push({ ...candle, close: candle.open });
+    frame.sync(buffer);
+    buffer[buffer.length - 1] = candle;
+    frame.sync(buffer);
+  }
+  const bars = resampleCandles(candles, 5);
+  const barCloses = bars.map((c) => c.close);
+  assert.deepEqual(frame.candles(), bars);
+  assert.deepEqual(frame.series({ type: "ema", period: 8 }), computeEma(barCloses, 8));
+  assert.deepEqual(
+    frame.series({ type: "atr", period: 14 }),
+    computeATR(
+      bars.map((c) => c.high),
+      bars.map((c) => c.low),
+      barCloses,
+      14
+    )
+  );
+  assert.deepEqual(frame.series({ type: "macd" }), computeMacd(barCloses));
+  assert.deepEqual(frame.pivots(2, 2), {
+    highs: findPivotsHigh(bars, 2, 2),
+    lows: findPivotsLow(bars, 2, 2),
+  });
+
+  // Registered indicators keep streaming; new bars only append.
+  const rsi = frame.series({ type: "rsi", period: 14 });
+  const more = makeCandles(30, 11).map((c, i) => ({
+    ...c,
+    openTime: T0 + (candles.length + i) * MIN,
+  }));
+  frame.sync([...candles, ...more]);
+  const allBars = resampleCandles([...candles, ...more], 5);
+  assert.equal(frame.candles().length, allBars.length);
+  assert.deepEqual(rsi, computeRsi(allBars.map((c) => c.close), 14));
+  assert.deepEqual(frame.pivots(2, 2), {
+    highs: findPivotsHigh(allBars, 2, 2),
+    lows: findPivotsLow(allBars, 2, 2),
+  });
+
+  // Sliding the window trims the series together with the bars.
+  const window = [...candles, ...more].slice(-300);
+  frame.sync(window);
+  assert.deepEqual(frame.candles(), resampleCandles(window, 5));
+  assert.equal(rsi.length, frame.candles().length);
+  assert.ok(frame.pivots(2, 2).highs.every((p) => p.idx >= 0));
+});
+
+test("computeCoreV2 on symbol streams matches the batch computation", () => {
+  // 60m HTF needs 250 closed bars.
+  const history = makeCandles(15_400, 3);
+  const streams = createSymbolStreams();
+  const buffer = history.slice(0, 15_100);
+  for (let step = 0; step < 6; step++) {
+    const last = buffer[buffer.length - 1];
+    const opts = { riskMode: "ai-matic", nowMs: last.openTime + 30_000 };
+    assert.deepEqual(computeCoreV2(buffer, { ...opts, streams }), computeCoreV2(buffer, opts));
+    // Forming bar tick, then the next batch of bars.
+    buffer[buffer.length - 1] = { ...last, close: last.close * 1.001 };
+    computeCoreV2(buffer, { ...opts, streams });
+    buffer[buffer.length - 1] = last;
+    buffer.push(...history.slice(buffer.length, buffer.length + 50));
+  }
+});
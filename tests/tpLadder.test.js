@@ -0,0 +1,284 @@
+// tests/tpLadder.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createPaperExchange } from "../server/paperExchange.js";
+import { reconcileState } from "../server/reconcile.js";
+import { createTpLadders } from "../server/tpLadders.js";
+import {
+  diffTpLadder,
+  normalizeTakeProfits,
+  parseTpLadderLinkId,
+  planTpLadderLegs,
+  takeProfitsFromPartialSteps,
+  tpLadderProgress,
+} from "../src/engine/tpLadder.js";
+
+const ACCOUNT = { userId: "u1" };
+const INSTRUMENT = { tickSize: 0.1, stepSize: 0.01, minQty: 0.01 };
+
+function setup() {
+  let clock = 1_760_000_000_000;
+  const venue = createPaperExchange({
+    initialBalance: 100_000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now: () => clock,
+  });
+  const notices = [];
+  let seq = 0;
+  const ladders = createTpLadders({
+    getInstrument: async () => INSTRUMENT,
+    now: () => clock,
+    randomId: () => `lad${(seq += 1)}`,
+    notify: (userId, event) => notices.push({ userId, ...event }),
+  });
+  const tick = (price) => venue.updatePrice("BTCUSDT", price, clock);
+  const advance = (ms) => {
+    clock += ms;
+  };
+  const sync = () =>
+    ladders.sync({ userId: "u1", env: "paper", venue, creds: ACCOUNT, symbol: "BTCUSDT" });
+  const openLegs = async () =>
+    (await venue.listDemoOrders(ACCOUNT, { symbol: "BTCUSDT" })).result.list
+      .map((o) => [o.orderLinkId, Number(o.price), Number(o.leavesQty)])
+      .sort((a, b) => a[1] - b[1]);
+  return { venue, ladders, tick, advance, sync, openLegs, notices };
+}
+
+test("ladder levels are validated, ordered from the entry and capped at the position", () => {
+  assert.deepEqual(
+    normalizeTakeProfits(
+      [
+        { price: 110, sizePct: 0.5 },
+        { price: 105, sizePct: 30 },
+        { price: 95, sizePct: 0.2 },
+        { price: 120, sizePct: 0 },
+        { price: 110, sizePct: 0.3 },
+      ],
+      { side: "Buy", entry: 100 }
+    ),
+    [
+      { price: 105, sizePct: 0.2727272727 },
+      { price: 110, sizePct: 0.7272727273 },
+    ]
+  );
+  assert.deepEqual(normalizeTakeProfits([{ price: 90, sizePct: 0.5 }, { price: 95, sizePct: 0.5 }], { side: "Sell" }), [
+    { price: 95, sizePct: 0.5 },
+    { price: 90, sizePct: 0.5 },
+  ]);
+
+  // 50 % at 1R, then half of the rest at 2R.
+  assert.deepEqual(
+    takeProfitsFromPartialSteps({
+      side: "Sell",
+      entry: 100,
+      sl: 104,
+      partialSteps: [
+        { r: 2, exitFraction: 0.5 },
+        { r: 1, exitFraction: 0.5 },
+      ],
+    }),
+    [
+      { price: 96, sizePct: 0.5 },
+      { price: 92, sizePct: 0.25 },
+    ]
+  );
+  assert.deepEqual(parseTpLadderLinkId("tpl-abc1-2-7"), { ladderId: "abc1", level: 2, rev: 7 });
+  assert.equal(parseTpLadderLinkId("algo-1"), null);
+});
+
+test("legs follow the open size and the executed part of each level", () => {
+  const levels = [
+    { price: 105, sizePct: 0.5 },
+    { price: 110, sizePct: 0.3 },
+    { price: 120, sizePct: 0.2 },
+  ];
+  assert.deepEqual(planTpLadderLegs({ levels, size: 1, ...INSTRUMENT }), [
+    { level: 0, price: 105, qty: 0.5 },
+    { level: 1, price: 110, qty: 0.3 },
+    { level: 2, price: 120, qty: 0.2 },
+  ]);
+  // First level filled, position then scaled in from 0.5 to 1.
+  assert.deepEqual(planTpLadderLegs({ levels, progress: [1], size: 1, ...INSTRUMENT }), [
+    { level: 1, price: 110, qty: 0.6 },
+    { level: 2, price: 120, qty: 0.4 },
+  ]);
+  // Half of the first leg executed: its order carried 0.5 of 1.
+  const progress = tpLadderProgress({
+    levels,
+    orders: [{ orderLinkId: "tpl-x-0-1", qty: "0.5", cumExecQty: "0.25" }],
+  });
+  assert.deepEqual(progress, [0.5, 0, 0]);
+  assert.deepEqual(
+    planTpLadderLegs({ levels, progress, size: 0.75, ...INSTRUMENT }).map((leg) => leg.qty),
+    [0.25, 0.3, 0.2]
+  );
+  // Too small legs are carried to the next level; the last takes the remainder.
+  assert.deepEqual(
+    planTpLadderLegs({ levels, size: 0.03, ...INSTRUMENT }).map((leg) => [leg.level, leg.qty]),
+    [
+      [0, 0.01],
+      [2, 0.02],
+    ]
+  );
+  // A runner stays open when the ladder covers only part of the position.
+  assert.deepEqual(
+    planTpLadderLegs({ levels: [{ price: 105, sizePct: 0.5 }], size: 0.9, ...INSTRUMENT }),
+    [{ level: 0, price: 105, qty: 0.45 }]
+  );
+
+  const legs = planTpLadderLegs({ levels, size: 1, ...INSTRUMENT });
+  const diff = diffTpLadder(legs, [
+    { orderLinkId: "tpl-x-0-1", price: "105", leavesQty: "0.5" },
+    { orderLinkId: "tpl-x-1-2", price: "110", leavesQty: "0.2" },
+    { orderLinkId: "tpl-x-1-3", price: "110", leavesQty: "0.3" },
+  ]);
+  assert.deepEqual(diff.keep.map((item) => item.leg.level), [0]);
+  assert.deepEqual(diff.place.map((leg) => leg.level), [1, 2]);
+  assert.deepEqual(diff.cancel.map((order) => order.orderLinkId), ["tpl-x-1-3", "tpl-x-1-2"]);
+});
+
+test("a ladder waits for its entry, then places reduce-only legs and re-sizes them", async () => {
+  const { venue, ladders, tick, sync, openLegs } = setup();
+  tick(100);
+  const ladder = ladders.register({
+    userId: "u1",
+    env: "paper",
+    symbol: "BTCUSDT",
+    side: "Buy",
+    entry: 100,
+    takeProfits: [
+      { price: 105, sizePct: 0.5 },
+      { price: 110, sizePct: 0.5 },
+    ],
+  });
+  assert.equal((await sync()).status, "pending");
+  assert.deepEqual(await openLegs(), []);
+
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market" }, ACCOUNT);
+  const active = await sync();
+  assert.equal(active.status, "active");
+  assert.deepEqual(await openLegs(), [
+    [`tpl-${ladder.id}-0-1`, 105, 0.5],
+    [`tpl-${ladder.id}-1-2`, 110, 0.5],
+  ]);
+
+  // Scale-in: both legs are replaced with the new sizes.
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market" }, ACCOUNT);
+  const resized = await sync();
+  assert.deepEqual(resized.lastSync.cancelled.sort(), [`tpl-${ladder.id}-0-1`, `tpl-${ladder.id}-1-2`]);
+  assert.deepEqual(await openLegs(), [
+    [`tpl-${ladder.id}-0-3`, 105, 1],
+    [`tpl-${ladder.id}-1-4`, 110, 1],
+  ]);
+
+  // The first level fills on the venue; the second keeps its leg.
+  tick(106);
+  const afterFill = await sync();
+  assert.deepEqual(afterFill.done, [1, 0]);
+  assert.deepEqual(afterFill.lastSync, { at: afterFill.updatedAt, placed: [], cancelled: [], errors: [] });
+  assert.deepEqual(await openLegs(), [[`tpl-${ladder.id}-1-4`, 110, 1]]);
+
+  // The last level closes the position and the ladder goes away.
+  tick(111);
+  assert.equal((await sync()).status, "closed");
+  assert.equal(ladders.get("u1", "paper", "BTCUSDT"), null);
+  assert.deepEqual((await venue.getDemoPositions(ACCOUNT)).result.list, []);
+});
+
+test("a manual close cancels the legs and account refreshes trigger the sync", async () => {
+  const { venue, ladders, tick, advance, openLegs } = setup();
+  tick(100);
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Sell", qty: 2, orderType: "Market" }, ACCOUNT);
+  ladders.register({
+    userId: "u1",
+    env: "paper",
+    symbol: "BTCUSDT",
+    side: "Sell",
+    entry: 100,
+    takeProfits: [{ price: 95, sizePct: 0.25 }],
+  });
+  const session = { userId: "u1", env: "paper", venue, creds: ACCOUNT, snapshot: {} };
+  const refresh = async () => {
+    session.snapshot = {
+      positions: await venue.getDemoPositions(ACCOUNT),
+      orders: await venue.listDemoOrders(ACCOUNT, {}),
+    };
+    await ladders.onAccount(session);
+  };
+  await refresh();
+  assert.deepEqual((await openLegs()).map(([, price, qty]) => [price, qty]), [[95, 0.5]]);
+
+  await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market", reduceOnly: true },
+    ACCOUNT
+  );
+  await refresh();
+  // Throttled: the size change is picked up on the next refresh.
+  assert.deepEqual((await openLegs()).map(([, price, qty]) => [price, qty]), [[95, 0.5]]);
+  advance(2_000);
+  await refresh();
+  assert.deepEqual((await openLegs()).map(([, price, qty]) => [price, qty]), [[95, 0.25]]);
+
+  await venue.createDemoOrder(
+    { symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market", reduceOnly: true },
+    ACCOUNT
+  );
+  advance(2_000);
+  await refresh();
+  assert.deepEqual(await openLegs(), []);
+  assert.deepEqual(ladders.list("u1", "paper"), []);
+});
+
+test("reconcile reports ladder legs missing from the book and orphan legs", async () => {
+  const { venue, ladders, tick, sync } = setup();
+  tick(100);
+  await venue.createDemoOrder({ symbol: "BTCUSDT", side: "Buy", qty: 1, orderType: "Market", sl: 90 }, ACCOUNT);
+  const ladder = ladders.register({
+    userId: "u1",
+    env: "paper",
+    symbol: "BTCUSDT",
+    side: "Buy",
+    entry: 100,
+    takeProfits: [
+      { price: 105, sizePct: 0.5 },
+      { price: 110, sizePct: 0.5 },
+    ],
+  });
+  await sync();
+  const clean = await reconcileState(ACCOUNT, false, venue, { ladders: ladders.list("u1", "paper") });
+  assert.deepEqual(clean.diffs, []);
+
+  await venue.cancelOrder({ symbol: "BTCUSDT", orderLinkId: `tpl-${ladder.id}-1-2` }, ACCOUNT);
+  await venue.createDemoOrder(
+    {
+      symbol: "BTCUSDT",
+      side: "Sell",
+      qty: 0.1,
+      orderType: "Limit",
+      price: 120,
+      reduceOnly: true,
+      orderLinkId: "tpl-gone-0-1",
+    },
+    ACCOUNT
+  );
+  const drift = await reconcileState(ACCOUNT, false, venue, { ladders: ladders.list("u1", "paper") });
+  assert.deepEqual(
+    drift.diffs.map((diff) => [diff.field, diff.severity, diff.message]),
+    [
+      ["takeProfits", "MEDIUM", "Take-profit ladder level 2 missing (0.5 @ 110)"],
+      ["takeProfits", "LOW", "Orphan take-profit ladder order tpl-gone-0-1"],
+    ]
+  );
+
+  // The next sync re-places the leg and cancels the stray one.
+  const repaired = await sync();
+  assert.deepEqual(repaired.lastSync.cancelled, ["tpl-gone-0-1"]);
+  assert.deepEqual(repaired.lastSync.placed, [`tpl-${ladder.id}-1-3`]);
+  const after = await reconcileState(ACCOUNT, false, venue, { ladders: ladders.list("u1", "paper") });
+  assert.deepEqual(after.diffs, []);
+});
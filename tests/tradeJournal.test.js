@@ -0,0 +1,201 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createPaperExchange } from "../server/paperExchange.js";
+import {
+  createFileJournalStore,
+  createTradeJournal,
+  normalizeJournalFilter,
+} from "../server/tradeJournal.js";
+
+const ACCOUNT = { userId: "user-1" };
+
+function createHarness(storePath = null) {
+  let clock = 1_700_000_000_000;
+  const now = () => clock;
+  const venue = createPaperExchange({
+    initialBalance: 1000,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    slippagePct: 0,
+    fetchPrice: async () => {
+      throw new Error("offline");
+    },
+    now,
+  });
+  const journal = createTradeJournal({ store: createFileJournalStore(storePath), now });
+  return {
+    venue,
+    journal,
+    tick(symbol, price, ms = 1000) {
+      clock += ms;
+      venue.updatePrice(symbol, price, clock);
+    },
+  };
+}
+
+const SIGNAL = {
+  id: "BTCUSDT-1",
+  symbol: "BTCUSDT",
+  intent: { side: "buy", entry: 100, sl: 95, tp: 105 },
+  entryType: "MARKET",
+};
+const DIAGNOSTIC = { executionAllowed: true, gates: [{ name: "HTF bias", ok: true }] };
+
+async function placeEntry(
+  h,
+  { symbol = "BTCUSDT", side = "Buy", qty = 2, tp = 105, profile = "ai-matic", orderLinkId } = {}
+) {
+  const res = await h.venue.createDemoOrder(
+    { symbol, side, qty, orderType: "Market", tp, orderLinkId },
+    ACCOUNT
+  );
+  assert.equal(res.retCode, 0);
+  return h.journal.recordEntry({
+    userId: ACCOUNT.userId,
+    env: "paper",
+    symbol,
+    side,
+    qty,
+    profile,
+    orderId: res.result.orderId,
+    orderLinkId: res.result.orderLinkId,
+    signal: SIGNAL,
+    diagnostic: DIAGNOSTIC,
+  });
+}
+
+test("sync attaches entry and exit fills and closes the entry with net pnl", async () => {
+  const h = createHarness();
+  h.tick("BTCUSDT", 100);
+  const entry = await placeEntry(h, { orderLinkId: "intent-1" });
+  assert.equal(entry.status, "OPEN");
+  assert.deepEqual(entry.signal, SIGNAL);
+  assert.deepEqual(entry.diagnostic, DIAGNOSTIC);
+
+  const sync = () =>
+    h.journal.syncOpenEntries({ userId: ACCOUNT.userId, env: "paper", venue: h.venue, creds: ACCOUNT });
+
+  await sync();
+  let [stored] = await h.journal.query({ userId: ACCOUNT.userId });
+  assert.equal(stored.status, "OPEN");
+  assert.equal(stored.filledQty, 2);
+  assert.equal(stored.avgEntryPrice, 100);
+  assert.equal(stored.fills.length, 1);
+
+  h.tick("BTCUSDT", 105.5);
+  await sync();
+  stored = await h.journal.get(ACCOUNT.userId, entry.id);
+  assert.equal(stored.status, "CLOSED");
+  assert.deepEqual(
+    stored.fills.map((f) => f.role),
+    ["ENTRY", "EXIT"]
+  );
+  assert.equal(stored.closedPnl.length, 1);
+  assert.equal(stored.realizedPnl, 11);
+  assert.ok(stored.closedAt);
+
+  const again = await sync();
+  assert.equal(again.updated, 0);
+});
+
+test("sequential trades on one symbol claim their own closed pnl", async () => {
+  const h = createHarness();
+  const sync = () =>
+    h.journal.syncOpenEntries({ userId: ACCOUNT.userId, env: "paper", venue: h.venue, creds: ACCOUNT });
+
+  h.tick("BTCUSDT", 100);
+  const first = await placeEntry(h, { qty: 1 });
+  h.tick("BTCUSDT", 106);
+  const second = await placeEntry(h, { qty: 1, tp: 110, profile: "ai-matic-pro" });
+  await sync();
+  assert.equal((await h.journal.get(ACCOUNT.userId, first.id)).realizedPnl, 6);
+  let secondStored = await h.journal.get(ACCOUNT.userId, second.id);
+  assert.equal(secondStored.status, "OPEN");
+  assert.equal(secondStored.closedPnl.length, 0);
+
+  h.tick("BTCUSDT", 111);
+  await sync();
+  const firstStored = await h.journal.get(ACCOUNT.userId, first.id);
+  secondStored = await h.journal.get(ACCOUNT.userId, second.id);
+  assert.equal(firstStored.status, "CLOSED");
+  assert.equal(firstStored.closedPnl.length, 1);
+  assert.equal(secondStored.status, "CLOSED");
+  assert.equal(secondStored.realizedPnl, 5);
+});
+
+test("unfilled entries that are no longer resting are marked cancelled", async () => {
+  const h = createHarness();
+  h.tick("ETHUSDT", 2000);
+  const res = await h.venue.createDemoOrder(
+    { symbol: "ETHUSDT", side: "Buy", qty: 1, orderType: "Limit", price: 1900, orderLinkId: "limit-1" },
+    ACCOUNT
+  );
+  const entry = await h.journal.recordEntry({
+    userId: ACCOUNT.userId,
+    env: "paper",
+    symbol: "ETHUSDT",
+    side: "Buy",
+    qty: 1,
+    orderId: res.result.orderId,
+    orderLinkId: "limit-1",
+    expireAfterMs: 30_000,
+  });
+  assert.equal(Date.parse(entry.expiresAt) - Date.parse(entry.openedAt), 30_000);
+  await h.venue.cancelOrder({ symbol: "ETHUSDT", orderLinkId: "limit-1" }, ACCOUNT);
+
+  const sync = () =>
+    h.journal.syncOpenEntries({ userId: ACCOUNT.userId, env: "paper", venue: h.venue, creds: ACCOUNT });
+  h.tick("ETHUSDT", 2000, 60_000);
+  await sync();
+  assert.equal((await h.journal.get(ACCOUNT.userId, entry.id)).status, "OPEN");
+
+  h.tick("ETHUSDT", 2000, 15 * 60_000);
+  await sync();
+  assert.equal((await h.journal.get(ACCOUNT.userId, entry.id)).status, "CANCELLED");
+});
+
+test("queries filter by symbol, profile, status and date range and persist to disk", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+  const storePath = path.join(dir, "journal.json");
+  try {
+    const h = createHarness(storePath);
+    h.tick("BTCUSDT", 100);
+    h.tick("ETHUSDT", 2000);
+    const btc = await placeEntry(h, { qty: 1 });
+    h.tick("ETHUSDT", 2000, 3_600_000);
+    await placeEntry(h, { symbol: "ETHUSDT", qty: 0.1, profile: "ai-matic-pro" });
+
+    const reloaded = createTradeJournal({ store: createFileJournalStore(storePath) });
+    const all = await reloaded.query({ userId: ACCOUNT.userId, env: "paper" });
+    assert.equal(all.length, 2);
+    assert.equal(all[0].symbol, "ETHUSDT");
+
+    assert.equal((await reloaded.query({ userId: ACCOUNT.userId, symbol: "btcusdt" })).length, 1);
+    assert.equal((await reloaded.query({ userId: ACCOUNT.userId, profile: "AI-MATIC-PRO" })).length, 1);
+    assert.equal((await reloaded.query({ userId: "other" })).length, 0);
+    const early = await reloaded.query({
+      userId: ACCOUNT.userId,
+      to: new Date(Date.parse(btc.openedAt) + 60_000).toISOString(),
+    });
+    assert.deepEqual(
+      early.map((e) => e.id),
+      [btc.id]
+    );
+    assert.equal((await reloaded.query({ userId: ACCOUNT.userId, status: "closed" })).length, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("normalizes filter values and rejects entries without owner", async () => {
+  const filter = normalizeJournalFilter({ userId: "u", status: "bogus", limit: "5000", from: "1700000000" });
+  assert.equal(filter.status, null);
+  assert.equal(filter.limit, 1000);
+  assert.equal(filter.from, 1_700_000_000_000);
+
+  const journal = createTradeJournal({ store: createFileJournalStore(null) });
+  await assert.rejects(journal.recordEntry({ symbol: "BTCUSDT", side: "Buy" }));
+});
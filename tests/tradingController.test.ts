@@ -0,0 +1,335 @@
+// tests/tradingController.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  TradingController,
+  type HttpClient,
+  type TradingClock,
+} from "../src/hooks/tradingController";
+import type { PriceFeedDecision } from "../src/engine/priceFeed";
+import type { StrategyWorkerClientOptions } from "../src/engine/strategyWorkerClient";
+import { TradingMode } from "../src/types";
+
+type ManualClock = TradingClock & {
+  advance: (ms: number) => Promise<void>;
+  pending: () => number;
+};
+
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+// Timers fire in time order; each callback gets its promises settled first.
+function manualClock(start: number): ManualClock {
+  let now = start;
+  let seq = 0;
+  const timers = new Map<number, { at: number; every: number | null; fn: () => void }>();
+  const add = (fn: () => void, ms: number, every: number | null) => {
+    seq += 1;
+    timers.set(seq, { at: now + ms, every, fn });
+    return seq as unknown as ReturnType<typeof setTimeout>;
+  };
+  const clear = (id: ReturnType<typeof setTimeout>) => {
+    timers.delete(id as unknown as number);
+  };
+  return {
+    now: () => now,
+    setTimeout: (fn, ms) => add(fn, ms, null),
+    clearTimeout: clear,
+    setInterval: (fn, ms) => add(fn, ms, ms),
+    clearInterval: clear,
+    pending: () => timers.size,
+    async advance(ms) {
+      const until = now + ms;
+      for (;;) {
+        let next: [number, { at: number; every: number | null; fn: () => void }] | null =
+          null;
+        for (const entry of timers) {
+          if (entry[1].at <= until && (!next || entry[1].at < next[1].at)) next = entry;
+        }
+        if (!next) break;
+        const [id, timer] = next;
+        now = timer.at;
+        if (timer.every) timer.at += timer.every;
+        else timers.delete(id);
+        timer.fn();
+        await settle();
+      }
+      now = until;
+      await settle();
+    },
+  };
+}
+
+type Call = { method: string; path: string; body: Record<string, unknown> | null };
+
+// In-memory backend: dashboard sections come from `state`, writes are recorded.
+function fakeBackend() {
+  const calls: Call[] = [];
+  const state = {
+    positions: [] as Record<string, unknown>[],
+    decisions: [] as Record<string, unknown>[],
+    correlation: null as Record<string, unknown> | null,
+  };
+  const http: HttpClient = async (url, init) => {
+    const path = new URL(url, "http://backend").pathname;
+    const method = init?.method ?? "GET";
+    const body = init?.body ? JSON.parse(String(init.body)) : null;
+    calls.push({ method, path, body });
+    const data = path.endsWith("/dashboard")
+      ? {
+          positions: { list: state.positions },
+          orders: { list: [] },
+          executions: { list: [] },
+          wallet: {
+            totalEquity: 10_000,
+            availableBalance: 10_000,
+            totalWalletBalance: 10_000,
+          },
+          pnl: { list: [] },
+          engine: { decisions: state.decisions, correlation: state.correlation },
+        }
+      : {};
+    return new Response(JSON.stringify({ ok: true, data }), { status: 200 });
+  };
+  const posts = (suffix: string) =>
+    calls.filter((call) => call.method === "POST" && call.path.endsWith(suffix));
+  return { http, calls, state, posts };
+}
+
+// AI-MATIC-X long setup that passes every core gate.
+function longDecision(id: string): PriceFeedDecision {
+  return {
+    state: "SCAN",
+    trend: "BULL",
+    trendAdx: 30,
+    coreV2: {
+      htfBias: "BULL",
+      htfBreakoutBull: true,
+      htfConfirmBull: true,
+      htfEma200: 95_000,
+      htfAtrPct: 0.005,
+      ema200BreakoutBull: true,
+      ema200ConfirmBull: true,
+      ltfClose: 100_000,
+      ema200: 98_000,
+      atrPct: 0.003,
+      atr14: 300,
+      volumeCurrent: 1_000,
+      volumeP70: 500,
+      pullbackLong: true,
+      pivotLow: 99_000,
+      pivotHigh: 100_500,
+      microBreakLong: true,
+    },
+    signal: {
+      id,
+      symbol: "BTCUSDT",
+      kind: "PULLBACK",
+      entryType: "LIMIT",
+      intent: { side: "buy", entry: 100_000, sl: 99_000, tp: 102_000 },
+    },
+  } as unknown as PriceFeedDecision;
+}
+
+const INPUTS = {
+  mode: TradingMode.AUTO_ON,
+  useTestnet: true,
+  authToken: "token",
+  appEnabled: true,
+};
+
+const SETTINGS = {
+  riskMode: "ai-matic-x" as const,
+  selectedSymbols: ["BTCUSDT"],
+  enableSoftGates: false,
+};
+
+test("controller drives entry, protection and exit deterministically", async () => {
+  const clock = manualClock(Date.UTC(2026, 0, 5, 10));
+  const backend = fakeBackend();
+  const controller = new TradingController(INPUTS, {
+    clock,
+    http: backend.http,
+    settings: SETTINGS,
+  });
+  controller.start();
+  await clock.advance(1_000);
+
+  // Entry: the backend decision goes through the gates into a limit order.
+  backend.state.decisions = [
+    { symbol: "BTCUSDT", ts: clock.now(), decision: longDecision("sig-1") },
+  ];
+  await clock.advance(5_000);
+  const [entry] = backend.posts("/order");
+  assert.equal(entry.path, "/api/demo/order");
+  assert.deepEqual(
+    [entry.body?.side, entry.body?.orderType, entry.body?.price, entry.body?.sl],
+    ["Buy", "Limit", 100_000, 99_000]
+  );
+  assert.ok(
+    controller
+      .getSnapshot()
+      .logEntries?.some((log) => log.message.startsWith("BTCUSDT intent sent"))
+  );
+
+  // Protection: the fill arrives without a stop, the retry attaches the planned SL.
+  const qty = Number(entry.body?.qty);
+  backend.state.positions = [
+    { symbol: "BTCUSDT", side: "Buy", size: qty, avgPrice: 100_000, positionIdx: 0 },
+  ];
+  await clock.advance(15_000);
+  const protection = backend.posts("/protection");
+  assert.ok(protection.length >= 1);
+  assert.deepEqual(protection[0].body, { symbol: "BTCUSDT", sl: 99_000, positionIdx: 0 });
+
+  backend.state.positions = [{ ...backend.state.positions[0], stopLoss: 99_000 }];
+  await clock.advance(5_000);
+  const position = controller.getSnapshot().activePositions?.[0];
+  assert.equal(position?.sl, 99_000);
+
+  // Exit: manual close sends a reduce-only market order and the position disappears.
+  backend.state.positions = [];
+  assert.ok(position);
+  await controller.getSnapshot().manualClosePosition(position);
+  const exit = backend.posts("/order").at(-1);
+  assert.deepEqual(
+    [exit?.body?.side, exit?.body?.qty, exit?.body?.reduceOnly, exit?.body?.orderType],
+    ["Sell", qty, true, "Market"]
+  );
+  controller.flush();
+  const snapshot = controller.getSnapshot();
+  assert.deepEqual(snapshot.activePositions, []);
+  assert.ok(
+    snapshot.logEntries?.some((log) => log.message.startsWith("POSITION CLOSED BTCUSDT"))
+  );
+
+  controller.stop();
+  assert.equal(clock.pending(), 0);
+});
+
+test("local strategy feed is injectable and feeds the entry pipeline", async () => {
+  const clock = manualClock(Date.UTC(2026, 0, 5, 10));
+  const backend = fakeBackend();
+  const feeds: { opts: StrategyWorkerClientOptions; started: unknown[]; terminated: boolean }[] =
+    [];
+  const controller = new TradingController(INPUTS, {
+    clock,
+    http: backend.http,
+    settings: { ...SETTINGS, localStrategyWorker: true },
+    createFeed: (opts) => {
+      const feed = { opts, started: [] as unknown[], terminated: false };
+      feeds.push(feed);
+      return {
+        inThread: true,
+        start: (request) => feed.started.push(request),
+        updateConfig: () => {},
+        stop: () => {},
+        latency: () => ({}),
+        terminate: () => {
+          feed.terminated = true;
+        },
+      };
+    },
+  });
+  controller.start();
+  await clock.advance(1_000);
+
+  // The /symbols catalog replaces the symbol list, which restarts the feed.
+  const feed = feeds.at(-1);
+  assert.ok(feed);
+  assert.ok(feeds.slice(0, -1).every((previous) => previous.terminated));
+  assert.equal(feed.terminated, false);
+  assert.deepEqual(feed.started, [
+    {
+      symbols: ["BTCUSDT"],
+      riskMode: "ai-matic-x",
+      useTestnet: true,
+      configOverrides: {
+        emaTrendPeriod: 200,
+        strategyProfile: "ai-matic-x",
+        partialSteps: [
+          { r: 1.0, exitFraction: 0.35 },
+          { r: 2.0, exitFraction: 0.25 },
+        ],
+        cooldownBars: 0,
+      },
+    },
+  ]);
+
+  // Server decisions are ignored while the local feed is on.
+  backend.state.decisions = [
+    { symbol: "BTCUSDT", ts: clock.now(), decision: longDecision("server-1") },
+  ];
+  await clock.advance(5_000);
+  assert.equal(backend.posts("/order").length, 0);
+
+  feed.opts.onDecision("BTCUSDT", longDecision("local-1"), 3);
+  await clock.advance(1_000);
+  assert.equal(backend.posts("/order").length, 1);
+
+  controller.stop();
+  assert.equal(feed.terminated, true);
+  assert.equal(clock.pending(), 0);
+});
+
+test("snapshot changes are published to subscribers and inputs restart polling", async () => {
+  const clock = manualClock(Date.UTC(2026, 0, 5, 10));
+  const backend = fakeBackend();
+  const controller = new TradingController(
+    { ...INPUTS, authToken: undefined },
+    { clock, http: backend.http, settings: SETTINGS }
+  );
+  let notified = 0;
+  const unsubscribe = controller.subscribe(() => {
+    notified += 1;
+  });
+  const initial = controller.getSnapshot();
+  assert.equal(initial, controller.getSnapshot());
+
+  controller.start();
+  await clock.advance(10_000);
+  assert.equal(controller.getSnapshot().systemState.lastError, "missing_auth_token");
+  assert.equal(
+    backend.calls.filter((call) => call.path.endsWith("/dashboard")).length,
+    0
+  );
+  assert.ok(notified > 0);
+
+  controller.setInputs(INPUTS);
+  await clock.advance(1_000);
+  assert.ok(backend.calls.some((call) => call.path.endsWith("/dashboard")));
+  assert.equal(controller.getSnapshot().systemState.bybitStatus, "Connected");
+  assert.notEqual(controller.getSnapshot(), initial);
+
+  // The server's correlation matrix is published with the snapshot.
+  assert.equal(controller.getSnapshot().correlation, null);
+  backend.state.correlation = {
+    updatedAt: clock.now(),
+    benchmark: "BTCUSDT",
+    windows: [
+      {
+        window: 48,
+        benchmark: "BTCUSDT",
+        symbols: ["BTCUSDT", "ETHUSDT"],
+        values: [
+          [1, 0.42],
+          [0.42, 1],
+        ],
+        betas: { BTCUSDT: 1, ETHUSDT: 0.7 },
+        samples: 48,
+      },
+    ],
+  };
+  await clock.advance(5_000);
+  assert.deepEqual(controller.getSnapshot().correlation, backend.state.correlation);
+
+  controller.getSnapshot().updateSettings({
+    ...controller.getSnapshot().settings,
+    maxOpenPositions: 2,
+  });
+  controller.flush();
+  assert.equal(controller.getSnapshot().portfolioState.maxOpenPositions, 2);
+
+  unsubscribe();
+  controller.stop();
+  assert.equal(clock.pending(), 0);
+});
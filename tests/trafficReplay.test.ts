@@ -0,0 +1,249 @@
+// tests/trafficReplay.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  createReplaySocket,
+  createTrafficRecorder,
+  parseRecording,
+  replayFrames,
+} from "../src/engine/trafficRecording";
+import { startPriceFeed } from "../src/engine/priceFeed";
+import { getOrderFlowSnapshot } from "../src/engine/orderflow";
+import { replayPersistentSession } from "../server/persistentAggregator.js";
+import { loadRecording, resolveSessionRecorder } from "../server/trafficRecorder.js";
+
+const T0 = Date.parse("2026-10-18T10:00:00Z");
+const BAR = 5 * 60_000;
+
+function makeClock(start: number) {
+  let ts = start;
+  return {
+    now: () => ts,
+    advance: (ms: number) => {
+      ts += ms;
+    },
+  };
+}
+
+const candle = (i: number, close: number) => ({
+  openTime: T0 - (60 - i) * BAR,
+  open: close - 1,
+  high: close + 2,
+  low: close - 2,
+  close,
+  volume: 10 + i,
+});
+
+const klineEvent = (symbol: string, start: number, close: number) => ({
+  topic: `kline.5.${symbol}`,
+  data: [
+    {
+      start,
+      open: String(close - 1),
+      high: String(close + 1),
+      low: String(close - 1.5),
+      close: String(close),
+      volume: "12",
+      confirm: false,
+    },
+  ],
+});
+
+// A short aggregator session: start, backfill, klines, a private position
+// update and a REST fast poll.
+function recordAggregatorSession() {
+  const clock = makeClock(T0);
+  const recorder = createTrafficRecorder({ now: clock.now });
+  recorder.record("session", "start", {
+    userId: "u1",
+    env: "testnet",
+    useTestnet: true,
+    riskMode: "ai-matic",
+    symbols: ["BTCUSDT"],
+    limits: { orders: 50, executions: 50, pnl: 200 },
+  });
+  clock.advance(500);
+  recorder.record("rest", "backfill", {
+    symbol: "BTCUSDT",
+    candles: Array.from({ length: 60 }, (_, i) => candle(i, 60000 + i * 5)),
+    error: null,
+  });
+  clock.advance(1_000);
+  recorder.record("ws.public", "aggregator", klineEvent("BTCUSDT", T0, 60310));
+  clock.advance(1_000);
+  recorder.record("ws.private", "aggregator", {
+    topic: "position",
+    data: [{ symbol: "BTCUSDT", side: "Buy", size: "0.01", positionIdx: 0, avgPrice: "60300", stopLoss: "60000" }],
+  });
+  clock.advance(1_000);
+  recorder.record("ws.public", "aggregator", klineEvent("BTCUSDT", T0, 60320));
+  clock.advance(2_000);
+  recorder.record("rest", "fast", [
+    {
+      method: "getDemoPositions",
+      status: "fulfilled",
+      value: { retCode: 0, result: { list: [{ symbol: "BTCUSDT", side: "Buy", size: "0.01", positionIdx: 0, avgPrice: "60300", stopLoss: "60000" }] } },
+    },
+    { method: "listDemoOrders", status: "fulfilled", value: { retCode: 0, result: { list: [] } } },
+    { method: "listExecutions", status: "rejected", reason: "timeout" },
+  ]);
+  return recorder;
+}
+
+test("recordings round-trip through JSONL and report broken lines", () => {
+  const recorder = recordAggregatorSession();
+  const frames = parseRecording(recorder.toJsonl());
+  assert.deepEqual(frames, recorder.frames());
+  assert.deepEqual(
+    frames.map((frame) => frame.seq),
+    [1, 2, 3, 4, 5, 6]
+  );
+  assert.throws(() => parseRecording(`${recorder.toJsonl()}{oops\n`), /line 7/);
+  assert.throws(() => createTrafficRecorder().record("http" as never, "x", {}), /unknown_recording_source/);
+});
+
+test("replayFrames paces frames by the recorded gaps only when asked", async () => {
+  const frames = recordAggregatorSession().frames();
+  const waits: number[] = [];
+  const sleep = async (ms: number) => {
+    waits.push(ms);
+  };
+  assert.equal(await replayFrames(frames, () => {}, { sleep }), 6);
+  assert.deepEqual(waits, []);
+  await replayFrames(frames, () => {}, { speed: 2, sleep });
+  assert.deepEqual(waits, [250, 500, 500, 500, 1000]);
+});
+
+test("aggregator replay rebuilds the session on the recorded clock", async () => {
+  const frames = recordAggregatorSession().frames();
+  const run = async () => {
+    const seen: Array<{ kind: string; symbol?: string; ts: number }> = [];
+    const { snapshot, session } = await replayPersistentSession(frames, {
+      listeners: [
+        {
+          onDecision: (s: { now: () => number }, symbol: string) =>
+            seen.push({ kind: "decision", symbol, ts: s.now() }),
+          onAccount: (s: { now: () => number }) => seen.push({ kind: "account", ts: s.now() }),
+        },
+      ],
+    });
+    return { snapshot, session, seen };
+  };
+
+  const first = await run();
+  const { snapshot, session, seen } = first;
+  assert.equal(session.userId, "u1");
+  assert.equal(session.engine.riskMode, "ai-matic");
+  assert.deepEqual(snapshot.engine.symbols, ["BTCUSDT"]);
+  assert.equal(session.engine.candlesBySymbol.get("BTCUSDT").length, 61);
+  assert.equal(session.engine.candlesBySymbol.get("BTCUSDT").at(-1).close, 60320);
+  assert.equal(snapshot.engine.lastDecisionAt, T0 + 3_500);
+  assert.deepEqual(seen, [
+    { kind: "decision", symbol: "BTCUSDT", ts: T0 + 1_500 },
+    { kind: "account", ts: T0 + 2_500 },
+    { kind: "decision", symbol: "BTCUSDT", ts: T0 + 3_500 },
+    { kind: "account", ts: T0 + 5_500 },
+  ]);
+  assert.equal(snapshot.positions.result.list[0].symbol, "BTCUSDT");
+  assert.equal(snapshot.errors.executions, "timeout");
+  assert.equal(snapshot.ws.topics.position, T0 + 2_500);
+
+  const second = await run();
+  assert.deepEqual(second.seen, seen);
+  assert.deepEqual(second.snapshot.engine.decisions, snapshot.engine.decisions);
+});
+
+test("sessions record to AGGREGATOR_RECORD_DIR for the listed users", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "recordings-"));
+  try {
+    const envVars = { AGGREGATOR_RECORD_DIR: dir, AGGREGATOR_RECORD_USERS: "u1" };
+    assert.equal(resolveSessionRecorder({ userId: "u2", env: "testnet" }, envVars), null);
+    assert.equal(resolveSessionRecorder({ userId: "u1", env: "testnet" }, {}), null);
+
+    const recorder = resolveSessionRecorder({ userId: "u1", env: "testnet", startedAt: T0 }, envVars);
+    assert.equal(path.basename(recorder.filePath), `testnet_u1_${T0}.jsonl`);
+    for (const frame of recordAggregatorSession().frames()) {
+      recorder.record(frame.source, frame.channel, frame.data);
+    }
+    await recorder.close();
+    const frames = loadRecording(recorder.filePath);
+    assert.equal(frames.length, 6);
+    assert.equal(frames[2].source, "ws.public");
+    assert.equal((await replayPersistentSession(frames)).session.userId, "u1");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("startPriceFeed replays recorded public frames into orderflow and decisions", async () => {
+  const live = createTrafficRecorder({ now: () => T0 });
+  const symbol = "REPLAYUSDT";
+  live.record("ws.public", "price", JSON.stringify({ success: true, op: "subscribe" }));
+  live.record(
+    "ws.public",
+    "price",
+    JSON.stringify({
+      topic: `orderbook.50.${symbol}`,
+      type: "snapshot",
+      data: { s: symbol, b: [["99.5", "4"], ["99", "2"]], a: [["100.5", "1"]] },
+    })
+  );
+  live.record(
+    "ws.public",
+    "price",
+    JSON.stringify({
+      topic: `publicTrade.${symbol}`,
+      data: [
+        { s: symbol, p: "100", v: "3", S: "Buy", T: T0 },
+        { s: symbol, p: "99.8", v: "1", S: "Sell", T: T0 + 1 },
+      ],
+    })
+  );
+  live.record("ws.public", "price", JSON.stringify(klineEvent(symbol, T0, 100)));
+  live.record("ws.public", "price", JSON.stringify(klineEvent(symbol, T0, 101)));
+  live.record("ws.public", "price", JSON.stringify(klineEvent(symbol, T0 + BAR, 102)));
+  const frames = parseRecording(live.toJsonl());
+
+  const sockets = new Map<string, ReturnType<typeof createReplaySocket>>();
+  const rerecorded = createTrafficRecorder({ now: () => T0 });
+  const decisions: Array<{ symbol: string; closes: number[] }> = [];
+  const stop = startPriceFeed(
+    [symbol],
+    () => {},
+    {
+      orderflow: { enabled: true, depth: 50 },
+      recorder: rerecorded,
+      openSocket: (url, channel) => {
+        const socket = createReplaySocket(frames, { channel });
+        sockets.set(channel, socket);
+        return socket;
+      },
+      decisionFn: (sym, candles) => {
+        decisions.push({ symbol: sym, closes: candles.map((c) => c.close) });
+        return { state: "SCAN", trend: "range" } as never;
+      },
+    }
+  );
+  try {
+    await Promise.all([...sockets.values()].map((socket) => socket.done));
+    assert.ok(sockets.get("price")?.sent.some((msg) => msg.includes(`kline.5.${symbol}`)));
+    assert.deepEqual(decisions, [
+      { symbol, closes: [100] },
+      { symbol, closes: [101] },
+      { symbol, closes: [101, 102] },
+    ]);
+    const flow = getOrderFlowSnapshot(symbol);
+    assert.equal(flow.bestBid, 99.5);
+    assert.equal(flow.bestAsk, 100.5);
+    assert.equal(flow.delta, 2);
+    assert.deepEqual(
+      rerecorded.frames().map((frame) => frame.data),
+      frames.map((frame) => frame.data)
+    );
+  } finally {
+    stop();
+  }
+});
@@ -0,0 +1,224 @@
+// tests/userCredentials.test.js
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createKeyVault, generateMasterKey, resolveMasterKeys } from "../server/keyVault.js";
+import {
+  deleteUserApiKey,
+  getUserApiKeys,
+  getUserExchangeAccount,
+  getUserNotificationConfig,
+  listUserApiKeys,
+  reencryptUserApiKeys,
+  saveUserApiKey,
+} from "../server/userCredentials.js";
+
+const SECRET = "s3cr3t-bybit-api-secret-value";
+const KEY = "bybit-demo-api-key-1234";
+
+// In-memory stand-in for the user_api_keys table with the query builder
+// calls the server makes.
+function fakeSupabase(initialRows = []) {
+  const rows = initialRows.map((row) => ({ ...row }));
+  let nextId = rows.length + 1;
+  const fetched = [];
+
+  function query() {
+    const filters = [];
+    let action = { type: "select" };
+    let order = null;
+    let range = null;
+    const builder = {
+      select() {
+        return builder;
+      },
+      eq(column, value) {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      order(column, { ascending = true } = {}) {
+        order = { column, ascending };
+        return builder;
+      },
+      range(from, to) {
+        range = [from, to];
+        return builder;
+      },
+      upsert(payload) {
+        action = { type: "upsert", payload };
+        return builder;
+      },
+      update(patch) {
+        action = { type: "update", patch };
+        return builder;
+      },
+      delete() {
+        action = { type: "delete" };
+        return builder;
+      },
+      then(resolve, reject) {
+        return Promise.resolve(run()).then(resolve, reject);
+      },
+    };
+    function run() {
+      const matches = (row) => filters.every((f) => f(row));
+      if (action.type === "upsert") {
+        const existing = rows.find(
+          (row) => row.user_id === action.payload.user_id && row.service === action.payload.service
+        );
+        if (existing) Object.assign(existing, action.payload);
+        else rows.push({ id: String(nextId++), ...action.payload });
+        return { data: null, error: null };
+      }
+      if (action.type === "update") {
+        rows.filter(matches).forEach((row) => Object.assign(row, action.patch));
+        return { data: null, error: null };
+      }
+      if (action.type === "delete") {
+        for (let i = rows.length - 1; i >= 0; i--) if (matches(rows[i])) rows.splice(i, 1);
+        return { data: null, error: null };
+      }
+      let data = rows.filter(matches).map((row) => ({ ...row }));
+      if (order) {
+        const dir = order.ascending ? 1 : -1;
+        data.sort((a, b) => String(a[order.column]).localeCompare(String(b[order.column])) * dir);
+      }
+      if (range) data = data.slice(range[0], range[1] + 1);
+      fetched.push(...data);
+      return { data, error: null };
+    }
+    return builder;
+  }
+
+  return { rows, fetched, from: () => query() };
+}
+
+function vaultWith(env) {
+  return createKeyVault({ masterKeys: resolveMasterKeys(env) });
+}
+
+test("secrets are stored encrypted and only decrypted inside the server", async () => {
+  const supabase = fakeSupabase();
+  const vault = vaultWith({ API_KEYS_MASTER_KEY: generateMasterKey() });
+  const deps = { supabase, vault };
+
+  await saveUserApiKey("u1", "bybit demo api key", KEY, deps);
+  await saveUserApiKey("u1", "Bybit Demo API Secret", SECRET, deps);
+  await saveUserApiKey("u1", "exchange", "bybit", deps);
+
+  assert.deepEqual(await getUserApiKeys("u1", "testnet", deps), { apiKey: KEY, apiSecret: SECRET });
+
+  // Nothing read from or written to the table holds a plaintext value.
+  const stored = JSON.stringify([supabase.rows, supabase.fetched]);
+  assert.ok(!stored.includes(SECRET));
+  assert.ok(!stored.includes(KEY));
+  assert.ok(!stored.includes(Buffer.from(SECRET).toString("base64")));
+  for (const row of supabase.rows) {
+    assert.equal(row.api_key, null);
+    assert.equal(row.master_key_id, "k1");
+    assert.match(row.secret_ciphertext, /^v1\./);
+  }
+
+  const listed = await listUserApiKeys("u1", deps);
+  assert.deepEqual(
+    listed.map((row) => [row.service, row.masked]).sort(),
+    [
+      ["bybit demo api key", "•••• 1234"],
+      ["bybit demo api secret", "•••• alue"],
+      ["exchange", "bybit"],
+    ]
+  );
+
+  // A ciphertext moved to another row (user or service) does not open.
+  const secretRow = supabase.rows.find((row) => row.service === "bybit demo api secret");
+  const keyRow = supabase.rows.find((row) => row.service === "bybit demo api key");
+  keyRow.secret_ciphertext = secretRow.secret_ciphertext;
+  keyRow.wrapped_data_key = secretRow.wrapped_data_key;
+  await assert.rejects(() => getUserApiKeys("u1", "testnet", deps));
+
+  await deleteUserApiKey("u1", "bybit demo api key", deps);
+  assert.deepEqual(supabase.rows.map((row) => row.service).sort(), ["bybit demo api secret", "exchange"]);
+  await assert.rejects(() => saveUserApiKey("u1", "exchange", "binance", { supabase, vault: null }), /API_KEYS_MASTER_KEY/);
+});
+
+test("one row that does not decrypt fails only the lookups that need it", async () => {
+  const supabase = fakeSupabase();
+  const vault = vaultWith({ API_KEYS_MASTER_KEY: generateMasterKey() });
+  const deps = { supabase, vault };
+  await saveUserApiKey("u1", "bybit demo api key", KEY, deps);
+  await saveUserApiKey("u1", "bybit demo api secret", SECRET, deps);
+  await saveUserApiKey("u1", "bybit mainnet api key", "mainnet-key", deps);
+  await saveUserApiKey("u1", "bybit mainnet api secret", "mainnet-secret", deps);
+  await saveUserApiKey("u1", "telegram bot token", "123:abc", deps);
+  await saveUserApiKey("u1", "notify webhook url", "https://hooks.example.com/x", deps);
+
+  // Corrupt ciphertexts, e.g. rows left behind by a master key that was dropped.
+  for (const service of ["bybit mainnet api key", "telegram bot token"]) {
+    const row = supabase.rows.find((item) => item.service === service);
+    row.secret_ciphertext = `v1.${Buffer.from("garbage").toString("base64")}`;
+  }
+
+  assert.deepEqual(await getUserExchangeAccount("u1", "testnet", deps), {
+    exchange: "bybit",
+    creds: { apiKey: KEY, apiSecret: SECRET },
+  });
+  await assert.rejects(
+    () => getUserApiKeys("u1", "mainnet", deps),
+    /Stored bybit mainnet api key is unavailable/
+  );
+  const notify = await getUserNotificationConfig("u1", deps);
+  assert.equal(notify.channels.telegram.botToken, null);
+  assert.equal(notify.channels.webhook.url, "https://hooks.example.com/x");
+});
+
+test("reencrypt migrates plaintext rows and rotation re-wraps data keys", async () => {
+  const oldKey = generateMasterKey();
+  const newKey = generateMasterKey();
+  const supabase = fakeSupabase([
+    { id: "1", user_id: "u1", service: "bybit mainnet api key", api_key: KEY },
+    { id: "2", user_id: "u1", service: "bybit mainnet api secret", api_key: SECRET },
+  ]);
+  const oldVault = vaultWith({ API_KEYS_MASTER_KEY: oldKey, API_KEYS_MASTER_KEY_ID: "old" });
+
+  // Plaintext rows are still read until they are migrated.
+  assert.deepEqual(await getUserApiKeys("u1", "mainnet", { supabase, vault: oldVault }), {
+    apiKey: KEY,
+    apiSecret: SECRET,
+  });
+  const dryRun = await reencryptUserApiKeys({ supabase, vault: oldVault, dryRun: true });
+  assert.equal(dryRun.encrypted, 2);
+  assert.equal(supabase.rows[0].api_key, KEY);
+
+  const migrated = await reencryptUserApiKeys({ supabase, vault: oldVault });
+  assert.deepEqual(
+    [migrated.scanned, migrated.encrypted, migrated.rewrapped, migrated.failed.length],
+    [2, 2, 0, 0]
+  );
+  assert.ok(!JSON.stringify(supabase.rows).includes(SECRET));
+  const ciphertexts = supabase.rows.map((row) => row.secret_ciphertext);
+
+  const rotating = vaultWith({
+    API_KEYS_MASTER_KEY: newKey,
+    API_KEYS_MASTER_KEY_ID: "new",
+    API_KEYS_PREVIOUS_MASTER_KEYS: `old:${oldKey}`,
+  });
+  const rotated = await reencryptUserApiKeys({ supabase, vault: rotating });
+  assert.deepEqual([rotated.rewrapped, rotated.unchanged], [2, 0]);
+  assert.deepEqual(supabase.rows.map((row) => row.master_key_id), ["new", "new"]);
+  // Only the data keys were re-wrapped.
+  assert.deepEqual(supabase.rows.map((row) => row.secret_ciphertext), ciphertexts);
+
+  // The old master key is no longer needed.
+  const newOnly = vaultWith({ API_KEYS_MASTER_KEY: newKey, API_KEYS_MASTER_KEY_ID: "new" });
+  assert.deepEqual(await getUserApiKeys("u1", "mainnet", { supabase, vault: newOnly }), {
+    apiKey: KEY,
+    apiSecret: SECRET,
+  });
+  await assert.rejects(
+    () => getUserApiKeys("u1", "mainnet", { supabase, vault: oldVault }),
+    /Unknown master key id: new/
+  );
+  assert.equal((await reencryptUserApiKeys({ supabase, vault: newOnly })).unchanged, 2);
+
+  assert.throws(() => resolveMasterKeys({ API_KEYS_MASTER_KEY: "c2hvcnQ=" }), /32 bytes/);
+  assert.equal(resolveMasterKeys({}), null);
+});